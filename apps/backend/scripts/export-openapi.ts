@@ -0,0 +1,47 @@
+#!/usr/bin/env tsx
+/**
+ * Export the Public API OpenAPI spec
+ *
+ * Registers the public API routes without a database or listener and writes
+ * the generated document to disk, named after its version so published specs
+ * are never overwritten.
+ *
+ * Usage:
+ *   npx tsx scripts/export-openapi.ts [--out=dir]
+ *
+ * Options:
+ *   --out    Output directory (default: openapi)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Fastify from 'fastify';
+import { publicApiRoutes, PUBLIC_API_VERSION } from '../src/routes/public-api';
+
+async function main() {
+  const outArg = process.argv.find((arg) => arg.startsWith('--out='));
+  const outDir = path.resolve(outArg ? outArg.slice('--out='.length) : 'openapi');
+
+  const app = Fastify();
+  await app.register(publicApiRoutes, { prefix: '/api/v1/public' });
+  await app.ready();
+
+  const response = await app.inject({ method: 'GET', url: '/api/v1/public/openapi.json' });
+  if (response.statusCode !== 200) {
+    throw new Error(`Spec request failed with ${response.statusCode}`);
+  }
+
+  fs.mkdirSync(outDir, { recursive: true });
+  const file = path.join(outDir, `public-api-${PUBLIC_API_VERSION}.json`);
+  fs.writeFileSync(file, JSON.stringify(response.json(), null, 2) + '\n');
+
+  await app.close();
+  console.log(`✅ Wrote ${file}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('❌ Export failed:', error);
+    process.exit(1);
+  });
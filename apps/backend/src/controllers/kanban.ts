@@ -22,6 +22,7 @@ import {
 } from "../utils/kanban-transformers";
 import { WorkOrderAssignmentService } from "../services/work-order-assignment-service";
 import { ReminderService } from "../services/reminder-service";
+import { AssetService } from "../services/asset-service";
 
 export async function getKanbanData(
   request: FastifyRequest,
@@ -508,6 +509,7 @@ async function handleCreateTask(
     repeat,
     reminder,
     isPrivate,
+    assetId,
   } = taskData;
 
   // If clientId is provided, validate it belongs to the tenant
@@ -517,6 +519,20 @@ async function handleCreateTask(
     validatedClientId = clientId;
   }
 
+  if (assetId) {
+    const invalidAssets = await AssetService.findInvalidAssetIds(
+      tenant._id.toString(),
+      [assetId],
+      validatedClientId || undefined,
+    );
+    if (invalidAssets.length > 0) {
+      return reply.code(400).send({
+        success: false,
+        error: "Asset not found or doesn't belong to this client",
+      });
+    }
+  }
+
   // Validate assignees eligibility (active personnel only) and check assignment permissions
   let validatedAssignees: string[] = [];
   if (Array.isArray(assignees) ? assignees.length > 0 : !!assignee) {
@@ -638,6 +654,7 @@ async function handleCreateTask(
       workOrderNumber: resolvedWorkOrderNumber,
       workOrderTitle: resolvedWorkOrderTitle,
     }),
+    ...(assetId && { assetId }),
     // Add repeat information if provided
     ...(repeat && { repeat }),
     // Add reminder information if provided
@@ -1167,8 +1184,23 @@ async function handleUpdateTask(
     repeat,
     reminder,
     isPrivate,
+    assetId,
   } = taskData;
 
+  if (assetId) {
+    const invalidAssets = await AssetService.findInvalidAssetIds(
+      tenant._id.toString(),
+      [assetId],
+      (clientId ?? existingTask.clientId) || undefined,
+    );
+    if (invalidAssets.length > 0) {
+      return reply.code(400).send({
+        success: false,
+        error: "Asset not found or doesn't belong to this client",
+      });
+    }
+  }
+
   // Track what fields are being changed for notifications
   const changes: string[] = [];
 
@@ -1280,6 +1312,13 @@ async function handleUpdateTask(
   if (clientId !== undefined) updateData.clientId = clientId;
   if (clientName !== undefined) updateData.clientName = clientName;
   if (clientCompany !== undefined) updateData.clientCompany = clientCompany;
+  if (
+    assetId !== undefined &&
+    (assetId || null) !== (existingTask.assetId || null)
+  ) {
+    updateData.assetId = assetId || null;
+    changes.push("assetId");
+  }
   if (attachments !== undefined) {
     // Normalize attachments to string paths/URLs
     try {
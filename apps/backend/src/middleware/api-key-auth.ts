@@ -8,6 +8,7 @@ export interface ApiKeyRequest extends FastifyRequest {
     _id: string;
     tenantId: string;
     userId: string;
+    personnelId?: string;
     name: string;
     permissions: string[];
     rateLimitPerHour: number;
@@ -109,10 +110,13 @@ export async function authenticateApiKey(
       _id: apiKey._id,
       tenantId: apiKey.tenantId,
       userId: apiKey.userId || apiKey.personnelId || '',
+      personnelId: apiKey.personnelId,
       name: apiKey.name,
       permissions: apiKey.permissions,
       rateLimitPerHour: apiKey.rateLimitPerHour,
     };
+    // Lets the subscription limit checks run on API key requests
+    (request as any).tenantId = apiKey.tenantId;
 
   } catch (error) {
     console.error("API key authentication error:", error);
@@ -191,18 +195,28 @@ export const API_PERMISSIONS = [
   'clients.write',
   'clients.delete',
 
-  // Users
+  // Users (read only; users are managed in the app)
   'users.read',
-  'users.write',
-  'users.delete',
 
   // Calendar
   'calendar.read',
   'calendar.write',
   'calendar.delete',
 
+  // Materials
+  'materials.read',
+  'materials.write',
+  'materials.delete',
+
   // Reports
   'reports.read',
+  'reports.write',
+  'reports.delete',
+
+  // Time entries
+  'time_entries.read',
+  'time_entries.write',
+  'time_entries.delete',
 
   // Webhooks
   'webhooks.read',
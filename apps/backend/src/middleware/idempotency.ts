@@ -0,0 +1,194 @@
+import { createHash } from "crypto";
+import {
+  FastifyInstance,
+  FastifyReply,
+  FastifyRequest,
+  onSendHookHandler,
+  preHandlerHookHandler,
+} from "fastify";
+import { IdempotencyKey } from "../models/IdempotencyKey";
+
+// ----------------------------------------------------------------------
+
+export const IDEMPOTENCY_HEADER = "idempotency-key";
+export const IDEMPOTENT_REPLAY_HEADER = "idempotent-replayed";
+
+const MUTATING_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+
+// How long a stored response can be replayed
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+// A request that crashed mid-flight releases its key after this long
+const LOCK_TIMEOUT_MS = 60 * 1000;
+
+interface IdempotencyRequest extends FastifyRequest {
+  idempotencyRecordId?: string;
+}
+
+// ----------------------------------------------------------------------
+
+/**
+ * Resolve who the key belongs to. Keys are only honoured for authenticated
+ * callers so two users can never replay each other's responses.
+ */
+function getScope(request: FastifyRequest): string | null {
+  const { user, apiKey } = request as any;
+  if (apiKey?._id) {
+    return `${apiKey.tenantId}:apikey:${apiKey._id}`;
+  }
+  if (user?.id) {
+    return `${user.tenantId || "system"}:user:${user.id}`;
+  }
+  return null;
+}
+
+function getFingerprint(request: FastifyRequest): string {
+  // Multipart bodies are streamed, so only the target identifies them
+  const body =
+    request.body && typeof request.body === "object" && !request.isMultipart()
+      ? JSON.stringify(request.body)
+      : "";
+  return createHash("sha256")
+    .update(`${request.method} ${request.url}\n${body}`)
+    .digest("hex");
+}
+
+const idempotencyPreHandler = async (
+  request: FastifyRequest,
+  reply: FastifyReply,
+) => {
+  const header = request.headers[IDEMPOTENCY_HEADER];
+  const key = Array.isArray(header) ? header[0] : header;
+  if (!key) return;
+
+  if (key.length > 255) {
+    return reply.code(400).send({
+      success: false,
+      message: "Idempotency-Key must be at most 255 characters",
+    });
+  }
+
+  const scope = getScope(request);
+  if (!scope) return;
+
+  const fingerprint = getFingerprint(request);
+  const now = new Date();
+
+  try {
+    const record = await IdempotencyKey.create({
+      scope,
+      key,
+      method: request.method,
+      url: request.url,
+      fingerprint,
+      lockedAt: now,
+      expiresAt: new Date(now.getTime() + KEY_TTL_MS),
+    });
+    (request as IdempotencyRequest).idempotencyRecordId = record._id.toString();
+    return;
+  } catch (error: any) {
+    if (error?.code !== 11000) throw error;
+  }
+
+  const existing = await IdempotencyKey.findOne({ scope, key });
+  if (!existing) {
+    return reply.code(409).send({
+      success: false,
+      message: "A request with this Idempotency-Key is being processed",
+    });
+  }
+
+  if (existing.fingerprint !== fingerprint) {
+    return reply.code(422).send({
+      success: false,
+      message: "This Idempotency-Key was already used for a different request",
+    });
+  }
+
+  if (existing.status === "completed") {
+    reply.code(existing.statusCode || 200);
+    reply.header(IDEMPOTENT_REPLAY_HEADER, "true");
+    if (existing.contentType) {
+      reply.header("content-type", existing.contentType);
+    }
+    return reply.send(existing.responseBody ?? "");
+  }
+
+  // Take over a lock left behind by a request that never finished
+  const takenOver = await IdempotencyKey.findOneAndUpdate(
+    {
+      _id: existing._id,
+      status: "processing",
+      lockedAt: { $lt: new Date(now.getTime() - LOCK_TIMEOUT_MS) },
+    },
+    { lockedAt: now },
+    { new: true },
+  );
+  if (takenOver) {
+    (request as IdempotencyRequest).idempotencyRecordId =
+      takenOver._id.toString();
+    return;
+  }
+
+  return reply.code(409).send({
+    success: false,
+    message: "A request with this Idempotency-Key is being processed",
+  });
+};
+
+const idempotencyOnSend: onSendHookHandler = async (
+  request,
+  reply,
+  payload,
+) => {
+  const recordId = (request as IdempotencyRequest).idempotencyRecordId;
+  if (!recordId) return payload;
+
+  try {
+    // Server errors and streamed responses are not stored so the client can retry
+    if (reply.statusCode >= 500 || typeof payload !== "string") {
+      await IdempotencyKey.deleteOne({ _id: recordId });
+    } else {
+      await IdempotencyKey.updateOne(
+        { _id: recordId },
+        {
+          status: "completed",
+          statusCode: reply.statusCode,
+          responseBody: payload,
+          contentType: reply.getHeader("content-type")?.toString(),
+        },
+      );
+    }
+  } catch (error) {
+    request.log.error({ error }, "Failed to store idempotent response");
+  }
+
+  return payload;
+};
+
+/**
+ * Lets clients safely retry mutating requests by sending an Idempotency-Key
+ * header. The first response for a key is stored and replayed for retries,
+ * so queued offline mutations never apply twice.
+ *
+ * Must be registered before the routes it should apply to.
+ */
+export function registerIdempotency(fastify: FastifyInstance) {
+  fastify.addHook("onRoute", (routeOptions) => {
+    const methods = Array.isArray(routeOptions.method)
+      ? routeOptions.method
+      : [routeOptions.method];
+    if (!methods.some((method) => MUTATING_METHODS.has(method))) return;
+
+    // Route level hooks run after the plugin's authenticate hook, so the
+    // caller is known by the time the key is checked
+    const toArray = <T>(hooks?: T | T[]) =>
+      hooks ? (Array.isArray(hooks) ? hooks : [hooks]) : [];
+
+    routeOptions.preHandler = [
+      ...toArray(routeOptions.preHandler),
+      idempotencyPreHandler as preHandlerHookHandler,
+    ];
+    routeOptions.onSend = [...toArray(routeOptions.onSend), idempotencyOnSend];
+  });
+}
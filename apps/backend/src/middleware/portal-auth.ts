@@ -0,0 +1,87 @@
+import { FastifyRequest, FastifyReply } from "fastify";
+import jwt from "jsonwebtoken";
+import { Client, Tenant } from "../models";
+
+// ----------------------------------------------------------------------
+
+export const CLIENT_PORTAL_SCOPE = "client_portal";
+
+export interface PortalRequest extends FastifyRequest {
+  portal?: {
+    tenant: any;
+    client: any;
+    email: string;
+  };
+}
+
+// ----------------------------------------------------------------------
+
+/**
+ * Authenticate a client portal session. Portal tokens carry their own
+ * scope and never resolve to a staff user, so they cannot reach the
+ * dashboard API and staff tokens cannot reach the portal.
+ */
+export async function authenticatePortal(
+  request: FastifyRequest,
+  reply: FastifyReply,
+): Promise<void> {
+  try {
+    const token = request.headers.authorization?.replace("Bearer ", "");
+
+    if (!token) {
+      return reply.code(401).send({
+        success: false,
+        message: "No token provided",
+      });
+    }
+
+    const decoded = jwt.verify(
+      token,
+      process.env.JWT_SECRET || "fallback-secret",
+    ) as any;
+
+    if (decoded.scope !== CLIENT_PORTAL_SCOPE || !decoded.clientId) {
+      return reply.code(401).send({
+        success: false,
+        message: "Invalid portal session",
+      });
+    }
+
+    const tenant = await Tenant.findOne({
+      _id: decoded.tenantId,
+      isActive: true,
+    });
+    if (!tenant) {
+      return reply.code(401).send({
+        success: false,
+        message: "No active tenant found",
+      });
+    }
+
+    const client = await Client.findOne({
+      _id: decoded.clientId,
+      tenantId: tenant._id.toString(),
+      isActive: true,
+    });
+    if (!client) {
+      return reply.code(401).send({
+        success: false,
+        message: "Portal access has been revoked",
+      });
+    }
+
+    (request as PortalRequest).portal = {
+      tenant,
+      client,
+      email: decoded.email,
+    };
+    // Subscription guards read the tenant from here
+    (request as any).tenantId = tenant._id.toString();
+  } catch (error) {
+    console.error("Portal authentication error:", error);
+    return reply.code(401).send({
+      success: false,
+      message: "Authentication failed",
+    });
+  }
+}
@@ -0,0 +1,94 @@
+import { model, Schema, models } from "mongoose";
+
+// ----------------------------------------------------------------------
+
+export type AssetStatus = "active" | "inactive" | "retired";
+
+export interface IAssetAttribute {
+  key: string;
+  value: string;
+}
+
+export interface IAsset {
+  _id: string;
+  tenantId: string;
+  clientId: string;
+  name: string;
+  category?: string;
+  make?: string;
+  model?: string;
+  serialNumber?: string;
+  assetTag?: string; // Tenant's own label / barcode
+  site: {
+    name?: string;
+    address?: string;
+    location?: string; // Where on site, e.g. "Basement plant room"
+  };
+  installDate?: Date;
+  warrantyExpiry?: Date;
+  status: AssetStatus;
+  attributes: IAssetAttribute[];
+  notes?: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ----------------------------------------------------------------------
+
+const AssetSchema = new Schema<IAsset>(
+  {
+    tenantId: {
+      type: String,
+      required: [true, "Tenant ID is required"],
+      index: true,
+    },
+    clientId: {
+      type: String,
+      required: [true, "Client is required"],
+      ref: "Client",
+    },
+    name: {
+      type: String,
+      required: [true, "Asset name is required"],
+      trim: true,
+    },
+    category: { type: String, trim: true },
+    make: { type: String, trim: true },
+    model: { type: String, trim: true },
+    serialNumber: { type: String, trim: true },
+    assetTag: { type: String, trim: true },
+    site: {
+      name: { type: String, trim: true },
+      address: { type: String, trim: true },
+      location: { type: String, trim: true },
+    },
+    installDate: { type: Date },
+    warrantyExpiry: { type: Date },
+    status: {
+      type: String,
+      enum: ["active", "inactive", "retired"],
+      default: "active",
+    },
+    attributes: [
+      {
+        _id: false,
+        key: { type: String, required: true, trim: true },
+        value: { type: String, trim: true, default: "" },
+      },
+    ],
+    notes: { type: String, trim: true },
+    createdBy: { type: String, ref: "User", required: true },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// ----------------------------------------------------------------------
+
+AssetSchema.index({ tenantId: 1, clientId: 1, status: 1 });
+AssetSchema.index({ tenantId: 1, serialNumber: 1 });
+AssetSchema.index({ tenantId: 1, warrantyExpiry: 1 });
+
+export const Asset = models.Asset || model<IAsset>("Asset", AssetSchema);
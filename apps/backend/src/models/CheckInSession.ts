@@ -1,6 +1,18 @@
 import type { Document, Model } from "mongoose";
 import mongoose, { Schema } from "mongoose";
 
+export type AttendanceReviewStatus = "pending" | "approved" | "rejected";
+
+// A GPS fix stamped on the session, compared against the site geofence
+export interface ISessionLocation {
+  latitude: number;
+  longitude: number;
+  accuracy?: number; // Metres, as reported by the device
+  capturedAt: Date;
+  distanceMeters?: number; // From the work order site, when it has coordinates
+  withinGeofence?: boolean;
+}
+
 export interface ICheckInSession extends Document {
   _id: string;
   tenantId: string;
@@ -15,6 +27,23 @@ export interface ICheckInSession extends Document {
   clientSessionId?: string; // Browser session identifier
   lastHeartbeat?: Date; // For detecting stale sessions
   autoCheckoutAfter?: Date; // Auto-checkout time if configured
+  // Attendance verification
+  geofence?: {
+    latitude: number;
+    longitude: number;
+    radiusMeters: number;
+  }; // Site fence at the time of check-in
+  checkInLocation?: ISessionLocation;
+  lastLocation?: ISessionLocation; // Latest heartbeat fix
+  checkOutLocation?: ISessionLocation;
+  outsideLocation?: ISessionLocation; // First fix outside the fence, kept as evidence
+  outsideGeofence: boolean;
+  review?: {
+    status: AttendanceReviewStatus;
+    reviewedBy?: string;
+    reviewedAt?: Date;
+    notes?: string;
+  };
   createdAt: Date;
   updatedAt: Date;
 }
@@ -35,6 +64,18 @@ export interface ICheckInSessionModel extends Model<ICheckInSession> {
   cleanupStaleSessions(staleDurationMinutes?: number): Promise<number>;
 }
 
+const SessionLocationSchema = new Schema<ISessionLocation>(
+  {
+    latitude: { type: Number, required: true },
+    longitude: { type: Number, required: true },
+    accuracy: { type: Number },
+    capturedAt: { type: Date, required: true },
+    distanceMeters: { type: Number },
+    withinGeofence: { type: Boolean },
+  },
+  { _id: false }
+);
+
 const CheckInSessionSchema = new Schema<ICheckInSession>(
   {
     tenantId: { type: String, required: true, index: true },
@@ -54,6 +95,26 @@ const CheckInSessionSchema = new Schema<ICheckInSession>(
     clientSessionId: { type: String }, // Browser fingerprint/session ID
     lastHeartbeat: { type: Date, default: Date.now },
     autoCheckoutAfter: { type: Date }, // Optional auto-checkout
+    // Attendance verification
+    geofence: {
+      latitude: { type: Number },
+      longitude: { type: Number },
+      radiusMeters: { type: Number },
+    },
+    checkInLocation: { type: SessionLocationSchema },
+    lastLocation: { type: SessionLocationSchema },
+    checkOutLocation: { type: SessionLocationSchema },
+    outsideLocation: { type: SessionLocationSchema },
+    outsideGeofence: { type: Boolean, default: false },
+    review: {
+      status: {
+        type: String,
+        enum: ["pending", "approved", "rejected"],
+      },
+      reviewedBy: { type: String, ref: "User" },
+      reviewedAt: { type: Date },
+      notes: { type: String, trim: true },
+    },
   },
   {
     timestamps: true
@@ -69,6 +130,9 @@ CheckInSessionSchema.index(
   }
 );
 
+// Supervisor review queue
+CheckInSessionSchema.index({ tenantId: 1, outsideGeofence: 1, "review.status": 1, checkInTime: -1 });
+
 // Virtual for session duration
 CheckInSessionSchema.virtual('duration').get(function() {
   if (!this.checkInTime) return 0;
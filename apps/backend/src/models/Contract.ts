@@ -0,0 +1,253 @@
+import { model, Schema, models } from "mongoose";
+import { PRIORITY_VALUES } from "../constants/priorities";
+
+// ----------------------------------------------------------------------
+
+export type ContractStatus =
+  | "draft"
+  | "active"
+  | "suspended"
+  | "expired"
+  | "cancelled";
+
+export type ContractFrequencyUnit = "week" | "month" | "year";
+
+export type ContractRenewalType = "none" | "manual" | "auto";
+
+export type ContractBillingCycle =
+  | "one_time"
+  | "monthly"
+  | "quarterly"
+  | "annual";
+
+export interface IContractSite {
+  _id?: string;
+  name: string;
+  address: string;
+  coordinates?: {
+    latitude: number;
+    longitude: number;
+  };
+  notes?: string;
+}
+
+export interface IContractEquipment {
+  _id?: string;
+  name: string;
+  siteId?: string; // Site subdocument the equipment is installed at
+  manufacturer?: string;
+  model?: string;
+  serialNumber?: string;
+  notes?: string;
+}
+
+export interface IContractTemplateTask {
+  _id?: string;
+  title: string;
+  description?: string;
+  estimatedHours?: number;
+}
+
+export interface IContractTemplateMaterial {
+  _id?: string;
+  materialId?: string;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface IContract {
+  _id: string;
+  tenantId: string;
+  contractNumber: string;
+  clientId: string;
+  title: string;
+  description?: string;
+  status: ContractStatus;
+  sites: IContractSite[];
+  equipment: IContractEquipment[];
+  schedule: {
+    interval: number; // Every <interval> <unit>s, e.g. every 3 months
+    unit: ContractFrequencyUnit;
+    firstVisitDate: Date; // Anchor the visit dates are counted from
+    leadDays: number; // How far ahead of a visit its work order is created
+    nextVisitIndex: number; // Visits generated so far
+    nextVisitDate?: Date;
+    nextGenerationAt?: Date; // nextVisitDate minus leadDays
+  };
+  price: {
+    amount: number;
+    currency: string;
+    billingCycle: ContractBillingCycle;
+  };
+  startDate: Date;
+  endDate: Date;
+  termStartDate: Date; // Start of the current term; moves on renewal
+  renewal: {
+    type: ContractRenewalType;
+    termMonths: number;
+    noticeDays: number;
+    renewedAt?: Date;
+  };
+  workOrderTemplate: {
+    title?: string; // Defaults to the contract title
+    details?: string;
+    priority: (typeof PRIORITY_VALUES)[number];
+    estimatedHours?: number;
+    personnelIds: string[];
+    tasks: IContractTemplateTask[];
+    materials: IContractTemplateMaterial[];
+  };
+  notes?: string;
+  lastGeneratedAt?: Date;
+  createdBy: string;
+  history: Array<{
+    status: string;
+    timestamp: Date;
+    userId?: string;
+    notes?: string;
+  }>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ----------------------------------------------------------------------
+
+const ContractSiteSchema = new Schema<IContractSite>(
+  {
+    name: { type: String, required: true, trim: true },
+    address: { type: String, required: true, trim: true },
+    coordinates: {
+      latitude: { type: Number },
+      longitude: { type: Number },
+    },
+    notes: { type: String, trim: true },
+  },
+  { _id: true },
+);
+
+const ContractEquipmentSchema = new Schema<IContractEquipment>(
+  {
+    name: { type: String, required: true, trim: true },
+    siteId: { type: String },
+    manufacturer: { type: String, trim: true },
+    model: { type: String, trim: true },
+    serialNumber: { type: String, trim: true },
+    notes: { type: String, trim: true },
+  },
+  { _id: true },
+);
+
+const ContractSchema = new Schema<IContract>(
+  {
+    tenantId: {
+      type: String,
+      required: [true, "Tenant ID is required"],
+      index: true,
+    },
+    contractNumber: { type: String, required: true, trim: true },
+    clientId: {
+      type: String,
+      required: [true, "Client is required"],
+      ref: "Client",
+    },
+    title: {
+      type: String,
+      required: [true, "Title is required"],
+      trim: true,
+    },
+    description: { type: String, trim: true },
+    status: {
+      type: String,
+      enum: ["draft", "active", "suspended", "expired", "cancelled"],
+      default: "draft",
+    },
+    sites: [ContractSiteSchema],
+    equipment: [ContractEquipmentSchema],
+    schedule: {
+      interval: { type: Number, required: true, min: 1, default: 1 },
+      unit: {
+        type: String,
+        enum: ["week", "month", "year"],
+        default: "month",
+      },
+      firstVisitDate: { type: Date, required: true },
+      leadDays: { type: Number, default: 14, min: 0 },
+      nextVisitIndex: { type: Number, default: 0, min: 0 },
+      nextVisitDate: { type: Date },
+      nextGenerationAt: { type: Date },
+    },
+    price: {
+      amount: { type: Number, default: 0, min: 0 },
+      currency: { type: String, default: "EUR" },
+      billingCycle: {
+        type: String,
+        enum: ["one_time", "monthly", "quarterly", "annual"],
+        default: "annual",
+      },
+    },
+    startDate: { type: Date, required: [true, "Start date is required"] },
+    endDate: { type: Date, required: [true, "End date is required"] },
+    termStartDate: { type: Date, required: true },
+    renewal: {
+      type: {
+        type: String,
+        enum: ["none", "manual", "auto"],
+        default: "manual",
+      },
+      termMonths: { type: Number, default: 12, min: 1 },
+      noticeDays: { type: Number, default: 30, min: 0 },
+      renewedAt: { type: Date },
+    },
+    workOrderTemplate: {
+      title: { type: String, trim: true },
+      details: { type: String, trim: true },
+      priority: {
+        type: String,
+        enum: PRIORITY_VALUES,
+        default: "medium",
+      },
+      estimatedHours: { type: Number, min: 0 },
+      personnelIds: [{ type: String, ref: "Personnel" }],
+      tasks: [
+        {
+          title: { type: String, required: true, trim: true },
+          description: { type: String, trim: true },
+          estimatedHours: { type: Number, min: 0 },
+        },
+      ],
+      materials: [
+        {
+          materialId: { type: String, ref: "Material" },
+          name: { type: String, required: true, trim: true },
+          quantity: { type: Number, required: true, min: 0 },
+          unitPrice: { type: Number, default: 0, min: 0 },
+        },
+      ],
+    },
+    notes: { type: String, trim: true },
+    lastGeneratedAt: { type: Date },
+    createdBy: { type: String, ref: "User", required: true },
+    history: [
+      {
+        status: { type: String, required: true },
+        timestamp: { type: Date, default: Date.now },
+        userId: { type: String, ref: "User" },
+        notes: { type: String, trim: true },
+      },
+    ],
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// ----------------------------------------------------------------------
+
+ContractSchema.index({ tenantId: 1, contractNumber: 1 }, { unique: true });
+ContractSchema.index({ tenantId: 1, clientId: 1 });
+ContractSchema.index({ tenantId: 1, status: 1, endDate: 1 });
+ContractSchema.index({ status: 1, "schedule.nextGenerationAt": 1 });
+
+export const Contract =
+  models.Contract || model<IContract>("Contract", ContractSchema);
@@ -0,0 +1,81 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type IdempotencyKeyStatus = "processing" | "completed";
+
+export interface IIdempotencyKey extends Document {
+  _id: mongoose.Types.ObjectId;
+  scope: string; // Caller the key belongs to, e.g. "<tenantId>:user:<userId>"
+  key: string; // Client generated Idempotency-Key header value
+  method: string;
+  url: string;
+  fingerprint: string; // Hash of method, url and body, to detect key reuse
+  status: IdempotencyKeyStatus;
+  statusCode?: number;
+  responseBody?: string;
+  contentType?: string;
+  lockedAt: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const idempotencyKeySchema = new Schema<IIdempotencyKey>(
+  {
+    scope: {
+      type: String,
+      required: true,
+    },
+    key: {
+      type: String,
+      required: true,
+      maxlength: 255,
+    },
+    method: {
+      type: String,
+      required: true,
+    },
+    url: {
+      type: String,
+      required: true,
+    },
+    fingerprint: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["processing", "completed"],
+      default: "processing",
+    },
+    statusCode: {
+      type: Number,
+    },
+    responseBody: {
+      type: String,
+    },
+    contentType: {
+      type: String,
+    },
+    lockedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+idempotencyKeySchema.index({ scope: 1, key: 1 }, { unique: true });
+
+// Stored responses are only replayable for a limited window
+idempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const IdempotencyKey = mongoose.model<IIdempotencyKey>(
+  "IdempotencyKey",
+  idempotencyKeySchema,
+);
@@ -0,0 +1,103 @@
+import { model, Schema, models } from "mongoose";
+
+// ----------------------------------------------------------------------
+
+export const INSPECTION_FIELD_TYPES = [
+  "yes_no",
+  "number",
+  "text",
+  "photo",
+  "signature",
+  "select",
+] as const;
+
+export type InspectionFieldType = (typeof INSPECTION_FIELD_TYPES)[number];
+
+export interface IInspectionFormField {
+  key: string; // Stable id answers refer to; survives label changes
+  label: string;
+  type: InspectionFieldType;
+  required: boolean;
+  section?: string; // Heading the field is grouped under
+  helpText?: string;
+  options: string[]; // select
+  failOptions: string[]; // yes_no / select answers that fail the item
+  min?: number; // number: readings outside min..max fail
+  max?: number;
+  unit?: string;
+}
+
+export interface IInspectionForm {
+  _id: string;
+  tenantId: string;
+  name: string;
+  description?: string;
+  isActive: boolean;
+  version: number; // Bumped whenever the fields change
+  fields: IInspectionFormField[];
+  // Where technicians are offered the form
+  appliesTo: {
+    reportTypes: string[];
+    assetCategories: string[];
+    assetIds: string[];
+  };
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ----------------------------------------------------------------------
+
+const InspectionFormFieldSchema = new Schema<IInspectionFormField>(
+  {
+    key: { type: String, required: true, trim: true },
+    label: { type: String, required: true, trim: true },
+    type: { type: String, enum: INSPECTION_FIELD_TYPES, required: true },
+    required: { type: Boolean, default: false },
+    section: { type: String, trim: true },
+    helpText: { type: String, trim: true },
+    options: [{ type: String, trim: true }],
+    failOptions: [{ type: String, trim: true }],
+    min: { type: Number },
+    max: { type: Number },
+    unit: { type: String, trim: true },
+  },
+  { _id: false },
+);
+
+const InspectionFormSchema = new Schema<IInspectionForm>(
+  {
+    tenantId: {
+      type: String,
+      required: [true, "Tenant ID is required"],
+      index: true,
+    },
+    name: {
+      type: String,
+      required: [true, "Form name is required"],
+      trim: true,
+    },
+    description: { type: String, trim: true },
+    isActive: { type: Boolean, default: true },
+    version: { type: Number, default: 1, min: 1 },
+    fields: [InspectionFormFieldSchema],
+    appliesTo: {
+      reportTypes: [{ type: String }],
+      assetCategories: [{ type: String, trim: true }],
+      assetIds: [{ type: String, ref: "Asset" }],
+    },
+    createdBy: { type: String, ref: "User", required: true },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// ----------------------------------------------------------------------
+
+InspectionFormSchema.index({ tenantId: 1, name: 1 }, { unique: true });
+InspectionFormSchema.index({ tenantId: 1, isActive: 1 });
+
+export const InspectionForm =
+  models.InspectionForm ||
+  model<IInspectionForm>("InspectionForm", InspectionFormSchema);
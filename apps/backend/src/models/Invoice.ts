@@ -0,0 +1,223 @@
+import { model, Schema, models } from "mongoose";
+
+// ----------------------------------------------------------------------
+
+export type InvoiceStatus =
+  | "draft"
+  | "issued"
+  | "partial"
+  | "paid"
+  | "overdue"
+  | "void";
+
+export interface IInvoiceLineItem {
+  _id?: string;
+  type: "labor" | "material" | "custom";
+  description: string;
+  quantity: number;
+  unit?: string;
+  unitPrice: number;
+  total: number;
+  reportId?: string; // Source report, when generated from an approved report
+  materialId?: string;
+}
+
+export interface IInvoicePayment {
+  _id?: string;
+  amount: number;
+  paidAt: Date;
+  method?: "cash" | "card" | "bank_transfer" | "cheque" | "other";
+  reference?: string;
+  notes?: string;
+  recordedBy?: string;
+}
+
+export interface IInvoice {
+  _id: string;
+  tenantId: string;
+  invoiceNumber?: string; // Assigned from the tenant sequence when issued
+  clientId: string;
+  workOrderId?: string;
+  reportIds: string[];
+  // Snapshot of the billed party at issue time
+  billTo: {
+    name: string;
+    company?: string;
+    email?: string;
+    vatNumber?: string;
+    address?: {
+      street?: string;
+      city?: string;
+      state?: string;
+      zipCode?: string;
+      country?: string;
+    };
+  };
+  status: InvoiceStatus;
+  lineItems: IInvoiceLineItem[];
+  currency: string;
+  subtotal: number;
+  taxRate: number; // Percentage, e.g. 24 for 24%
+  taxAmount: number;
+  total: number;
+  amountPaid: number;
+  balanceDue: number;
+  payments: IInvoicePayment[];
+  issueDate?: Date;
+  dueDate?: Date;
+  paidAt?: Date;
+  notes?: string;
+  createdBy: string;
+  history: Array<{
+    status: string;
+    timestamp: Date;
+    userId?: string;
+    notes?: string;
+  }>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ----------------------------------------------------------------------
+
+const AddressSchema = {
+  street: { type: String, trim: true },
+  city: { type: String, trim: true },
+  state: { type: String, trim: true },
+  zipCode: { type: String, trim: true },
+  country: { type: String, trim: true },
+};
+
+const InvoiceLineItemSchema = new Schema<IInvoiceLineItem>(
+  {
+    type: {
+      type: String,
+      enum: ["labor", "material", "custom"],
+      required: true,
+    },
+    description: { type: String, required: true, trim: true },
+    quantity: { type: Number, required: true, min: 0 },
+    unit: { type: String, trim: true },
+    unitPrice: { type: Number, required: true, min: 0 },
+    total: { type: Number, required: true, min: 0 },
+    reportId: { type: String, ref: "Report" },
+    materialId: { type: String, ref: "Material" },
+  },
+  { _id: true },
+);
+
+const InvoicePaymentSchema = new Schema<IInvoicePayment>(
+  {
+    amount: { type: Number, required: true, min: 0 },
+    paidAt: { type: Date, default: Date.now },
+    method: {
+      type: String,
+      enum: ["cash", "card", "bank_transfer", "cheque", "other"],
+    },
+    reference: { type: String, trim: true },
+    notes: { type: String, trim: true },
+    recordedBy: { type: String },
+  },
+  { _id: true },
+);
+
+const InvoiceSchema = new Schema<IInvoice>(
+  {
+    tenantId: {
+      type: String,
+      required: [true, "Tenant ID is required"],
+      index: true,
+    },
+    invoiceNumber: {
+      type: String,
+      trim: true,
+    },
+    clientId: {
+      type: String,
+      required: [true, "Client ID is required"],
+      ref: "Client",
+    },
+    workOrderId: { type: String, ref: "WorkOrder" },
+    reportIds: [{ type: String, ref: "Report" }],
+    billTo: {
+      name: { type: String, required: true, trim: true },
+      company: { type: String, trim: true },
+      email: { type: String, trim: true },
+      vatNumber: { type: String, trim: true },
+      address: AddressSchema,
+    },
+    status: {
+      type: String,
+      enum: ["draft", "issued", "partial", "paid", "overdue", "void"],
+      default: "draft",
+    },
+    lineItems: [InvoiceLineItemSchema],
+    currency: { type: String, default: "EUR" },
+    subtotal: { type: Number, default: 0, min: 0 },
+    taxRate: { type: Number, default: 0, min: 0, max: 100 },
+    taxAmount: { type: Number, default: 0, min: 0 },
+    total: { type: Number, default: 0, min: 0 },
+    amountPaid: { type: Number, default: 0, min: 0 },
+    balanceDue: { type: Number, default: 0 },
+    payments: [InvoicePaymentSchema],
+    issueDate: { type: Date },
+    dueDate: { type: Date },
+    paidAt: { type: Date },
+    notes: { type: String, trim: true },
+    createdBy: { type: String, required: true },
+    history: [
+      {
+        status: { type: String, required: true },
+        timestamp: { type: Date, default: Date.now },
+        userId: { type: String },
+        notes: { type: String, trim: true },
+      },
+    ],
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// ----------------------------------------------------------------------
+
+// Indexes for better performance
+// Drafts have no number yet, so uniqueness only applies once issued
+InvoiceSchema.index(
+  { tenantId: 1, invoiceNumber: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { invoiceNumber: { $type: "string" } },
+  },
+);
+InvoiceSchema.index({ tenantId: 1, clientId: 1 });
+InvoiceSchema.index({ tenantId: 1, status: 1, dueDate: 1 });
+InvoiceSchema.index({ tenantId: 1, workOrderId: 1 });
+InvoiceSchema.index({ tenantId: 1, reportIds: 1 });
+InvoiceSchema.index({ tenantId: 1, createdAt: -1 });
+
+// Recalculate totals and balance whenever lines, tax or payments change
+InvoiceSchema.pre("save", function (next) {
+  let subtotal = 0;
+
+  for (const item of this.lineItems) {
+    item.total = Math.round(item.quantity * item.unitPrice * 100) / 100;
+    subtotal += item.total;
+  }
+
+  this.subtotal = Math.round(subtotal * 100) / 100;
+  this.taxAmount = Math.round(this.subtotal * (this.taxRate || 0)) / 100;
+  this.total = Math.round((this.subtotal + this.taxAmount) * 100) / 100;
+  this.amountPaid =
+    Math.round(
+      this.payments.reduce((sum, payment) => sum + payment.amount, 0) * 100,
+    ) / 100;
+  this.balanceDue = Math.round((this.total - this.amountPaid) * 100) / 100;
+
+  next();
+});
+
+// ----------------------------------------------------------------------
+
+export const Invoice =
+  models.Invoice || model<IInvoice>("Invoice", InvoiceSchema);
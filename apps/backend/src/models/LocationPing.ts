@@ -0,0 +1,83 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface ILocationPing extends Document {
+  _id: mongoose.Types.ObjectId;
+  tenantId: string;
+  personnelId: string;
+  userId: string;
+  latitude: number;
+  longitude: number;
+  accuracy?: number; // Metres, as reported by the device
+  heading?: number; // Degrees clockwise from north
+  speed?: number; // Metres per second
+  capturedAt: Date;
+  taskId?: string; // Task the technician was checked in to, if any
+  expiresAt: Date; // Set from the tenant's tracking retention
+  createdAt: Date;
+}
+
+const locationPingSchema = new Schema<ILocationPing>(
+  {
+    tenantId: {
+      type: String,
+      required: true,
+    },
+    personnelId: {
+      type: String,
+      required: true,
+      ref: "Personnel",
+    },
+    userId: {
+      type: String,
+      required: true,
+      ref: "User",
+    },
+    latitude: {
+      type: Number,
+      required: true,
+      min: -90,
+      max: 90,
+    },
+    longitude: {
+      type: Number,
+      required: true,
+      min: -180,
+      max: 180,
+    },
+    accuracy: {
+      type: Number,
+    },
+    heading: {
+      type: Number,
+    },
+    speed: {
+      type: Number,
+    },
+    capturedAt: {
+      type: Date,
+      required: true,
+    },
+    taskId: {
+      type: String,
+      ref: "Task",
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  },
+);
+
+// Breadcrumb trail per technician and day
+locationPingSchema.index({ tenantId: 1, personnelId: 1, capturedAt: 1 });
+
+// Points are purged once the retention window has passed
+locationPingSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const LocationPing = mongoose.model<ILocationPing>(
+  "LocationPing",
+  locationPingSchema,
+);
@@ -6,7 +6,7 @@ export interface IMagicLink extends Document {
   email: string; // Email associated with the magic link
   tenantId: mongoose.Types.ObjectId; // Tenant this magic link belongs to
   userId?: mongoose.Types.ObjectId; // User ID if user already exists
-  type: 'personnel_invitation' | 'tenant_activation' | 'password_reset'; // Type of magic link
+  type: 'personnel_invitation' | 'tenant_activation' | 'password_reset' | 'client_portal'; // Type of magic link
   metadata?: {
     firstName?: string;
     lastName?: string;
@@ -49,7 +49,7 @@ const magicLinkSchema = new Schema<IMagicLink>(
     },
     type: {
       type: String,
-      enum: ['personnel_invitation', 'tenant_activation', 'password_reset'],
+      enum: ['personnel_invitation', 'tenant_activation', 'password_reset', 'client_portal'],
       required: true,
     },
     metadata: {
@@ -15,10 +15,13 @@ export interface IMaterial extends Document {
   barcode?: string;
   unit: string;
   unitCost: number;
-  quantity: number;
+  quantity: number; // Derived from the stock movement ledger
+  reservedQuantity: number; // Planned on open work orders, not yet consumed
   minimumStock?: number;
+  lowStockNotifiedAt?: Date;
   location?: string;
-  supplier?: string;
+  supplier?: string; // Supplier name, kept in sync with supplierId
+  supplierId?: string;
   customFields: Map<string, any>;
   isActive: boolean;
   status: 'active' | 'inactive' | 'discontinued';
@@ -76,9 +79,14 @@ const MaterialSchema: Schema = new Schema(
       min: 0,
       default: 0,
     },
+    // Can go negative when recorded field usage outruns recorded receipts
     quantity: {
       type: Number,
       required: [true, 'Quantity is required'],
+      default: 0,
+    },
+    reservedQuantity: {
+      type: Number,
       min: 0,
       default: 0,
     },
@@ -87,6 +95,9 @@ const MaterialSchema: Schema = new Schema(
       min: 0,
       default: 0,
     },
+    lowStockNotifiedAt: {
+      type: Date,
+    },
     location: {
       type: String,
       trim: true,
@@ -97,6 +108,10 @@ const MaterialSchema: Schema = new Schema(
       trim: true,
       default: '',
     },
+    supplierId: {
+      type: String,
+      ref: 'Supplier',
+    },
     customFields: {
       type: Map,
       of: Schema.Types.Mixed,
@@ -128,6 +143,7 @@ MaterialSchema.index({ tenantId: 1, barcode: 1 }, { sparse: true });
 MaterialSchema.index({ tenantId: 1, category: 1 });
 MaterialSchema.index({ tenantId: 1, isActive: 1 });
 MaterialSchema.index({ tenantId: 1, status: 1 });
+MaterialSchema.index({ tenantId: 1, supplierId: 1 });
 
 // Text index for search functionality
 MaterialSchema.index({
@@ -7,12 +7,12 @@ export interface INotification extends Document {
   _id: string;
   tenantId: string;
   userId: string; // The user who should receive this notification
-  type: 'task_created' | 'task_updated' | 'task_assigned' | 'task_completed' | 'task_deleted' | 'time_logged' | 'time_updated';
+  type: 'task_created' | 'task_updated' | 'task_assigned' | 'task_completed' | 'task_deleted' | 'time_logged' | 'time_updated' | 'low_stock' | 'sla_warning' | 'sla_breached';
   title: string;
   message?: string;
-  category: 'task' | 'system' | 'reminder';
+  category: 'task' | 'system' | 'reminder' | 'inventory';
   relatedEntity: {
-    entityType: 'task' | 'workorder' | 'project';
+    entityType: 'task' | 'workorder' | 'project' | 'material';
     entityId: string;
     entityTitle?: string;
   };
@@ -20,6 +20,7 @@ export interface INotification extends Document {
     taskId?: string;
     workOrderId?: string;
     projectId?: string;
+    materialId?: string;
     changes?: string[]; // Array of changed fields for update notifications
     assignerId?: string; // User who made the assignment
     reporterId?: string; // Task reporter
@@ -48,7 +49,7 @@ const NotificationSchema = new Schema<INotification>(
     },
     type: {
       type: String,
-      enum: ['task_created', 'task_updated', 'task_assigned', 'task_completed', 'task_deleted', 'time_logged', 'time_updated'],
+      enum: ['task_created', 'task_updated', 'task_assigned', 'task_completed', 'task_deleted', 'time_logged', 'time_updated', 'low_stock', 'sla_warning', 'sla_breached'],
       required: true,
     },
     title: {
@@ -62,13 +63,13 @@ const NotificationSchema = new Schema<INotification>(
     },
     category: {
       type: String,
-      enum: ['task', 'system', 'reminder'],
+      enum: ['task', 'system', 'reminder', 'inventory'],
       default: 'task',
     },
     relatedEntity: {
       entityType: {
         type: String,
-        enum: ['task', 'workorder', 'project'],
+        enum: ['task', 'workorder', 'project', 'material'],
         required: true,
       },
       entityId: {
@@ -84,6 +85,7 @@ const NotificationSchema = new Schema<INotification>(
       taskId: String,
       workOrderId: String,
       projectId: String,
+      materialId: String,
       changes: [String],
       assignerId: String,
       reporterId: String,
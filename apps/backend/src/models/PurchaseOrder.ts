@@ -0,0 +1,173 @@
+import { model, Schema, models } from "mongoose";
+
+// ----------------------------------------------------------------------
+
+export type PurchaseOrderStatus =
+  | "draft"
+  | "sent"
+  | "partially_received"
+  | "received"
+  | "cancelled";
+
+export interface IPurchaseOrderLine {
+  _id?: string;
+  materialId: string;
+  description: string; // Material name at the time of ordering
+  sku?: string;
+  unit?: string;
+  quantity: number;
+  receivedQuantity: number;
+  unitCost: number;
+  total: number;
+}
+
+export interface IPurchaseOrderReceipt {
+  _id?: string;
+  receivedAt: Date;
+  receivedBy: string;
+  locationId?: string;
+  lines: Array<{
+    lineId: string;
+    quantity: number;
+    unitCost: number;
+  }>;
+  notes?: string;
+}
+
+export interface IPurchaseOrder {
+  _id: string;
+  tenantId: string;
+  poNumber: string;
+  supplierId: string;
+  status: PurchaseOrderStatus;
+  lines: IPurchaseOrderLine[];
+  currency: string;
+  subtotal: number;
+  taxRate: number; // Percentage, e.g. 24 for 24%
+  taxAmount: number;
+  total: number;
+  // Where received stock is put away; defaults to the default warehouse
+  locationId?: string;
+  expectedDate?: Date;
+  notes?: string;
+  sentAt?: Date;
+  receivedAt?: Date;
+  cancelledAt?: Date;
+  receipts: IPurchaseOrderReceipt[];
+  createdBy: string;
+  history: Array<{
+    status: string;
+    timestamp: Date;
+    userId?: string;
+    notes?: string;
+  }>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ----------------------------------------------------------------------
+
+const PurchaseOrderLineSchema = new Schema<IPurchaseOrderLine>(
+  {
+    materialId: { type: String, ref: "Material", required: true },
+    description: { type: String, required: true, trim: true },
+    sku: { type: String, trim: true },
+    unit: { type: String, trim: true },
+    quantity: { type: Number, required: true, min: 0 },
+    receivedQuantity: { type: Number, default: 0, min: 0 },
+    unitCost: { type: Number, required: true, min: 0 },
+    total: { type: Number, required: true, min: 0 },
+  },
+  { _id: true },
+);
+
+const PurchaseOrderReceiptSchema = new Schema<IPurchaseOrderReceipt>(
+  {
+    receivedAt: { type: Date, default: Date.now },
+    receivedBy: { type: String, ref: "User", required: true },
+    locationId: { type: String, ref: "StockLocation" },
+    lines: [
+      {
+        _id: false,
+        lineId: { type: String, required: true },
+        quantity: { type: Number, required: true, min: 0 },
+        unitCost: { type: Number, required: true, min: 0 },
+      },
+    ],
+    notes: { type: String, trim: true },
+  },
+  { _id: true },
+);
+
+const PurchaseOrderSchema = new Schema<IPurchaseOrder>(
+  {
+    tenantId: {
+      type: String,
+      required: [true, "Tenant ID is required"],
+      index: true,
+    },
+    poNumber: { type: String, required: true, trim: true },
+    supplierId: {
+      type: String,
+      required: [true, "Supplier is required"],
+      ref: "Supplier",
+    },
+    status: {
+      type: String,
+      enum: ["draft", "sent", "partially_received", "received", "cancelled"],
+      default: "draft",
+    },
+    lines: [PurchaseOrderLineSchema],
+    currency: { type: String, default: "EUR" },
+    subtotal: { type: Number, default: 0 },
+    taxRate: { type: Number, default: 0, min: 0, max: 100 },
+    taxAmount: { type: Number, default: 0 },
+    total: { type: Number, default: 0 },
+    locationId: { type: String, ref: "StockLocation" },
+    expectedDate: { type: Date },
+    notes: { type: String, trim: true },
+    sentAt: { type: Date },
+    receivedAt: { type: Date },
+    cancelledAt: { type: Date },
+    receipts: [PurchaseOrderReceiptSchema],
+    createdBy: { type: String, ref: "User", required: true },
+    history: [
+      {
+        status: { type: String, required: true },
+        timestamp: { type: Date, default: Date.now },
+        userId: { type: String, ref: "User" },
+        notes: { type: String },
+      },
+    ],
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// ----------------------------------------------------------------------
+
+// Keep line and order totals in sync
+PurchaseOrderSchema.pre("save", function (next) {
+  let subtotal = 0;
+
+  for (const line of this.lines) {
+    line.total = Math.round(line.quantity * line.unitCost * 100) / 100;
+    subtotal += line.total;
+  }
+
+  this.subtotal = Math.round(subtotal * 100) / 100;
+  this.taxAmount = Math.round(this.subtotal * (this.taxRate || 0)) / 100;
+  this.total = Math.round((this.subtotal + this.taxAmount) * 100) / 100;
+
+  next();
+});
+
+PurchaseOrderSchema.index({ tenantId: 1, poNumber: 1 }, { unique: true });
+PurchaseOrderSchema.index({ tenantId: 1, status: 1, createdAt: -1 });
+PurchaseOrderSchema.index({ tenantId: 1, supplierId: 1 });
+PurchaseOrderSchema.index({ tenantId: 1, "lines.materialId": 1 });
+
+export const PurchaseOrder =
+  models.PurchaseOrder ||
+  model<IPurchaseOrder>("PurchaseOrder", PurchaseOrderSchema);
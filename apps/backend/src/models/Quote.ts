@@ -0,0 +1,183 @@
+import { model, Schema, models } from "mongoose";
+
+// ----------------------------------------------------------------------
+
+export type QuoteStatus = "draft" | "sent" | "accepted" | "declined";
+
+export interface IQuoteLineItem {
+  _id?: string;
+  type: "material" | "labor" | "custom";
+  materialId?: string; // Priced from Material.unitCost
+  personnelId?: string; // Priced from Personnel.hourlyRate
+  description: string;
+  quantity: number; // Units for materials, hours for labor
+  unit?: string;
+  unitPrice: number;
+  total: number;
+}
+
+export interface IQuote {
+  _id: string;
+  tenantId: string;
+  quoteNumber: string;
+  clientId: string;
+  title: string;
+  description?: string;
+  location?: {
+    address?: string;
+    coordinates?: {
+      latitude: number;
+      longitude: number;
+    };
+  };
+  status: QuoteStatus;
+  lineItems: IQuoteLineItem[];
+  currency: string;
+  subtotalLabor: number;
+  subtotalMaterials: number;
+  subtotal: number;
+  taxRate: number; // Percentage, e.g. 24 for 24%
+  taxAmount: number;
+  total: number;
+  validUntil?: Date;
+  notes?: string;
+  sentAt?: Date;
+  acceptedAt?: Date;
+  acceptedBy?: string;
+  declinedAt?: Date;
+  declineReason?: string;
+  workOrderId?: string; // Set when the quote is converted
+  createdBy: string;
+  history: Array<{
+    status: string;
+    timestamp: Date;
+    userId?: string;
+    notes?: string;
+  }>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ----------------------------------------------------------------------
+
+const QuoteLineItemSchema = new Schema<IQuoteLineItem>(
+  {
+    type: {
+      type: String,
+      enum: ["material", "labor", "custom"],
+      required: true,
+    },
+    materialId: { type: String, ref: "Material" },
+    personnelId: { type: String, ref: "Personnel" },
+    description: { type: String, required: true, trim: true },
+    quantity: { type: Number, required: true, min: 0 },
+    unit: { type: String, trim: true },
+    unitPrice: { type: Number, required: true, min: 0 },
+    total: { type: Number, required: true, min: 0 },
+  },
+  { _id: true },
+);
+
+const QuoteSchema = new Schema<IQuote>(
+  {
+    tenantId: {
+      type: String,
+      required: [true, "Tenant ID is required"],
+      index: true,
+    },
+    quoteNumber: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    clientId: {
+      type: String,
+      required: [true, "Client ID is required"],
+      ref: "Client",
+    },
+    title: {
+      type: String,
+      required: [true, "Title is required"],
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    location: {
+      address: { type: String, trim: true },
+      coordinates: {
+        latitude: { type: Number },
+        longitude: { type: Number },
+      },
+    },
+    status: {
+      type: String,
+      enum: ["draft", "sent", "accepted", "declined"],
+      default: "draft",
+    },
+    lineItems: [QuoteLineItemSchema],
+    currency: { type: String, default: "EUR" },
+    subtotalLabor: { type: Number, default: 0, min: 0 },
+    subtotalMaterials: { type: Number, default: 0, min: 0 },
+    subtotal: { type: Number, default: 0, min: 0 },
+    taxRate: { type: Number, default: 0, min: 0, max: 100 },
+    taxAmount: { type: Number, default: 0, min: 0 },
+    total: { type: Number, default: 0, min: 0 },
+    validUntil: { type: Date },
+    notes: { type: String, trim: true },
+    sentAt: { type: Date },
+    acceptedAt: { type: Date },
+    acceptedBy: { type: String },
+    declinedAt: { type: Date },
+    declineReason: { type: String, trim: true },
+    workOrderId: { type: String, ref: "WorkOrder" },
+    createdBy: { type: String, required: true },
+    history: [
+      {
+        status: { type: String, required: true },
+        timestamp: { type: Date, default: Date.now },
+        userId: { type: String },
+        notes: { type: String, trim: true },
+      },
+    ],
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// ----------------------------------------------------------------------
+
+// Indexes for better performance
+QuoteSchema.index({ tenantId: 1, quoteNumber: 1 }, { unique: true });
+QuoteSchema.index({ tenantId: 1, clientId: 1 });
+QuoteSchema.index({ tenantId: 1, status: 1 });
+QuoteSchema.index({ tenantId: 1, createdAt: -1 });
+
+// Recalculate totals whenever line items or tax change
+QuoteSchema.pre("save", function (next) {
+  let labor = 0;
+  let materials = 0;
+
+  for (const item of this.lineItems) {
+    item.total = Math.round(item.quantity * item.unitPrice * 100) / 100;
+    if (item.type === "labor") {
+      labor += item.total;
+    } else {
+      materials += item.total;
+    }
+  }
+
+  this.subtotalLabor = Math.round(labor * 100) / 100;
+  this.subtotalMaterials = Math.round(materials * 100) / 100;
+  this.subtotal = Math.round((labor + materials) * 100) / 100;
+  this.taxAmount = Math.round(this.subtotal * (this.taxRate || 0)) / 100;
+  this.total = Math.round((this.subtotal + this.taxAmount) * 100) / 100;
+
+  next();
+});
+
+// ----------------------------------------------------------------------
+
+export const Quote = models.Quote || model<IQuote>("Quote", QuoteSchema);
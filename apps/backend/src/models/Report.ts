@@ -5,6 +5,7 @@ import type { IClient } from "./Client";
 import type { ITask } from "./Task";
 import type { IWorkOrder } from "./WorkOrder";
 import type { IMaterial } from "./Material";
+import type { InspectionFieldType } from "./InspectionForm";
 
 import mongoose, { Schema } from "mongoose";
 
@@ -75,6 +76,15 @@ export interface IEmbeddedTask {
   createdBy: string;
 }
 
+export interface IEmbeddedAsset {
+  _id: string;
+  name: string;
+  make?: string;
+  model?: string;
+  serialNumber?: string;
+  site?: string;
+}
+
 export interface IReportAttachment {
   _id: string;
   filename: string;
@@ -131,6 +141,36 @@ export interface IReportMaterialUsage {
   notes?: string;
 }
 
+export type InspectionItemResult = "pass" | "fail" | "na";
+
+// Field definitions are copied next to each answer so the report reads the
+// same after the form is edited
+export interface IReportInspectionAnswer {
+  fieldKey: string;
+  label: string;
+  type: InspectionFieldType;
+  required: boolean;
+  section?: string;
+  value?: any; // "yes" | "no" | "n/a", number, text, photo URLs or signature
+  unit?: string;
+  notes?: string;
+  result?: InspectionItemResult; // Unset for items that are not judged
+}
+
+export interface IReportInspection {
+  _id: string;
+  formId: string;
+  formName: string;
+  formVersion: number;
+  assetId?: string;
+  assetName?: string;
+  answers: IReportInspectionAnswer[];
+  passedCount: number;
+  failedCount: number;
+  result: "pass" | "fail";
+  completedAt: Date;
+}
+
 export interface IReportSignature {
   _id: string;
   type: "technician" | "client" | "supervisor" | "inspector";
@@ -171,6 +211,7 @@ export interface IReport extends Document {
   clientId?: mongoose.Types.ObjectId | IClient;
   workOrderId?: mongoose.Types.ObjectId | IWorkOrder;
   taskIds: (mongoose.Types.ObjectId | ITask)[];
+  assetIds: mongoose.Types.ObjectId[];
 
   // Embedded data for historical preservation (immutable once set)
   createdByData?: IEmbeddedUser;
@@ -178,11 +219,12 @@ export interface IReport extends Document {
   clientData?: IEmbeddedClient;
   workOrderData?: IEmbeddedWorkOrder;
   tasksData?: IEmbeddedTask[];
+  assetsData?: IEmbeddedAsset[];
 
   // Content
   location?: string;
   weather?: string;
-  equipment?: string[];
+  equipment?: string[]; // Free-text equipment not tracked as assets
   notes?: string;
 
   // Time Tracking
@@ -204,6 +246,7 @@ export interface IReport extends Document {
   photos: IReportAttachment[];
 
   // Quality & Safety
+  inspections: IReportInspection[]; // Checklists filled from inspection forms
   qualityChecks: {
     item: string;
     status: "pass" | "fail" | "n/a";
@@ -342,6 +385,35 @@ const QualityCheckSchema: Schema = new Schema(
   { _id: true },
 );
 
+const ReportInspectionSchema: Schema = new Schema(
+  {
+    formId: { type: String, ref: "InspectionForm", required: true },
+    formName: { type: String, required: true },
+    formVersion: { type: Number, required: true },
+    assetId: { type: String, ref: "Asset" },
+    assetName: { type: String },
+    answers: [
+      {
+        _id: false,
+        fieldKey: { type: String, required: true },
+        label: { type: String, required: true },
+        type: { type: String, required: true },
+        required: { type: Boolean, default: false },
+        section: { type: String },
+        value: { type: Schema.Types.Mixed },
+        unit: { type: String },
+        notes: { type: String },
+        result: { type: String, enum: ["pass", "fail", "na"] },
+      },
+    ],
+    passedCount: { type: Number, default: 0, min: 0 },
+    failedCount: { type: Number, default: 0, min: 0 },
+    result: { type: String, enum: ["pass", "fail"], required: true },
+    completedAt: { type: Date, default: Date.now },
+  },
+  { _id: true },
+);
+
 const SafetyIncidentSchema: Schema = new Schema(
   {
     type: { type: String, required: true },
@@ -354,6 +426,18 @@ const SafetyIncidentSchema: Schema = new Schema(
 );
 
 // Embedded data schemas for historical preservation
+const EmbeddedAssetSchema: Schema = new Schema(
+  {
+    _id: { type: String, required: true },
+    name: { type: String, required: true },
+    make: { type: String },
+    model: { type: String },
+    serialNumber: { type: String },
+    site: { type: String },
+  },
+  { _id: false },
+);
+
 const EmbeddedUserSchema: Schema = new Schema(
   {
     _id: { type: String, required: true },
@@ -512,6 +596,12 @@ const ReportSchema: Schema = new Schema(
         ref: "Task",
       },
     ],
+    assetIds: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "Asset",
+      },
+    ],
 
     // Embedded data for historical preservation (immutable once set)
     createdByData: { type: EmbeddedUserSchema },
@@ -519,6 +609,7 @@ const ReportSchema: Schema = new Schema(
     clientData: { type: EmbeddedClientSchema },
     workOrderData: { type: EmbeddedWorkOrderSchema },
     tasksData: [EmbeddedTaskSchema],
+    assetsData: [EmbeddedAssetSchema],
 
     // Content
     location: { type: String, trim: true },
@@ -545,6 +636,7 @@ const ReportSchema: Schema = new Schema(
     photos: [ReportAttachmentSchema],
 
     // Quality & Safety
+    inspections: [ReportInspectionSchema],
     qualityChecks: [QualityCheckSchema],
     safetyIncidents: [SafetyIncidentSchema],
 
@@ -597,6 +689,8 @@ const ReportSchema: Schema = new Schema(
 ReportSchema.index({ tenantId: 1, createdBy: 1 });
 ReportSchema.index({ tenantId: 1, clientId: 1 });
 ReportSchema.index({ tenantId: 1, workOrderId: 1 });
+ReportSchema.index({ tenantId: 1, assetIds: 1 });
+ReportSchema.index({ tenantId: 1, "inspections.formId": 1 });
 ReportSchema.index({ tenantId: 1, status: 1 });
 ReportSchema.index({ tenantId: 1, type: 1 });
 ReportSchema.index({ tenantId: 1, reportDate: 1 });
@@ -797,6 +891,36 @@ ReportSchema.pre("save", async function (this: IReport) {
     }
   }
 
+  // Snapshot newly linked assets; keep the snapshot of assets already on the report
+  if (this.isNew || this.isModified("assetIds")) {
+    const ids = (this.assetIds || []).map((id) => id.toString());
+    const existing = (this.assetsData || []).filter((asset) =>
+      ids.includes(asset._id),
+    );
+    const missing = ids.filter(
+      (id) => !existing.some((asset) => asset._id === id),
+    );
+    if (missing.length > 0) {
+      try {
+        const Asset = mongoose.model("Asset");
+        const assets = await Asset.find({ _id: { $in: missing } });
+        existing.push(
+          ...assets.map((asset) => ({
+            _id: asset._id.toString(),
+            name: asset.name,
+            make: asset.make,
+            model: asset.model,
+            serialNumber: asset.serialNumber,
+            site: asset.site?.name || asset.site?.address,
+          })),
+        );
+      } catch (error) {
+        console.error("Error populating assetsData:", error);
+      }
+    }
+    this.assetsData = existing;
+  }
+
   // Populate embedded data for materials
   if (this.isNew || this.isModified("materialsUsed")) {
     for (const materialUsage of this.materialsUsed) {
@@ -0,0 +1,156 @@
+import { model, Schema, models } from "mongoose";
+
+// ----------------------------------------------------------------------
+
+export const REPORT_TEMPLATE_SECTIONS = [
+  "overview",
+  "client",
+  "workOrder",
+  "personnel",
+  "tasks",
+  "materials",
+  "timeEntries",
+  "costSummary",
+  "inspections",
+  "signatures",
+  "attachments",
+] as const;
+
+export type ReportTemplateSectionKey = (typeof REPORT_TEMPLATE_SECTIONS)[number];
+
+export type ReportSignatureRole =
+  | "technician"
+  | "client"
+  | "supervisor"
+  | "inspector";
+
+export type ReportLogoPlacement = "none" | "left" | "center" | "right";
+
+export interface IReportTemplateSection {
+  key: ReportTemplateSectionKey;
+  enabled: boolean;
+  title?: string; // Overrides the default section heading
+}
+
+export interface IReportTemplateSignatureBlock {
+  role: ReportSignatureRole;
+  label: string;
+  showWhenUnsigned: boolean; // Leave a blank line to sign on paper
+}
+
+export interface IReportTemplate {
+  _id: string;
+  tenantId: string;
+  name: string;
+  description?: string;
+  isDefault: boolean;
+  reportTypes: string[]; // Report types this template is picked for
+  sections: IReportTemplateSection[]; // Rendered in this order
+  header: {
+    title: string;
+    subtitle?: string;
+    showReportId: boolean;
+  };
+  footer: {
+    text?: string;
+    showGeneratedAt: boolean;
+    showPageNumbers: boolean;
+  };
+  logo: {
+    placement: ReportLogoPlacement;
+    width: number;
+  };
+  // Fall back to Tenant.branding when empty
+  colors: {
+    primary?: string;
+    secondary?: string;
+  };
+  signatureBlocks: IReportTemplateSignatureBlock[];
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ----------------------------------------------------------------------
+
+const ReportTemplateSchema = new Schema<IReportTemplate>(
+  {
+    tenantId: {
+      type: String,
+      required: [true, "Tenant ID is required"],
+      index: true,
+    },
+    name: {
+      type: String,
+      required: [true, "Template name is required"],
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    isDefault: {
+      type: Boolean,
+      default: false,
+    },
+    reportTypes: [{ type: String }],
+    sections: [
+      {
+        _id: false,
+        key: { type: String, enum: REPORT_TEMPLATE_SECTIONS, required: true },
+        enabled: { type: Boolean, default: true },
+        title: { type: String, trim: true },
+      },
+    ],
+    header: {
+      title: { type: String, trim: true, default: "FIELD SERVICE REPORT" },
+      subtitle: { type: String, trim: true },
+      showReportId: { type: Boolean, default: true },
+    },
+    footer: {
+      text: { type: String, trim: true },
+      showGeneratedAt: { type: Boolean, default: true },
+      showPageNumbers: { type: Boolean, default: false },
+    },
+    logo: {
+      placement: {
+        type: String,
+        enum: ["none", "left", "center", "right"],
+        default: "left",
+      },
+      width: { type: Number, default: 120, min: 40, max: 300 },
+    },
+    colors: {
+      primary: { type: String, trim: true },
+      secondary: { type: String, trim: true },
+    },
+    signatureBlocks: [
+      {
+        _id: false,
+        role: {
+          type: String,
+          enum: ["technician", "client", "supervisor", "inspector"],
+          required: true,
+        },
+        label: { type: String, required: true, trim: true },
+        showWhenUnsigned: { type: Boolean, default: true },
+      },
+    ],
+    createdBy: { type: String, required: true },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// ----------------------------------------------------------------------
+
+// Indexes for better performance
+ReportTemplateSchema.index({ tenantId: 1, name: 1 }, { unique: true });
+ReportTemplateSchema.index({ tenantId: 1, isDefault: 1 });
+
+// ----------------------------------------------------------------------
+
+export const ReportTemplate =
+  models.ReportTemplate ||
+  model<IReportTemplate>("ReportTemplate", ReportTemplateSchema);
@@ -0,0 +1,100 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { PRIORITY_VALUES } from "../constants/priorities";
+
+// ----------------------------------------------------------------------
+
+export interface ISlaEscalation {
+  warnAtPercent: number; // Share of the target elapsed before a warning, 0 to skip
+  notifyRoles: string[]; // Role slugs notified on warning and breach
+  notifyAssignees: boolean; // Also notify the assigned technicians
+  sms: boolean; // Text the recipients when a target is breached
+}
+
+export interface ISlaPolicy extends Document {
+  _id: mongoose.Types.ObjectId;
+  tenantId: string;
+  name: string;
+  description?: string;
+  // A work order takes the most specific active match: contract, then
+  // client, then priority. Empty lists match anything.
+  match: {
+    priorities: (typeof PRIORITY_VALUES)[number][];
+    clientIds: string[];
+    contractIds: string[];
+  };
+  responseMinutes: number; // Business minutes until someone is assigned
+  resolutionMinutes: number; // Business minutes until the work is completed
+  pauseOnHold: boolean; // Stop the clock while the work order is on hold
+  escalation: ISlaEscalation;
+  isActive: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ----------------------------------------------------------------------
+
+const slaPolicySchema = new Schema<ISlaPolicy>(
+  {
+    tenantId: {
+      type: String,
+      required: [true, "Tenant ID is required"],
+      index: true,
+    },
+    name: {
+      type: String,
+      required: [true, "Name is required"],
+      trim: true,
+      maxlength: [100, "Name cannot exceed 100 characters"],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Description cannot exceed 500 characters"],
+    },
+    match: {
+      priorities: [{ type: String, enum: PRIORITY_VALUES }],
+      clientIds: [{ type: String, ref: "Client" }],
+      contractIds: [{ type: String, ref: "Contract" }],
+    },
+    responseMinutes: {
+      type: Number,
+      required: [true, "Response target is required"],
+      min: 1,
+    },
+    resolutionMinutes: {
+      type: Number,
+      required: [true, "Resolution target is required"],
+      min: 1,
+    },
+    pauseOnHold: {
+      type: Boolean,
+      default: true,
+    },
+    escalation: {
+      warnAtPercent: { type: Number, default: 80, min: 0, max: 99 },
+      notifyRoles: { type: [String], default: ["admin", "supervisor"] },
+      notifyAssignees: { type: Boolean, default: true },
+      sms: { type: Boolean, default: false },
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: String,
+      ref: "User",
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+slaPolicySchema.index({ tenantId: 1, isActive: 1 });
+
+export const SlaPolicy = mongoose.model<ISlaPolicy>(
+  "SlaPolicy",
+  slaPolicySchema,
+);
@@ -0,0 +1,38 @@
+import { model, Schema, models } from "mongoose";
+
+// ----------------------------------------------------------------------
+
+export interface IStockLevel {
+  _id: string;
+  tenantId: string;
+  materialId: string;
+  locationId: string;
+  quantity: number; // Derived from the stock movement ledger
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ----------------------------------------------------------------------
+
+const StockLevelSchema = new Schema<IStockLevel>(
+  {
+    tenantId: { type: String, required: true, index: true },
+    materialId: { type: String, ref: "Material", required: true },
+    locationId: { type: String, ref: "StockLocation", required: true },
+    quantity: { type: Number, default: 0 },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// ----------------------------------------------------------------------
+
+StockLevelSchema.index(
+  { tenantId: 1, materialId: 1, locationId: 1 },
+  { unique: true },
+);
+StockLevelSchema.index({ tenantId: 1, locationId: 1 });
+
+export const StockLevel =
+  models.StockLevel || model<IStockLevel>("StockLevel", StockLevelSchema);
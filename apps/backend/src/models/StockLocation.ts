@@ -0,0 +1,60 @@
+import { model, Schema, models } from "mongoose";
+
+// ----------------------------------------------------------------------
+
+export type StockLocationType = "warehouse" | "vehicle";
+
+export interface IStockLocation {
+  _id: string;
+  tenantId: string;
+  name: string;
+  type: StockLocationType;
+  personnelId?: string; // Technician carrying the stock, for vehicles
+  address?: string;
+  notes?: string;
+  // Receipts and adjustments without a location land here
+  isDefault: boolean;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ----------------------------------------------------------------------
+
+const StockLocationSchema = new Schema<IStockLocation>(
+  {
+    tenantId: { type: String, required: true, index: true },
+    name: {
+      type: String,
+      required: [true, "Location name is required"],
+      trim: true,
+    },
+    type: {
+      type: String,
+      enum: ["warehouse", "vehicle"],
+      default: "warehouse",
+    },
+    personnelId: { type: String, ref: "Personnel" },
+    address: { type: String, trim: true },
+    notes: { type: String, trim: true },
+    isDefault: { type: Boolean, default: false },
+    isActive: { type: Boolean, default: true },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// ----------------------------------------------------------------------
+
+StockLocationSchema.index({ tenantId: 1, name: 1 });
+StockLocationSchema.index({ tenantId: 1, type: 1, isActive: 1 });
+// One van per technician
+StockLocationSchema.index(
+  { tenantId: 1, personnelId: 1 },
+  { unique: true, partialFilterExpression: { type: "vehicle" } },
+);
+
+export const StockLocation =
+  models.StockLocation ||
+  model<IStockLocation>("StockLocation", StockLocationSchema);
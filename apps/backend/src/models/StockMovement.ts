@@ -0,0 +1,99 @@
+import { model, Schema, models } from "mongoose";
+
+// ----------------------------------------------------------------------
+
+export type StockMovementType =
+  | "opening"
+  | "receipt"
+  | "consumption"
+  | "return"
+  | "adjustment"
+  | "transfer";
+
+export type StockMovementSource =
+  | "manual"
+  | "task"
+  | "report"
+  | "bulk_import"
+  | "purchase_order";
+
+export interface IStockMovement {
+  _id: string;
+  tenantId: string;
+  materialId: string;
+  type: StockMovementType;
+  quantity: number; // Signed: positive adds stock, negative removes it
+  balanceAfter: number; // Material quantity right after this movement
+  unitCost: number;
+  locationId?: string;
+  location?: string; // Location name at the time of the movement
+  // Pairs the two legs of a transfer
+  transferId?: string;
+  source: {
+    type: StockMovementSource;
+    id?: string;
+  };
+  workOrderId?: string;
+  notes?: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ----------------------------------------------------------------------
+
+const StockMovementSchema = new Schema<IStockMovement>(
+  {
+    tenantId: { type: String, required: true, index: true },
+    materialId: {
+      type: String,
+      ref: "Material",
+      required: true,
+      index: true,
+    },
+    type: {
+      type: String,
+      enum: [
+        "opening",
+        "receipt",
+        "consumption",
+        "return",
+        "adjustment",
+        "transfer",
+      ],
+      required: true,
+    },
+    quantity: { type: Number, required: true },
+    balanceAfter: { type: Number, required: true },
+    unitCost: { type: Number, default: 0, min: 0 },
+    locationId: { type: String, ref: "StockLocation" },
+    location: { type: String, trim: true },
+    transferId: { type: String },
+    source: {
+      type: {
+        type: String,
+        enum: ["manual", "task", "report", "bulk_import", "purchase_order"],
+        default: "manual",
+      },
+      id: { type: String },
+    },
+    workOrderId: { type: String, ref: "WorkOrder" },
+    notes: { type: String, trim: true },
+    createdBy: { type: String, ref: "User", required: true },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// ----------------------------------------------------------------------
+
+StockMovementSchema.index({ tenantId: 1, materialId: 1, createdAt: -1 });
+StockMovementSchema.index({ tenantId: 1, "source.type": 1, "source.id": 1 });
+StockMovementSchema.index({ tenantId: 1, workOrderId: 1 });
+StockMovementSchema.index({ tenantId: 1, locationId: 1, createdAt: -1 });
+StockMovementSchema.index({ tenantId: 1, type: 1, createdAt: -1 });
+
+export const StockMovement =
+  models.StockMovement ||
+  model<IStockMovement>("StockMovement", StockMovementSchema);
@@ -0,0 +1,39 @@
+import { model, Schema, models } from "mongoose";
+
+// ----------------------------------------------------------------------
+
+export interface IStockReservation {
+  _id: string;
+  tenantId: string;
+  materialId: string;
+  workOrderId: string;
+  quantity: number; // Planned quantity not yet consumed
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ----------------------------------------------------------------------
+
+const StockReservationSchema = new Schema<IStockReservation>(
+  {
+    tenantId: { type: String, required: true, index: true },
+    materialId: { type: String, ref: "Material", required: true },
+    workOrderId: { type: String, ref: "WorkOrder", required: true },
+    quantity: { type: Number, required: true, min: 0 },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// ----------------------------------------------------------------------
+
+StockReservationSchema.index(
+  { tenantId: 1, workOrderId: 1, materialId: 1 },
+  { unique: true },
+);
+StockReservationSchema.index({ tenantId: 1, materialId: 1 });
+
+export const StockReservation =
+  models.StockReservation ||
+  model<IStockReservation>("StockReservation", StockReservationSchema);
@@ -0,0 +1,65 @@
+import { model, Schema, models } from "mongoose";
+
+// ----------------------------------------------------------------------
+
+export interface ISupplier {
+  _id: string;
+  tenantId: string;
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  website?: string;
+  vatNumber?: string;
+  address?: {
+    street?: string;
+    city?: string;
+    zipCode?: string;
+    country?: string;
+  };
+  leadTimeDays: number; // Days from sending an order to delivery
+  paymentTerms?: string;
+  notes?: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ----------------------------------------------------------------------
+
+const SupplierSchema = new Schema<ISupplier>(
+  {
+    tenantId: { type: String, required: true, index: true },
+    name: {
+      type: String,
+      required: [true, "Supplier name is required"],
+      trim: true,
+    },
+    contactName: { type: String, trim: true },
+    email: { type: String, trim: true, lowercase: true },
+    phone: { type: String, trim: true },
+    website: { type: String, trim: true },
+    vatNumber: { type: String, trim: true },
+    address: {
+      street: { type: String, trim: true },
+      city: { type: String, trim: true },
+      zipCode: { type: String, trim: true },
+      country: { type: String, trim: true },
+    },
+    leadTimeDays: { type: Number, default: 7, min: 0 },
+    paymentTerms: { type: String, trim: true },
+    notes: { type: String, trim: true },
+    isActive: { type: Boolean, default: true },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// ----------------------------------------------------------------------
+
+SupplierSchema.index({ tenantId: 1, name: 1 });
+SupplierSchema.index({ tenantId: 1, isActive: 1 });
+
+export const Supplier =
+  models.Supplier || model<ISupplier>("Supplier", SupplierSchema);
@@ -32,6 +32,7 @@ export interface ITask extends Document {
   clientId?: string; // Reference to Client
   clientName?: string; // Cached client name for display
   clientCompany?: string; // Cached client company for display
+  assetId?: string; // Customer equipment the task was performed on
   // Repeat settings
   repeat?: {
     enabled: boolean;
@@ -172,6 +173,10 @@ const TaskSchema = new Schema<ITask>(
       type: String,
       trim: true,
     },
+    assetId: {
+      type: String,
+      ref: "Asset",
+    },
     // Repeat settings
     repeat: {
       enabled: {
@@ -252,6 +257,7 @@ TaskSchema.index({ tenantId: 1, columnId: 1 }); // Primary index for column-base
 TaskSchema.index({ tenantId: 1, status: 1 }); // Keep for migration compatibility
 TaskSchema.index({ tenantId: 1, priority: 1 });
 TaskSchema.index({ tenantId: 1, clientId: 1 });
+TaskSchema.index({ tenantId: 1, assetId: 1 });
 TaskSchema.index({ tenantId: 1, isPrivate: 1, createdBy: 1 }); // For private task filtering
 TaskSchema.index({ tenantId: 1, isArchived: 1 }); // For archived task filtering
 
@@ -13,6 +13,7 @@ export interface ITaskMaterial extends Document {
   tenantId: mongoose.Types.ObjectId | ITenant;
   taskId: mongoose.Types.ObjectId | ITask;
   materialId: mongoose.Types.ObjectId | IMaterial;
+  locationId?: string; // Stock location the material was taken from
   quantity: number;
   unitCost: number;
   totalCost: number;
@@ -43,6 +44,10 @@ const TaskMaterialSchema: Schema = new Schema(
       required: true,
       index: true,
     },
+    locationId: {
+      type: String,
+      ref: 'StockLocation',
+    },
     quantity: {
       type: Number,
       required: [true, 'Quantity is required'],
@@ -30,6 +30,24 @@ export interface ITenant {
       provider: "yuboto" | "apifon";
       fallbackProvider?: "yuboto" | "apifon";
     };
+    invoicing?: {
+      taxRate: number; // Default VAT percentage applied to new invoices
+      paymentTermsDays: number;
+      footerNotes?: string;
+    };
+    inventory?: {
+      // How receiving stock updates Material.unitCost
+      costingMethod: "last_cost" | "weighted_average";
+    };
+    attendance?: {
+      geofenceRadiusMeters: number; // Allowed distance from the work order site
+      requireLocation: boolean; // Reject check-ins without a GPS fix
+      blockOutsideGeofence: boolean; // Reject check-ins outside the fence instead of flagging them
+    };
+    tracking?: {
+      enabled: boolean; // Let technicians share their live location while on shift
+      retentionDays: number; // How long breadcrumb points are kept
+    };
   };
   subscription: {
     plan: "free" | "basic" | "premium" | "enterprise";
@@ -145,6 +163,27 @@ const TenantSchema = new Schema<ITenant>(
         provider: { type: String, enum: ["yuboto", "apifon"], default: "apifon" },
         fallbackProvider: { type: String, enum: ["yuboto", "apifon"], required: false },
       },
+      invoicing: {
+        taxRate: { type: Number, default: 24, min: 0, max: 100 },
+        paymentTermsDays: { type: Number, default: 30, min: 0 },
+        footerNotes: { type: String, trim: true },
+      },
+      inventory: {
+        costingMethod: {
+          type: String,
+          enum: ["last_cost", "weighted_average"],
+          default: "weighted_average",
+        },
+      },
+      attendance: {
+        geofenceRadiusMeters: { type: Number, default: 150, min: 10 },
+        requireLocation: { type: Boolean, default: false },
+        blockOutsideGeofence: { type: Boolean, default: false },
+      },
+      tracking: {
+        enabled: { type: Boolean, default: true },
+        retentionDays: { type: Number, default: 30, min: 1, max: 365 },
+      },
     },
     subscription: {
       plan: {
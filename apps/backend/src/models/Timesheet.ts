@@ -0,0 +1,145 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type TimesheetStatus = "draft" | "submitted" | "approved" | "rejected";
+
+export type TimesheetEventType =
+  | "submitted"
+  | "approved"
+  | "rejected"
+  | "reopened"
+  | "comment";
+
+export interface ITimesheetDay {
+  date: string; // YYYY-MM-DD
+  hours: number;
+  regularHours: number;
+  overtimeHours: number;
+}
+
+export interface ITimesheetEvent {
+  type: TimesheetEventType;
+  userId: string;
+  userName?: string;
+  comment?: string;
+  createdAt: Date;
+}
+
+export interface ITimesheet extends Document {
+  _id: mongoose.Types.ObjectId;
+  tenantId: string;
+  personnelId: string;
+  weekStart: Date; // Monday, UTC midnight
+  weekEnd: Date; // Sunday, UTC midnight
+  status: TimesheetStatus;
+  days: ITimesheetDay[];
+  totals: {
+    hours: number;
+    regularHours: number;
+    overtimeHours: number;
+    cost: number;
+    entries: number;
+  };
+  history: ITimesheetEvent[];
+  submittedAt?: Date;
+  submittedBy?: string;
+  approvedAt?: Date;
+  approvedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const timesheetDaySchema = new Schema<ITimesheetDay>(
+  {
+    date: { type: String, required: true },
+    hours: { type: Number, default: 0 },
+    regularHours: { type: Number, default: 0 },
+    overtimeHours: { type: Number, default: 0 },
+  },
+  { _id: false },
+);
+
+const timesheetEventSchema = new Schema<ITimesheetEvent>(
+  {
+    type: {
+      type: String,
+      enum: ["submitted", "approved", "rejected", "reopened", "comment"],
+      required: true,
+    },
+    userId: { type: String, required: true, ref: "User" },
+    userName: { type: String },
+    comment: { type: String, trim: true },
+    createdAt: { type: Date, default: Date.now },
+  },
+  { _id: false },
+);
+
+const timesheetSchema = new Schema<ITimesheet>(
+  {
+    tenantId: {
+      type: String,
+      required: true,
+    },
+    personnelId: {
+      type: String,
+      required: true,
+      ref: "Personnel",
+    },
+    weekStart: {
+      type: Date,
+      required: true,
+    },
+    weekEnd: {
+      type: Date,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["draft", "submitted", "approved", "rejected"],
+      default: "draft",
+    },
+    days: {
+      type: [timesheetDaySchema],
+      default: [],
+    },
+    totals: {
+      hours: { type: Number, default: 0 },
+      regularHours: { type: Number, default: 0 },
+      overtimeHours: { type: Number, default: 0 },
+      cost: { type: Number, default: 0 },
+      entries: { type: Number, default: 0 },
+    },
+    history: {
+      type: [timesheetEventSchema],
+      default: [],
+    },
+    submittedAt: {
+      type: Date,
+    },
+    submittedBy: {
+      type: String,
+      ref: "User",
+    },
+    approvedAt: {
+      type: Date,
+    },
+    approvedBy: {
+      type: String,
+      ref: "User",
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// One timesheet per technician and week
+timesheetSchema.index(
+  { tenantId: 1, personnelId: 1, weekStart: 1 },
+  { unique: true },
+);
+timesheetSchema.index({ tenantId: 1, status: 1, weekStart: -1 });
+
+export const Timesheet = mongoose.model<ITimesheet>(
+  "Timesheet",
+  timesheetSchema,
+);
@@ -2,6 +2,27 @@ import { model, Schema, models } from "mongoose";
 
 // ----------------------------------------------------------------------
 
+export const WEBHOOK_FILTER_OPERATORS = [
+  "eq",
+  "ne",
+  "in",
+  "nin",
+  "exists",
+] as const;
+
+export type WebhookFilterOperator = (typeof WEBHOOK_FILTER_OPERATORS)[number];
+
+export interface IWebhookFilter {
+  field: string; // Dot path into the event data, e.g. "workOrder.status"
+  operator: WebhookFilterOperator;
+  value?: any; // A list for in/nin, a boolean for exists
+}
+
+export interface IWebhookPayloadOptions {
+  fields: string[]; // Dot paths of the event data to send; empty sends all
+  expand: string[]; // Related records to embed, see WEBHOOK_EXPANSIONS
+}
+
 export interface IWebhook {
   _id: string;
   tenantId: string;
@@ -16,6 +37,8 @@ export interface IWebhook {
   maxRetries: number;
   timeoutMs: number;
   headers?: Record<string, string>;
+  filters: IWebhookFilter[]; // Every filter must match for an event to be sent
+  payloadOptions: IWebhookPayloadOptions;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -99,6 +122,34 @@ const WebhookSchema = new Schema<IWebhook>(
       of: String,
       default: {},
     },
+    filters: [
+      {
+        _id: false,
+        field: {
+          type: String,
+          required: [true, "Filter field is required"],
+          trim: true,
+        },
+        operator: {
+          type: String,
+          enum: WEBHOOK_FILTER_OPERATORS,
+          required: [true, "Filter operator is required"],
+        },
+        value: {
+          type: Schema.Types.Mixed,
+        },
+      },
+    ],
+    payloadOptions: {
+      fields: {
+        type: [String],
+        default: [],
+      },
+      expand: {
+        type: [String],
+        default: [],
+      },
+    },
   },
   {
     timestamps: true,
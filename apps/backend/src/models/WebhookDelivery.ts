@@ -0,0 +1,123 @@
+import { model, Schema, models } from "mongoose";
+
+// ----------------------------------------------------------------------
+
+export const WEBHOOK_DELIVERY_STATUSES = [
+  "pending", // Waiting for its next attempt
+  "delivering", // Claimed by a worker
+  "delivered",
+  "dead", // Out of retries; kept for replay
+] as const;
+
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+export interface IWebhookDelivery {
+  _id: string;
+  webhookId: string;
+  tenantId: string;
+  eventId: string; // Envelope id, shared by every delivery of the event
+  topic: string;
+  payload: any; // Full envelope as sent
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: Date;
+  lockedUntil?: Date; // A crashed worker's claim lapses after this
+  lastAttemptAt?: Date;
+  lastHttpStatus?: number;
+  lastError?: string;
+  deliveredAt?: Date;
+  replayOf?: string; // Delivery or log entry this one replays
+  expiresAt?: Date; // Set once the delivery is settled
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ----------------------------------------------------------------------
+
+const WebhookDeliverySchema = new Schema<IWebhookDelivery>(
+  {
+    webhookId: {
+      type: String,
+      required: [true, "Webhook ID is required"],
+    },
+    tenantId: {
+      type: String,
+      required: [true, "Tenant ID is required"],
+      index: true,
+    },
+    eventId: {
+      type: String,
+      required: [true, "Event ID is required"],
+    },
+    topic: {
+      type: String,
+      required: [true, "Topic is required"],
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: [true, "Payload is required"],
+    },
+    status: {
+      type: String,
+      enum: WEBHOOK_DELIVERY_STATUSES,
+      default: "pending",
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    maxAttempts: {
+      type: Number,
+      required: [true, "Max attempts is required"],
+      min: 1,
+    },
+    nextAttemptAt: {
+      type: Date,
+      required: [true, "Next attempt time is required"],
+    },
+    lockedUntil: {
+      type: Date,
+    },
+    lastAttemptAt: {
+      type: Date,
+    },
+    lastHttpStatus: {
+      type: Number,
+    },
+    lastError: {
+      type: String,
+      maxlength: 1000,
+    },
+    deliveredAt: {
+      type: Date,
+    },
+    replayOf: {
+      type: String,
+    },
+    expiresAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// ----------------------------------------------------------------------
+
+// Queue scan, per-webhook listing and replay lookups
+WebhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+WebhookDeliverySchema.index({ status: 1, lockedUntil: 1 });
+WebhookDeliverySchema.index({ webhookId: 1, createdAt: -1 });
+WebhookDeliverySchema.index({ webhookId: 1, eventId: 1 });
+
+// Settled deliveries are dropped once they expire; pending ones never are
+WebhookDeliverySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// ----------------------------------------------------------------------
+
+export const WebhookDelivery =
+  models.WebhookDelivery ||
+  model<IWebhookDelivery>("WebhookDelivery", WebhookDeliverySchema);
@@ -6,6 +6,7 @@ export interface IWebhookLog {
   _id: string;
   webhookId: string;
   tenantId: string;
+  deliveryId?: string;
   topic: string;
   payload: any;
   deliveryUrl: string;
@@ -33,6 +34,9 @@ const WebhookLogSchema = new Schema<IWebhookLog>(
       required: [true, "Tenant ID is required"],
       index: true,
     },
+    deliveryId: {
+      type: String,
+    },
     topic: {
       type: String,
       required: [true, "Topic is required"],
@@ -9,6 +9,9 @@ export interface IWorkOrder {
   workOrderNumber: string;
   clientId: string;
   personnelIds?: string[];
+  // Skill and certification names matched against Personnel.skills/certifications
+  requiredSkills?: string[];
+  requiredCertifications?: string[];
   title: string;
   details: string; // Rich text content from TipTap
   priority: (typeof PRIORITY_VALUES)[number];
@@ -19,6 +22,8 @@ export interface IWorkOrder {
     | "completed"
     | "cancelled"
     | "on-hold";
+  // Tenant-defined workflow status; `status` holds its category
+  workflowStatus?: string;
   // Progress tracking
   progressMode?: "computed" | "manual";
   progress?: number; // 0..100 authoritative display value
@@ -48,6 +53,7 @@ export interface IWorkOrder {
     total: number;
   };
   materials: Array<{
+    materialId?: string; // Inventory material, reserved while the work order is open
     name: string;
     quantity: number;
     unitPrice: number;
@@ -61,10 +67,36 @@ export interface IWorkOrder {
   }>;
   history: Array<{
     status: string;
+    workflowStatus?: string;
     timestamp: Date;
     userId: string;
     notes?: string;
   }>;
+  assetIds?: string[]; // Customer equipment serviced by this work order
+  // Set on visits generated from a service contract
+  contractId?: string;
+  contractVisitDate?: Date;
+  contractSiteId?: string; // Covered site the visit is for, when the contract lists sites
+  // Service level timers from the matching SLA policy
+  sla?: {
+    policyId: string;
+    policyName: string;
+    responseDueAt: Date;
+    resolutionDueAt: Date;
+    responseWarnAt?: Date;
+    resolutionWarnAt?: Date;
+    respondedAt?: Date;
+    resolvedAt?: Date;
+    pausedAt?: Date; // Set while the clock is stopped
+    pausedMinutes: number; // Business minutes spent paused so far
+    responseBreached: boolean;
+    resolutionBreached: boolean;
+    // Escalation stamps so each warning and breach is sent once
+    responseWarnedAt?: Date;
+    resolutionWarnedAt?: Date;
+    responseEscalatedAt?: Date;
+    resolutionEscalatedAt?: Date;
+  };
   smsReminders?: {
     enabled: boolean;
     serviceActive: boolean;
@@ -107,6 +139,14 @@ const WorkOrderSchema = new Schema<IWorkOrder>(
         ref: "Personnel",
       },
     ],
+    requiredSkills: {
+      type: [String],
+      default: [],
+    },
+    requiredCertifications: {
+      type: [String],
+      default: [],
+    },
     title: {
       type: String,
       required: [true, "Title is required"],
@@ -133,6 +173,10 @@ const WorkOrderSchema = new Schema<IWorkOrder>(
       ],
       default: "created",
     },
+    workflowStatus: {
+      type: String,
+      trim: true,
+    },
     // Progress tracking fields
     progressMode: {
       type: String,
@@ -179,6 +223,7 @@ const WorkOrderSchema = new Schema<IWorkOrder>(
     },
     materials: [
       {
+        materialId: { type: String, ref: "Material" },
         name: { type: String, required: true, trim: true },
         quantity: { type: Number, required: true, min: 0 },
         unitPrice: { type: Number, required: true, min: 0 },
@@ -196,11 +241,37 @@ const WorkOrderSchema = new Schema<IWorkOrder>(
     history: [
       {
         status: { type: String, required: true },
+        workflowStatus: { type: String },
         timestamp: { type: Date, default: Date.now },
         userId: { type: String, required: true },
         notes: { type: String, trim: true },
       },
     ],
+    assetIds: [{ type: String, ref: "Asset" }],
+    contractId: { type: String, ref: "Contract" },
+    contractVisitDate: { type: Date },
+    contractSiteId: { type: String },
+    sla: {
+      type: {
+        policyId: { type: String, ref: "SlaPolicy" },
+        policyName: { type: String },
+        responseDueAt: { type: Date },
+        resolutionDueAt: { type: Date },
+        responseWarnAt: { type: Date },
+        resolutionWarnAt: { type: Date },
+        respondedAt: { type: Date },
+        resolvedAt: { type: Date },
+        pausedAt: { type: Date },
+        pausedMinutes: { type: Number, default: 0 },
+        responseBreached: { type: Boolean, default: false },
+        resolutionBreached: { type: Boolean, default: false },
+        responseWarnedAt: { type: Date },
+        resolutionWarnedAt: { type: Date },
+        responseEscalatedAt: { type: Date },
+        resolutionEscalatedAt: { type: Date },
+      },
+      required: false,
+    },
     smsReminders: {
       enabled: { type: Boolean, default: false },
       serviceActive: { type: Boolean, default: false },
@@ -250,9 +321,27 @@ WorkOrderSchema.index(
 WorkOrderSchema.index({ tenantId: 1, clientId: 1 });
 WorkOrderSchema.index({ tenantId: 1, personnelIds: 1 });
 WorkOrderSchema.index({ tenantId: 1, status: 1 });
+WorkOrderSchema.index({ tenantId: 1, workflowStatus: 1 });
 WorkOrderSchema.index({ tenantId: 1, priority: 1 });
 WorkOrderSchema.index({ tenantId: 1, scheduledDate: 1 });
 WorkOrderSchema.index({ tenantId: 1, progressMode: 1 });
+WorkOrderSchema.index({ tenantId: 1, assetIds: 1 });
+WorkOrderSchema.index(
+  { "sla.policyId": 1, status: 1 },
+  { partialFilterExpression: { "sla.policyId": { $exists: true } } },
+);
+WorkOrderSchema.index(
+  { tenantId: 1, contractId: 1, contractVisitDate: 1 },
+  { partialFilterExpression: { contractId: { $exists: true } } },
+);
+// One work order per contract visit and site, however often generation runs
+WorkOrderSchema.index(
+  { tenantId: 1, contractId: 1, contractVisitDate: 1, contractSiteId: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { contractVisitDate: { $exists: true } },
+  },
+);
 
 // Text indexes for better search performance with Unicode support
 WorkOrderSchema.index(
@@ -0,0 +1,129 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// Built-in lifecycle states. Every tenant-defined status maps onto one of
+// these so scheduling, stock, contracts and reporting keep working with
+// custom workflows.
+export const WORK_ORDER_STATUS_CATEGORIES = [
+  "created",
+  "assigned",
+  "in-progress",
+  "completed",
+  "cancelled",
+  "on-hold",
+] as const;
+
+export type WorkOrderStatusCategory =
+  (typeof WORK_ORDER_STATUS_CATEGORIES)[number];
+
+// Conditions a work order must meet before entering a status
+export const WORK_ORDER_TRANSITION_REQUIREMENTS = [
+  "completionReport", // A submitted completion report exists
+  "report", // Any submitted report exists
+  "personnel", // At least one technician is assigned
+  "scheduledDate", // The visit is scheduled
+  "tasksCompleted", // Every task on the work order is done
+  "notes", // The person changing status leaves a note
+] as const;
+
+export type WorkOrderTransitionRequirement =
+  (typeof WORK_ORDER_TRANSITION_REQUIREMENTS)[number];
+
+export interface IWorkOrderTransition {
+  to: string; // Target status key
+  roles: string[]; // Role slugs allowed to make the move, empty for anyone
+  requirements: WorkOrderTransitionRequirement[];
+}
+
+export interface IWorkOrderStatus extends Document {
+  _id: mongoose.Types.ObjectId;
+  tenantId: string;
+  key: string;
+  name: string;
+  description?: string;
+  color: string;
+  category: WorkOrderStatusCategory;
+  order: number;
+  isInitial: boolean;
+  isActive: boolean;
+  transitions: IWorkOrderTransition[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const transitionSchema = new Schema<IWorkOrderTransition>(
+  {
+    to: { type: String, required: true, trim: true },
+    roles: { type: [String], default: [] },
+    requirements: {
+      type: [String],
+      enum: WORK_ORDER_TRANSITION_REQUIREMENTS,
+      default: [],
+    },
+  },
+  { _id: false },
+);
+
+const workOrderStatusSchema = new Schema<IWorkOrderStatus>(
+  {
+    tenantId: {
+      type: String,
+      required: true,
+    },
+    key: {
+      type: String,
+      required: [true, "Status key is required"],
+      trim: true,
+      lowercase: true,
+      match: [
+        /^[a-z0-9][a-z0-9_-]*$/,
+        "Key may only contain lowercase letters, digits, dashes and underscores",
+      ],
+    },
+    name: {
+      type: String,
+      required: [true, "Status name is required"],
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    color: {
+      type: String,
+      default: "#2196f3",
+      match: [/^#[0-9A-F]{6}$/i, "Color must be a valid hex color code"],
+    },
+    category: {
+      type: String,
+      enum: WORK_ORDER_STATUS_CATEGORIES,
+      required: true,
+    },
+    order: {
+      type: Number,
+      default: 0,
+    },
+    isInitial: {
+      type: Boolean,
+      default: false,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    transitions: {
+      type: [transitionSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+workOrderStatusSchema.index({ tenantId: 1, key: 1 }, { unique: true });
+workOrderStatusSchema.index({ tenantId: 1, order: 1 });
+
+export const WorkOrderStatus = mongoose.model<IWorkOrderStatus>(
+  "WorkOrderStatus",
+  workOrderStatusSchema,
+);
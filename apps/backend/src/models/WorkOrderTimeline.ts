@@ -21,7 +21,8 @@ export interface IWorkOrderTimelineEntry {
     | 'cancelled'
     | 'comment_added'
     | 'attachment_added'
-    | 'attachment_removed';
+    | 'attachment_removed'
+    | 'sla_breached';
   title: string; // Human-readable title for the timeline entry
   description?: string; // Optional detailed description
   metadata?: {
@@ -82,7 +83,8 @@ const WorkOrderTimelineSchema = new Schema<IWorkOrderTimelineEntry>(
         'cancelled',
         'comment_added',
         'attachment_added',
-        'attachment_removed'
+        'attachment_removed',
+        'sla_breached'
       ],
     },
     title: {
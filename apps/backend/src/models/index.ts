@@ -23,5 +23,22 @@ export { Notification, type INotification } from "./Notification";
 export { CalendarEvent, type ICalendarEvent } from "./CalendarEvent";
 export { Material, type IMaterial } from "./Material";
 export { TaskMaterial, type ITaskMaterial } from "./TaskMaterial";
+export { StockMovement, type IStockMovement } from "./StockMovement";
+export { StockReservation, type IStockReservation } from "./StockReservation";
+export { StockLocation, type IStockLocation } from "./StockLocation";
+export { StockLevel, type IStockLevel } from "./StockLevel";
+export { Supplier, type ISupplier } from "./Supplier";
+export { PurchaseOrder, type IPurchaseOrder } from "./PurchaseOrder";
 export { Report, type IReport } from "./Report";
 export { WorkOrderTimeline, type IWorkOrderTimelineEntry } from "./WorkOrderTimeline";
+export { Quote, type IQuote } from "./Quote";
+export { Invoice, type IInvoice } from "./Invoice";
+export { Contract, type IContract } from "./Contract";
+export { Asset, type IAsset } from "./Asset";
+export { ReportTemplate, type IReportTemplate } from "./ReportTemplate";
+export { InspectionForm, type IInspectionForm } from "./InspectionForm";
+export { IdempotencyKey, type IIdempotencyKey } from "./IdempotencyKey";
+export { LocationPing, type ILocationPing } from "./LocationPing";
+export { Timesheet, type ITimesheet } from "./Timesheet";
+export { WorkOrderStatus, type IWorkOrderStatus } from "./WorkOrderStatus";
+export { SlaPolicy, type ISlaPolicy } from "./SlaPolicy";
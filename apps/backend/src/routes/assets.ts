@@ -0,0 +1,348 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { z } from "zod";
+import dayjs from "dayjs";
+import { Asset, Client } from "../models";
+import { authenticate } from "../middleware/auth";
+import { requirePermission } from "../middleware/permission-guard";
+import { AuthenticatedRequest } from "../types";
+import { handleServiceError } from "../utils/error-handler";
+import { AssetService } from "../services/asset-service";
+
+// ----------------------------------------------------------------------
+
+const attributeSchema = z.object({
+  key: z.string().min(1, "Attribute name is required"),
+  value: z.string().default(""),
+});
+
+const assetSchema = z.object({
+  clientId: z.string().min(1, "Client is required"),
+  name: z.string().min(1, "Name is required"),
+  category: z.string().optional(),
+  make: z.string().optional(),
+  model: z.string().optional(),
+  serialNumber: z.string().optional(),
+  assetTag: z.string().optional(),
+  site: z
+    .object({
+      name: z.string().optional(),
+      address: z.string().optional(),
+      location: z.string().optional(),
+    })
+    .default({}),
+  installDate: z.coerce.date().nullable().optional(),
+  warrantyExpiry: z.coerce.date().nullable().optional(),
+  status: z.enum(["active", "inactive", "retired"]).default("active"),
+  attributes: z.array(attributeSchema).default([]),
+  notes: z.string().optional(),
+});
+
+const updateAssetSchema = assetSchema.partial();
+
+const searchAssetsSchema = z.object({
+  clientId: z.string().optional(),
+  status: z.enum(["active", "inactive", "retired"]).optional(),
+  warranty: z.enum(["valid", "expiring", "expired"]).optional(),
+  q: z.string().optional(),
+  limit: z.coerce.number().min(1).max(100).default(25),
+  offset: z.coerce.number().min(0).default(0),
+});
+
+// Warranties ending within this many days are flagged as expiring
+const WARRANTY_WARNING_DAYS = 60;
+
+// Asset routes
+export async function assetRoutes(fastify: FastifyInstance) {
+  // GET /api/v1/assets - List assets with their last service date
+  fastify.get(
+    "/",
+    { preHandler: [authenticate, requirePermission("assets.view")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const tenantId = tenant._id.toString();
+        const { clientId, status, warranty, q, limit, offset } =
+          searchAssetsSchema.parse(request.query);
+
+        const filters: any = { tenantId };
+        if (clientId) filters.clientId = clientId;
+        if (status) filters.status = status;
+
+        const now = new Date();
+        const warningDate = dayjs().add(WARRANTY_WARNING_DAYS, "day").toDate();
+        if (warranty === "valid") {
+          filters.warrantyExpiry = { $gt: warningDate };
+        } else if (warranty === "expiring") {
+          filters.warrantyExpiry = { $gte: now, $lte: warningDate };
+        } else if (warranty === "expired") {
+          filters.warrantyExpiry = { $lt: now };
+        }
+
+        if (q) {
+          const escaped = q.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+          filters.$or = [
+            { name: { $regex: escaped, $options: "i" } },
+            { make: { $regex: escaped, $options: "i" } },
+            { model: { $regex: escaped, $options: "i" } },
+            { serialNumber: { $regex: escaped, $options: "i" } },
+            { assetTag: { $regex: escaped, $options: "i" } },
+            { "site.name": { $regex: escaped, $options: "i" } },
+          ];
+        }
+
+        const [assets, total] = await Promise.all([
+          Asset.find(filters)
+            .populate("clientId", "name company")
+            .sort({ name: 1 })
+            .skip(offset)
+            .limit(limit)
+            .lean<any[]>(),
+          Asset.countDocuments(filters),
+        ]);
+
+        const lastServiced = await AssetService.getLastServiceDates(
+          tenantId,
+          assets.map((asset) => asset._id.toString()),
+        );
+
+        return reply.send({
+          success: true,
+          data: assets.map((asset) => ({
+            ...asset,
+            lastServicedAt: lastServiced.get(asset._id.toString()),
+          })),
+          pagination: {
+            total,
+            limit,
+            offset,
+            hasMore: offset + limit < total,
+          },
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to fetch assets",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // GET /api/v1/assets/:id - Asset details
+  fastify.get(
+    "/:id",
+    { preHandler: [authenticate, requirePermission("assets.view")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { id } = request.params as { id: string };
+
+        const asset = await Asset.findOne({
+          _id: id,
+          tenantId: tenant._id.toString(),
+        })
+          .populate("clientId", "name company")
+          .lean();
+        if (!asset) {
+          return reply.status(404).send({
+            success: false,
+            message: "Asset not found",
+          });
+        }
+
+        return reply.send({ success: true, data: asset });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to fetch asset",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // GET /api/v1/assets/:id/history - Service history from work orders, reports, time and materials
+  fastify.get(
+    "/:id/history",
+    { preHandler: [authenticate, requirePermission("assets.view")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { id } = request.params as { id: string };
+
+        const history = await AssetService.getServiceHistory(
+          tenant._id.toString(),
+          id,
+        );
+
+        return reply.send({ success: true, data: history });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to fetch service history",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // POST /api/v1/assets - Register an asset
+  fastify.post(
+    "/",
+    { preHandler: [authenticate, requirePermission("assets.create")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const tenantId = tenant._id.toString();
+        const validatedData = assetSchema.parse(request.body);
+
+        const client = await Client.findOne({
+          _id: validatedData.clientId,
+          tenantId,
+        });
+        if (!client) {
+          return reply.status(400).send({
+            success: false,
+            message: "Client not found",
+          });
+        }
+
+        const asset = new Asset({
+          ...validatedData,
+          installDate: validatedData.installDate || undefined,
+          warrantyExpiry: validatedData.warrantyExpiry || undefined,
+          tenantId,
+          createdBy: user.id,
+        });
+        await asset.save();
+
+        return reply.status(201).send({
+          success: true,
+          data: asset,
+          message: "Asset created successfully",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to create asset",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // PUT /api/v1/assets/:id - Update an asset
+  fastify.put(
+    "/:id",
+    { preHandler: [authenticate, requirePermission("assets.edit")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const tenantId = tenant._id.toString();
+        const { id } = request.params as { id: string };
+        const validatedData = updateAssetSchema.parse(request.body);
+
+        const asset = await Asset.findOne({ _id: id, tenantId });
+        if (!asset) {
+          return reply.status(404).send({
+            success: false,
+            message: "Asset not found",
+          });
+        }
+
+        if (
+          validatedData.clientId &&
+          validatedData.clientId !== asset.clientId
+        ) {
+          const client = await Client.findOne({
+            _id: validatedData.clientId,
+            tenantId,
+          });
+          if (!client) {
+            return reply.status(400).send({
+              success: false,
+              message: "Client not found",
+            });
+          }
+        }
+
+        const { installDate, warrantyExpiry, ...rest } = validatedData;
+        asset.set(rest);
+        // null clears a date
+        if (installDate !== undefined) {
+          asset.installDate = installDate || undefined;
+        }
+        if (warrantyExpiry !== undefined) {
+          asset.warrantyExpiry = warrantyExpiry || undefined;
+        }
+        await asset.save();
+
+        return reply.send({
+          success: true,
+          data: asset,
+          message: "Asset updated successfully",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to update asset",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // DELETE /api/v1/assets/:id - Delete an asset without service history
+  fastify.delete(
+    "/:id",
+    { preHandler: [authenticate, requirePermission("assets.delete")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const tenantId = tenant._id.toString();
+        const { id } = request.params as { id: string };
+
+        const asset = await Asset.findOne({ _id: id, tenantId });
+        if (!asset) {
+          return reply.status(404).send({
+            success: false,
+            message: "Asset not found",
+          });
+        }
+
+        if (await AssetService.isReferenced(tenantId, id)) {
+          return reply.status(400).send({
+            success: false,
+            message:
+              "This asset has service history; mark it as retired instead",
+          });
+        }
+
+        await asset.deleteOne();
+
+        return reply.send({
+          success: true,
+          message: "Asset deleted successfully",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to delete asset",
+          fastify.log,
+        );
+      }
+    },
+  );
+}
@@ -0,0 +1,412 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { z } from "zod";
+import { authenticatePortal, PortalRequest } from "../middleware/portal-auth";
+import EnhancedSubscriptionMiddleware from "../middleware/enhanced-subscription-middleware";
+import { handleServiceError } from "../utils/error-handler";
+import { ClientPortalService } from "../services/client-portal-service";
+import { QuoteService } from "../services/quote-service";
+import { PDFService } from "../services/pdf-service";
+import { ReportTemplateService } from "../services/report-template-service";
+
+// ----------------------------------------------------------------------
+
+const requestLinkSchema = z.object({
+  tenant: z.string().min(1, "Company is required"),
+  email: z.string().email("Valid email is required"),
+});
+
+const sessionSchema = z.object({
+  token: z.string().min(1, "Token is required"),
+});
+
+const workOrderQuerySchema = z.object({
+  scope: z.enum(["open", "closed", "all"]).default("all"),
+});
+
+const declineSchema = z.object({
+  reason: z.string().max(1000).optional(),
+});
+
+const serviceRequestSchema = z.object({
+  title: z.string().min(1, "Please describe what you need").max(200),
+  details: z.string().max(5000).optional(),
+  address: z.string().optional(),
+  preferredDate: z.coerce.date().optional(),
+  priority: z.enum(["low", "medium", "high", "urgent"]).optional(),
+});
+
+// Client self-service portal routes
+export async function clientPortalRoutes(fastify: FastifyInstance) {
+  // POST /api/v1/portal/request-link - Email a sign-in link to a client contact
+  fastify.post(
+    "/request-link",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { tenant, email } = requestLinkSchema.parse(request.body);
+
+        try {
+          await ClientPortalService.requestAccessLink(tenant, email);
+        } catch (error) {
+          fastify.log.error({ error }, "Failed to send portal link");
+        }
+
+        // Same answer whether or not the address is known
+        return reply.send({
+          success: true,
+          message:
+            "If this email belongs to one of our customers, a sign-in link is on its way",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to request portal link",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // POST /api/v1/portal/session - Exchange a magic link token for a session
+  fastify.post(
+    "/session",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { token } = sessionSchema.parse(request.body);
+        const session = await ClientPortalService.createSession(token);
+
+        return reply.send({ success: true, data: session });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to open portal session",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // Everything below requires a portal session
+  await fastify.register(async function (portal) {
+    portal.addHook("preHandler", authenticatePortal);
+
+    // GET /api/v1/portal/me - Current client and company
+    portal.get("/me", async (request: FastifyRequest, reply: FastifyReply) => {
+      const { tenant, client, email } = (request as PortalRequest).portal!;
+
+      return reply.send({
+        success: true,
+        data: {
+          email,
+          client: {
+            _id: client._id,
+            name: client.name,
+            company: client.company,
+            email: client.email,
+            phone: client.phone,
+            address: client.address,
+          },
+          company: {
+            name: tenant.name,
+            logo: tenant.branding?.logoUrl,
+            email: tenant.email,
+            phone: tenant.phone,
+          },
+        },
+      });
+    });
+
+    // GET /api/v1/portal/work-orders - Open and past work orders
+    portal.get(
+      "/work-orders",
+      async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+          const { tenant, client } = (request as PortalRequest).portal!;
+          const { scope } = workOrderQuerySchema.parse(request.query);
+
+          const workOrders = await ClientPortalService.listWorkOrders(
+            tenant._id.toString(),
+            client._id.toString(),
+            scope,
+          );
+
+          return reply.send({ success: true, data: workOrders });
+        } catch (error) {
+          return handleServiceError(
+            error,
+            reply,
+            "Failed to fetch work orders",
+            fastify.log,
+          );
+        }
+      },
+    );
+
+    // GET /api/v1/portal/work-orders/:id - Work order with timeline
+    portal.get(
+      "/work-orders/:id",
+      async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+          const { tenant, client } = (request as PortalRequest).portal!;
+          const { id } = request.params as { id: string };
+
+          const data = await ClientPortalService.getWorkOrder(
+            tenant._id.toString(),
+            client._id.toString(),
+            id,
+          );
+
+          return reply.send({ success: true, data });
+        } catch (error) {
+          return handleServiceError(
+            error,
+            reply,
+            "Failed to fetch work order",
+            fastify.log,
+          );
+        }
+      },
+    );
+
+    // POST /api/v1/portal/requests - Submit a new service request
+    portal.post(
+      "/requests",
+      { preHandler: EnhancedSubscriptionMiddleware.checkWorkOrderLimit() },
+      async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+          const { tenant, client } = (request as PortalRequest).portal!;
+          const tenantId = tenant._id.toString();
+          const data = serviceRequestSchema.parse(request.body);
+
+          const workOrder = await ClientPortalService.createServiceRequest(
+            tenantId,
+            client,
+            data,
+            (request as any).id,
+          );
+
+          return reply.status(201).send({
+            success: true,
+            data: {
+              _id: workOrder._id,
+              workOrderNumber: workOrder.workOrderNumber,
+              title: workOrder.title,
+              status: workOrder.status,
+            },
+            message: "Service request submitted",
+          });
+        } catch (error) {
+          return handleServiceError(
+            error,
+            reply,
+            "Failed to submit service request",
+            fastify.log,
+          );
+        }
+      },
+    );
+
+    // GET /api/v1/portal/reports - Approved service reports
+    portal.get(
+      "/reports",
+      async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+          const { tenant, client } = (request as PortalRequest).portal!;
+
+          const reports = await ClientPortalService.listReports(
+            tenant._id.toString(),
+            client._id.toString(),
+          );
+
+          return reply.send({ success: true, data: reports });
+        } catch (error) {
+          return handleServiceError(
+            error,
+            reply,
+            "Failed to fetch reports",
+            fastify.log,
+          );
+        }
+      },
+    );
+
+    // GET /api/v1/portal/reports/:id/pdf - Download an approved report
+    portal.get(
+      "/reports/:id/pdf",
+      async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+          const { tenant, client } = (request as PortalRequest).portal!;
+          const tenantId = tenant._id.toString();
+          const { id } = request.params as { id: string };
+
+          const report = await ClientPortalService.getReport(
+            tenantId,
+            client._id.toString(),
+            id,
+          );
+          const template = await ReportTemplateService.resolveForReport(
+            tenantId,
+            (report as any).type,
+          );
+          const pdf = await PDFService.generateReportPDF(
+            report as any,
+            template,
+          );
+
+          reply.type("application/pdf");
+          reply.header(
+            "Content-Disposition",
+            `attachment; filename="report-${id}.pdf"`,
+          );
+          return reply.send(pdf);
+        } catch (error) {
+          return handleServiceError(
+            error,
+            reply,
+            "Failed to render report PDF",
+            fastify.log,
+          );
+        }
+      },
+    );
+
+    // GET /api/v1/portal/quotes - Quotes sent to the client
+    portal.get(
+      "/quotes",
+      async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+          const { tenant, client } = (request as PortalRequest).portal!;
+
+          const quotes = await ClientPortalService.listQuotes(
+            tenant._id.toString(),
+            client._id.toString(),
+          );
+
+          return reply.send({ success: true, data: quotes });
+        } catch (error) {
+          return handleServiceError(
+            error,
+            reply,
+            "Failed to fetch quotes",
+            fastify.log,
+          );
+        }
+      },
+    );
+
+    // GET /api/v1/portal/quotes/:id/pdf - Download a quote
+    portal.get(
+      "/quotes/:id/pdf",
+      async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+          const { tenant, client } = (request as PortalRequest).portal!;
+          const { id } = request.params as { id: string };
+
+          const quote: any = await QuoteService.getQuoteWithClient(
+            id,
+            tenant._id.toString(),
+          );
+          if (
+            !quote ||
+            quote.status === "draft" ||
+            quote.clientId?._id?.toString() !== client._id.toString()
+          ) {
+            return reply.status(404).send({
+              success: false,
+              message: "Quote not found",
+            });
+          }
+
+          const pdfDoc = await PDFService.generateQuotePDF(quote, tenant);
+
+          reply.type("application/pdf");
+          reply.header(
+            "Content-Disposition",
+            `attachment; filename="${quote.quoteNumber}.pdf"`,
+          );
+          return reply.send(pdfDoc);
+        } catch (error) {
+          return handleServiceError(
+            error,
+            reply,
+            "Failed to render quote PDF",
+            fastify.log,
+          );
+        }
+      },
+    );
+
+    // POST /api/v1/portal/quotes/:id/accept - Approve a quote
+    portal.post(
+      "/quotes/:id/accept",
+      { preHandler: EnhancedSubscriptionMiddleware.checkWorkOrderLimit() },
+      async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+          const { tenant, client } = (request as PortalRequest).portal!;
+          const tenantId = tenant._id.toString();
+          const { id } = request.params as { id: string };
+
+          const { quote, workOrder } = await ClientPortalService.acceptQuote(
+            tenantId,
+            client._id.toString(),
+            id,
+            (request as any).id,
+          );
+
+          return reply.send({
+            success: true,
+            data: {
+              quote,
+              workOrder: {
+                _id: workOrder._id,
+                workOrderNumber: workOrder.workOrderNumber,
+                status: workOrder.status,
+              },
+            },
+            message: "Quote approved",
+          });
+        } catch (error) {
+          return handleServiceError(
+            error,
+            reply,
+            "Failed to approve quote",
+            fastify.log,
+          );
+        }
+      },
+    );
+
+    // POST /api/v1/portal/quotes/:id/decline - Decline a quote
+    portal.post(
+      "/quotes/:id/decline",
+      async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+          const { tenant, client } = (request as PortalRequest).portal!;
+          const { id } = request.params as { id: string };
+          const { reason } = declineSchema.parse(request.body || {});
+
+          const quote = await ClientPortalService.declineQuote(
+            tenant._id.toString(),
+            client._id.toString(),
+            id,
+            reason,
+          );
+
+          return reply.send({
+            success: true,
+            data: quote,
+            message: "Quote declined",
+          });
+        } catch (error) {
+          return handleServiceError(
+            error,
+            reply,
+            "Failed to decline quote",
+            fastify.log,
+          );
+        }
+      },
+    );
+  });
+}
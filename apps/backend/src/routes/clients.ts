@@ -7,6 +7,8 @@ import { AuthenticatedRequest } from "../types";
 import { EntityCleanupService } from "../services/entity-cleanup-service";
 import EnhancedSubscriptionMiddleware from "../middleware/enhanced-subscription-middleware";
 import { EnvSubscriptionService } from "../services/env-subscription-service";
+import { ClientPortalService } from "../services/client-portal-service";
+import { handleServiceError } from "../utils/error-handler";
 
 export async function clientRoutes(fastify: FastifyInstance) {
   // Apply authentication middleware to all routes
@@ -189,6 +191,52 @@ export async function clientRoutes(fastify: FastifyInstance) {
     }
   );
 
+  // POST /api/v1/clients/:id/portal-link - Create (and optionally email) a portal link
+  fastify.post(
+    "/:id/portal-link",
+    {
+      preHandler: requirePermission("clients.edit"),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { id } = request.params as { id: string };
+        const { email, send } = (request.body || {}) as {
+          email?: string;
+          send?: boolean;
+        };
+
+        const link = send
+          ? await ClientPortalService.sendAccessLink(
+              tenant._id.toString(),
+              id,
+              email
+            )
+          : await ClientPortalService.createAccessLink(
+              tenant._id.toString(),
+              id,
+              email
+            );
+
+        return reply.send({
+          success: true,
+          message: send
+            ? `Portal link sent to ${link.email}`
+            : "Portal link created",
+          data: link,
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to create portal link",
+          fastify.log
+        );
+      }
+    }
+  );
+
   // GET /api/v1/clients/:id/delete-info - Get deletion impact info
   fastify.get(
     "/:id/delete-info",
@@ -4,6 +4,8 @@ import { Comment, Task, User } from "../models";
 import { AuthenticatedRequest } from "../types";
 import { realtimeService } from "../services/realtime-service";
 import { NotificationService } from "../services/notification-service";
+import { WebhookService } from "../services/webhook-service";
+import { commentWebhookData } from "../services/webhook-payloads";
 
 export async function commentsRoutes(fastify: FastifyInstance) {
   // Get comments for a task
@@ -118,6 +120,13 @@ export async function commentsRoutes(fastify: FastifyInstance) {
         user.tenantId
       );
 
+      await WebhookService.triggerWebhooks(
+        user.tenantId.toString(),
+        'comment.created',
+        commentWebhookData(comment, task.workOrderId?.toString()),
+        comment._id.toString()
+      );
+
       return reply.code(201).send({ success: true, data: transformedComment });
     } catch (error) {
       fastify.log.error({ error }, 'Failed to create comment');
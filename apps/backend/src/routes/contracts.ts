@@ -0,0 +1,735 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { z } from "zod";
+import { Client, Contract, Material, WorkOrder } from "../models";
+import { authenticate } from "../middleware/auth";
+import { requirePermission } from "../middleware/permission-guard";
+import { HttpError } from "../middleware/http-error-middleware";
+import { AuthenticatedRequest } from "../types";
+import { handleServiceError } from "../utils/error-handler";
+import { ContractService } from "../services/contract-service";
+
+// ----------------------------------------------------------------------
+
+const siteSchema = z.object({
+  _id: z.string().optional(),
+  name: z.string().min(1, "Site name is required"),
+  address: z.string().min(1, "Site address is required"),
+  coordinates: z
+    .object({ latitude: z.number(), longitude: z.number() })
+    .optional(),
+  notes: z.string().optional(),
+});
+
+const equipmentSchema = z.object({
+  _id: z.string().optional(),
+  name: z.string().min(1, "Equipment name is required"),
+  siteId: z.string().optional(),
+  manufacturer: z.string().optional(),
+  model: z.string().optional(),
+  serialNumber: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+const templateSchema = z.object({
+  title: z.string().optional(),
+  details: z.string().optional(),
+  priority: z.enum(["low", "medium", "high", "urgent"]).default("medium"),
+  estimatedHours: z.coerce.number().min(0).optional(),
+  personnelIds: z.array(z.string()).default([]),
+  tasks: z
+    .array(
+      z.object({
+        title: z.string().min(1, "Task title is required"),
+        description: z.string().optional(),
+        estimatedHours: z.coerce.number().min(0).optional(),
+      }),
+    )
+    .default([]),
+  materials: z
+    .array(
+      z.object({
+        materialId: z.string().optional(),
+        name: z.string().optional(),
+        quantity: z.coerce
+          .number()
+          .positive("Quantity must be greater than zero"),
+        unitPrice: z.coerce.number().min(0).optional(),
+      }),
+    )
+    .default([]),
+});
+
+const contractSchema = z.object({
+  clientId: z.string().min(1, "Client is required"),
+  title: z.string().min(1, "Title is required"),
+  description: z.string().optional(),
+  sites: z.array(siteSchema).default([]),
+  equipment: z.array(equipmentSchema).default([]),
+  schedule: z.object({
+    interval: z.coerce.number().int().min(1).default(1),
+    unit: z.enum(["week", "month", "year"]).default("month"),
+    firstVisitDate: z.coerce.date().optional(),
+    leadDays: z.coerce.number().int().min(0).max(365).default(14),
+  }),
+  price: z
+    .object({
+      amount: z.coerce.number().min(0).default(0),
+      billingCycle: z
+        .enum(["one_time", "monthly", "quarterly", "annual"])
+        .default("annual"),
+    })
+    .default({ amount: 0, billingCycle: "annual" }),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  renewal: z
+    .object({
+      type: z.enum(["none", "manual", "auto"]).default("manual"),
+      termMonths: z.coerce.number().int().min(1).max(120).default(12),
+      noticeDays: z.coerce.number().int().min(0).default(30),
+    })
+    .default({ type: "manual", termMonths: 12, noticeDays: 30 }),
+  workOrderTemplate: templateSchema.default({
+    priority: "medium",
+    personnelIds: [],
+    tasks: [],
+    materials: [],
+  }),
+  notes: z.string().optional(),
+});
+
+const updateContractSchema = contractSchema.partial();
+
+const searchContractsSchema = z.object({
+  status: z
+    .enum(["draft", "active", "suspended", "expired", "cancelled"])
+    .optional(),
+  clientId: z.string().optional(),
+  q: z.string().optional(),
+  limit: z.coerce.number().min(1).max(100).default(25),
+  offset: z.coerce.number().min(0).default(0),
+});
+
+const renewSchema = z.object({
+  termMonths: z.coerce.number().int().min(1).max(120).optional(),
+});
+
+/**
+ * Fill in template material names and default prices from the catalogue
+ */
+async function resolveTemplateMaterials(
+  tenantId: string,
+  materials: z.infer<typeof templateSchema>["materials"],
+) {
+  const ids = materials
+    .map((material) => material.materialId)
+    .filter(Boolean) as string[];
+  const catalogue =
+    ids.length > 0
+      ? await Material.find({ _id: { $in: ids }, tenantId }).lean<any[]>()
+      : [];
+  const byId = new Map(catalogue.map((m) => [m._id.toString(), m]));
+
+  return materials.map((material) => {
+    const item = material.materialId ? byId.get(material.materialId) : null;
+    if (material.materialId && !item) {
+      throw new HttpError(400, `Material ${material.materialId} not found`);
+    }
+    const name = material.name || item?.name;
+    if (!name) {
+      throw new HttpError(400, "Material name is required");
+    }
+    return {
+      materialId: material.materialId,
+      name,
+      quantity: material.quantity,
+      unitPrice: material.unitPrice ?? item?.unitCost ?? 0,
+    };
+  });
+}
+
+// Contract routes
+export async function contractRoutes(fastify: FastifyInstance) {
+  // POST /api/v1/contracts/process - Generate due visits, renew and expire contracts (for cron job)
+  fastify.post(
+    "/process",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const result = await ContractService.processContracts();
+
+        return reply.send({
+          success: true,
+          ...result,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to process contracts",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // GET /api/v1/contracts - List contracts with visit progress
+  fastify.get(
+    "/",
+    { preHandler: [authenticate, requirePermission("contracts.view")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const tenantId = tenant._id.toString();
+        const { status, clientId, q, limit, offset } =
+          searchContractsSchema.parse(request.query);
+
+        const filters: any = { tenantId };
+        if (status) filters.status = status;
+        if (clientId) filters.clientId = clientId;
+        if (q) {
+          const escaped = q.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+          filters.$or = [
+            { contractNumber: { $regex: escaped, $options: "i" } },
+            { title: { $regex: escaped, $options: "i" } },
+          ];
+        }
+
+        const [contracts, total] = await Promise.all([
+          Contract.find(filters)
+            .select("-history")
+            .populate("clientId", "name company")
+            .sort({ createdAt: -1 })
+            .skip(offset)
+            .limit(limit)
+            .lean<any[]>(),
+          Contract.countDocuments(filters),
+        ]);
+
+        const summaries = await ContractService.getVisitSummaries(
+          tenantId,
+          contracts,
+        );
+
+        return reply.send({
+          success: true,
+          data: contracts.map((contract) => ({
+            ...contract,
+            visits: summaries.get(contract._id.toString()),
+          })),
+          pagination: {
+            total,
+            limit,
+            offset,
+            hasMore: offset + limit < total,
+          },
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to fetch contracts",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // GET /api/v1/contracts/:id - Contract with visits
+  fastify.get(
+    "/:id",
+    { preHandler: [authenticate, requirePermission("contracts.view")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { id } = request.params as { id: string };
+
+        const contract = await ContractService.getContractDetails(
+          tenant._id.toString(),
+          id,
+        );
+
+        return reply.send({ success: true, data: contract });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to fetch contract",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // POST /api/v1/contracts - Create a draft contract
+  fastify.post(
+    "/",
+    { preHandler: [authenticate, requirePermission("contracts.create")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const tenantId = tenant._id.toString();
+        const validatedData = contractSchema.parse(request.body);
+
+        if (validatedData.endDate <= validatedData.startDate) {
+          return reply.status(400).send({
+            success: false,
+            message: "End date must be after the start date",
+          });
+        }
+
+        const client = await Client.findOne({
+          _id: validatedData.clientId,
+          tenantId,
+        });
+        if (!client) {
+          return reply.status(400).send({
+            success: false,
+            message: "Client not found",
+          });
+        }
+
+        const materials = await resolveTemplateMaterials(
+          tenantId,
+          validatedData.workOrderTemplate.materials,
+        );
+
+        const contract = new Contract({
+          ...validatedData,
+          tenantId,
+          contractNumber:
+            await ContractService.generateContractNumber(tenantId),
+          status: "draft",
+          schedule: {
+            ...validatedData.schedule,
+            firstVisitDate:
+              validatedData.schedule.firstVisitDate || validatedData.startDate,
+            nextVisitIndex: 0,
+          },
+          price: {
+            ...validatedData.price,
+            currency: tenant.settings?.currency || "EUR",
+          },
+          termStartDate: validatedData.startDate,
+          workOrderTemplate: {
+            ...validatedData.workOrderTemplate,
+            materials,
+          },
+          createdBy: user.id,
+          history: [
+            {
+              status: "draft",
+              timestamp: new Date(),
+              userId: user.id,
+              notes: "Contract created",
+            },
+          ],
+        });
+
+        ContractService.syncSchedule(contract);
+        await contract.save();
+
+        return reply.status(201).send({
+          success: true,
+          data: contract,
+          message: "Contract created successfully",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to create contract",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // PUT /api/v1/contracts/:id - Update contract terms, coverage and template
+  fastify.put(
+    "/:id",
+    { preHandler: [authenticate, requirePermission("contracts.edit")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const tenantId = tenant._id.toString();
+        const { id } = request.params as { id: string };
+        const validatedData = updateContractSchema.parse(request.body);
+
+        const contract = await Contract.findOne({ _id: id, tenantId });
+        if (!contract) {
+          return reply.status(404).send({
+            success: false,
+            message: "Contract not found",
+          });
+        }
+
+        if (contract.status === "cancelled") {
+          return reply.status(400).send({
+            success: false,
+            message: "Cancelled contracts cannot be edited",
+          });
+        }
+
+        if (
+          validatedData.clientId &&
+          validatedData.clientId !== contract.clientId
+        ) {
+          const client = await Client.findOne({
+            _id: validatedData.clientId,
+            tenantId,
+          });
+          if (!client) {
+            return reply.status(400).send({
+              success: false,
+              message: "Client not found",
+            });
+          }
+        }
+
+        const { schedule, price, workOrderTemplate, ...rest } = validatedData;
+        Object.assign(contract, rest);
+
+        if (contract.status === "draft" && validatedData.startDate) {
+          contract.termStartDate = validatedData.startDate;
+        }
+        if (contract.endDate <= contract.startDate) {
+          return reply.status(400).send({
+            success: false,
+            message: "End date must be after the start date",
+          });
+        }
+
+        if (price) {
+          contract.set("price", { ...contract.toObject().price, ...price });
+        }
+
+        if (workOrderTemplate) {
+          contract.workOrderTemplate = {
+            ...workOrderTemplate,
+            materials: await resolveTemplateMaterials(
+              tenantId,
+              workOrderTemplate.materials,
+            ),
+          };
+        }
+
+        if (schedule) {
+          contract.set("schedule", {
+            ...contract.toObject().schedule,
+            ...schedule,
+            firstVisitDate:
+              schedule.firstVisitDate || contract.schedule.firstVisitDate,
+          });
+        }
+
+        await ContractService.realignSchedule(contract);
+        await contract.save();
+
+        return reply.send({
+          success: true,
+          data: contract,
+          message: "Contract updated successfully",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to update contract",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // POST /api/v1/contracts/:id/activate - Activate and generate the visits already due
+  fastify.post(
+    "/:id/activate",
+    { preHandler: [authenticate, requirePermission("contracts.edit")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const { id } = request.params as { id: string };
+
+        const contract = await Contract.findOne({
+          _id: id,
+          tenantId: tenant._id.toString(),
+        });
+        if (!contract) {
+          return reply.status(404).send({
+            success: false,
+            message: "Contract not found",
+          });
+        }
+
+        if (!["draft", "suspended"].includes(contract.status)) {
+          return reply.status(400).send({
+            success: false,
+            message: "Only draft or suspended contracts can be activated",
+          });
+        }
+        if (contract.endDate < new Date()) {
+          return reply.status(400).send({
+            success: false,
+            message: "The contract term has already ended; renew it instead",
+          });
+        }
+
+        contract.status = "active";
+        ContractService.pushHistory(contract, "active", user.id);
+        const workOrders = await ContractService.generateDueVisits(
+          contract,
+          user.id,
+        );
+
+        return reply.send({
+          success: true,
+          data: contract,
+          generated: workOrders.length,
+          message:
+            workOrders.length > 0
+              ? `Contract activated; ${workOrders.length} work order(s) created`
+              : "Contract activated",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to activate contract",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // POST /api/v1/contracts/:id/generate - Create work orders for visits that are due now
+  fastify.post(
+    "/:id/generate",
+    { preHandler: [authenticate, requirePermission("contracts.edit")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const { id } = request.params as { id: string };
+
+        const contract = await Contract.findOne({
+          _id: id,
+          tenantId: tenant._id.toString(),
+        });
+        if (!contract) {
+          return reply.status(404).send({
+            success: false,
+            message: "Contract not found",
+          });
+        }
+
+        const workOrders = await ContractService.generateDueVisits(
+          contract,
+          user.id,
+        );
+
+        return reply.send({
+          success: true,
+          data: workOrders.map((workOrder) => ({
+            _id: workOrder._id,
+            workOrderNumber: workOrder.workOrderNumber,
+            scheduledDate: workOrder.scheduledDate,
+          })),
+          message:
+            workOrders.length > 0
+              ? `${workOrders.length} work order(s) created`
+              : "No visits are due yet",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to generate visits",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // POST /api/v1/contracts/:id/suspend - Pause visit generation
+  fastify.post(
+    "/:id/suspend",
+    { preHandler: [authenticate, requirePermission("contracts.edit")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const { id } = request.params as { id: string };
+        const { reason } = (request.body || {}) as { reason?: string };
+
+        const contract = await Contract.findOne({
+          _id: id,
+          tenantId: tenant._id.toString(),
+        });
+        if (!contract) {
+          return reply.status(404).send({
+            success: false,
+            message: "Contract not found",
+          });
+        }
+
+        if (contract.status !== "active") {
+          return reply.status(400).send({
+            success: false,
+            message: "Only active contracts can be suspended",
+          });
+        }
+
+        contract.status = "suspended";
+        ContractService.pushHistory(contract, "suspended", user.id, reason);
+        await contract.save();
+
+        return reply.send({
+          success: true,
+          data: contract,
+          message: "Contract suspended",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to suspend contract",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // POST /api/v1/contracts/:id/renew - Start the next term
+  fastify.post(
+    "/:id/renew",
+    { preHandler: [authenticate, requirePermission("contracts.edit")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const { id } = request.params as { id: string };
+        const { termMonths } = renewSchema.parse(request.body || {});
+
+        const contract = await ContractService.renew(
+          tenant._id.toString(),
+          id,
+          user.id,
+          termMonths,
+        );
+
+        return reply.send({
+          success: true,
+          data: contract,
+          message: "Contract renewed",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to renew contract",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // POST /api/v1/contracts/:id/cancel - Cancel contract; generated work orders are kept
+  fastify.post(
+    "/:id/cancel",
+    { preHandler: [authenticate, requirePermission("contracts.edit")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const { id } = request.params as { id: string };
+        const { reason } = (request.body || {}) as { reason?: string };
+
+        const contract = await Contract.findOne({
+          _id: id,
+          tenantId: tenant._id.toString(),
+        });
+        if (!contract) {
+          return reply.status(404).send({
+            success: false,
+            message: "Contract not found",
+          });
+        }
+
+        if (contract.status === "cancelled") {
+          return reply.status(400).send({
+            success: false,
+            message: "Contract is already cancelled",
+          });
+        }
+
+        contract.status = "cancelled";
+        contract.schedule.nextGenerationAt = undefined;
+        ContractService.pushHistory(contract, "cancelled", user.id, reason);
+        await contract.save();
+
+        return reply.send({
+          success: true,
+          data: contract,
+          message: "Contract cancelled",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to cancel contract",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // DELETE /api/v1/contracts/:id - Delete a contract that never generated visits
+  fastify.delete(
+    "/:id",
+    { preHandler: [authenticate, requirePermission("contracts.delete")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const tenantId = tenant._id.toString();
+        const { id } = request.params as { id: string };
+
+        const contract = await Contract.findOne({ _id: id, tenantId });
+        if (!contract) {
+          return reply.status(404).send({
+            success: false,
+            message: "Contract not found",
+          });
+        }
+
+        const hasVisits = await WorkOrder.exists({ tenantId, contractId: id });
+        if (hasVisits) {
+          return reply.status(400).send({
+            success: false,
+            message:
+              "Contracts with generated work orders cannot be deleted; cancel them instead",
+          });
+        }
+
+        await Contract.deleteOne({ _id: id, tenantId });
+
+        return reply.send({
+          success: true,
+          message: "Contract deleted successfully",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to delete contract",
+          fastify.log,
+        );
+      }
+    },
+  );
+}
@@ -0,0 +1,221 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { z } from "zod";
+import { authenticate } from "../middleware/auth";
+import { requirePermission } from "../middleware/permission-guard";
+import { AuthenticatedRequest } from "../types";
+import { handleServiceError } from "../utils/error-handler";
+import { DispatchPlannerService } from "../services/dispatch-planner-service";
+import { DispatchBoardService } from "../services/dispatch-board-service";
+
+// ----------------------------------------------------------------------
+
+const planQuerySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  personnelId: z
+    .union([z.string(), z.array(z.string())])
+    .optional()
+    .transform((value) =>
+      value === undefined ? undefined : Array.isArray(value) ? value : [value],
+    ),
+  speedKmh: z.coerce.number().min(5).max(130).optional(),
+  roadFactor: z.coerce.number().min(1).max(3).optional(),
+});
+
+const boardQuerySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+});
+
+const scheduleSchema = z.object({
+  workOrderId: z.string().min(1),
+  personnelId: z.string().min(1),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  startMinute: z
+    .number()
+    .int()
+    .min(0)
+    .max(24 * 60 - 1),
+  durationMinutes: z
+    .number()
+    .int()
+    .min(15)
+    .max(24 * 60)
+    .optional(),
+  fromPersonnelId: z.string().optional(),
+});
+
+const unscheduleSchema = z.object({
+  workOrderId: z.string().min(1),
+  personnelId: z.string().min(1),
+});
+
+const respondSchema = z.object({
+  decision: z.enum(["accepted", "rejected"]),
+  notes: z.string().trim().max(500).optional(),
+});
+
+// Dispatch routes
+export async function dispatchRoutes(fastify: FastifyInstance) {
+  // Add authentication middleware to all routes
+  fastify.addHook("preHandler", authenticate);
+
+  // GET /api/v1/dispatch/plan - Optimized daily visit sequence per technician
+  fastify.get(
+    "/plan",
+    { preHandler: requirePermission("workOrders.view") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { date, personnelId, speedKmh, roadFactor } =
+          planQuerySchema.parse(request.query);
+
+        const plan = await DispatchPlannerService.planDay(
+          tenant._id.toString(),
+          date,
+          { personnelIds: personnelId, speedKmh, roadFactor },
+        );
+
+        return reply.send({ success: true, data: plan });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to build dispatch plan",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // GET /api/v1/dispatch/board - Technician lanes and unscheduled queue for a day
+  fastify.get(
+    "/board",
+    { preHandler: requirePermission("workOrders.view") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { date } = boardQuerySchema.parse(request.query);
+
+        const board = await DispatchBoardService.getBoard(
+          tenant._id.toString(),
+          date,
+        );
+
+        return reply.send({ success: true, data: board });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to load dispatch board",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // POST /api/v1/dispatch/board/schedule - Drop a work order on a technician lane
+  fastify.post(
+    "/board/schedule",
+    { preHandler: requirePermission("workOrders.edit") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const body = scheduleSchema.parse(request.body);
+
+        const result = await DispatchBoardService.scheduleWorkOrder(
+          tenant._id.toString(),
+          user.id,
+          body,
+        );
+
+        return reply.send({
+          success: true,
+          data: result,
+          message: result.conflicts.length
+            ? "Work order scheduled with conflicts"
+            : "Work order scheduled",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to schedule work order",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // POST /api/v1/dispatch/board/unschedule - Move a work order back to the queue
+  fastify.post(
+    "/board/unschedule",
+    { preHandler: requirePermission("workOrders.edit") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const { workOrderId, personnelId } = unscheduleSchema.parse(
+          request.body,
+        );
+
+        await DispatchBoardService.unscheduleWorkOrder(
+          tenant._id.toString(),
+          user.id,
+          workOrderId,
+          personnelId,
+        );
+
+        return reply.send({
+          success: true,
+          message: "Work order moved back to the queue",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to unschedule work order",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // POST /api/v1/dispatch/assignments/:workOrderId/respond - Accept or decline own assignment
+  fastify.post(
+    "/assignments/:workOrderId/respond",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const { workOrderId } = request.params as { workOrderId: string };
+        const { decision, notes } = respondSchema.parse(request.body);
+
+        const assignment = await DispatchBoardService.respondToAssignment(
+          tenant._id.toString(),
+          user.id,
+          workOrderId,
+          decision,
+          notes,
+        );
+
+        return reply.send({
+          success: true,
+          data: assignment,
+          message:
+            decision === "accepted"
+              ? "Assignment accepted"
+              : "Assignment declined",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to respond to assignment",
+          fastify.log,
+        );
+      }
+    },
+  );
+}
@@ -109,6 +109,14 @@ interface TenantActivationEmailData {
   expirationHours?: number;
 }
 
+interface ClientPortalEmailData {
+  to: string;
+  name: string;
+  companyName: string;
+  magicLink: string;
+  expirationHours?: number;
+}
+
 interface PasswordResetEmailData {
   to: string;
   name: string;
@@ -633,6 +641,120 @@ export async function sendPasswordResetEmail(data: PasswordResetEmailData) {
   }
 }
 
+// Send a client their portal access link
+export async function sendClientPortalMagicLink(data: ClientPortalEmailData) {
+  const startTime = Date.now();
+  const requestId = EmailLogUtils.generateRequestId();
+
+  EmailLogUtils.logEmailAttempt(requestId, {
+    to: data.to,
+    subject: `Your ${data.companyName} customer portal link`,
+    type: 'client_portal_magic_link'
+  });
+
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  if (!data.magicLink || !emailRegex.test(data.to)) {
+    const error = `Invalid email format: ${data.to}`;
+    EmailLogUtils.logValidationError(requestId, 'invalid_email_format', { email: data.to });
+    return { success: false, error };
+  }
+
+  try {
+    const transporter = await createEmailTransporter();
+
+    const expirationHours = data.expirationHours || 24;
+
+    const emailHtml = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${data.companyName} customer portal</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+          .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; }
+          .button { display: inline-block; background: #667eea; color: white; padding: 15px 30px; text-decoration: none; border-radius: 5px; margin: 20px 0; font-weight: bold; }
+          .footer { text-align: center; margin-top: 30px; font-size: 12px; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${data.companyName}</h1>
+            <p>Customer portal</p>
+          </div>
+          <div class="content">
+            <h2>Hello ${data.name},</h2>
+            <p>Use the button below to follow your work orders, download service reports, approve quotes and request new work.</p>
+
+            <div style="text-align: center;">
+              <a href="${data.magicLink}" class="button">Open Customer Portal</a>
+            </div>
+
+            <p>This link expires in <strong>${expirationHours} hours</strong> and can only be used once. You can request a new one from the portal sign-in page at any time.</p>
+
+            <p style="background: #f1f1f1; padding: 10px; border-radius: 5px; word-break: break-all; font-family: monospace;">
+              ${data.magicLink}
+            </p>
+          </div>
+          <div class="footer">
+            <p>This is an automated message from ${data.companyName}. Please do not reply to this email.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const mailOptions = {
+      from: process.env.SMTP_FROM,
+      to: data.to,
+      subject: `Your ${data.companyName} customer portal link`,
+      html: emailHtml,
+    };
+
+    const result = await transporter.sendMail(mailOptions);
+    const duration = Date.now() - startTime;
+
+    EmailLogUtils.logEmailSuccess(requestId, {
+      messageId: result.messageId,
+      response: result.response,
+      duration,
+      recipient: data.to,
+      emailType: 'client_portal_magic_link'
+    });
+
+    return {
+      success: true,
+      messageId: result.messageId,
+      response: result.response,
+      duration,
+    };
+  } catch (error: any) {
+    const duration = Date.now() - startTime;
+
+    EmailLogUtils.logEmailFailure(requestId, {
+      message: error.message,
+      code: error.code,
+      command: error.command,
+      response: error.response,
+      responseCode: error.responseCode,
+      duration,
+      recipient: data.to,
+      emailType: 'client_portal_magic_link'
+    });
+
+    return {
+      success: false,
+      error: error.message,
+      code: error.code,
+      duration,
+    };
+  }
+}
+
 // Send tenant activation magic link
 export async function sendTenantActivationMagicLink(
   data: TenantActivationEmailData,
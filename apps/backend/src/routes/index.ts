@@ -17,6 +17,9 @@ import { timeEntryRoutes } from "./time-entries";
 import { notificationRoutes } from "./notifications";
 import { materialsRoutes } from "./materials";
 import { taskMaterialsRoutes } from "./task-materials";
+import { stockLocationRoutes } from "./stock-locations";
+import { supplierRoutes } from "./suppliers";
+import { purchaseOrderRoutes } from "./purchase-orders";
 import { reportsRoutes } from "./reports";
 import { userRoutes } from "./users";
 import { webhookRoutes } from "./webhooks";
@@ -32,6 +35,18 @@ import brandingRoutes from "./branding";
 import { usageMonitoringRoutes } from "./usage-monitoring";
 import supportRoutes from "./support";
 import { secureFilesRoutes } from "./secure-files";
+import { quoteRoutes } from "./quotes";
+import { invoiceRoutes } from "./invoices";
+import { contractRoutes } from "./contracts";
+import { assetRoutes } from "./assets";
+import { reportTemplateRoutes } from "./report-templates";
+import { inspectionFormRoutes } from "./inspection-forms";
+import { dispatchRoutes } from "./dispatch";
+import { trackingRoutes } from "./tracking";
+import { timesheetRoutes } from "./timesheets";
+import { workOrderStatusRoutes } from "./work-order-statuses";
+import { slaRoutes } from "./sla";
+import { clientPortalRoutes } from "./client-portal";
 
 export async function registerRoutes(fastify: FastifyInstance) {
   // Health check
@@ -58,8 +73,33 @@ export async function registerRoutes(fastify: FastifyInstance) {
     prefix: "/api/v1/notifications",
   });
   await fastify.register(materialsRoutes, { prefix: "/api/v1/materials" });
+  await fastify.register(stockLocationRoutes, {
+    prefix: "/api/v1/stock-locations",
+  });
+  await fastify.register(supplierRoutes, { prefix: "/api/v1/suppliers" });
+  await fastify.register(purchaseOrderRoutes, {
+    prefix: "/api/v1/purchase-orders",
+  });
   await fastify.register(taskMaterialsRoutes, { prefix: "/api/v1/tasks" });
   await fastify.register(reportsRoutes, { prefix: "/api/v1/reports" });
+  await fastify.register(quoteRoutes, { prefix: "/api/v1/quotes" });
+  await fastify.register(invoiceRoutes, { prefix: "/api/v1/invoices" });
+  await fastify.register(contractRoutes, { prefix: "/api/v1/contracts" });
+  await fastify.register(assetRoutes, { prefix: "/api/v1/assets" });
+  await fastify.register(reportTemplateRoutes, {
+    prefix: "/api/v1/report-templates",
+  });
+  await fastify.register(inspectionFormRoutes, {
+    prefix: "/api/v1/inspection-forms",
+  });
+  await fastify.register(dispatchRoutes, { prefix: "/api/v1/dispatch" });
+  await fastify.register(trackingRoutes, { prefix: "/api/v1/tracking" });
+  await fastify.register(timesheetRoutes, { prefix: "/api/v1/timesheets" });
+  await fastify.register(workOrderStatusRoutes, {
+    prefix: "/api/v1/work-order-statuses",
+  });
+  await fastify.register(slaRoutes, { prefix: "/api/v1/sla" });
+  await fastify.register(clientPortalRoutes, { prefix: "/api/v1/portal" });
   await fastify.register(userRoutes, { prefix: "/api/v1/users" });
   await fastify.register(webhookRoutes, { prefix: "/api/v1/webhooks" });
   await fastify.register(apiKeyRoutes, { prefix: "/api/v1/api-keys" });
@@ -0,0 +1,343 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { z } from "zod";
+import { InspectionForm } from "../models";
+import { INSPECTION_FIELD_TYPES } from "../models/InspectionForm";
+import { authenticate } from "../middleware/auth";
+import { requirePermission } from "../middleware/permission-guard";
+import { HttpError } from "../middleware/http-error-middleware";
+import { AuthenticatedRequest } from "../types";
+import { handleServiceError } from "../utils/error-handler";
+import { InspectionFormService } from "../services/inspection-form-service";
+
+// ----------------------------------------------------------------------
+
+const REPORT_TYPES = [
+  "daily",
+  "weekly",
+  "monthly",
+  "incident",
+  "maintenance",
+  "inspection",
+  "completion",
+  "safety",
+] as const;
+
+const fieldSchema = z.object({
+  key: z.string().max(40).optional(),
+  label: z.string().min(1, "Field label is required").max(200),
+  type: z.enum(INSPECTION_FIELD_TYPES),
+  required: z.boolean().default(false),
+  section: z.string().max(100).optional(),
+  helpText: z.string().max(500).optional(),
+  options: z.array(z.string().min(1)).default([]),
+  failOptions: z.array(z.string().min(1)).default([]),
+  min: z.number().nullable().optional(),
+  max: z.number().nullable().optional(),
+  unit: z.string().max(20).optional(),
+});
+
+const formSchema = z.object({
+  name: z.string().min(1, "Name is required").max(100),
+  description: z.string().max(500).optional(),
+  isActive: z.boolean().default(true),
+  fields: z.array(fieldSchema).min(1, "Add at least one field").max(200),
+  appliesTo: z
+    .object({
+      reportTypes: z.array(z.enum(REPORT_TYPES)).default([]),
+      assetCategories: z.array(z.string().min(1)).default([]),
+      assetIds: z.array(z.string().min(1)).default([]),
+    })
+    .default({ reportTypes: [], assetCategories: [], assetIds: [] }),
+});
+
+const updateFormSchema = formSchema.partial();
+
+const applicableQuerySchema = z.object({
+  reportType: z.string().optional(),
+  assetIds: z.string().optional(), // Comma separated
+});
+
+const analyticsQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  formId: z.string().optional(),
+  assetId: z.string().optional(),
+  clientId: z.string().optional(),
+});
+
+// null clears a range bound on update
+const toFields = (fields: z.infer<typeof fieldSchema>[]) =>
+  InspectionFormService.normaliseFields(
+    fields.map((field) => ({
+      ...field,
+      min: field.min ?? undefined,
+      max: field.max ?? undefined,
+    })),
+  );
+
+// Inspection form routes
+export async function inspectionFormRoutes(fastify: FastifyInstance) {
+  // Add authentication middleware to all routes
+  fastify.addHook("preHandler", authenticate);
+
+  // GET /api/v1/inspection-forms - List forms
+  fastify.get(
+    "/",
+    { preHandler: requirePermission("settings.view") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+
+        const forms = await InspectionForm.find({
+          tenantId: tenant._id.toString(),
+        })
+          .sort({ isActive: -1, name: 1 })
+          .lean();
+
+        return reply.send({ success: true, data: forms });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to fetch inspection forms",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // GET /api/v1/inspection-forms/applicable - Forms to fill for a report
+  fastify.get(
+    "/applicable",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { reportType, assetIds } = applicableQuerySchema.parse(
+          request.query,
+        );
+
+        const applicable = await InspectionFormService.findApplicable(
+          tenant._id.toString(),
+          {
+            reportType,
+            assetIds: assetIds ? assetIds.split(",").filter(Boolean) : [],
+          },
+        );
+
+        return reply.send({ success: true, data: applicable });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to fetch inspection forms",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // GET /api/v1/inspection-forms/analytics/failures - Most failed items
+  fastify.get(
+    "/analytics/failures",
+    { preHandler: requirePermission("reports.view") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const filters = analyticsQuerySchema.parse(request.query);
+
+        const analytics = await InspectionFormService.getFailureAnalytics(
+          tenant._id.toString(),
+          filters,
+        );
+
+        return reply.send({ success: true, data: analytics });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to fetch inspection analytics",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // GET /api/v1/inspection-forms/:id - Get single form
+  fastify.get(
+    "/:id",
+    { preHandler: requirePermission("settings.view") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { id } = request.params as { id: string };
+
+        const form = await InspectionForm.findOne({
+          _id: id,
+          tenantId: tenant._id.toString(),
+        }).lean();
+        if (!form) {
+          return reply
+            .status(404)
+            .send({ success: false, message: "Inspection form not found" });
+        }
+
+        return reply.send({ success: true, data: form });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to fetch inspection form",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // POST /api/v1/inspection-forms - Create form
+  fastify.post(
+    "/",
+    { preHandler: requirePermission("settings.edit") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const tenantId = tenant._id.toString();
+        const data = formSchema.parse(request.body);
+
+        const existing = await InspectionForm.exists({
+          tenantId,
+          name: data.name,
+        });
+        if (existing) {
+          throw new HttpError(409, "A form with this name already exists");
+        }
+
+        const form = await InspectionForm.create({
+          ...data,
+          fields: toFields(data.fields),
+          tenantId,
+          createdBy: user!.id,
+        });
+
+        return reply.status(201).send({
+          success: true,
+          data: form,
+          message: "Inspection form created successfully",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to create inspection form",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // PUT /api/v1/inspection-forms/:id - Update form
+  fastify.put(
+    "/:id",
+    { preHandler: requirePermission("settings.edit") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const tenantId = tenant._id.toString();
+        const { id } = request.params as { id: string };
+        const { fields, ...data } = updateFormSchema.parse(request.body);
+
+        const form = await InspectionForm.findOne({ _id: id, tenantId });
+        if (!form) {
+          return reply
+            .status(404)
+            .send({ success: false, message: "Inspection form not found" });
+        }
+
+        if (data.name && data.name !== form.name) {
+          const existing = await InspectionForm.exists({
+            tenantId,
+            name: data.name,
+            _id: { $ne: id },
+          });
+          if (existing) {
+            throw new HttpError(409, "A form with this name already exists");
+          }
+        }
+
+        form.set(data);
+        if (fields) {
+          const normalised = toFields(fields);
+          // Reports keep the version they were filled against
+          if (
+            JSON.stringify(normalised) !==
+            JSON.stringify(toFields(form.toObject().fields))
+          ) {
+            form.version += 1;
+          }
+          form.fields = normalised;
+        }
+        await form.save();
+
+        return reply.send({
+          success: true,
+          data: form,
+          message: "Inspection form updated successfully",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to update inspection form",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // DELETE /api/v1/inspection-forms/:id - Delete an unused form
+  fastify.delete(
+    "/:id",
+    { preHandler: requirePermission("settings.edit") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const tenantId = tenant._id.toString();
+        const { id } = request.params as { id: string };
+
+        const form = await InspectionForm.findOne({ _id: id, tenantId });
+        if (!form) {
+          return reply
+            .status(404)
+            .send({ success: false, message: "Inspection form not found" });
+        }
+
+        if (await InspectionFormService.isInUse(tenantId, id)) {
+          throw new HttpError(
+            400,
+            "This form has been used on reports; deactivate it instead",
+          );
+        }
+
+        await form.deleteOne();
+
+        return reply.send({
+          success: true,
+          message: "Inspection form deleted successfully",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to delete inspection form",
+          fastify.log,
+        );
+      }
+    },
+  );
+}
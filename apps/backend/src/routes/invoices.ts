@@ -0,0 +1,521 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { z } from "zod";
+import { Invoice } from "../models";
+import { authenticate } from "../middleware/auth";
+import { requirePermission } from "../middleware/permission-guard";
+import { AuthenticatedRequest } from "../types";
+import { handleServiceError } from "../utils/error-handler";
+import { InvoiceService } from "../services/invoice-service";
+import { PDFService } from "../services/pdf-service";
+
+// ----------------------------------------------------------------------
+
+const invoiceOptionsSchema = z.object({
+  taxRate: z.coerce.number().min(0).max(100).optional(),
+  dueDate: z.coerce.date().optional(),
+  notes: z.string().optional(),
+});
+
+const lineItemSchema = z.object({
+  type: z.enum(["labor", "material", "custom"]).default("custom"),
+  description: z.string().min(1, "Description is required"),
+  quantity: z.coerce.number().min(0, "Quantity must be positive"),
+  unit: z.string().optional(),
+  unitPrice: z.coerce.number().min(0, "Unit price must be positive"),
+  reportId: z.string().optional(),
+  materialId: z.string().optional(),
+});
+
+const createInvoiceSchema = invoiceOptionsSchema.extend({
+  clientId: z.string().min(1, "Client is required"),
+  workOrderId: z.string().optional(),
+  lineItems: z.array(lineItemSchema).min(1, "At least one line item is required"),
+});
+
+const fromReportsSchema = invoiceOptionsSchema.extend({
+  reportIds: z.array(z.string()).min(1, "Select at least one report"),
+});
+
+const updateInvoiceSchema = invoiceOptionsSchema.extend({
+  lineItems: z.array(lineItemSchema).optional(),
+});
+
+const paymentSchema = z.object({
+  amount: z.coerce.number().positive("Amount must be greater than zero"),
+  paidAt: z.coerce.date().default(() => new Date()),
+  method: z
+    .enum(["cash", "card", "bank_transfer", "cheque", "other"])
+    .optional(),
+  reference: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+const searchInvoicesSchema = z.object({
+  status: z
+    .enum(["draft", "issued", "partial", "paid", "overdue", "void"])
+    .optional(),
+  clientId: z.string().optional(),
+  workOrderId: z.string().optional(),
+  q: z.string().optional(),
+  limit: z.coerce.number().min(1).max(100).default(25),
+  offset: z.coerce.number().min(0).default(0),
+});
+
+// Invoice routes
+export async function invoiceRoutes(fastify: FastifyInstance) {
+  // POST /api/v1/invoices/process-overdue - Flag overdue invoices (for cron job)
+  fastify.post(
+    "/process-overdue",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const updated = await InvoiceService.markOverdueInvoices();
+
+        return reply.send({
+          success: true,
+          processed: updated,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        return handleServiceError(error, reply, "Failed to process overdue invoices", fastify.log);
+      }
+    },
+  );
+
+  // GET /api/v1/invoices - List invoices
+  fastify.get(
+    "/",
+    { preHandler: [authenticate, requirePermission("invoices.view")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const tenantId = tenant._id.toString();
+        const { status, clientId, workOrderId, q, limit, offset } =
+          searchInvoicesSchema.parse(request.query);
+
+        // Keep statuses current without waiting for the cron run
+        await InvoiceService.markOverdueInvoices(tenantId);
+
+        const filters: any = { tenantId };
+        if (status) filters.status = status;
+        if (clientId) filters.clientId = clientId;
+        if (workOrderId) filters.workOrderId = workOrderId;
+        if (q) {
+          const escaped = q.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+          filters.$or = [
+            { invoiceNumber: { $regex: escaped, $options: "i" } },
+            { "billTo.name": { $regex: escaped, $options: "i" } },
+            { "billTo.company": { $regex: escaped, $options: "i" } },
+          ];
+        }
+
+        const [invoices, total] = await Promise.all([
+          Invoice.find(filters)
+            .select("-history -payments")
+            .sort({ createdAt: -1 })
+            .skip(offset)
+            .limit(limit)
+            .lean(),
+          Invoice.countDocuments(filters),
+        ]);
+
+        return reply.send({
+          success: true,
+          data: invoices,
+          pagination: {
+            total,
+            limit,
+            offset,
+            hasMore: offset + limit < total,
+          },
+        });
+      } catch (error) {
+        return handleServiceError(error, reply, "Failed to fetch invoices", fastify.log);
+      }
+    },
+  );
+
+  // GET /api/v1/invoices/billable - Completed work orders and approved reports not yet invoiced
+  fastify.get(
+    "/billable",
+    { preHandler: [authenticate, requirePermission("invoices.create")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+
+        const data = await InvoiceService.getBillableItems(tenant._id.toString());
+
+        return reply.send({ success: true, data });
+      } catch (error) {
+        return handleServiceError(error, reply, "Failed to fetch billable items", fastify.log);
+      }
+    },
+  );
+
+  // GET /api/v1/invoices/:id - Get single invoice
+  fastify.get(
+    "/:id",
+    { preHandler: [authenticate, requirePermission("invoices.view")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { id } = request.params as { id: string };
+
+        const invoice = await Invoice.findOne({
+          _id: id,
+          tenantId: tenant._id.toString(),
+        }).lean();
+
+        if (!invoice) {
+          return reply.status(404).send({
+            success: false,
+            message: "Invoice not found",
+          });
+        }
+
+        return reply.send({ success: true, data: invoice });
+      } catch (error) {
+        return handleServiceError(error, reply, "Failed to fetch invoice", fastify.log);
+      }
+    },
+  );
+
+  // GET /api/v1/invoices/:id/pdf - Render invoice as PDF
+  fastify.get(
+    "/:id/pdf",
+    { preHandler: [authenticate, requirePermission("invoices.view")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { id } = request.params as { id: string };
+
+        const invoice = await Invoice.findOne({
+          _id: id,
+          tenantId: tenant._id.toString(),
+        }).lean();
+
+        if (!invoice) {
+          return reply.status(404).send({
+            success: false,
+            message: "Invoice not found",
+          });
+        }
+
+        const pdfDoc = await PDFService.generateInvoicePDF(invoice, tenant);
+        const filename = (invoice as any).invoiceNumber || `invoice-draft-${id}`;
+
+        reply.type("application/pdf");
+        reply.header("Content-Disposition", `attachment; filename="${filename}.pdf"`);
+
+        return reply.send(pdfDoc);
+      } catch (error) {
+        return handleServiceError(error, reply, "Failed to render invoice PDF", fastify.log);
+      }
+    },
+  );
+
+  // POST /api/v1/invoices - Create a manual draft invoice
+  fastify.post(
+    "/",
+    { preHandler: [authenticate, requirePermission("invoices.create")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const { clientId, workOrderId, lineItems, ...options } =
+          createInvoiceSchema.parse(request.body);
+
+        await InvoiceService.assertReferences(tenant._id.toString(), {
+          workOrderId,
+          lineItems,
+        });
+
+        const invoice = await InvoiceService.createDraft(tenant, {
+          clientId,
+          workOrderId,
+          lineItems: lineItems.map((item) => ({
+            ...item,
+            total: item.quantity * item.unitPrice,
+          })),
+          userId: user.id,
+          options,
+        });
+
+        return reply.status(201).send({
+          success: true,
+          data: invoice,
+          message: "Invoice created successfully",
+        });
+      } catch (error) {
+        return handleServiceError(error, reply, "Failed to create invoice", fastify.log);
+      }
+    },
+  );
+
+  // POST /api/v1/invoices/from-work-order/:workOrderId - Invoice a completed work order
+  fastify.post(
+    "/from-work-order/:workOrderId",
+    { preHandler: [authenticate, requirePermission("invoices.create")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const { workOrderId } = request.params as { workOrderId: string };
+        const options = invoiceOptionsSchema.parse(request.body || {});
+
+        const invoice = await InvoiceService.createFromWorkOrder(
+          tenant,
+          workOrderId,
+          user.id,
+          options,
+        );
+
+        return reply.status(201).send({
+          success: true,
+          data: invoice,
+          message: "Invoice created from work order",
+        });
+      } catch (error) {
+        return handleServiceError(error, reply, "Failed to create invoice", fastify.log);
+      }
+    },
+  );
+
+  // POST /api/v1/invoices/from-reports - Invoice one or more approved reports
+  fastify.post(
+    "/from-reports",
+    { preHandler: [authenticate, requirePermission("invoices.create")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const { reportIds, ...options } = fromReportsSchema.parse(request.body);
+
+        const invoice = await InvoiceService.createFromReports(
+          tenant,
+          Array.from(new Set(reportIds)),
+          user.id,
+          options,
+        );
+
+        return reply.status(201).send({
+          success: true,
+          data: invoice,
+          message: "Invoice created from reports",
+        });
+      } catch (error) {
+        return handleServiceError(error, reply, "Failed to create invoice", fastify.log);
+      }
+    },
+  );
+
+  // PUT /api/v1/invoices/:id - Update a draft invoice
+  fastify.put(
+    "/:id",
+    { preHandler: [authenticate, requirePermission("invoices.edit")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { id } = request.params as { id: string };
+        const { lineItems, ...rest } = updateInvoiceSchema.parse(request.body);
+
+        const invoice = await Invoice.findOne({
+          _id: id,
+          tenantId: tenant._id.toString(),
+        });
+        if (!invoice) {
+          return reply.status(404).send({
+            success: false,
+            message: "Invoice not found",
+          });
+        }
+
+        if (invoice.status !== "draft") {
+          return reply.status(400).send({
+            success: false,
+            message: "Only draft invoices can be edited",
+          });
+        }
+
+        await InvoiceService.assertReferences(tenant._id.toString(), {
+          lineItems,
+        });
+
+        Object.assign(invoice, rest);
+        if (lineItems !== undefined) {
+          invoice.lineItems = lineItems.map((item) => ({
+            ...item,
+            total: item.quantity * item.unitPrice,
+          }));
+        }
+
+        await invoice.save();
+
+        return reply.send({
+          success: true,
+          data: invoice,
+          message: "Invoice updated successfully",
+        });
+      } catch (error) {
+        return handleServiceError(error, reply, "Failed to update invoice", fastify.log);
+      }
+    },
+  );
+
+  // POST /api/v1/invoices/:id/issue - Number and issue a draft invoice
+  fastify.post(
+    "/:id/issue",
+    { preHandler: [authenticate, requirePermission("invoices.edit")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const { id } = request.params as { id: string };
+
+        const invoice = await Invoice.findOne({
+          _id: id,
+          tenantId: tenant._id.toString(),
+        });
+        if (!invoice) {
+          return reply.status(404).send({
+            success: false,
+            message: "Invoice not found",
+          });
+        }
+
+        await InvoiceService.issue(invoice, tenant, user.id);
+
+        return reply.send({
+          success: true,
+          data: invoice,
+          message: `Invoice ${invoice.invoiceNumber} issued`,
+        });
+      } catch (error) {
+        return handleServiceError(error, reply, "Failed to issue invoice", fastify.log);
+      }
+    },
+  );
+
+  // POST /api/v1/invoices/:id/payments - Record a payment
+  fastify.post(
+    "/:id/payments",
+    { preHandler: [authenticate, requirePermission("invoices.edit")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const { id } = request.params as { id: string };
+        const payment = paymentSchema.parse(request.body);
+
+        const invoice = await Invoice.findOne({
+          _id: id,
+          tenantId: tenant._id.toString(),
+        });
+        if (!invoice) {
+          return reply.status(404).send({
+            success: false,
+            message: "Invoice not found",
+          });
+        }
+
+        await InvoiceService.recordPayment(invoice, payment, user.id);
+
+        return reply.send({
+          success: true,
+          data: invoice,
+          message: "Payment recorded",
+        });
+      } catch (error) {
+        return handleServiceError(error, reply, "Failed to record payment", fastify.log);
+      }
+    },
+  );
+
+  // POST /api/v1/invoices/:id/void - Void an invoice, releasing its reports for re-invoicing
+  fastify.post(
+    "/:id/void",
+    { preHandler: [authenticate, requirePermission("invoices.edit")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const { id } = request.params as { id: string };
+        const { reason } = (request.body || {}) as { reason?: string };
+
+        const invoice = await Invoice.findOne({
+          _id: id,
+          tenantId: tenant._id.toString(),
+        });
+        if (!invoice) {
+          return reply.status(404).send({
+            success: false,
+            message: "Invoice not found",
+          });
+        }
+
+        if (invoice.status === "void" || invoice.status === "paid") {
+          return reply.status(400).send({
+            success: false,
+            message: `A ${invoice.status} invoice cannot be voided`,
+          });
+        }
+
+        invoice.status = "void";
+        InvoiceService.pushHistory(invoice, "void", user.id, reason);
+        await invoice.save();
+
+        return reply.send({
+          success: true,
+          data: invoice,
+          message: "Invoice voided",
+        });
+      } catch (error) {
+        return handleServiceError(error, reply, "Failed to void invoice", fastify.log);
+      }
+    },
+  );
+
+  // DELETE /api/v1/invoices/:id - Delete a draft invoice (issued invoices must be voided)
+  fastify.delete(
+    "/:id",
+    { preHandler: [authenticate, requirePermission("invoices.delete")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { id } = request.params as { id: string };
+
+        const invoice = await Invoice.findOne({
+          _id: id,
+          tenantId: tenant._id.toString(),
+        });
+        if (!invoice) {
+          return reply.status(404).send({
+            success: false,
+            message: "Invoice not found",
+          });
+        }
+
+        if (invoice.status !== "draft") {
+          return reply.status(400).send({
+            success: false,
+            message: "Only draft invoices can be deleted; void issued invoices instead",
+          });
+        }
+
+        await Invoice.deleteOne({ _id: id, tenantId: tenant._id.toString() });
+
+        return reply.send({
+          success: true,
+          message: "Invoice deleted successfully",
+        });
+      } catch (error) {
+        return handleServiceError(error, reply, "Failed to delete invoice", fastify.log);
+      }
+    },
+  );
+}
@@ -1,8 +1,10 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 import { z } from "zod";
-import { Material } from "../models";
+import { Material, StockReservation, Supplier } from "../models";
 import { authenticate } from "../middleware/auth";
 import { AuthenticatedRequest } from "../types";
+import { handleServiceError } from "../utils/error-handler";
+import { InventoryService } from "../services/inventory-service";
 
 // Material creation schema
 const createMaterialSchema = z.object({
@@ -20,6 +22,7 @@ const createMaterialSchema = z.object({
     .optional(),
   location: z.string().optional(),
   supplier: z.string().optional(),
+  supplierId: z.string().optional(),
   customFields: z.record(z.string(), z.any()).optional(),
   status: z.enum(["active", "inactive", "discontinued"]).default("active"),
 });
@@ -40,6 +43,46 @@ const searchMaterialsSchema = z.object({
   sortOrder: z.enum(["asc", "desc"]).default("desc"),
 });
 
+const movementsQuerySchema = z.object({
+  materialId: z.string().optional(),
+  workOrderId: z.string().optional(),
+  locationId: z.string().optional(),
+  type: z
+    .enum([
+      "opening",
+      "receipt",
+      "consumption",
+      "return",
+      "adjustment",
+      "transfer",
+    ])
+    .optional(),
+  limit: z.coerce.number().min(1).max(200).default(50),
+  offset: z.coerce.number().min(0).default(0),
+});
+
+const receiveStockSchema = z.object({
+  quantity: z.coerce.number().positive("Quantity must be greater than zero"),
+  unitCost: z.coerce.number().min(0).optional(),
+  locationId: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+const adjustStockSchema = z.object({
+  quantity: z.coerce
+    .number()
+    .refine((value) => value !== 0, "Adjustment cannot be zero"),
+  locationId: z.string().optional(),
+  notes: z.string().min(1, "A reason is required for adjustments"),
+});
+
+const transferStockSchema = z.object({
+  quantity: z.coerce.number().positive("Quantity must be greater than zero"),
+  fromLocationId: z.string().min(1, "Source location is required"),
+  toLocationId: z.string().min(1, "Destination location is required"),
+  notes: z.string().optional(),
+});
+
 // Material routes
 export async function materialsRoutes(fastify: FastifyInstance) {
   // Add authentication middleware to all routes
@@ -242,7 +285,7 @@ export async function materialsRoutes(fastify: FastifyInstance) {
   fastify.post("/", async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       const req = request as AuthenticatedRequest;
-      const { tenant } = req.context!;
+      const { tenant, user } = req.context!;
       const validatedData = createMaterialSchema.parse(request.body);
 
       // Check for duplicate SKU if provided
@@ -273,6 +316,21 @@ export async function materialsRoutes(fastify: FastifyInstance) {
         }
       }
 
+      // A linked supplier keeps the supplier name in sync
+      if (validatedData.supplierId) {
+        const supplier = await Supplier.findOne({
+          _id: validatedData.supplierId,
+          tenantId: tenant._id.toString(),
+        });
+        if (!supplier) {
+          return reply.status(400).send({
+            success: false,
+            message: "Supplier not found",
+          });
+        }
+        validatedData.supplier = supplier.name;
+      }
+
       const material = new Material({
         ...validatedData,
         tenantId: tenant._id,
@@ -280,6 +338,11 @@ export async function materialsRoutes(fastify: FastifyInstance) {
       });
 
       await material.save();
+      await InventoryService.ensureOpeningBalance(
+        tenant._id.toString(),
+        user.id,
+        material,
+      );
 
       return reply.send({
         success: true,
@@ -308,7 +371,7 @@ export async function materialsRoutes(fastify: FastifyInstance) {
   fastify.put("/:id", async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       const req = request as AuthenticatedRequest;
-      const { tenant } = req.context!;
+      const { tenant, user } = req.context!;
       const { id } = request.params as { id: string };
       const validatedData = updateMaterialSchema.parse(request.body);
 
@@ -354,6 +417,25 @@ export async function materialsRoutes(fastify: FastifyInstance) {
         }
       }
 
+      // A linked supplier keeps the supplier name in sync
+      if (validatedData.supplierId) {
+        const supplier = await Supplier.findOne({
+          _id: validatedData.supplierId,
+          tenantId: tenant._id.toString(),
+        });
+        if (!supplier) {
+          return reply.status(400).send({
+            success: false,
+            message: "Supplier not found",
+          });
+        }
+        validatedData.supplier = supplier.name;
+      } else if (validatedData.supplierId === "") {
+        // Unlinking drops the synced name; a free-text supplier stays
+        if (material.supplierId) validatedData.supplier = undefined;
+        validatedData.supplierId = undefined;
+      }
+
       // Handle custom fields update
       if (validatedData.customFields !== undefined) {
         material.customFields = new Map(
@@ -362,13 +444,26 @@ export async function materialsRoutes(fastify: FastifyInstance) {
         delete validatedData.customFields;
       }
 
+      // Quantity changes go through the ledger as an adjustment
+      const { quantity, ...materialData } = validatedData;
+
       // Update material
-      Object.assign(material, validatedData);
+      Object.assign(material, materialData);
       await material.save();
 
+      if (quantity !== undefined && quantity !== material.quantity) {
+        await InventoryService.adjustToCount(
+          tenant._id.toString(),
+          user.id,
+          id,
+          quantity,
+          "Quantity edited on material",
+        );
+      }
+
       return reply.send({
         success: true,
-        data: material,
+        data: await Material.findById(material._id),
         message: "Material updated successfully",
       });
     } catch (error) {
@@ -470,7 +565,7 @@ export async function materialsRoutes(fastify: FastifyInstance) {
     async (request: FastifyRequest, reply: FastifyReply) => {
       try {
         const req = request as AuthenticatedRequest;
-        const { tenant } = req.context!;
+        const { tenant, user } = req.context!;
 
         const { materials } = request.body as { materials: any[] };
 
@@ -524,9 +619,25 @@ export async function materialsRoutes(fastify: FastifyInstance) {
                 delete materialData.customFields;
               }
 
-              Object.assign(existingMaterial, materialData);
+              // Imported quantities are a stock count, posted as an adjustment
+              const { quantity, ...importedData } = materialData;
+              Object.assign(existingMaterial, importedData);
               await existingMaterial.save();
 
+              const hasQuantity =
+                materials[i].quantity !== undefined &&
+                materials[i].quantity !== "";
+              if (hasQuantity && quantity !== existingMaterial.quantity) {
+                await InventoryService.adjustToCount(
+                  tenant._id.toString(),
+                  user.id,
+                  existingMaterial._id.toString(),
+                  quantity,
+                  "Stock count from bulk import",
+                  "bulk_import",
+                );
+              }
+
               results.updated++;
               results.updatedMaterials.push(existingMaterial);
             } else {
@@ -539,6 +650,11 @@ export async function materialsRoutes(fastify: FastifyInstance) {
               });
 
               await material.save();
+              await InventoryService.ensureOpeningBalance(
+                tenant._id.toString(),
+                user.id,
+                material,
+              );
               results.success++;
               results.created.push(material);
             }
@@ -566,4 +682,238 @@ export async function materialsRoutes(fastify: FastifyInstance) {
       }
     },
   );
+
+  // GET /api/v1/materials/low-stock - Materials below their minimum stock
+  fastify.get(
+    "/low-stock",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+
+        const materials = await InventoryService.getLowStock(
+          tenant._id.toString(),
+        );
+
+        return reply.send({ success: true, data: materials });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to fetch low stock materials",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // GET /api/v1/materials/movements - Stock movement ledger
+  fastify.get(
+    "/movements",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const query = movementsQuerySchema.parse(request.query);
+
+        const { movements, pagination } = await InventoryService.getMovements(
+          tenant._id.toString(),
+          query,
+        );
+
+        return reply.send({ success: true, data: movements, pagination });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to fetch stock movements",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // GET /api/v1/materials/:id/stock - Balances per location and reservations
+  fastify.get(
+    "/:id/stock",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { id } = request.params as { id: string };
+
+        const material = await Material.findOne({
+          _id: id,
+          tenantId: tenant._id,
+        }).lean<any>();
+
+        if (!material) {
+          return reply.status(404).send({
+            success: false,
+            message: "Material not found",
+          });
+        }
+
+        const [locations, reservations] = await Promise.all([
+          InventoryService.getLocationBalances(tenant._id.toString(), id),
+          StockReservation.find({
+            tenantId: tenant._id.toString(),
+            materialId: id,
+          })
+            .populate("workOrderId", "workOrderNumber title status")
+            .lean(),
+        ]);
+
+        return reply.send({
+          success: true,
+          data: {
+            quantity: material.quantity,
+            reservedQuantity: material.reservedQuantity || 0,
+            availableQuantity:
+              material.quantity - (material.reservedQuantity || 0),
+            minimumStock: material.minimumStock || 0,
+            locations,
+            reservations,
+          },
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to fetch material stock",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // POST /api/v1/materials/:id/receive - Receive stock
+  fastify.post(
+    "/:id/receive",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const { id } = request.params as { id: string };
+        const data = receiveStockSchema.parse(request.body);
+
+        const movement = await InventoryService.receive(
+          tenant._id.toString(),
+          user.id,
+          { ...data, materialId: id },
+        );
+
+        return reply.send({
+          success: true,
+          data: movement,
+          message: "Stock received successfully",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to receive stock",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // POST /api/v1/materials/:id/adjust - Correct the quantity on hand
+  fastify.post(
+    "/:id/adjust",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const { id } = request.params as { id: string };
+        const data = adjustStockSchema.parse(request.body);
+
+        const movement = await InventoryService.adjust(
+          tenant._id.toString(),
+          user.id,
+          { ...data, materialId: id },
+        );
+
+        return reply.send({
+          success: true,
+          data: movement,
+          message: "Stock adjusted successfully",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to adjust stock",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // POST /api/v1/materials/:id/transfer - Move stock between locations
+  fastify.post(
+    "/:id/transfer",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const { id } = request.params as { id: string };
+        const data = transferStockSchema.parse(request.body);
+
+        const movements = await InventoryService.transfer(
+          tenant._id.toString(),
+          user.id,
+          { ...data, materialId: id },
+        );
+
+        return reply.send({
+          success: true,
+          data: movements,
+          message: "Stock transferred successfully",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to transfer stock",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // POST /api/v1/materials/:id/recalculate - Rebuild quantity from the ledger
+  fastify.post(
+    "/:id/recalculate",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const { id } = request.params as { id: string };
+
+        const result = await InventoryService.recalculate(
+          tenant._id.toString(),
+          user.id,
+          id,
+        );
+
+        return reply.send({
+          success: true,
+          data: result,
+          message:
+            result.previousQuantity === result.quantity
+              ? "Quantity matches the ledger"
+              : `Quantity corrected from ${result.previousQuantity} to ${result.quantity}`,
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to recalculate stock",
+          fastify.log,
+        );
+      }
+    },
+  );
 }
@@ -0,0 +1,530 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { z } from "zod";
+import { PurchaseOrder, Supplier } from "../models";
+import { authenticate } from "../middleware/auth";
+import { requirePermission } from "../middleware/permission-guard";
+import { AuthenticatedRequest } from "../types";
+import { handleServiceError } from "../utils/error-handler";
+import { PurchaseOrderService } from "../services/purchase-order-service";
+import { StockLocationService } from "../services/stock-location-service";
+
+// ----------------------------------------------------------------------
+
+const lineSchema = z.object({
+  materialId: z.string().min(1, "Material is required"),
+  quantity: z.coerce.number().positive("Quantity must be greater than zero"),
+  unitCost: z.coerce.number().min(0, "Unit cost must be positive").optional(),
+});
+
+const createPurchaseOrderSchema = z.object({
+  supplierId: z.string().min(1, "Supplier is required"),
+  lines: z.array(lineSchema).default([]),
+  taxRate: z.coerce.number().min(0).max(100).default(0),
+  locationId: z.string().optional(),
+  expectedDate: z.coerce.date().optional(),
+  notes: z.string().optional(),
+});
+
+const updatePurchaseOrderSchema = createPurchaseOrderSchema.partial();
+
+const searchPurchaseOrdersSchema = z.object({
+  status: z
+    .enum(["draft", "sent", "partially_received", "received", "cancelled"])
+    .optional(),
+  supplierId: z.string().optional(),
+  materialId: z.string().optional(),
+  q: z.string().optional(),
+  limit: z.coerce.number().min(1).max(100).default(25),
+  offset: z.coerce.number().min(0).default(0),
+});
+
+const receiveSchema = z.object({
+  lines: z
+    .array(
+      z.object({
+        lineId: z.string().min(1),
+        quantity: z.coerce.number().min(0),
+        unitCost: z.coerce.number().min(0).optional(),
+      }),
+    )
+    .optional(),
+  locationId: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+const costingSchema = z.object({
+  costingMethod: z.enum(["last_cost", "weighted_average"]),
+});
+
+// Purchase order routes
+export async function purchaseOrderRoutes(fastify: FastifyInstance) {
+  // Add authentication middleware to all routes
+  fastify.addHook("preHandler", authenticate);
+
+  // GET /api/v1/purchase-orders - List purchase orders
+  fastify.get(
+    "/",
+    { preHandler: requirePermission("purchaseOrders.view") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { status, supplierId, materialId, q, limit, offset } =
+          searchPurchaseOrdersSchema.parse(request.query);
+
+        const filters: any = { tenantId: tenant._id.toString() };
+        if (status) filters.status = status;
+        if (supplierId) filters.supplierId = supplierId;
+        if (materialId) filters["lines.materialId"] = materialId;
+        if (q) {
+          const escaped = q.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+          filters.$or = [
+            { poNumber: { $regex: escaped, $options: "i" } },
+            { "lines.description": { $regex: escaped, $options: "i" } },
+          ];
+        }
+
+        const [orders, total] = await Promise.all([
+          PurchaseOrder.find(filters)
+            .populate("supplierId", "name email leadTimeDays")
+            .sort({ createdAt: -1 })
+            .skip(offset)
+            .limit(limit)
+            .lean(),
+          PurchaseOrder.countDocuments(filters),
+        ]);
+
+        return reply.send({
+          success: true,
+          data: orders,
+          pagination: {
+            total,
+            limit,
+            offset,
+            hasMore: offset + limit < total,
+          },
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to fetch purchase orders",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // GET /api/v1/purchase-orders/suggestions - Low-stock materials to reorder
+  fastify.get(
+    "/suggestions",
+    { preHandler: requirePermission("purchaseOrders.view") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { supplierId } = request.query as { supplierId?: string };
+
+        const suggestions = await PurchaseOrderService.getSuggestions(
+          tenant._id.toString(),
+          supplierId,
+        );
+
+        return reply.send({ success: true, data: suggestions });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to fetch reorder suggestions",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // GET /api/v1/purchase-orders/settings - Costing method for receipts
+  fastify.get(
+    "/settings",
+    { preHandler: requirePermission("purchaseOrders.view") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+
+        const costingMethod = await PurchaseOrderService.getCostingMethod(
+          tenant._id.toString(),
+        );
+
+        return reply.send({ success: true, data: { costingMethod } });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to fetch purchasing settings",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // PUT /api/v1/purchase-orders/settings - Change the costing method
+  fastify.put(
+    "/settings",
+    { preHandler: requirePermission("settings.edit") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { costingMethod } = costingSchema.parse(request.body);
+
+        await PurchaseOrderService.setCostingMethod(
+          tenant._id.toString(),
+          costingMethod,
+        );
+
+        return reply.send({
+          success: true,
+          data: { costingMethod },
+          message: "Costing method updated",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to update purchasing settings",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // GET /api/v1/purchase-orders/:id - Get single purchase order
+  fastify.get(
+    "/:id",
+    { preHandler: requirePermission("purchaseOrders.view") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { id } = request.params as { id: string };
+
+        const order = await PurchaseOrderService.getOrder(
+          tenant._id.toString(),
+          id,
+        );
+        if (!order) {
+          return reply.status(404).send({
+            success: false,
+            message: "Purchase order not found",
+          });
+        }
+
+        return reply.send({ success: true, data: order });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to fetch purchase order",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // POST /api/v1/purchase-orders - Create a draft purchase order
+  fastify.post(
+    "/",
+    { preHandler: requirePermission("purchaseOrders.create") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const tenantId = tenant._id.toString();
+        const validatedData = createPurchaseOrderSchema.parse(request.body);
+
+        const supplier = await Supplier.findOne({
+          _id: validatedData.supplierId,
+          tenantId,
+        });
+        if (!supplier) {
+          return reply.status(400).send({
+            success: false,
+            message: "Supplier not found",
+          });
+        }
+
+        if (validatedData.locationId) {
+          await StockLocationService.getActiveLocation(
+            tenantId,
+            validatedData.locationId,
+          );
+        }
+
+        const lines = await PurchaseOrderService.buildLines(
+          tenantId,
+          validatedData.lines,
+        );
+        const poNumber = await PurchaseOrderService.generatePoNumber(tenantId);
+
+        const order = new PurchaseOrder({
+          ...validatedData,
+          lines,
+          tenantId,
+          poNumber,
+          currency: tenant.settings?.currency || "EUR",
+          status: "draft",
+          createdBy: user.id,
+          history: [
+            {
+              status: "draft",
+              timestamp: new Date(),
+              userId: user.id,
+              notes: "Purchase order created",
+            },
+          ],
+        });
+
+        await order.save();
+
+        return reply.status(201).send({
+          success: true,
+          data: order,
+          message: "Purchase order created successfully",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to create purchase order",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // PUT /api/v1/purchase-orders/:id - Update a draft purchase order
+  fastify.put(
+    "/:id",
+    { preHandler: requirePermission("purchaseOrders.edit") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const tenantId = tenant._id.toString();
+        const { id } = request.params as { id: string };
+        const validatedData = updatePurchaseOrderSchema.parse(request.body);
+
+        const order = await PurchaseOrder.findOne({ _id: id, tenantId });
+        if (!order) {
+          return reply.status(404).send({
+            success: false,
+            message: "Purchase order not found",
+          });
+        }
+
+        if (order.status !== "draft") {
+          return reply.status(400).send({
+            success: false,
+            message: "Only draft purchase orders can be edited",
+          });
+        }
+
+        if (
+          validatedData.supplierId &&
+          validatedData.supplierId !== order.supplierId
+        ) {
+          const supplier = await Supplier.findOne({
+            _id: validatedData.supplierId,
+            tenantId,
+          });
+          if (!supplier) {
+            return reply.status(400).send({
+              success: false,
+              message: "Supplier not found",
+            });
+          }
+        }
+
+        if (validatedData.locationId) {
+          await StockLocationService.getActiveLocation(
+            tenantId,
+            validatedData.locationId,
+          );
+        }
+
+        const { lines, ...rest } = validatedData;
+        Object.assign(order, rest);
+
+        if (lines !== undefined) {
+          order.lines = await PurchaseOrderService.buildLines(tenantId, lines);
+        }
+
+        await order.save();
+
+        return reply.send({
+          success: true,
+          data: order,
+          message: "Purchase order updated successfully",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to update purchase order",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // POST /api/v1/purchase-orders/:id/send - Mark purchase order as sent to the supplier
+  fastify.post(
+    "/:id/send",
+    { preHandler: requirePermission("purchaseOrders.edit") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const { id } = request.params as { id: string };
+
+        const order = await PurchaseOrderService.send(
+          tenant._id.toString(),
+          user.id,
+          id,
+        );
+
+        return reply.send({
+          success: true,
+          data: order,
+          message: "Purchase order marked as sent",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to send purchase order",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // POST /api/v1/purchase-orders/:id/receive - Receive delivered quantities into stock
+  fastify.post(
+    "/:id/receive",
+    { preHandler: requirePermission("purchaseOrders.edit") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const { id } = request.params as { id: string };
+        const data = receiveSchema.parse(request.body || {});
+
+        const order = await PurchaseOrderService.receive(
+          tenant._id.toString(),
+          user.id,
+          id,
+          data,
+        );
+
+        return reply.send({
+          success: true,
+          data: order,
+          message:
+            order.status === "received"
+              ? "Purchase order fully received"
+              : "Delivery received",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to receive purchase order",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // POST /api/v1/purchase-orders/:id/cancel - Cancel purchase order
+  fastify.post(
+    "/:id/cancel",
+    { preHandler: requirePermission("purchaseOrders.edit") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const { id } = request.params as { id: string };
+        const { reason } = (request.body || {}) as { reason?: string };
+
+        const order = await PurchaseOrderService.cancel(
+          tenant._id.toString(),
+          user.id,
+          id,
+          reason,
+        );
+
+        return reply.send({
+          success: true,
+          data: order,
+          message: "Purchase order cancelled",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to cancel purchase order",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // DELETE /api/v1/purchase-orders/:id - Delete a draft purchase order
+  fastify.delete(
+    "/:id",
+    { preHandler: requirePermission("purchaseOrders.delete") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { id } = request.params as { id: string };
+
+        const order = await PurchaseOrder.findOne({
+          _id: id,
+          tenantId: tenant._id.toString(),
+        });
+        if (!order) {
+          return reply.status(404).send({
+            success: false,
+            message: "Purchase order not found",
+          });
+        }
+
+        if (order.status !== "draft") {
+          return reply.status(400).send({
+            success: false,
+            message: "Only draft purchase orders can be deleted",
+          });
+        }
+
+        await PurchaseOrder.deleteOne({
+          _id: id,
+          tenantId: tenant._id.toString(),
+        });
+
+        return reply.send({
+          success: true,
+          message: "Purchase order deleted successfully",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to delete purchase order",
+          fastify.log,
+        );
+      }
+    },
+  );
+}
@@ -0,0 +1,476 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { z } from "zod";
+import { Quote, Client } from "../models";
+import { authenticate } from "../middleware/auth";
+import { requirePermission } from "../middleware/permission-guard";
+import EnhancedSubscriptionMiddleware from "../middleware/enhanced-subscription-middleware";
+import { AuthenticatedRequest } from "../types";
+import { handleServiceError } from "../utils/error-handler";
+import { QuoteService } from "../services/quote-service";
+import { PDFService } from "../services/pdf-service";
+
+// ----------------------------------------------------------------------
+
+const lineItemSchema = z.object({
+  type: z.enum(["material", "labor", "custom"]),
+  materialId: z.string().optional(),
+  personnelId: z.string().optional(),
+  description: z.string().optional(),
+  quantity: z.coerce.number().min(0, "Quantity must be positive"),
+  unit: z.string().optional(),
+  unitPrice: z.coerce.number().min(0, "Unit price must be positive").optional(),
+});
+
+const locationSchema = z.object({
+  address: z.string().optional(),
+  coordinates: z
+    .object({
+      latitude: z.number(),
+      longitude: z.number(),
+    })
+    .optional(),
+});
+
+const createQuoteSchema = z.object({
+  clientId: z.string().min(1, "Client is required"),
+  title: z.string().min(1, "Title is required"),
+  description: z.string().optional(),
+  location: locationSchema.optional(),
+  lineItems: z.array(lineItemSchema).default([]),
+  taxRate: z.coerce.number().min(0).max(100).default(0),
+  validUntil: z.coerce.date().optional(),
+  notes: z.string().optional(),
+});
+
+const updateQuoteSchema = createQuoteSchema.partial();
+
+const searchQuotesSchema = z.object({
+  status: z.enum(["draft", "sent", "accepted", "declined"]).optional(),
+  clientId: z.string().optional(),
+  q: z.string().optional(),
+  limit: z.coerce.number().min(1).max(100).default(25),
+  offset: z.coerce.number().min(0).default(0),
+});
+
+const acceptQuoteSchema = z.object({
+  scheduledDate: z.coerce.date().optional(),
+  priority: z.enum(["low", "medium", "high", "urgent"]).optional(),
+});
+
+// Quote routes
+export async function quoteRoutes(fastify: FastifyInstance) {
+  // Add authentication middleware to all routes
+  fastify.addHook("preHandler", authenticate);
+
+  // GET /api/v1/quotes - List quotes
+  fastify.get(
+    "/",
+    { preHandler: requirePermission("quotes.view") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { status, clientId, q, limit, offset } =
+          searchQuotesSchema.parse(request.query);
+
+        const filters: any = { tenantId: tenant._id.toString() };
+        if (status) filters.status = status;
+        if (clientId) filters.clientId = clientId;
+        if (q) {
+          const escaped = q.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+          filters.$or = [
+            { title: { $regex: escaped, $options: "i" } },
+            { quoteNumber: { $regex: escaped, $options: "i" } },
+          ];
+        }
+
+        const [quotes, total] = await Promise.all([
+          Quote.find(filters)
+            .populate("clientId", "name company email")
+            .sort({ createdAt: -1 })
+            .skip(offset)
+            .limit(limit)
+            .lean(),
+          Quote.countDocuments(filters),
+        ]);
+
+        return reply.send({
+          success: true,
+          data: quotes,
+          pagination: {
+            total,
+            limit,
+            offset,
+            hasMore: offset + limit < total,
+          },
+        });
+      } catch (error) {
+        return handleServiceError(error, reply, "Failed to fetch quotes", fastify.log);
+      }
+    },
+  );
+
+  // GET /api/v1/quotes/:id - Get single quote
+  fastify.get(
+    "/:id",
+    { preHandler: requirePermission("quotes.view") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { id } = request.params as { id: string };
+
+        const quote = await QuoteService.getQuoteWithClient(
+          id,
+          tenant._id.toString(),
+        );
+
+        if (!quote) {
+          return reply.status(404).send({
+            success: false,
+            message: "Quote not found",
+          });
+        }
+
+        return reply.send({ success: true, data: quote });
+      } catch (error) {
+        return handleServiceError(error, reply, "Failed to fetch quote", fastify.log);
+      }
+    },
+  );
+
+  // GET /api/v1/quotes/:id/pdf - Render quote as PDF
+  fastify.get(
+    "/:id/pdf",
+    { preHandler: requirePermission("quotes.view") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { id } = request.params as { id: string };
+
+        const quote = await QuoteService.getQuoteWithClient(
+          id,
+          tenant._id.toString(),
+        );
+
+        if (!quote) {
+          return reply.status(404).send({
+            success: false,
+            message: "Quote not found",
+          });
+        }
+
+        const pdfDoc = await PDFService.generateQuotePDF(quote, tenant);
+
+        reply.type("application/pdf");
+        reply.header(
+          "Content-Disposition",
+          `attachment; filename="${(quote as any).quoteNumber}.pdf"`,
+        );
+
+        return reply.send(pdfDoc);
+      } catch (error) {
+        return handleServiceError(error, reply, "Failed to render quote PDF", fastify.log);
+      }
+    },
+  );
+
+  // POST /api/v1/quotes - Create quote
+  fastify.post(
+    "/",
+    { preHandler: requirePermission("quotes.create") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const tenantId = tenant._id.toString();
+        const validatedData = createQuoteSchema.parse(request.body);
+
+        const client = await Client.findOne({
+          _id: validatedData.clientId,
+          tenantId,
+        });
+        if (!client) {
+          return reply.status(400).send({
+            success: false,
+            message: "Client not found",
+          });
+        }
+
+        const lineItems = await QuoteService.priceLineItems(
+          tenantId,
+          validatedData.lineItems,
+        );
+        const quoteNumber = await QuoteService.generateQuoteNumber(tenantId);
+
+        const quote = new Quote({
+          ...validatedData,
+          lineItems,
+          tenantId,
+          quoteNumber,
+          currency: tenant.settings?.currency || "EUR",
+          status: "draft",
+          createdBy: user.id,
+          history: [
+            {
+              status: "draft",
+              timestamp: new Date(),
+              userId: user.id,
+              notes: "Quote created",
+            },
+          ],
+        });
+
+        await quote.save();
+
+        return reply.status(201).send({
+          success: true,
+          data: quote,
+          message: "Quote created successfully",
+        });
+      } catch (error) {
+        return handleServiceError(error, reply, "Failed to create quote", fastify.log);
+      }
+    },
+  );
+
+  // PUT /api/v1/quotes/:id - Update a draft quote
+  fastify.put(
+    "/:id",
+    { preHandler: requirePermission("quotes.edit") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const tenantId = tenant._id.toString();
+        const { id } = request.params as { id: string };
+        const validatedData = updateQuoteSchema.parse(request.body);
+
+        const quote = await Quote.findOne({ _id: id, tenantId });
+        if (!quote) {
+          return reply.status(404).send({
+            success: false,
+            message: "Quote not found",
+          });
+        }
+
+        if (quote.status !== "draft") {
+          return reply.status(400).send({
+            success: false,
+            message: "Only draft quotes can be edited",
+          });
+        }
+
+        if (validatedData.clientId && validatedData.clientId !== quote.clientId) {
+          const client = await Client.findOne({
+            _id: validatedData.clientId,
+            tenantId,
+          });
+          if (!client) {
+            return reply.status(400).send({
+              success: false,
+              message: "Client not found",
+            });
+          }
+        }
+
+        const { lineItems, ...rest } = validatedData;
+        Object.assign(quote, rest);
+
+        if (lineItems !== undefined) {
+          quote.lineItems = await QuoteService.priceLineItems(tenantId, lineItems);
+        }
+
+        await quote.save();
+
+        return reply.send({
+          success: true,
+          data: quote,
+          message: "Quote updated successfully",
+        });
+      } catch (error) {
+        return handleServiceError(error, reply, "Failed to update quote", fastify.log);
+      }
+    },
+  );
+
+  // POST /api/v1/quotes/:id/send - Mark quote as sent to the client
+  fastify.post(
+    "/:id/send",
+    { preHandler: requirePermission("quotes.edit") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const { id } = request.params as { id: string };
+
+        const quote = await Quote.findOne({
+          _id: id,
+          tenantId: tenant._id.toString(),
+        });
+        if (!quote) {
+          return reply.status(404).send({
+            success: false,
+            message: "Quote not found",
+          });
+        }
+
+        if (quote.status !== "draft") {
+          return reply.status(400).send({
+            success: false,
+            message: "Only draft quotes can be sent",
+          });
+        }
+
+        if (quote.lineItems.length === 0) {
+          return reply.status(400).send({
+            success: false,
+            message: "Add at least one line item before sending the quote",
+          });
+        }
+
+        quote.status = "sent";
+        quote.sentAt = new Date();
+        QuoteService.pushHistory(quote, "sent", user.id);
+        await quote.save();
+
+        return reply.send({
+          success: true,
+          data: quote,
+          message: "Quote marked as sent",
+        });
+      } catch (error) {
+        return handleServiceError(error, reply, "Failed to send quote", fastify.log);
+      }
+    },
+  );
+
+  // POST /api/v1/quotes/:id/accept - Accept quote and create the work order
+  fastify.post(
+    "/:id/accept",
+    {
+      preHandler: [
+        requirePermission("quotes.edit"),
+        requirePermission("workOrders.create"),
+        EnhancedSubscriptionMiddleware.checkWorkOrderLimit(),
+      ],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const tenantId = tenant._id.toString();
+        const { id } = request.params as { id: string };
+        const options = acceptQuoteSchema.parse(request.body || {});
+
+        const { quote, workOrder } = await QuoteService.accept(
+          tenantId,
+          id,
+          user.id,
+          {
+            from: ["draft", "sent"],
+            overrides: options,
+            notes: (workOrderNumber) =>
+              `Converted to work order ${workOrderNumber}`,
+            requestId: (request as any).id,
+          },
+        );
+
+        return reply.send({
+          success: true,
+          data: { quote, workOrder },
+          message: "Quote accepted and work order created",
+        });
+      } catch (error) {
+        return handleServiceError(error, reply, "Failed to accept quote", fastify.log);
+      }
+    },
+  );
+
+  // POST /api/v1/quotes/:id/decline - Decline quote
+  fastify.post(
+    "/:id/decline",
+    { preHandler: requirePermission("quotes.edit") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const { id } = request.params as { id: string };
+        const { reason } = (request.body || {}) as { reason?: string };
+
+        const quote = await Quote.findOne({
+          _id: id,
+          tenantId: tenant._id.toString(),
+        });
+        if (!quote) {
+          return reply.status(404).send({
+            success: false,
+            message: "Quote not found",
+          });
+        }
+
+        if (quote.status !== "sent" && quote.status !== "draft") {
+          return reply.status(400).send({
+            success: false,
+            message: `Quote is already ${quote.status}`,
+          });
+        }
+
+        quote.status = "declined";
+        quote.declinedAt = new Date();
+        quote.declineReason = reason;
+        QuoteService.pushHistory(quote, "declined", user.id, reason);
+        await quote.save();
+
+        return reply.send({
+          success: true,
+          data: quote,
+          message: "Quote declined",
+        });
+      } catch (error) {
+        return handleServiceError(error, reply, "Failed to decline quote", fastify.log);
+      }
+    },
+  );
+
+  // DELETE /api/v1/quotes/:id - Delete quote (not allowed once accepted)
+  fastify.delete(
+    "/:id",
+    { preHandler: requirePermission("quotes.delete") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { id } = request.params as { id: string };
+
+        const quote = await Quote.findOne({
+          _id: id,
+          tenantId: tenant._id.toString(),
+        });
+        if (!quote) {
+          return reply.status(404).send({
+            success: false,
+            message: "Quote not found",
+          });
+        }
+
+        if (quote.status === "accepted") {
+          return reply.status(400).send({
+            success: false,
+            message: "Accepted quotes cannot be deleted",
+          });
+        }
+
+        await Quote.deleteOne({ _id: id, tenantId: tenant._id.toString() });
+
+        return reply.send({
+          success: true,
+          message: "Quote deleted successfully",
+        });
+      } catch (error) {
+        return handleServiceError(error, reply, "Failed to delete quote", fastify.log);
+      }
+    },
+  );
+}
@@ -0,0 +1,407 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { z } from "zod";
+import { Report, ReportTemplate } from "../models";
+import { REPORT_TEMPLATE_SECTIONS } from "../models/ReportTemplate";
+import { authenticate } from "../middleware/auth";
+import { requirePermission } from "../middleware/permission-guard";
+import { HttpError } from "../middleware/http-error-middleware";
+import { AuthenticatedRequest } from "../types";
+import { handleServiceError } from "../utils/error-handler";
+import {
+  DEFAULT_SECTION_TITLES,
+  ReportTemplateService,
+} from "../services/report-template-service";
+import { PDFService } from "../services/pdf-service";
+
+// ----------------------------------------------------------------------
+
+const REPORT_TYPES = [
+  "daily",
+  "weekly",
+  "monthly",
+  "incident",
+  "maintenance",
+  "inspection",
+  "completion",
+  "safety",
+] as const;
+
+const hexColor = z
+  .string()
+  .regex(/^#[0-9a-fA-F]{6}$/, "Colors must be hex values like #1976d2");
+
+const templateConfigSchema = z.object({
+  sections: z
+    .array(
+      z.object({
+        key: z.enum(REPORT_TEMPLATE_SECTIONS),
+        enabled: z.boolean().default(true),
+        title: z.string().max(100).optional(),
+      }),
+    )
+    .optional(),
+  header: z
+    .object({
+      title: z.string().min(1, "Header title is required").max(120),
+      subtitle: z.string().max(200).optional(),
+      showReportId: z.boolean().default(true),
+    })
+    .optional(),
+  footer: z
+    .object({
+      text: z.string().max(300).optional(),
+      showGeneratedAt: z.boolean().default(true),
+      showPageNumbers: z.boolean().default(false),
+    })
+    .optional(),
+  logo: z
+    .object({
+      placement: z.enum(["none", "left", "center", "right"]).default("left"),
+      width: z.coerce.number().min(40).max(300).default(120),
+    })
+    .optional(),
+  colors: z
+    .object({
+      primary: hexColor.optional().or(z.literal("")),
+      secondary: hexColor.optional().or(z.literal("")),
+    })
+    .optional(),
+  signatureBlocks: z
+    .array(
+      z.object({
+        role: z.enum(["technician", "client", "supervisor", "inspector"]),
+        label: z.string().min(1, "Signature label is required").max(60),
+        showWhenUnsigned: z.boolean().default(true),
+      }),
+    )
+    .max(6)
+    .optional(),
+});
+
+const createTemplateSchema = templateConfigSchema.extend({
+  name: z.string().min(1, "Name is required").max(100),
+  description: z.string().max(500).optional(),
+  isDefault: z.boolean().default(false),
+  reportTypes: z.array(z.enum(REPORT_TYPES)).default([]),
+});
+
+const updateTemplateSchema = createTemplateSchema.partial();
+
+const previewSchema = z.object({
+  templateId: z.string().optional(),
+  template: templateConfigSchema.optional(),
+  reportId: z.string().optional(),
+});
+
+// Report template routes
+export async function reportTemplateRoutes(fastify: FastifyInstance) {
+  // Add authentication middleware to all routes
+  fastify.addHook("preHandler", authenticate);
+
+  // GET /api/v1/report-templates - List templates
+  fastify.get(
+    "/",
+    { preHandler: requirePermission("settings.view") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+
+        const templates = await ReportTemplate.find({
+          tenantId: tenant._id.toString(),
+        })
+          .sort({ isDefault: -1, name: 1 })
+          .lean();
+
+        return reply.send({ success: true, data: templates });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to fetch report templates",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // GET /api/v1/report-templates/defaults - Built-in layout for new templates
+  fastify.get(
+    "/defaults",
+    { preHandler: requirePermission("settings.view") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      return reply.send({
+        success: true,
+        data: {
+          template: ReportTemplateService.getDefaultConfig(),
+          sectionTitles: DEFAULT_SECTION_TITLES,
+          reportTypes: REPORT_TYPES,
+        },
+      });
+    },
+  );
+
+  // POST /api/v1/report-templates/preview - Render a PDF preview
+  fastify.post(
+    "/preview",
+    { preHandler: requirePermission("settings.view") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const tenantId = tenant._id.toString();
+        const { templateId, template, reportId } = previewSchema.parse(
+          request.body ?? {},
+        );
+
+        // Unsaved changes from the editor win over the stored template
+        let config = template;
+        if (!config && templateId) {
+          config = await ReportTemplate.findOne({
+            _id: templateId,
+            tenantId,
+          }).lean<any>();
+          if (!config) {
+            throw new HttpError(404, "Report template not found");
+          }
+        }
+
+        let report: any = ReportTemplateService.buildSampleReport();
+        if (reportId) {
+          report = await Report.findOne({ _id: reportId, tenantId }).lean();
+          if (!report) {
+            throw new HttpError(404, "Report not found");
+          }
+        }
+
+        const pdfDoc = await PDFService.generateReportPDF(
+          report,
+          ReportTemplateService.resolve(config as any, tenant),
+        );
+
+        reply.type("application/pdf");
+        reply.header(
+          "Content-Disposition",
+          'inline; filename="report-template-preview.pdf"',
+        );
+        return reply.send(pdfDoc);
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to render template preview",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // GET /api/v1/report-templates/:id - Get single template
+  fastify.get(
+    "/:id",
+    { preHandler: requirePermission("settings.view") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { id } = request.params as { id: string };
+
+        const template = await ReportTemplate.findOne({
+          _id: id,
+          tenantId: tenant._id.toString(),
+        }).lean();
+        if (!template) {
+          return reply
+            .status(404)
+            .send({ success: false, message: "Report template not found" });
+        }
+
+        return reply.send({ success: true, data: template });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to fetch report template",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // POST /api/v1/report-templates - Create template
+  fastify.post(
+    "/",
+    { preHandler: requirePermission("settings.edit") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const tenantId = tenant._id.toString();
+        const { isDefault, ...data } = createTemplateSchema.parse(request.body);
+
+        const existing = await ReportTemplate.exists({
+          tenantId,
+          name: data.name,
+        });
+        if (existing) {
+          throw new HttpError(409, "A template with this name already exists");
+        }
+
+        const template = await ReportTemplate.create({
+          ...data,
+          tenantId,
+          createdBy: user!.id,
+        });
+
+        // The first template becomes the default automatically
+        const hasDefault = await ReportTemplate.exists({
+          tenantId,
+          isDefault: true,
+        });
+        const saved =
+          isDefault || !hasDefault
+            ? await ReportTemplateService.setDefault(
+                tenantId,
+                template._id.toString(),
+              )
+            : template.toObject();
+
+        return reply.status(201).send({
+          success: true,
+          data: saved,
+          message: "Report template created successfully",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to create report template",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // PUT /api/v1/report-templates/:id - Update template
+  fastify.put(
+    "/:id",
+    { preHandler: requirePermission("settings.edit") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const tenantId = tenant._id.toString();
+        const { id } = request.params as { id: string };
+        const { isDefault, ...data } = updateTemplateSchema.parse(request.body);
+
+        if (data.name) {
+          const existing = await ReportTemplate.exists({
+            tenantId,
+            name: data.name,
+            _id: { $ne: id },
+          });
+          if (existing) {
+            throw new HttpError(
+              409,
+              "A template with this name already exists",
+            );
+          }
+        }
+
+        const template = await ReportTemplate.findOneAndUpdate(
+          { _id: id, tenantId },
+          { $set: data },
+          { new: true, runValidators: true },
+        ).lean();
+        if (!template) {
+          return reply
+            .status(404)
+            .send({ success: false, message: "Report template not found" });
+        }
+
+        const saved = isDefault
+          ? await ReportTemplateService.setDefault(tenantId, id)
+          : template;
+
+        return reply.send({
+          success: true,
+          data: saved,
+          message: "Report template updated successfully",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to update report template",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // POST /api/v1/report-templates/:id/default - Make template the default
+  fastify.post(
+    "/:id/default",
+    { preHandler: requirePermission("settings.edit") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { id } = request.params as { id: string };
+
+        const template = await ReportTemplateService.setDefault(
+          tenant._id.toString(),
+          id,
+        );
+
+        return reply.send({
+          success: true,
+          data: template,
+          message: "Default report template updated",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to set default report template",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // DELETE /api/v1/report-templates/:id - Delete template
+  fastify.delete(
+    "/:id",
+    { preHandler: requirePermission("settings.edit") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { id } = request.params as { id: string };
+
+        const template = await ReportTemplate.findOneAndDelete({
+          _id: id,
+          tenantId: tenant._id.toString(),
+        });
+        if (!template) {
+          return reply
+            .status(404)
+            .send({ success: false, message: "Report template not found" });
+        }
+
+        return reply.send({
+          success: true,
+          message: "Report template deleted successfully",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to delete report template",
+          fastify.log,
+        );
+      }
+    },
+  );
+}
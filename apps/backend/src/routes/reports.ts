@@ -14,8 +14,47 @@ import {
 import { AuthenticatedRequest } from "../types";
 import { PermissionService } from "../services/permission-service";
 import { PDFService } from "../services/pdf-service";
+import {
+  ReportExportService,
+  REPORT_EXPORT_FORMATS,
+} from "../services/report-export-service";
+import { ReportTemplateService } from "../services/report-template-service";
+import { InventoryService } from "../services/inventory-service";
+import { AssetService } from "../services/asset-service";
+import { InspectionFormService } from "../services/inspection-form-service";
+import { HttpError } from "../middleware/http-error-middleware";
+import { WebhookService } from "../services/webhook-service";
+import { reportWebhookData } from "../services/webhook-payloads";
 
 export async function reportsRoutes(fastify: FastifyInstance) {
+  // Post the report's material usage to the stock ledger
+  const syncReportStock = async (user: any, reportId: string) => {
+    try {
+      await InventoryService.syncReportConsumption(
+        user.tenantId.toString(),
+        user.id,
+        reportId,
+      );
+    } catch (error) {
+      // The ledger catches up on the next change to this report
+      fastify.log.error(
+        { error },
+        "Failed to sync report material consumption",
+      );
+    }
+  };
+
+  // Tell integrations a report is waiting for review; the key keeps one
+  // delivery per submission
+  const notifySubmitted = async (user: any, report: any) => {
+    await WebhookService.triggerWebhooks(
+      user.tenantId.toString(),
+      "report.submitted",
+      reportWebhookData(report, user.id),
+      `${report._id}:submitted:${report.submittedAt.getTime()}`,
+    );
+  };
+
   // Get all reports with filtering and pagination
   fastify.get("/", { preHandler: authenticate }, async (request, reply) => {
     try {
@@ -177,7 +216,7 @@ export async function reportsRoutes(fastify: FastifyInstance) {
     }
   });
 
-  // Export report as PDF
+  // Export report as PDF, Word (docx), Excel (xlsx) or CSV
   fastify.get(
     "/:id/export",
     { preHandler: authenticate },
@@ -187,11 +226,11 @@ export async function reportsRoutes(fastify: FastifyInstance) {
         const user = (request as AuthenticatedRequest).user;
         const { format = "pdf" } = request.query as { format?: string };
 
-        // Currently only PDF format is supported
-        if (format !== "pdf") {
+        const exportFormat = ReportExportService.resolveFormat(format);
+        if (!exportFormat) {
           return reply.code(400).send({
             success: false,
-            message: `Export format "${format}" is not supported. Only PDF is currently available.`,
+            message: `Export format "${format}" is not supported. Use one of: ${Object.keys(REPORT_EXPORT_FORMATS).join(", ")}.`,
           });
         }
 
@@ -223,20 +262,47 @@ export async function reportsRoutes(fastify: FastifyInstance) {
             .send({ success: false, message: "Report not found" });
         }
 
-        // Generate PDF using the PDF service
-        const pdfDoc = await PDFService.generateReportPDF(report as any);
+        const currency =
+          (request as AuthenticatedRequest).context?.tenant?.settings
+            ?.currency || "EUR";
+
+        let payload;
+        switch (exportFormat) {
+          case "docx":
+            payload = await ReportExportService.generateReportDOCX(
+              report,
+              currency,
+            );
+            break;
+          case "xlsx":
+            payload = await ReportExportService.generateReportXLSX(
+              report,
+              currency,
+            );
+            break;
+          case "csv":
+            payload = ReportExportService.generateReportCSV(report, currency);
+            break;
+          default: {
+            // PDF layout follows the tenant's report template
+            const template = await ReportTemplateService.resolveForReport(
+              user.tenantId,
+              (report as any).type,
+            );
+            payload = await PDFService.generateReportPDF(report as any, template);
+          }
+        }
 
-        // Set response headers for PDF download
-        reply.type("application/pdf");
+        const { contentType, extension } = REPORT_EXPORT_FORMATS[exportFormat];
+        reply.type(contentType);
         reply.header(
           "Content-Disposition",
-          `attachment; filename="report-${id}.pdf"`,
+          `attachment; filename="report-${id}.${extension}"`,
         );
 
-        // Stream the PDF document to the client
-        return reply.send(pdfDoc);
+        return reply.send(payload);
       } catch (error) {
-        fastify.log.error({ error }, "Failed to export report as PDF");
+        fastify.log.error({ error }, "Failed to export report");
         return reply
           .code(500)
           .send({ success: false, message: "Internal server error" });
@@ -300,6 +366,30 @@ export async function reportsRoutes(fastify: FastifyInstance) {
         }
       }
 
+      if (reportData.assetIds && reportData.assetIds.length > 0) {
+        const invalidAssets = await AssetService.findInvalidAssetIds(
+          user.tenantId.toString(),
+          reportData.assetIds,
+          reportData.clientId,
+        );
+        if (invalidAssets.length > 0) {
+          return reply
+            .code(400)
+            .send({ success: false, message: "One or more assets not found" });
+        }
+      }
+
+      if (reportData.inspections !== undefined) {
+        reportData.inspections = await InspectionFormService.buildInspections(
+          user.tenantId.toString(),
+          reportData.inspections || [],
+        );
+      }
+      // Required checklist items must be answered once the report leaves draft
+      if ((reportData.status ?? "draft") !== "draft") {
+        InspectionFormService.assertComplete(reportData.inspections ?? []);
+      }
+
       const report = new Report(reportData);
 
       // Transfer time entries from tasks to report
@@ -331,7 +421,16 @@ export async function reportsRoutes(fastify: FastifyInstance) {
         );
       }
 
+      if (report.status === "submitted") {
+        report.submittedAt = new Date();
+      }
+
       await report.save();
+      await syncReportStock(user, report._id.toString());
+
+      if (report.status === "submitted") {
+        await notifySubmitted(user, report);
+      }
 
       // Populate the created report for response
       await report.populate("createdBy", "name email");
@@ -340,6 +439,11 @@ export async function reportsRoutes(fastify: FastifyInstance) {
 
       return reply.code(201).send({ success: true, data: report });
     } catch (error) {
+      if (error instanceof HttpError) {
+        return reply
+          .code(error.statusCode)
+          .send({ success: false, message: error.message });
+      }
       fastify.log.error({ error }, "Failed to create report");
       return reply
         .code(500)
@@ -403,6 +507,33 @@ export async function reportsRoutes(fastify: FastifyInstance) {
           .send({ success: false, message: "Cannot edit approved reports" });
       }
 
+      if (updateData.assetIds && updateData.assetIds.length > 0) {
+        const invalidAssets = await AssetService.findInvalidAssetIds(
+          user.tenantId.toString(),
+          updateData.assetIds,
+          (updateData.clientId ?? report.clientId)?.toString(),
+        );
+        if (invalidAssets.length > 0) {
+          return reply
+            .code(400)
+            .send({ success: false, message: "One or more assets not found" });
+        }
+      }
+
+      if (updateData.inspections !== undefined) {
+        updateData.inspections = await InspectionFormService.buildInspections(
+          user.tenantId.toString(),
+          updateData.inspections || [],
+        );
+      }
+      if ((updateData.status ?? report.status) !== "draft") {
+        InspectionFormService.assertComplete(
+          updateData.inspections ?? report.inspections,
+        );
+      }
+
+      const wasSubmitted = report.status === "submitted";
+
       // Update fields
       Object.keys(updateData).forEach((key) => {
         if (
@@ -415,9 +546,26 @@ export async function reportsRoutes(fastify: FastifyInstance) {
         }
       });
 
+      const submitted = !wasSubmitted && report.status === "submitted";
+      if (submitted) {
+        report.submittedAt = new Date();
+      }
+
       // Save with validateModifiedOnly to avoid validating embedded schemas
       await report.save({ validateModifiedOnly: true });
 
+      if (
+        updateData.materialsUsed !== undefined ||
+        updateData.taskIds !== undefined ||
+        updateData.workOrderId !== undefined
+      ) {
+        await syncReportStock(user, report._id.toString());
+      }
+
+      if (submitted) {
+        await notifySubmitted(user, report);
+      }
+
       // Populate updated report for response
       await report.populate("createdBy", "name email");
       await report.populate("assignedTo", "name email");
@@ -425,6 +573,11 @@ export async function reportsRoutes(fastify: FastifyInstance) {
 
       return reply.send({ success: true, data: report });
     } catch (error) {
+      if (error instanceof HttpError) {
+        return reply
+          .code(error.statusCode)
+          .send({ success: false, message: error.message });
+      }
       fastify.log.error({ error }, "Failed to update report");
       return reply
         .code(500)
@@ -472,6 +625,8 @@ export async function reportsRoutes(fastify: FastifyInstance) {
         }
 
         await Report.findByIdAndDelete(id);
+        await syncReportStock(user, id);
+
         return reply.send({
           success: true,
           message: "Report deleted successfully",
@@ -545,15 +700,24 @@ export async function reportsRoutes(fastify: FastifyInstance) {
           });
         }
 
+        InspectionFormService.assertComplete(report.inspections);
+
         report.status = "submitted";
         report.submittedAt = new Date();
         await report.save({ validateModifiedOnly: true });
 
+        await notifySubmitted(user, report);
+
         return reply.send({
           success: true,
           message: "Report submitted successfully",
         });
       } catch (error) {
+        if (error instanceof HttpError) {
+          return reply
+            .code(error.statusCode)
+            .send({ success: false, message: error.message });
+        }
         fastify.log.error({ error }, "Failed to submit report");
         return reply
           .code(500)
@@ -602,6 +766,13 @@ export async function reportsRoutes(fastify: FastifyInstance) {
 
         await report.save({ validateModifiedOnly: true });
 
+        await WebhookService.triggerWebhooks(
+          user.tenantId.toString(),
+          "report.approved",
+          reportWebhookData(report, user.id),
+          `${report._id}:approved`,
+        );
+
         return reply.send({
           success: true,
           message: "Report approved successfully",
@@ -655,6 +826,13 @@ export async function reportsRoutes(fastify: FastifyInstance) {
 
         await report.save({ validateModifiedOnly: true });
 
+        await WebhookService.triggerWebhooks(
+          user.tenantId.toString(),
+          "report.rejected",
+          reportWebhookData(report, user.id),
+          `${report._id}:rejected:${report.rejectedAt.getTime()}`,
+        );
+
         return reply.send({
           success: true,
           message: "Report rejected successfully",
@@ -717,6 +895,7 @@ export async function reportsRoutes(fastify: FastifyInstance) {
 
         report.materialsUsed.push(materialUsage as any);
         await report.save({ validateModifiedOnly: true });
+        await syncReportStock(user, report._id.toString());
 
         return reply.send({ success: true, data: materialUsage });
       } catch (error) {
@@ -0,0 +1,219 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { z } from "zod";
+import dayjs from "dayjs";
+import { authenticate } from "../middleware/auth";
+import { requirePermission } from "../middleware/permission-guard";
+import { AuthenticatedRequest } from "../types";
+import { handleServiceError } from "../utils/error-handler";
+import { PRIORITY_VALUES } from "../constants/priorities";
+import { SlaService } from "../services/sla-service";
+
+// ----------------------------------------------------------------------
+
+const policyFields = {
+  name: z.string().trim().min(1, "Name is required").max(100),
+  description: z.string().trim().max(500).optional(),
+  match: z
+    .object({
+      priorities: z.array(z.enum(PRIORITY_VALUES)).default([]),
+      clientIds: z.array(z.string().min(1)).default([]),
+      contractIds: z.array(z.string().min(1)).default([]),
+    })
+    .optional(),
+  responseMinutes: z.number().int().min(1, "Response target is required"),
+  resolutionMinutes: z.number().int().min(1, "Resolution target is required"),
+  pauseOnHold: z.boolean().optional(),
+  escalation: z
+    .object({
+      warnAtPercent: z.number().int().min(0).max(99).optional(),
+      notifyRoles: z.array(z.string().min(1)).optional(),
+      notifyAssignees: z.boolean().optional(),
+      sms: z.boolean().optional(),
+    })
+    .optional(),
+  isActive: z.boolean().optional(),
+};
+
+const createPolicySchema = z.object(policyFields);
+
+const updatePolicySchema = z.object(policyFields).partial();
+
+const reportQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  policyId: z.string().optional(),
+  clientId: z.string().optional(),
+  priority: z.enum(PRIORITY_VALUES).optional(),
+});
+
+// SLA policy, escalation and compliance routes
+export async function slaRoutes(fastify: FastifyInstance) {
+  // POST /api/v1/sla/process - Send due SLA warnings and breach escalations (for cron job)
+  fastify.post(
+    "/process",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const result = await SlaService.processEscalations();
+
+        return reply.send({
+          success: true,
+          ...result,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to process SLA escalations",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // GET /api/v1/sla/policies - List SLA policies
+  fastify.get(
+    "/policies",
+    { preHandler: authenticate },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+
+        const policies = await SlaService.listPolicies(tenant._id.toString());
+
+        return reply.send({ success: true, data: policies });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to fetch SLA policies",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // POST /api/v1/sla/policies - Add a policy
+  fastify.post(
+    "/policies",
+    { preHandler: [authenticate, requirePermission("settings.edit")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const data = createPolicySchema.parse(request.body);
+
+        const policy = await SlaService.createPolicy(
+          tenant._id.toString(),
+          user.id,
+          data,
+        );
+
+        return reply.code(201).send({
+          success: true,
+          data: policy,
+          message: "SLA policy created",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to create SLA policy",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // PUT /api/v1/sla/policies/:id - Change a policy's targets or scope
+  fastify.put(
+    "/policies/:id",
+    { preHandler: [authenticate, requirePermission("settings.edit")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { id } = request.params as { id: string };
+        const data = updatePolicySchema.parse(request.body);
+
+        const policy = await SlaService.updatePolicy(
+          tenant._id.toString(),
+          id,
+          data,
+        );
+
+        return reply.send({
+          success: true,
+          data: policy,
+          message: "SLA policy updated",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to update SLA policy",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // DELETE /api/v1/sla/policies/:id - Remove a policy
+  fastify.delete(
+    "/policies/:id",
+    { preHandler: [authenticate, requirePermission("settings.edit")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { id } = request.params as { id: string };
+
+        await SlaService.deletePolicy(tenant._id.toString(), id);
+
+        return reply.send({
+          success: true,
+          message: "SLA policy deleted",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to delete SLA policy",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // GET /api/v1/sla/report - Response and resolution compliance
+  fastify.get(
+    "/report",
+    { preHandler: [authenticate, requirePermission("reports.view")] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const filters = reportQuerySchema.parse(request.query);
+
+        const report = await SlaService.getComplianceReport(
+          tenant._id.toString(),
+          {
+            ...filters,
+            from: filters.from || dayjs().subtract(30, "day").toDate(),
+            to: filters.to || new Date(),
+          },
+        );
+
+        return reply.send({ success: true, data: report });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to build SLA report",
+          fastify.log,
+        );
+      }
+    },
+  );
+}
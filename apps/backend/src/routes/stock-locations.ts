@@ -0,0 +1,202 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { z } from "zod";
+import { authenticate } from "../middleware/auth";
+import { AuthenticatedRequest } from "../types";
+import { handleServiceError } from "../utils/error-handler";
+import { StockLocationService } from "../services/stock-location-service";
+
+// ----------------------------------------------------------------------
+
+const listQuerySchema = z.object({
+  includeInactive: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+});
+
+const createLocationSchema = z.object({
+  name: z.string().min(1, "Location name is required"),
+  type: z.enum(["warehouse", "vehicle"]).default("warehouse"),
+  personnelId: z.string().optional(),
+  address: z.string().optional(),
+  notes: z.string().optional(),
+  isDefault: z.boolean().optional(),
+});
+
+const updateLocationSchema = createLocationSchema
+  .extend({ isActive: z.boolean() })
+  .partial();
+
+// Stock location routes
+export async function stockLocationRoutes(fastify: FastifyInstance) {
+  // Add authentication middleware to all routes
+  fastify.addHook("preHandler", authenticate);
+
+  // GET /api/v1/stock-locations - Warehouses and vans with stock totals
+  fastify.get("/", async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const req = request as AuthenticatedRequest;
+      const { tenant } = req.context!;
+      const { includeInactive } = listQuerySchema.parse(request.query);
+
+      // Every tenant has somewhere to receive stock into
+      await StockLocationService.getDefaultWarehouse(tenant._id.toString());
+
+      const locations = await StockLocationService.listLocations(
+        tenant._id.toString(),
+        includeInactive,
+      );
+
+      return reply.send({ success: true, data: locations });
+    } catch (error) {
+      return handleServiceError(
+        error,
+        reply,
+        "Failed to fetch stock locations",
+        fastify.log,
+      );
+    }
+  });
+
+  // POST /api/v1/stock-locations - Create a warehouse or van
+  fastify.post("/", async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const req = request as AuthenticatedRequest;
+      const { tenant } = req.context!;
+      const data = createLocationSchema.parse(request.body);
+
+      const location = await StockLocationService.createLocation(
+        tenant._id.toString(),
+        data,
+      );
+
+      return reply.status(201).send({
+        success: true,
+        data: location,
+        message: "Stock location created successfully",
+      });
+    } catch (error) {
+      return handleServiceError(
+        error,
+        reply,
+        "Failed to create stock location",
+        fastify.log,
+      );
+    }
+  });
+
+  // POST /api/v1/stock-locations/vehicles/sync - Create a van for every technician
+  fastify.post(
+    "/vehicles/sync",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+
+        const result = await StockLocationService.syncVehicleLocations(
+          tenant._id.toString(),
+        );
+
+        return reply.send({
+          success: true,
+          data: result,
+          message: `${result.created} vehicle location(s) created`,
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to create vehicle locations",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // GET /api/v1/stock-locations/:id/stock - Materials held at a location
+  fastify.get(
+    "/:id/stock",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { id } = request.params as { id: string };
+
+        const stock = await StockLocationService.getLocationStock(
+          tenant._id.toString(),
+          id,
+        );
+
+        return reply.send({ success: true, data: stock });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to fetch location stock",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // PUT /api/v1/stock-locations/:id - Update a location
+  fastify.put("/:id", async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const req = request as AuthenticatedRequest;
+      const { tenant } = req.context!;
+      const { id } = request.params as { id: string };
+      const data = updateLocationSchema.parse(request.body);
+
+      const location = await StockLocationService.updateLocation(
+        tenant._id.toString(),
+        id,
+        data,
+      );
+
+      return reply.send({
+        success: true,
+        data: location,
+        message: "Stock location updated successfully",
+      });
+    } catch (error) {
+      return handleServiceError(
+        error,
+        reply,
+        "Failed to update stock location",
+        fastify.log,
+      );
+    }
+  });
+
+  // DELETE /api/v1/stock-locations/:id - Remove an empty location
+  fastify.delete(
+    "/:id",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { id } = request.params as { id: string };
+
+        const result = await StockLocationService.removeLocation(
+          tenant._id.toString(),
+          id,
+        );
+
+        return reply.send({
+          success: true,
+          data: result,
+          message: result.deleted
+            ? "Stock location deleted successfully"
+            : "Stock location has history and was deactivated",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to remove stock location",
+          fastify.log,
+        );
+      }
+    },
+  );
+}
@@ -2,6 +2,7 @@ import { FastifyInstance } from "fastify";
 import { authenticate } from "../middleware/auth";
 import { Subtask, Task, User } from "../models";
 import { AuthenticatedRequest } from "../types";
+import { isStaleWrite } from "../utils/concurrency";
 import { WorkOrderTimelineService } from "../services/work-order-timeline-service";
 import { FileTrackingService } from "../services/file-tracking-service";
 import * as path from "path";
@@ -139,6 +140,17 @@ export async function subtasksRoutes(fastify: FastifyInstance) {
         return reply.code(404).send({ success: false, message: 'Subtask not found' });
       }
 
+      // Offline edits made against an older copy are merged by the client
+      if (isStaleWrite(request, subtask.updatedAt)) {
+        await subtask.populate('createdBy', 'name email');
+        await subtask.populate('assignedTo', 'name email');
+        return reply.code(409).send({
+          success: false,
+          message: 'Subtask was changed by someone else',
+          data: subtask,
+        });
+      }
+
       // Validate assigned user if provided
       if (assignedTo) {
         const assignedUser = await User.findOne({ _id: assignedTo, tenantId: user.tenantId });
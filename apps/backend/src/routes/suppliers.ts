@@ -0,0 +1,251 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { z } from "zod";
+import { Material, PurchaseOrder, Supplier } from "../models";
+import { authenticate } from "../middleware/auth";
+import { AuthenticatedRequest } from "../types";
+import { handleServiceError } from "../utils/error-handler";
+
+// ----------------------------------------------------------------------
+
+const supplierSchema = z.object({
+  name: z.string().min(1, "Supplier name is required"),
+  contactName: z.string().optional(),
+  email: z
+    .string()
+    .email("Valid email is required")
+    .or(z.literal(""))
+    .optional(),
+  phone: z.string().optional(),
+  website: z.string().optional(),
+  vatNumber: z.string().optional(),
+  address: z
+    .object({
+      street: z.string().optional(),
+      city: z.string().optional(),
+      zipCode: z.string().optional(),
+      country: z.string().optional(),
+    })
+    .optional(),
+  leadTimeDays: z.coerce.number().int().min(0).default(7),
+  paymentTerms: z.string().optional(),
+  notes: z.string().optional(),
+  isActive: z.boolean().optional(),
+});
+
+const updateSupplierSchema = supplierSchema.partial();
+
+const searchSuppliersSchema = z.object({
+  q: z.string().optional(),
+  isActive: z.enum(["true", "false"]).optional(),
+  limit: z.coerce.number().min(1).max(100).default(50),
+  offset: z.coerce.number().min(0).default(0),
+});
+
+// Supplier routes
+export async function supplierRoutes(fastify: FastifyInstance) {
+  // Add authentication middleware to all routes
+  fastify.addHook("preHandler", authenticate);
+
+  // GET /api/v1/suppliers - List suppliers
+  fastify.get("/", async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const req = request as AuthenticatedRequest;
+      const { tenant } = req.context!;
+      const { q, isActive, limit, offset } = searchSuppliersSchema.parse(
+        request.query,
+      );
+
+      const filters: any = { tenantId: tenant._id.toString() };
+      if (isActive) filters.isActive = isActive === "true";
+      if (q) {
+        const escaped = q.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+        filters.$or = [
+          { name: { $regex: escaped, $options: "i" } },
+          { contactName: { $regex: escaped, $options: "i" } },
+          { email: { $regex: escaped, $options: "i" } },
+        ];
+      }
+
+      const [suppliers, total] = await Promise.all([
+        Supplier.find(filters)
+          .sort({ name: 1 })
+          .skip(offset)
+          .limit(limit)
+          .lean(),
+        Supplier.countDocuments(filters),
+      ]);
+
+      return reply.send({
+        success: true,
+        data: suppliers,
+        pagination: {
+          total,
+          limit,
+          offset,
+          hasMore: offset + limit < total,
+        },
+      });
+    } catch (error) {
+      return handleServiceError(
+        error,
+        reply,
+        "Failed to fetch suppliers",
+        fastify.log,
+      );
+    }
+  });
+
+  // GET /api/v1/suppliers/:id - Get single supplier
+  fastify.get("/:id", async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const req = request as AuthenticatedRequest;
+      const { tenant } = req.context!;
+      const { id } = request.params as { id: string };
+
+      const supplier = await Supplier.findOne({
+        _id: id,
+        tenantId: tenant._id.toString(),
+      }).lean();
+      if (!supplier) {
+        return reply.status(404).send({
+          success: false,
+          message: "Supplier not found",
+        });
+      }
+
+      return reply.send({ success: true, data: supplier });
+    } catch (error) {
+      return handleServiceError(
+        error,
+        reply,
+        "Failed to fetch supplier",
+        fastify.log,
+      );
+    }
+  });
+
+  // POST /api/v1/suppliers - Create supplier
+  fastify.post("/", async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const req = request as AuthenticatedRequest;
+      const { tenant } = req.context!;
+      const validatedData = supplierSchema.parse(request.body);
+
+      const supplier = await Supplier.create({
+        ...validatedData,
+        tenantId: tenant._id.toString(),
+      });
+
+      return reply.status(201).send({
+        success: true,
+        data: supplier,
+        message: "Supplier created successfully",
+      });
+    } catch (error) {
+      return handleServiceError(
+        error,
+        reply,
+        "Failed to create supplier",
+        fastify.log,
+      );
+    }
+  });
+
+  // PUT /api/v1/suppliers/:id - Update supplier
+  fastify.put("/:id", async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const req = request as AuthenticatedRequest;
+      const { tenant } = req.context!;
+      const tenantId = tenant._id.toString();
+      const { id } = request.params as { id: string };
+      const validatedData = updateSupplierSchema.parse(request.body);
+
+      const supplier = await Supplier.findOne({ _id: id, tenantId });
+      if (!supplier) {
+        return reply.status(404).send({
+          success: false,
+          message: "Supplier not found",
+        });
+      }
+
+      const renamed =
+        validatedData.name !== undefined &&
+        validatedData.name !== supplier.name;
+
+      Object.assign(supplier, validatedData);
+      await supplier.save();
+
+      // Linked materials show the supplier by name
+      if (renamed) {
+        await Material.updateMany(
+          { tenantId: tenant._id, supplierId: supplier._id.toString() },
+          { $set: { supplier: supplier.name } },
+        );
+      }
+
+      return reply.send({
+        success: true,
+        data: supplier,
+        message: "Supplier updated successfully",
+      });
+    } catch (error) {
+      return handleServiceError(
+        error,
+        reply,
+        "Failed to update supplier",
+        fastify.log,
+      );
+    }
+  });
+
+  // DELETE /api/v1/suppliers/:id - Delete a supplier without purchase orders
+  fastify.delete(
+    "/:id",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const tenantId = tenant._id.toString();
+        const { id } = request.params as { id: string };
+
+        const supplier = await Supplier.findOne({ _id: id, tenantId });
+        if (!supplier) {
+          return reply.status(404).send({
+            success: false,
+            message: "Supplier not found",
+          });
+        }
+
+        const hasOrders = await PurchaseOrder.exists({
+          tenantId,
+          supplierId: id,
+        });
+        if (hasOrders) {
+          return reply.status(400).send({
+            success: false,
+            message:
+              "Suppliers with purchase orders cannot be deleted; deactivate them instead",
+          });
+        }
+
+        await Material.updateMany(
+          { tenantId: tenant._id, supplierId: id },
+          { $unset: { supplierId: 1 } },
+        );
+        await Supplier.deleteOne({ _id: id, tenantId });
+
+        return reply.send({
+          success: true,
+          message: "Supplier deleted successfully",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to delete supplier",
+          fastify.log,
+        );
+      }
+    },
+  );
+}
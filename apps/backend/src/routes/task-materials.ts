@@ -1,7 +1,20 @@
 import { FastifyInstance } from "fastify";
 import { authenticate } from "../middleware/auth";
-import { TaskMaterial, Task, Material, User } from "../models";
+import { TaskMaterial, Task, Material, User, StockLocation } from "../models";
 import { AuthenticatedRequest } from "../types";
+import { isStaleWrite } from "../utils/concurrency";
+import { InventoryService } from "../services/inventory-service";
+import { StockLocationService } from "../services/stock-location-service";
+
+// Post the task's material usage to the stock ledger
+async function syncTaskStock(fastify: FastifyInstance, user: any, taskId: string) {
+  try {
+    await InventoryService.syncTaskConsumption(user.tenantId.toString(), user.id, taskId);
+  } catch (error) {
+    // The ledger catches up on the next change to this task's materials
+    fastify.log.error({ error }, 'Failed to sync task material consumption');
+  }
+}
 
 export async function taskMaterialsRoutes(fastify: FastifyInstance) {
   // Get materials for a task
@@ -19,6 +32,7 @@ export async function taskMaterialsRoutes(fastify: FastifyInstance) {
       const taskMaterials = await TaskMaterial.find({ taskId, tenantId: user.tenantId })
         .populate('materialId', 'name description category sku barcode unit unitCost quantity location supplier status')
         .populate('addedBy', 'name email')
+        .populate('locationId', 'name type')
         .sort({ createdAt: -1 });
 
       // Transform the data to match frontend interface
@@ -29,8 +43,10 @@ export async function taskMaterialsRoutes(fastify: FastifyInstance) {
         quantity: tm.quantity,
         unitCost: tm.unitCost,
         totalCost: tm.totalCost,
+        location: tm.locationId,
         addedBy: tm.addedBy,
         addedAt: tm.createdAt,
+        updatedAt: tm.updatedAt,
       }));
 
       return reply.send({ success: true, data: transformedData });
@@ -44,9 +60,10 @@ export async function taskMaterialsRoutes(fastify: FastifyInstance) {
   fastify.post('/:taskId/materials', { preHandler: authenticate }, async (request, reply) => {
     try {
       const { taskId } = request.params as { taskId: string };
-      const { materialId, quantity } = request.body as {
+      const { materialId, quantity, locationId } = request.body as {
         materialId: string;
         quantity: number;
+        locationId?: string;
       };
       const user = (request as AuthenticatedRequest).user;
 
@@ -76,18 +93,33 @@ export async function taskMaterialsRoutes(fastify: FastifyInstance) {
         });
       }
 
+      // Usage comes out of the technician's van unless a location is picked
+      const location = locationId
+        ? await StockLocation.findOne({ _id: locationId, tenantId: user.tenantId.toString(), isActive: true })
+        : await StockLocationService.resolveConsumptionLocation(
+            user.tenantId.toString(),
+            user.id,
+            (task.assignees || []).map((id: any) => id.toString()),
+          );
+      if (!location) {
+        return reply.code(404).send({ success: false, message: 'Stock location not found' });
+      }
+
       const taskMaterial = new TaskMaterial({
         tenantId: user.tenantId,
         taskId,
         materialId,
         quantity,
         unitCost: material.unitCost,
+        locationId: location._id.toString(),
         addedBy: user.id,
       });
 
       await taskMaterial.save();
+      await syncTaskStock(fastify, user, taskId);
       await taskMaterial.populate('materialId', 'name description category sku barcode unit unitCost quantity location supplier status');
       await taskMaterial.populate('addedBy', 'name email');
+      await taskMaterial.populate('locationId', 'name type');
 
       // Transform the data to match frontend interface
       const transformedData = {
@@ -97,8 +129,10 @@ export async function taskMaterialsRoutes(fastify: FastifyInstance) {
         quantity: taskMaterial.quantity,
         unitCost: taskMaterial.unitCost,
         totalCost: taskMaterial.totalCost,
+        location: taskMaterial.locationId,
         addedBy: taskMaterial.addedBy,
         addedAt: taskMaterial.createdAt,
+        updatedAt: taskMaterial.updatedAt,
       };
 
       return reply.code(201).send({ success: true, data: transformedData });
@@ -108,14 +142,17 @@ export async function taskMaterialsRoutes(fastify: FastifyInstance) {
     }
   });
 
-  // Update task material (mainly quantity)
+  // Update task material (quantity or the location it was taken from)
   fastify.put('/:taskId/materials/:taskMaterialId', { preHandler: authenticate }, async (request, reply) => {
     try {
       const { taskId, taskMaterialId } = request.params as {
         taskId: string;
         taskMaterialId: string;
       };
-      const { quantity } = request.body as { quantity?: number };
+      const { quantity, locationId } = request.body as {
+        quantity?: number;
+        locationId?: string;
+      };
       const user = (request as AuthenticatedRequest).user;
 
       // Verify task exists and user has access
@@ -135,6 +172,15 @@ export async function taskMaterialsRoutes(fastify: FastifyInstance) {
         return reply.code(404).send({ success: false, message: 'Task material not found' });
       }
 
+      // Offline edits made against an older copy are merged by the client
+      if (isStaleWrite(request, taskMaterial.updatedAt)) {
+        return reply.code(409).send({
+          success: false,
+          message: 'Material usage was changed by someone else',
+          data: taskMaterial,
+        });
+      }
+
       // Update quantity if provided
       if (quantity !== undefined) {
         if (quantity < 1) {
@@ -146,9 +192,24 @@ export async function taskMaterialsRoutes(fastify: FastifyInstance) {
         taskMaterial.quantity = quantity;
       }
 
+      // Move the usage to another location, e.g. when it came from the warehouse
+      if (locationId !== undefined && locationId !== taskMaterial.locationId) {
+        const location = await StockLocation.findOne({
+          _id: locationId,
+          tenantId: user.tenantId.toString(),
+          isActive: true,
+        });
+        if (!location) {
+          return reply.code(404).send({ success: false, message: 'Stock location not found' });
+        }
+        taskMaterial.locationId = location._id.toString();
+      }
+
       await taskMaterial.save();
+      await syncTaskStock(fastify, user, taskId);
       await taskMaterial.populate('materialId', 'name description category sku barcode unit unitCost quantity location supplier status');
       await taskMaterial.populate('addedBy', 'name email');
+      await taskMaterial.populate('locationId', 'name type');
 
       // Transform the data to match frontend interface
       const transformedData = {
@@ -158,8 +219,10 @@ export async function taskMaterialsRoutes(fastify: FastifyInstance) {
         quantity: taskMaterial.quantity,
         unitCost: taskMaterial.unitCost,
         totalCost: taskMaterial.totalCost,
+        location: taskMaterial.locationId,
         addedBy: taskMaterial.addedBy,
         addedAt: taskMaterial.createdAt,
+        updatedAt: taskMaterial.updatedAt,
       };
 
       return reply.send({ success: true, data: transformedData });
@@ -195,6 +258,8 @@ export async function taskMaterialsRoutes(fastify: FastifyInstance) {
         return reply.code(404).send({ success: false, message: 'Task material not found' });
       }
 
+      await syncTaskStock(fastify, user, taskId);
+
       return reply.send({ success: true, message: 'Material removed from task successfully' });
     } catch (error) {
       fastify.log.error({ error }, 'Failed to remove material from task');
@@ -116,6 +116,31 @@ const updateTenantSchema = z.object({
           days: z.array(z.number()).optional(),
         })
         .optional(),
+      invoicing: z
+        .object({
+          taxRate: z.number().min(0).max(100).optional(),
+          paymentTermsDays: z.number().int().min(0).optional(),
+          footerNotes: z.string().optional(),
+        })
+        .optional(),
+      inventory: z
+        .object({
+          costingMethod: z.enum(["last_cost", "weighted_average"]).optional(),
+        })
+        .optional(),
+      attendance: z
+        .object({
+          geofenceRadiusMeters: z.number().min(10).max(10000).optional(),
+          requireLocation: z.boolean().optional(),
+          blockOutsideGeofence: z.boolean().optional(),
+        })
+        .optional(),
+      tracking: z
+        .object({
+          enabled: z.boolean().optional(),
+          retentionDays: z.number().int().min(1).max(365).optional(),
+        })
+        .optional(),
     })
     .optional(),
   isActive: z.boolean().optional(),
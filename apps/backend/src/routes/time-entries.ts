@@ -1,16 +1,27 @@
 import type { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { z } from "zod";
 import { authenticate } from "../middleware/auth";
 import { createPermissionGuard } from "../middleware/permission-guard";
 import { TenantValidation } from "../middleware/tenant-isolation";
 import { TimeEntry } from "../models/TimeEntry";
 import { CheckInSession } from "../models/CheckInSession";
 import { Task } from "../models/Task";
-import { WorkOrder } from "../models/WorkOrder";
 import { Personnel, type IPersonnel } from "../models/Personnel";
 import { normalizeHoursDays, computeLaborCost } from "../utils/time";
 import { realtimeService } from "../services/realtime-service";
 import { NotificationService } from "../services/notification-service";
 import { WorkOrderTimelineService } from "../services/work-order-timeline-service";
+import {
+  AttendanceService,
+  type LocationInput,
+} from "../services/attendance-service";
+import { TimesheetService } from "../services/timesheet-service";
+import { handleServiceError } from "../utils/error-handler";
+import { WebhookService } from "../services/webhook-service";
+import {
+  checkInWebhookData,
+  timeEntryWebhookData,
+} from "../services/webhook-payloads";
 
 // Helper function to check if a user can access time entries for a specific task
 async function canUserAccessTaskTimeEntry(
@@ -108,55 +119,61 @@ interface UpdateTimeEntryBody {
   notes?: string;
 }
 
-async function recalcAggregates(
-  tenantId: string,
-  taskId: string,
-  workOrderId?: string | null,
-) {
-  // Task.actualHours = sum(hours) for task
-  const [{ totalHours = 0 } = {} as any] = await TimeEntry.aggregate([
-    { $match: { tenantId, taskId } },
-    { $group: { _id: null, totalHours: { $sum: "$hours" } } },
-  ]);
-
-  await Task.updateOne(
-    { _id: taskId, tenantId },
-    { $set: { actualHours: totalHours } },
-  );
-
-  if (workOrderId) {
-    // WorkOrder.actualDuration in minutes, and cost.labor from sum(cost)
-    const result = await TimeEntry.aggregate([
-      { $match: { tenantId, workOrderId } },
-      {
-        $group: {
-          _id: null,
-          totalHours: { $sum: "$hours" },
-          laborCost: { $sum: { $ifNull: ["$cost", 0] } },
-        },
-      },
-    ]);
-    const totalHoursWO = result[0]?.totalHours ?? 0;
-    const laborCost = result[0]?.laborCost ?? 0;
-    const actualDuration = Math.round(totalHoursWO * 60);
-
-    await WorkOrder.updateOne(
-      { _id: workOrderId, tenantId },
-      {
-        $set: {
-          actualDuration,
-          "cost.labor": laborCost,
-        },
-      },
-    );
-  }
-}
-
 // Helper function to generate client session ID for recovery
 function generateClientSessionId(): string {
   return `client_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
+// Times recorded on a device while offline, never later than now
+function resolveClientTime(value?: string): Date {
+  const now = new Date();
+  if (!value) return now;
+  const time = new Date(value);
+  return Number.isNaN(time.getTime()) || time > now ? now : time;
+}
+
+// GPS fix sent by the device, ignored when malformed
+function parseLocation(value: any): LocationInput | undefined {
+  const latitude = Number(value?.latitude);
+  const longitude = Number(value?.longitude);
+  if (
+    !Number.isFinite(latitude) ||
+    !Number.isFinite(longitude) ||
+    Math.abs(latitude) > 90 ||
+    Math.abs(longitude) > 180
+  ) {
+    return undefined;
+  }
+
+  const accuracy = Number(value.accuracy);
+  return {
+    latitude,
+    longitude,
+    accuracy: Number.isFinite(accuracy) && accuracy >= 0 ? accuracy : undefined,
+    capturedAt: resolveClientTime(value.capturedAt),
+  };
+}
+
+const attendanceSettingsSchema = z.object({
+  geofenceRadiusMeters: z.number().min(10).max(10000).optional(),
+  requireLocation: z.boolean().optional(),
+  blockOutsideGeofence: z.boolean().optional(),
+});
+
+const flaggedSessionsSchema = z.object({
+  status: z.enum(["pending", "approved", "rejected"]).optional(),
+  personnelId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().min(1).max(100).default(25),
+  offset: z.coerce.number().min(0).default(0),
+});
+
+const reviewSessionSchema = z.object({
+  status: z.enum(["approved", "rejected"]),
+  notes: z.string().optional(),
+});
+
 export async function timeEntryRoutes(fastify: FastifyInstance) {
   // Auth for all routes under this plugin
   fastify.addHook("preHandler", authenticate);
@@ -320,6 +337,18 @@ export async function timeEntryRoutes(fastify: FastifyInstance) {
           .send({ success: false, message: "Personnel not found" });
       }
 
+      // Approved weeks are locked
+      try {
+        await TimesheetService.assertEditable(tenantId, personnelId, body.date);
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to create time entry",
+          fastify.log,
+        );
+      }
+
       // Normalize hours/days
       const { hours, days } = normalizeHoursDays({
         hours: body.hours,
@@ -347,7 +376,7 @@ export async function timeEntryRoutes(fastify: FastifyInstance) {
         createdBy: user.id,
       });
 
-      await recalcAggregates(tenantId, body.taskId, body.workOrderId);
+      await TimesheetService.recalcAggregates(tenantId, body.taskId, body.workOrderId);
 
       // Log timeline entry for time tracking if work order is linked
       if (body.workOrderId) {
@@ -425,6 +454,13 @@ export async function timeEntryRoutes(fastify: FastifyInstance) {
         data: { taskId: body.taskId, timeEntry: doc.toObject() },
       });
 
+      await WebhookService.triggerWebhooks(
+        tenantId,
+        "time_entry.created",
+        timeEntryWebhookData(doc, userId),
+        `${doc._id}:created`,
+      );
+
       return reply.code(201).send({ success: true, data: doc });
     },
   );
@@ -442,6 +478,22 @@ export async function timeEntryRoutes(fastify: FastifyInstance) {
       if (!existing)
         return reply.code(404).send({ success: false, message: "Not found" });
 
+      // Approved weeks are locked
+      try {
+        await TimesheetService.assertEditable(
+          tenantId,
+          existing.personnelId,
+          existing.date,
+        );
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to update time entry",
+          fastify.log,
+        );
+      }
+
       // Check if user can edit this time entry (must be assigned to the task or admin)
       const { User } = await import("../models");
       const currentUser = (await User.findById(user.id).lean()) as any;
@@ -483,7 +535,7 @@ export async function timeEntryRoutes(fastify: FastifyInstance) {
       existing.cost = cost;
       await existing.save();
 
-      await recalcAggregates(tenantId, existing.taskId, existing.workOrderId);
+      await TimesheetService.recalcAggregates(tenantId, existing.taskId, existing.workOrderId);
 
       // Send notification to task reporter about time entry update
       try {
@@ -528,6 +580,13 @@ export async function timeEntryRoutes(fastify: FastifyInstance) {
         data: { taskId: existing.taskId, timeEntry: existing.toObject() },
       });
 
+      await WebhookService.triggerWebhooks(
+        tenantId,
+        "time_entry.updated",
+        timeEntryWebhookData(existing, user.id),
+        `${existing._id}:updated:${existing.updatedAt.getTime()}`,
+      );
+
       return reply.send({ success: true, data: existing });
     },
   );
@@ -544,6 +603,22 @@ export async function timeEntryRoutes(fastify: FastifyInstance) {
       if (!existing)
         return reply.code(404).send({ success: false, message: "Not found" });
 
+      // Approved weeks are locked
+      try {
+        await TimesheetService.assertEditable(
+          tenantId,
+          existing.personnelId,
+          existing.date,
+        );
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to delete time entry",
+          fastify.log,
+        );
+      }
+
       // Check if user can delete this time entry (must be assigned to the task or admin)
       const { User } = await import("../models");
       const currentUser = (await User.findById(user.id).lean()) as any;
@@ -569,7 +644,7 @@ export async function timeEntryRoutes(fastify: FastifyInstance) {
       // Now delete the time entry
       await TimeEntry.findOneAndDelete({ _id: id, tenantId });
 
-      await recalcAggregates(tenantId, existing.taskId, existing.workOrderId);
+      await TimesheetService.recalcAggregates(tenantId, existing.taskId, existing.workOrderId);
 
       realtimeService.emitToTask(existing.taskId, "notification", {
         type: "time:deleted",
@@ -577,6 +652,13 @@ export async function timeEntryRoutes(fastify: FastifyInstance) {
         data: { taskId: existing.taskId, timeEntryId: id },
       });
 
+      await WebhookService.triggerWebhooks(
+        tenantId,
+        "time_entry.deleted",
+        timeEntryWebhookData(existing, user.id),
+        `${existing._id}:deleted`,
+      );
+
       return reply.send({ success: true });
     },
   );
@@ -593,6 +675,8 @@ export async function timeEntryRoutes(fastify: FastifyInstance) {
           taskId: string;
           notes?: string;
           clientSessionId?: string; // For recovery purposes
+          checkInTime?: string; // When the check-in happened offline
+          location?: { latitude: number; longitude: number; accuracy?: number; capturedAt?: string };
         };
 
         console.log('CheckIn request:', { userId, tenantId, taskId: body.taskId });
@@ -643,6 +727,15 @@ export async function timeEntryRoutes(fastify: FastifyInstance) {
         (Array.isArray(personnel) ? personnel[0] : personnel)?._id?.toString() || ''
       );
 
+      // A replayed offline check-in that already went through
+      if (
+        existingSession &&
+        body.clientSessionId &&
+        existingSession.clientSessionId === body.clientSessionId
+      ) {
+        return reply.code(200).send({ success: true, data: existingSession });
+      }
+
       if (existingSession) {
         return reply.code(400).send({
           success: false,
@@ -655,19 +748,53 @@ export async function timeEntryRoutes(fastify: FastifyInstance) {
       const task = await Task.findById(body.taskId).lean();
       const workOrderId = (task as any)?.workOrderId;
 
+      // Verify attendance against the work order site
+      const attendance = await AttendanceService.getSettings(tenantId);
+      const location = parseLocation(body.location);
+      if (!location && attendance.requireLocation) {
+        return reply.code(400).send({
+          success: false,
+          message: "Location is required to check in",
+        });
+      }
+
+      const geofence = await AttendanceService.resolveGeofence(
+        tenantId,
+        workOrderId,
+        attendance.geofenceRadiusMeters,
+      );
+      if (location && geofence && attendance.blockOutsideGeofence) {
+        const stamp = AttendanceService.measureLocation(location, geofence);
+        if (!stamp.withinGeofence) {
+          return reply.code(403).send({
+            success: false,
+            message: `You are ${stamp.distanceMeters} m from the work order site. Check-in is only allowed within ${geofence.radiusMeters} m.`,
+            data: {
+              distanceMeters: stamp.distanceMeters,
+              radiusMeters: geofence.radiusMeters,
+            },
+          });
+        }
+      }
+
       // Create new session in database
-      const session = await CheckInSession.create({
+      const session = new CheckInSession({
         tenantId,
         taskId: body.taskId,
         workOrderId,
         personnelId: (Array.isArray(personnel) ? personnel[0] : personnel)?._id?.toString() || '',
         userId: userId,
-        checkInTime: new Date(),
+        checkInTime: resolveClientTime(body.checkInTime),
         notes: body.notes,
         isActive: true,
         clientSessionId: body.clientSessionId || generateClientSessionId(),
         lastHeartbeat: new Date(),
+        geofence,
       });
+      if (location) {
+        AttendanceService.stampSession(session, "checkIn", location);
+      }
+      await session.save();
 
       // Send real-time notification
       realtimeService.emitToTask(body.taskId, "notification", {
@@ -676,6 +803,13 @@ export async function timeEntryRoutes(fastify: FastifyInstance) {
         data: { taskId: body.taskId, personnelId: (Array.isArray(personnel) ? personnel[0] : personnel)?._id?.toString() || '' },
       });
 
+      await WebhookService.triggerWebhooks(
+        tenantId,
+        "time_entry.checked_in",
+        checkInWebhookData(session),
+        `${session._id}:checked_in`,
+      );
+
         return reply.code(201).send({ success: true, data: session });
       } catch (error) {
         console.error('CheckIn error:', error);
@@ -697,12 +831,20 @@ export async function timeEntryRoutes(fastify: FastifyInstance) {
       const body = request.body as {
         taskId: string;
         workOrderId?: string;
-        sessionId: string;
+        sessionId?: string;
+        clientSessionId?: string; // Check-ins queued offline have no server id yet
         date: string;
         hours: number;
         notes?: string;
+        location?: { latitude: number; longitude: number; accuracy?: number; capturedAt?: string };
       };
 
+      if (!body.sessionId && !body.clientSessionId) {
+        return reply
+          .code(400)
+          .send({ success: false, message: "sessionId is required" });
+      }
+
       // Validate task exists and belongs to tenant
       if (!(await TenantValidation.validateTaskAccess(body.taskId, tenantId))) {
         return reply
@@ -743,7 +885,9 @@ export async function timeEntryRoutes(fastify: FastifyInstance) {
 
       // Find and validate the active session
       const session = await CheckInSession.findOne({
-        _id: body.sessionId,
+        ...(body.sessionId
+          ? { _id: body.sessionId }
+          : { clientSessionId: body.clientSessionId }),
         tenantId,
         taskId: body.taskId,
         personnelId: (Array.isArray(personnel) ? personnel[0] : personnel)?._id?.toString() || '',
@@ -769,6 +913,17 @@ export async function timeEntryRoutes(fastify: FastifyInstance) {
             .send({ success: false, message: "Work order not found" });
       }
 
+      // Approved weeks are locked
+      try {
+        await TimesheetService.assertEditable(
+          tenantId,
+          (Array.isArray(personnel) ? personnel[0] : personnel)?._id?.toString() || '',
+          body.date,
+        );
+      } catch (error) {
+        return handleServiceError(error, reply, "Failed to check out", fastify.log);
+      }
+
       // Normalize hours/days
       const { hours, days } = normalizeHoursDays({
         hours: body.hours,
@@ -796,10 +951,14 @@ export async function timeEntryRoutes(fastify: FastifyInstance) {
       // Mark session as inactive (don't delete for audit trail)
       session.isActive = false;
       session.notes = body.notes || session.notes;
+      const checkOutLocation = parseLocation(body.location);
+      if (checkOutLocation) {
+        AttendanceService.stampSession(session, "checkOut", checkOutLocation);
+      }
       await session.save();
 
       // Update aggregates
-      await recalcAggregates(tenantId, body.taskId, body.workOrderId || session.workOrderId);
+      await TimesheetService.recalcAggregates(tenantId, body.taskId, body.workOrderId || session.workOrderId);
 
       // Send notifications
       try {
@@ -841,6 +1000,19 @@ export async function timeEntryRoutes(fastify: FastifyInstance) {
         data: { taskId: body.taskId, timeEntry: doc.toObject() },
       });
 
+      await WebhookService.triggerWebhooks(
+        tenantId,
+        "time_entry.checked_out",
+        checkInWebhookData(session, { time: new Date(), timeEntry: doc }),
+        `${session._id}:checked_out`,
+      );
+      await WebhookService.triggerWebhooks(
+        tenantId,
+        "time_entry.created",
+        timeEntryWebhookData(doc, userId, "checkout"),
+        `${doc._id}:created`,
+      );
+
       return reply.code(201).send({ success: true, data: doc });
     },
   );
@@ -855,7 +1027,10 @@ export async function timeEntryRoutes(fastify: FastifyInstance) {
       const user = (request as any).user;
       const tenantId = user?.tenantId as string;
       const userId = user?.id as string;
-      const body = request.body as { sessionId: string };
+      const body = request.body as {
+        sessionId: string;
+        location?: { latitude: number; longitude: number; accuracy?: number; capturedAt?: string };
+      };
 
       // Get current user's personnel record
       const personnel = await Personnel.findOne({
@@ -888,6 +1063,10 @@ export async function timeEntryRoutes(fastify: FastifyInstance) {
 
       // Update heartbeat
       session.lastHeartbeat = new Date();
+      const location = parseLocation(body.location);
+      if (location) {
+        AttendanceService.stampSession(session, "heartbeat", location);
+      }
       await session.save();
 
       return reply.send({ success: true, message: "Heartbeat updated" });
@@ -1020,6 +1199,13 @@ export async function timeEntryRoutes(fastify: FastifyInstance) {
       const checkOutTime = body.endTime ? new Date(body.endTime) : new Date();
       const hours = Math.max(0, (checkOutTime.getTime() - checkInTime.getTime()) / (1000 * 60 * 60));
 
+      // Approved weeks are locked
+      try {
+        await TimesheetService.assertEditable(tenantId, session.personnelId, checkInTime);
+      } catch (error) {
+        return handleServiceError(error, reply, "Failed to check out", fastify.log);
+      }
+
       // Get personnel for cost calculation
       const personnel = await Personnel.findById(session.personnelId).lean();
       const hourlyRate = (personnel as any)?.hourlyRate ?? 0;
@@ -1051,7 +1237,7 @@ export async function timeEntryRoutes(fastify: FastifyInstance) {
       await session.save();
 
       // Update aggregates
-      await recalcAggregates(tenantId, session.taskId, session.workOrderId);
+      await TimesheetService.recalcAggregates(tenantId, session.taskId, session.workOrderId);
 
       // Send real-time notification
       realtimeService.emitToTask(session.taskId, "notification", {
@@ -1060,6 +1246,19 @@ export async function timeEntryRoutes(fastify: FastifyInstance) {
         data: { taskId: session.taskId, timeEntry: timeEntry.toObject() },
       });
 
+      await WebhookService.triggerWebhooks(
+        tenantId,
+        "time_entry.checked_out",
+        checkInWebhookData(session, { time: checkOutTime, timeEntry }),
+        `${session._id}:checked_out`,
+      );
+      await WebhookService.triggerWebhooks(
+        tenantId,
+        "time_entry.created",
+        timeEntryWebhookData(timeEntry, user.id, "emergency_checkout"),
+        `${timeEntry._id}:created`,
+      );
+
       return reply.send({
         success: true,
         data: { timeEntry, session },
@@ -1068,6 +1267,126 @@ export async function timeEntryRoutes(fastify: FastifyInstance) {
     }
   );
 
+  // Geofence settings for check-in verification
+  fastify.get(
+    "/attendance-settings",
+    {
+      preHandler: createPermissionGuard({ permission: "settings.view" }),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const user = (request as any).user;
+        const settings = await AttendanceService.getSettings(user.tenantId);
+        return reply.send({ success: true, data: settings });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to fetch attendance settings",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  fastify.put(
+    "/attendance-settings",
+    {
+      preHandler: createPermissionGuard({ permission: "settings.edit" }),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const user = (request as any).user;
+        const data = attendanceSettingsSchema.parse(request.body);
+        const settings = await AttendanceService.updateSettings(
+          user.tenantId,
+          data,
+        );
+        return reply.send({
+          success: true,
+          data: settings,
+          message: "Attendance settings updated",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to update attendance settings",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // Sessions with a GPS fix outside the work order geofence
+  fastify.get(
+    "/sessions/flagged",
+    {
+      preHandler: createPermissionGuard({ permission: "timesheets.view" }),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const user = (request as any).user;
+        const filters = flaggedSessionsSchema.parse(request.query);
+        const { sessions, total } = await AttendanceService.listFlagged(
+          user.tenantId,
+          filters,
+        );
+        return reply.send({
+          success: true,
+          data: sessions,
+          pagination: {
+            total,
+            limit: filters.limit,
+            offset: filters.offset,
+            hasMore: filters.offset + filters.limit < total,
+          },
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to fetch flagged sessions",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // Supervisor decision on a flagged session
+  fastify.post(
+    "/sessions/:id/review",
+    {
+      preHandler: createPermissionGuard({ permission: "timesheets.approve" }),
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const user = (request as any).user;
+        const { id } = request.params as { id: string };
+        const { status, notes } = reviewSessionSchema.parse(request.body);
+        const session = await AttendanceService.reviewSession(
+          user.tenantId,
+          id,
+          user.id,
+          status,
+          notes,
+        );
+        return reply.send({
+          success: true,
+          data: session,
+          message: `Session ${status}`,
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to review session",
+          fastify.log,
+        );
+      }
+    },
+  );
+
   // Cleanup stale sessions (admin only)
   fastify.post(
     "/cleanup-stale-sessions",
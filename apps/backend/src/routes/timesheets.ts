@@ -0,0 +1,424 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { z } from "zod";
+import { authenticate } from "../middleware/auth";
+import { requirePermission } from "../middleware/permission-guard";
+import { HttpError } from "../middleware/http-error-middleware";
+import { AuthenticatedRequest } from "../types";
+import { handleServiceError } from "../utils/error-handler";
+import { Personnel } from "../models/Personnel";
+import { PermissionService } from "../services/permission-service";
+import { TimesheetService } from "../services/timesheet-service";
+import { REPORT_EXPORT_FORMATS } from "../services/report-export-service";
+
+// ----------------------------------------------------------------------
+
+const dateString = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD");
+
+const listTimesheetsSchema = z.object({
+  status: z.enum(["draft", "submitted", "approved", "rejected"]).optional(),
+  personnelId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().min(1).max(100).default(25),
+  offset: z.coerce.number().min(0).default(0),
+});
+
+const weekQuerySchema = z.object({
+  personnelId: z.string().optional(),
+  date: dateString,
+});
+
+const commentSchema = z.object({
+  comment: z.string().trim().max(2000).optional(),
+});
+
+const requiredCommentSchema = z.object({
+  comment: z.string().trim().min(1, "A comment is required").max(2000),
+});
+
+const payrollExportSchema = z.object({
+  from: dateString,
+  to: dateString,
+  format: z.enum(["csv", "xlsx"]).default("csv"),
+  overtimeMultiplier: z.coerce.number().min(1).max(5).default(1.5),
+  includeUnapproved: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+});
+
+/**
+ * Personnel record of the signed-in user, if any
+ */
+async function getOwnPersonnelId(userId: string, tenantId: string) {
+  const personnel = await Personnel.findOne({ userId, tenantId })
+    .select("_id")
+    .lean<any>();
+  return personnel?._id?.toString() as string | undefined;
+}
+
+/**
+ * Technicians may work on their own timesheets; anyone else needs the
+ * given permission
+ */
+async function assertTimesheetAccess(
+  userId: string,
+  tenantId: string,
+  personnelId: string,
+  permission: string,
+) {
+  if ((await getOwnPersonnelId(userId, tenantId)) === personnelId) return;
+
+  const { hasPermission } = await PermissionService.hasPermissionAsync(
+    userId,
+    permission,
+    tenantId,
+  );
+  if (!hasPermission) {
+    throw new HttpError(403, "Access denied to this timesheet");
+  }
+}
+
+// Weekly timesheet routes
+export async function timesheetRoutes(fastify: FastifyInstance) {
+  // Add authentication middleware to all routes
+  fastify.addHook("preHandler", authenticate);
+
+  // GET /api/v1/timesheets - List timesheets for review
+  fastify.get(
+    "/",
+    { preHandler: requirePermission("timesheets.view") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const filters = listTimesheetsSchema.parse(request.query);
+
+        const { timesheets, total } = await TimesheetService.list(
+          tenant._id.toString(),
+          filters,
+        );
+
+        return reply.send({
+          success: true,
+          data: timesheets,
+          pagination: {
+            total,
+            limit: filters.limit,
+            offset: filters.offset,
+            hasMore: filters.offset + filters.limit < total,
+          },
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to fetch timesheets",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // GET /api/v1/timesheets/week - Timesheet for the week holding a date, own by default
+  fastify.get("/week", async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const req = request as AuthenticatedRequest;
+      const { tenant, user } = req.context!;
+      const tenantId = tenant._id.toString();
+      const query = weekQuerySchema.parse(request.query);
+
+      const personnelId =
+        query.personnelId || (await getOwnPersonnelId(user.id, tenantId));
+      if (!personnelId) {
+        throw new HttpError(404, "Personnel record not found for current user");
+      }
+      await assertTimesheetAccess(
+        user.id,
+        tenantId,
+        personnelId,
+        "timesheets.view",
+      );
+
+      const timesheet = await TimesheetService.getOrCreate(
+        tenantId,
+        personnelId,
+        query.date,
+      );
+      const details = await TimesheetService.getDetails(
+        tenantId,
+        timesheet._id.toString(),
+      );
+
+      return reply.send({ success: true, data: details });
+    } catch (error) {
+      return handleServiceError(
+        error,
+        reply,
+        "Failed to fetch timesheet",
+        fastify.log,
+      );
+    }
+  });
+
+  // GET /api/v1/timesheets/payroll/export - Payroll hours and pay as CSV or XLSX
+  fastify.get(
+    "/payroll/export",
+    { preHandler: requirePermission("timesheets.approve") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const query = payrollExportSchema.parse(request.query);
+
+        const options = {
+          from: new Date(query.from),
+          to: new Date(query.to),
+          overtimeMultiplier: query.overtimeMultiplier,
+          includeUnapproved: query.includeUnapproved,
+        };
+        if (options.from > options.to) {
+          throw new HttpError(
+            400,
+            "The start date must be before the end date",
+          );
+        }
+
+        const rows = await TimesheetService.buildPayroll(
+          tenant._id.toString(),
+          options,
+        );
+        const payload =
+          query.format === "xlsx"
+            ? await TimesheetService.generatePayrollXLSX(rows, options)
+            : TimesheetService.generatePayrollCSV(rows);
+
+        const { contentType, extension } = REPORT_EXPORT_FORMATS[query.format];
+        reply.type(contentType);
+        reply.header(
+          "Content-Disposition",
+          `attachment; filename="payroll-${query.from}-${query.to}.${extension}"`,
+        );
+
+        return reply.send(payload);
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to export payroll",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // GET /api/v1/timesheets/:id - Timesheet with its time entries
+  fastify.get("/:id", async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const req = request as AuthenticatedRequest;
+      const { tenant, user } = req.context!;
+      const tenantId = tenant._id.toString();
+      const { id } = request.params as { id: string };
+
+      const timesheet = await TimesheetService.findById(tenantId, id);
+      await assertTimesheetAccess(
+        user.id,
+        tenantId,
+        timesheet.personnelId,
+        "timesheets.view",
+      );
+      const details = await TimesheetService.getDetails(tenantId, id);
+
+      return reply.send({ success: true, data: details });
+    } catch (error) {
+      return handleServiceError(
+        error,
+        reply,
+        "Failed to fetch timesheet",
+        fastify.log,
+      );
+    }
+  });
+
+  // POST /api/v1/timesheets/:id/submit - Send a week for approval
+  fastify.post(
+    "/:id/submit",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const tenantId = tenant._id.toString();
+        const { id } = request.params as { id: string };
+        const { comment } = commentSchema.parse(request.body ?? {});
+
+        const existing = await TimesheetService.findById(tenantId, id);
+        await assertTimesheetAccess(
+          user.id,
+          tenantId,
+          existing.personnelId,
+          "timesheets.approve",
+        );
+        const timesheet = await TimesheetService.submit(
+          tenantId,
+          id,
+          user.id,
+          comment,
+        );
+
+        return reply.send({
+          success: true,
+          data: timesheet,
+          message: "Timesheet submitted",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to submit timesheet",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // POST /api/v1/timesheets/:id/approve - Approve and lock a submitted week
+  fastify.post(
+    "/:id/approve",
+    { preHandler: requirePermission("timesheets.approve") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const { id } = request.params as { id: string };
+        const { comment } = commentSchema.parse(request.body ?? {});
+
+        const timesheet = await TimesheetService.approve(
+          tenant._id.toString(),
+          id,
+          user.id,
+          comment,
+        );
+
+        return reply.send({
+          success: true,
+          data: timesheet,
+          message: "Timesheet approved",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to approve timesheet",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // POST /api/v1/timesheets/:id/reject - Send a submitted week back with a reason
+  fastify.post(
+    "/:id/reject",
+    { preHandler: requirePermission("timesheets.approve") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const { id } = request.params as { id: string };
+        const { comment } = requiredCommentSchema.parse(request.body ?? {});
+
+        const timesheet = await TimesheetService.reject(
+          tenant._id.toString(),
+          id,
+          user.id,
+          comment,
+        );
+
+        return reply.send({
+          success: true,
+          data: timesheet,
+          message: "Timesheet rejected",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to reject timesheet",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // POST /api/v1/timesheets/:id/reopen - Unlock an approved week for corrections
+  fastify.post(
+    "/:id/reopen",
+    { preHandler: requirePermission("timesheets.approve") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const { id } = request.params as { id: string };
+        const { comment } = commentSchema.parse(request.body ?? {});
+
+        const timesheet = await TimesheetService.reopen(
+          tenant._id.toString(),
+          id,
+          user.id,
+          comment,
+        );
+
+        return reply.send({
+          success: true,
+          data: timesheet,
+          message: "Timesheet reopened",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to reopen timesheet",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // POST /api/v1/timesheets/:id/comments - Add a comment to the history
+  fastify.post(
+    "/:id/comments",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const tenantId = tenant._id.toString();
+        const { id } = request.params as { id: string };
+        const { comment } = requiredCommentSchema.parse(request.body ?? {});
+
+        const existing = await TimesheetService.findById(tenantId, id);
+        await assertTimesheetAccess(
+          user.id,
+          tenantId,
+          existing.personnelId,
+          "timesheets.view",
+        );
+        const timesheet = await TimesheetService.addComment(
+          tenantId,
+          id,
+          user.id,
+          comment,
+        );
+
+        return reply.code(201).send({ success: true, data: timesheet });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to add comment",
+          fastify.log,
+        );
+      }
+    },
+  );
+}
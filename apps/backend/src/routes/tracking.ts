@@ -0,0 +1,158 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { z } from "zod";
+import { authenticate } from "../middleware/auth";
+import { requirePermission } from "../middleware/permission-guard";
+import { AuthenticatedRequest } from "../types";
+import { handleServiceError } from "../utils/error-handler";
+import { LocationTrackingService } from "../services/location-tracking-service";
+
+// ----------------------------------------------------------------------
+
+const trailQuerySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+});
+
+const trackingSettingsSchema = z.object({
+  enabled: z.boolean().optional(),
+  retentionDays: z.number().int().min(1).max(365).optional(),
+});
+
+// Live technician tracking routes
+export async function trackingRoutes(fastify: FastifyInstance) {
+  // Add authentication middleware to all routes
+  fastify.addHook("preHandler", authenticate);
+
+  // GET /api/v1/tracking/live - Last known position of each technician
+  fastify.get(
+    "/live",
+    { preHandler: requirePermission("workOrders.view") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+
+        const technicians = await LocationTrackingService.getLiveTechnicians(
+          tenant._id.toString(),
+        );
+
+        return reply.send({ success: true, data: technicians });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to fetch live locations",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // GET /api/v1/tracking/trail/:personnelId - Breadcrumb trail for a day
+  fastify.get(
+    "/trail/:personnelId",
+    { preHandler: requirePermission("workOrders.view") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { personnelId } = request.params as { personnelId: string };
+        const { date } = trailQuerySchema.parse(request.query);
+
+        const trail = await LocationTrackingService.getTrail(
+          tenant._id.toString(),
+          personnelId,
+          date,
+        );
+
+        return reply.send({ success: true, data: trail });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to fetch location trail",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // GET /api/v1/tracking/settings - Whether tracking is on and how long points are kept
+  fastify.get(
+    "/settings",
+    { preHandler: requirePermission("settings.view") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+
+        const settings = await LocationTrackingService.getSettings(
+          tenant._id.toString(),
+        );
+
+        return reply.send({ success: true, data: settings });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to fetch tracking settings",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // PUT /api/v1/tracking/settings - Change tracking and retention
+  fastify.put(
+    "/settings",
+    { preHandler: requirePermission("settings.edit") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const data = trackingSettingsSchema.parse(request.body);
+
+        const settings = await LocationTrackingService.updateSettings(
+          tenant._id.toString(),
+          data,
+        );
+
+        return reply.send({
+          success: true,
+          data: settings,
+          message: "Tracking settings updated",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to update tracking settings",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // GET /api/v1/tracking/status - Lets the field app know whether to stream positions
+  fastify.get(
+    "/status",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+
+        const { enabled } = await LocationTrackingService.getSettings(
+          tenant._id.toString(),
+        );
+
+        return reply.send({ success: true, data: { enabled } });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to fetch tracking status",
+          fastify.log,
+        );
+      }
+    },
+  );
+}
@@ -1,6 +1,6 @@
 import type { FastifyInstance } from "fastify";
 import { authenticate } from "../middleware/auth";
-import { User } from "../models";
+import { Task, User } from "../models";
 import EnhancedSubscriptionMiddleware from "../middleware/enhanced-subscription-middleware";
 import { EnvSubscriptionService } from "../services/env-subscription-service";
 import { FileTrackingService } from "../services/file-tracking-service";
@@ -25,6 +25,7 @@ export async function uploadsRoutes(fastify: FastifyInstance) {
       let workOrderId = "";
       let reportId = "";
       let logoType = "";
+      let attachToTask = false;
 
       // Process all multipart parts
       for await (const part of parts) {
@@ -54,6 +55,9 @@ export async function uploadsRoutes(fastify: FastifyInstance) {
             reportId = value.trim();
           } else if (part.fieldname === "logoType") {
             logoType = value.trim();
+          } else if (part.fieldname === "attachToTask") {
+            // Photos queued offline are attached in the same request
+            attachToTask = value.trim() === "true";
           }
         }
       }
@@ -281,6 +285,13 @@ export async function uploadsRoutes(fastify: FastifyInstance) {
         },
         "uploads: completed successfully with storage tracking",
       );
+      if (attachToTask && scope === "task" && taskId && saved.length > 0) {
+        await Task.updateOne(
+          { _id: taskId, tenantId },
+          { $addToSet: { attachments: { $each: saved.map((file) => file.url) } } },
+        );
+      }
+
       return reply.send({ success: true, data: saved });
     } catch (err: any) {
       if (err.code === "FST_REQ_FILE_TOO_LARGE") {
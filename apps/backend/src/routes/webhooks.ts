@@ -1,15 +1,89 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 import crypto from "crypto";
+import { z } from "zod";
 import { authenticate } from "../middleware/auth";
 import { requirePermission } from "../middleware/permission-guard";
-import { Webhook } from "../models/Webhook";
+import { Webhook, WEBHOOK_FILTER_OPERATORS } from "../models/Webhook";
 import { WebhookLog } from "../models/WebhookLog";
+import {
+  WebhookDelivery,
+  WEBHOOK_DELIVERY_STATUSES,
+} from "../models/WebhookDelivery";
 import { WebhookService, WEBHOOK_TOPICS } from "../services/webhook-service";
+import {
+  WEBHOOK_EXPANSIONS,
+  WEBHOOK_FILTER_FIELDS,
+} from "../services/webhook-filters";
 import { AuthenticatedRequest } from "../types";
 
 // ----------------------------------------------------------------------
 
+const filterValue = z.union([z.string(), z.number(), z.boolean()]);
+
+const filterSchema = z
+  .object({
+    field: z.string().trim().min(1, "Filter field is required").max(200),
+    operator: z.enum(WEBHOOK_FILTER_OPERATORS),
+    value: z.union([filterValue, z.array(filterValue)]).optional(),
+  })
+  .refine(
+    (filter) => {
+      if (filter.operator === "exists") {
+        return filter.value === undefined || typeof filter.value === "boolean";
+      }
+      if (filter.operator === "in" || filter.operator === "nin") {
+        return Array.isArray(filter.value) && filter.value.length > 0;
+      }
+      return filter.value !== undefined && !Array.isArray(filter.value);
+    },
+    { message: "Filter value does not match its operator" },
+  );
+
+const deliveryOptionsSchema = z.object({
+  filters: z.array(filterSchema).max(20).optional(),
+  payloadOptions: z
+    .object({
+      fields: z.array(z.string().trim().min(1)).max(50).default([]),
+      expand: z.array(z.enum(WEBHOOK_EXPANSIONS)).default([]),
+    })
+    .optional(),
+});
+
+const replayRangeSchema = z
+  .object({
+    from: z.coerce.date(),
+    to: z.coerce.date(),
+    topics: z.array(z.string()).optional(),
+    undeliveredOnly: z.boolean().optional(),
+  })
+  .refine((value) => value.from <= value.to, {
+    message: "'from' must be before 'to'",
+  });
+
+// ----------------------------------------------------------------------
+
 export async function webhookRoutes(fastify: FastifyInstance) {
+  // Attempt due webhook deliveries and retries (for cron job)
+  fastify.post(
+    "/process",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const result = await WebhookService.processQueue();
+
+        reply.send({
+          success: true,
+          ...result,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error: any) {
+        reply.status(500).send({
+          success: false,
+          error: error.message,
+        });
+      }
+    },
+  );
+
   // Get all webhooks for the current tenant
   fastify.get(
     "/",
@@ -94,6 +168,8 @@ export async function webhookRoutes(fastify: FastifyInstance) {
           maxRetries?: number;
           timeoutMs?: number;
           headers?: Record<string, string>;
+          filters?: unknown;
+          payloadOptions?: unknown;
         };
 
         // Validate topics
@@ -110,6 +186,18 @@ export async function webhookRoutes(fastify: FastifyInstance) {
           return;
         }
 
+        const options = deliveryOptionsSchema.safeParse({
+          filters: webhookData.filters,
+          payloadOptions: webhookData.payloadOptions,
+        });
+        if (!options.success) {
+          reply.status(400).send({
+            success: false,
+            error: options.error.issues[0]?.message || "Invalid filters",
+          });
+          return;
+        }
+
         // Generate a secret key for webhook security
         const secretKey = crypto.randomBytes(32).toString("hex");
 
@@ -124,6 +212,11 @@ export async function webhookRoutes(fastify: FastifyInstance) {
           maxRetries: webhookData.maxRetries ?? 3,
           timeoutMs: webhookData.timeoutMs ?? 10000,
           headers: webhookData.headers || {},
+          filters: options.data.filters || [],
+          payloadOptions: options.data.payloadOptions || {
+            fields: [],
+            expand: [],
+          },
           failureCount: 0,
         });
 
@@ -168,6 +261,8 @@ export async function webhookRoutes(fastify: FastifyInstance) {
           maxRetries?: number;
           timeoutMs?: number;
           headers?: Record<string, string>;
+          filters?: unknown;
+          payloadOptions?: unknown;
         };
 
         // Validate topics if provided
@@ -186,9 +281,33 @@ export async function webhookRoutes(fastify: FastifyInstance) {
           }
         }
 
+        const options = deliveryOptionsSchema.safeParse({
+          filters: updateData.filters,
+          payloadOptions: updateData.payloadOptions,
+        });
+        if (!options.success) {
+          reply.status(400).send({
+            success: false,
+            error: options.error.issues[0]?.message || "Invalid filters",
+          });
+          return;
+        }
+
         const webhook = await Webhook.findOneAndUpdate(
           { _id: id, tenantId: tenant._id },
-          { $set: updateData },
+          {
+            $set: {
+              ...updateData,
+              ...(options.data.filters
+                ? { filters: options.data.filters }
+                : {}),
+              ...(options.data.payloadOptions
+                ? { payloadOptions: options.data.payloadOptions }
+                : {}),
+              // Re-enabling starts a fresh failure streak
+              ...(updateData.status === true ? { failureCount: 0 } : {}),
+            },
+          },
           { new: true },
         ).select("-secretKey");
 
@@ -238,6 +357,8 @@ export async function webhookRoutes(fastify: FastifyInstance) {
           return;
         }
 
+        await WebhookDelivery.deleteMany({ webhookId: id });
+
         reply.send({
           success: true,
           message: "Webhook deleted successfully",
@@ -353,6 +474,247 @@ export async function webhookRoutes(fastify: FastifyInstance) {
     },
   );
 
+  // Get queued, delivered and dead-lettered deliveries
+  fastify.get(
+    "/:id/deliveries",
+    {
+      preHandler: [authenticate, requirePermission("webhooks.read")],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { id } = request.params as { id: string };
+        const {
+          page = 1,
+          limit = 50,
+          status,
+        } = request.query as {
+          page?: number;
+          limit?: number;
+          status?: string;
+        };
+
+        if (status && !WEBHOOK_DELIVERY_STATUSES.includes(status as any)) {
+          reply.status(400).send({
+            success: false,
+            error: `Invalid status: ${status}`,
+          });
+          return;
+        }
+
+        const webhook = await Webhook.findOne({
+          _id: id,
+          tenantId: tenant._id,
+        });
+        if (!webhook) {
+          reply.status(404).send({
+            success: false,
+            error: "Webhook not found",
+          });
+          return;
+        }
+
+        const filter = { webhookId: id, ...(status ? { status } : {}) };
+        const skip = (page - 1) * limit;
+
+        const [deliveries, total] = await Promise.all([
+          WebhookDelivery.find(filter)
+            .sort({ createdAt: -1 })
+            .skip(skip)
+            .limit(limit)
+            .lean(),
+          WebhookDelivery.countDocuments(filter),
+        ]);
+
+        reply.send({
+          success: true,
+          data: {
+            deliveries,
+            pagination: {
+              page,
+              limit,
+              total,
+              pages: Math.ceil(total / limit),
+            },
+          },
+        });
+      } catch (error: any) {
+        reply.status(500).send({
+          success: false,
+          error: error.message,
+        });
+      }
+    },
+  );
+
+  // Replay a single logged delivery attempt
+  fastify.post(
+    "/:id/logs/:logId/replay",
+    {
+      preHandler: [authenticate, requirePermission("webhooks.write")],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { id, logId } = request.params as { id: string; logId: string };
+
+        const webhook = await Webhook.findOne({
+          _id: id,
+          tenantId: tenant._id,
+        });
+        if (!webhook) {
+          reply.status(404).send({
+            success: false,
+            error: "Webhook not found",
+          });
+          return;
+        }
+        if (!webhook.status) {
+          reply.status(400).send({
+            success: false,
+            error: "Enable the webhook before replaying events",
+          });
+          return;
+        }
+
+        const delivery = await WebhookService.replayLog(webhook, logId);
+        if (!delivery) {
+          reply.status(404).send({
+            success: false,
+            error: "Log entry not found",
+          });
+          return;
+        }
+
+        reply.send({
+          success: true,
+          data: delivery,
+        });
+      } catch (error: any) {
+        reply.status(500).send({
+          success: false,
+          error: error.message,
+        });
+      }
+    },
+  );
+
+  // Replay a single delivery, e.g. from the dead-letter list
+  fastify.post(
+    "/:id/deliveries/:deliveryId/replay",
+    {
+      preHandler: [authenticate, requirePermission("webhooks.write")],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { id, deliveryId } = request.params as {
+          id: string;
+          deliveryId: string;
+        };
+
+        const webhook = await Webhook.findOne({
+          _id: id,
+          tenantId: tenant._id,
+        });
+        if (!webhook) {
+          reply.status(404).send({
+            success: false,
+            error: "Webhook not found",
+          });
+          return;
+        }
+        if (!webhook.status) {
+          reply.status(400).send({
+            success: false,
+            error: "Enable the webhook before replaying events",
+          });
+          return;
+        }
+
+        const delivery = await WebhookService.replayDelivery(
+          webhook,
+          deliveryId,
+        );
+        if (!delivery) {
+          reply.status(404).send({
+            success: false,
+            error: "Delivery not found",
+          });
+          return;
+        }
+
+        reply.send({
+          success: true,
+          data: delivery,
+        });
+      } catch (error: any) {
+        reply.status(500).send({
+          success: false,
+          error: error.message,
+        });
+      }
+    },
+  );
+
+  // Queue every event in a time range for redelivery
+  fastify.post(
+    "/:id/replay",
+    {
+      preHandler: [authenticate, requirePermission("webhooks.write")],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { id } = request.params as { id: string };
+
+        const parsed = replayRangeSchema.safeParse(request.body);
+        if (!parsed.success) {
+          reply.status(400).send({
+            success: false,
+            error: parsed.error.issues[0]?.message || "Invalid replay range",
+          });
+          return;
+        }
+
+        const webhook = await Webhook.findOne({
+          _id: id,
+          tenantId: tenant._id,
+        });
+        if (!webhook) {
+          reply.status(404).send({
+            success: false,
+            error: "Webhook not found",
+          });
+          return;
+        }
+        if (!webhook.status) {
+          reply.status(400).send({
+            success: false,
+            error: "Enable the webhook before replaying events",
+          });
+          return;
+        }
+
+        const result = await WebhookService.replayRange(webhook, parsed.data);
+
+        reply.send({
+          success: true,
+          data: result,
+        });
+      } catch (error: any) {
+        reply.status(500).send({
+          success: false,
+          error: error.message,
+        });
+      }
+    },
+  );
+
   // Get available webhook topics
   fastify.get(
     "/topics",
@@ -367,6 +729,24 @@ export async function webhookRoutes(fastify: FastifyInstance) {
     },
   );
 
+  // Get what the filter builder and payload options can offer
+  fastify.get(
+    "/filter-options",
+    {
+      preHandler: [authenticate, requirePermission("webhooks.read")],
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      reply.send({
+        success: true,
+        data: {
+          operators: WEBHOOK_FILTER_OPERATORS,
+          expansions: WEBHOOK_EXPANSIONS,
+          fields: WEBHOOK_FILTER_FIELDS,
+        },
+      });
+    },
+  );
+
   // Regenerate webhook secret
   fastify.post(
     "/:id/regenerate-secret",
@@ -0,0 +1,182 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { z } from "zod";
+import { authenticate } from "../middleware/auth";
+import { requirePermission } from "../middleware/permission-guard";
+import { AuthenticatedRequest } from "../types";
+import { handleServiceError } from "../utils/error-handler";
+import {
+  WORK_ORDER_STATUS_CATEGORIES,
+  WORK_ORDER_TRANSITION_REQUIREMENTS,
+} from "../models/WorkOrderStatus";
+import { WorkOrderWorkflowService } from "../services/work-order-workflow-service";
+
+// ----------------------------------------------------------------------
+
+const transitionSchema = z.object({
+  to: z.string().min(1),
+  roles: z.array(z.string().min(1)).default([]),
+  requirements: z.array(z.enum(WORK_ORDER_TRANSITION_REQUIREMENTS)).default([]),
+});
+
+const statusFields = {
+  name: z.string().trim().min(1, "Name is required").max(60),
+  description: z.string().trim().max(500).optional(),
+  color: z
+    .string()
+    .regex(/^#[0-9A-F]{6}$/i, "Color must be a valid hex color code")
+    .optional(),
+  category: z.enum(WORK_ORDER_STATUS_CATEGORIES),
+  order: z.number().int().min(0).optional(),
+  isInitial: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+  transitions: z.array(transitionSchema).optional(),
+};
+
+const createStatusSchema = z.object({
+  ...statusFields,
+  key: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(
+      /^[a-z0-9][a-z0-9_-]*$/,
+      "Key may only contain lowercase letters, digits, dashes and underscores",
+    )
+    .max(40),
+});
+
+const updateStatusSchema = z.object(statusFields).partial();
+
+const listStatusesSchema = z.object({
+  includeInactive: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+});
+
+// Tenant-defined work order status workflow
+export async function workOrderStatusRoutes(fastify: FastifyInstance) {
+  // Add authentication middleware to all routes
+  fastify.addHook("preHandler", authenticate);
+
+  // GET /api/v1/work-order-statuses - Statuses and their transitions
+  fastify.get("/", async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const req = request as AuthenticatedRequest;
+      const { tenant } = req.context!;
+      const { includeInactive } = listStatusesSchema.parse(request.query);
+
+      const statuses = await WorkOrderWorkflowService.listStatuses(
+        tenant._id.toString(),
+        { includeInactive },
+      );
+
+      return reply.send({
+        success: true,
+        data: statuses,
+        meta: {
+          categories: WORK_ORDER_STATUS_CATEGORIES,
+          requirements: WORK_ORDER_TRANSITION_REQUIREMENTS,
+        },
+      });
+    } catch (error) {
+      return handleServiceError(
+        error,
+        reply,
+        "Failed to fetch work order statuses",
+        fastify.log,
+      );
+    }
+  });
+
+  // POST /api/v1/work-order-statuses - Add a status
+  fastify.post(
+    "/",
+    { preHandler: requirePermission("settings.edit") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const data = createStatusSchema.parse(request.body);
+
+        const status = await WorkOrderWorkflowService.createStatus(
+          tenant._id.toString(),
+          data,
+        );
+
+        return reply.code(201).send({
+          success: true,
+          data: status,
+          message: "Work order status created",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to create work order status",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // PUT /api/v1/work-order-statuses/:id - Change a status and its transitions
+  fastify.put(
+    "/:id",
+    { preHandler: requirePermission("settings.edit") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { id } = request.params as { id: string };
+        const data = updateStatusSchema.parse(request.body);
+
+        const status = await WorkOrderWorkflowService.updateStatus(
+          tenant._id.toString(),
+          id,
+          data,
+        );
+
+        return reply.send({
+          success: true,
+          data: status,
+          message: "Work order status updated",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to update work order status",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // DELETE /api/v1/work-order-statuses/:id - Remove an unused status
+  fastify.delete(
+    "/:id",
+    { preHandler: requirePermission("settings.edit") },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { id } = request.params as { id: string };
+
+        await WorkOrderWorkflowService.deleteStatus(tenant._id.toString(), id);
+
+        return reply.send({
+          success: true,
+          message: "Work order status deleted",
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to delete work order status",
+          fastify.log,
+        );
+      }
+    },
+  );
+}
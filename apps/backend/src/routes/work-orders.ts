@@ -1,4 +1,5 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { z } from "zod";
 import { authenticate } from "../middleware/auth";
 import { requirePermission } from "../middleware/permission-guard";
 import {
@@ -6,7 +7,6 @@ import {
   requireWorkOrderEdit,
 } from "../middleware/resource-permission-guard";
 import { WorkOrder, Personnel } from "../models";
-import { getNextSequence } from "../models/counter";
 import { AuthenticatedRequest } from "../types";
 import mongoose from "mongoose";
 import { WorkOrderProgressService } from "../services/work-order-progress-service";
@@ -14,10 +14,35 @@ import { AssignmentPermissionService } from "../services/assignment-permission-s
 import { EntityCleanupService } from "../services/entity-cleanup-service";
 import { WorkOrderAssignmentService } from "../services/work-order-assignment-service";
 import { WorkOrderTimelineService } from "../services/work-order-timeline-service";
+import { WorkOrderWorkflowService } from "../services/work-order-workflow-service";
+import { WorkOrderService } from "../services/work-order-service";
+import { SlaService } from "../services/sla-service";
 import { WebhookService } from "../services/webhook-service";
+import { workOrderUpdatedWebhookData } from "../services/webhook-payloads";
 import { WorkOrderSmsService } from "../services/work-order-sms-service";
+import { InventoryService } from "../services/inventory-service";
+import { AssetService } from "../services/asset-service";
 import EnhancedSubscriptionMiddleware from "../middleware/enhanced-subscription-middleware";
 import { FileTrackingService } from "../services/file-tracking-service";
+import { handleServiceError } from "../utils/error-handler";
+import { HttpError } from "../middleware/http-error-middleware";
+
+const suggestionQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).optional(),
+  includeAssigned: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+});
+
+const acceptSuggestionSchema = z.object({
+  personnelIds: z.array(z.string().min(1)).min(1, "Select at least one person"),
+});
+
+const transitionSchema = z.object({
+  to: z.string().min(1, "Target status is required"),
+  notes: z.string().trim().max(2000).optional(),
+});
 
 export async function workOrderRoutes(fastify: FastifyInstance) {
   // Apply authentication middleware to all routes
@@ -35,6 +60,7 @@ export async function workOrderRoutes(fastify: FastifyInstance) {
           page = 1,
           limit = 10,
           status,
+          workflowStatus,
           priority,
           personnelId,
           clientId,
@@ -43,6 +69,7 @@ export async function workOrderRoutes(fastify: FastifyInstance) {
           page?: number;
           limit?: number;
           status?: string;
+          workflowStatus?: string;
           priority?: string;
           personnelId?: string;
           clientId?: string;
@@ -54,6 +81,7 @@ export async function workOrderRoutes(fastify: FastifyInstance) {
           tenantId: tenant._id.toString()
         };
         if (status) filter.status = status;
+        if (workflowStatus) filter.workflowStatus = workflowStatus;
         if (priority) filter.priority = priority;
         if (personnelId) filter.personnelIds = personnelId;
         if (clientId) filter.clientId = clientId;
@@ -411,46 +439,6 @@ export async function workOrderRoutes(fastify: FastifyInstance) {
         const { tenant, user } = req.context!;
         const body = request.body as any;
 
-        // Validate personnelIds if provided
-        if (body.personnelIds && Array.isArray(body.personnelIds)) {
-          // Validate that all personnelIds are valid ObjectIds
-          for (const personnelId of body.personnelIds) {
-            if (!mongoose.Types.ObjectId.isValid(personnelId)) {
-              return reply.code(400).send({
-                success: false,
-                error: "Invalid personnel ID format",
-              });
-            }
-          }
-
-          // Validate that all personnel exist, belong to tenant, and are eligible (active)
-          const personnelDocs = await Personnel.find({
-            _id: { $in: body.personnelIds },
-            tenantId: tenant._id,
-          }).select("_id isActive status");
-
-          if (personnelDocs.length !== body.personnelIds.length) {
-            return reply.code(400).send({
-              success: false,
-              error:
-                "One or more personnel not found or don't belong to this tenant",
-            });
-          }
-
-          const ineligible = personnelDocs
-            .filter((p: any) => !p.isActive || p.status !== "active")
-            .map((p: any) => p._id.toString());
-
-          if (ineligible.length > 0) {
-            return reply.code(400).send({
-              success: false,
-              error:
-                "One or more personnel are not eligible for assignment (inactive or pending)",
-              data: { ineligible },
-            });
-          }
-        }
-
         // Handle attachments for creation
         let processedCreateBody = { ...body };
         if (body.attachments && Array.isArray(body.attachments)) {
@@ -474,155 +462,26 @@ export async function workOrderRoutes(fastify: FastifyInstance) {
           });
         }
 
-        // Generate per-tenant sequential work order number using atomic counter
-        const seq = await getNextSequence(tenant._id.toString(), "workOrder");
-        const workOrderNumber = `WO-${String(seq).padStart(6, "0")}`;
-
-        const workOrder = new WorkOrder({
-          ...processedCreateBody,
-          tenantId: tenant._id,
-          workOrderNumber,
-          createdBy: user.id,
-          history: [
-            {
-              status: "created",
-              timestamp: new Date(),
-              userId: user.id,
-              notes: "Work order created",
-            },
-          ],
-        });
-
-        await workOrder.save();
-
-        // Track work order creation in usage statistics
-        await EnhancedSubscriptionMiddleware.trackCreation(
+        const workOrder = await WorkOrderService.create(
           tenant._id.toString(),
-          'workOrder',
-          1,
-          {
-            entityId: workOrder._id.toString(),
-            workOrderNumber: workOrder.workOrderNumber,
-            title: workOrder.title,
-            clientId: workOrder.clientId
-          },
-          (request as any).id
-        );
-
-        // Add timeline entry for work order creation
-        try {
-          await WorkOrderTimelineService.logWorkOrderCreated(
-            workOrder._id.toString(),
-            workOrder.title,
-            user.id,
-            tenant._id.toString(),
-          );
-        } catch (error) {
-          console.error(
-            "Error adding timeline entry for work order creation:",
-            error,
-          );
-        }
-
-        // Recompute aggregates after creation
-        await WorkOrderProgressService.recomputeForWorkOrder(
-          tenant._id.toString(),
-          workOrder._id.toString(),
+          user.id,
+          processedCreateBody,
+          { requestId: (request as any).id },
         );
 
-        // Propagate personnel assignments to existing tasks linked to this work order
-        if (
-          body.personnelIds &&
-          Array.isArray(body.personnelIds) &&
-          body.personnelIds.length > 0
-        ) {
-          try {
-            await WorkOrderAssignmentService.propagateWorkOrderAssignments(
-              workOrder._id.toString(),
-              body.personnelIds,
-              [], // no previous personnel for new work order
-              tenant._id.toString(),
-              user.id,
-            );
-
-            // Log assignment in timeline
-            const assignedPersonnel = await Personnel.find({
-              _id: { $in: body.personnelIds },
-              tenantId: tenant._id,
-            }).populate("user", "firstName lastName");
-
-            const assigneeNames = assignedPersonnel.map((p) =>
-              p.user
-                ? `${p.user.firstName} ${p.user.lastName}`.trim()
-                : p.employeeId,
-            );
-
-            await WorkOrderTimelineService.logWorkOrderAssigned(
-              workOrder._id.toString(),
-              assigneeNames,
-              user.id,
-              tenant._id.toString(),
-            );
-          } catch (error) {
-            console.error("Error propagating work order assignments:", error);
-            // Don't fail work order creation if assignment propagation fails
-          }
-        }
-
-        // Process SMS reminders if configured
-        if (body.smsReminders && body.smsReminders.enabled) {
-          try {
-            const smsResult = await WorkOrderSmsService.processSmsReminders(
-              workOrder._id.toString(),
-              body.smsReminders,
-              tenant._id.toString()
-            );
-
-            if (!smsResult.success) {
-              console.warn('SMS reminders failed for work order:', smsResult.message);
-              // Don't fail work order creation if SMS reminders fail
-            }
-          } catch (error) {
-            console.error('Error processing SMS reminders for work order:', error);
-            // Don't fail work order creation if SMS reminder processing fails
-          }
-        }
-
-        // Trigger webhook for work order creation
-        try {
-          await WebhookService.triggerWebhooks(
-            tenant._id.toString(),
-            "work_order.created",
-            {
-              workOrder: {
-                _id: workOrder._id,
-                workOrderNumber: workOrder.workOrderNumber,
-                title: workOrder.title,
-                description: workOrder.description,
-                status: workOrder.status,
-                priority: workOrder.priority,
-                clientId: workOrder.clientId,
-                personnelIds: workOrder.personnelIds,
-                createdAt: workOrder.createdAt,
-                createdBy: workOrder.createdBy,
-              },
-            },
-            workOrder._id.toString(),
-          );
-        } catch (error) {
-          console.error(
-            "Error triggering work order creation webhooks:",
-            error,
-          );
-          // Don't fail work order creation if webhook fails
-        }
-
         return reply.code(201).send({
           success: true,
           message: "Work order created successfully",
           data: workOrder,
         });
       } catch (error) {
+        if (error instanceof HttpError) {
+          return reply.code(error.statusCode).send({
+            success: false,
+            error: error.message,
+            ...(error.details && { data: error.details }),
+          });
+        }
         console.error("Error creating work order:", error);
         return reply.code(500).send({
           success: false,
@@ -698,6 +557,22 @@ export async function workOrderRoutes(fastify: FastifyInstance) {
           });
         }
 
+        // Validate linked assets against the (possibly new) client
+        if (Array.isArray(body.assetIds) && body.assetIds.length > 0) {
+          const invalidAssets = await AssetService.findInvalidAssetIds(
+            tenant._id.toString(),
+            body.assetIds,
+            body.clientId || currentWorkOrder.clientId,
+          );
+          if (invalidAssets.length > 0) {
+            return reply.code(400).send({
+              success: false,
+              error:
+                "One or more assets not found or don't belong to this client",
+            });
+          }
+        }
+
         // Handle attachments conversion if provided
         let processedBody = { ...body };
         if (body.attachments !== undefined && Array.isArray(body.attachments)) {
@@ -761,6 +636,29 @@ export async function workOrderRoutes(fastify: FastifyInstance) {
           }
         }
 
+        // Status changes go through the tenant workflow
+        delete processedBody.status;
+        delete processedBody.workflowStatus;
+        delete processedBody.statusNotes;
+        delete processedBody.history;
+        delete processedBody.sla;
+        try {
+          await WorkOrderWorkflowService.applyRequestedStatus(
+            tenant._id.toString(),
+            currentWorkOrder,
+            { status: body.status, workflowStatus: body.workflowStatus },
+            user.id,
+            body.statusNotes,
+          );
+        } catch (error) {
+          return handleServiceError(
+            error,
+            reply,
+            "Failed to change work order status",
+            fastify.log,
+          );
+        }
+
         const workOrder = await WorkOrder.findOneAndUpdate(
           {
             _id: id,
@@ -780,19 +678,8 @@ export async function workOrderRoutes(fastify: FastifyInstance) {
           });
         }
 
-        // Log changes to timeline
+        // Log changes to timeline (status changes are logged by the workflow)
         try {
-          // Track status changes
-          if (body.status && currentWorkOrder.status !== body.status) {
-            await WorkOrderTimelineService.logWorkOrderStatusChanged(
-              workOrder._id.toString(),
-              currentWorkOrder.status,
-              body.status,
-              user.id,
-              tenant._id.toString(),
-            );
-          }
-
           // Track priority changes
           if (body.priority && currentWorkOrder.priority !== body.priority) {
             await WorkOrderTimelineService.logWorkOrderPriorityChanged(
@@ -827,6 +714,24 @@ export async function workOrderRoutes(fastify: FastifyInstance) {
           workOrder._id.toString(),
         );
 
+        // Keep stock reservations in line with planned materials
+        if (body.materials !== undefined) {
+          try {
+            await InventoryService.syncWorkOrderReservations(
+              tenant._id.toString(),
+              workOrder._id.toString(),
+            );
+          } catch (error) {
+            console.error("Error updating stock reservations:", error);
+          }
+        }
+
+        // Priority, client or contract changes can move the SLA targets
+        await SlaService.syncWorkOrder(
+          tenant._id.toString(),
+          workOrder._id.toString(),
+        );
+
         // Handle assignment permissions if personnelIds were updated
         if (body.personnelIds !== undefined) {
           await AssignmentPermissionService.handleWorkOrderAssignment(
@@ -909,6 +814,22 @@ export async function workOrderRoutes(fastify: FastifyInstance) {
           }
         }
 
+        try {
+          await WebhookService.triggerWebhooks(
+            tenant._id.toString(),
+            "work_order.updated",
+            workOrderUpdatedWebhookData(
+              workOrder,
+              Object.keys(body).filter((key) => key !== "statusNotes"),
+              user.id,
+            ),
+            `${workOrder._id}:updated:${workOrder.updatedAt.getTime()}`,
+          );
+        } catch (error) {
+          console.error("Error triggering work order update webhooks:", error);
+          // Don't fail work order update if webhook fails
+        }
+
         return reply.send({
           success: true,
           message: "Work order updated successfully",
@@ -924,6 +845,141 @@ export async function workOrderRoutes(fastify: FastifyInstance) {
     },
   );
 
+  // GET /api/v1/work-orders/:id/transitions - Statuses the work order can move to
+  fastify.get(
+    "/:id/transitions",
+    { preHandler: requireWorkOrderView() },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const { id } = request.params as { id: string };
+
+        const result = await WorkOrderWorkflowService.getTransitions(
+          tenant._id.toString(),
+          id,
+          user.id,
+        );
+
+        return reply.send({ success: true, data: result });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to fetch status transitions",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // POST /api/v1/work-orders/:id/transition - Move the work order to another status
+  fastify.post(
+    "/:id/transition",
+    { preHandler: requireWorkOrderEdit() },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const { id } = request.params as { id: string };
+        const { to, notes } = transitionSchema.parse(request.body);
+
+        const workOrder = await WorkOrderWorkflowService.transition(
+          tenant._id.toString(),
+          id,
+          to,
+          user.id,
+          notes,
+        );
+
+        return reply.send({
+          success: true,
+          message: "Work order status updated",
+          data: workOrder,
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to change work order status",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // GET /api/v1/work-orders/:id/assignment-suggestions - Rank personnel for assignment
+  fastify.get(
+    "/:id/assignment-suggestions",
+    { preHandler: requireWorkOrderEdit() },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant } = req.context!;
+        const { id } = request.params as { id: string };
+        const { limit, includeAssigned } = suggestionQuerySchema.parse(
+          request.query,
+        );
+
+        const result = await WorkOrderAssignmentService.suggestAssignments(
+          id,
+          tenant._id.toString(),
+          { limit, includeAssigned },
+        );
+
+        return reply.send({ success: true, data: result });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to build assignment suggestions",
+          fastify.log,
+        );
+      }
+    },
+  );
+
+  // POST /api/v1/work-orders/:id/assignment-suggestions/accept - Assign suggested personnel
+  fastify.post(
+    "/:id/assignment-suggestions/accept",
+    { preHandler: requireWorkOrderEdit() },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const req = request as AuthenticatedRequest;
+        const { tenant, user } = req.context!;
+        const { id } = request.params as { id: string };
+        const { personnelIds } = acceptSuggestionSchema.parse(request.body);
+
+        await WorkOrderAssignmentService.acceptSuggestedAssignments(
+          id,
+          personnelIds,
+          tenant._id.toString(),
+          user.id,
+        );
+
+        const workOrder = await WorkOrder.findOne({
+          _id: id,
+          tenantId: tenant._id,
+        })
+          .populate("clientId", "name email phone company")
+          .populate("personnelIds", "employeeId user role");
+
+        return reply.send({
+          success: true,
+          message: "Personnel assigned successfully",
+          data: workOrder,
+        });
+      } catch (error) {
+        return handleServiceError(
+          error,
+          reply,
+          "Failed to assign suggested personnel",
+          fastify.log,
+        );
+      }
+    },
+  );
+
   // GET /api/v1/work-orders/:id/delete-info - Get deletion impact info
   fastify.get(
     "/:id/delete-info",
@@ -1113,6 +1169,16 @@ export async function workOrderRoutes(fastify: FastifyInstance) {
           `🧹 Work order cleanup completed: ${JSON.stringify(cleanupResult.details)}`,
         );
 
+        // Release any stock still reserved for the deleted work order
+        try {
+          await InventoryService.syncWorkOrderReservations(
+            tenant._id.toString(),
+            id,
+          );
+        } catch (error) {
+          console.error("Error releasing stock reservations:", error);
+        }
+
         // Track work order deletion to decrease usage count
         await EnhancedSubscriptionMiddleware.trackDeletion(
           tenant._id.toString(),
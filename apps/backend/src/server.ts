@@ -7,6 +7,7 @@ import staticFiles from "@fastify/static";
 import { config } from "./config";
 import { connectDB } from "./utils/database";
 import { registerRoutes } from "./routes";
+import { registerIdempotency } from "./middleware/idempotency";
 import { realtimeService } from "./services/realtime-service";
 import { ensureSuperUsers } from "./services/superuser-bootstrap";
 import { fixWorkOrderIndexes } from "./services/index-maintenance";
@@ -61,7 +62,11 @@ async function registerPlugins() {
       "Authorization",
       "Cache-Control",
       "Pragma",
+      "Idempotency-Key",
+      "X-Base-Updated-At",
     ],
+    // Read by the public API explorer in settings
+    exposedHeaders: ["Idempotent-Replayed", "X-Api-Version"],
   });
 
   // Security headers
@@ -87,6 +92,9 @@ async function registerPlugins() {
     prefix: '/uploads/',
   });
 
+  // Idempotency-Key support for mutating routes
+  registerIdempotency(fastify);
+
   // Register routes
   await registerRoutes(fastify);
 }
@@ -0,0 +1,380 @@
+import mongoose from "mongoose";
+import {
+  Asset,
+  Personnel,
+  Report,
+  Task,
+  TaskMaterial,
+  TimeEntry,
+  WorkOrder,
+} from "../models";
+import { HttpError } from "../middleware/http-error-middleware";
+
+// ----------------------------------------------------------------------
+
+export type AssetServiceEventType =
+  | "work_order"
+  | "report"
+  | "time_entry"
+  | "material";
+
+export interface AssetServiceEvent {
+  type: AssetServiceEventType;
+  date: Date;
+  title: string;
+  workOrderId?: string;
+  workOrderNumber?: string;
+  reportId?: string;
+  taskId?: string;
+  status?: string;
+  personnelName?: string;
+  hours?: number;
+  quantity?: number;
+  unit?: string;
+  cost?: number;
+  notes?: string;
+}
+
+export interface AssetServiceSummary {
+  workOrders: number;
+  reports: number;
+  hours: number;
+  laborCost: number;
+  materialCost: number;
+  lastServicedAt?: Date;
+}
+
+// Work orders that are still being worked on don't count as a service
+const SERVICED_STATUSES = ["completed"];
+const SERVICED_REPORT_STATUSES = [
+  "submitted",
+  "under_review",
+  "approved",
+  "published",
+];
+
+// ----------------------------------------------------------------------
+
+export class AssetService {
+  /**
+   * Return the ids that are not assets of this tenant (and client, if given)
+   */
+  static async findInvalidAssetIds(
+    tenantId: string,
+    assetIds: string[],
+    clientId?: string,
+  ): Promise<string[]> {
+    const ids = [...new Set(assetIds.filter(Boolean).map(String))];
+    if (ids.length === 0) return [];
+
+    const invalid = ids.filter((id) => !mongoose.Types.ObjectId.isValid(id));
+    const valid = ids.filter((id) => mongoose.Types.ObjectId.isValid(id));
+
+    const assets = await Asset.find({ _id: { $in: valid }, tenantId })
+      .select("_id clientId")
+      .lean<any[]>();
+    const found = new Map(
+      assets.map((asset) => [asset._id.toString(), asset.clientId]),
+    );
+
+    for (const id of valid) {
+      if (
+        !found.has(id) ||
+        (clientId && found.get(id) !== clientId.toString())
+      ) {
+        invalid.push(id);
+      }
+    }
+    return invalid;
+  }
+
+  /**
+   * Throw a 400 when any of the assets is unknown or belongs to another client
+   */
+  static async assertAssets(
+    tenantId: string,
+    assetIds: string[],
+    clientId?: string,
+  ): Promise<void> {
+    const invalid = await this.findInvalidAssetIds(
+      tenantId,
+      assetIds,
+      clientId,
+    );
+    if (invalid.length > 0) {
+      throw new HttpError(
+        400,
+        clientId
+          ? "One or more assets not found or don't belong to this client"
+          : "One or more assets not found",
+      );
+    }
+  }
+
+  /**
+   * Most recent completed work order or submitted report per asset
+   */
+  static async getLastServiceDates(
+    tenantId: string,
+    assetIds: string[],
+  ): Promise<Map<string, Date>> {
+    const result = new Map<string, Date>();
+    if (assetIds.length === 0) return result;
+
+    const objectIds = assetIds
+      .filter((id) => mongoose.Types.ObjectId.isValid(id))
+      .map((id) => new mongoose.Types.ObjectId(id));
+
+    const [fromWorkOrders, fromReports] = await Promise.all([
+      WorkOrder.aggregate([
+        {
+          $match: {
+            tenantId,
+            assetIds: { $in: assetIds },
+            status: { $in: SERVICED_STATUSES },
+          },
+        },
+        { $unwind: "$assetIds" },
+        { $match: { assetIds: { $in: assetIds } } },
+        {
+          $group: {
+            _id: "$assetIds",
+            last: { $max: { $ifNull: ["$completedAt", "$updatedAt"] } },
+          },
+        },
+      ]),
+      Report.aggregate([
+        {
+          $match: {
+            tenantId: new mongoose.Types.ObjectId(tenantId),
+            assetIds: { $in: objectIds },
+            status: { $in: SERVICED_REPORT_STATUSES },
+          },
+        },
+        { $unwind: "$assetIds" },
+        { $match: { assetIds: { $in: objectIds } } },
+        { $group: { _id: "$assetIds", last: { $max: "$reportDate" } } },
+      ]),
+    ]);
+
+    for (const row of [...fromWorkOrders, ...fromReports]) {
+      const id = row._id.toString();
+      const current = result.get(id);
+      if (row.last && (!current || row.last > current)) {
+        result.set(id, row.last);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Service history of an asset, built from the work orders, tasks and reports
+   * that reference it. Work orders covering this asset alone also count their
+   * tasks and reports that don't name an asset themselves.
+   */
+  static async getServiceHistory(tenantId: string, assetId: string) {
+    const asset = await Asset.findOne({ _id: assetId, tenantId })
+      .populate("clientId", "name company")
+      .lean<any>();
+    if (!asset) {
+      throw new HttpError(404, "Asset not found");
+    }
+
+    const workOrders = await WorkOrder.find({ tenantId, assetIds: assetId })
+      .select(
+        "workOrderNumber title status assetIds completedAt scheduledDate createdAt",
+      )
+      .sort({ createdAt: -1 })
+      .lean<any[]>();
+    const workOrderIds = workOrders.map((wo) => wo._id.toString());
+    const soleWorkOrderIds = workOrders
+      .filter((wo) => (wo.assetIds || []).length === 1)
+      .map((wo) => wo._id.toString());
+
+    const [tasks, reports] = await Promise.all([
+      Task.find({
+        tenantId,
+        $or: [
+          { assetId },
+          {
+            workOrderId: { $in: soleWorkOrderIds },
+            assetId: null,
+          },
+        ],
+      })
+        .select("title workOrderId")
+        .lean<any[]>(),
+      Report.find({
+        tenantId,
+        $or: [
+          { assetIds: assetId },
+          {
+            workOrderId: { $in: soleWorkOrderIds },
+            "assetIds.0": { $exists: false },
+          },
+        ],
+      })
+        .select(
+          "type status reportDate notes workOrderId workOrderData.number taskIds materialsUsed totalHours totalCost",
+        )
+        .sort({ reportDate: -1 })
+        .lean<any[]>(),
+    ]);
+
+    const taskIds = tasks.map((task) => task._id.toString());
+    const taskTitles = new Map(
+      tasks.map((task) => [task._id.toString(), task.title]),
+    );
+    const workOrderNumbers = new Map(
+      workOrders.map((wo) => [wo._id.toString(), wo.workOrderNumber]),
+    );
+
+    const [timeEntries, taskMaterials] = await Promise.all([
+      TimeEntry.find({ tenantId, taskId: { $in: taskIds } })
+        .sort({ date: -1 })
+        .lean<any[]>(),
+      TaskMaterial.find({
+        tenantId: new mongoose.Types.ObjectId(tenantId),
+        taskId: { $in: taskIds },
+      })
+        .populate("materialId", "name unit")
+        .lean<any[]>(),
+    ]);
+
+    const personnelIds = [
+      ...new Set(timeEntries.map((entry) => entry.personnelId)),
+    ];
+    const personnel = await Personnel.find({
+      _id: { $in: personnelIds },
+      tenantId,
+    })
+      .populate("userId", "firstName lastName")
+      .lean<any[]>();
+    const personnelNames = new Map(
+      personnel.map((p) => [
+        p._id.toString(),
+        p.userId
+          ? `${p.userId.firstName} ${p.userId.lastName}`.trim()
+          : p.employeeId,
+      ]),
+    );
+
+    const events: AssetServiceEvent[] = [];
+
+    for (const wo of workOrders) {
+      events.push({
+        type: "work_order",
+        date: wo.completedAt || wo.scheduledDate || wo.createdAt,
+        title: wo.title,
+        workOrderId: wo._id.toString(),
+        workOrderNumber: wo.workOrderNumber,
+        status: wo.status,
+      });
+    }
+
+    // Reports copy their tasks' materials, so those are only counted once
+    const reportedTaskIds = new Set<string>();
+    let materialCost = 0;
+
+    for (const report of reports) {
+      const workOrderId = report.workOrderId?.toString();
+      events.push({
+        type: "report",
+        date: report.reportDate,
+        title: `${report.type.charAt(0).toUpperCase()}${report.type.slice(1)} report`,
+        reportId: report._id.toString(),
+        workOrderId,
+        workOrderNumber: workOrderId
+          ? workOrderNumbers.get(workOrderId) || report.workOrderData?.number
+          : undefined,
+        status: report.status,
+        hours: report.totalHours,
+        cost: report.totalCost,
+        notes: report.notes,
+      });
+
+      (report.taskIds || []).forEach((id: any) =>
+        reportedTaskIds.add(id.toString()),
+      );
+      for (const usage of report.materialsUsed || []) {
+        materialCost += usage.totalCost || 0;
+        events.push({
+          type: "material",
+          date: report.reportDate,
+          title: usage.material?.name || "Material",
+          reportId: report._id.toString(),
+          quantity: usage.quantityUsed,
+          unit: usage.material?.unit,
+          cost: usage.totalCost,
+        });
+      }
+    }
+
+    for (const usage of taskMaterials) {
+      const taskId = usage.taskId.toString();
+      if (reportedTaskIds.has(taskId)) continue;
+      materialCost += usage.totalCost || 0;
+      events.push({
+        type: "material",
+        date: usage.createdAt,
+        title: usage.materialId?.name || "Material",
+        taskId,
+        quantity: usage.quantity,
+        unit: usage.materialId?.unit,
+        cost: usage.totalCost,
+      });
+    }
+
+    let hours = 0;
+    let laborCost = 0;
+    for (const entry of timeEntries) {
+      hours += entry.hours || 0;
+      laborCost += entry.cost || 0;
+      events.push({
+        type: "time_entry",
+        date: entry.date,
+        title: taskTitles.get(entry.taskId) || "Time logged",
+        taskId: entry.taskId,
+        workOrderId: entry.workOrderId,
+        workOrderNumber: entry.workOrderId
+          ? workOrderNumbers.get(entry.workOrderId)
+          : undefined,
+        personnelName: personnelNames.get(entry.personnelId),
+        hours: entry.hours,
+        cost: entry.cost,
+        notes: entry.notes,
+      });
+    }
+
+    events.sort(
+      (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime(),
+    );
+
+    const lastServicedAt = (
+      await this.getLastServiceDates(tenantId, [assetId])
+    ).get(assetId);
+
+    const summary: AssetServiceSummary = {
+      workOrders: workOrderIds.length,
+      reports: reports.length,
+      hours: Math.round(hours * 100) / 100,
+      laborCost: Math.round(laborCost * 100) / 100,
+      materialCost: Math.round(materialCost * 100) / 100,
+      lastServicedAt,
+    };
+
+    return { asset, summary, events };
+  }
+
+  /**
+   * Whether anything still points at the asset
+   */
+  static async isReferenced(tenantId: string, assetId: string) {
+    const [workOrders, tasks, reports] = await Promise.all([
+      WorkOrder.countDocuments({ tenantId, assetIds: assetId }),
+      Task.countDocuments({ tenantId, assetId }),
+      Report.countDocuments({ tenantId, assetIds: assetId }),
+    ]);
+    return workOrders + tasks + reports > 0;
+  }
+}
@@ -0,0 +1,218 @@
+import {
+  CheckInSession,
+  type AttendanceReviewStatus,
+  type ICheckInSession,
+  type ISessionLocation,
+} from "../models/CheckInSession";
+import { Tenant } from "../models/Tenant";
+import { WorkOrder } from "../models/WorkOrder";
+import { HttpError } from "../middleware/http-error-middleware";
+import { DispatchPlannerService } from "./dispatch-planner-service";
+
+// ----------------------------------------------------------------------
+
+export interface AttendanceSettings {
+  geofenceRadiusMeters: number;
+  requireLocation: boolean;
+  blockOutsideGeofence: boolean;
+}
+
+export interface LocationInput {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  capturedAt?: Date;
+}
+
+export interface Geofence {
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+}
+
+export interface FlaggedSessionFilters {
+  status?: AttendanceReviewStatus;
+  personnelId?: string;
+  from?: Date;
+  to?: Date;
+  limit: number;
+  offset: number;
+}
+
+export const DEFAULT_ATTENDANCE_SETTINGS: AttendanceSettings = {
+  geofenceRadiusMeters: 150,
+  requireLocation: false,
+  blockOutsideGeofence: false,
+};
+
+type LocationStamp = "checkIn" | "heartbeat" | "checkOut";
+
+// ----------------------------------------------------------------------
+
+export class AttendanceService {
+  static async getSettings(tenantId: string): Promise<AttendanceSettings> {
+    const tenant = await Tenant.findById(tenantId)
+      .select("settings.attendance")
+      .lean<any>();
+    return {
+      ...DEFAULT_ATTENDANCE_SETTINGS,
+      ...(tenant?.settings?.attendance || {}),
+    };
+  }
+
+  static async updateSettings(
+    tenantId: string,
+    settings: Partial<AttendanceSettings>,
+  ): Promise<AttendanceSettings> {
+    const update: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(settings)) {
+      if (value !== undefined) update[`settings.attendance.${key}`] = value;
+    }
+    if (Object.keys(update).length > 0) {
+      await Tenant.updateOne({ _id: tenantId }, { $set: update });
+    }
+    return this.getSettings(tenantId);
+  }
+
+  /**
+   * Fence around the work order site, or undefined when the site has no
+   * coordinates and attendance can't be verified
+   */
+  static async resolveGeofence(
+    tenantId: string,
+    workOrderId: string | undefined,
+    radiusMeters: number,
+  ): Promise<Geofence | undefined> {
+    if (!workOrderId) return undefined;
+
+    const workOrder = await WorkOrder.findOne({ _id: workOrderId, tenantId })
+      .select("location.coordinates")
+      .lean<any>();
+    const coordinates = workOrder?.location?.coordinates;
+    if (
+      typeof coordinates?.latitude !== "number" ||
+      typeof coordinates?.longitude !== "number" ||
+      (coordinates.latitude === 0 && coordinates.longitude === 0)
+    ) {
+      return undefined;
+    }
+
+    return {
+      latitude: coordinates.latitude,
+      longitude: coordinates.longitude,
+      radiusMeters,
+    };
+  }
+
+  /**
+   * Measure a GPS fix against the fence. The reported accuracy is given
+   * the benefit of the doubt, up to the fence radius, so a poor fix just
+   * outside the site isn't flagged while a far-off one still is.
+   */
+  static measureLocation(
+    location: LocationInput,
+    geofence?: Geofence,
+  ): ISessionLocation {
+    const stamp: ISessionLocation = {
+      latitude: location.latitude,
+      longitude: location.longitude,
+      accuracy: location.accuracy,
+      capturedAt: location.capturedAt || new Date(),
+    };
+    if (!geofence) return stamp;
+
+    const distanceMeters = Math.round(
+      DispatchPlannerService.haversineKm(location, geofence) * 1000,
+    );
+    const allowance = Math.min(location.accuracy || 0, geofence.radiusMeters);
+
+    return {
+      ...stamp,
+      distanceMeters,
+      withinGeofence: distanceMeters - allowance <= geofence.radiusMeters,
+    };
+  }
+
+  /**
+   * Record a fix on the session and flag it for review when it falls
+   * outside the fence. The caller saves the session.
+   */
+  static stampSession(
+    session: ICheckInSession,
+    type: LocationStamp,
+    location: LocationInput,
+  ): ISessionLocation {
+    const stamp = this.measureLocation(location, session.geofence);
+
+    if (type === "checkIn") session.checkInLocation = stamp;
+    else if (type === "checkOut") session.checkOutLocation = stamp;
+    else session.lastLocation = stamp;
+
+    if (stamp.withinGeofence === false && !session.outsideGeofence) {
+      session.outsideGeofence = true;
+      session.outsideLocation = stamp;
+      session.review = { status: "pending" };
+    }
+
+    return stamp;
+  }
+
+  /**
+   * Sessions with at least one fix outside the fence
+   */
+  static async listFlagged(tenantId: string, filters: FlaggedSessionFilters) {
+    const query: Record<string, any> = { tenantId, outsideGeofence: true };
+    if (filters.status) query["review.status"] = filters.status;
+    if (filters.personnelId) query.personnelId = filters.personnelId;
+    if (filters.from || filters.to) {
+      query.checkInTime = {
+        ...(filters.from ? { $gte: filters.from } : {}),
+        ...(filters.to ? { $lte: filters.to } : {}),
+      };
+    }
+
+    const [sessions, total] = await Promise.all([
+      CheckInSession.find(query)
+        .populate({
+          path: "personnelId",
+          select: "employeeId userId",
+          populate: { path: "userId", select: "firstName lastName email" },
+        })
+        .populate("taskId", "title")
+        .populate("workOrderId", "workOrderNumber title location.address")
+        .sort({ checkInTime: -1 })
+        .skip(filters.offset)
+        .limit(filters.limit)
+        .lean<any[]>(),
+      CheckInSession.countDocuments(query),
+    ]);
+
+    return { sessions, total };
+  }
+
+  static async reviewSession(
+    tenantId: string,
+    sessionId: string,
+    reviewedBy: string,
+    status: Exclude<AttendanceReviewStatus, "pending">,
+    notes?: string,
+  ) {
+    const session = await CheckInSession.findOne({
+      _id: sessionId,
+      tenantId,
+      outsideGeofence: true,
+    });
+    if (!session) {
+      throw new HttpError(404, "Flagged session not found");
+    }
+
+    session.review = {
+      status,
+      reviewedBy,
+      reviewedAt: new Date(),
+      notes,
+    };
+    await session.save();
+    return session;
+  }
+}
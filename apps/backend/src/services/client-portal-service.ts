@@ -0,0 +1,439 @@
+import jwt from "jsonwebtoken";
+import { Client, Quote, Report, Tenant, WorkOrder } from "../models";
+import { HttpError } from "../middleware/http-error-middleware";
+import { CLIENT_PORTAL_SCOPE } from "../middleware/portal-auth";
+import { sendClientPortalMagicLink } from "../routes/email";
+import { MagicLinkService } from "./magic-link-service";
+import { QuoteService } from "./quote-service";
+import { WorkOrderService } from "./work-order-service";
+import type { IWorkOrderTimelineEntry } from "../models/WorkOrderTimeline";
+import { WorkOrderTimelineService } from "./work-order-timeline-service";
+
+// ----------------------------------------------------------------------
+
+export interface ServiceRequestInput {
+  title: string;
+  details?: string;
+  address?: string;
+  preferredDate?: Date;
+  priority?: "low" | "medium" | "high" | "urgent";
+}
+
+const PORTAL_LINK_HOURS = 72;
+const PORTAL_SESSION_TTL = "7d";
+
+const OPEN_WORK_ORDER_STATUSES = [
+  "created",
+  "assigned",
+  "in-progress",
+  "on-hold",
+];
+
+// Reports a client may see; drafts and reports under review stay internal
+const SHARED_REPORT_STATUSES = ["approved", "published"];
+
+// Timeline events a client may see. Notes, SLA breaches, reassignments and
+// task activity stay internal.
+const SHARED_TIMELINE_EVENTS: IWorkOrderTimelineEntry["eventType"][] = [
+  "created",
+  "status_changed",
+  "assigned",
+  "due_date_changed",
+  "progress_updated",
+  "completed",
+  "cancelled",
+];
+
+const WORK_ORDER_FIELDS =
+  "workOrderNumber title status priority progress tasksTotal tasksCompleted scheduledDate startedAt completedAt location.address createdAt updatedAt";
+
+// ----------------------------------------------------------------------
+
+export class ClientPortalService {
+  /**
+   * Addresses allowed to open the portal for a client
+   */
+  static getContactEmails(client: any): string[] {
+    return Array.from(
+      new Set(
+        [client.email, client.contactPerson?.email]
+          .filter(Boolean)
+          .map((email: string) => email.trim().toLowerCase()),
+      ),
+    );
+  }
+
+  /**
+   * Create a single-use portal link for one of the client's contacts.
+   * Without an explicit email the client's main address is used.
+   */
+  static async createAccessLink(
+    tenantId: string,
+    clientId: string,
+    email?: string,
+  ): Promise<{ magicLink: string; email: string; expiresInHours: number }> {
+    const client = await Client.findOne({ _id: clientId, tenantId });
+    if (!client) {
+      throw new HttpError(404, "Client not found");
+    }
+    if (!client.isActive) {
+      throw new HttpError(400, "Client is inactive");
+    }
+
+    const contacts = this.getContactEmails(client);
+    const recipient = (email || contacts[0] || "").trim().toLowerCase();
+    if (!recipient) {
+      throw new HttpError(400, "Client has no email address");
+    }
+    if (!contacts.includes(recipient)) {
+      throw new HttpError(400, "Email is not a contact of this client");
+    }
+
+    const result = await MagicLinkService.createMagicLink({
+      email: recipient,
+      tenantId,
+      type: "client_portal",
+      metadata: { clientId: client._id.toString(), clientName: client.name },
+      expirationHours: PORTAL_LINK_HOURS,
+      path: "/portal/verify",
+    });
+    if (!result.success || !result.magicLink) {
+      throw new HttpError(500, result.error || "Failed to create portal link");
+    }
+
+    return {
+      magicLink: result.magicLink,
+      email: recipient,
+      expiresInHours: PORTAL_LINK_HOURS,
+    };
+  }
+
+  /**
+   * Create a portal link and email it to the contact
+   */
+  static async sendAccessLink(
+    tenantId: string,
+    clientId: string,
+    email?: string,
+  ) {
+    const link = await this.createAccessLink(tenantId, clientId, email);
+    const [client, tenant] = await Promise.all([
+      Client.findById(clientId).select("name contactPerson").lean<any>(),
+      Tenant.findById(tenantId).select("name").lean<any>(),
+    ]);
+
+    const result = await sendClientPortalMagicLink({
+      to: link.email,
+      name: client?.contactPerson?.name || client?.name || link.email,
+      companyName: tenant?.name || "Service",
+      magicLink: link.magicLink,
+      expirationHours: link.expiresInHours,
+    });
+    if (!result.success) {
+      throw new HttpError(502, result.error || "Failed to send portal email");
+    }
+
+    return link;
+  }
+
+  /**
+   * Self-service sign-in: email a link to the active client of the tenant
+   * that lists this address as a contact. Callers should not reveal
+   * whether anything was sent.
+   */
+  static async requestAccessLink(
+    tenantSlug: string,
+    email: string,
+  ): Promise<boolean> {
+    const tenant = await Tenant.findOne({ slug: tenantSlug, isActive: true })
+      .select("_id")
+      .lean<any>();
+    if (!tenant) return false;
+
+    const address = email.trim().toLowerCase();
+    const escaped = address.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const emailMatch = { $regex: `^${escaped}$`, $options: "i" };
+
+    // Only one link per address and tenant is live at a time, so the
+    // oldest matching client wins
+    const client = await Client.findOne({
+      tenantId: tenant._id.toString(),
+      isActive: true,
+      $or: [{ email: emailMatch }, { "contactPerson.email": emailMatch }],
+    })
+      .sort({ createdAt: 1 })
+      .select("_id")
+      .lean<any>();
+    if (!client) return false;
+
+    await this.sendAccessLink(
+      tenant._id.toString(),
+      client._id.toString(),
+      address,
+    );
+    return true;
+  }
+
+  /**
+   * Exchange a portal magic link for a portal session token
+   */
+  static async createSession(token: string) {
+    const info = await MagicLinkService.getMagicLinkInfo(token);
+    if (!info.success || info.data?.type !== "client_portal") {
+      throw new HttpError(401, "Invalid or expired portal link");
+    }
+
+    const result = await MagicLinkService.validateAndConsumeMagicLink(token);
+    if (!result.success || !result.data) {
+      throw new HttpError(
+        401,
+        result.error || "Invalid or expired portal link",
+      );
+    }
+
+    const { tenantId, email, metadata } = result.data;
+    const client = await Client.findOne({
+      _id: metadata?.clientId,
+      tenantId,
+      isActive: true,
+    })
+      .select("name company email")
+      .lean<any>();
+    if (!client) {
+      throw new HttpError(401, "Portal access has been revoked");
+    }
+
+    const accessToken = jwt.sign(
+      {
+        scope: CLIENT_PORTAL_SCOPE,
+        clientId: client._id.toString(),
+        tenantId,
+        email,
+      },
+      process.env.JWT_SECRET || "fallback-secret",
+      { expiresIn: PORTAL_SESSION_TTL },
+    );
+
+    return { accessToken, client, email };
+  }
+
+  // ----------------------------------------------------------------------
+
+  static async listWorkOrders(
+    tenantId: string,
+    clientId: string,
+    scope: "open" | "closed" | "all" = "all",
+  ) {
+    const filter: Record<string, any> = { tenantId, clientId };
+    if (scope === "open") filter.status = { $in: OPEN_WORK_ORDER_STATUSES };
+    if (scope === "closed") {
+      filter.status = { $nin: OPEN_WORK_ORDER_STATUSES };
+    }
+
+    return WorkOrder.find(filter)
+      .select(WORK_ORDER_FIELDS)
+      .sort({ createdAt: -1 })
+      .limit(200)
+      .lean();
+  }
+
+  /**
+   * A work order with its timeline. Timeline metadata is internal and is
+   * left out.
+   */
+  static async getWorkOrder(
+    tenantId: string,
+    clientId: string,
+    workOrderId: string,
+  ) {
+    const workOrder = await WorkOrder.findOne({
+      _id: workOrderId,
+      tenantId,
+      clientId,
+    })
+      .select(`${WORK_ORDER_FIELDS} details`)
+      .lean();
+    if (!workOrder) {
+      throw new HttpError(404, "Work order not found");
+    }
+
+    const timeline = await WorkOrderTimelineService.getWorkOrderTimeline(
+      workOrderId,
+      tenantId,
+      {
+        limit: 100,
+        entityType: "work_order",
+        eventTypes: SHARED_TIMELINE_EVENTS,
+      },
+    );
+
+    const reports = await Report.find({
+      tenantId,
+      clientId,
+      workOrderId,
+      status: { $in: SHARED_REPORT_STATUSES },
+    })
+      .select("type status reportDate")
+      .sort({ reportDate: -1 })
+      .lean();
+
+    return {
+      workOrder,
+      reports,
+      // Titles only; descriptions carry internal notes
+      timeline: timeline.map((entry: any) => ({
+        _id: entry._id,
+        entityType: entry.entityType,
+        eventType: entry.eventType,
+        title: entry.title,
+        userName: entry.userName,
+        timestamp: entry.timestamp,
+      })),
+    };
+  }
+
+  static async listReports(tenantId: string, clientId: string) {
+    return Report.find({
+      tenantId,
+      clientId,
+      status: { $in: SHARED_REPORT_STATUSES },
+    })
+      .select(
+        "type status reportDate workOrderId workOrderData.number workOrderData.title totalHours",
+      )
+      .sort({ reportDate: -1 })
+      .limit(200)
+      .lean();
+  }
+
+  static async getReport(tenantId: string, clientId: string, reportId: string) {
+    const report = await Report.findOne({
+      _id: reportId,
+      tenantId,
+      clientId,
+      status: { $in: SHARED_REPORT_STATUSES },
+    }).lean();
+    if (!report) {
+      throw new HttpError(404, "Report not found");
+    }
+    return report;
+  }
+
+  // ----------------------------------------------------------------------
+
+  /**
+   * Quotes the client has been sent; drafts stay internal
+   */
+  static async listQuotes(tenantId: string, clientId: string) {
+    return Quote.find({
+      tenantId,
+      clientId,
+      status: { $ne: "draft" },
+    })
+      .select("-history -createdBy")
+      .sort({ createdAt: -1 })
+      .limit(200)
+      .lean();
+  }
+
+  static async getOpenQuote(
+    tenantId: string,
+    clientId: string,
+    quoteId: string,
+  ) {
+    const quote = await Quote.findOne({ _id: quoteId, tenantId, clientId });
+    if (!quote || quote.status === "draft") {
+      throw new HttpError(404, "Quote not found");
+    }
+    if (quote.status !== "sent") {
+      throw new HttpError(400, `Quote is already ${quote.status}`);
+    }
+    if (quote.validUntil && quote.validUntil < new Date()) {
+      throw new HttpError(400, "Quote has expired");
+    }
+    return quote;
+  }
+
+  /**
+   * Approve a quote on the client's behalf and convert it into a work order
+   */
+  static async acceptQuote(
+    tenantId: string,
+    clientId: string,
+    quoteId: string,
+    requestId?: string,
+  ) {
+    return QuoteService.accept(tenantId, quoteId, clientId, {
+      from: ["sent"],
+      filter: { clientId },
+      notes: (workOrderNumber) =>
+        `Approved in the client portal; work order ${workOrderNumber}`,
+      requestId,
+    });
+  }
+
+  static async declineQuote(
+    tenantId: string,
+    clientId: string,
+    quoteId: string,
+    reason?: string,
+  ) {
+    const quote = await this.getOpenQuote(tenantId, clientId, quoteId);
+
+    quote.status = "declined";
+    quote.declinedAt = new Date();
+    quote.declineReason = reason;
+    QuoteService.pushHistory(
+      quote,
+      "declined",
+      clientId,
+      reason || "Declined in the client portal",
+    );
+    await quote.save();
+
+    return quote;
+  }
+
+  // ----------------------------------------------------------------------
+
+  /**
+   * Log a service request from the portal as a new, unassigned work order
+   */
+  static async createServiceRequest(
+    tenantId: string,
+    client: any,
+    data: ServiceRequestInput,
+    requestId?: string,
+  ) {
+    const clientId = client._id.toString();
+
+    const address =
+      data.address ||
+      [
+        client.address?.street,
+        client.address?.city,
+        client.address?.zipCode,
+        client.address?.country,
+      ]
+        .filter(Boolean)
+        .join(", ");
+
+    return WorkOrderService.create(
+      tenantId,
+      clientId,
+      {
+        clientId,
+        title: data.title,
+        details: data.details || "",
+        priority: data.priority || "medium",
+        location: { address },
+        scheduledDate: data.preferredDate,
+      },
+      {
+        historyNote: "Requested through the client portal",
+        webhookData: { source: "client_portal" },
+        requestId,
+      },
+    );
+  }
+}
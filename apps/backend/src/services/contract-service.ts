@@ -0,0 +1,616 @@
+import dayjs from "dayjs";
+import { Client, Contract, Status, Task, Tenant, WorkOrder } from "../models";
+import type { IContract } from "../models/Contract";
+import { getNextSequence } from "../models/counter";
+import { HttpError } from "../middleware/http-error-middleware";
+import { EnvSubscriptionService } from "./env-subscription-service";
+import { WorkOrderTimelineService } from "./work-order-timeline-service";
+import { WorkOrderProgressService } from "./work-order-progress-service";
+import { AssignmentPermissionService } from "./assignment-permission-service";
+import { WorkOrderService } from "./work-order-service";
+
+// ----------------------------------------------------------------------
+
+export interface ContractVisitSummary {
+  planned: number;
+  generated: number;
+  completed: number;
+  cancelled: number;
+  remaining: number;
+}
+
+export interface ContractProcessResult {
+  generated: number;
+  renewed: number;
+  expired: number;
+  errors: number;
+}
+
+// Safety net for a schedule that would otherwise generate without end
+const MAX_VISITS_PER_RUN = 52;
+
+// ----------------------------------------------------------------------
+
+export class ContractService {
+  /**
+   * Generate the next per-tenant contract number (CT-000001)
+   */
+  static async generateContractNumber(tenantId: string): Promise<string> {
+    const seq = await getNextSequence(tenantId, "contract");
+    return `CT-${String(seq).padStart(6, "0")}`;
+  }
+
+  /**
+   * Date of the nth visit. Dates are counted from the first visit rather
+   * than from the previous one so month ends do not drift.
+   */
+  static visitDate(schedule: IContract["schedule"], index: number): Date {
+    return dayjs(schedule.firstVisitDate)
+      .add(index * schedule.interval, schedule.unit)
+      .toDate();
+  }
+
+  /**
+   * Visit dates falling within [from, to]
+   */
+  static listVisitDates(
+    schedule: IContract["schedule"],
+    from: Date,
+    to: Date,
+  ): Date[] {
+    const dates: Date[] = [];
+    for (let index = 0; ; index++) {
+      const date = this.visitDate(schedule, index);
+      if (date > to) break;
+      if (date >= from) dates.push(date);
+    }
+    return dates;
+  }
+
+  /**
+   * Point the schedule at the next visit still to be generated
+   */
+  static syncSchedule(contract: any): void {
+    const next = this.visitDate(
+      contract.schedule,
+      contract.schedule.nextVisitIndex,
+    );
+
+    if (next > contract.endDate) {
+      contract.schedule.nextVisitDate = undefined;
+      contract.schedule.nextGenerationAt = undefined;
+      return;
+    }
+
+    contract.schedule.nextVisitDate = next;
+    contract.schedule.nextGenerationAt = dayjs(next)
+      .subtract(contract.schedule.leadDays, "day")
+      .toDate();
+  }
+
+  /**
+   * Skip over visits that already have work orders, e.g. after the
+   * schedule was edited on a running contract
+   */
+  static async realignSchedule(contract: any): Promise<void> {
+    const last = await WorkOrder.findOne({
+      tenantId: contract.tenantId,
+      contractId: contract._id.toString(),
+    })
+      .sort({ contractVisitDate: -1 })
+      .select("contractVisitDate")
+      .lean<{ contractVisitDate?: Date }>();
+
+    let index = 0;
+    if (last?.contractVisitDate) {
+      while (
+        this.visitDate(contract.schedule, index) <= last.contractVisitDate
+      ) {
+        index++;
+      }
+    }
+
+    contract.schedule.nextVisitIndex = index;
+    this.syncSchedule(contract);
+  }
+
+  static pushHistory(
+    contract: any,
+    status: string,
+    userId?: string,
+    notes?: string,
+  ): void {
+    contract.history.push({ status, timestamp: new Date(), userId, notes });
+  }
+
+  // ----------------------------------------------------------------------
+
+  /**
+   * Create the work orders for one visit: one per covered site, or a
+   * single one at the client's address when no sites are listed.
+   */
+  static async createVisitWorkOrders(
+    contract: any,
+    visitDate: Date,
+    userId: string,
+  ): Promise<any[]> {
+    const tenantId = contract.tenantId;
+
+    const client = await Client.findOne({
+      _id: contract.clientId,
+      tenantId,
+    }).lean<any>();
+    if (!client) {
+      throw new HttpError(404, "Client not found for this contract");
+    }
+
+    const column = await Status.findOne({ tenantId, isActive: true })
+      .sort({ order: 1 })
+      .lean<{ _id: string }>();
+
+    const template = contract.workOrderTemplate || {};
+    const clientAddress = [
+      client.address?.street,
+      client.address?.city,
+      client.address?.zipCode,
+      client.address?.country,
+    ]
+      .filter(Boolean)
+      .join(", ");
+
+    const sites: any[] =
+      contract.sites.length > 0
+        ? contract.sites
+        : [{ _id: undefined, name: "", address: clientAddress }];
+
+    const materials = (template.materials || []).map((material: any) => ({
+      materialId: material.materialId,
+      name: material.name,
+      quantity: material.quantity,
+      unitPrice: material.unitPrice || 0,
+      total:
+        Math.round(material.quantity * (material.unitPrice || 0) * 100) / 100,
+    }));
+    const materialsCost = materials.reduce(
+      (sum: number, material: any) => sum + material.total,
+      0,
+    );
+
+    const personnelIds: string[] = template.personnelIds || [];
+    const created: any[] = [];
+
+    // Sites created by an earlier, interrupted attempt at this visit
+    const existing = await WorkOrder.find({
+      tenantId,
+      contractId: contract._id.toString(),
+      contractVisitDate: visitDate,
+    })
+      .select("contractSiteId")
+      .lean<Array<{ contractSiteId?: string }>>();
+    const done = new Set(existing.map((item) => item.contractSiteId ?? null));
+
+    for (const site of sites) {
+      const siteId = site._id?.toString();
+      if (done.has(siteId ?? null)) continue;
+      const equipment = contract.equipment.filter(
+        (item: any) => !item.siteId || item.siteId === siteId,
+      );
+
+      const details = [
+        template.details || contract.description,
+        equipment.length > 0
+          ? `Equipment covered:\n${equipment
+              .map((item: any) =>
+                [
+                  `- ${item.name}`,
+                  [item.manufacturer, item.model].filter(Boolean).join(" "),
+                  item.serialNumber ? `S/N ${item.serialNumber}` : "",
+                ]
+                  .filter(Boolean)
+                  .join(" · "),
+              )
+              .join("\n")}`
+          : "",
+      ]
+        .filter(Boolean)
+        .join("\n\n");
+
+      const title = [
+        template.title || contract.title,
+        site.name && sites.length > 1 ? site.name : "",
+      ]
+        .filter(Boolean)
+        .join(" – ");
+
+      const workOrder = await WorkOrderService.create(
+        tenantId,
+        userId,
+        {
+          clientId: contract.clientId,
+          personnelIds,
+          title,
+          details,
+          priority: template.priority || "medium",
+          location: {
+            address: site.address || clientAddress,
+            coordinates: site.coordinates?.latitude
+              ? site.coordinates
+              : undefined,
+          },
+          scheduledDate: visitDate,
+          estimatedDuration: template.estimatedHours
+            ? {
+                value: Math.max(1, Math.ceil(template.estimatedHours)),
+                unit: "hours",
+              }
+            : undefined,
+          cost: {
+            labor: 0,
+            materials: materialsCost,
+            total: materialsCost,
+          },
+          materials,
+          contractId: contract._id.toString(),
+          contractVisitDate: visitDate,
+          contractSiteId: siteId,
+        },
+        {
+          historyNote: `Scheduled visit under contract ${contract.contractNumber}`,
+          webhookData: { contractId: contract._id },
+        },
+      );
+      const workOrderId = workOrder._id.toString();
+
+      if (column) {
+        for (const [index, item] of (template.tasks || []).entries()) {
+          const task = await Task.create({
+            tenantId,
+            title: item.title,
+            description: item.description || "",
+            priority: template.priority || "medium",
+            columnId: column._id.toString(),
+            order: index,
+            tags: [],
+            attachments: [],
+            assignees: personnelIds,
+            createdBy: userId,
+            dueDate: visitDate,
+            estimatedHours: item.estimatedHours,
+            clientId: client._id.toString(),
+            clientName: client.name,
+            clientCompany: client.company,
+            workOrderId,
+            workOrderNumber: workOrder.workOrderNumber,
+            workOrderTitle: workOrder.title,
+          });
+
+          try {
+            await WorkOrderTimelineService.logTaskCreated(
+              workOrderId,
+              task._id.toString(),
+              task.title,
+              userId,
+              tenantId,
+            );
+          } catch (error) {
+            console.error(
+              "Error adding timeline entry for contract task:",
+              error,
+            );
+          }
+        }
+      }
+
+      if (column && template.tasks?.length) {
+        await WorkOrderProgressService.recomputeForWorkOrder(
+          tenantId,
+          workOrderId,
+        );
+
+        // Task permissions for the assignees, now that the tasks exist
+        if (personnelIds.length > 0) {
+          await AssignmentPermissionService.handleWorkOrderAssignment(
+            workOrderId,
+            personnelIds,
+            tenantId,
+          );
+        }
+      }
+
+      created.push(workOrder);
+    }
+
+    return created;
+  }
+
+  /**
+   * Generate work orders for every visit that has entered its lead time.
+   * Stops early when the plan's work order limit is reached.
+   */
+  static async generateDueVisits(
+    contract: any,
+    userId?: string,
+    now: Date = new Date(),
+  ): Promise<any[]> {
+    if (contract.status !== "active") {
+      throw new HttpError(400, "Only active contracts generate visits");
+    }
+
+    const actorId = userId || contract.createdBy;
+    const perVisit = Math.max(1, contract.sites.length);
+    const created: any[] = [];
+
+    this.syncSchedule(contract);
+    // Visits are claimed against the stored schedule, so pending changes
+    // (activation, a realigned schedule) go first
+    if (contract.isModified()) await contract.save();
+
+    while (
+      contract.schedule.nextGenerationAt &&
+      contract.schedule.nextGenerationAt <= now &&
+      created.length < MAX_VISITS_PER_RUN
+    ) {
+      const tenant = await Tenant.findById(contract.tenantId);
+      const limit = tenant
+        ? EnvSubscriptionService.canPerformAction(
+            tenant,
+            "create_work_order",
+            perVisit,
+          )
+        : { allowed: false, reason: "Tenant not found" };
+      if (!limit.allowed) {
+        this.pushHistory(
+          contract,
+          "generation_blocked",
+          actorId,
+          limit.reason || "Work order limit reached",
+        );
+        break;
+      }
+
+      // Claim the visit first so a concurrent run (the cron job and a manual
+      // generate) cannot create it as well
+      const index = contract.schedule.nextVisitIndex;
+      const visitDate = contract.schedule.nextVisitDate;
+      const claimed = await Contract.updateOne(
+        {
+          _id: contract._id,
+          tenantId: contract.tenantId,
+          "schedule.nextVisitIndex": index,
+        },
+        { $inc: { "schedule.nextVisitIndex": 1 } },
+      );
+      if (claimed.modifiedCount === 0) break;
+
+      try {
+        const workOrders = await this.createVisitWorkOrders(
+          contract,
+          visitDate,
+          actorId,
+        );
+        created.push(...workOrders);
+      } catch (error) {
+        // Release the visit; the next run creates only the sites still missing
+        await Contract.updateOne(
+          { _id: contract._id, "schedule.nextVisitIndex": index + 1 },
+          { $inc: { "schedule.nextVisitIndex": -1 } },
+        );
+        throw error;
+      }
+
+      // The index is already stored by the claim; keep save() from writing it
+      contract.schedule.nextVisitIndex = index + 1;
+      contract.unmarkModified("schedule.nextVisitIndex");
+      contract.lastGeneratedAt = new Date();
+      this.syncSchedule(contract);
+      await contract.save();
+    }
+
+    await contract.save();
+    return created;
+  }
+
+  /**
+   * Start a new term. The term follows on from the current end date and
+   * lasts renewal.termMonths unless another length is given.
+   */
+  static async renew(
+    tenantId: string,
+    contractId: string,
+    userId?: string,
+    termMonths?: number,
+  ) {
+    const contract = await Contract.findOne({ _id: contractId, tenantId });
+    if (!contract) {
+      throw new HttpError(404, "Contract not found");
+    }
+    if (!["active", "expired"].includes(contract.status)) {
+      throw new HttpError(
+        400,
+        `A ${contract.status} contract cannot be renewed`,
+      );
+    }
+
+    const months = termMonths || contract.renewal.termMonths;
+    contract.termStartDate = contract.endDate;
+    contract.endDate = dayjs(contract.endDate).add(months, "month").toDate();
+    contract.renewal.renewedAt = new Date();
+    contract.status = "active";
+    this.pushHistory(
+      contract,
+      "renewed",
+      userId,
+      `Renewed until ${dayjs(contract.endDate).format("YYYY-MM-DD")}`,
+    );
+    this.syncSchedule(contract);
+    await contract.save();
+
+    return contract;
+  }
+
+  /**
+   * Cron entry point: renew or expire contracts past their end date, then
+   * generate the visits that are due. Scoped to one tenant when given.
+   */
+  static async processContracts(
+    tenantId?: string,
+  ): Promise<ContractProcessResult> {
+    const now = new Date();
+    const scope = tenantId ? { tenantId } : {};
+    const result: ContractProcessResult = {
+      generated: 0,
+      renewed: 0,
+      expired: 0,
+      errors: 0,
+    };
+
+    const ended = await Contract.find({
+      ...scope,
+      status: "active",
+      endDate: { $lt: now },
+    });
+    for (const contract of ended) {
+      try {
+        if (contract.renewal.type === "auto") {
+          await this.renew(contract.tenantId, contract._id.toString());
+          result.renewed++;
+        } else {
+          contract.status = "expired";
+          this.pushHistory(
+            contract,
+            "expired",
+            undefined,
+            "Contract term ended",
+          );
+          await contract.save();
+          result.expired++;
+        }
+      } catch (error) {
+        console.error(
+          `Error ending contract ${contract.contractNumber}:`,
+          error,
+        );
+        result.errors++;
+      }
+    }
+
+    const due = await Contract.find({
+      ...scope,
+      status: "active",
+      "schedule.nextGenerationAt": { $lte: now },
+    });
+    for (const contract of due) {
+      try {
+        const workOrders = await this.generateDueVisits(
+          contract,
+          undefined,
+          now,
+        );
+        result.generated += workOrders.length;
+      } catch (error) {
+        console.error(
+          `Error generating visits for contract ${contract.contractNumber}:`,
+          error,
+        );
+        result.errors++;
+      }
+    }
+
+    return result;
+  }
+
+  // ----------------------------------------------------------------------
+
+  /**
+   * Visits planned for the current term against the work orders generated
+   * for it, per contract
+   */
+  static async getVisitSummaries(
+    tenantId: string,
+    contracts: any[],
+  ): Promise<Map<string, ContractVisitSummary>> {
+    const workOrders = await WorkOrder.find({
+      tenantId,
+      contractId: { $in: contracts.map((contract) => contract._id.toString()) },
+    })
+      .select("contractId contractVisitDate status")
+      .lean<
+        Array<{ contractId: string; contractVisitDate: Date; status: string }>
+      >();
+
+    const summaries = new Map<string, ContractVisitSummary>();
+
+    for (const contract of contracts) {
+      const id = contract._id.toString();
+      const inTerm = workOrders.filter(
+        (workOrder) =>
+          workOrder.contractId === id &&
+          workOrder.contractVisitDate >= contract.termStartDate &&
+          workOrder.contractVisitDate <= contract.endDate,
+      );
+
+      const planned =
+        this.listVisitDates(
+          contract.schedule,
+          contract.termStartDate,
+          contract.endDate,
+        ).length * Math.max(1, contract.sites?.length || 0);
+      const completed = inTerm.filter((wo) => wo.status === "completed").length;
+      const cancelled = inTerm.filter((wo) => wo.status === "cancelled").length;
+
+      summaries.set(id, {
+        planned,
+        generated: inTerm.length,
+        completed,
+        cancelled,
+        remaining: Math.max(0, planned - completed),
+      });
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Contract with its client, visit summary, generated work orders and the
+   * next visits still to be generated
+   */
+  static async getContractDetails(tenantId: string, contractId: string) {
+    const contract = await Contract.findOne({ _id: contractId, tenantId })
+      .populate("clientId", "name company email phone address")
+      .lean<any>();
+    if (!contract) {
+      throw new HttpError(404, "Contract not found");
+    }
+
+    const [summaries, workOrders] = await Promise.all([
+      this.getVisitSummaries(tenantId, [contract]),
+      WorkOrder.find({ tenantId, contractId })
+        .select(
+          "workOrderNumber title status progress scheduledDate completedAt contractVisitDate location.address",
+        )
+        .sort({ contractVisitDate: -1 })
+        .limit(200)
+        .lean(),
+    ]);
+
+    const upcoming: Date[] = [];
+    if (contract.status === "active" || contract.status === "draft") {
+      for (
+        let index = contract.schedule.nextVisitIndex;
+        upcoming.length < 6;
+        index++
+      ) {
+        const date = this.visitDate(contract.schedule, index);
+        if (date > contract.endDate) break;
+        upcoming.push(date);
+      }
+    }
+
+    return {
+      ...contract,
+      visits: summaries.get(contract._id.toString()),
+      workOrders,
+      upcomingVisits: upcoming,
+    };
+  }
+}
@@ -0,0 +1,648 @@
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+import { Assignment, Personnel, Tenant, WorkOrder } from "../models";
+import { PRIORITY_VALUES } from "../constants/priorities";
+import { HttpError } from "../middleware/http-error-middleware";
+import { DAY_NAMES, DispatchPlannerService } from "./dispatch-planner-service";
+import { AssignmentPermissionService } from "./assignment-permission-service";
+import { WorkOrderAssignmentService } from "./work-order-assignment-service";
+import { WorkOrderTimelineService } from "./work-order-timeline-service";
+import { WorkOrderWorkflowService } from "./work-order-workflow-service";
+import { WebhookService } from "./webhook-service";
+import { assignmentWebhookData } from "./webhook-payloads";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+// ----------------------------------------------------------------------
+
+export interface DispatchConflict {
+  type: "unavailable" | "outsideHours" | "overlap";
+  message: string;
+  workOrderId?: string; // The overlapping work order
+}
+
+export interface DispatchBoardItem {
+  workOrderId: string;
+  workOrderNumber?: string;
+  title: string;
+  priority: string;
+  status: string;
+  clientName?: string;
+  address?: string;
+  personnelId: string;
+  assignmentId?: string;
+  start: string;
+  end: string;
+  // Minutes from midnight in the tenant timezone, clipped to the board day
+  startMinute: number;
+  endMinute: number;
+  conflicts: DispatchConflict[];
+}
+
+export interface DispatchBoardLane {
+  personnel: {
+    _id: string;
+    name: string;
+    employeeId?: string;
+  };
+  workingHours: { start: string; end: string; available: boolean } | null;
+  items: DispatchBoardItem[];
+}
+
+export interface UnscheduledWorkOrder {
+  _id: string;
+  workOrderNumber?: string;
+  title: string;
+  priority: string;
+  status: string;
+  clientName?: string;
+  address?: string;
+  personnelIds: string[];
+  durationMinutes: number;
+}
+
+export interface DispatchBoard {
+  date: string;
+  timezone: string;
+  lanes: DispatchBoardLane[];
+  unscheduled: UnscheduledWorkOrder[];
+}
+
+export interface ScheduleWorkOrderInput {
+  workOrderId: string;
+  personnelId: string;
+  date: string; // YYYY-MM-DD in the tenant timezone
+  startMinute: number;
+  durationMinutes?: number;
+  fromPersonnelId?: string; // Lane the card was dragged from
+}
+
+const DAY_MINUTES = 24 * 60;
+const UNSCHEDULED_LIMIT = 100;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+const personnelName = (person: any) =>
+  [person.userId?.firstName, person.userId?.lastName]
+    .filter(Boolean)
+    .join(" ") || person.employeeId;
+
+// ----------------------------------------------------------------------
+
+export class DispatchBoardService {
+  /**
+   * Technician lanes with their scheduled work orders for one day, plus the
+   * queue of work orders that have not been scheduled yet
+   */
+  static async getBoard(
+    tenantId: string,
+    date: string,
+  ): Promise<DispatchBoard> {
+    const tz = await this.tenantTimezone(tenantId);
+    const day = dayjs.tz(date, tz).startOf("day");
+    const dayStart = day.toDate();
+    const dayEnd = day.endOf("day").toDate();
+
+    const personnel = await Personnel.find({
+      tenantId,
+      isActive: true,
+      status: "active",
+    })
+      .populate("userId", "firstName lastName")
+      .sort({ employeeId: 1 })
+      .lean();
+    const personnelIds = personnel.map((p: any) => p._id.toString());
+
+    // Explicit time slots take precedence over the work order date
+    const assignments = await Assignment.find({
+      tenantId,
+      technicianId: { $in: personnelIds },
+      scheduledStartDate: { $lte: dayEnd },
+      scheduledEndDate: { $gte: dayStart },
+    }).lean();
+
+    const assignedWorkOrderIds = assignments.map((a: any) => a.workOrderId);
+    const workOrders = await WorkOrder.find({
+      tenantId,
+      status: { $ne: "cancelled" },
+      $or: [
+        {
+          scheduledDate: { $gte: dayStart, $lte: dayEnd },
+          personnelIds: { $in: personnelIds },
+        },
+        { _id: { $in: assignedWorkOrderIds } },
+      ],
+    })
+      .populate("clientId", "name")
+      .lean();
+
+    const slotFor = new Map<string, any>(
+      assignments.map((a: any) => [`${a.workOrderId}:${a.technicianId}`, a]),
+    );
+
+    const lanes: DispatchBoardLane[] = personnel.map((person: any) => {
+      const personId = person._id.toString();
+      const items: DispatchBoardItem[] = [];
+
+      for (const workOrder of workOrders as any[]) {
+        const onLane = (workOrder.personnelIds || []).some(
+          (id: any) => id.toString() === personId,
+        );
+        if (!onLane) continue;
+
+        const slot = slotFor.get(`${workOrder._id}:${personId}`);
+        const start = dayjs(
+          slot?.scheduledStartDate || workOrder.scheduledDate,
+        );
+        const end = slot?.scheduledEndDate
+          ? dayjs(slot.scheduledEndDate)
+          : start.add(
+              DispatchPlannerService.serviceMinutesForWorkOrder(workOrder),
+              "minute",
+            );
+        // Slots on another day of a multi-person work order stay off this lane
+        if (
+          !start.isValid() ||
+          start.isAfter(dayEnd) ||
+          end.isBefore(dayStart)
+        ) {
+          continue;
+        }
+
+        items.push({
+          workOrderId: workOrder._id.toString(),
+          workOrderNumber: workOrder.workOrderNumber,
+          title: workOrder.title,
+          priority: workOrder.priority,
+          status: workOrder.status,
+          clientName: workOrder.clientId?.name,
+          address: workOrder.location?.address,
+          personnelId: personId,
+          assignmentId: slot?._id?.toString(),
+          start: start.toISOString(),
+          end: end.toISOString(),
+          startMinute: Math.max(0, start.tz(tz).diff(day, "minute")),
+          endMinute: Math.min(DAY_MINUTES, end.tz(tz).diff(day, "minute")),
+          conflicts: [],
+        });
+      }
+
+      items.sort((a, b) => a.startMinute - b.startMinute);
+
+      const hours = person.availability?.[DAY_NAMES[day.day()]];
+      const workingHours = hours
+        ? {
+            start: hours.start || "09:00",
+            end: hours.end || "17:00",
+            available: hours.available !== false,
+          }
+        : null;
+
+      this.detectConflicts(items, workingHours, DAY_NAMES[day.day()]);
+
+      return {
+        personnel: {
+          _id: personId,
+          name: personnelName(person),
+          employeeId: person.employeeId,
+        },
+        workingHours,
+        items,
+      };
+    });
+
+    const unscheduledDocs = await WorkOrder.find({
+      tenantId,
+      status: { $nin: ["completed", "cancelled"] },
+      $or: [{ scheduledDate: { $exists: false } }, { scheduledDate: null }],
+    })
+      .populate("clientId", "name")
+      .sort({ createdAt: 1 })
+      .limit(UNSCHEDULED_LIMIT)
+      .lean();
+
+    const unscheduled = (unscheduledDocs as any[])
+      .map((workOrder) => ({
+        _id: workOrder._id.toString(),
+        workOrderNumber: workOrder.workOrderNumber,
+        title: workOrder.title,
+        priority: workOrder.priority,
+        status: workOrder.status,
+        clientName: workOrder.clientId?.name,
+        address: workOrder.location?.address,
+        personnelIds: (workOrder.personnelIds || []).map((id: any) =>
+          id.toString(),
+        ),
+        durationMinutes:
+          DispatchPlannerService.serviceMinutesForWorkOrder(workOrder),
+      }))
+      // Most urgent first, oldest first within the same priority
+      .sort(
+        (a, b) =>
+          PRIORITY_VALUES.indexOf(b.priority as any) -
+          PRIORITY_VALUES.indexOf(a.priority as any),
+      );
+
+    return { date, timezone: tz, lanes, unscheduled };
+  }
+
+  /**
+   * Place a work order on a technician's lane. Sets the work order date and
+   * personnel, and stores the time slot on the technician's Assignment.
+   */
+  static async scheduleWorkOrder(
+    tenantId: string,
+    userId: string,
+    input: ScheduleWorkOrderInput,
+  ): Promise<{ board: DispatchBoard; conflicts: DispatchConflict[] }> {
+    const { workOrderId, personnelId, date, startMinute } = input;
+    const fromPersonnelId =
+      input.fromPersonnelId && input.fromPersonnelId !== personnelId
+        ? input.fromPersonnelId
+        : undefined;
+
+    const [workOrder, person] = await Promise.all([
+      WorkOrder.findOne({ _id: workOrderId, tenantId }),
+      Personnel.findOne({
+        _id: personnelId,
+        tenantId,
+        isActive: true,
+        status: "active",
+      })
+        .populate("userId", "firstName lastName")
+        .lean(),
+    ]);
+
+    if (!workOrder) {
+      throw new HttpError(404, "Work order not found");
+    }
+    if (!person) {
+      throw new HttpError(
+        400,
+        "Personnel not found or not eligible for assignment",
+      );
+    }
+    if (["completed", "cancelled"].includes(workOrder.status)) {
+      throw new HttpError(
+        400,
+        `Cannot schedule a ${workOrder.status} work order`,
+      );
+    }
+
+    const tz = await this.tenantTimezone(tenantId);
+    const start = dayjs.tz(date, tz).startOf("day").add(startMinute, "minute");
+    const durationMinutes =
+      input.durationMinutes ||
+      DispatchPlannerService.serviceMinutesForWorkOrder(workOrder);
+    const end = start.add(durationMinutes, "minute");
+
+    await Assignment.findOneAndUpdate(
+      { tenantId, workOrderId, technicianId: personnelId },
+      {
+        $set: {
+          scheduledStartDate: start.toDate(),
+          scheduledEndDate: end.toDate(),
+          estimatedHours: Math.round((durationMinutes / 60) * 100) / 100,
+        },
+        $setOnInsert: {
+          assignedBy: userId,
+          assignedAt: new Date(),
+          status: "assigned",
+        },
+      },
+      { upsert: true, new: true },
+    );
+    if (fromPersonnelId) {
+      await Assignment.deleteOne({
+        tenantId,
+        workOrderId,
+        technicianId: fromPersonnelId,
+      });
+    }
+
+    const previousPersonnelIds = (workOrder.personnelIds || []).map((id: any) =>
+      id.toString(),
+    );
+    const newPersonnelIds = Array.from(
+      new Set([
+        ...previousPersonnelIds.filter((id: string) => id !== fromPersonnelId),
+        personnelId,
+      ]),
+    );
+
+    workOrder.personnelIds = newPersonnelIds;
+    workOrder.scheduledDate = await this.earliestSlot(
+      tenantId,
+      workOrderId,
+      start.toDate(),
+    );
+    const statusChange =
+      workOrder.status === "created"
+        ? await WorkOrderWorkflowService.applyAutomaticStatus(
+            workOrder,
+            "assigned",
+            userId,
+            "Scheduled on the dispatch board",
+          )
+        : null;
+    await workOrder.save();
+    if (statusChange) {
+      await WorkOrderWorkflowService.afterStatusChange(
+        tenantId,
+        workOrder,
+        statusChange.from,
+        statusChange.to,
+        userId,
+        "Scheduled on the dispatch board",
+      );
+    }
+
+    await this.syncPersonnel(
+      tenantId,
+      userId,
+      workOrderId,
+      previousPersonnelIds,
+      newPersonnelIds,
+      [personnelName(person)],
+    );
+
+    const board = await this.getBoard(tenantId, date);
+    const conflicts =
+      board.lanes
+        .find((lane) => lane.personnel._id === personnelId)
+        ?.items.find((item) => item.workOrderId === workOrderId)?.conflicts ||
+      [];
+
+    return { board, conflicts };
+  }
+
+  /**
+   * Take a work order off a technician's lane and back to the queue when no
+   * other technician keeps it scheduled
+   */
+  static async unscheduleWorkOrder(
+    tenantId: string,
+    userId: string,
+    workOrderId: string,
+    personnelId: string,
+  ): Promise<void> {
+    const workOrder = await WorkOrder.findOne({ _id: workOrderId, tenantId });
+    if (!workOrder) {
+      throw new HttpError(404, "Work order not found");
+    }
+
+    await Assignment.deleteOne({
+      tenantId,
+      workOrderId,
+      technicianId: personnelId,
+    });
+
+    const previousPersonnelIds = (workOrder.personnelIds || []).map((id: any) =>
+      id.toString(),
+    );
+    const newPersonnelIds = previousPersonnelIds.filter(
+      (id: string) => id !== personnelId,
+    );
+
+    workOrder.personnelIds = newPersonnelIds;
+    let statusChange: Awaited<
+      ReturnType<typeof WorkOrderWorkflowService.applyAutomaticStatus>
+    > = null;
+    if (newPersonnelIds.length === 0) {
+      workOrder.scheduledDate = undefined;
+      if (workOrder.status === "assigned") {
+        statusChange = await WorkOrderWorkflowService.applyAutomaticStatus(
+          workOrder,
+          "created",
+          userId,
+          "Removed from the dispatch board",
+        );
+      }
+    } else {
+      workOrder.scheduledDate = await this.earliestSlot(
+        tenantId,
+        workOrderId,
+        workOrder.scheduledDate,
+      );
+    }
+    await workOrder.save();
+    if (statusChange) {
+      await WorkOrderWorkflowService.afterStatusChange(
+        tenantId,
+        workOrder,
+        statusChange.from,
+        statusChange.to,
+        userId,
+        "Removed from the dispatch board",
+      );
+    }
+
+    await this.syncPersonnel(
+      tenantId,
+      userId,
+      workOrderId,
+      previousPersonnelIds,
+      newPersonnelIds,
+      [],
+    );
+  }
+
+  /**
+   * Let an assigned technician accept or turn down a work order. Rejecting
+   * leaves the work order assigned for the dispatcher to reassign.
+   */
+  static async respondToAssignment(
+    tenantId: string,
+    userId: string,
+    workOrderId: string,
+    decision: "accepted" | "rejected",
+    notes?: string,
+  ) {
+    const [workOrder, person] = await Promise.all([
+      WorkOrder.findOne({ _id: workOrderId, tenantId }),
+      Personnel.findOne({ tenantId, userId, isActive: true }).lean<any>(),
+    ]);
+    if (!workOrder) {
+      throw new HttpError(404, "Work order not found");
+    }
+    const personnelId = person?._id?.toString();
+    const assigned = (workOrder.personnelIds || []).some(
+      (id: any) => id.toString() === personnelId,
+    );
+    if (!personnelId || !assigned) {
+      throw new HttpError(403, "You are not assigned to this work order");
+    }
+
+    // Work orders assigned outside the dispatch board have no slot yet
+    const current = await Assignment.findOneAndUpdate(
+      { tenantId, workOrderId, technicianId: personnelId },
+      {
+        $setOnInsert: {
+          assignedBy: workOrder.createdBy,
+          assignedAt: new Date(),
+          status: "assigned",
+        },
+      },
+      { upsert: true, new: true },
+    );
+    if (current.status === decision) {
+      return current;
+    }
+    if (!["assigned", "accepted", "rejected"].includes(current.status)) {
+      throw new HttpError(400, "Work on this assignment has already started");
+    }
+
+    current.status = decision;
+    if (notes !== undefined) current.notes = notes;
+    await current.save();
+
+    await WorkOrderTimelineService.addTimelineEntry({
+      workOrderId,
+      entityType: "work_order",
+      eventType: "updated",
+      title:
+        decision === "accepted" ? "Assignment accepted" : "Assignment declined",
+      description: notes,
+      metadata: { personnelId, assignmentStatus: decision },
+      userId,
+      tenantId,
+    });
+
+    await WebhookService.triggerWebhooks(
+      tenantId,
+      `assignment.${decision}`,
+      assignmentWebhookData(current, workOrder, userId),
+      `${current._id}:${decision}:${current.updatedAt.getTime()}`,
+    );
+
+    return current;
+  }
+
+  // ----------------------------------------------------------------------
+
+  private static async tenantTimezone(tenantId: string): Promise<string> {
+    const tenant = await Tenant.findById(tenantId)
+      .select("settings.timezone")
+      .lean<any>();
+    return tenant?.settings?.timezone || "UTC";
+  }
+
+  /**
+   * Work order date follows the earliest remaining technician slot
+   */
+  private static async earliestSlot(
+    tenantId: string,
+    workOrderId: string,
+    fallback?: Date,
+  ): Promise<Date | undefined> {
+    const first = await Assignment.findOne({
+      tenantId,
+      workOrderId,
+      scheduledStartDate: { $ne: null },
+    })
+      .sort({ scheduledStartDate: 1 })
+      .select("scheduledStartDate")
+      .lean<any>();
+    return first?.scheduledStartDate || fallback;
+  }
+
+  /**
+   * Mirror personnel changes the same way a work order update does
+   */
+  private static async syncPersonnel(
+    tenantId: string,
+    userId: string,
+    workOrderId: string,
+    previousPersonnelIds: string[],
+    newPersonnelIds: string[],
+    addedNames: string[],
+  ): Promise<void> {
+    const added = newPersonnelIds.filter(
+      (id) => !previousPersonnelIds.includes(id),
+    );
+    const removed = previousPersonnelIds.filter(
+      (id) => !newPersonnelIds.includes(id),
+    );
+    if (added.length === 0 && removed.length === 0) return;
+
+    try {
+      await AssignmentPermissionService.handleWorkOrderAssignment(
+        workOrderId,
+        newPersonnelIds,
+        tenantId,
+      );
+      if (added.length > 0) {
+        await WorkOrderAssignmentService.propagateWorkOrderAssignments(
+          workOrderId,
+          newPersonnelIds,
+          previousPersonnelIds,
+          tenantId,
+          userId,
+        );
+        await WorkOrderTimelineService.logWorkOrderAssigned(
+          workOrderId,
+          addedNames,
+          userId,
+          tenantId,
+        );
+      }
+      if (removed.length > 0) {
+        await WorkOrderAssignmentService.handleWorkOrderPersonnelRemoval(
+          workOrderId,
+          removed,
+          tenantId,
+          userId,
+        );
+      }
+    } catch (error) {
+      // Scheduling succeeded; assignment side effects are best effort
+      console.error("Error propagating dispatch board assignment:", error);
+    }
+  }
+
+  /**
+   * Flag items outside the technician's working hours and overlapping items
+   */
+  private static detectConflicts(
+    items: DispatchBoardItem[],
+    workingHours: DispatchBoardLane["workingHours"],
+    dayName: string,
+  ): void {
+    for (const item of items) {
+      if (workingHours && !workingHours.available) {
+        item.conflicts.push({
+          type: "unavailable",
+          message: `Not available on ${dayName.charAt(0).toUpperCase()}${dayName.slice(1)}`,
+        });
+      } else if (
+        workingHours &&
+        (item.startMinute < toMinutes(workingHours.start) ||
+          item.endMinute > toMinutes(workingHours.end))
+      ) {
+        item.conflicts.push({
+          type: "outsideHours",
+          message: `Outside working hours (${workingHours.start}–${workingHours.end})`,
+        });
+      }
+
+      for (const other of items) {
+        if (
+          other !== item &&
+          item.startMinute < other.endMinute &&
+          other.startMinute < item.endMinute
+        ) {
+          item.conflicts.push({
+            type: "overlap",
+            message: `Overlaps ${other.workOrderNumber || other.title}`,
+            workOrderId: other.workOrderId,
+          });
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,458 @@
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+import { Personnel, Task, Tenant, WorkOrder } from "../models";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+// ----------------------------------------------------------------------
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface DispatchStop {
+  type: "workOrder" | "task";
+  id: string;
+  title: string;
+  reference?: string; // Work order number
+  workOrderId?: string;
+  address?: string;
+  coordinates?: GeoPoint;
+  priority?: string;
+  serviceMinutes: number;
+  taskIds: string[]; // Tasks done during this visit
+}
+
+export interface DispatchLeg {
+  distanceKm: number;
+  travelMinutes: number;
+}
+
+export interface PlannedStop extends DispatchStop {
+  sequence: number;
+  travel: DispatchLeg | null; // From the previous stop (or start position)
+  arrival: string;
+  departure: string;
+}
+
+export interface PersonnelDispatchPlan {
+  personnel: {
+    _id: string;
+    name: string;
+    employeeId?: string;
+    location?: GeoPoint & { lastUpdated?: Date };
+  };
+  startsFrom: "lastKnownLocation" | "firstStop";
+  dayStart: string;
+  stops: PlannedStop[];
+  unrouted: DispatchStop[]; // Stops without coordinates
+  totals: {
+    stops: number;
+    distanceKm: number;
+    travelMinutes: number;
+    serviceMinutes: number;
+    finishAt?: string;
+    // Distance when visiting in the originally scheduled order
+    unoptimizedDistanceKm: number;
+  };
+}
+
+export interface DispatchPlanOptions {
+  personnelIds?: string[];
+  speedKmh?: number;
+  roadFactor?: number;
+}
+
+// Straight-line distance times a detour factor approximates road distance
+// without calling an external routing API
+const DEFAULT_SPEED_KMH = 40;
+const DEFAULT_ROAD_FACTOR = 1.3;
+const DEFAULT_SERVICE_MINUTES = 60;
+const WORKING_DAY_MINUTES = 8 * 60;
+const EARTH_RADIUS_KM = 6371;
+
+export const DAY_NAMES = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+] as const;
+
+const round = (value: number, decimals = 1) =>
+  Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+const isGeoPoint = (point?: Partial<GeoPoint> | null): point is GeoPoint =>
+  typeof point?.latitude === "number" &&
+  typeof point?.longitude === "number" &&
+  !(point.latitude === 0 && point.longitude === 0);
+
+// ----------------------------------------------------------------------
+
+export class DispatchPlannerService {
+  /**
+   * Great-circle distance between two points in kilometres
+   */
+  static haversineKm(from: GeoPoint, to: GeoPoint): number {
+    const toRad = (deg: number) => (deg * Math.PI) / 180;
+    const dLat = toRad(to.latitude - from.latitude);
+    const dLon = toRad(to.longitude - from.longitude);
+    const a =
+      Math.sin(dLat / 2) ** 2 +
+      Math.cos(toRad(from.latitude)) *
+        Math.cos(toRad(to.latitude)) *
+        Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+  }
+
+  /**
+   * Estimated road leg between two points
+   */
+  static estimateLeg(
+    from: GeoPoint,
+    to: GeoPoint,
+    speedKmh = DEFAULT_SPEED_KMH,
+    roadFactor = DEFAULT_ROAD_FACTOR,
+  ): DispatchLeg {
+    const distanceKm = this.haversineKm(from, to) * roadFactor;
+    return {
+      distanceKm: round(distanceKm),
+      travelMinutes: Math.round((distanceKm / speedKmh) * 60),
+    };
+  }
+
+  /**
+   * Order stops to minimise travel: nearest neighbour from the start, then
+   * 2-opt until no swap shortens the route. The route is open - technicians
+   * do not return to the start.
+   */
+  static optimizeSequence<T extends { coordinates: GeoPoint }>(
+    stops: T[],
+    start?: GeoPoint,
+  ): T[] {
+    if (stops.length < 2) return [...stops];
+
+    const remaining = [...stops];
+    const route: T[] = [];
+    let current = start ?? remaining[0].coordinates;
+
+    while (remaining.length > 0) {
+      let nearest = 0;
+      for (let i = 1; i < remaining.length; i++) {
+        if (
+          this.haversineKm(current, remaining[i].coordinates) <
+          this.haversineKm(current, remaining[nearest].coordinates)
+        ) {
+          nearest = i;
+        }
+      }
+      const [next] = remaining.splice(nearest, 1);
+      route.push(next);
+      current = next.coordinates;
+    }
+
+    // Missing ends (no start position, last stop) cost nothing
+    const dist = (a?: GeoPoint, b?: GeoPoint) =>
+      a && b ? this.haversineKm(a, b) : 0;
+
+    let improved = true;
+    while (improved) {
+      improved = false;
+      for (let i = 0; i < route.length - 1; i++) {
+        for (let j = i + 1; j < route.length; j++) {
+          const prev = i === 0 ? start : route[i - 1].coordinates;
+          const next = route[j + 1]?.coordinates;
+          const before =
+            dist(prev, route[i].coordinates) + dist(route[j].coordinates, next);
+          const after =
+            dist(prev, route[j].coordinates) + dist(route[i].coordinates, next);
+          if (after + 1e-9 < before) {
+            const reversed = route.slice(i, j + 1).reverse();
+            route.splice(i, reversed.length, ...reversed);
+            improved = true;
+          }
+        }
+      }
+    }
+
+    return route;
+  }
+
+  /**
+   * Total open-route distance visiting points in the given order
+   */
+  private static routeDistanceKm(
+    points: GeoPoint[],
+    start: GeoPoint | undefined,
+    roadFactor: number,
+  ): number {
+    const path = start ? [start, ...points] : points;
+    let total = 0;
+    for (let i = 1; i < path.length; i++) {
+      total += this.haversineKm(path[i - 1], path[i]);
+    }
+    return round(total * roadFactor);
+  }
+
+  /**
+   * Expected time on site for a work order, capped at one working day
+   */
+  static serviceMinutesForWorkOrder(workOrder: any): number {
+    const { value, unit } = workOrder.estimatedDuration || {};
+    if (!value) return DEFAULT_SERVICE_MINUTES;
+    // Anything longer than hours occupies the rest of the day
+    return unit === "hours"
+      ? Math.min(Math.round(value * 60), WORKING_DAY_MINUTES)
+      : WORKING_DAY_MINUTES;
+  }
+
+  /**
+   * Collect the visits scheduled for each technician on the given day
+   */
+  private static async collectStops(
+    tenantId: string,
+    dayStart: Date,
+    dayEnd: Date,
+    personnelIds: string[],
+  ): Promise<Map<string, DispatchStop[]>> {
+    const byPersonnel = new Map<string, DispatchStop[]>(
+      personnelIds.map((id) => [id, []]),
+    );
+
+    const [workOrders, tasks] = await Promise.all([
+      WorkOrder.find({
+        tenantId,
+        scheduledDate: { $gte: dayStart, $lte: dayEnd },
+        status: { $nin: ["completed", "cancelled"] },
+        personnelIds: { $in: personnelIds },
+      })
+        .sort({ scheduledDate: 1 })
+        .lean(),
+      Task.find({
+        tenantId,
+        isArchived: { $ne: true },
+        completeStatus: { $ne: true },
+        assignees: { $in: personnelIds },
+        $or: [
+          { startDate: { $gte: dayStart, $lte: dayEnd } },
+          {
+            startDate: { $exists: false },
+            dueDate: { $gte: dayStart, $lte: dayEnd },
+          },
+        ],
+      })
+        .sort({ startDate: 1, dueDate: 1 })
+        .lean(),
+    ]);
+
+    // Tasks inherit their location from the parent work order
+    const taskWorkOrderIds = tasks
+      .map((task: any) => task.workOrderId)
+      .filter(
+        (id: string | undefined) =>
+          id && !workOrders.some((wo: any) => wo._id.toString() === id),
+      );
+    const parentWorkOrders = taskWorkOrderIds.length
+      ? await WorkOrder.find({ tenantId, _id: { $in: taskWorkOrderIds } })
+          .select("workOrderNumber title location")
+          .lean()
+      : [];
+    const workOrderById = new Map<string, any>(
+      [...workOrders, ...parentWorkOrders].map((wo: any) => [
+        wo._id.toString(),
+        wo,
+      ]),
+    );
+
+    for (const workOrder of workOrders as any[]) {
+      for (const personnelId of workOrder.personnelIds || []) {
+        byPersonnel.get(personnelId)?.push({
+          type: "workOrder",
+          id: workOrder._id.toString(),
+          title: workOrder.title,
+          reference: workOrder.workOrderNumber,
+          workOrderId: workOrder._id.toString(),
+          address: workOrder.location?.address,
+          coordinates: isGeoPoint(workOrder.location?.coordinates)
+            ? workOrder.location.coordinates
+            : undefined,
+          priority: workOrder.priority,
+          serviceMinutes: this.serviceMinutesForWorkOrder(workOrder),
+          taskIds: [],
+        });
+      }
+    }
+
+    for (const task of tasks as any[]) {
+      const parent = task.workOrderId
+        ? workOrderById.get(task.workOrderId)
+        : undefined;
+
+      for (const personnelId of task.assignees || []) {
+        const stops = byPersonnel.get(personnelId);
+        if (!stops) continue;
+
+        // Work done during an existing visit does not add another stop
+        const visit = parent
+          ? stops.find((stop) => stop.workOrderId === task.workOrderId)
+          : undefined;
+        if (visit) {
+          visit.taskIds.push(task._id.toString());
+          continue;
+        }
+
+        stops.push({
+          type: "task",
+          id: task._id.toString(),
+          title: task.title,
+          reference: parent?.workOrderNumber || task.workOrderNumber,
+          workOrderId: task.workOrderId,
+          address: parent?.location?.address,
+          coordinates: isGeoPoint(parent?.location?.coordinates)
+            ? parent.location.coordinates
+            : undefined,
+          priority: task.priority,
+          serviceMinutes: task.estimatedHours
+            ? Math.min(
+                Math.round(task.estimatedHours * 60),
+                WORKING_DAY_MINUTES,
+              )
+            : DEFAULT_SERVICE_MINUTES,
+          taskIds: [task._id.toString()],
+        });
+      }
+    }
+
+    return byPersonnel;
+  }
+
+  /**
+   * Build an optimized visit sequence with travel legs for each technician
+   * working on the given date (YYYY-MM-DD in the tenant timezone)
+   */
+  static async planDay(
+    tenantId: string,
+    date: string,
+    options: DispatchPlanOptions = {},
+  ): Promise<{
+    date: string;
+    timezone: string;
+    plans: PersonnelDispatchPlan[];
+  }> {
+    const speedKmh = options.speedKmh || DEFAULT_SPEED_KMH;
+    const roadFactor = options.roadFactor || DEFAULT_ROAD_FACTOR;
+
+    const tenant = await Tenant.findById(tenantId)
+      .select("settings")
+      .lean<any>();
+    const tz = tenant?.settings?.timezone || "UTC";
+    const day = dayjs.tz(date, tz).startOf("day");
+    const defaultStart = tenant?.settings?.workingHours?.start || "08:00";
+
+    const personnelFilter: any = { tenantId, isActive: true };
+    if (options.personnelIds?.length) {
+      personnelFilter._id = { $in: options.personnelIds };
+    }
+    const personnel = await Personnel.find(personnelFilter)
+      .populate("userId", "firstName lastName email")
+      .lean();
+
+    const stopsByPersonnel = await this.collectStops(
+      tenantId,
+      day.toDate(),
+      day.endOf("day").toDate(),
+      personnel.map((p: any) => p._id.toString()),
+    );
+
+    const plans: PersonnelDispatchPlan[] = [];
+
+    for (const person of personnel as any[]) {
+      const stops = stopsByPersonnel.get(person._id.toString()) || [];
+      if (stops.length === 0) continue;
+
+      const availability = person.availability?.[DAY_NAMES[day.day()]];
+      const [startHour, startMinute] = (
+        availability?.available && availability.start
+          ? availability.start
+          : defaultStart
+      )
+        .split(":")
+        .map(Number);
+      const dayStart = day.hour(startHour || 0).minute(startMinute || 0);
+
+      const start = isGeoPoint(person.location) ? person.location : undefined;
+      const routable = stops.filter(
+        (stop): stop is DispatchStop & { coordinates: GeoPoint } =>
+          !!stop.coordinates,
+      );
+      const ordered = this.optimizeSequence(routable, start);
+
+      let clock = dayStart;
+      let previous = start;
+      let distanceKm = 0;
+      let travelMinutes = 0;
+      let serviceMinutes = 0;
+
+      const planned: PlannedStop[] = ordered.map((stop, index) => {
+        const travel = previous
+          ? this.estimateLeg(previous, stop.coordinates, speedKmh, roadFactor)
+          : null;
+        if (travel) {
+          distanceKm += travel.distanceKm;
+          travelMinutes += travel.travelMinutes;
+          clock = clock.add(travel.travelMinutes, "minute");
+        }
+        const arrival = clock;
+        clock = clock.add(stop.serviceMinutes, "minute");
+        serviceMinutes += stop.serviceMinutes;
+        previous = stop.coordinates;
+
+        return {
+          ...stop,
+          sequence: index + 1,
+          travel,
+          arrival: arrival.toISOString(),
+          departure: clock.toISOString(),
+        };
+      });
+
+      const user = person.userId as any;
+      plans.push({
+        personnel: {
+          _id: person._id.toString(),
+          name:
+            [user?.firstName, user?.lastName].filter(Boolean).join(" ") ||
+            user?.email ||
+            person.employeeId,
+          employeeId: person.employeeId,
+          location: start
+            ? { ...start, lastUpdated: person.location.lastUpdated }
+            : undefined,
+        },
+        startsFrom: start ? "lastKnownLocation" : "firstStop",
+        dayStart: dayStart.toISOString(),
+        stops: planned,
+        unrouted: stops.filter((stop) => !stop.coordinates),
+        totals: {
+          stops: stops.length,
+          distanceKm: round(distanceKm),
+          travelMinutes,
+          serviceMinutes,
+          finishAt: planned.length ? clock.toISOString() : undefined,
+          unoptimizedDistanceKm: this.routeDistanceKm(
+            routable.map((stop) => stop.coordinates),
+            start,
+            roadFactor,
+          ),
+        },
+      });
+    }
+
+    return { date: day.format("YYYY-MM-DD"), timezone: tz, plans };
+  }
+}
@@ -1,6 +1,6 @@
 import fs from 'fs/promises';
 import path from 'path';
-import { Client, WorkOrder, Task, Comment, Subtask, Assignment } from '../models';
+import { Client, WorkOrder, Task, Comment, Subtask, Assignment, Asset } from '../models';
 import { FileTrackingService } from './file-tracking-service';
 
 export interface EntityCleanupOptions {
@@ -94,6 +94,22 @@ export class EntityCleanupService {
         { $unset: { clientId: 1, clientName: 1, clientCompany: 1 } }
       );
 
+      // Remove the client's assets and any links to them
+      const assetIds = (
+        await Asset.find({ clientId, tenantId }).select('_id').lean<any[]>()
+      ).map((asset) => asset._id.toString());
+      if (assetIds.length > 0) {
+        await WorkOrder.updateMany(
+          { tenantId, assetIds: { $in: assetIds } },
+          { $pull: { assetIds: { $in: assetIds } } }
+        );
+        await Task.updateMany(
+          { tenantId, assetId: { $in: assetIds } },
+          { $unset: { assetId: 1 } }
+        );
+        await Asset.deleteMany({ _id: { $in: assetIds }, tenantId });
+      }
+
       // 3. Delete client-related files
       if (deleteFiles) {
         await this.deleteClientFiles(clientId, tenantId, result);
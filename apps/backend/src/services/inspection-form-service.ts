@@ -0,0 +1,461 @@
+import mongoose from "mongoose";
+import { randomUUID } from "crypto";
+import { Asset, InspectionForm, Report } from "../models";
+import { HttpError } from "../middleware/http-error-middleware";
+import type {
+  IInspectionForm,
+  IInspectionFormField,
+} from "../models/InspectionForm";
+import type {
+  InspectionItemResult,
+  IReportInspection,
+  IReportInspectionAnswer,
+} from "../models/Report";
+
+// ----------------------------------------------------------------------
+
+export interface SubmittedInspection {
+  formId: string;
+  assetId?: string;
+  answers: { fieldKey: string; value?: any; notes?: string }[];
+}
+
+export interface ApplicableInspectionForm {
+  form: IInspectionForm;
+  assetId?: string;
+  assetName?: string;
+}
+
+export interface InspectionFailureFilters {
+  from?: Date;
+  to?: Date;
+  formId?: string;
+  assetId?: string;
+  clientId?: string;
+}
+
+const YES_NO_VALUES = ["yes", "no", "n/a"];
+
+const isBlank = (value: any) =>
+  value === undefined ||
+  value === null ||
+  value === "" ||
+  (Array.isArray(value) && value.length === 0);
+
+// ----------------------------------------------------------------------
+
+export class InspectionFormService {
+  /**
+   * Give new fields a stable key and check the definitions make sense
+   */
+  static normaliseFields(
+    fields: Partial<IInspectionFormField>[],
+  ): IInspectionFormField[] {
+    const normalised = fields.map((field) => ({
+      key: field.key?.trim() || randomUUID().slice(0, 8),
+      label: field.label!.trim(),
+      type: field.type!,
+      required: !!field.required,
+      section: field.section?.trim() || undefined,
+      helpText: field.helpText?.trim() || undefined,
+      options: field.type === "select" ? (field.options ?? []) : [],
+      failOptions:
+        field.type === "select" || field.type === "yes_no"
+          ? (field.failOptions ?? [])
+          : [],
+      min: field.type === "number" ? (field.min ?? undefined) : undefined,
+      max: field.type === "number" ? (field.max ?? undefined) : undefined,
+      unit:
+        field.type === "number" ? field.unit?.trim() || undefined : undefined,
+    }));
+
+    const keys = new Set<string>();
+    for (const field of normalised) {
+      if (keys.has(field.key)) {
+        throw new HttpError(400, `Duplicate field key "${field.key}"`);
+      }
+      keys.add(field.key);
+
+      if (field.type === "select" && field.options.length === 0) {
+        throw new HttpError(400, `"${field.label}" needs at least one option`);
+      }
+      const allowed = field.type === "yes_no" ? ["yes", "no"] : field.options;
+      const unknown = field.failOptions.filter((o) => !allowed.includes(o));
+      if (unknown.length > 0) {
+        throw new HttpError(
+          400,
+          `"${field.label}" fails on answers it doesn't offer: ${unknown.join(", ")}`,
+        );
+      }
+      if (
+        field.min !== undefined &&
+        field.max !== undefined &&
+        field.min > field.max
+      ) {
+        throw new HttpError(
+          400,
+          `"${field.label}" has a minimum above its maximum`,
+        );
+      }
+    }
+
+    return normalised;
+  }
+
+  /**
+   * Active forms that apply to a report of this type covering these assets.
+   * Forms matched through an asset are returned once per asset.
+   */
+  static async findApplicable(
+    tenantId: string,
+    { reportType, assetIds = [] }: { reportType?: string; assetIds?: string[] },
+  ): Promise<ApplicableInspectionForm[]> {
+    const validIds = assetIds.filter((id) =>
+      mongoose.Types.ObjectId.isValid(id),
+    );
+    const [forms, assets] = await Promise.all([
+      InspectionForm.find({ tenantId, isActive: true })
+        .sort({ name: 1 })
+        .lean<IInspectionForm[]>(),
+      validIds.length
+        ? Asset.find({ _id: { $in: validIds }, tenantId })
+            .select("_id name category")
+            .lean<any[]>()
+        : Promise.resolve([]),
+    ]);
+
+    const applicable: ApplicableInspectionForm[] = [];
+    for (const form of forms) {
+      const categories = (form.appliesTo?.assetCategories ?? []).map((c) =>
+        c.toLowerCase(),
+      );
+      const matchedAssets = assets.filter(
+        (asset) =>
+          form.appliesTo?.assetIds?.includes(asset._id.toString()) ||
+          (asset.category &&
+            categories.includes(String(asset.category).toLowerCase())),
+      );
+
+      if (matchedAssets.length > 0) {
+        for (const asset of matchedAssets) {
+          applicable.push({
+            form,
+            assetId: asset._id.toString(),
+            assetName: asset.name,
+          });
+        }
+      } else if (
+        reportType &&
+        form.appliesTo?.reportTypes?.includes(reportType)
+      ) {
+        applicable.push({ form });
+      }
+    }
+
+    return applicable;
+  }
+
+  /**
+   * Judge a single answer against its field definition
+   */
+  static evaluate(
+    field: IInspectionFormField,
+    value: any,
+  ): InspectionItemResult | undefined {
+    if (isBlank(value)) return undefined;
+
+    switch (field.type) {
+      case "yes_no": {
+        const answer = String(value).toLowerCase();
+        if (!YES_NO_VALUES.includes(answer)) {
+          throw new HttpError(400, `"${field.label}" must be yes, no or n/a`);
+        }
+        if (answer === "n/a") return "na";
+        return field.failOptions.includes(answer) ? "fail" : "pass";
+      }
+      case "select": {
+        if (!field.options.includes(String(value))) {
+          throw new HttpError(
+            400,
+            `"${String(value)}" is not an option for "${field.label}"`,
+          );
+        }
+        return field.failOptions.includes(String(value)) ? "fail" : "pass";
+      }
+      case "number": {
+        const reading = Number(value);
+        if (Number.isNaN(reading)) {
+          throw new HttpError(400, `"${field.label}" must be a number`);
+        }
+        if (field.min === undefined && field.max === undefined) {
+          return undefined;
+        }
+        const outOfRange =
+          (field.min !== undefined && reading < field.min) ||
+          (field.max !== undefined && reading > field.max);
+        return outOfRange ? "fail" : "pass";
+      }
+      default:
+        // Text, photos and signatures are recorded, not judged
+        return undefined;
+    }
+  }
+
+  /**
+   * Turn submitted answers into report inspections, snapshotting each
+   * form so later edits don't change what was recorded
+   */
+  static async buildInspections(
+    tenantId: string,
+    submitted: SubmittedInspection[],
+  ): Promise<Omit<IReportInspection, "_id">[]> {
+    if (submitted.length === 0) return [];
+
+    const formIds = [...new Set(submitted.map((i) => i.formId))];
+    const assetIds = [
+      ...new Set(submitted.map((i) => i.assetId).filter(Boolean) as string[]),
+    ];
+
+    const [forms, assets] = await Promise.all([
+      InspectionForm.find({
+        _id: {
+          $in: formIds.filter((id) => mongoose.Types.ObjectId.isValid(id)),
+        },
+        tenantId,
+      }).lean<IInspectionForm[]>(),
+      Asset.find({
+        _id: {
+          $in: assetIds.filter((id) => mongoose.Types.ObjectId.isValid(id)),
+        },
+        tenantId,
+      })
+        .select("_id name")
+        .lean<any[]>(),
+    ]);
+    const formMap = new Map(forms.map((form) => [form._id.toString(), form]));
+    const assetMap = new Map(
+      assets.map((asset) => [asset._id.toString(), asset.name as string]),
+    );
+
+    return submitted.map((inspection) => {
+      const form = formMap.get(inspection.formId);
+      if (!form) {
+        throw new HttpError(400, "Inspection form not found");
+      }
+      if (inspection.assetId && !assetMap.has(inspection.assetId)) {
+        throw new HttpError(400, "Inspected asset not found");
+      }
+
+      const given = new Map(
+        inspection.answers.map((answer) => [answer.fieldKey, answer]),
+      );
+      const answers: IReportInspectionAnswer[] = form.fields.map((field) => {
+        const answer = given.get(field.key);
+        const value = isBlank(answer?.value) ? undefined : answer!.value;
+        return {
+          fieldKey: field.key,
+          label: field.label,
+          type: field.type,
+          required: field.required,
+          section: field.section,
+          value:
+            field.type === "number" && value !== undefined
+              ? Number(value)
+              : value,
+          unit: field.unit,
+          notes: answer?.notes || undefined,
+          result: this.evaluate(field, value),
+        };
+      });
+
+      const failedCount = answers.filter((a) => a.result === "fail").length;
+      return {
+        formId: form._id.toString(),
+        formName: form.name,
+        formVersion: form.version,
+        assetId: inspection.assetId,
+        assetName: inspection.assetId
+          ? assetMap.get(inspection.assetId)
+          : undefined,
+        answers,
+        passedCount: answers.filter((a) => a.result === "pass").length,
+        failedCount,
+        result: failedCount > 0 ? "fail" : "pass",
+        completedAt: new Date(),
+      };
+    });
+  }
+
+  /**
+   * Reject a report leaving the draft stage with required items unanswered
+   */
+  static assertComplete(
+    inspections: Pick<IReportInspection, "formName" | "answers">[],
+  ) {
+    for (const inspection of inspections) {
+      const missing = inspection.answers
+        .filter((answer) => answer.required && isBlank(answer.value))
+        .map((answer) => answer.label);
+      if (missing.length > 0) {
+        throw new HttpError(
+          400,
+          `"${inspection.formName}" is missing required answers: ${missing.join(", ")}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Which checklist items fail most often, and on which assets
+   */
+  static async getFailureAnalytics(
+    tenantId: string,
+    filters: InspectionFailureFilters = {},
+  ) {
+    const match: any = {
+      tenantId: new mongoose.Types.ObjectId(tenantId),
+      status: { $ne: "draft" },
+      "inspections.0": { $exists: true },
+    };
+    if (filters.clientId) {
+      match.clientId = new mongoose.Types.ObjectId(filters.clientId);
+    }
+    if (filters.from || filters.to) {
+      match.reportDate = {};
+      if (filters.from) match.reportDate.$gte = filters.from;
+      if (filters.to) match.reportDate.$lte = filters.to;
+    }
+
+    const inspectionMatch: any = {};
+    if (filters.formId) inspectionMatch["inspections.formId"] = filters.formId;
+    if (filters.assetId) {
+      inspectionMatch["inspections.assetId"] = filters.assetId;
+    }
+
+    const [result] = await Report.aggregate([
+      { $match: match },
+      { $unwind: "$inspections" },
+      { $match: inspectionMatch },
+      {
+        $facet: {
+          summary: [
+            {
+              $group: {
+                _id: null,
+                inspections: { $sum: 1 },
+                failedInspections: {
+                  $sum: {
+                    $cond: [{ $eq: ["$inspections.result", "fail"] }, 1, 0],
+                  },
+                },
+                failedItems: { $sum: "$inspections.failedCount" },
+              },
+            },
+          ],
+          items: [
+            { $unwind: "$inspections.answers" },
+            {
+              $match: {
+                "inspections.answers.result": { $in: ["pass", "fail"] },
+              },
+            },
+            {
+              $group: {
+                _id: {
+                  formId: "$inspections.formId",
+                  fieldKey: "$inspections.answers.fieldKey",
+                },
+                formName: { $last: "$inspections.formName" },
+                label: { $last: "$inspections.answers.label" },
+                checked: { $sum: 1 },
+                failed: {
+                  $sum: {
+                    $cond: [
+                      { $eq: ["$inspections.answers.result", "fail"] },
+                      1,
+                      0,
+                    ],
+                  },
+                },
+                lastFailedAt: {
+                  $max: {
+                    $cond: [
+                      { $eq: ["$inspections.answers.result", "fail"] },
+                      "$reportDate",
+                      null,
+                    ],
+                  },
+                },
+              },
+            },
+            { $match: { failed: { $gt: 0 } } },
+            {
+              $project: {
+                _id: 0,
+                formId: "$_id.formId",
+                fieldKey: "$_id.fieldKey",
+                formName: 1,
+                label: 1,
+                checked: 1,
+                failed: 1,
+                failureRate: { $divide: ["$failed", "$checked"] },
+                lastFailedAt: 1,
+              },
+            },
+            { $sort: { failed: -1, failureRate: -1 } },
+            { $limit: 50 },
+          ],
+          assets: [
+            {
+              $match: {
+                "inspections.assetId": { $exists: true, $ne: null },
+                "inspections.result": "fail",
+              },
+            },
+            {
+              $group: {
+                _id: "$inspections.assetId",
+                assetName: { $last: "$inspections.assetName" },
+                failedInspections: { $sum: 1 },
+                failedItems: { $sum: "$inspections.failedCount" },
+                lastFailedAt: { $max: "$reportDate" },
+              },
+            },
+            {
+              $project: {
+                _id: 0,
+                assetId: "$_id",
+                assetName: 1,
+                failedInspections: 1,
+                failedItems: 1,
+                lastFailedAt: 1,
+              },
+            },
+            { $sort: { failedItems: -1 } },
+            { $limit: 20 },
+          ],
+        },
+      },
+    ]);
+
+    return {
+      summary: result?.summary?.[0]
+        ? {
+            inspections: result.summary[0].inspections,
+            failedInspections: result.summary[0].failedInspections,
+            failedItems: result.summary[0].failedItems,
+          }
+        : { inspections: 0, failedInspections: 0, failedItems: 0 },
+      items: result?.items ?? [],
+      assets: result?.assets ?? [],
+    };
+  }
+
+  static async isInUse(tenantId: string, formId: string) {
+    const report = await Report.exists({
+      tenantId: new mongoose.Types.ObjectId(tenantId),
+      "inspections.formId": formId,
+    });
+    return !!report;
+  }
+}
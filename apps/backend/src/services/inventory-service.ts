@@ -0,0 +1,937 @@
+import { randomUUID } from "crypto";
+import {
+  Material,
+  Report,
+  StockLevel,
+  StockMovement,
+  StockReservation,
+  Task,
+  TaskMaterial,
+  Tenant,
+  User,
+  WorkOrder,
+} from "../models";
+import type {
+  IStockMovement,
+  StockMovementSource,
+  StockMovementType,
+} from "../models/StockMovement";
+import { HttpError } from "../middleware/http-error-middleware";
+import { NotificationService } from "./notification-service";
+import { StockLocationService } from "./stock-location-service";
+import { WebhookService } from "./webhook-service";
+import { stockChangedWebhookData } from "./webhook-payloads";
+
+// ----------------------------------------------------------------------
+
+export interface StockMovementInput {
+  materialId: string;
+  type: StockMovementType;
+  quantity: number;
+  unitCost?: number;
+  // Defaults to the tenant's default warehouse
+  locationId?: string;
+  transferId?: string;
+  source?: { type: StockMovementSource; id?: string };
+  workOrderId?: string;
+  notes?: string;
+  // Field usage is recorded even when it outruns the recorded stock
+  allowNegative?: boolean;
+}
+
+export interface ConsumptionLine {
+  materialId: string;
+  quantity: number;
+  locationId?: string;
+}
+
+export interface StockMovementQuery {
+  materialId?: string;
+  workOrderId?: string;
+  locationId?: string;
+  type?: StockMovementType;
+  limit: number;
+  offset: number;
+}
+
+const CONSUMPTION_TYPES: StockMovementType[] = ["consumption", "return"];
+const CLOSED_WORK_ORDER_STATUSES = ["completed", "cancelled"];
+
+const lineKey = (materialId: string, locationId: string) =>
+  `${materialId}:${locationId}`;
+
+// ----------------------------------------------------------------------
+
+export class InventoryService {
+  /**
+   * Post a movement to the ledger and apply it to the stock level at its
+   * location and to the material quantity
+   */
+  static async recordMovement(
+    tenantId: string,
+    userId: string,
+    input: StockMovementInput,
+  ): Promise<IStockMovement> {
+    if (!input.quantity) {
+      throw new HttpError(400, "Movement quantity cannot be zero");
+    }
+
+    const material = await Material.findOne({
+      _id: input.materialId,
+      tenantId,
+    });
+    if (!material) {
+      throw new HttpError(404, "Material not found");
+    }
+
+    const location = input.locationId
+      ? await StockLocationService.getActiveLocation(tenantId, input.locationId)
+      : await StockLocationService.getDefaultWarehouse(tenantId);
+
+    await this.ensureOpeningBalance(tenantId, userId, material);
+
+    await this.applyToLevel(
+      tenantId,
+      material,
+      location,
+      input.quantity,
+      input.allowNegative,
+    );
+
+    const updated = await Material.findOneAndUpdate(
+      { _id: material._id, tenantId },
+      { $inc: { quantity: input.quantity } },
+      { new: true },
+    );
+
+    const movement = await StockMovement.create({
+      tenantId: tenantId.toString(),
+      materialId: updated._id.toString(),
+      type: input.type,
+      quantity: input.quantity,
+      balanceAfter: updated.quantity,
+      unitCost: input.unitCost ?? updated.unitCost ?? 0,
+      locationId: location._id.toString(),
+      location: location.name,
+      transferId: input.transferId,
+      source: input.source || { type: "manual" },
+      workOrderId: input.workOrderId,
+      notes: input.notes,
+      createdBy: userId,
+    });
+
+    await this.checkLowStock(tenantId, userId, updated);
+
+    await WebhookService.triggerWebhooks(
+      tenantId.toString(),
+      "material.stock_changed",
+      stockChangedWebhookData(updated, [movement]),
+      movement._id.toString(),
+    );
+
+    return movement;
+  }
+
+  /**
+   * Record the quantity a material had before it was tracked in the ledger,
+   * and build its stock levels when it has none yet
+   */
+  static async ensureOpeningBalance(
+    tenantId: string,
+    userId: string,
+    material: any,
+  ): Promise<void> {
+    const materialId = material._id.toString();
+
+    const hasLevels = await StockLevel.exists({
+      tenantId: tenantId.toString(),
+      materialId,
+    });
+    if (hasLevels) return;
+
+    const hasMovements = await StockMovement.exists({ tenantId, materialId });
+    if (!hasMovements) {
+      if (!material.quantity) return;
+
+      const warehouse =
+        await StockLocationService.getDefaultWarehouse(tenantId);
+      await StockMovement.create({
+        tenantId: tenantId.toString(),
+        materialId,
+        type: "opening",
+        quantity: material.quantity,
+        balanceAfter: material.quantity,
+        unitCost: material.unitCost || 0,
+        locationId: warehouse._id.toString(),
+        location: warehouse.name,
+        source: { type: "manual" },
+        notes: "Opening balance",
+        createdBy: userId,
+      });
+    }
+
+    await this.rebuildStockLevels(tenantId, materialId);
+  }
+
+  /**
+   * Stock received into inventory. A receipt with a unit cost updates the
+   * material's unit cost using the tenant's costing method.
+   */
+  static async receive(
+    tenantId: string,
+    userId: string,
+    data: {
+      materialId: string;
+      quantity: number;
+      unitCost?: number;
+      locationId?: string;
+      notes?: string;
+      source?: { type: StockMovementSource; id?: string };
+    },
+  ): Promise<IStockMovement> {
+    if (data.unitCost !== undefined) {
+      await this.applyReceiptCost(
+        tenantId,
+        data.materialId,
+        data.quantity,
+        data.unitCost,
+      );
+    }
+
+    return this.recordMovement(tenantId, userId, {
+      ...data,
+      type: "receipt",
+    });
+  }
+
+  /**
+   * Correct the quantity on hand, e.g. after a stock count or breakage
+   */
+  static async adjust(
+    tenantId: string,
+    userId: string,
+    data: {
+      materialId: string;
+      quantity: number;
+      locationId?: string;
+      notes: string;
+    },
+  ): Promise<IStockMovement> {
+    return this.recordMovement(tenantId, userId, {
+      ...data,
+      type: "adjustment",
+    });
+  }
+
+  /**
+   * Adjust a material so its quantity on hand matches a counted quantity.
+   * The difference is booked at the default warehouse.
+   */
+  static async adjustToCount(
+    tenantId: string,
+    userId: string,
+    materialId: string,
+    countedQuantity: number,
+    notes: string,
+    source: StockMovementSource = "manual",
+  ): Promise<IStockMovement | null> {
+    const material = await Material.findOne({ _id: materialId, tenantId });
+    if (!material) {
+      throw new HttpError(404, "Material not found");
+    }
+
+    await this.ensureOpeningBalance(tenantId, userId, material);
+
+    const delta = countedQuantity - material.quantity;
+    if (delta === 0) return null;
+
+    return this.recordMovement(tenantId, userId, {
+      materialId,
+      type: "adjustment",
+      quantity: delta,
+      source: { type: source },
+      notes,
+      allowNegative: true,
+    });
+  }
+
+  /**
+   * Move stock between two locations; the total on hand is unchanged
+   */
+  static async transfer(
+    tenantId: string,
+    userId: string,
+    data: {
+      materialId: string;
+      quantity: number;
+      fromLocationId: string;
+      toLocationId: string;
+      notes?: string;
+    },
+  ): Promise<IStockMovement[]> {
+    if (data.fromLocationId === data.toLocationId) {
+      throw new HttpError(400, "Source and destination locations must differ");
+    }
+
+    const material = await Material.findOne({
+      _id: data.materialId,
+      tenantId,
+    });
+    if (!material) {
+      throw new HttpError(404, "Material not found");
+    }
+
+    const [from, to] = await Promise.all([
+      StockLocationService.getActiveLocation(tenantId, data.fromLocationId),
+      StockLocationService.getActiveLocation(tenantId, data.toLocationId),
+    ]);
+
+    await this.ensureOpeningBalance(tenantId, userId, material);
+
+    await this.applyToLevel(tenantId, material, from, -data.quantity);
+    await this.applyToLevel(tenantId, material, to, data.quantity);
+
+    const transferId = randomUUID();
+    const legs = [
+      { location: from, quantity: -data.quantity },
+      { location: to, quantity: data.quantity },
+    ];
+
+    const movements = (await StockMovement.insertMany(
+      legs.map((leg) => ({
+        tenantId: tenantId.toString(),
+        materialId: material._id.toString(),
+        type: "transfer",
+        quantity: leg.quantity,
+        balanceAfter: material.quantity,
+        unitCost: material.unitCost || 0,
+        locationId: leg.location._id.toString(),
+        location: leg.location.name,
+        transferId,
+        source: { type: "manual" },
+        notes: data.notes,
+        createdBy: userId,
+      })),
+    )) as unknown as IStockMovement[];
+
+    await WebhookService.triggerWebhooks(
+      tenantId.toString(),
+      "material.stock_changed",
+      stockChangedWebhookData(material, movements),
+      transferId,
+    );
+
+    return movements;
+  }
+
+  /**
+   * Quantity on hand per location
+   */
+  static async getLocationBalances(
+    tenantId: string,
+    materialId: string,
+  ): Promise<
+    Array<{
+      locationId: string;
+      location: string;
+      type: string;
+      quantity: number;
+    }>
+  > {
+    const material = await Material.findOne({ _id: materialId, tenantId });
+    if (!material) {
+      throw new HttpError(404, "Material not found");
+    }
+
+    const levels = await StockLevel.find({
+      tenantId: tenantId.toString(),
+      materialId,
+      quantity: { $ne: 0 },
+    })
+      .populate("locationId", "name type")
+      .lean();
+
+    return (levels as any[])
+      .map((level) => ({
+        locationId: (level.locationId?._id || level.locationId).toString(),
+        location: level.locationId?.name || "Unknown location",
+        type: level.locationId?.type || "warehouse",
+        quantity: level.quantity,
+      }))
+      .sort((a, b) => a.location.localeCompare(b.location));
+  }
+
+  /**
+   * Rebuild the material quantity, stock levels and reservations from the
+   * ledger
+   */
+  static async recalculate(
+    tenantId: string,
+    userId: string,
+    materialId: string,
+  ): Promise<{ previousQuantity: number; quantity: number; material: any }> {
+    const material = await Material.findOne({ _id: materialId, tenantId });
+    if (!material) {
+      throw new HttpError(404, "Material not found");
+    }
+
+    await this.ensureOpeningBalance(tenantId, userId, material);
+
+    const previousQuantity = material.quantity;
+    const quantity = await this.rebuildStockLevels(tenantId, materialId);
+
+    await Material.updateOne({ _id: material._id }, { $set: { quantity } });
+    await this.refreshReservedQuantities(tenantId, [materialId]);
+
+    const refreshed = await Material.findById(material._id);
+    await this.checkLowStock(tenantId, userId, refreshed);
+
+    return { previousQuantity, quantity, material: refreshed };
+  }
+
+  /**
+   * Ledger entries, newest first
+   */
+  static async getMovements(tenantId: string, query: StockMovementQuery) {
+    const filter: Record<string, any> = { tenantId: tenantId.toString() };
+    if (query.materialId) filter.materialId = query.materialId;
+    if (query.workOrderId) filter.workOrderId = query.workOrderId;
+    if (query.locationId) filter.locationId = query.locationId;
+    if (query.type) filter.type = query.type;
+
+    const [movements, total] = await Promise.all([
+      StockMovement.find(filter)
+        .sort({ createdAt: -1 })
+        .skip(query.offset)
+        .limit(query.limit)
+        .populate("materialId", "name sku unit")
+        .populate("createdBy", "firstName lastName email")
+        .lean(),
+      StockMovement.countDocuments(filter),
+    ]);
+
+    return {
+      movements,
+      pagination: {
+        total,
+        limit: query.limit,
+        offset: query.offset,
+        hasMore: query.offset + query.limit < total,
+      },
+    };
+  }
+
+  /**
+   * Active materials whose quantity on hand is below their minimum stock
+   */
+  static async getLowStock(tenantId: string) {
+    return Material.find({
+      tenantId,
+      isActive: true,
+      minimumStock: { $gt: 0 },
+      $expr: { $lt: ["$quantity", "$minimumStock"] },
+    })
+      .sort({ name: 1 })
+      .lean();
+  }
+
+  // ----------------------------------------------------------------------
+
+  /**
+   * Bring the ledger in line with the quantities a source says were used.
+   * Only the difference to what the source already consumed at each
+   * location is posted, so calling this after every edit is safe.
+   */
+  static async syncConsumption(
+    tenantId: string,
+    userId: string,
+    source: { type: "task" | "report"; id: string },
+    lines: ConsumptionLine[],
+    workOrderId?: string,
+  ): Promise<void> {
+    const warehouse = await StockLocationService.getDefaultWarehouse(tenantId);
+    const defaultLocationId = warehouse._id.toString();
+
+    const desired = new Map<string, number>();
+    for (const line of lines) {
+      const key = lineKey(
+        line.materialId.toString(),
+        line.locationId?.toString() || defaultLocationId,
+      );
+      desired.set(key, (desired.get(key) || 0) + line.quantity);
+    }
+
+    const rows = await StockMovement.aggregate([
+      {
+        $match: {
+          tenantId: tenantId.toString(),
+          "source.type": source.type,
+          "source.id": source.id,
+          type: { $in: CONSUMPTION_TYPES },
+        },
+      },
+      {
+        $group: {
+          _id: { materialId: "$materialId", locationId: "$locationId" },
+          quantity: { $sum: "$quantity" },
+        },
+      },
+    ]);
+    const consumed = new Map<string, number>();
+    for (const row of rows) {
+      const key = lineKey(
+        row._id.materialId,
+        row._id.locationId || defaultLocationId,
+      );
+      consumed.set(key, (consumed.get(key) || 0) - row.quantity);
+    }
+
+    const keys = new Set([...desired.keys(), ...consumed.keys()]);
+    for (const key of keys) {
+      const delta = (desired.get(key) || 0) - (consumed.get(key) || 0);
+      if (delta === 0) continue;
+
+      const [materialId, locationId] = key.split(":");
+      await this.recordMovement(tenantId, userId, {
+        materialId,
+        locationId,
+        type: delta > 0 ? "consumption" : "return",
+        quantity: -delta,
+        source,
+        workOrderId,
+        allowNegative: true,
+      });
+    }
+
+    if (workOrderId) {
+      await this.syncWorkOrderReservations(tenantId, workOrderId);
+    }
+  }
+
+  /**
+   * Consume the materials recorded on a task from the location each one
+   * was taken from
+   */
+  static async syncTaskConsumption(
+    tenantId: string,
+    userId: string,
+    taskId: string,
+  ): Promise<void> {
+    const [task, taskMaterials] = await Promise.all([
+      Task.findOne({ _id: taskId, tenantId }).select("workOrderId").lean<{
+        workOrderId?: string;
+      }>(),
+      TaskMaterial.find({ taskId, tenantId })
+        .select("materialId quantity locationId")
+        .lean(),
+    ]);
+
+    await this.syncConsumption(
+      tenantId,
+      userId,
+      { type: "task", id: taskId.toString() },
+      (taskMaterials as any[]).map((tm) => ({
+        materialId: tm.materialId.toString(),
+        quantity: tm.quantity,
+        locationId: tm.locationId?.toString(),
+      })),
+      task?.workOrderId?.toString(),
+    );
+  }
+
+  /**
+   * Consume the materials listed on a report from the van of the
+   * technician who filed it. Reports are usually filled in from their
+   * tasks, so stock already consumed on those tasks is not taken a second
+   * time.
+   */
+  static async syncReportConsumption(
+    tenantId: string,
+    userId: string,
+    reportId: string,
+  ): Promise<void> {
+    const report = await Report.findOne({ _id: reportId, tenantId })
+      .select("materialsUsed taskIds workOrderId assignedTo createdBy")
+      .lean<any>();
+
+    if (!report) {
+      await this.syncConsumption(
+        tenantId,
+        userId,
+        { type: "report", id: reportId.toString() },
+        [],
+      );
+      return;
+    }
+
+    const consumedOnTasks = await this.consumedBySources(
+      tenantId,
+      "task",
+      (report.taskIds || []).map((id: any) => id.toString()),
+    );
+
+    const reported = new Map<string, number>();
+    for (const usage of report.materialsUsed || []) {
+      const materialId = (
+        usage.materialId?._id || usage.materialId
+      )?.toString();
+      if (!materialId) continue;
+      reported.set(
+        materialId,
+        (reported.get(materialId) || 0) + (usage.quantityUsed || 0),
+      );
+    }
+
+    const location = await StockLocationService.resolveUserLocation(tenantId, [
+      report.assignedTo?.toString(),
+      report.createdBy?.toString(),
+    ]);
+
+    const lines = Array.from(reported.entries()).map(
+      ([materialId, quantity]) => ({
+        materialId,
+        locationId: location._id.toString(),
+        quantity: Math.max(
+          0,
+          quantity - (consumedOnTasks.get(materialId) || 0),
+        ),
+      }),
+    );
+
+    const workOrderId = (
+      report.workOrderId?._id || report.workOrderId
+    )?.toString();
+
+    await this.syncConsumption(
+      tenantId,
+      userId,
+      { type: "report", id: report._id.toString() },
+      lines,
+      workOrderId,
+    );
+  }
+
+  /**
+   * Reserve what an open work order has planned but not yet consumed.
+   * Closed or deleted work orders release their reservations.
+   */
+  static async syncWorkOrderReservations(
+    tenantId: string,
+    workOrderId: string,
+  ): Promise<void> {
+    const workOrder = await WorkOrder.findOne({ _id: workOrderId, tenantId })
+      .select("status materials")
+      .lean<any>();
+
+    const planned = new Map<string, number>();
+    if (workOrder && !CLOSED_WORK_ORDER_STATUSES.includes(workOrder.status)) {
+      for (const item of workOrder.materials || []) {
+        if (!item.materialId) continue;
+        const materialId = item.materialId.toString();
+        planned.set(materialId, (planned.get(materialId) || 0) + item.quantity);
+      }
+    }
+
+    const consumedRows = await StockMovement.aggregate([
+      {
+        $match: {
+          tenantId: tenantId.toString(),
+          workOrderId: workOrderId.toString(),
+          type: { $in: CONSUMPTION_TYPES },
+        },
+      },
+      { $group: { _id: "$materialId", quantity: { $sum: "$quantity" } } },
+    ]);
+    const consumed = new Map<string, number>(
+      consumedRows.map((row) => [row._id, -row.quantity]),
+    );
+
+    const existing = await StockReservation.find({
+      tenantId: tenantId.toString(),
+      workOrderId: workOrderId.toString(),
+    })
+      .select("materialId")
+      .lean();
+
+    const materialIds = new Set([
+      ...planned.keys(),
+      ...(existing as any[]).map((reservation) => reservation.materialId),
+    ]);
+
+    for (const materialId of materialIds) {
+      const quantity = Math.max(
+        0,
+        (planned.get(materialId) || 0) - (consumed.get(materialId) || 0),
+      );
+      const key = {
+        tenantId: tenantId.toString(),
+        workOrderId: workOrderId.toString(),
+        materialId,
+      };
+
+      if (quantity > 0) {
+        await StockReservation.updateOne(
+          key,
+          { $set: { quantity } },
+          { upsert: true },
+        );
+      } else {
+        await StockReservation.deleteOne(key);
+      }
+    }
+
+    await this.refreshReservedQuantities(tenantId, Array.from(materialIds));
+  }
+
+  // ----------------------------------------------------------------------
+
+  /**
+   * Net quantity consumed per material by the given sources
+   */
+  private static async consumedBySources(
+    tenantId: string,
+    sourceType: "task" | "report",
+    sourceIds: string[],
+  ): Promise<Map<string, number>> {
+    if (sourceIds.length === 0) return new Map();
+
+    const rows = await StockMovement.aggregate([
+      {
+        $match: {
+          tenantId: tenantId.toString(),
+          "source.type": sourceType,
+          "source.id": { $in: sourceIds },
+          type: { $in: CONSUMPTION_TYPES },
+        },
+      },
+      { $group: { _id: "$materialId", quantity: { $sum: "$quantity" } } },
+    ]);
+
+    return new Map(rows.map((row) => [row._id, -row.quantity]));
+  }
+
+  /**
+   * Last cost takes the receipt's cost as is; weighted average blends it
+   * with the cost of the stock already on hand
+   */
+  private static async applyReceiptCost(
+    tenantId: string,
+    materialId: string,
+    quantity: number,
+    unitCost: number,
+  ): Promise<void> {
+    const [material, tenant] = await Promise.all([
+      Material.findOne({ _id: materialId, tenantId }),
+      Tenant.findById(tenantId).select("settings.inventory").lean<any>(),
+    ]);
+    if (!material || quantity <= 0) return;
+
+    const method =
+      tenant?.settings?.inventory?.costingMethod || "weighted_average";
+
+    let cost = unitCost;
+    if (method === "weighted_average") {
+      const onHand = Math.max(material.quantity || 0, 0);
+      cost =
+        (onHand * (material.unitCost || 0) + quantity * unitCost) /
+        (onHand + quantity);
+    }
+
+    await Material.updateOne(
+      { _id: material._id },
+      { $set: { unitCost: Math.round(cost * 10000) / 10000 } },
+    );
+  }
+
+  /**
+   * Apply a quantity change to the stock level of a material at a location.
+   * Decrements are guarded atomically so concurrent movements cannot
+   * oversell a location.
+   */
+  private static async applyToLevel(
+    tenantId: string,
+    material: any,
+    location: any,
+    quantity: number,
+    allowNegative = false,
+  ): Promise<void> {
+    const key = {
+      tenantId: tenantId.toString(),
+      materialId: material._id.toString(),
+      locationId: location._id.toString(),
+    };
+
+    if (quantity > 0 || allowNegative) {
+      await StockLevel.updateOne(key, { $inc: { quantity } }, { upsert: true });
+      return;
+    }
+
+    const updated = await StockLevel.findOneAndUpdate(
+      { ...key, quantity: { $gte: -quantity } },
+      { $inc: { quantity } },
+      { new: true },
+    );
+    if (!updated) {
+      const level = await StockLevel.findOne(key)
+        .select("quantity")
+        .lean<{ quantity: number }>();
+      throw new HttpError(
+        409,
+        `Insufficient stock for ${material.name} at ${location.name}: ${level?.quantity || 0} ${material.unit} on hand`,
+      );
+    }
+  }
+
+  /**
+   * Replace a material's stock levels with the per-location sums of its
+   * ledger. Movements from before locations existed count towards the
+   * default warehouse. Returns the total on hand.
+   */
+  private static async rebuildStockLevels(
+    tenantId: string,
+    materialId: string,
+  ): Promise<number> {
+    const warehouse = await StockLocationService.getDefaultWarehouse(tenantId);
+    const defaultLocationId = warehouse._id.toString();
+
+    const rows = await StockMovement.aggregate([
+      { $match: { tenantId: tenantId.toString(), materialId } },
+      { $group: { _id: "$locationId", quantity: { $sum: "$quantity" } } },
+    ]);
+
+    const levels = new Map<string, number>();
+    for (const row of rows) {
+      const locationId = row._id || defaultLocationId;
+      levels.set(locationId, (levels.get(locationId) || 0) + row.quantity);
+    }
+
+    await StockLevel.deleteMany({
+      tenantId: tenantId.toString(),
+      materialId,
+      locationId: { $nin: Array.from(levels.keys()) },
+    });
+    await Promise.all(
+      Array.from(levels.entries()).map(([locationId, quantity]) =>
+        StockLevel.updateOne(
+          { tenantId: tenantId.toString(), materialId, locationId },
+          { $set: { quantity } },
+          { upsert: true },
+        ),
+      ),
+    );
+
+    return Array.from(levels.values()).reduce((sum, qty) => sum + qty, 0);
+  }
+
+  private static async refreshReservedQuantities(
+    tenantId: string,
+    materialIds: string[],
+  ): Promise<void> {
+    if (materialIds.length === 0) return;
+
+    const rows = await StockReservation.aggregate([
+      {
+        $match: {
+          tenantId: tenantId.toString(),
+          materialId: { $in: materialIds },
+        },
+      },
+      { $group: { _id: "$materialId", quantity: { $sum: "$quantity" } } },
+    ]);
+    const reserved = new Map<string, number>(
+      rows.map((row) => [row._id, row.quantity]),
+    );
+
+    await Promise.all(
+      materialIds.map((materialId) =>
+        Material.updateOne(
+          { _id: materialId, tenantId },
+          { $set: { reservedQuantity: reserved.get(materialId) || 0 } },
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Alert once when a material drops below its minimum stock, and re-arm
+   * the alert when it is restocked
+   */
+  private static async checkLowStock(
+    tenantId: string,
+    userId: string,
+    material: any,
+  ): Promise<void> {
+    if (!material || !material.minimumStock) return;
+
+    if (material.quantity >= material.minimumStock) {
+      if (material.lowStockNotifiedAt) {
+        await Material.updateOne(
+          { _id: material._id },
+          { $unset: { lowStockNotifiedAt: 1 } },
+        );
+      }
+      return;
+    }
+
+    // Claim the alert so concurrent movements only notify once
+    const claimed = await Material.findOneAndUpdate(
+      { _id: material._id, lowStockNotifiedAt: null },
+      { $set: { lowStockNotifiedAt: new Date() } },
+      { new: true },
+    );
+    if (!claimed) return;
+
+    try {
+      const recipients = await User.find({
+        tenantId: tenantId.toString(),
+        isActive: true,
+        $or: [
+          { isTenantOwner: true },
+          { role: { $in: ["admin", "supervisor"] } },
+        ],
+      })
+        .select("_id")
+        .lean();
+
+      await Promise.all(
+        recipients.map((recipient: any) =>
+          NotificationService.createNotification({
+            tenantId: tenantId.toString(),
+            userId: recipient._id.toString(),
+            type: "low_stock",
+            category: "inventory",
+            title: `Low stock: ${claimed.name}`,
+            message: `${claimed.quantity} ${claimed.unit} on hand, minimum is ${claimed.minimumStock} ${claimed.unit}`,
+            relatedEntity: {
+              entityType: "material",
+              entityId: claimed._id.toString(),
+              entityTitle: claimed.name,
+            },
+            metadata: { materialId: claimed._id.toString() },
+            createdBy: userId,
+          }),
+        ),
+      );
+    } catch (error) {
+      console.error("Error creating low stock notifications:", error);
+    }
+
+    await WebhookService.triggerWebhooks(
+      tenantId.toString(),
+      "material.low_stock",
+      {
+        material: {
+          _id: claimed._id,
+          name: claimed.name,
+          sku: claimed.sku,
+          unit: claimed.unit,
+          quantity: claimed.quantity,
+          reservedQuantity: claimed.reservedQuantity,
+          minimumStock: claimed.minimumStock,
+        },
+      },
+      // Refills re-arm the alert, so each claim is its own event
+      `${claimed._id}:low_stock:${claimed.lowStockNotifiedAt!.getTime()}`,
+    );
+  }
+}
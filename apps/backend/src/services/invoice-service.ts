@@ -0,0 +1,557 @@
+import { isValidObjectId } from "mongoose";
+import { Invoice, Client, Report, WorkOrder } from "../models";
+import type {
+  IInvoice,
+  IInvoiceLineItem,
+  IInvoicePayment,
+} from "../models/Invoice";
+import { getNextSequence } from "../models/counter";
+import { HttpError } from "../middleware/http-error-middleware";
+
+// ----------------------------------------------------------------------
+
+export interface InvoiceOptions {
+  taxRate?: number;
+  dueDate?: Date;
+  notes?: string;
+}
+
+// Reports in these states have been signed off and can be billed
+const BILLABLE_REPORT_STATUSES = ["approved", "published"];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// ----------------------------------------------------------------------
+
+export class InvoiceService {
+  /**
+   * Generate the next per-tenant invoice number (INV-000001)
+   */
+  static async generateInvoiceNumber(tenantId: string): Promise<string> {
+    const seq = await getNextSequence(tenantId, "invoice");
+    return `INV-${String(seq).padStart(6, "0")}`;
+  }
+
+  /**
+   * Snapshot of the client as it should appear on the invoice
+   */
+  static buildBillTo(client: any): IInvoice["billTo"] {
+    return {
+      name: client.name,
+      company: client.company,
+      email: client.email,
+      vatNumber: client.vatNumber,
+      address: client.billingAddress?.street
+        ? client.billingAddress
+        : client.address,
+    };
+  }
+
+  /**
+   * Turn approved reports into invoice lines: one labor line per report
+   * priced from totalLaborCost, plus one line per material used.
+   */
+  static buildLinesFromReports(reports: any[]): IInvoiceLineItem[] {
+    const lines: IInvoiceLineItem[] = [];
+
+    for (const report of reports) {
+      const reportId = report._id.toString();
+      const reportLabel =
+        report.workOrderData?.title ||
+        `${report.type} report ${new Date(report.reportDate).toLocaleDateString()}`;
+
+      const minutes = (report.timeEntries || []).reduce(
+        (sum: number, entry: any) => sum + (entry.duration || 0),
+        0,
+      );
+      const hours = round(minutes / 60);
+      const laborCost = report.totalLaborCost || 0;
+
+      const hourlyRate = hours > 0 ? round(laborCost / hours) : 0;
+
+      // The invoice recomputes each line as quantity × unit price, so bill
+      // by the hour only when that lands exactly on the report's labor cost
+      if (hours > 0 && round(hours * hourlyRate) === round(laborCost)) {
+        lines.push({
+          type: "labor",
+          description: `Labor - ${reportLabel}`,
+          quantity: hours,
+          unit: "h",
+          unitPrice: hourlyRate,
+          total: round(laborCost),
+          reportId,
+        });
+      } else if (laborCost > 0 || hours > 0) {
+        lines.push({
+          type: "labor",
+          description:
+            hours > 0
+              ? `Labor - ${reportLabel} (${hours} h)`
+              : `Labor - ${reportLabel}`,
+          quantity: 1,
+          unitPrice: round(laborCost),
+          total: round(laborCost),
+          reportId,
+        });
+      }
+
+      for (const usage of report.materialsUsed || []) {
+        lines.push({
+          type: "material",
+          description: usage.material?.name || "Material",
+          quantity: usage.quantityUsed,
+          unit: usage.material?.unit,
+          unitPrice: usage.unitCost,
+          total: round(usage.totalCost ?? usage.quantityUsed * usage.unitCost),
+          reportId,
+          materialId: usage.materialId?.toString(),
+        });
+      }
+    }
+
+    return lines;
+  }
+
+  /**
+   * Check that the work order and reports a manual invoice points at belong
+   * to the tenant
+   */
+  static async assertReferences(
+    tenantId: string,
+    refs: { workOrderId?: string; lineItems?: { reportId?: string }[] },
+  ): Promise<void> {
+    if (refs.workOrderId) {
+      if (!isValidObjectId(refs.workOrderId)) {
+        throw new HttpError(400, "Invalid work order ID");
+      }
+      const workOrder = await WorkOrder.exists({
+        _id: refs.workOrderId,
+        tenantId,
+      });
+      if (!workOrder) {
+        throw new HttpError(404, "Work order not found");
+      }
+    }
+
+    const reportIds = [
+      ...new Set(
+        (refs.lineItems || [])
+          .map((item) => item.reportId)
+          .filter((id): id is string => Boolean(id)),
+      ),
+    ];
+    if (reportIds.length > 0) {
+      if (reportIds.some((id) => !isValidObjectId(id))) {
+        throw new HttpError(400, "Invalid report ID");
+      }
+      const found = await Report.countDocuments({
+        _id: { $in: reportIds },
+        tenantId,
+      });
+      if (found !== reportIds.length) {
+        throw new HttpError(404, "One or more reports not found");
+      }
+    }
+  }
+
+  /**
+   * Report ids that already appear on a non-void invoice
+   */
+  static async getInvoicedReportIds(
+    tenantId: string,
+    reportIds: string[],
+  ): Promise<Set<string>> {
+    const invoices = await Invoice.find(
+      {
+        tenantId,
+        reportIds: { $in: reportIds },
+        status: { $ne: "void" },
+      },
+      { reportIds: 1 },
+    ).lean();
+
+    return new Set(
+      (invoices as any[]).flatMap((invoice) => invoice.reportIds || []),
+    );
+  }
+
+  /**
+   * Create a draft invoice for a completed work order. Lines come from the
+   * work order's approved, not yet invoiced reports, falling back to the
+   * work order's own cost breakdown when it has no reports.
+   */
+  static async createFromWorkOrder(
+    tenant: any,
+    workOrderId: string,
+    userId: string,
+    options: InvoiceOptions = {},
+  ) {
+    const tenantId = tenant._id.toString();
+
+    const workOrder = await WorkOrder.findOne({ _id: workOrderId, tenantId });
+    if (!workOrder) {
+      throw new HttpError(404, "Work order not found");
+    }
+
+    if (workOrder.status !== "completed") {
+      throw new HttpError(400, "Only completed work orders can be invoiced");
+    }
+
+    const existing = await Invoice.findOne({
+      tenantId,
+      workOrderId,
+      status: { $ne: "void" },
+    });
+    if (existing) {
+      throw new HttpError(409, "This work order has already been invoiced");
+    }
+
+    const reports = await Report.find({
+      tenantId,
+      workOrderId,
+      status: { $in: BILLABLE_REPORT_STATUSES },
+    }).lean();
+
+    const invoiced = await this.getInvoicedReportIds(
+      tenantId,
+      (reports as any[]).map((report) => report._id.toString()),
+    );
+    const billableReports = (reports as any[]).filter(
+      (report) => !invoiced.has(report._id.toString()),
+    );
+
+    let lineItems = this.buildLinesFromReports(billableReports);
+
+    if (lineItems.length === 0 && billableReports.length === 0) {
+      lineItems = [
+        ...(workOrder.cost?.labor > 0
+          ? [
+              {
+                type: "labor" as const,
+                description: `Labor - ${workOrder.title}`,
+                quantity: 1,
+                unitPrice: workOrder.cost.labor,
+                total: workOrder.cost.labor,
+              },
+            ]
+          : []),
+        ...(workOrder.materials || []).map((material: any) => ({
+          type: "material" as const,
+          description: material.name,
+          quantity: material.quantity,
+          unitPrice: material.unitPrice,
+          total: material.total,
+        })),
+      ];
+    }
+
+    if (lineItems.length === 0) {
+      throw new HttpError(
+        400,
+        "Nothing to invoice: the work order has no approved reports or costs",
+      );
+    }
+
+    return this.createDraft(tenant, {
+      clientId: workOrder.clientId,
+      workOrderId,
+      reportIds: billableReports.map((report) => report._id.toString()),
+      lineItems,
+      userId,
+      options,
+    });
+  }
+
+  /**
+   * Create a draft invoice from one or more approved reports of a single client
+   */
+  static async createFromReports(
+    tenant: any,
+    reportIds: string[],
+    userId: string,
+    options: InvoiceOptions = {},
+  ) {
+    const tenantId = tenant._id.toString();
+
+    const reports = await Report.find({
+      _id: { $in: reportIds },
+      tenantId,
+    }).lean();
+
+    if (reports.length !== reportIds.length) {
+      throw new HttpError(404, "One or more reports were not found");
+    }
+
+    const notApproved = (reports as any[]).filter(
+      (report) => !BILLABLE_REPORT_STATUSES.includes(report.status),
+    );
+    if (notApproved.length > 0) {
+      throw new HttpError(400, "Only approved reports can be invoiced");
+    }
+
+    const clientIds = new Set(
+      (reports as any[]).map((report) => report.clientId?.toString()),
+    );
+    if (clientIds.size !== 1 || clientIds.has(undefined)) {
+      throw new HttpError(
+        400,
+        "All reports must belong to the same client to be invoiced together",
+      );
+    }
+
+    const invoiced = await this.getInvoicedReportIds(tenantId, reportIds);
+    if (invoiced.size > 0) {
+      throw new HttpError(409, "One or more reports have already been invoiced");
+    }
+
+    const lineItems = this.buildLinesFromReports(reports as any[]);
+    if (lineItems.length === 0) {
+      throw new HttpError(400, "The selected reports have no billable time or materials");
+    }
+
+    // Link the work order when every report belongs to the same one
+    const workOrderIds = new Set(
+      (reports as any[]).map((report) => report.workOrderId?.toString()),
+    );
+
+    return this.createDraft(tenant, {
+      clientId: [...clientIds][0] as string,
+      workOrderId:
+        workOrderIds.size === 1 ? ([...workOrderIds][0] as string) : undefined,
+      reportIds,
+      lineItems,
+      userId,
+      options,
+    });
+  }
+
+  /**
+   * Create a draft invoice with the tenant currency and default VAT rate
+   */
+  static async createDraft(
+    tenant: any,
+    params: {
+      clientId: string;
+      workOrderId?: string;
+      reportIds?: string[];
+      lineItems: IInvoiceLineItem[];
+      userId: string;
+      options?: InvoiceOptions;
+    },
+  ) {
+    const tenantId = tenant._id.toString();
+
+    const client = await Client.findOne({ _id: params.clientId, tenantId });
+    if (!client) {
+      throw new HttpError(404, "Client not found");
+    }
+
+    const invoice = new Invoice({
+      tenantId,
+      clientId: params.clientId,
+      workOrderId: params.workOrderId,
+      reportIds: params.reportIds || [],
+      billTo: this.buildBillTo(client),
+      status: "draft",
+      lineItems: params.lineItems,
+      currency: tenant.settings?.currency || "EUR",
+      taxRate:
+        params.options?.taxRate ?? tenant.settings?.invoicing?.taxRate ?? 0,
+      dueDate: params.options?.dueDate,
+      notes: params.options?.notes,
+      createdBy: params.userId,
+      history: [
+        {
+          status: "draft",
+          timestamp: new Date(),
+          userId: params.userId,
+          notes: "Invoice created",
+        },
+      ],
+    });
+
+    await invoice.save();
+
+    return invoice;
+  }
+
+  /**
+   * Issue a draft invoice: assign its number, issue date and due date
+   */
+  static async issue(invoice: any, tenant: any, userId: string) {
+    if (invoice.status !== "draft") {
+      throw new HttpError(400, "Only draft invoices can be issued");
+    }
+
+    if (!invoice.lineItems || invoice.lineItems.length === 0) {
+      throw new HttpError(400, "Add at least one line item before issuing");
+    }
+
+    const tenantId = tenant._id.toString();
+    const issueDate = new Date();
+    const termsDays = tenant.settings?.invoicing?.paymentTermsDays ?? 30;
+
+    // Refresh the client snapshot so the issued invoice reflects current VAT details
+    const client = await Client.findOne({ _id: invoice.clientId, tenantId });
+    if (client) {
+      invoice.billTo = this.buildBillTo(client);
+    }
+
+    invoice.invoiceNumber = await this.generateInvoiceNumber(tenantId);
+    invoice.issueDate = issueDate;
+    if (!invoice.dueDate) {
+      invoice.dueDate = new Date(
+        issueDate.getTime() + termsDays * 24 * 60 * 60 * 1000,
+      );
+    }
+    invoice.status = "issued";
+    this.pushHistory(invoice, "issued", userId, `Issued as ${invoice.invoiceNumber}`);
+
+    await invoice.save();
+
+    return invoice;
+  }
+
+  /**
+   * Record a payment and move the invoice to partial or paid
+   */
+  static async recordPayment(
+    invoice: any,
+    payment: Omit<IInvoicePayment, "_id" | "recordedBy">,
+    userId: string,
+  ) {
+    if (!["issued", "partial", "overdue"].includes(invoice.status)) {
+      throw new HttpError(
+        400,
+        `Payments cannot be recorded on a ${invoice.status} invoice`,
+      );
+    }
+
+    const outstanding = round(invoice.total - (invoice.amountPaid || 0));
+    if (payment.amount > outstanding) {
+      throw new HttpError(
+        400,
+        `Payment exceeds the outstanding balance of ${outstanding.toFixed(2)}`,
+      );
+    }
+
+    invoice.payments.push({ ...payment, recordedBy: userId });
+    const amountPaid = round(
+      invoice.payments.reduce((sum: number, p: any) => sum + p.amount, 0),
+    );
+
+    const previousStatus = invoice.status;
+    invoice.status = this.resolvePaymentStatus(invoice, amountPaid);
+    if (invoice.status === "paid") {
+      invoice.paidAt = payment.paidAt || new Date();
+    }
+
+    if (invoice.status !== previousStatus) {
+      this.pushHistory(
+        invoice,
+        invoice.status,
+        userId,
+        `Payment of ${payment.amount.toFixed(2)} recorded`,
+      );
+    }
+
+    await invoice.save();
+
+    return invoice;
+  }
+
+  /**
+   * Work out the status of an issued invoice from what has been paid
+   */
+  static resolvePaymentStatus(
+    invoice: any,
+    amountPaid: number,
+  ): IInvoice["status"] {
+    if (amountPaid >= invoice.total) return "paid";
+    if (invoice.dueDate && new Date(invoice.dueDate) < new Date()) {
+      return "overdue";
+    }
+    return amountPaid > 0 ? "partial" : "issued";
+  }
+
+  /**
+   * Flag unpaid invoices past their due date as overdue.
+   * Scoped to one tenant when tenantId is given (for cron job otherwise).
+   */
+  static async markOverdueInvoices(tenantId?: string): Promise<number> {
+    const now = new Date();
+    const result = await Invoice.updateMany(
+      {
+        ...(tenantId ? { tenantId } : {}),
+        status: { $in: ["issued", "partial"] },
+        dueDate: { $lt: now },
+        balanceDue: { $gt: 0 },
+      },
+      {
+        $set: { status: "overdue" },
+        $push: {
+          history: {
+            status: "overdue",
+            timestamp: now,
+            notes: "Payment due date passed",
+          },
+        },
+      },
+    );
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Completed work orders and approved reports that have not been invoiced yet
+   */
+  static async getBillableItems(tenantId: string) {
+    const invoicedWorkOrderIds = await Invoice.distinct("workOrderId", {
+      tenantId,
+      status: { $ne: "void" },
+      workOrderId: { $exists: true },
+    });
+    const invoicedReportIds = await Invoice.distinct("reportIds", {
+      tenantId,
+      status: { $ne: "void" },
+    });
+
+    const [workOrders, reports] = await Promise.all([
+      WorkOrder.find({
+        tenantId,
+        status: "completed",
+        _id: { $nin: invoicedWorkOrderIds },
+      })
+        .select("workOrderNumber title clientId completedAt cost")
+        .populate("clientId", "name company")
+        .sort({ completedAt: -1 })
+        .limit(100)
+        .lean(),
+      Report.find({
+        tenantId,
+        status: { $in: BILLABLE_REPORT_STATUSES },
+        _id: { $nin: invoicedReportIds },
+      })
+        .select(
+          "type status reportDate clientId clientData workOrderId workOrderData totalCost",
+        )
+        .sort({ reportDate: -1 })
+        .limit(100)
+        .lean(),
+    ]);
+
+    return { workOrders, reports };
+  }
+
+  /**
+   * Record a status transition on the invoice history
+   */
+  static pushHistory(
+    invoice: IInvoice,
+    status: IInvoice["status"],
+    userId?: string,
+    notes?: string,
+  ): void {
+    invoice.history.push({ status, timestamp: new Date(), userId, notes });
+  }
+}
@@ -0,0 +1,338 @@
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+import { CheckInSession } from "../models/CheckInSession";
+import { LocationPing } from "../models/LocationPing";
+import { Personnel } from "../models/Personnel";
+import { Tenant } from "../models/Tenant";
+import { HttpError } from "../middleware/http-error-middleware";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+// ----------------------------------------------------------------------
+
+export interface TrackingSettings {
+  enabled: boolean;
+  retentionDays: number;
+}
+
+export interface LocationUpdateInput {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  heading?: number;
+  speed?: number;
+  capturedAt?: string | Date;
+}
+
+export interface LiveActiveTask {
+  sessionId: string;
+  taskId: string;
+  taskTitle?: string;
+  workOrderId?: string;
+  workOrderNumber?: string;
+  checkInTime: Date;
+}
+
+export interface LiveTechnician {
+  personnelId: string;
+  name: string;
+  employeeId?: string;
+  location: {
+    latitude: number;
+    longitude: number;
+    accuracy?: number;
+    heading?: number;
+    speed?: number;
+    lastUpdated: Date;
+  };
+  activeTask?: LiveActiveTask;
+}
+
+export const DEFAULT_TRACKING_SETTINGS: TrackingSettings = {
+  enabled: true,
+  retentionDays: 30,
+};
+
+// Fixes closer together than this update the live marker but are not
+// stored as separate breadcrumbs
+const MIN_PING_INTERVAL_MS = 15 * 1000;
+
+// Technicians not heard from for longer than this drop off the live map
+const LIVE_WINDOW_HOURS = 12;
+
+// Queued fixes older than this are too stale to be worth storing
+const MAX_PING_AGE_MS = 24 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const personnelName = (person: any) =>
+  person?.userId?.firstName || person?.userId?.lastName
+    ? `${person.userId.firstName || ""} ${person.userId.lastName || ""}`.trim()
+    : person?.employeeId || "Unknown";
+
+// ----------------------------------------------------------------------
+
+export class LocationTrackingService {
+  static async getSettings(tenantId: string): Promise<TrackingSettings> {
+    const tenant = await Tenant.findById(tenantId)
+      .select("settings.tracking")
+      .lean<any>();
+    return {
+      ...DEFAULT_TRACKING_SETTINGS,
+      ...(tenant?.settings?.tracking || {}),
+    };
+  }
+
+  /**
+   * Changing the retention re-dates every stored point, so shortening it
+   * purges old breadcrumbs on the next TTL pass
+   */
+  static async updateSettings(
+    tenantId: string,
+    settings: Partial<TrackingSettings>,
+  ): Promise<TrackingSettings> {
+    const current = await this.getSettings(tenantId);
+
+    const update: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(settings)) {
+      if (value !== undefined) update[`settings.tracking.${key}`] = value;
+    }
+    if (Object.keys(update).length > 0) {
+      await Tenant.updateOne({ _id: tenantId }, { $set: update });
+    }
+
+    if (
+      settings.retentionDays !== undefined &&
+      settings.retentionDays !== current.retentionDays
+    ) {
+      await LocationPing.updateMany({ tenantId }, [
+        {
+          $set: {
+            expiresAt: {
+              $add: ["$capturedAt", settings.retentionDays * DAY_MS],
+            },
+          },
+        },
+      ]);
+    }
+
+    return this.getSettings(tenantId);
+  }
+
+  /**
+   * Store a fix streamed by the field app and move the technician's live
+   * marker. Returns null when tracking is off or the user has no
+   * personnel record.
+   */
+  static async recordLocation(
+    tenantId: string,
+    userId: string,
+    input: LocationUpdateInput,
+  ): Promise<LiveTechnician | null> {
+    const latitude = Number(input?.latitude);
+    const longitude = Number(input?.longitude);
+    if (
+      !Number.isFinite(latitude) ||
+      !Number.isFinite(longitude) ||
+      Math.abs(latitude) > 90 ||
+      Math.abs(longitude) > 180
+    ) {
+      throw new HttpError(400, "Invalid coordinates");
+    }
+
+    const now = Date.now();
+    const captured = input.capturedAt ? new Date(input.capturedAt) : null;
+    const capturedAt =
+      captured && !Number.isNaN(captured.getTime()) && captured.getTime() <= now
+        ? captured
+        : new Date(now);
+    if (now - capturedAt.getTime() > MAX_PING_AGE_MS) return null;
+
+    const settings = await this.getSettings(tenantId);
+    if (!settings.enabled) return null;
+
+    const personnel = await Personnel.findOne({
+      userId,
+      tenantId,
+      isActive: true,
+    })
+      .populate("userId", "firstName lastName")
+      .lean<any>();
+    if (!personnel) return null;
+    const personnelId = personnel._id.toString();
+
+    const optional = (value?: number) =>
+      typeof value === "number" && Number.isFinite(value) ? value : undefined;
+    const fix = {
+      latitude,
+      longitude,
+      accuracy: optional(input.accuracy),
+      heading: optional(input.heading),
+      speed: optional(input.speed),
+    };
+
+    const session = await CheckInSession.findOne({
+      tenantId,
+      personnelId,
+      isActive: true,
+    })
+      .sort({ checkInTime: -1 })
+      .populate("taskId", "title")
+      .populate("workOrderId", "workOrderNumber")
+      .lean<any>();
+
+    const previous = await LocationPing.findOne({ tenantId, personnelId })
+      .sort({ capturedAt: -1 })
+      .select("capturedAt")
+      .lean<any>();
+    if (
+      !previous ||
+      Math.abs(capturedAt.getTime() - previous.capturedAt.getTime()) >=
+        MIN_PING_INTERVAL_MS
+    ) {
+      await LocationPing.create({
+        tenantId,
+        personnelId,
+        userId,
+        ...fix,
+        capturedAt,
+        taskId: session?.taskId?._id?.toString(),
+        expiresAt: new Date(
+          capturedAt.getTime() + settings.retentionDays * DAY_MS,
+        ),
+      });
+    }
+
+    // Replayed fixes never move the live marker backwards in time
+    const lastUpdated = personnel.location?.lastUpdated
+      ? new Date(personnel.location.lastUpdated)
+      : null;
+    if (lastUpdated && lastUpdated > capturedAt) return null;
+
+    await Personnel.updateOne(
+      { _id: personnelId },
+      {
+        $set: {
+          "location.latitude": latitude,
+          "location.longitude": longitude,
+          "location.lastUpdated": capturedAt,
+        },
+      },
+    );
+
+    return {
+      personnelId,
+      name: personnelName(personnel),
+      employeeId: personnel.employeeId,
+      location: { ...fix, lastUpdated: capturedAt },
+      activeTask: session ? this.toActiveTask(session) : undefined,
+    };
+  }
+
+  /**
+   * Technicians with a recent fix, with the task they are checked in to
+   */
+  static async getLiveTechnicians(tenantId: string): Promise<LiveTechnician[]> {
+    const since = new Date(Date.now() - LIVE_WINDOW_HOURS * 60 * 60 * 1000);
+
+    const personnel = await Personnel.find({
+      tenantId,
+      isActive: true,
+      "location.lastUpdated": { $gte: since },
+    })
+      .populate("userId", "firstName lastName")
+      .lean<any[]>();
+    if (personnel.length === 0) return [];
+
+    const personnelIds = personnel.map((person) => person._id.toString());
+    const [sessions, latestPings] = await Promise.all([
+      CheckInSession.find({
+        tenantId,
+        personnelId: { $in: personnelIds },
+        isActive: true,
+      })
+        .sort({ checkInTime: -1 })
+        .populate("taskId", "title")
+        .populate("workOrderId", "workOrderNumber")
+        .lean<any[]>(),
+      LocationPing.aggregate([
+        {
+          $match: {
+            tenantId,
+            personnelId: { $in: personnelIds },
+            capturedAt: { $gte: since },
+          },
+        },
+        { $sort: { capturedAt: -1 } },
+        { $group: { _id: "$personnelId", ping: { $first: "$$ROOT" } } },
+      ]),
+    ]);
+
+    const sessionByPersonnel = new Map<string, any>();
+    for (const session of sessions) {
+      if (!sessionByPersonnel.has(session.personnelId)) {
+        sessionByPersonnel.set(session.personnelId, session);
+      }
+    }
+    const pingByPersonnel = new Map<string, any>(
+      latestPings.map((entry) => [entry._id, entry.ping]),
+    );
+
+    return personnel.map((person) => {
+      const personnelId = person._id.toString();
+      const ping = pingByPersonnel.get(personnelId);
+      const session = sessionByPersonnel.get(personnelId);
+
+      return {
+        personnelId,
+        name: personnelName(person),
+        employeeId: person.employeeId,
+        location: {
+          latitude: person.location.latitude,
+          longitude: person.location.longitude,
+          accuracy: ping?.accuracy,
+          heading: ping?.heading,
+          speed: ping?.speed,
+          lastUpdated: person.location.lastUpdated,
+        },
+        activeTask: session ? this.toActiveTask(session) : undefined,
+      };
+    });
+  }
+
+  /**
+   * Breadcrumb trail for one technician on a day (YYYY-MM-DD in the tenant
+   * timezone)
+   */
+  static async getTrail(tenantId: string, personnelId: string, date: string) {
+    const tenant = await Tenant.findById(tenantId)
+      .select("settings.timezone")
+      .lean<any>();
+    const tz = tenant?.settings?.timezone || "UTC";
+    const day = dayjs.tz(date, tz).startOf("day");
+
+    const points = await LocationPing.find({
+      tenantId,
+      personnelId,
+      capturedAt: { $gte: day.toDate(), $lte: day.endOf("day").toDate() },
+    })
+      .sort({ capturedAt: 1 })
+      .select("latitude longitude accuracy speed capturedAt taskId")
+      .lean();
+
+    return { date: day.format("YYYY-MM-DD"), timezone: tz, points };
+  }
+
+  private static toActiveTask(session: any): LiveActiveTask {
+    return {
+      sessionId: session._id.toString(),
+      taskId: session.taskId?._id?.toString() || session.taskId,
+      taskTitle: session.taskId?.title,
+      workOrderId: session.workOrderId?._id?.toString() || session.workOrderId,
+      workOrderNumber: session.workOrderId?.workOrderNumber,
+      checkInTime: session.checkInTime,
+    };
+  }
+}
@@ -6,7 +6,7 @@ import { config } from '../config';
 export interface MagicLinkData {
   email: string;
   tenantId: string;
-  type: 'personnel_invitation' | 'tenant_activation' | 'password_reset';
+  type: 'personnel_invitation' | 'tenant_activation' | 'password_reset' | 'client_portal';
   metadata?: {
     firstName?: string;
     lastName?: string;
@@ -18,6 +18,7 @@ export interface MagicLinkData {
   };
   userId?: string;
   expirationHours?: number; // Default 24 hours
+  path?: string; // Frontend page that consumes the token
 }
 
 export interface MagicLinkValidationResult {
@@ -90,7 +91,8 @@ export class MagicLinkService {
 
       // Generate the magic link URL
       const baseUrl = config.FRONTEND_URL;
-      const magicLink = `${baseUrl}/auth/jwt/verify-account?token=${token}`;
+      const path = data.path || '/auth/jwt/verify-account';
+      const magicLink = `${baseUrl}${path}?token=${token}`;
 
       return {
         success: true,
@@ -1,27 +1,31 @@
 import PDFDocument from "pdfkit";
 import type { IReport } from "../models/Report";
+import type { ReportTemplateSectionKey } from "../models/ReportTemplate";
+import {
+  DEFAULT_SECTION_TITLES,
+  ReportTemplateService,
+  type ResolvedReportTemplate,
+} from "./report-template-service";
 import dayjs from "dayjs";
 import path from "path";
 import fs from "fs";
 
 export class PDFService {
-  static async generateReportPDF(report: any): Promise<typeof PDFDocument> {
-    const doc = new PDFDocument({
-      size: "A4",
-      margins: { top: 50, bottom: 50, left: 50, right: 50 },
-    });
-
-    // Try to use a font that supports Greek characters
+  /**
+   * Register a font that supports Greek characters when one is available
+   */
+  private static applyUnicodeFont(doc: InstanceType<typeof PDFDocument>): void {
     try {
-      // Try to find and use DejaVu Sans which supports Greek
+      // Prefer a configured font, then DejaVu Sans which supports Greek
       const fontPaths = [
+        process.env.PDF_FONT_PATH,
         '/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf',
         '/usr/share/fonts/TTF/DejaVuSans.ttf',
         '/System/Library/Fonts/Supplemental/Arial Unicode.ttf',
       ];
 
       for (const fontPath of fontPaths) {
-        if (fs.existsSync(fontPath)) {
+        if (fontPath && fs.existsSync(fontPath)) {
           doc.registerFont('MainFont', fontPath);
           doc.font('MainFont');
           break;
@@ -30,6 +34,46 @@ export class PDFService {
     } catch (e) {
       // Fall back to default font
     }
+  }
+
+  /**
+   * Resolve a file served from /api/v1/uploads/... to its path on disk
+   */
+  private static resolveUploadPath(url: string): string | null {
+    try {
+      // URL format: http://.../api/v1/uploads/{tenantId}/{...}/{filename}?token=...
+      const { pathname } = new URL(url);
+      const uploadsPrefix = "/api/v1/uploads/";
+      if (!pathname.startsWith(uploadsPrefix)) return null;
+
+      const uploadsRoot = path.join(process.cwd(), "uploads");
+      const fullPath = path.join(
+        uploadsRoot,
+        decodeURIComponent(pathname.substring(uploadsPrefix.length)),
+      );
+      if (!fullPath.startsWith(uploadsRoot + path.sep)) return null;
+
+      return fs.existsSync(fullPath) ? fullPath : null;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  static async generateReportPDF(
+    report: any,
+    template: ResolvedReportTemplate = ReportTemplateService.resolve(null),
+  ): Promise<typeof PDFDocument> {
+    const doc = new PDFDocument({
+      size: "A4",
+      margins: { top: 50, bottom: 50, left: 50, right: 50 },
+      // Footers are drawn on every page once the content is laid out
+      bufferPages: true,
+    });
+
+    // Try to use a font that supports Greek characters
+    this.applyUnicodeFont(doc);
+
+    const { primary: primaryColor, secondary: labelColor } = template.colors;
 
     // Helper to format dates in European style
     const formatDateTime = (date: Date | string) => {
@@ -40,6 +84,9 @@ export class PDFService {
       return dayjs(date).format("DD/MM/YYYY HH:mm");
     };
 
+    const capitalize = (value: string) =>
+      value ? value.charAt(0).toUpperCase() + value.slice(1) : "";
+
     // Helper to extract role title from role ID
     const getRoleTitle = (roleStr: string) => {
       if (!roleStr) return "";
@@ -62,7 +109,7 @@ export class PDFService {
       doc.x = 50; // Ensure section headers are aligned to the left
       doc
         .fontSize(14)
-        .fillColor("#1976d2")
+        .fillColor(primaryColor)
         .text(title, { underline: true })
         .moveDown(0.5);
       doc.fillColor("#000000");
@@ -73,7 +120,7 @@ export class PDFService {
       if (value === undefined || value === null) return;
       doc
         .fontSize(10)
-        .fillColor("#666666")
+        .fillColor(labelColor)
         .text(`${key}:`, { continued: true })
         .fillColor("#000000")
         .text(` ${value}`)
@@ -81,56 +128,114 @@ export class PDFService {
     };
 
     // Header - Company Logo Area
-    doc
-      .fontSize(20)
-      .fillColor("#1976d2")
-      .text("FIELD SERVICE REPORT", { align: "center" })
-      .moveDown();
+    const logoPath =
+      template.logo.placement !== "none" && template.logo.url
+        ? this.resolveUploadPath(template.logo.url)
+        : null;
+
+    if (logoPath) {
+      const logoWidth = template.logo.width;
+      const logoHeight = Math.round(logoWidth / 2);
+      const logoX =
+        template.logo.placement === "center"
+          ? (doc.page.width - logoWidth) / 2
+          : template.logo.placement === "right"
+            ? doc.page.width - 50 - logoWidth
+            : 50;
+      const logoY = doc.y;
+
+      try {
+        doc.image(logoPath, logoX, logoY, {
+          fit: [logoWidth, logoHeight],
+          // Keep the logo flush with the page edge it is placed against
+          align:
+            template.logo.placement === "right"
+              ? "right"
+              : template.logo.placement === "center"
+                ? "center"
+                : undefined,
+        });
+        doc.y = logoY + logoHeight + 10;
+      } catch (e) {
+        // Unsupported image formats (e.g. SVG, WebP) are skipped
+        doc.y = logoY;
+      }
+      doc.x = 50;
+    }
 
     doc
-      .fontSize(12)
-      .fillColor("#666666")
-      .text(`Report ID: ${report._id}`, { align: "center" })
-      .moveDown(1.5);
+      .fontSize(20)
+      .fillColor(primaryColor)
+      .text(template.header.title, { align: "center" })
+      .moveDown(template.header.subtitle ? 0.3 : 1);
 
-    // Report Overview Section
-    addSectionHeader("Report Overview");
-
-    addKeyValue("Type", report.type.toUpperCase());
-    addKeyValue(
-      "Status",
-      report.status.charAt(0).toUpperCase() + report.status.slice(1)
-    );
-    addKeyValue(
-      "Priority",
-      report.priority.charAt(0).toUpperCase() + report.priority.slice(1)
-    );
-    addKeyValue("Report Date", formatDateTime(report.reportDate));
-
-    // Location - MongoDB already stores as UTF-8, use directly
-    if (report.location) {
-      addKeyValue("Location", report.location);
+    if (template.header.subtitle) {
+      doc
+        .fontSize(12)
+        .fillColor(labelColor)
+        .text(template.header.subtitle, { align: "center" })
+        .moveDown(template.header.showReportId ? 0.3 : 1);
     }
 
-    if (report.weather) addKeyValue("Weather", report.weather);
-
-    // Notes section
-    if (report.notes) {
+    if (template.header.showReportId) {
       doc
-        .fontSize(10)
-        .fillColor("#666666")
-        .text("Notes:", { continued: false })
-        .fillColor("#000000")
-        .fontSize(9)
-        .text(report.notes, { align: "left", paragraphGap: 5 })
-        .moveDown(0.3);
+        .fontSize(12)
+        .fillColor(labelColor)
+        .text(`Report ID: ${report._id}`, { align: "center" })
+        .moveDown(1.5);
+    } else {
+      doc.moveDown(0.5);
     }
 
-    doc.moveDown();
+    const renderOverview = (title: string) => {
+      addSectionHeader(title);
+
+      addKeyValue("Type", report.type.toUpperCase());
+      addKeyValue("Status", capitalize(report.status));
+      addKeyValue("Priority", capitalize(report.priority));
+      addKeyValue("Report Date", formatDateTime(report.reportDate));
+
+      // Location - MongoDB already stores as UTF-8, use directly
+      if (report.location) {
+        addKeyValue("Location", report.location);
+      }
+
+      if (report.weather) addKeyValue("Weather", report.weather);
+
+      if (report.assetsData && report.assetsData.length > 0) {
+        const assets = report.assetsData.map((asset: any) =>
+          [
+            asset.name,
+            asset.model,
+            asset.serialNumber && `S/N ${asset.serialNumber}`,
+          ]
+            .filter(Boolean)
+            .join(" - "),
+        );
+        addKeyValue("Equipment", assets.join("; "));
+      } else if (report.equipment && report.equipment.length > 0) {
+        addKeyValue("Equipment", report.equipment.join(", "));
+      }
 
-    // Client Information
-    if (report.clientData) {
-      addSectionHeader("Client Information");
+      // Notes section
+      if (report.notes) {
+        doc
+          .fontSize(10)
+          .fillColor(labelColor)
+          .text("Notes:", { continued: false })
+          .fillColor("#000000")
+          .fontSize(9)
+          .text(report.notes, { align: "left", paragraphGap: 5 })
+          .moveDown(0.3);
+      }
+
+      doc.moveDown();
+    };
+
+    const renderClient = (title: string) => {
+      if (!report.clientData) return;
+
+      addSectionHeader(title);
       addKeyValue("Name", report.clientData.name);
       if (report.clientData.company)
         addKeyValue("Company", report.clientData.company);
@@ -149,11 +254,12 @@ export class PDFService {
         addKeyValue("Address", address);
       }
       doc.moveDown();
-    }
+    };
 
-    // Work Order Information
-    if (report.workOrderData) {
-      addSectionHeader("Work Order Information");
+    const renderWorkOrder = (title: string) => {
+      if (!report.workOrderData) return;
+
+      addSectionHeader(title);
       addKeyValue("Work Order #", report.workOrderData.number);
       addKeyValue("Title", report.workOrderData.title);
       if (report.workOrderData.description)
@@ -161,35 +267,73 @@ export class PDFService {
       addKeyValue("Status", report.workOrderData.status);
       addKeyValue("Priority", report.workOrderData.priority);
       doc.moveDown();
-    }
+    };
 
-    // Personnel Information
-    addSectionHeader("Personnel");
-    if (report.createdByData) {
-      addKeyValue("Created By", report.createdByData.name);
-      if (report.createdByData.role) {
-        const roleTitle = getRoleTitle(report.createdByData.role);
-        addKeyValue("Role", roleTitle);
+    const renderPersonnel = (title: string) => {
+      addSectionHeader(title);
+      if (report.createdByData) {
+        addKeyValue("Created By", report.createdByData.name);
+        if (report.createdByData.role) {
+          const roleTitle = getRoleTitle(report.createdByData.role);
+          addKeyValue("Role", roleTitle);
+        }
       }
-    }
-    if (report.assignedToData) {
-      addKeyValue("Assigned To", report.assignedToData.name);
-      if (report.assignedToData.role) {
-        const roleTitle = getRoleTitle(report.assignedToData.role);
-        addKeyValue("Assigned Role", roleTitle);
+      if (report.assignedToData) {
+        addKeyValue("Assigned To", report.assignedToData.name);
+        if (report.assignedToData.role) {
+          const roleTitle = getRoleTitle(report.assignedToData.role);
+          addKeyValue("Assigned Role", roleTitle);
+        }
       }
-    }
-    doc.moveDown();
+      doc.moveDown();
+    };
+
+    const renderTasks = (title: string) => {
+      if (!report.tasksData || report.tasksData.length === 0) return;
 
-    // Materials Used Section
-    if (report.materialsUsed && report.materialsUsed.length > 0) {
-      addSectionHeader("Materials Used");
+      if (doc.y > 650) doc.addPage();
+      addSectionHeader(title);
+
+      const tableTop = doc.y;
+      doc
+        .fontSize(9)
+        .fillColor(labelColor)
+        .text("Task", 50, tableTop, { width: 300 })
+        .text("Status", 360, tableTop, { width: 90 })
+        .text("Priority", 460, tableTop, { width: 85 });
+
+      doc
+        .moveTo(50, doc.y + 5)
+        .lineTo(545, doc.y + 5)
+        .stroke("#cccccc");
+
+      doc.moveDown(0.5);
+
+      doc.fillColor("#000000");
+      report.tasksData.forEach((task: any) => {
+        const y = doc.y;
+        doc
+          .fontSize(9)
+          .text(task.name || "", 50, y, { width: 300 })
+          .text(capitalize(task.status), 360, y, { width: 90 })
+          .text(capitalize(task.priority), 460, y, { width: 85 });
+        doc.moveDown(0.5);
+      });
+
+      doc.x = 50;
+      doc.moveDown(1);
+    };
+
+    const renderMaterials = (title: string) => {
+      if (!report.materialsUsed || report.materialsUsed.length === 0) return;
+
+      addSectionHeader(title);
 
       // Table header
       const tableTop = doc.y;
       doc
         .fontSize(9)
-        .fillColor("#666666")
+        .fillColor(labelColor)
         .text("Material", 50, tableTop, { width: 200 })
         .text("Quantity", 260, tableTop, { width: 70 })
         .text("Unit Cost", 340, tableTop, { width: 70 })
@@ -223,26 +367,27 @@ export class PDFService {
       doc.moveDown(0.5);
       doc
         .fontSize(10)
-        .fillColor("#666666")
+        .fillColor(labelColor)
         .text("Total Material Cost:", 340, doc.y, { continued: true })
         .fillColor("#000000")
         .text(` €${report.totalMaterialCost.toFixed(2)}`);
       doc.moveDown(1);
-    }
+    };
+
+    const renderTimeEntries = (title: string) => {
+      if (!report.timeEntries || report.timeEntries.length === 0) return;
 
-    // Time Entries Section
-    if (report.timeEntries && report.timeEntries.length > 0) {
       // Check if we need a new page
       if (doc.y > 650) doc.addPage();
 
-      addSectionHeader("Time Entries");
+      addSectionHeader(title);
 
       // Table header - align to left at x=50
       const tableTop = doc.y;
       doc.x = 50;
       doc
         .fontSize(9)
-        .fillColor("#666666")
+        .fillColor(labelColor)
         .text("Description", 50, tableTop, { width: 150 })
         .text("Start Time", 210, tableTop, { width: 100 })
         .text("End Time", 320, tableTop, { width: 100 })
@@ -279,221 +424,725 @@ export class PDFService {
       if (report.totalHours) {
         doc
           .fontSize(10)
-          .fillColor("#666666")
+          .fillColor(labelColor)
           .text("Total Hours:", 430, doc.y, { continued: true })
           .fillColor("#000000")
           .text(` ${report.totalHours.toFixed(2)}h`);
       }
       doc.moveDown(1);
-    }
-
-    // Cost Summary
-    if (doc.y > 650) doc.addPage();
-
-    addSectionHeader("Cost Summary");
-
-    doc
-      .fontSize(12)
-      .fillColor("#666666")
-      .text("Material Cost:", { continued: true })
-      .fillColor("#000000")
-      .text(` €${report.totalMaterialCost.toFixed(2)}`)
-      .moveDown(0.3);
+    };
 
-    doc
-      .fontSize(12)
-      .fillColor("#666666")
-      .text("Labor Cost:", { continued: true })
-      .fillColor("#000000")
-      .text(` €${report.totalLaborCost.toFixed(2)}`)
-      .moveDown(0.3);
+    const renderCostSummary = (title: string) => {
+      if (doc.y > 650) doc.addPage();
 
-    doc
-      .moveTo(50, doc.y + 5)
-      .lineTo(545, doc.y + 5)
-      .stroke("#cccccc");
+      addSectionHeader(title);
 
-    doc.moveDown(0.5);
+      doc
+        .fontSize(12)
+        .fillColor(labelColor)
+        .text("Material Cost:", { continued: true })
+        .fillColor("#000000")
+        .text(` €${report.totalMaterialCost.toFixed(2)}`)
+        .moveDown(0.3);
 
-    doc
-      .fontSize(14)
-      .fillColor("#1976d2")
-      .text("Total Cost:", { continued: true })
-      .fillColor("#000000")
-      .text(` €${report.totalCost.toFixed(2)}`);
+      doc
+        .fontSize(12)
+        .fillColor(labelColor)
+        .text("Labor Cost:", { continued: true })
+        .fillColor("#000000")
+        .text(` €${report.totalLaborCost.toFixed(2)}`)
+        .moveDown(0.3);
 
-    doc.moveDown(1.5);
+      doc
+        .moveTo(50, doc.y + 5)
+        .lineTo(545, doc.y + 5)
+        .stroke("#cccccc");
 
-    // Signatures Section - right after Cost Summary in a row
-    if (report.signatures && report.signatures.length > 0) {
-      if (doc.y > 600) doc.addPage();
+      doc.moveDown(0.5);
 
-      addSectionHeader("Signatures");
+      doc
+        .fontSize(14)
+        .fillColor(primaryColor)
+        .text("Total Cost:", { continued: true })
+        .fillColor("#000000")
+        .text(` €${report.totalCost.toFixed(2)}`);
 
-      // Display signatures in a horizontal row
-      let signatureX = 50;
-      const signatureWidth = (545 - 50) / Math.min(report.signatures.length, 3);
-      const signatureY = doc.y;
+      doc.moveDown(1.5);
+    };
 
-      report.signatures.slice(0, 3).forEach((signature: any, index: number) => {
-        const x = signatureX + index * signatureWidth;
+    const renderInspections = (title: string) => {
+      const inspections: any[] = report.inspections || [];
+      if (inspections.length === 0) return;
 
-        // Draw signature image if available
-        if (signature.signatureData) {
-          try {
-            // The signatureData is base64 encoded image
-            const base64Data = signature.signatureData.replace(
-              /^data:image\/\w+;base64,/,
-              ""
-            );
-            const imageBuffer = Buffer.from(base64Data, "base64");
-
-            doc.image(imageBuffer, x, signatureY, {
-              width: signatureWidth - 20,
-              height: 60,
-              fit: [signatureWidth - 20, 60],
-            });
+      if (doc.y > 650) doc.addPage();
 
-            doc.y = signatureY + 65;
-          } catch (e) {
-            // If image fails, just show text
-            doc.y = signatureY;
-          }
+      addSectionHeader(title);
+
+      const formatAnswer = (answer: any) => {
+        if (answer.value === undefined || answer.value === null) return "-";
+        switch (answer.type) {
+          case "yes_no":
+            return answer.value === "n/a" ? "N/A" : capitalize(answer.value);
+          case "number":
+            return `${answer.value}${answer.unit ? ` ${answer.unit}` : ""}`;
+          case "photo":
+            return `${answer.value.length} photo(s)`;
+          case "signature":
+            return "Signed";
+          default:
+            return String(answer.value);
         }
+      };
 
-        // Add signature details
+      inspections.forEach((inspection) => {
+        if (doc.y > 680) doc.addPage();
+
+        const headingY = doc.y;
         doc
-          .fontSize(9)
-          .fillColor("#666666")
-          .text(signature.type.toUpperCase(), x, doc.y, {
-            width: signatureWidth - 20,
-          })
-          .fontSize(8)
+          .fontSize(11)
           .fillColor("#000000")
-          .text(signature.signerName, x, doc.y + 2, {
-            width: signatureWidth - 20,
+          .text(
+            [inspection.formName, inspection.assetName]
+              .filter(Boolean)
+              .join(" - "),
+            50,
+            headingY,
+            { width: 400 },
+          );
+        doc
+          .fontSize(10)
+          .fillColor(inspection.result === "fail" ? "#d32f2f" : "#2e7d32")
+          .text(inspection.result.toUpperCase(), 460, headingY, {
+            width: 85,
+            align: "right",
           });
+        doc.x = 50;
+        doc.moveDown(0.5);
+
+        let currentSection: string | undefined;
+        inspection.answers.forEach((answer: any) => {
+          if (doc.y > 720) doc.addPage();
+
+          if (answer.section && answer.section !== currentSection) {
+            currentSection = answer.section;
+            doc
+              .fontSize(9)
+              .fillColor(labelColor)
+              .text(answer.section.toUpperCase(), 50, doc.y + 4)
+              .moveDown(0.3);
+          }
+
+          const label = answer.notes
+            ? `${answer.label}\n${answer.notes}`
+            : answer.label;
+          const value = formatAnswer(answer);
+          const rowY = doc.y;
+          doc.fontSize(9);
+          const rowHeight = Math.max(
+            doc.heightOfString(label, { width: 260 }),
+            doc.heightOfString(value, { width: 160 }),
+          );
 
-        if (signature.signerTitle) {
           doc
-            .fontSize(7)
-            .fillColor("#999999")
-            .text(signature.signerTitle, x, doc.y + 2, {
-              width: signatureWidth - 20,
+            .fillColor("#000000")
+            .text(label, 50, rowY, { width: 260 })
+            .text(value, 320, rowY, { width: 160 });
+          if (answer.result) {
+            doc
+              .fillColor(answer.result === "fail" ? "#d32f2f" : labelColor)
+              .text(
+                answer.result === "na" ? "N/A" : answer.result.toUpperCase(),
+                490,
+                rowY,
+                { width: 55, align: "right" },
+              );
+          }
+          doc.x = 50;
+          doc.y = rowY + rowHeight + 4;
+
+          // Photos and signatures are printed under their item
+          const images: (string | Buffer | null)[] =
+            answer.type === "photo" && Array.isArray(answer.value)
+              ? answer.value.map((url: string) => this.resolveUploadPath(url))
+              : answer.type === "signature" && answer.value
+                ? [
+                    Buffer.from(
+                      String(answer.value).replace(
+                        /^data:image\/\w+;base64,/,
+                        "",
+                      ),
+                      "base64",
+                    ),
+                  ]
+                : [];
+          const printable = images.filter(Boolean) as (string | Buffer)[];
+          if (printable.length > 0) {
+            if (doc.y > 650) doc.addPage();
+            const imageY = doc.y;
+            printable.slice(0, 4).forEach((image, index) => {
+              try {
+                doc.image(image, 50 + index * 125, imageY, {
+                  fit: [115, 90],
+                });
+              } catch (e) {
+                // Unsupported image formats are skipped
+              }
             });
-        }
+            doc.x = 50;
+            doc.y = imageY + 95;
+          }
+        });
 
         doc
-          .fontSize(7)
-          .fillColor("#999999")
-          .text(`Signed: ${formatDateTime(signature.signedAt)}`, x, doc.y + 2, {
-            width: signatureWidth - 20,
-          });
+          .moveTo(50, doc.y + 2)
+          .lineTo(545, doc.y + 2)
+          .stroke("#cccccc");
+        doc.moveDown(1);
       });
 
-      // Move past the signatures
-      doc.y = Math.max(doc.y, signatureY + 100);
-      doc.moveDown(1);
-    }
+      doc.moveDown(0.5);
+    };
 
-    // Attachments Section - with images (excluding signatures)
-    if (report.attachments && report.attachments.length > 0) {
-      // Filter out signature attachments as they're already displayed in the Signatures section
-      const nonSignatureAttachments = report.attachments.filter(
-        (att: any) => !att.originalName?.startsWith('signature-')
-      );
+    const renderSignatures = (title: string) => {
+      const signatures: any[] = report.signatures || [];
+
+      // Template blocks fix the order and leave room for missing signatures;
+      // without them every captured signature is shown
+      const blocks =
+        template.signatureBlocks.length > 0
+          ? template.signatureBlocks
+              .map((block) => ({
+                label: block.label,
+                signature: signatures.find((s) => s.type === block.role),
+                showWhenUnsigned: block.showWhenUnsigned,
+              }))
+              .filter((block) => block.signature || block.showWhenUnsigned)
+          : signatures.map((signature) => ({
+              label: signature.type.toUpperCase(),
+              signature,
+              showWhenUnsigned: false,
+            }));
+
+      if (blocks.length === 0) return;
+
+      if (doc.y > 600) doc.addPage();
+
+      addSectionHeader(title);
+
+      // Display signatures in rows of up to three
+      for (let rowStart = 0; rowStart < blocks.length; rowStart += 3) {
+        const row = blocks.slice(rowStart, rowStart + 3);
+        const signatureWidth = (545 - 50) / row.length;
 
-      if (nonSignatureAttachments.length > 0) {
         if (doc.y > 650) doc.addPage();
+        const signatureY = doc.y;
+        let rowBottom = signatureY;
+
+        row.forEach(({ label, signature }, index) => {
+          const x = 50 + index * signatureWidth;
+          const width = signatureWidth - 20;
+          doc.y = signatureY;
+
+          // Draw signature image if available
+          if (signature?.signatureData) {
+            try {
+              // The signatureData is base64 encoded image
+              const base64Data = signature.signatureData.replace(
+                /^data:image\/\w+;base64,/,
+                ""
+              );
+              const imageBuffer = Buffer.from(base64Data, "base64");
+
+              doc.image(imageBuffer, x, signatureY, {
+                width,
+                height: 60,
+                fit: [width, 60],
+              });
+            } catch (e) {
+              // If image fails, just show text
+            }
+          } else {
+            // Blank line to sign on the printed copy
+            doc
+              .moveTo(x, signatureY + 55)
+              .lineTo(x + width, signatureY + 55)
+              .stroke("#999999");
+          }
+          doc.y = signatureY + 65;
+
+          // Add signature details
+          doc
+            .fontSize(9)
+            .fillColor(labelColor)
+            .text(label, x, doc.y, { width });
+
+          if (signature) {
+            doc
+              .fontSize(8)
+              .fillColor("#000000")
+              .text(signature.signerName, x, doc.y + 2, { width });
+
+            if (signature.signerTitle) {
+              doc
+                .fontSize(7)
+                .fillColor("#999999")
+                .text(signature.signerTitle, x, doc.y + 2, { width });
+            }
+
+            doc
+              .fontSize(7)
+              .fillColor("#999999")
+              .text(`Signed: ${formatDateTime(signature.signedAt)}`, x, doc.y + 2, {
+                width,
+              });
+          } else {
+            doc
+              .fontSize(8)
+              .fillColor("#999999")
+              .text("Name / Date", x, doc.y + 2, { width });
+          }
 
-        addSectionHeader("Attachments");
+          rowBottom = Math.max(rowBottom, doc.y);
+        });
 
-        // Ensure content is aligned to the left
+        // Move past the signatures
         doc.x = 50;
+        doc.y = Math.max(rowBottom, signatureY + 100);
+        doc.moveDown(0.5);
+      }
 
-        nonSignatureAttachments.forEach((attachment: any, index: number) => {
-          // Check if this is an image attachment
-          const isImage =
-            attachment.mimetype?.startsWith("image/") ||
-            /\.(jpg|jpeg|png|gif|webp)$/i.test(attachment.originalName);
+      doc.moveDown(0.5);
+    };
 
-        if (isImage && attachment.url) {
-          try {
-            // Extract the file path from the URL
-            // URL format: http://localhost:3001/api/v1/uploads/{tenantId}/reports/{reportId}/{timestamp}-{filename}?token=...
-            const url = new URL(attachment.url);
-            const pathname = url.pathname; // Gets: /api/v1/uploads/{tenantId}/reports/{reportId}/{timestamp}-{filename}
+    const renderAttachments = (title: string) => {
+      // Filter out signature attachments as they're already displayed in the Signatures section
+      const nonSignatureAttachments = (report.attachments || []).filter(
+        (att: any) => !att.originalName?.startsWith("signature-")
+      );
 
-            // Extract everything after /api/v1/uploads/
-            const uploadsPrefix = '/api/v1/uploads/';
-            let filePath = '';
+      if (nonSignatureAttachments.length === 0) return;
 
-            if (pathname.startsWith(uploadsPrefix)) {
-              filePath = pathname.substring(uploadsPrefix.length);
-            }
+      if (doc.y > 650) doc.addPage();
 
-            // Now filePath should be: {tenantId}/reports/{reportId}/{timestamp}-{filename}
-            const fullPath = path.join(process.cwd(), 'uploads', filePath);
+      addSectionHeader(title);
 
-            // Check if file exists
-            if (fs.existsSync(fullPath)) {
-              // Check if we need a new page for the image
-              if (doc.y > 600) doc.addPage();
+      // Ensure content is aligned to the left
+      doc.x = 50;
 
-              doc
-                .fontSize(9)
-                .fillColor("#666666")
-                .text(`${index + 1}. ${attachment.originalName}`)
-                .moveDown(0.3);
-
-              doc.image(fullPath, {
-                width: 400,
-                fit: [400, 300],
-              });
+      nonSignatureAttachments.forEach((attachment: any, index: number) => {
+        // Check if this is an image attachment
+        const isImage =
+          attachment.mimetype?.startsWith("image/") ||
+          /\.(jpg|jpeg|png|gif|webp)$/i.test(attachment.originalName);
+        const imagePath =
+          isImage && attachment.url
+            ? this.resolveUploadPath(attachment.url)
+            : null;
+
+        if (imagePath) {
+          try {
+            // Check if we need a new page for the image
+            if (doc.y > 600) doc.addPage();
 
-              doc.moveDown(0.5);
-            } else {
-              // File doesn't exist, just show the name
-              doc
-                .fontSize(9)
-                .fillColor("#666666")
-                .text(`${index + 1}. ${attachment.originalName}`)
-                .moveDown(0.2);
-            }
-          } catch (e) {
-            // If image loading fails, just show the name
             doc
               .fontSize(9)
-              .fillColor("#666666")
+              .fillColor(labelColor)
               .text(`${index + 1}. ${attachment.originalName}`)
-              .moveDown(0.2);
+              .moveDown(0.3);
+
+            doc.image(imagePath, {
+              width: 400,
+              fit: [400, 300],
+            });
+
+            doc.moveDown(0.5);
+            return;
+          } catch (e) {
+            // If image loading fails, just show the name
           }
-        } else {
-          // Non-image file, just show the name
-          doc
-            .fontSize(9)
-            .fillColor("#666666")
-            .text(`${index + 1}. ${attachment.originalName}`)
-            .moveDown(0.2);
         }
+
+        // Non-image or missing file, just show the name
+        doc
+          .fontSize(9)
+          .fillColor(labelColor)
+          .text(`${index + 1}. ${attachment.originalName}`)
+          .moveDown(0.2);
       });
       doc.moveDown(1);
+    };
+
+    const renderers: Record<ReportTemplateSectionKey, (title: string) => void> = {
+      overview: renderOverview,
+      client: renderClient,
+      workOrder: renderWorkOrder,
+      personnel: renderPersonnel,
+      tasks: renderTasks,
+      materials: renderMaterials,
+      timeEntries: renderTimeEntries,
+      costSummary: renderCostSummary,
+      inspections: renderInspections,
+      signatures: renderSignatures,
+      attachments: renderAttachments,
+    };
+
+    for (const section of template.sections) {
+      if (!section.enabled) continue;
+      renderers[section.key](section.title || DEFAULT_SECTION_TITLES[section.key]);
+    }
+
+    // Footer on every page
+    const generatedOn = `Generated on ${formatDateTime(new Date())}`;
+    const { start, count } = doc.bufferedPageRange();
+    for (let i = start; i < start + count; i++) {
+      doc.switchToPage(i);
+
+      const footerLine = [
+        template.footer.showGeneratedAt ? generatedOn : null,
+        template.footer.showPageNumbers ? `Page ${i - start + 1} of ${count}` : null,
+      ]
+        .filter(Boolean)
+        .join("  •  ");
+
+      // Writing inside the bottom margin would otherwise start a new page
+      const bottomMargin = doc.page.margins.bottom;
+      doc.page.margins.bottom = 0;
+
+      const pageHeight = doc.page.height;
+      if (template.footer.text) {
+        doc
+          .fontSize(8)
+          .fillColor(labelColor)
+          .text(template.footer.text, 50, pageHeight - 45, {
+            width: 495,
+            align: "center",
+            lineBreak: false,
+          });
       }
+      if (footerLine) {
+        doc
+          .fontSize(8)
+          .fillColor("#999999")
+          .text(footerLine, 50, pageHeight - 32, {
+            width: 495,
+            align: "center",
+            lineBreak: false,
+          });
+      }
+
+      doc.page.margins.bottom = bottomMargin;
+    }
+
+    // Finalize PDF
+    doc.end();
+
+    return doc;
+  }
+
+  /**
+   * Format an amount with the tenant currency
+   */
+  private static formatCurrency(amount: number, currency: string = "EUR"): string {
+    const symbols: Record<string, string> = { EUR: "€", USD: "$", GBP: "£" };
+    const value = (amount || 0).toFixed(2);
+    return symbols[currency] ? `${symbols[currency]}${value}` : `${value} ${currency}`;
+  }
+
+  /**
+   * Draw a Description / Qty / Unit Price / Total table for quote and invoice lines
+   */
+  private static drawLineItemsTable(
+    doc: InstanceType<typeof PDFDocument>,
+    items: any[],
+    money: (amount: number) => string,
+  ): void {
+    const tableTop = doc.y + 5;
+    doc
+      .fontSize(9)
+      .fillColor("#666666")
+      .text("Description", 50, tableTop, { width: 230 })
+      .text("Qty", 290, tableTop, { width: 60 })
+      .text("Unit Price", 360, tableTop, { width: 80 })
+      .text("Total", 450, tableTop, { width: 95, align: "right" });
+
+    doc
+      .moveTo(50, doc.y + 5)
+      .lineTo(545, doc.y + 5)
+      .stroke("#cccccc");
+
+    doc.moveDown(0.5);
+    doc.fillColor("#000000");
+
+    items.forEach((item: any) => {
+      if (doc.y > 700) doc.addPage();
+      const y = doc.y;
+      doc
+        .fontSize(9)
+        .text(item.description, 50, y, { width: 230 });
+      const rowBottom = doc.y;
+      doc
+        .text(`${item.quantity} ${item.unit || ""}`.trim(), 290, y, { width: 60 })
+        .text(money(item.unitPrice), 360, y, { width: 80 })
+        .text(money(item.total), 450, y, { width: 95, align: "right" });
+      doc.y = Math.max(rowBottom, doc.y) + 4;
+    });
+
+    doc
+      .moveTo(50, doc.y + 2)
+      .lineTo(545, doc.y + 2)
+      .stroke("#cccccc");
+    doc.moveDown();
+  }
+
+  static async generateQuotePDF(
+    quote: any,
+    tenant: any,
+  ): Promise<typeof PDFDocument> {
+    const doc = new PDFDocument({
+      size: "A4",
+      margins: { top: 50, bottom: 50, left: 50, right: 50 },
+    });
+
+    this.applyUnicodeFont(doc);
+
+    const currency = quote.currency || tenant?.settings?.currency || "EUR";
+    const money = (amount: number) => this.formatCurrency(amount, currency);
+    const formatDate = (date: Date | string) => dayjs(date).format("D MMMM, YYYY");
+    const accent = tenant?.branding?.primaryColor || "#1976d2";
+    const client = quote.clientId && typeof quote.clientId === "object" ? quote.clientId : null;
+
+    // Header
+    doc
+      .fontSize(20)
+      .fillColor(accent)
+      .text("QUOTE", { align: "center" })
+      .moveDown(0.3);
+
+    doc
+      .fontSize(12)
+      .fillColor("#666666")
+      .text(quote.quoteNumber, { align: "center" })
+      .moveDown(1.5);
+
+    // Issuer and client blocks side by side
+    const blockTop = doc.y;
+    doc
+      .fontSize(10)
+      .fillColor("#666666")
+      .text("From", 50, blockTop)
+      .fillColor("#000000")
+      .text(tenant?.name || "", 50, doc.y + 2, { width: 230 });
+    if (tenant?.email) doc.text(tenant.email, { width: 230 });
+    if (tenant?.phone) doc.text(tenant.phone, { width: 230 });
+    const leftBottom = doc.y;
+
+    doc
+      .fontSize(10)
+      .fillColor("#666666")
+      .text("Prepared for", 315, blockTop)
+      .fillColor("#000000")
+      .text(client?.name || "", 315, doc.y + 2, { width: 230 });
+    if (client?.company) doc.text(client.company, { width: 230 });
+    if (client?.vatNumber) doc.text(`VAT: ${client.vatNumber}`, { width: 230 });
+    if (client?.email) doc.text(client.email, { width: 230 });
+    const rightBottom = doc.y;
+
+    doc.y = Math.max(leftBottom, rightBottom) + 15;
+    doc.x = 50;
+
+    doc
+      .fontSize(9)
+      .fillColor("#666666")
+      .text(`Issued: ${formatDate(quote.createdAt || new Date())}`, 50, doc.y);
+    if (quote.validUntil) {
+      doc.text(`Valid until: ${formatDate(quote.validUntil)}`);
+    }
+    if (quote.location?.address) {
+      doc.text(`Site: ${quote.location.address}`);
+    }
+    doc.moveDown();
+
+    // Title and description
+    doc.fontSize(14).fillColor(accent).text(quote.title).moveDown(0.3);
+    if (quote.description) {
+      doc.fontSize(9).fillColor("#000000").text(quote.description).moveDown();
+    }
+
+    // Line items table
+    this.drawLineItemsTable(doc, quote.lineItems || [], money);
+
+    // Totals
+    const addTotalRow = (label: string, value: string, emphasise = false) => {
+      const y = doc.y;
+      doc
+        .fontSize(emphasise ? 12 : 10)
+        .fillColor(emphasise ? accent : "#666666")
+        .text(label, 300, y, { width: 140 })
+        .fillColor("#000000")
+        .text(value, 450, y, { width: 95, align: "right" });
+      doc.moveDown(0.3);
+    };
+
+    addTotalRow("Labor", money(quote.subtotalLabor));
+    addTotalRow("Materials", money(quote.subtotalMaterials));
+    addTotalRow("Subtotal", money(quote.subtotal));
+    if (quote.taxRate) {
+      addTotalRow(`VAT (${quote.taxRate}%)`, money(quote.taxAmount));
+    }
+    addTotalRow("Total", money(quote.total), true);
+
+    // Notes
+    if (quote.notes) {
+      doc.moveDown();
+      doc.x = 50;
+      doc
+        .fontSize(10)
+        .fillColor("#666666")
+        .text("Notes", 50, doc.y)
+        .fontSize(9)
+        .fillColor("#000000")
+        .text(quote.notes, { width: 495 });
     }
 
     // Footer
-    const pageHeight = doc.page.height;
     doc
       .fontSize(8)
       .fillColor("#999999")
       .text(
-        `Generated on ${formatDateTime(new Date())}`,
+        `Generated on ${dayjs().format("D MMMM, YYYY HH:mm")}`,
         50,
-        pageHeight - 50,
+        doc.page.height - 50,
+        { align: "center" }
+      );
+
+    doc.end();
+
+    return doc;
+  }
+
+  static async generateInvoicePDF(
+    invoice: any,
+    tenant: any,
+  ): Promise<typeof PDFDocument> {
+    const doc = new PDFDocument({
+      size: "A4",
+      margins: { top: 50, bottom: 50, left: 50, right: 50 },
+    });
+
+    this.applyUnicodeFont(doc);
+
+    const currency = invoice.currency || tenant?.settings?.currency || "EUR";
+    const money = (amount: number) => this.formatCurrency(amount, currency);
+    const formatDate = (date: Date | string) => dayjs(date).format("D MMMM, YYYY");
+    const accent = tenant?.branding?.primaryColor || "#1976d2";
+    const billTo = invoice.billTo || {};
+    const formatAddress = (address: any) =>
+      address
+        ? [address.street, address.city, address.zipCode, address.country]
+            .filter(Boolean)
+            .join(", ")
+        : "";
+
+    // Header
+    doc
+      .fontSize(20)
+      .fillColor(accent)
+      .text("INVOICE", { align: "center" })
+      .moveDown(0.3);
+
+    doc
+      .fontSize(12)
+      .fillColor("#666666")
+      .text(invoice.invoiceNumber || "DRAFT", { align: "center" })
+      .moveDown(1.5);
+
+    // Issuer and bill-to blocks side by side
+    const blockTop = doc.y;
+    doc
+      .fontSize(10)
+      .fillColor("#666666")
+      .text("From", 50, blockTop)
+      .fillColor("#000000")
+      .text(tenant?.name || "", 50, doc.y + 2, { width: 230 });
+    if (tenant?.address) doc.text(formatAddress(tenant.address), { width: 230 });
+    if (tenant?.email) doc.text(tenant.email, { width: 230 });
+    if (tenant?.phone) doc.text(tenant.phone, { width: 230 });
+    const leftBottom = doc.y;
+
+    doc
+      .fontSize(10)
+      .fillColor("#666666")
+      .text("Bill to", 315, blockTop)
+      .fillColor("#000000")
+      .text(billTo.name || "", 315, doc.y + 2, { width: 230 });
+    if (billTo.company) doc.text(billTo.company, { width: 230 });
+    if (billTo.address) doc.text(formatAddress(billTo.address), { width: 230 });
+    if (billTo.vatNumber) doc.text(`VAT: ${billTo.vatNumber}`, { width: 230 });
+    if (billTo.email) doc.text(billTo.email, { width: 230 });
+    const rightBottom = doc.y;
+
+    doc.y = Math.max(leftBottom, rightBottom) + 15;
+    doc.x = 50;
+
+    doc
+      .fontSize(9)
+      .fillColor("#666666")
+      .text(`Issued: ${formatDate(invoice.issueDate || invoice.createdAt || new Date())}`, 50, doc.y);
+    if (invoice.dueDate) {
+      doc.text(`Due: ${formatDate(invoice.dueDate)}`);
+    }
+    doc.moveDown();
+
+    // Line items table
+    this.drawLineItemsTable(doc, invoice.lineItems || [], money);
+
+    // Totals
+    const addTotalRow = (label: string, value: string, emphasise = false) => {
+      const y = doc.y;
+      doc
+        .fontSize(emphasise ? 12 : 10)
+        .fillColor(emphasise ? accent : "#666666")
+        .text(label, 300, y, { width: 140 })
+        .fillColor("#000000")
+        .text(value, 450, y, { width: 95, align: "right" });
+      doc.moveDown(0.3);
+    };
+
+    addTotalRow("Subtotal", money(invoice.subtotal));
+    addTotalRow(`VAT (${invoice.taxRate || 0}%)`, money(invoice.taxAmount));
+    addTotalRow("Total", money(invoice.total), true);
+    if (invoice.amountPaid > 0) {
+      addTotalRow("Paid", money(invoice.amountPaid));
+      addTotalRow("Balance due", money(invoice.balanceDue), true);
+    }
+
+    // Notes
+    const notes = [invoice.notes, tenant?.settings?.invoicing?.footerNotes]
+      .filter(Boolean)
+      .join("\n\n");
+    if (notes) {
+      doc.moveDown();
+      doc.x = 50;
+      doc
+        .fontSize(10)
+        .fillColor("#666666")
+        .text("Notes", 50, doc.y)
+        .fontSize(9)
+        .fillColor("#000000")
+        .text(notes, { width: 495 });
+    }
+
+    // Footer
+    doc
+      .fontSize(8)
+      .fillColor("#999999")
+      .text(
+        `Generated on ${dayjs().format("D MMMM, YYYY HH:mm")}`,
+        50,
+        doc.page.height - 50,
         { align: "center" }
       );
 
-    // Finalize PDF
     doc.end();
 
     return doc;
@@ -88,6 +88,40 @@ export class PermissionService {
       "clients.delete",
       "clients.manage",
 
+      // Quote permissions
+      "quotes.view",
+      "quotes.create",
+      "quotes.edit",
+      "quotes.delete",
+
+      // Invoice permissions
+      "invoices.view",
+      "invoices.create",
+      "invoices.edit",
+      "invoices.delete",
+
+      // Purchase order permissions
+      "purchaseOrders.view",
+      "purchaseOrders.create",
+      "purchaseOrders.edit",
+      "purchaseOrders.delete",
+
+      // Service contract permissions
+      "contracts.view",
+      "contracts.create",
+      "contracts.edit",
+      "contracts.delete",
+
+      // Customer asset permissions
+      "assets.view",
+      "assets.create",
+      "assets.edit",
+      "assets.delete",
+
+      // Timesheet permissions
+      "timesheets.view",
+      "timesheets.approve",
+
       // Settings permissions
       "settings.view",
       "settings.edit",
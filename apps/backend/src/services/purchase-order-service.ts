@@ -0,0 +1,444 @@
+import { Material, PurchaseOrder, Supplier, Tenant } from "../models";
+import type { IPurchaseOrderLine } from "../models/PurchaseOrder";
+import { getNextSequence } from "../models/counter";
+import { HttpError } from "../middleware/http-error-middleware";
+import { InventoryService } from "./inventory-service";
+import { StockLocationService } from "./stock-location-service";
+
+// ----------------------------------------------------------------------
+
+export interface PurchaseOrderLineInput {
+  materialId: string;
+  quantity: number;
+  unitCost?: number;
+}
+
+export interface ReceiveLineInput {
+  lineId: string;
+  quantity: number;
+  unitCost?: number;
+}
+
+export type CostingMethod = "last_cost" | "weighted_average";
+
+// Orders whose remaining quantities are still expected to arrive
+const OPEN_STATUSES = ["draft", "sent", "partially_received"];
+
+// ----------------------------------------------------------------------
+
+export class PurchaseOrderService {
+  /**
+   * Generate the next per-tenant purchase order number (PO-000001)
+   */
+  static async generatePoNumber(tenantId: string): Promise<string> {
+    const seq = await getNextSequence(tenantId, "purchase_order");
+    return `PO-${String(seq).padStart(6, "0")}`;
+  }
+
+  /**
+   * Resolve order lines against the catalogue. Lines default to
+   * Material.unitCost unless an explicit unitCost is supplied.
+   */
+  static async buildLines(
+    tenantId: string,
+    lines: PurchaseOrderLineInput[],
+  ): Promise<IPurchaseOrderLine[]> {
+    const materialIds = lines.map((line) => line.materialId);
+    const materials =
+      materialIds.length > 0
+        ? await Material.find({ _id: { $in: materialIds }, tenantId }).lean()
+        : [];
+    const materialMap = new Map(
+      (materials as any[]).map((material) => [
+        material._id.toString(),
+        material,
+      ]),
+    );
+
+    return lines.map((line) => {
+      const material = materialMap.get(line.materialId);
+      if (!material) {
+        throw new HttpError(400, `Material ${line.materialId} not found`);
+      }
+
+      const unitCost = line.unitCost ?? material.unitCost ?? 0;
+      return {
+        materialId: line.materialId,
+        description: material.name,
+        sku: material.sku || undefined,
+        unit: material.unit,
+        quantity: line.quantity,
+        receivedQuantity: 0,
+        unitCost,
+        total: Math.round(line.quantity * unitCost * 100) / 100,
+      };
+    });
+  }
+
+  static pushHistory(
+    order: any,
+    status: string,
+    userId?: string,
+    notes?: string,
+  ): void {
+    order.history.push({ status, timestamp: new Date(), userId, notes });
+  }
+
+  static async getOrder(tenantId: string, orderId: string) {
+    return PurchaseOrder.findOne({ _id: orderId, tenantId })
+      .populate(
+        "supplierId",
+        "name contactName email phone address leadTimeDays paymentTerms",
+      )
+      .populate("locationId", "name type")
+      .lean();
+  }
+
+  /**
+   * Mark a draft as sent to the supplier. Without an expected date the
+   * supplier's lead time sets one.
+   */
+  static async send(tenantId: string, userId: string, orderId: string) {
+    const order = await PurchaseOrder.findOne({ _id: orderId, tenantId });
+    if (!order) {
+      throw new HttpError(404, "Purchase order not found");
+    }
+    if (order.status !== "draft") {
+      throw new HttpError(400, "Only draft purchase orders can be sent");
+    }
+    if (order.lines.length === 0) {
+      throw new HttpError(400, "Add at least one line before sending");
+    }
+
+    const supplier = await Supplier.findOne({
+      _id: order.supplierId,
+      tenantId,
+    }).lean<{ leadTimeDays?: number }>();
+
+    order.status = "sent";
+    order.sentAt = new Date();
+    if (!order.expectedDate) {
+      const expected = new Date();
+      expected.setDate(expected.getDate() + (supplier?.leadTimeDays ?? 0));
+      order.expectedDate = expected;
+    }
+    this.pushHistory(order, "sent", userId);
+    await order.save();
+
+    return order;
+  }
+
+  /**
+   * Receive delivered quantities into stock. Without lines, everything
+   * still outstanding is received.
+   */
+  static async receive(
+    tenantId: string,
+    userId: string,
+    orderId: string,
+    data: { lines?: ReceiveLineInput[]; locationId?: string; notes?: string },
+  ) {
+    const order = await PurchaseOrder.findOne({ _id: orderId, tenantId });
+    if (!order) {
+      throw new HttpError(404, "Purchase order not found");
+    }
+    if (!["sent", "partially_received"].includes(order.status)) {
+      throw new HttpError(
+        400,
+        "Only sent or partially received purchase orders can be received",
+      );
+    }
+
+    const requested: ReceiveLineInput[] =
+      data.lines ??
+      order.lines.map((line: any) => ({
+        lineId: line._id.toString(),
+        quantity: line.quantity - line.receivedQuantity,
+      }));
+
+    const receipts = requested
+      .filter((item) => item.quantity > 0)
+      .map((item) => {
+        const line = order.lines.id(item.lineId);
+        if (!line) {
+          throw new HttpError(400, `Line ${item.lineId} not found`);
+        }
+        const outstanding = line.quantity - line.receivedQuantity;
+        if (item.quantity > outstanding) {
+          throw new HttpError(
+            400,
+            `Only ${outstanding} ${line.unit || "units"} of ${line.description} outstanding`,
+          );
+        }
+        return { line, quantity: item.quantity, unitCost: item.unitCost };
+      });
+
+    if (receipts.length === 0) {
+      throw new HttpError(400, "Nothing to receive");
+    }
+    if (
+      new Set(receipts.map((r) => r.line._id.toString())).size < receipts.length
+    ) {
+      throw new HttpError(
+        400,
+        "Each line can only be received once per receipt",
+      );
+    }
+
+    const location = data.locationId
+      ? await StockLocationService.getActiveLocation(tenantId, data.locationId)
+      : order.locationId
+        ? await StockLocationService.getActiveLocation(
+            tenantId,
+            order.locationId,
+          )
+        : await StockLocationService.getDefaultWarehouse(tenantId);
+
+    // Claim the quantities before any stock moves. The claim only matches
+    // while every line still has the received quantity read above, so a
+    // double submit or a concurrent receipt cannot post the stock twice.
+    const claim = this.lineIncrements(receipts, 1);
+    const claimed = await PurchaseOrder.updateOne(
+      {
+        _id: order._id,
+        tenantId,
+        status: { $in: ["sent", "partially_received"] },
+        lines: {
+          $all: receipts.map((receipt) => ({
+            $elemMatch: {
+              _id: receipt.line._id,
+              receivedQuantity: receipt.line.receivedQuantity,
+            },
+          })),
+        },
+      },
+      claim.update,
+      { arrayFilters: claim.arrayFilters },
+    );
+    if (claimed.modifiedCount === 0) {
+      throw new HttpError(
+        409,
+        "The purchase order was received by another request; reload and try again",
+      );
+    }
+
+    const receiptLines: Array<{
+      lineId: string;
+      quantity: number;
+      unitCost: number;
+    }> = [];
+    let failure: unknown;
+
+    for (const receipt of receipts) {
+      const unitCost = receipt.unitCost ?? receipt.line.unitCost;
+
+      try {
+        await InventoryService.receive(tenantId, userId, {
+          materialId: receipt.line.materialId,
+          quantity: receipt.quantity,
+          unitCost,
+          locationId: location._id.toString(),
+          notes: `Received on ${order.poNumber}`,
+          source: { type: "purchase_order", id: order._id.toString() },
+        });
+      } catch (error) {
+        failure = error;
+        break;
+      }
+
+      receiptLines.push({
+        lineId: receipt.line._id.toString(),
+        quantity: receipt.quantity,
+        unitCost,
+      });
+    }
+
+    // Give back the claim on lines whose stock was never posted
+    const unposted = receipts.slice(receiptLines.length);
+    if (unposted.length > 0) {
+      const release = this.lineIncrements(unposted, -1);
+      await PurchaseOrder.updateOne(
+        { _id: order._id, tenantId },
+        release.update,
+        { arrayFilters: release.arrayFilters },
+      );
+    }
+    if (receiptLines.length === 0) {
+      throw failure;
+    }
+
+    // Record what was posted, even when a later line failed
+    const updated = await PurchaseOrder.findOneAndUpdate(
+      { _id: order._id, tenantId },
+      {
+        $push: {
+          receipts: {
+            receivedAt: new Date(),
+            receivedBy: userId,
+            locationId: location._id.toString(),
+            lines: receiptLines,
+            notes: data.notes,
+          },
+        },
+      },
+      { new: true },
+    );
+    if (!updated) {
+      throw new HttpError(404, "Purchase order not found");
+    }
+
+    const complete = updated.lines.every(
+      (line: any) => line.receivedQuantity >= line.quantity,
+    );
+    updated.status = complete ? "received" : "partially_received";
+    if (complete) updated.receivedAt = new Date();
+    this.pushHistory(updated, updated.status, userId, data.notes);
+    await updated.save();
+
+    if (failure) {
+      throw failure;
+    }
+
+    return updated;
+  }
+
+  /**
+   * $inc update moving the received quantity of the given lines
+   */
+  private static lineIncrements(
+    receipts: Array<{ line: any; quantity: number }>,
+    sign: 1 | -1,
+  ) {
+    return {
+      update: {
+        $inc: Object.fromEntries(
+          receipts.map((receipt, index) => [
+            `lines.$[line${index}].receivedQuantity`,
+            sign * receipt.quantity,
+          ]),
+        ),
+      },
+      arrayFilters: receipts.map((receipt, index) => ({
+        [`line${index}._id`]: receipt.line._id,
+      })),
+    };
+  }
+
+  /**
+   * Cancel an order; anything already received stays in stock
+   */
+  static async cancel(
+    tenantId: string,
+    userId: string,
+    orderId: string,
+    reason?: string,
+  ) {
+    const order = await PurchaseOrder.findOne({ _id: orderId, tenantId });
+    if (!order) {
+      throw new HttpError(404, "Purchase order not found");
+    }
+    if (!OPEN_STATUSES.includes(order.status)) {
+      throw new HttpError(
+        400,
+        `A ${order.status} purchase order cannot be cancelled`,
+      );
+    }
+
+    order.status = "cancelled";
+    order.cancelledAt = new Date();
+    this.pushHistory(order, "cancelled", userId, reason);
+    await order.save();
+
+    return order;
+  }
+
+  // ----------------------------------------------------------------------
+
+  /**
+   * Quantity still expected per material across open orders
+   */
+  static async getOnOrder(tenantId: string): Promise<Map<string, number>> {
+    const rows = await PurchaseOrder.aggregate([
+      {
+        $match: {
+          tenantId: tenantId.toString(),
+          status: { $in: OPEN_STATUSES },
+        },
+      },
+      { $unwind: "$lines" },
+      {
+        $group: {
+          _id: "$lines.materialId",
+          quantity: {
+            $sum: {
+              $max: [
+                0,
+                { $subtract: ["$lines.quantity", "$lines.receivedQuantity"] },
+              ],
+            },
+          },
+        },
+      },
+    ]);
+
+    return new Map(rows.map((row) => [row._id, row.quantity]));
+  }
+
+  /**
+   * Low-stock materials to reorder. A material is suggested when what is
+   * available plus what is already on order falls short of its minimum
+   * stock, for the quantity that brings it back up to the minimum.
+   */
+  static async getSuggestions(tenantId: string, supplierId?: string) {
+    const filter: Record<string, any> = {
+      tenantId,
+      isActive: true,
+      status: "active",
+      minimumStock: { $gt: 0 },
+    };
+    if (supplierId) filter.supplierId = supplierId;
+
+    const [materials, onOrder] = await Promise.all([
+      Material.find(filter)
+        .select(
+          "name sku unit unitCost quantity reservedQuantity minimumStock supplier supplierId",
+        )
+        .sort({ name: 1 })
+        .lean(),
+      this.getOnOrder(tenantId),
+    ]);
+
+    return (materials as any[])
+      .map((material) => {
+        const ordered = onOrder.get(material._id.toString()) || 0;
+        const available =
+          (material.quantity || 0) - (material.reservedQuantity || 0);
+        const shortfall = material.minimumStock - (available + ordered);
+        return {
+          material,
+          available,
+          onOrder: ordered,
+          suggestedQuantity: Math.ceil(shortfall),
+        };
+      })
+      .filter((suggestion) => suggestion.suggestedQuantity > 0);
+  }
+
+  static async getCostingMethod(tenantId: string): Promise<CostingMethod> {
+    const tenant = await Tenant.findById(tenantId)
+      .select("settings.inventory")
+      .lean<any>();
+    return tenant?.settings?.inventory?.costingMethod || "weighted_average";
+  }
+
+  static async setCostingMethod(
+    tenantId: string,
+    costingMethod: CostingMethod,
+  ): Promise<CostingMethod> {
+    await Tenant.updateOne(
+      { _id: tenantId },
+      { $set: { "settings.inventory.costingMethod": costingMethod } },
+    );
+    return costingMethod;
+  }
+}
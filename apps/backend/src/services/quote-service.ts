@@ -0,0 +1,297 @@
+import { Quote, Material, Personnel } from "../models";
+import type { IQuote, IQuoteLineItem } from "../models/Quote";
+import { getNextSequence } from "../models/counter";
+import { WorkOrderService } from "./work-order-service";
+import { HttpError } from "../middleware/http-error-middleware";
+
+// ----------------------------------------------------------------------
+
+export interface QuoteLineItemInput {
+  type: IQuoteLineItem["type"];
+  materialId?: string;
+  personnelId?: string;
+  description?: string;
+  quantity: number;
+  unit?: string;
+  unitPrice?: number;
+}
+
+// ----------------------------------------------------------------------
+
+export class QuoteService {
+  /**
+   * Generate the next per-tenant quote number (QT-000001)
+   */
+  static async generateQuoteNumber(tenantId: string): Promise<string> {
+    const seq = await getNextSequence(tenantId, "quote");
+    return `QT-${String(seq).padStart(6, "0")}`;
+  }
+
+  /**
+   * Resolve line items against the catalogue. Material lines default to
+   * Material.unitCost and labor lines to Personnel.hourlyRate unless an
+   * explicit unitPrice override is supplied.
+   */
+  static async priceLineItems(
+    tenantId: string,
+    items: QuoteLineItemInput[],
+  ): Promise<IQuoteLineItem[]> {
+    const materialIds = items
+      .filter((item) => item.type === "material" && item.materialId)
+      .map((item) => item.materialId as string);
+    const personnelIds = items
+      .filter((item) => item.type === "labor" && item.personnelId)
+      .map((item) => item.personnelId as string);
+
+    const [materials, personnel] = await Promise.all([
+      materialIds.length > 0
+        ? Material.find({ _id: { $in: materialIds }, tenantId }).lean()
+        : [],
+      personnelIds.length > 0
+        ? Personnel.find({ _id: { $in: personnelIds }, tenantId })
+            .populate("userId", "firstName lastName")
+            .lean()
+        : [],
+    ]);
+
+    const materialMap = new Map(
+      (materials as any[]).map((m) => [m._id.toString(), m]),
+    );
+    const personnelMap = new Map(
+      (personnel as any[]).map((p) => [p._id.toString(), p]),
+    );
+
+    return items.map((item) => {
+      if (item.type === "material") {
+        const material = item.materialId
+          ? materialMap.get(item.materialId)
+          : undefined;
+        if (item.materialId && !material) {
+          throw new HttpError(400, `Material ${item.materialId} not found`);
+        }
+        const unitPrice = item.unitPrice ?? material?.unitCost ?? 0;
+        return {
+          type: "material",
+          materialId: item.materialId,
+          description: item.description || material?.name || "Material",
+          quantity: item.quantity,
+          unit: item.unit || material?.unit || "pcs",
+          unitPrice,
+          total: Math.round(item.quantity * unitPrice * 100) / 100,
+        };
+      }
+
+      if (item.type === "labor") {
+        const member = item.personnelId
+          ? personnelMap.get(item.personnelId)
+          : undefined;
+        if (item.personnelId && !member) {
+          throw new HttpError(400, `Personnel ${item.personnelId} not found`);
+        }
+        const memberName = member?.userId
+          ? `${member.userId.firstName} ${member.userId.lastName}`.trim()
+          : member?.employeeId;
+        const unitPrice = item.unitPrice ?? member?.hourlyRate ?? 0;
+        return {
+          type: "labor",
+          personnelId: item.personnelId,
+          description:
+            item.description || (memberName ? `Labor - ${memberName}` : "Labor"),
+          quantity: item.quantity,
+          unit: item.unit || "h",
+          unitPrice,
+          total: Math.round(item.quantity * unitPrice * 100) / 100,
+        };
+      }
+
+      const unitPrice = item.unitPrice ?? 0;
+      return {
+        type: "custom",
+        description: item.description || "Item",
+        quantity: item.quantity,
+        unit: item.unit,
+        unitPrice,
+        total: Math.round(item.quantity * unitPrice * 100) / 100,
+      };
+    });
+  }
+
+  /**
+   * Convert an accepted quote into a work order, carrying over the client,
+   * location and line items.
+   */
+  static async convertToWorkOrder(
+    quote: any,
+    tenantId: string,
+    userId: string,
+    overrides: { scheduledDate?: Date; priority?: string } = {},
+    requestId?: string,
+  ): Promise<any> {
+    if (quote.workOrderId) {
+      throw new HttpError(409, "Quote has already been converted to a work order");
+    }
+
+    const lineItems: IQuoteLineItem[] = quote.lineItems || [];
+    const materials = lineItems
+      .filter((item) => item.type !== "labor")
+      .map((item) => ({
+        materialId: item.materialId,
+        name: item.description,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        total: item.total,
+      }));
+
+    const laborHours = lineItems
+      .filter((item) => item.type === "labor")
+      .reduce((sum, item) => sum + item.quantity, 0);
+
+    // Personnel priced on labor lines become the initial assignees
+    const personnelIds = Array.from(
+      new Set(
+        lineItems
+          .filter((item) => item.type === "labor" && item.personnelId)
+          .map((item) => item.personnelId as string),
+      ),
+    );
+
+    return WorkOrderService.create(
+      tenantId,
+      userId,
+      {
+        clientId: quote.clientId,
+        personnelIds,
+        title: quote.title,
+        details: quote.description || "",
+        priority: overrides.priority || "medium",
+        location: {
+          address: quote.location?.address || "",
+          coordinates: quote.location?.coordinates,
+        },
+        scheduledDate: overrides.scheduledDate,
+        estimatedDuration: laborHours > 0
+          ? { value: Math.max(1, Math.ceil(laborHours)), unit: "hours" }
+          : undefined,
+        cost: {
+          labor: quote.subtotalLabor || 0,
+          materials: quote.subtotalMaterials || 0,
+          total: quote.subtotal || 0,
+        },
+        materials,
+      },
+      {
+        historyNote: `Work order created from quote ${quote.quoteNumber}`,
+        webhookData: { quoteId: quote._id },
+        requestId,
+      },
+    );
+  }
+
+  /**
+   * Accept a quote and convert it into a work order. The quote is claimed
+   * with a conditional update first, so a double submit or the staff and
+   * portal paths racing cannot create two work orders.
+   */
+  static async accept(
+    tenantId: string,
+    quoteId: string,
+    actorId: string,
+    options: {
+      // Statuses the quote may be accepted from
+      from: IQuote["status"][];
+      // Extra conditions, e.g. the portal client
+      filter?: Record<string, unknown>;
+      overrides?: { scheduledDate?: Date; priority?: string };
+      notes: (workOrderNumber: string) => string;
+      requestId?: string;
+    },
+  ) {
+    const now = new Date();
+    const claimed = await Quote.findOneAndUpdate(
+      {
+        _id: quoteId,
+        tenantId,
+        ...options.filter,
+        status: { $in: options.from },
+        workOrderId: null,
+        $or: [{ validUntil: null }, { validUntil: { $gte: now } }],
+      },
+      { $set: { status: "accepted", acceptedAt: now, acceptedBy: actorId } },
+      { new: false },
+    );
+
+    if (!claimed) {
+      const quote = await Quote.findOne({ _id: quoteId, tenantId, ...options.filter })
+        .select("status validUntil workOrderId")
+        .lean<Pick<IQuote, "status" | "validUntil" | "workOrderId">>();
+      // Drafts are not visible where they cannot be accepted
+      if (!quote || (quote.status === "draft" && !options.from.includes("draft"))) {
+        throw new HttpError(404, "Quote not found");
+      }
+      if (!options.from.includes(quote.status)) {
+        throw new HttpError(400, `Quote is already ${quote.status}`);
+      }
+      if (quote.workOrderId) {
+        throw new HttpError(409, "Quote has already been converted to a work order");
+      }
+      throw new HttpError(400, "Quote has expired");
+    }
+
+    let workOrder;
+    try {
+      workOrder = await this.convertToWorkOrder(
+        claimed,
+        tenantId,
+        actorId,
+        options.overrides,
+        options.requestId,
+      );
+    } catch (error) {
+      // Hand the quote back so it can be accepted again
+      await Quote.updateOne(
+        { _id: quoteId, tenantId, status: "accepted", workOrderId: null },
+        {
+          $set: { status: claimed.status },
+          $unset: { acceptedAt: 1, acceptedBy: 1 },
+        },
+      );
+      throw error;
+    }
+
+    const quote = await Quote.findOne({ _id: quoteId, tenantId });
+    if (!quote) {
+      throw new HttpError(404, "Quote not found");
+    }
+    quote.workOrderId = workOrder._id.toString();
+    this.pushHistory(
+      quote,
+      "accepted",
+      actorId,
+      options.notes(workOrder.workOrderNumber),
+    );
+    await quote.save();
+
+    return { quote, workOrder };
+  }
+
+  /**
+   * Record a status transition on the quote history
+   */
+  static pushHistory(
+    quote: IQuote,
+    status: IQuote["status"],
+    userId?: string,
+    notes?: string,
+  ): void {
+    quote.history.push({ status, timestamp: new Date(), userId, notes });
+  }
+
+  /**
+   * Quote fetched with its client for rendering
+   */
+  static async getQuoteWithClient(quoteId: string, tenantId: string) {
+    return Quote.findOne({ _id: quoteId, tenantId })
+      .populate("clientId", "name email phone company vatNumber address")
+      .lean();
+  }
+}
@@ -2,6 +2,8 @@ import { Server as SocketIOServer } from 'socket.io';
 import { Server as HttpServer } from 'http';
 import jwt from 'jsonwebtoken';
 import { User } from '../models';
+import { PermissionService } from './permission-service';
+import { LocationTrackingService, type LiveTechnician } from './location-tracking-service';
 
 export interface AuthenticatedSocket {
   id: string;
@@ -37,6 +39,9 @@ export interface RealtimeEvents {
   'notification:read': (data: { notificationId: string; unreadCount: number }) => void;
   'notification:unread_count': (data: { unreadCount: number }) => void;
   
+  // Live technician locations, sent to the tenant's tracking room
+  'technician:location': (data: LiveTechnician) => void;
+
   // Generic events for future use
   'notification': (data: { type: string; message: string; data?: any }) => void;
 }
@@ -162,6 +167,39 @@ class RealtimeService {
        
       });
 
+      // Dispatchers watching the live map
+      socket.on('join:tracking', async () => {
+        const { hasPermission } = await PermissionService.hasPermissionAsync(
+          socket.userId,
+          'workOrders.view',
+          socket.tenantId,
+        );
+        if (hasPermission) {
+          socket.join(`tracking:${socket.tenantId}`);
+        }
+      });
+
+      socket.on('leave:tracking', () => {
+        socket.leave(`tracking:${socket.tenantId}`);
+      });
+
+      // Positions streamed by the field app while a technician is on shift
+      socket.on('location:update', async (data: any, ack?: (response: any) => void) => {
+        try {
+          const technician = await LocationTrackingService.recordLocation(
+            socket.tenantId,
+            socket.userId,
+            data,
+          );
+          if (technician) {
+            this.io?.to(`tracking:${socket.tenantId}`).emit('technician:location', technician);
+          }
+          ack?.({ success: true, tracked: !!technician });
+        } catch (error: any) {
+          ack?.({ success: false, message: error?.message || 'Failed to record location' });
+        }
+      });
+
       // Handle typing indicators
       socket.on('typing:start', (data: { taskId: string }) => {
         socket.broadcast.to(`task:${data.taskId}`).emit('user:typing', {
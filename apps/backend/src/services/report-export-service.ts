@@ -0,0 +1,566 @@
+import dayjs from "dayjs";
+import ExcelJS from "exceljs";
+import {
+  AlignmentType,
+  Document,
+  HeadingLevel,
+  ImageRun,
+  Packer,
+  Paragraph,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from "docx";
+
+// ----------------------------------------------------------------------
+
+export type ReportExportFormat = "pdf" | "docx" | "xlsx" | "csv";
+
+export const REPORT_EXPORT_FORMATS: Record<
+  ReportExportFormat,
+  { contentType: string; extension: string }
+> = {
+  pdf: { contentType: "application/pdf", extension: "pdf" },
+  docx: {
+    contentType:
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    extension: "docx",
+  },
+  xlsx: {
+    contentType:
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    extension: "xlsx",
+  },
+  csv: { contentType: "text/csv; charset=utf-8", extension: "csv" },
+};
+
+// Older clients ask for "word"/"excel"
+const FORMAT_ALIASES: Record<string, ReportExportFormat> = {
+  word: "docx",
+  excel: "xlsx",
+};
+
+const formatDateTime = (date?: Date | string) =>
+  date ? dayjs(date).format("D MMMM, YYYY HH:mm") : "";
+
+const formatTimeEntry = (date?: Date | string) =>
+  date ? dayjs(date).format("DD/MM/YYYY HH:mm") : "";
+
+const capitalize = (value?: string) =>
+  value ? value.charAt(0).toUpperCase() + value.slice(1) : "";
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  EUR: "€",
+  USD: "$",
+  GBP: "£",
+};
+
+const money = (amount: number | undefined, currency: string) => {
+  const value = (amount || 0).toFixed(2);
+  return CURRENCY_SYMBOLS[currency]
+    ? `${CURRENCY_SYMBOLS[currency]}${value}`
+    : `${value} ${currency}`;
+};
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const formatAddress = (address?: Record<string, string | undefined>) =>
+  address
+    ? [address.street, address.city, address.state, address.zipCode]
+        .filter(Boolean)
+        .join(", ")
+    : "";
+
+// ----------------------------------------------------------------------
+
+export class ReportExportService {
+  /**
+   * Normalise a requested export format, or null when unsupported
+   */
+  static resolveFormat(format: string): ReportExportFormat | null {
+    const normalised = format.toLowerCase();
+    if (normalised in REPORT_EXPORT_FORMATS) {
+      return normalised as ReportExportFormat;
+    }
+    return FORMAT_ALIASES[normalised] || null;
+  }
+
+  /**
+   * Key/value rows shared by the DOCX and XLSX summaries, built from the
+   * embedded snapshots so exports match what was reported at the time
+   */
+  private static buildSummarySections(
+    report: any,
+    currency: string,
+  ): Array<{ title: string; rows: Array<[string, string]> }> {
+    const sections: Array<{ title: string; rows: Array<[string, string]> }> =
+      [];
+    const compact = (rows: Array<[string, string | undefined]>) =>
+      rows.filter(([, value]) => value) as Array<[string, string]>;
+
+    sections.push({
+      title: "Report Overview",
+      rows: compact([
+        ["Report ID", String(report._id)],
+        ["Type", report.type?.toUpperCase()],
+        ["Status", capitalize(report.status)],
+        ["Priority", capitalize(report.priority)],
+        ["Report Date", formatDateTime(report.reportDate)],
+        ["Location", report.location],
+        ["Weather", report.weather],
+        ["Notes", report.notes],
+      ]),
+    });
+
+    if (report.clientData) {
+      sections.push({
+        title: "Client Information",
+        rows: compact([
+          ["Name", report.clientData.name],
+          ["Company", report.clientData.company],
+          ["Email", report.clientData.email],
+          ["Phone", report.clientData.phone],
+          ["Address", formatAddress(report.clientData.address)],
+        ]),
+      });
+    }
+
+    if (report.workOrderData) {
+      sections.push({
+        title: "Work Order Information",
+        rows: compact([
+          ["Work Order #", report.workOrderData.number],
+          ["Title", report.workOrderData.title],
+          ["Description", report.workOrderData.description],
+          ["Status", report.workOrderData.status],
+          ["Priority", report.workOrderData.priority],
+        ]),
+      });
+    }
+
+    sections.push({
+      title: "Personnel",
+      rows: compact([
+        ["Created By", report.createdByData?.name],
+        ["Assigned To", report.assignedToData?.name],
+      ]),
+    });
+
+    sections.push({
+      title: "Cost Summary",
+      rows: [
+        ["Material Cost", money(report.totalMaterialCost, currency)],
+        ["Labor Cost", money(report.totalLaborCost, currency)],
+        ["Total Cost", money(report.totalCost, currency)],
+      ],
+    });
+
+    return sections;
+  }
+
+  /**
+   * Render the report as an editable Word document
+   */
+  static async generateReportDOCX(
+    report: any,
+    currency: string = "EUR",
+  ): Promise<Buffer> {
+    const children: Array<Paragraph | Table> = [];
+
+    const cell = (text: string, bold = false) =>
+      new TableCell({
+        children: [new Paragraph({ children: [new TextRun({ text, bold })] })],
+      });
+
+    const table = (headers: string[], rows: string[][]) =>
+      new Table({
+        width: { size: 100, type: WidthType.PERCENTAGE },
+        rows: [
+          new TableRow({
+            tableHeader: true,
+            children: headers.map((header) => cell(header, true)),
+          }),
+          ...rows.map(
+            (row) =>
+              new TableRow({ children: row.map((value) => cell(value)) }),
+          ),
+        ],
+      });
+
+    const heading = (text: string) =>
+      new Paragraph({
+        text,
+        heading: HeadingLevel.HEADING_2,
+        spacing: { before: 300, after: 120 },
+      });
+
+    children.push(
+      new Paragraph({
+        text: "FIELD SERVICE REPORT",
+        heading: HeadingLevel.TITLE,
+        alignment: AlignmentType.CENTER,
+      }),
+    );
+
+    for (const section of this.buildSummarySections(report, currency)) {
+      if (section.title === "Cost Summary") continue;
+      children.push(heading(section.title));
+      for (const [key, value] of section.rows) {
+        children.push(
+          new Paragraph({
+            children: [
+              new TextRun({ text: `${key}: `, bold: true }),
+              new TextRun(value),
+            ],
+          }),
+        );
+      }
+    }
+
+    if (report.tasksData?.length > 0) {
+      children.push(heading("Tasks"));
+      children.push(
+        table(
+          ["Task", "Status", "Priority"],
+          report.tasksData.map((task: any) => [
+            task.name,
+            capitalize(task.status),
+            capitalize(task.priority),
+          ]),
+        ),
+      );
+    }
+
+    if (report.materialsUsed?.length > 0) {
+      children.push(heading("Materials Used"));
+      children.push(
+        table(
+          ["Material", "Quantity", "Unit Cost", "Total"],
+          report.materialsUsed.map((usage: any) => [
+            usage.material?.name || "",
+            `${usage.quantityUsed} ${usage.material?.unit || ""}`.trim(),
+            money(usage.unitCost, currency),
+            money(usage.totalCost, currency),
+          ]),
+        ),
+      );
+    }
+
+    if (report.timeEntries?.length > 0) {
+      children.push(heading("Time Entries"));
+      children.push(
+        table(
+          ["Description", "Start Time", "End Time", "Duration", "Category"],
+          report.timeEntries.map((entry: any) => [
+            entry.description || "",
+            formatTimeEntry(entry.startTime),
+            formatTimeEntry(entry.endTime),
+            `${((entry.duration || 0) / 60).toFixed(1)}h`,
+            entry.category || "",
+          ]),
+        ),
+      );
+      if (report.totalHours) {
+        children.push(
+          new Paragraph({
+            children: [
+              new TextRun({ text: "Total Hours: ", bold: true }),
+              new TextRun(`${report.totalHours.toFixed(2)}h`),
+            ],
+          }),
+        );
+      }
+    }
+
+    children.push(heading("Cost Summary"));
+    children.push(
+      table(
+        ["", "Amount"],
+        [
+          ["Material Cost", money(report.totalMaterialCost, currency)],
+          ["Labor Cost", money(report.totalLaborCost, currency)],
+          ["Total Cost", money(report.totalCost, currency)],
+        ],
+      ),
+    );
+
+    if (report.signatures?.length > 0) {
+      children.push(heading("Signatures"));
+      for (const signature of report.signatures) {
+        if (signature.signatureData) {
+          try {
+            const match = /^data:image\/(\w+);base64,/.exec(
+              signature.signatureData,
+            );
+            const imageType = match?.[1] === "jpeg" ? "jpg" : "png";
+            const data = Buffer.from(
+              signature.signatureData.replace(/^data:image\/\w+;base64,/, ""),
+              "base64",
+            );
+            children.push(
+              new Paragraph({
+                children: [
+                  new ImageRun({
+                    type: imageType,
+                    data,
+                    transformation: { width: 180, height: 60 },
+                  }),
+                ],
+              }),
+            );
+          } catch (e) {
+            // If the image cannot be embedded, the signer details still follow
+          }
+        }
+        children.push(
+          new Paragraph({
+            children: [
+              new TextRun({
+                text: `${signature.type?.toUpperCase()}: `,
+                bold: true,
+              }),
+              new TextRun(
+                [signature.signerName, signature.signerTitle]
+                  .filter(Boolean)
+                  .join(", "),
+              ),
+              new TextRun({
+                text: ` (Signed: ${formatDateTime(signature.signedAt)})`,
+                color: "999999",
+              }),
+            ],
+            spacing: { after: 200 },
+          }),
+        );
+      }
+    }
+
+    const attachments = (report.attachments || []).filter(
+      (att: any) => !att.originalName?.startsWith("signature-"),
+    );
+    if (attachments.length > 0) {
+      children.push(heading("Attachments"));
+      attachments.forEach((attachment: any, index: number) => {
+        children.push(
+          new Paragraph(`${index + 1}. ${attachment.originalName}`),
+        );
+      });
+    }
+
+    children.push(
+      new Paragraph({
+        alignment: AlignmentType.CENTER,
+        spacing: { before: 400 },
+        children: [
+          new TextRun({
+            text: `Generated on ${formatDateTime(new Date())}`,
+            size: 16,
+            color: "999999",
+          }),
+        ],
+      }),
+    );
+
+    const doc = new Document({
+      creator: "ErgoFlow",
+      title: `Field Service Report ${report._id}`,
+      sections: [{ children }],
+    });
+
+    return Packer.toBuffer(doc);
+  }
+
+  /**
+   * Render the report as a workbook with summary, time entry, material and task sheets
+   */
+  static async generateReportXLSX(
+    report: any,
+    currency: string = "EUR",
+  ): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = "ErgoFlow";
+    workbook.created = new Date();
+
+    const summary = workbook.addWorksheet("Summary");
+    summary.columns = [
+      { key: "key", width: 24 },
+      { key: "value", width: 60 },
+    ];
+    for (const section of this.buildSummarySections(report, currency)) {
+      summary.addRow([section.title]).font = { bold: true, size: 12 };
+      for (const [key, value] of section.rows) {
+        summary.addRow([key, value]);
+      }
+      summary.addRow([]);
+    }
+
+    const timeSheet = workbook.addWorksheet("Time Entries");
+    timeSheet.columns = [
+      { header: "Description", key: "description", width: 40 },
+      {
+        header: "Start Time",
+        key: "startTime",
+        width: 20,
+        style: { numFmt: "dd/mm/yyyy hh:mm" },
+      },
+      {
+        header: "End Time",
+        key: "endTime",
+        width: 20,
+        style: { numFmt: "dd/mm/yyyy hh:mm" },
+      },
+      {
+        header: "Duration (h)",
+        key: "hours",
+        width: 14,
+        style: { numFmt: "0.00" },
+      },
+      { header: "Category", key: "category", width: 14 },
+      { header: "Task", key: "task", width: 30 },
+    ];
+    for (const entry of report.timeEntries || []) {
+      timeSheet.addRow({
+        description: entry.description,
+        startTime: entry.startTime ? new Date(entry.startTime) : null,
+        endTime: entry.endTime ? new Date(entry.endTime) : null,
+        hours: (entry.duration || 0) / 60,
+        category: entry.category,
+        task: entry.taskData?.name,
+      });
+    }
+
+    const materialSheet = workbook.addWorksheet("Materials");
+    materialSheet.columns = [
+      { header: "Material", key: "name", width: 32 },
+      { header: "SKU", key: "sku", width: 16 },
+      { header: "Quantity", key: "quantity", width: 12 },
+      { header: "Unit", key: "unit", width: 10 },
+      {
+        header: "Unit Cost",
+        key: "unitCost",
+        width: 12,
+        style: { numFmt: "#,##0.00" },
+      },
+      {
+        header: "Total",
+        key: "totalCost",
+        width: 14,
+        style: { numFmt: "#,##0.00" },
+      },
+      { header: "Notes", key: "notes", width: 30 },
+    ];
+    for (const usage of report.materialsUsed || []) {
+      materialSheet.addRow({
+        name: usage.material?.name,
+        sku: usage.material?.sku,
+        quantity: usage.quantityUsed,
+        unit: usage.material?.unit,
+        unitCost: usage.unitCost,
+        totalCost: usage.totalCost,
+        notes: usage.notes,
+      });
+    }
+
+    if (report.tasksData?.length > 0) {
+      const taskSheet = workbook.addWorksheet("Tasks");
+      taskSheet.columns = [
+        { header: "Task", key: "name", width: 36 },
+        { header: "Status", key: "status", width: 14 },
+        { header: "Priority", key: "priority", width: 12 },
+        { header: "Estimated (h)", key: "estimatedHours", width: 14 },
+        { header: "Actual (h)", key: "actualHours", width: 12 },
+      ];
+      for (const task of report.tasksData) {
+        taskSheet.addRow(task);
+      }
+    }
+
+    for (const sheet of [timeSheet, materialSheet]) {
+      sheet.getRow(1).font = { bold: true };
+      sheet.views = [{ state: "frozen", ySplit: 1 }];
+    }
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+
+  /**
+   * Render time entries and materials as one flat CSV for back-office import
+   */
+  static generateReportCSV(report: any, currency: string = "EUR"): string {
+    const escape = (value: unknown) => {
+      let text = value === undefined || value === null ? "" : String(value);
+      if (typeof value === "string" && FORMULA_PREFIX.test(text)) {
+        text = `'${text}`;
+      }
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const base = [
+      String(report._id),
+      dayjs(report.reportDate).format("YYYY-MM-DD"),
+      report.clientData?.name,
+      report.workOrderData?.number,
+      report.workOrderData?.title,
+    ];
+
+    const rows: unknown[][] = [
+      [
+        "Report ID",
+        "Report Date",
+        "Client",
+        "Work Order #",
+        "Work Order",
+        "Line Type",
+        "Description",
+        "Start",
+        "End",
+        "Category",
+        "Quantity",
+        "Unit",
+        "Unit Cost",
+        "Total",
+        "Currency",
+      ],
+    ];
+
+    for (const entry of report.timeEntries || []) {
+      rows.push([
+        ...base,
+        "time",
+        entry.description,
+        entry.startTime
+          ? dayjs(entry.startTime).format("YYYY-MM-DD HH:mm")
+          : "",
+        entry.endTime ? dayjs(entry.endTime).format("YYYY-MM-DD HH:mm") : "",
+        entry.category,
+        ((entry.duration || 0) / 60).toFixed(2),
+        "h",
+        "",
+        "",
+        "",
+      ]);
+    }
+
+    for (const usage of report.materialsUsed || []) {
+      rows.push([
+        ...base,
+        "material",
+        usage.material?.name,
+        "",
+        "",
+        usage.material?.category,
+        usage.quantityUsed,
+        usage.material?.unit,
+        (usage.unitCost || 0).toFixed(2),
+        (usage.totalCost || 0).toFixed(2),
+        currency,
+      ]);
+    }
+
+    // BOM so spreadsheet apps detect UTF-8 (Greek client and material names)
+    return "\uFEFF" + rows.map((row) => row.map(escape).join(",")).join("\r\n");
+  }
+}
@@ -0,0 +1,286 @@
+import { ReportTemplate, Tenant } from "../models";
+import {
+  REPORT_TEMPLATE_SECTIONS,
+  type IReportTemplate,
+  type IReportTemplateSection,
+  type ReportTemplateSectionKey,
+} from "../models/ReportTemplate";
+import type { ITenant } from "../models/Tenant";
+import { HttpError } from "../middleware/http-error-middleware";
+
+// ----------------------------------------------------------------------
+
+export type ReportTemplateConfig = Pick<
+  IReportTemplate,
+  "sections" | "header" | "footer" | "logo" | "colors" | "signatureBlocks"
+>;
+
+// Fully populated layout handed to PDFService.generateReportPDF
+export interface ResolvedReportTemplate
+  extends Omit<ReportTemplateConfig, "colors" | "logo"> {
+  colors: { primary: string; secondary: string };
+  logo: IReportTemplate["logo"] & { url?: string };
+}
+
+export const DEFAULT_SECTION_TITLES: Record<ReportTemplateSectionKey, string> =
+  {
+    overview: "Report Overview",
+    client: "Client Information",
+    workOrder: "Work Order Information",
+    personnel: "Personnel",
+    tasks: "Tasks",
+    materials: "Materials Used",
+    timeEntries: "Time Entries",
+    costSummary: "Cost Summary",
+    inspections: "Inspection Checklists",
+    signatures: "Signatures",
+    attachments: "Attachments",
+  };
+
+const DEFAULT_PRIMARY_COLOR = "#1976d2";
+const DEFAULT_SECONDARY_COLOR = "#666666";
+
+// Mirrors the layout reports had before templates existed
+const DEFAULT_TEMPLATE: ReportTemplateConfig = {
+  sections: REPORT_TEMPLATE_SECTIONS.map((key) => ({
+    key,
+    // Tasks were never part of the original layout
+    enabled: key !== "tasks",
+  })),
+  header: { title: "FIELD SERVICE REPORT", showReportId: true },
+  footer: { showGeneratedAt: true, showPageNumbers: false },
+  logo: { placement: "none", width: 120 },
+  colors: {},
+  signatureBlocks: [],
+};
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+// ----------------------------------------------------------------------
+
+export class ReportTemplateService {
+  /**
+   * Built-in layout used when a tenant has not configured any template
+   */
+  static getDefaultConfig(): ReportTemplateConfig {
+    return structuredClone(DEFAULT_TEMPLATE);
+  }
+
+  /**
+   * Pick the template for a report: one targeting its type first, then the
+   * tenant default
+   */
+  static async findForReport(
+    tenantId: string,
+    reportType?: string,
+  ): Promise<IReportTemplate | null> {
+    if (reportType) {
+      const typed = await ReportTemplate.findOne({
+        tenantId,
+        reportTypes: reportType,
+      })
+        .sort({ isDefault: -1, updatedAt: -1 })
+        .lean<IReportTemplate>();
+      if (typed) return typed;
+    }
+
+    return ReportTemplate.findOne({ tenantId, isDefault: true }).lean<IReportTemplate>();
+  }
+
+  /**
+   * Merge a (possibly partial) template with the built-in defaults and the
+   * tenant branding colors and logo
+   */
+  static resolve(
+    template: Partial<ReportTemplateConfig> | null | undefined,
+    tenant?: Pick<ITenant, "branding"> | null,
+  ): ResolvedReportTemplate {
+    const defaults = DEFAULT_TEMPLATE;
+    const branding = tenant?.branding;
+
+    const pickColor = (...candidates: Array<string | undefined>) =>
+      candidates.find((color) => color && HEX_COLOR.test(color)) as string;
+
+    return {
+      sections: this.normaliseSections(template?.sections),
+      header: { ...defaults.header, ...template?.header },
+      footer: { ...defaults.footer, ...template?.footer },
+      logo: {
+        ...defaults.logo,
+        ...template?.logo,
+        url: branding?.logoUrl,
+      },
+      colors: {
+        primary: pickColor(
+          template?.colors?.primary,
+          branding?.primaryColor,
+          DEFAULT_PRIMARY_COLOR,
+        ),
+        secondary: pickColor(
+          template?.colors?.secondary,
+          branding?.secondaryColor,
+          DEFAULT_SECONDARY_COLOR,
+        ),
+      },
+      signatureBlocks: template?.signatureBlocks || [],
+    };
+  }
+
+  /**
+   * Resolve the layout to use when exporting a report for a tenant
+   */
+  static async resolveForReport(
+    tenantId: string,
+    reportType?: string,
+  ): Promise<ResolvedReportTemplate> {
+    const [template, tenant] = await Promise.all([
+      this.findForReport(tenantId, reportType),
+      Tenant.findById(tenantId).select("branding").lean<ITenant>(),
+    ]);
+    return this.resolve(template, tenant);
+  }
+
+  /**
+   * Keep the configured order and append any section the template does not
+   * mention as disabled, so new sections never appear unannounced
+   */
+  private static normaliseSections(
+    sections?: IReportTemplateSection[],
+  ): IReportTemplateSection[] {
+    if (!sections || sections.length === 0) {
+      return structuredClone(DEFAULT_TEMPLATE.sections);
+    }
+
+    const seen = new Set<string>();
+    const ordered = sections.filter((section) => {
+      if (seen.has(section.key)) return false;
+      seen.add(section.key);
+      return true;
+    });
+
+    for (const key of REPORT_TEMPLATE_SECTIONS) {
+      // Checklists only print on reports that have them, so templates saved
+      // before they existed still show them
+      if (!seen.has(key)) {
+        ordered.push({ key, enabled: key === "inspections" });
+      }
+    }
+
+    return ordered;
+  }
+
+  /**
+   * Make a template the tenant default, clearing the flag on the others
+   */
+  static async setDefault(
+    tenantId: string,
+    templateId: string,
+  ): Promise<IReportTemplate> {
+    const template = await ReportTemplate.findOne({
+      _id: templateId,
+      tenantId,
+    });
+    if (!template) {
+      throw new HttpError(404, "Report template not found");
+    }
+
+    await ReportTemplate.updateMany(
+      { tenantId, _id: { $ne: templateId }, isDefault: true },
+      { $set: { isDefault: false } },
+    );
+
+    template.isDefault = true;
+    await template.save();
+    return template.toObject();
+  }
+
+  /**
+   * Representative report used to preview a template without real data
+   */
+  static buildSampleReport(): Record<string, any> {
+    const start = new Date();
+    start.setHours(9, 0, 0, 0);
+    const end = new Date(start.getTime() + 150 * 60 * 1000);
+
+    return {
+      _id: "PREVIEW",
+      type: "maintenance",
+      status: "approved",
+      priority: "medium",
+      reportDate: start,
+      location: "12 Ermou Street, Athens",
+      weather: "Sunny, 24°C",
+      notes: "Replaced the worn pump seal and tested the system under load.",
+      clientData: {
+        name: "Sample Client",
+        company: "Sample Company Ltd",
+        email: "client@example.com",
+        phone: "+30 210 000 0000",
+        address: {
+          street: "12 Ermou Street",
+          city: "Athens",
+          zipCode: "105 63",
+        },
+      },
+      workOrderData: {
+        number: "WO-000123",
+        title: "Quarterly pump maintenance",
+        status: "completed",
+        priority: "medium",
+      },
+      createdByData: { name: "Alex Technician", role: "technician" },
+      assignedToData: { name: "Sam Supervisor", role: "supervisor" },
+      tasksData: [
+        { name: "Inspect pump", status: "done", priority: "medium" },
+        { name: "Replace seal", status: "done", priority: "high" },
+      ],
+      materialsUsed: [
+        {
+          material: { name: "Pump seal kit", unit: "pcs" },
+          quantityUsed: 1,
+          unitCost: 42.5,
+          totalCost: 42.5,
+        },
+      ],
+      timeEntries: [
+        {
+          description: "On-site maintenance",
+          startTime: start,
+          endTime: end,
+          duration: 150,
+          category: "labor",
+        },
+      ],
+      totalHours: 2.5,
+      totalMaterialCost: 42.5,
+      totalLaborCost: 112.5,
+      totalCost: 155,
+      inspections: [
+        {
+          formName: "Pump inspection",
+          assetName: "Circulation pump 1",
+          result: "fail",
+          answers: [
+            {
+              label: "Seal leaking",
+              type: "yes_no",
+              section: "Visual",
+              value: "yes",
+              result: "fail",
+            },
+            {
+              label: "Discharge pressure",
+              type: "number",
+              section: "Readings",
+              value: 3.2,
+              unit: "bar",
+              result: "pass",
+            },
+          ],
+        },
+      ],
+      signatures: [],
+      attachments: [],
+    };
+  }
+}
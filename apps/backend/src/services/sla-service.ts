@@ -0,0 +1,945 @@
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+import { SlaPolicy, type ISlaPolicy } from "../models/SlaPolicy";
+import { WorkOrder, type IWorkOrder } from "../models/WorkOrder";
+import { Personnel } from "../models/Personnel";
+import { Client } from "../models/Client";
+import { Tenant } from "../models/Tenant";
+import { User } from "../models/User";
+import { HttpError } from "../middleware/http-error-middleware";
+import { NotificationService } from "./notification-service";
+import { WebhookService } from "./webhook-service";
+import { WorkOrderTimelineService } from "./work-order-timeline-service";
+import { UnifiedSmsService } from "./unified-sms-service";
+import { CentralizedUsageService } from "./centralized-usage-service";
+import {
+  DEFAULT_WORKING_HOURS,
+  type WorkingHoursSettings,
+} from "./timesheet-service";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+// ----------------------------------------------------------------------
+
+export type SlaTimer = "response" | "resolution";
+
+export type WorkOrderSla = NonNullable<IWorkOrder["sla"]>;
+
+export interface BusinessClock {
+  hours: WorkingHoursSettings;
+  timezone: string;
+}
+
+export interface SlaPolicyInput {
+  name?: string;
+  description?: string;
+  match?: Partial<ISlaPolicy["match"]>;
+  responseMinutes?: number;
+  resolutionMinutes?: number;
+  pauseOnHold?: boolean;
+  escalation?: Partial<ISlaPolicy["escalation"]>;
+  isActive?: boolean;
+}
+
+export interface SlaReportFilters {
+  from: Date;
+  to: Date;
+  policyId?: string;
+  clientId?: string;
+  priority?: string;
+}
+
+export interface SlaComplianceRow {
+  key: string;
+  label: string;
+  workOrders: number;
+  responseMet: number;
+  responseBreached: number;
+  resolutionMet: number;
+  resolutionBreached: number;
+}
+
+// Statuses that count as someone having picked the job up
+const RESPONDED_STATUSES = ["assigned", "in-progress", "completed"];
+
+const CLOSED_STATUSES = ["completed", "cancelled"];
+
+// Escalations and automatic changes are recorded under this user
+const SYSTEM_USER_ID = "system";
+
+const DATE_FORMAT = "YYYY-MM-DD";
+
+// Safety stop for clocks with very few business minutes a year
+const MAX_CLOCK_DAYS = 3 * 366;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+const timerLabel = (timer: SlaTimer) =>
+  timer === "response" ? "Response" : "Resolution";
+
+// One timer's fields on a work order's SLA record
+const timerState = (sla: WorkOrderSla, timer: SlaTimer) =>
+  timer === "response"
+    ? {
+        dueAt: sla.responseDueAt,
+        warnAt: sla.responseWarnAt,
+        stoppedAt: sla.respondedAt,
+        breached: sla.responseBreached,
+        warnedAt: sla.responseWarnedAt,
+        escalatedAt: sla.responseEscalatedAt,
+      }
+    : {
+        dueAt: sla.resolutionDueAt,
+        warnAt: sla.resolutionWarnAt,
+        stoppedAt: sla.resolvedAt,
+        breached: sla.resolutionBreached,
+        warnedAt: sla.resolutionWarnedAt,
+        escalatedAt: sla.resolutionEscalatedAt,
+      };
+
+// ----------------------------------------------------------------------
+
+export class SlaService {
+  static async listPolicies(tenantId: string) {
+    return SlaPolicy.find({ tenantId })
+      .sort({ isActive: -1, createdAt: 1 })
+      .lean();
+  }
+
+  static async createPolicy(
+    tenantId: string,
+    userId: string,
+    input: SlaPolicyInput,
+  ) {
+    this.assertTargets(input);
+    const policy = await SlaPolicy.create({
+      ...input,
+      tenantId,
+      createdBy: userId,
+    });
+
+    await this.syncOpenWorkOrders(tenantId);
+    return policy;
+  }
+
+  static async updatePolicy(
+    tenantId: string,
+    policyId: string,
+    input: SlaPolicyInput,
+  ) {
+    const policy = await SlaPolicy.findOne({ _id: policyId, tenantId });
+    if (!policy) {
+      throw new HttpError(404, "SLA policy not found");
+    }
+
+    const { match, escalation, ...rest } = input;
+    policy.set(rest);
+    if (match) policy.set("match", { ...policy.toObject().match, ...match });
+    if (escalation) {
+      policy.set("escalation", {
+        ...policy.toObject().escalation,
+        ...escalation,
+      });
+    }
+    this.assertTargets(policy);
+    await policy.save();
+
+    await this.syncOpenWorkOrders(tenantId);
+    return policy;
+  }
+
+  /**
+   * Deleting a policy releases its open work orders to the next best
+   * match. Closed work orders keep their recorded timers for reporting.
+   */
+  static async deletePolicy(tenantId: string, policyId: string) {
+    const policy = await SlaPolicy.findOneAndDelete({
+      _id: policyId,
+      tenantId,
+    });
+    if (!policy) {
+      throw new HttpError(404, "SLA policy not found");
+    }
+    await this.syncOpenWorkOrders(tenantId);
+  }
+
+  // ----------------------------------------------------------------------
+
+  static async getClock(tenantId: string): Promise<BusinessClock> {
+    const tenant = await Tenant.findById(tenantId)
+      .select("settings.workingHours settings.timezone")
+      .lean<any>();
+    return {
+      hours: {
+        ...DEFAULT_WORKING_HOURS,
+        ...(tenant?.settings?.workingHours || {}),
+      },
+      timezone: tenant?.settings?.timezone || "UTC",
+    };
+  }
+
+  /**
+   * The business day's opening and closing time on a calendar day, or
+   * null when the tenant doesn't work that day
+   */
+  private static businessDay(day: dayjs.Dayjs, clock: BusinessClock) {
+    if (!clock.hours.days.includes(day.day())) return null;
+    const date = day.format(DATE_FORMAT);
+    return {
+      open: dayjs.tz(`${date} ${clock.hours.start}`, clock.timezone),
+      close: dayjs.tz(`${date} ${clock.hours.end}`, clock.timezone),
+    };
+  }
+
+  // A clock with no working time runs around the clock instead
+  private static isAlwaysOpen(clock: BusinessClock) {
+    return (
+      clock.hours.days.length === 0 ||
+      toMinutes(clock.hours.end) <= toMinutes(clock.hours.start)
+    );
+  }
+
+  /**
+   * The moment a number of business minutes after `start` runs out
+   */
+  static addBusinessMinutes(
+    start: Date,
+    minutes: number,
+    clock: BusinessClock,
+  ): Date {
+    if (this.isAlwaysOpen(clock)) {
+      return dayjs(start).add(minutes, "minute").toDate();
+    }
+
+    let remaining = minutes;
+    let cursor = dayjs(start).tz(clock.timezone);
+    for (let i = 0; i < MAX_CLOCK_DAYS; i++) {
+      const hours = this.businessDay(cursor, clock);
+      if (hours && cursor.isBefore(hours.close)) {
+        const from = cursor.isBefore(hours.open) ? hours.open : cursor;
+        const available = hours.close.diff(from, "minute", true);
+        if (available >= remaining) {
+          return from.add(remaining, "minute").toDate();
+        }
+        remaining -= available;
+      }
+      cursor = cursor.add(1, "day").startOf("day");
+    }
+    return cursor.toDate();
+  }
+
+  /**
+   * Business minutes between two moments
+   */
+  static businessMinutesBetween(
+    from: Date,
+    to: Date,
+    clock: BusinessClock,
+  ): number {
+    if (to <= from) return 0;
+    if (this.isAlwaysOpen(clock)) {
+      return dayjs(to).diff(from, "minute", true);
+    }
+
+    const end = dayjs(to);
+    let total = 0;
+    let cursor = dayjs(from).tz(clock.timezone);
+    for (let i = 0; i < MAX_CLOCK_DAYS && cursor.isBefore(end); i++) {
+      const hours = this.businessDay(cursor, clock);
+      if (hours) {
+        const start = cursor.isAfter(hours.open) ? cursor : hours.open;
+        const stop = end.isBefore(hours.close) ? end : hours.close;
+        if (stop.isAfter(start)) total += stop.diff(start, "minute", true);
+      }
+      cursor = cursor.add(1, "day").startOf("day");
+    }
+    return total;
+  }
+
+  // ----------------------------------------------------------------------
+
+  /**
+   * The most specific active policy for a work order: a contract match
+   * beats a client match, which beats a priority match. Ties go to the
+   * oldest policy.
+   */
+  static pickPolicy(
+    policies: ISlaPolicy[],
+    workOrder: Pick<IWorkOrder, "priority" | "clientId" | "contractId">,
+  ): ISlaPolicy | null {
+    let best: ISlaPolicy | null = null;
+    let bestScore = -1;
+    for (const policy of policies) {
+      const { priorities, clientIds, contractIds } = policy.match;
+      const matches = (values: string[], value?: string) =>
+        values.length === 0 || (!!value && values.includes(value));
+      if (
+        !matches(priorities, workOrder.priority) ||
+        !matches(clientIds, workOrder.clientId?.toString()) ||
+        !matches(contractIds, workOrder.contractId?.toString())
+      ) {
+        continue;
+      }
+
+      const score =
+        (contractIds.length > 0 ? 4 : 0) +
+        (clientIds.length > 0 ? 2 : 0) +
+        (priorities.length > 0 ? 1 : 0);
+      if (score > bestScore) {
+        best = policy;
+        bestScore = score;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Work out a work order's timers from its status history. Response
+   * stops at the first assignment, resolution at completion; time on hold
+   * is added back onto both targets when the policy pauses on hold.
+   * Planned contract visits start the clock on the visit date.
+   */
+  static computeTimers(
+    workOrder: any,
+    policy: ISlaPolicy,
+    clock: BusinessClock,
+    previous?: Partial<WorkOrderSla>,
+    now = new Date(),
+  ): WorkOrderSla {
+    const createdAt = new Date(workOrder.createdAt);
+    const visitDate = workOrder.contractVisitDate
+      ? dayjs(workOrder.contractVisitDate)
+          .tz(clock.timezone)
+          .startOf("day")
+          .toDate()
+      : undefined;
+    const start = visitDate && visitDate > createdAt ? visitDate : createdAt;
+    const history = [...(workOrder.history || [])].sort(
+      (a: any, b: any) =>
+        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
+    );
+
+    let respondedAt: Date | undefined;
+    let resolvedAt: Date | undefined;
+    let cancelledAt: Date | undefined;
+    let pausedAt: Date | undefined;
+    let pausedMinutes = 0;
+    let responsePausedMinutes = 0;
+
+    for (const entry of history) {
+      const at = new Date(entry.timestamp);
+      if (pausedAt && entry.status !== "on-hold") {
+        pausedMinutes += this.businessMinutesBetween(pausedAt, at, clock);
+        pausedAt = undefined;
+      }
+      if (policy.pauseOnHold && entry.status === "on-hold" && !pausedAt) {
+        pausedAt = at;
+      }
+      if (!respondedAt && RESPONDED_STATUSES.includes(entry.status)) {
+        respondedAt = at;
+        responsePausedMinutes = pausedMinutes;
+      }
+      // Reopening a completed or cancelled work order restarts the clock
+      resolvedAt = entry.status === "completed" ? at : undefined;
+      cancelledAt = entry.status === "cancelled" ? at : undefined;
+    }
+
+    // Work orders from before history was kept
+    if (!respondedAt && RESPONDED_STATUSES.includes(workOrder.status)) {
+      respondedAt = new Date(workOrder.startedAt || workOrder.updatedAt);
+    }
+    if (!resolvedAt && workOrder.status === "completed") {
+      resolvedAt = new Date(workOrder.completedAt || workOrder.updatedAt);
+    }
+
+    const stoppedAt = resolvedAt || cancelledAt || now;
+    const totalPaused =
+      pausedMinutes +
+      (pausedAt ? this.businessMinutesBetween(pausedAt, stoppedAt, clock) : 0);
+    const pausedBeforeResponse = respondedAt
+      ? responsePausedMinutes
+      : totalPaused;
+
+    const due = (target: number, paused: number) =>
+      this.addBusinessMinutes(start, target + paused, clock);
+    const warnPercent = policy.escalation?.warnAtPercent || 0;
+    const warnAt = (target: number, paused: number) =>
+      warnPercent > 0
+        ? due(Math.round((target * warnPercent) / 100), paused)
+        : undefined;
+
+    const responseDueAt = due(policy.responseMinutes, pausedBeforeResponse);
+    const resolutionDueAt = due(policy.resolutionMinutes, totalPaused);
+    const responseBreached =
+      (respondedAt || cancelledAt || now) > responseDueAt;
+    const resolutionBreached = stoppedAt > resolutionDueAt;
+
+    return {
+      policyId: policy._id.toString(),
+      policyName: policy.name,
+      responseDueAt,
+      resolutionDueAt,
+      responseWarnAt: warnAt(policy.responseMinutes, pausedBeforeResponse),
+      resolutionWarnAt: warnAt(policy.resolutionMinutes, totalPaused),
+      respondedAt,
+      resolvedAt,
+      pausedAt: resolvedAt || cancelledAt ? undefined : pausedAt,
+      pausedMinutes: Math.round(totalPaused),
+      responseBreached,
+      resolutionBreached,
+      // A target pushed back by a policy or priority change can warn and
+      // escalate again
+      responseWarnedAt: previous?.responseWarnedAt,
+      resolutionWarnedAt: previous?.resolutionWarnedAt,
+      responseEscalatedAt: responseBreached
+        ? previous?.responseEscalatedAt
+        : undefined,
+      resolutionEscalatedAt: resolutionBreached
+        ? previous?.resolutionEscalatedAt
+        : undefined,
+    };
+  }
+
+  /**
+   * Attach, recompute or drop a work order's SLA timers. Open work orders
+   * follow the current best policy; closed ones keep the policy they ran
+   * under. Never throws, so callers can run it after saving.
+   */
+  static async syncWorkOrder(
+    tenantId: string,
+    workOrderId: string,
+  ): Promise<WorkOrderSla | null> {
+    try {
+      const workOrder = await WorkOrder.findOne({
+        _id: workOrderId,
+        tenantId,
+      }).lean<any>();
+      if (!workOrder) return null;
+
+      const [policies, clock] = await Promise.all([
+        this.getActivePolicies(tenantId),
+        this.getClock(tenantId),
+      ]);
+      return await this.applyTimers(workOrder, policies, clock);
+    } catch (error) {
+      console.error("Error updating SLA timers:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Recompute every open work order, after policies change
+   */
+  static async syncOpenWorkOrders(tenantId: string): Promise<number> {
+    const [policies, clock] = await Promise.all([
+      this.getActivePolicies(tenantId),
+      this.getClock(tenantId),
+    ]);
+
+    let synced = 0;
+    const cursor = WorkOrder.find({
+      tenantId,
+      status: { $nin: CLOSED_STATUSES },
+    })
+      .select(
+        "tenantId priority clientId contractId contractVisitDate status history createdAt updatedAt startedAt completedAt sla",
+      )
+      .lean<any>()
+      .cursor();
+    for await (const workOrder of cursor) {
+      await this.applyTimers(workOrder, policies, clock);
+      synced++;
+    }
+    return synced;
+  }
+
+  private static async getActivePolicies(tenantId: string) {
+    return SlaPolicy.find({ tenantId, isActive: true }).sort({ createdAt: 1 });
+  }
+
+  private static async applyTimers(
+    workOrder: any,
+    policies: ISlaPolicy[],
+    clock: BusinessClock,
+  ): Promise<WorkOrderSla | null> {
+    const closed = CLOSED_STATUSES.includes(workOrder.status);
+    const policy =
+      closed && workOrder.sla?.policyId
+        ? await SlaPolicy.findOne({
+            _id: workOrder.sla.policyId,
+            tenantId: workOrder.tenantId,
+          })
+        : this.pickPolicy(policies, workOrder);
+
+    if (!policy) {
+      // Keep the record of a closed work order whose policy was deleted
+      if (workOrder.sla && !closed) {
+        await WorkOrder.updateOne(
+          { _id: workOrder._id },
+          { $unset: { sla: 1 } },
+        );
+      }
+      return closed ? workOrder.sla || null : null;
+    }
+
+    const previous =
+      workOrder.sla?.policyId === policy._id.toString()
+        ? workOrder.sla
+        : undefined;
+    const sla = this.computeTimers(workOrder, policy, clock, previous);
+
+    await WorkOrder.updateOne({ _id: workOrder._id }, { $set: { sla } });
+    return sla;
+  }
+
+  // ----------------------------------------------------------------------
+
+  /**
+   * Send warnings and breach escalations that have come due, for one
+   * tenant or all of them (for cron job)
+   */
+  static async processEscalations(tenantId?: string) {
+    const now = new Date();
+    const candidates = await WorkOrder.find({
+      ...(tenantId ? { tenantId } : {}),
+      status: { $nin: CLOSED_STATUSES },
+      "sla.policyId": { $exists: true },
+      $or: [
+        {
+          "sla.respondedAt": null,
+          "sla.responseEscalatedAt": null,
+          "sla.responseDueAt": { $lte: now },
+        },
+        {
+          "sla.respondedAt": null,
+          "sla.responseWarnedAt": null,
+          "sla.responseWarnAt": { $lte: now },
+        },
+        {
+          "sla.resolutionEscalatedAt": null,
+          "sla.resolutionDueAt": { $lte: now },
+        },
+        {
+          "sla.resolutionWarnedAt": null,
+          "sla.resolutionWarnAt": { $lte: now },
+        },
+      ],
+    })
+      .select("_id tenantId")
+      .lean<any[]>();
+
+    let warnings = 0;
+    let breaches = 0;
+    for (const candidate of candidates) {
+      const workOrderTenantId = candidate.tenantId.toString();
+      // Time on hold may have pushed the targets back since the last run
+      const sla = await this.syncWorkOrder(
+        workOrderTenantId,
+        candidate._id.toString(),
+      );
+      if (!sla) continue;
+
+      for (const timer of ["response", "resolution"] as SlaTimer[]) {
+        const state = timerState(sla, timer);
+        if (state.stoppedAt) continue;
+
+        if (state.breached && !state.escalatedAt) {
+          if (await this.escalate(candidate._id, timer, "breached")) {
+            breaches++;
+          }
+        } else if (
+          !state.breached &&
+          state.warnAt &&
+          state.warnAt <= now &&
+          !state.warnedAt
+        ) {
+          if (await this.escalate(candidate._id, timer, "warning")) {
+            warnings++;
+          }
+        }
+      }
+    }
+
+    return { processed: candidates.length, warnings, breaches };
+  }
+
+  /**
+   * Claim and send one warning or breach. Returns false when another run
+   * already sent it.
+   */
+  private static async escalate(
+    workOrderId: string,
+    timer: SlaTimer,
+    level: "warning" | "breached",
+  ): Promise<boolean> {
+    const stamp =
+      level === "breached" ? `sla.${timer}EscalatedAt` : `sla.${timer}WarnedAt`;
+    const now = new Date();
+    const workOrder = await WorkOrder.findOneAndUpdate(
+      { _id: workOrderId, [stamp]: null },
+      {
+        $set: {
+          [stamp]: now,
+          // A breach supersedes its warning
+          ...(level === "breached" ? { [`sla.${timer}WarnedAt`]: now } : {}),
+        },
+      },
+      { new: true },
+    ).lean<any>();
+    if (!workOrder?.sla) return false;
+
+    const tenantId = workOrder.tenantId.toString();
+    const workOrderKey = workOrder._id.toString();
+    const [policy, clock] = await Promise.all([
+      SlaPolicy.findOne({
+        _id: workOrder.sla.policyId,
+        tenantId,
+      }).lean<any>(),
+      this.getClock(tenantId),
+    ]);
+    const { dueAt } = timerState(workOrder.sla, timer);
+    const label = timerLabel(timer);
+    const reference = workOrder.workOrderNumber || workOrder.title;
+    // Recipients read the due time on the tenant's clock, not the server's
+    const due = dayjs(dueAt).tz(clock.timezone).format("DD/MM/YYYY HH:mm");
+
+    const title =
+      level === "breached"
+        ? `SLA breached: ${reference}`
+        : `SLA at risk: ${reference}`;
+    const message =
+      level === "breached"
+        ? `${label} target of ${workOrder.sla.policyName} was due ${due}`
+        : `${label} target of ${workOrder.sla.policyName} is due ${due}`;
+
+    const recipients = await this.getRecipients(
+      tenantId,
+      workOrder,
+      policy?.escalation,
+    );
+
+    try {
+      await Promise.all(
+        recipients.map((recipient) =>
+          NotificationService.createNotification({
+            tenantId,
+            userId: recipient._id.toString(),
+            type: level === "breached" ? "sla_breached" : "sla_warning",
+            category: "system",
+            title,
+            message,
+            relatedEntity: {
+              entityType: "workorder",
+              entityId: workOrderKey,
+              entityTitle: workOrder.title,
+            },
+            metadata: { workOrderId: workOrderKey },
+            createdBy: SYSTEM_USER_ID,
+          }),
+        ),
+      );
+    } catch (error) {
+      console.error("Error creating SLA notifications:", error);
+    }
+
+    if (level === "breached") {
+      await WorkOrderTimelineService.logWorkOrderSlaBreached(
+        workOrderKey,
+        label,
+        workOrder.sla.policyName,
+        dueAt,
+        tenantId,
+      );
+      if (policy?.escalation?.sms) {
+        await this.sendBreachSms(tenantId, recipients, `${title}. ${message}`);
+      }
+    }
+
+    await WebhookService.triggerWebhooks(
+      tenantId,
+      level === "breached"
+        ? "work_order.sla_breached"
+        : "work_order.sla_warning",
+      {
+        workOrder: {
+          _id: workOrder._id,
+          workOrderNumber: workOrder.workOrderNumber,
+          title: workOrder.title,
+          priority: workOrder.priority,
+          status: workOrder.status,
+          workflowStatus: workOrder.workflowStatus,
+          clientId: workOrder.clientId,
+        },
+        sla: {
+          policyId: workOrder.sla.policyId,
+          policyName: workOrder.sla.policyName,
+          timer,
+          dueAt,
+        },
+      },
+      `${workOrderKey}:${timer}:${level}`,
+    );
+
+    return true;
+  }
+
+  private static async getRecipients(
+    tenantId: string,
+    workOrder: any,
+    escalation?: ISlaPolicy["escalation"],
+  ): Promise<any[]> {
+    const userIds = new Set<string>();
+
+    if (escalation?.notifyAssignees && workOrder.personnelIds?.length) {
+      const personnel = await Personnel.find({
+        _id: { $in: workOrder.personnelIds },
+        tenantId,
+      })
+        .select("userId")
+        .lean<any[]>();
+      for (const person of personnel) {
+        if (person.userId) userIds.add(person.userId.toString());
+      }
+    }
+
+    return User.find({
+      tenantId,
+      isActive: true,
+      $or: [
+        { _id: { $in: [...userIds] } },
+        { role: { $in: escalation?.notifyRoles || [] } },
+        { isTenantOwner: true },
+      ],
+    })
+      .select("_id phone")
+      .lean<any[]>();
+  }
+
+  private static async sendBreachSms(
+    tenantId: string,
+    recipients: any[],
+    message: string,
+  ) {
+    try {
+      const tenant = await Tenant.findById(tenantId);
+      const config = UnifiedSmsService.loadConfigFromTenant(tenant);
+      if (!config.enabled) return;
+
+      const smsService = new UnifiedSmsService(config);
+      const phones = [
+        ...new Set(
+          recipients
+            .map((recipient) =>
+              recipient.phone
+                ? smsService.formatPhoneNumber(recipient.phone)
+                : null,
+            )
+            .filter((phone): phone is string => !!phone),
+        ),
+      ];
+      if (phones.length === 0) return;
+
+      const result = await smsService.sendSMS(phones, message);
+      if (result.success) {
+        await CentralizedUsageService.trackSmsSent(tenantId, phones.length);
+      }
+    } catch (error) {
+      console.error("Error sending SLA breach SMS:", error);
+    }
+  }
+
+  // ----------------------------------------------------------------------
+
+  /**
+   * Response and resolution compliance for work orders created in a
+   * period. Targets still running count as neither met nor breached;
+   * cancelled work orders are left out.
+   */
+  static async getComplianceReport(
+    tenantId: string,
+    filters: SlaReportFilters,
+  ) {
+    const query: Record<string, any> = {
+      tenantId,
+      status: { $ne: "cancelled" },
+      "sla.policyId": filters.policyId || { $exists: true },
+      createdAt: { $gte: filters.from, $lte: filters.to },
+    };
+    if (filters.clientId) query.clientId = filters.clientId;
+    if (filters.priority) query.priority = filters.priority;
+
+    const workOrders = await WorkOrder.find(query)
+      .select("workOrderNumber title priority status clientId createdAt sla")
+      .lean<any[]>();
+
+    const clientIds = [...new Set(workOrders.map((wo) => wo.clientId))];
+    const [clients, clock] = await Promise.all([
+      Client.find({ _id: { $in: clientIds }, tenantId })
+        .select("name company")
+        .lean<any[]>(),
+      this.getClock(tenantId),
+    ]);
+    const clientNames = new Map(
+      clients.map((client) => [
+        client._id.toString(),
+        client.company || client.name,
+      ]),
+    );
+
+    const now = new Date();
+    // Breaches the next escalation run hasn't recorded yet count too
+    const outcome = (sla: WorkOrderSla, timer: SlaTimer) => {
+      const state = timerState(sla, timer);
+      if (
+        state.breached ||
+        (!state.stoppedAt && !sla.pausedAt && now > state.dueAt)
+      ) {
+        return "breached";
+      }
+      return state.stoppedAt ? "met" : "running";
+    };
+
+    const groups = {
+      policy: new Map<string, SlaComplianceRow>(),
+      priority: new Map<string, SlaComplianceRow>(),
+      client: new Map<string, SlaComplianceRow>(),
+    };
+    const row = (
+      group: Map<string, SlaComplianceRow>,
+      key: string,
+      label: string,
+    ) => {
+      if (!group.has(key)) {
+        group.set(key, {
+          key,
+          label,
+          workOrders: 0,
+          responseMet: 0,
+          responseBreached: 0,
+          resolutionMet: 0,
+          resolutionBreached: 0,
+        });
+      }
+      return group.get(key)!;
+    };
+
+    const summary = row(new Map(), "all", "All");
+    const responseMinutes: number[] = [];
+    const resolutionMinutes: number[] = [];
+    const breaches: any[] = [];
+
+    for (const workOrder of workOrders) {
+      const sla: WorkOrderSla = workOrder.sla;
+      const clientId = workOrder.clientId?.toString();
+      const rows = [
+        summary,
+        row(groups.policy, sla.policyId, sla.policyName),
+        row(groups.priority, workOrder.priority, workOrder.priority),
+        row(groups.client, clientId, clientNames.get(clientId) || "Unknown"),
+      ];
+
+      const response = outcome(sla, "response");
+      const resolution = outcome(sla, "resolution");
+      for (const item of rows) {
+        item.workOrders++;
+        if (response === "met") item.responseMet++;
+        if (response === "breached") item.responseBreached++;
+        if (resolution === "met") item.resolutionMet++;
+        if (resolution === "breached") item.resolutionBreached++;
+      }
+
+      if (sla.respondedAt) {
+        responseMinutes.push(
+          this.businessMinutesBetween(
+            workOrder.createdAt,
+            sla.respondedAt,
+            clock,
+          ),
+        );
+      }
+      if (sla.resolvedAt) {
+        resolutionMinutes.push(
+          Math.max(
+            0,
+            this.businessMinutesBetween(
+              workOrder.createdAt,
+              sla.resolvedAt,
+              clock,
+            ) - (sla.pausedMinutes || 0),
+          ),
+        );
+      }
+      if (response === "breached" || resolution === "breached") {
+        breaches.push({
+          workOrderId: workOrder._id,
+          workOrderNumber: workOrder.workOrderNumber,
+          title: workOrder.title,
+          priority: workOrder.priority,
+          status: workOrder.status,
+          clientName: clientNames.get(clientId),
+          policyName: sla.policyName,
+          timers: [
+            ...(response === "breached" ? ["response"] : []),
+            ...(resolution === "breached" ? ["resolution"] : []),
+          ],
+          responseDueAt: sla.responseDueAt,
+          resolutionDueAt: sla.resolutionDueAt,
+        });
+      }
+    }
+
+    const average = (values: number[]) =>
+      values.length > 0
+        ? Math.round(
+            values.reduce((sum, value) => sum + value, 0) / values.length,
+          )
+        : null;
+    const rate = (met: number, breached: number) =>
+      met + breached > 0
+        ? Math.round((met / (met + breached)) * 1000) / 10
+        : null;
+    const sortRows = (group: Map<string, SlaComplianceRow>) =>
+      [...group.values()].sort((a, b) => b.workOrders - a.workOrders);
+
+    return {
+      summary: {
+        ...summary,
+        responseCompliance: rate(summary.responseMet, summary.responseBreached),
+        resolutionCompliance: rate(
+          summary.resolutionMet,
+          summary.resolutionBreached,
+        ),
+        averageResponseMinutes: average(responseMinutes),
+        averageResolutionMinutes: average(resolutionMinutes),
+      },
+      byPolicy: sortRows(groups.policy),
+      byPriority: sortRows(groups.priority),
+      byClient: sortRows(groups.client),
+      breaches: breaches
+        .sort(
+          (a, b) =>
+            new Date(b.resolutionDueAt).getTime() -
+            new Date(a.resolutionDueAt).getTime(),
+        )
+        .slice(0, 50),
+    };
+  }
+
+  private static assertTargets(input: SlaPolicyInput) {
+    if (
+      input.responseMinutes !== undefined &&
+      input.resolutionMinutes !== undefined &&
+      input.resolutionMinutes < input.responseMinutes
+    ) {
+      throw new HttpError(
+        400,
+        "Resolution target can't be shorter than the response target",
+      );
+    }
+  }
+}
@@ -0,0 +1,400 @@
+import { Personnel, StockLevel, StockLocation, StockMovement } from "../models";
+import type {
+  IStockLocation,
+  StockLocationType,
+} from "../models/StockLocation";
+import { HttpError } from "../middleware/http-error-middleware";
+
+// ----------------------------------------------------------------------
+
+export interface StockLocationInput {
+  name: string;
+  type: StockLocationType;
+  personnelId?: string;
+  address?: string;
+  notes?: string;
+  isDefault?: boolean;
+  isActive?: boolean;
+}
+
+const personnelName = (personnel: any) =>
+  [personnel?.userId?.firstName, personnel?.userId?.lastName]
+    .filter(Boolean)
+    .join(" ") ||
+  personnel?.employeeId ||
+  "Technician";
+
+// ----------------------------------------------------------------------
+
+export class StockLocationService {
+  /**
+   * Locations with how many materials and units each one holds
+   */
+  static async listLocations(tenantId: string, includeInactive = false) {
+    const filter: Record<string, any> = { tenantId: tenantId.toString() };
+    if (!includeInactive) filter.isActive = true;
+
+    const [locations, totals] = await Promise.all([
+      StockLocation.find(filter)
+        .populate({
+          path: "personnelId",
+          select: "employeeId userId",
+          populate: { path: "userId", select: "firstName lastName" },
+        })
+        .sort({ isDefault: -1, type: 1, name: 1 })
+        .lean(),
+      StockLevel.aggregate([
+        {
+          $match: { tenantId: tenantId.toString(), quantity: { $ne: 0 } },
+        },
+        {
+          $group: {
+            _id: "$locationId",
+            itemCount: { $sum: 1 },
+            totalQuantity: { $sum: "$quantity" },
+          },
+        },
+      ]),
+    ]);
+
+    const totalsByLocation = new Map(totals.map((row) => [row._id, row]));
+
+    return (locations as any[]).map((location) => {
+      const personnel = location.personnelId;
+      const total = totalsByLocation.get(location._id.toString());
+      return {
+        ...location,
+        personnelId: personnel?._id?.toString() || personnel || undefined,
+        personnelName: personnel?._id ? personnelName(personnel) : undefined,
+        itemCount: total?.itemCount || 0,
+        totalQuantity: total?.totalQuantity || 0,
+      };
+    });
+  }
+
+  static async createLocation(tenantId: string, data: StockLocationInput) {
+    if (data.type === "vehicle") {
+      if (!data.personnelId) {
+        throw new HttpError(400, "A vehicle location needs a technician");
+      }
+      await this.assertPersonnel(tenantId, data.personnelId);
+
+      const existing = await StockLocation.findOne({
+        tenantId: tenantId.toString(),
+        type: "vehicle",
+        personnelId: data.personnelId,
+      });
+      if (existing) {
+        throw new HttpError(409, "This technician already has a vehicle");
+      }
+    }
+
+    const location = await StockLocation.create({
+      ...data,
+      tenantId: tenantId.toString(),
+      personnelId: data.type === "vehicle" ? data.personnelId : undefined,
+      isDefault: false,
+    });
+
+    if (data.isDefault) {
+      await this.setDefault(tenantId, location);
+    }
+
+    return StockLocation.findById(location._id).lean();
+  }
+
+  static async updateLocation(
+    tenantId: string,
+    locationId: string,
+    data: Partial<StockLocationInput>,
+  ) {
+    const location = await StockLocation.findOne({
+      _id: locationId,
+      tenantId: tenantId.toString(),
+    });
+    if (!location) {
+      throw new HttpError(404, "Stock location not found");
+    }
+
+    if (data.type && data.type !== location.type) {
+      throw new HttpError(400, "The type of a location cannot be changed");
+    }
+    if (data.isActive === false && location.isDefault) {
+      throw new HttpError(400, "The default warehouse cannot be deactivated");
+    }
+    if (
+      location.type === "vehicle" &&
+      data.personnelId &&
+      data.personnelId !== location.personnelId
+    ) {
+      await this.assertPersonnel(tenantId, data.personnelId);
+    }
+
+    const { isDefault, type: _type, ...changes } = data;
+    Object.assign(location, changes);
+    if (location.type !== "vehicle") location.personnelId = undefined;
+    await location.save();
+
+    if (isDefault) {
+      await this.setDefault(tenantId, location);
+    }
+
+    return StockLocation.findById(location._id).lean();
+  }
+
+  /**
+   * Delete an empty location; locations with history are deactivated instead
+   */
+  static async removeLocation(tenantId: string, locationId: string) {
+    const location = await StockLocation.findOne({
+      _id: locationId,
+      tenantId: tenantId.toString(),
+    });
+    if (!location) {
+      throw new HttpError(404, "Stock location not found");
+    }
+    if (location.isDefault) {
+      throw new HttpError(400, "The default warehouse cannot be removed");
+    }
+
+    const holdsStock = await StockLevel.exists({
+      tenantId: tenantId.toString(),
+      locationId,
+      quantity: { $ne: 0 },
+    });
+    if (holdsStock) {
+      throw new HttpError(
+        409,
+        "Transfer the stock out of this location before removing it",
+      );
+    }
+
+    const hasHistory = await StockMovement.exists({
+      tenantId: tenantId.toString(),
+      locationId,
+    });
+    if (hasHistory) {
+      location.isActive = false;
+      await location.save();
+      return { deleted: false, deactivated: true };
+    }
+
+    await StockLevel.deleteMany({ tenantId: tenantId.toString(), locationId });
+    await StockLocation.deleteOne({ _id: location._id });
+    return { deleted: true, deactivated: false };
+  }
+
+  /**
+   * Materials held at a location
+   */
+  static async getLocationStock(tenantId: string, locationId: string) {
+    const location = await StockLocation.findOne({
+      _id: locationId,
+      tenantId: tenantId.toString(),
+    }).lean();
+    if (!location) {
+      throw new HttpError(404, "Stock location not found");
+    }
+
+    const levels = await StockLevel.find({
+      tenantId: tenantId.toString(),
+      locationId,
+      quantity: { $ne: 0 },
+    })
+      .populate("materialId", "name sku unit unitCost minimumStock")
+      .sort({ updatedAt: -1 })
+      .lean();
+
+    return { location, levels };
+  }
+
+  // ----------------------------------------------------------------------
+
+  /**
+   * The tenant's default warehouse, created on first use
+   */
+  static async getDefaultWarehouse(tenantId: string): Promise<IStockLocation> {
+    const existing = await StockLocation.findOne({
+      tenantId: tenantId.toString(),
+      isDefault: true,
+    });
+    if (existing) return existing;
+
+    const warehouse = await StockLocation.findOne({
+      tenantId: tenantId.toString(),
+      type: "warehouse",
+      isActive: true,
+    }).sort({ createdAt: 1 });
+    if (warehouse) {
+      warehouse.isDefault = true;
+      await warehouse.save();
+      return warehouse;
+    }
+
+    return StockLocation.create({
+      tenantId: tenantId.toString(),
+      name: "Main Warehouse",
+      type: "warehouse",
+      isDefault: true,
+    });
+  }
+
+  /**
+   * A technician's van, created on first use
+   */
+  static async getVehicleLocation(
+    tenantId: string,
+    personnelId: string,
+  ): Promise<IStockLocation> {
+    const existing = await StockLocation.findOne({
+      tenantId: tenantId.toString(),
+      type: "vehicle",
+      personnelId: personnelId.toString(),
+    });
+    if (existing) return existing;
+
+    const personnel = await this.assertPersonnel(tenantId, personnelId);
+
+    try {
+      return await StockLocation.create({
+        tenantId: tenantId.toString(),
+        name: `Van – ${personnelName(personnel)}`,
+        type: "vehicle",
+        personnelId: personnelId.toString(),
+      });
+    } catch (error: any) {
+      // Another request created the van first
+      if (error?.code === 11000) {
+        const created = await StockLocation.findOne({
+          tenantId: tenantId.toString(),
+          type: "vehicle",
+          personnelId: personnelId.toString(),
+        });
+        if (created) return created;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Make sure every active technician has a van
+   */
+  static async syncVehicleLocations(tenantId: string) {
+    const [personnel, vehicles] = await Promise.all([
+      Personnel.find({ tenantId, isActive: true }).select("_id").lean(),
+      StockLocation.find({ tenantId: tenantId.toString(), type: "vehicle" })
+        .select("personnelId")
+        .lean(),
+    ]);
+
+    const withVehicle = new Set(
+      (vehicles as any[]).map((vehicle) => vehicle.personnelId),
+    );
+
+    let created = 0;
+    for (const person of personnel as any[]) {
+      if (withVehicle.has(person._id.toString())) continue;
+      await this.getVehicleLocation(tenantId, person._id.toString());
+      created += 1;
+    }
+
+    return { created };
+  }
+
+  /**
+   * Where field usage is taken from: the van of the technician recording it
+   * when they are assigned, otherwise the first assignee's van, otherwise
+   * the default warehouse
+   */
+  static async resolveConsumptionLocation(
+    tenantId: string,
+    userId: string | undefined,
+    assigneeIds: string[] = [],
+  ): Promise<IStockLocation> {
+    const assignees = assigneeIds.map((id) => id.toString());
+
+    if (userId && assignees.length > 0) {
+      const own = await Personnel.findOne({ tenantId, userId })
+        .select("_id")
+        .lean<{ _id: any }>();
+      if (own && assignees.includes(own._id.toString())) {
+        return this.getVehicleLocation(tenantId, own._id.toString());
+      }
+    }
+
+    if (assignees.length > 0) {
+      const exists = await Personnel.exists({ _id: assignees[0], tenantId });
+      if (exists) {
+        return this.getVehicleLocation(tenantId, assignees[0]);
+      }
+    }
+
+    return this.getDefaultWarehouse(tenantId);
+  }
+
+  /**
+   * The van of the first of the given users who is a technician, otherwise
+   * the default warehouse
+   */
+  static async resolveUserLocation(
+    tenantId: string,
+    userIds: Array<string | undefined>,
+  ): Promise<IStockLocation> {
+    for (const userId of userIds) {
+      if (!userId) continue;
+      const personnel = await Personnel.findOne({ tenantId, userId })
+        .select("_id")
+        .lean<{ _id: any }>();
+      if (personnel) {
+        return this.getVehicleLocation(tenantId, personnel._id.toString());
+      }
+    }
+
+    return this.getDefaultWarehouse(tenantId);
+  }
+
+  /**
+   * Active location by id, for movements and transfers
+   */
+  static async getActiveLocation(
+    tenantId: string,
+    locationId: string,
+  ): Promise<IStockLocation> {
+    const location = await StockLocation.findOne({
+      _id: locationId,
+      tenantId: tenantId.toString(),
+      isActive: true,
+    });
+    if (!location) {
+      throw new HttpError(404, "Stock location not found");
+    }
+    return location;
+  }
+
+  // ----------------------------------------------------------------------
+
+  private static async setDefault(tenantId: string, location: any) {
+    if (location.type !== "warehouse") {
+      throw new HttpError(400, "Only a warehouse can be the default location");
+    }
+
+    await StockLocation.updateMany(
+      { tenantId: tenantId.toString(), _id: { $ne: location._id } },
+      { $set: { isDefault: false } },
+    );
+    await StockLocation.updateOne(
+      { _id: location._id },
+      { $set: { isDefault: true, isActive: true } },
+    );
+  }
+
+  private static async assertPersonnel(tenantId: string, personnelId: string) {
+    const personnel = await Personnel.findOne({ _id: personnelId, tenantId })
+      .populate("userId", "firstName lastName")
+      .lean();
+    if (!personnel) {
+      throw new HttpError(404, "Personnel not found");
+    }
+    return personnel;
+  }
+}
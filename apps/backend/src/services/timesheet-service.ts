@@ -0,0 +1,645 @@
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import ExcelJS from "exceljs";
+import {
+  Timesheet,
+  type ITimesheet,
+  type ITimesheetDay,
+  type TimesheetEventType,
+  type TimesheetStatus,
+} from "../models/Timesheet";
+import { TimeEntry } from "../models/TimeEntry";
+import { Task } from "../models/Task";
+import { WorkOrder } from "../models/WorkOrder";
+import { Personnel } from "../models/Personnel";
+import { Tenant } from "../models/Tenant";
+import { User } from "../models/User";
+import { HttpError } from "../middleware/http-error-middleware";
+import { roundCurrency } from "../utils/time";
+
+dayjs.extend(utc);
+
+// ----------------------------------------------------------------------
+
+export interface WorkingHoursSettings {
+  start: string;
+  end: string;
+  days: number[];
+}
+
+export interface TimesheetFilters {
+  status?: TimesheetStatus;
+  personnelId?: string;
+  from?: Date;
+  to?: Date;
+  limit: number;
+  offset: number;
+}
+
+export interface PayrollOptions {
+  from: Date;
+  to: Date;
+  overtimeMultiplier: number;
+  includeUnapproved: boolean;
+}
+
+export interface PayrollRow {
+  personnelId: string;
+  employeeId: string;
+  name: string;
+  timesheets: number;
+  regularHours: number;
+  overtimeHours: number;
+  totalHours: number;
+  hourlyRate: number;
+  regularPay: number;
+  overtimePay: number;
+  grossPay: number;
+  laborCost: number;
+}
+
+export const DEFAULT_WORKING_HOURS: WorkingHoursSettings = {
+  start: "09:00",
+  end: "17:00",
+  days: [1, 2, 3, 4, 5],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const personnelName = (person: any) =>
+  person?.userId?.firstName || person?.userId?.lastName
+    ? `${person.userId.firstName || ""} ${person.userId.lastName || ""}`.trim()
+    : person?.employeeId || "Unknown";
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+// ----------------------------------------------------------------------
+
+export class TimesheetService {
+  /**
+   * Monday (UTC midnight) of the week holding a work date. Time entries
+   * store their work date as UTC midnight, so weeks are plain calendar
+   * weeks with no timezone shift.
+   */
+  static weekStartOf(date: Date | string): Date {
+    const day = dayjs.utc(date).startOf("day");
+    return day.subtract((day.day() + 6) % 7, "day").toDate();
+  }
+
+  static async getWorkingHours(
+    tenantId: string,
+  ): Promise<WorkingHoursSettings> {
+    const tenant = await Tenant.findById(tenantId)
+      .select("settings.workingHours")
+      .lean<any>();
+    return {
+      ...DEFAULT_WORKING_HOURS,
+      ...(tenant?.settings?.workingHours || {}),
+    };
+  }
+
+  /**
+   * Split a day's hours into regular and overtime. Anything beyond the
+   * tenant's working day is overtime, as is all work on a non-working day.
+   */
+  static splitHours(
+    date: string,
+    hours: number,
+    workingHours: WorkingHoursSettings,
+  ): ITimesheetDay {
+    const regularLimit = Math.max(
+      0,
+      (toMinutes(workingHours.end) - toMinutes(workingHours.start)) / 60,
+    );
+    const isWorkingDay = workingHours.days.includes(dayjs.utc(date).day());
+    const regularHours = isWorkingDay ? Math.min(hours, regularLimit) : 0;
+
+    return {
+      date,
+      hours: round(hours),
+      regularHours: round(regularHours),
+      overtimeHours: round(hours - regularHours),
+    };
+  }
+
+  /**
+   * Time entries in a technician's week
+   */
+  static async getEntries(
+    tenantId: string,
+    personnelId: string,
+    weekStart: Date,
+  ) {
+    return TimeEntry.find({
+      tenantId,
+      personnelId,
+      date: {
+        $gte: weekStart,
+        $lt: new Date(weekStart.getTime() + 7 * DAY_MS),
+      },
+    })
+      .populate("taskId", "title")
+      .populate("workOrderId", "workOrderNumber title")
+      .sort({ date: 1, createdAt: 1 })
+      .lean<any[]>();
+  }
+
+  /**
+   * Rebuild the day breakdown and totals from the week's time entries.
+   * Approved timesheets keep the figures they were signed off with.
+   */
+  static async recompute(timesheet: ITimesheet): Promise<ITimesheet> {
+    if (timesheet.status === "approved") return timesheet;
+
+    const [entries, workingHours] = await Promise.all([
+      this.getEntries(
+        timesheet.tenantId,
+        timesheet.personnelId,
+        timesheet.weekStart,
+      ),
+      this.getWorkingHours(timesheet.tenantId),
+    ]);
+
+    const hoursByDate = new Map<string, number>();
+    for (let i = 0; i < 7; i += 1) {
+      hoursByDate.set(
+        dayjs.utc(timesheet.weekStart).add(i, "day").format("YYYY-MM-DD"),
+        0,
+      );
+    }
+    let cost = 0;
+    for (const entry of entries) {
+      const date = dayjs.utc(entry.date).format("YYYY-MM-DD");
+      hoursByDate.set(date, (hoursByDate.get(date) || 0) + (entry.hours || 0));
+      cost += entry.cost || 0;
+    }
+
+    timesheet.days = [...hoursByDate].map(([date, hours]) =>
+      this.splitHours(date, hours, workingHours),
+    );
+    timesheet.totals = {
+      hours: round(timesheet.days.reduce((sum, day) => sum + day.hours, 0)),
+      regularHours: round(
+        timesheet.days.reduce((sum, day) => sum + day.regularHours, 0),
+      ),
+      overtimeHours: round(
+        timesheet.days.reduce((sum, day) => sum + day.overtimeHours, 0),
+      ),
+      cost: roundCurrency(cost),
+      entries: entries.length,
+    };
+
+    if (timesheet.isModified()) await timesheet.save();
+    return timesheet;
+  }
+
+  /**
+   * The technician's timesheet for the week holding `date`, opened as a
+   * draft on first access
+   */
+  static async getOrCreate(
+    tenantId: string,
+    personnelId: string,
+    date: Date | string,
+  ): Promise<ITimesheet> {
+    const personnel = await Personnel.exists({ _id: personnelId, tenantId });
+    if (!personnel) {
+      throw new HttpError(404, "Personnel not found");
+    }
+
+    const weekStart = this.weekStartOf(date);
+    const timesheet = await Timesheet.findOneAndUpdate(
+      { tenantId, personnelId, weekStart },
+      {
+        $setOnInsert: {
+          weekEnd: new Date(weekStart.getTime() + 6 * DAY_MS),
+          status: "draft",
+        },
+      },
+      { upsert: true, new: true },
+    );
+    return this.recompute(timesheet);
+  }
+
+  static async list(tenantId: string, filters: TimesheetFilters) {
+    const query: Record<string, any> = { tenantId };
+    if (filters.status) query.status = filters.status;
+    if (filters.personnelId) query.personnelId = filters.personnelId;
+    if (filters.from || filters.to) {
+      query.weekStart = {
+        ...(filters.from ? { $gte: this.weekStartOf(filters.from) } : {}),
+        ...(filters.to ? { $lte: filters.to } : {}),
+      };
+    }
+
+    const [timesheets, total] = await Promise.all([
+      Timesheet.find(query)
+        .populate({
+          path: "personnelId",
+          select: "employeeId userId",
+          populate: { path: "userId", select: "firstName lastName email" },
+        })
+        .sort({ weekStart: -1, createdAt: -1 })
+        .skip(filters.offset)
+        .limit(filters.limit)
+        .lean<any[]>(),
+      Timesheet.countDocuments(query),
+    ]);
+
+    return { timesheets, total };
+  }
+
+  static async findById(tenantId: string, id: string): Promise<ITimesheet> {
+    const timesheet = await Timesheet.findOne({ _id: id, tenantId });
+    if (!timesheet) {
+      throw new HttpError(404, "Timesheet not found");
+    }
+    return timesheet;
+  }
+
+  /**
+   * Timesheet with its time entries and technician details
+   */
+  static async getDetails(tenantId: string, id: string) {
+    const timesheet = await this.recompute(await this.findById(tenantId, id));
+    const [entries, personnel] = await Promise.all([
+      this.getEntries(tenantId, timesheet.personnelId, timesheet.weekStart),
+      Personnel.findById(timesheet.personnelId)
+        .select("employeeId userId hourlyRate")
+        .populate("userId", "firstName lastName email")
+        .lean<any>(),
+    ]);
+
+    return {
+      ...timesheet.toObject(),
+      personnel: personnel
+        ? {
+            _id: personnel._id,
+            employeeId: personnel.employeeId,
+            name: personnelName(personnel),
+            hourlyRate: personnel.hourlyRate,
+          }
+        : undefined,
+      entries,
+    };
+  }
+
+  static async submit(
+    tenantId: string,
+    id: string,
+    userId: string,
+    comment?: string,
+  ): Promise<ITimesheet> {
+    const timesheet = await this.recompute(await this.findById(tenantId, id));
+    if (timesheet.status !== "draft" && timesheet.status !== "rejected") {
+      throw new HttpError(409, `Timesheet is already ${timesheet.status}`);
+    }
+    if (timesheet.totals.entries === 0) {
+      throw new HttpError(400, "Timesheet has no time entries to submit");
+    }
+
+    timesheet.status = "submitted";
+    timesheet.submittedAt = new Date();
+    timesheet.submittedBy = userId;
+    await this.addEvent(timesheet, "submitted", userId, comment);
+    await timesheet.save();
+    return timesheet;
+  }
+
+  /**
+   * Sign off a submitted week. Totals are frozen and the week's time
+   * entries can no longer be changed until the timesheet is reopened.
+   */
+  static async approve(
+    tenantId: string,
+    id: string,
+    userId: string,
+    comment?: string,
+  ): Promise<ITimesheet> {
+    const timesheet = await this.recompute(await this.findById(tenantId, id));
+    if (timesheet.status !== "submitted") {
+      throw new HttpError(409, "Only submitted timesheets can be approved");
+    }
+
+    timesheet.status = "approved";
+    timesheet.approvedAt = new Date();
+    timesheet.approvedBy = userId;
+    await this.addEvent(timesheet, "approved", userId, comment);
+    await timesheet.save();
+    return timesheet;
+  }
+
+  static async reject(
+    tenantId: string,
+    id: string,
+    userId: string,
+    comment: string,
+  ): Promise<ITimesheet> {
+    const timesheet = await this.findById(tenantId, id);
+    if (timesheet.status !== "submitted") {
+      throw new HttpError(409, "Only submitted timesheets can be rejected");
+    }
+
+    timesheet.status = "rejected";
+    await this.addEvent(timesheet, "rejected", userId, comment);
+    await timesheet.save();
+    return timesheet;
+  }
+
+  /**
+   * Send an approved timesheet back to draft so its entries can be
+   * corrected
+   */
+  static async reopen(
+    tenantId: string,
+    id: string,
+    userId: string,
+    comment?: string,
+  ): Promise<ITimesheet> {
+    const timesheet = await this.findById(tenantId, id);
+    if (timesheet.status !== "approved") {
+      throw new HttpError(409, "Only approved timesheets can be reopened");
+    }
+
+    timesheet.status = "draft";
+    timesheet.approvedAt = undefined;
+    timesheet.approvedBy = undefined;
+    await this.addEvent(timesheet, "reopened", userId, comment);
+    await timesheet.save();
+    return this.recompute(timesheet);
+  }
+
+  static async addComment(
+    tenantId: string,
+    id: string,
+    userId: string,
+    comment: string,
+  ): Promise<ITimesheet> {
+    const timesheet = await this.findById(tenantId, id);
+    await this.addEvent(timesheet, "comment", userId, comment);
+    await timesheet.save();
+    return timesheet;
+  }
+
+  /**
+   * Reject changes to time entries dated inside an approved week
+   */
+  static async assertEditable(
+    tenantId: string,
+    personnelId: string,
+    date: Date | string,
+  ): Promise<void> {
+    const locked = await Timesheet.exists({
+      tenantId,
+      personnelId,
+      weekStart: this.weekStartOf(date),
+      status: "approved",
+    });
+    if (locked) {
+      throw new HttpError(
+        409,
+        "This time entry belongs to an approved timesheet and can no longer be changed",
+      );
+    }
+  }
+
+  /**
+   * Roll the logged time up into the task's actual hours and the work
+   * order's actual duration and labor cost
+   */
+  static async recalcAggregates(
+    tenantId: string,
+    taskId: string,
+    workOrderId?: string | null,
+  ): Promise<void> {
+    // Task.actualHours = sum(hours) for task
+    const [{ totalHours = 0 } = {} as any] = await TimeEntry.aggregate([
+      { $match: { tenantId, taskId } },
+      { $group: { _id: null, totalHours: { $sum: "$hours" } } },
+    ]);
+
+    await Task.updateOne(
+      { _id: taskId, tenantId },
+      { $set: { actualHours: totalHours } },
+    );
+
+    if (workOrderId) {
+      // WorkOrder.actualDuration in minutes, and cost.labor from sum(cost)
+      const result = await TimeEntry.aggregate([
+        { $match: { tenantId, workOrderId } },
+        {
+          $group: {
+            _id: null,
+            totalHours: { $sum: "$hours" },
+            laborCost: { $sum: { $ifNull: ["$cost", 0] } },
+          },
+        },
+      ]);
+      const totalHoursWO = result[0]?.totalHours ?? 0;
+      const laborCost = result[0]?.laborCost ?? 0;
+      const actualDuration = Math.round(totalHoursWO * 60);
+
+      await WorkOrder.updateOne(
+        { _id: workOrderId, tenantId },
+        {
+          $set: {
+            actualDuration,
+            "cost.labor": laborCost,
+          },
+        },
+      );
+    }
+  }
+
+  /**
+   * Per-technician payroll totals for the timesheets whose week starts in
+   * the range. Overtime is paid at the hourly rate times the multiplier.
+   */
+  static async buildPayroll(
+    tenantId: string,
+    options: PayrollOptions,
+  ): Promise<PayrollRow[]> {
+    const query: Record<string, any> = {
+      tenantId,
+      weekStart: {
+        $gte: this.weekStartOf(options.from),
+        $lte: options.to,
+      },
+    };
+    query.status = options.includeUnapproved
+      ? { $in: ["submitted", "approved"] }
+      : "approved";
+
+    const timesheets = await Timesheet.find(query).lean<any[]>();
+    if (timesheets.length === 0) return [];
+
+    const personnelIds = [...new Set(timesheets.map((t) => t.personnelId))];
+    const personnel = await Personnel.find({
+      _id: { $in: personnelIds },
+      tenantId,
+    })
+      .select("employeeId userId hourlyRate")
+      .populate("userId", "firstName lastName")
+      .lean<any[]>();
+    const personnelById = new Map(
+      personnel.map((person) => [person._id.toString(), person]),
+    );
+
+    const rows = new Map<string, PayrollRow>();
+    for (const timesheet of timesheets) {
+      const person = personnelById.get(timesheet.personnelId);
+      const row = rows.get(timesheet.personnelId) || {
+        personnelId: timesheet.personnelId,
+        employeeId: person?.employeeId || "",
+        name: personnelName(person),
+        timesheets: 0,
+        regularHours: 0,
+        overtimeHours: 0,
+        totalHours: 0,
+        hourlyRate: person?.hourlyRate || 0,
+        regularPay: 0,
+        overtimePay: 0,
+        grossPay: 0,
+        laborCost: 0,
+      };
+      row.timesheets += 1;
+      row.regularHours += timesheet.totals?.regularHours || 0;
+      row.overtimeHours += timesheet.totals?.overtimeHours || 0;
+      row.laborCost += timesheet.totals?.cost || 0;
+      rows.set(timesheet.personnelId, row);
+    }
+
+    return [...rows.values()]
+      .map((row) => {
+        const regularPay = roundCurrency(row.regularHours * row.hourlyRate);
+        const overtimePay = roundCurrency(
+          row.overtimeHours * row.hourlyRate * options.overtimeMultiplier,
+        );
+        return {
+          ...row,
+          regularHours: round(row.regularHours),
+          overtimeHours: round(row.overtimeHours),
+          totalHours: round(row.regularHours + row.overtimeHours),
+          regularPay,
+          overtimePay,
+          grossPay: roundCurrency(regularPay + overtimePay),
+          laborCost: roundCurrency(row.laborCost),
+        };
+      })
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  static generatePayrollCSV(rows: PayrollRow[]): string {
+    const escape = (value: unknown) => {
+      const text = value === undefined || value === null ? "" : String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const lines = [
+      [
+        "Employee ID",
+        "Name",
+        "Timesheets",
+        "Regular Hours",
+        "Overtime Hours",
+        "Total Hours",
+        "Hourly Rate",
+        "Regular Pay",
+        "Overtime Pay",
+        "Gross Pay",
+        "Labor Cost",
+      ],
+      ...rows.map((row) => [
+        row.employeeId,
+        row.name,
+        row.timesheets,
+        row.regularHours.toFixed(2),
+        row.overtimeHours.toFixed(2),
+        row.totalHours.toFixed(2),
+        row.hourlyRate.toFixed(2),
+        row.regularPay.toFixed(2),
+        row.overtimePay.toFixed(2),
+        row.grossPay.toFixed(2),
+        row.laborCost.toFixed(2),
+      ]),
+    ];
+
+    return (
+      "\uFEFF" + lines.map((line) => line.map(escape).join(",")).join("\r\n")
+    );
+  }
+
+  static async generatePayrollXLSX(
+    rows: PayrollRow[],
+    options: PayrollOptions,
+  ): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = "ErgoFlow";
+    workbook.created = new Date();
+
+    const sheet = workbook.addWorksheet("Payroll");
+    const hours = { numFmt: "0.00" };
+    const money = { numFmt: "#,##0.00" };
+    sheet.columns = [
+      { header: "Employee ID", key: "employeeId", width: 14 },
+      { header: "Name", key: "name", width: 28 },
+      { header: "Timesheets", key: "timesheets", width: 12 },
+      { header: "Regular Hours", key: "regularHours", width: 14, style: hours },
+      {
+        header: "Overtime Hours",
+        key: "overtimeHours",
+        width: 15,
+        style: hours,
+      },
+      { header: "Total Hours", key: "totalHours", width: 12, style: hours },
+      { header: "Hourly Rate", key: "hourlyRate", width: 12, style: money },
+      { header: "Regular Pay", key: "regularPay", width: 14, style: money },
+      { header: "Overtime Pay", key: "overtimePay", width: 14, style: money },
+      { header: "Gross Pay", key: "grossPay", width: 14, style: money },
+      { header: "Labor Cost", key: "laborCost", width: 14, style: money },
+    ];
+    sheet.getRow(1).font = { bold: true };
+    sheet.views = [{ state: "frozen", ySplit: 1 }];
+    rows.forEach((row) => sheet.addRow(row));
+
+    const summary = workbook.addWorksheet("Summary");
+    summary.columns = [
+      { key: "key", width: 24 },
+      { key: "value", width: 30 },
+    ];
+    summary.addRow(["From", dayjs.utc(options.from).format("YYYY-MM-DD")]);
+    summary.addRow(["To", dayjs.utc(options.to).format("YYYY-MM-DD")]);
+    summary.addRow(["Overtime multiplier", options.overtimeMultiplier]);
+    summary.addRow([
+      "Timesheets",
+      options.includeUnapproved ? "Submitted and approved" : "Approved only",
+    ]);
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+
+  private static async addEvent(
+    timesheet: ITimesheet,
+    type: TimesheetEventType,
+    userId: string,
+    comment?: string,
+  ) {
+    const user = await User.findById(userId)
+      .select("firstName lastName")
+      .lean<any>();
+    timesheet.history.push({
+      type,
+      userId,
+      userName: user
+        ? `${user.firstName || ""} ${user.lastName || ""}`.trim()
+        : undefined,
+      comment: comment?.trim() || undefined,
+      createdAt: new Date(),
+    });
+  }
+}
@@ -0,0 +1,245 @@
+import type { IWebhook, IWebhookFilter } from "../models/Webhook";
+import { Client, Task, WorkOrder } from "../models";
+
+// ----------------------------------------------------------------------
+
+// Related records a webhook can ask to have embedded under `data.expanded`
+export const WEBHOOK_EXPANSIONS = ["workOrder", "client", "tasks"] as const;
+
+export type WebhookExpansion = (typeof WEBHOOK_EXPANSIONS)[number];
+
+// Fields offered by the filter builder for each topic. Any dot path into the
+// event data can be used; these are the ones worth filtering on.
+const WORK_ORDER_FIELDS = [
+  "workOrder.status",
+  "workOrder.priority",
+  "workOrder.clientId",
+  "workOrder.personnelIds",
+];
+const TIME_ENTRY_FIELDS = [
+  "timeEntry.personnelId",
+  "timeEntry.workOrderId",
+  "timeEntry.taskId",
+  "source",
+];
+const SESSION_FIELDS = [
+  "session.personnelId",
+  "session.workOrderId",
+  "session.outsideGeofence",
+];
+const REPORT_FIELDS = [
+  "report.type",
+  "report.priority",
+  "report.clientId",
+  "report.workOrderId",
+];
+const ASSIGNMENT_FIELDS = ["assignment.personnelId", "workOrder._id"];
+
+export const WEBHOOK_FILTER_FIELDS: Record<string, string[]> = {
+  "work_order.created": WORK_ORDER_FIELDS,
+  "work_order.updated": [
+    ...WORK_ORDER_FIELDS,
+    "workOrder.contractId",
+    "updatedFields",
+  ],
+  "work_order.status_changed": WORK_ORDER_FIELDS,
+  "work_order.sla_warning": ["workOrder.priority", "workOrder.clientId"],
+  "work_order.sla_breached": ["workOrder.priority", "workOrder.clientId"],
+  "report.submitted": REPORT_FIELDS,
+  "report.approved": REPORT_FIELDS,
+  "report.rejected": REPORT_FIELDS,
+  "time_entry.created": TIME_ENTRY_FIELDS,
+  "time_entry.updated": TIME_ENTRY_FIELDS,
+  "time_entry.deleted": TIME_ENTRY_FIELDS,
+  "time_entry.checked_in": SESSION_FIELDS,
+  "time_entry.checked_out": SESSION_FIELDS,
+  "material.low_stock": ["material._id", "material.sku"],
+  "material.stock_changed": [
+    "material._id",
+    "material.sku",
+    "movements.type",
+    "movements.locationId",
+  ],
+  "assignment.accepted": ASSIGNMENT_FIELDS,
+  "assignment.rejected": ASSIGNMENT_FIELDS,
+  "comment.created": ["comment.workOrderId", "comment.messageType"],
+};
+
+// ----------------------------------------------------------------------
+
+// Walks a dot path; through an array it collects the field of every item, so
+// "movements.type" gives the type of each movement
+const getPath = (data: any, path: string): any =>
+  path.split(".").reduce((value, key) => {
+    if (value == null) return undefined;
+    if (Array.isArray(value)) return value.flatMap((item) => item?.[key] ?? []);
+    return value[key];
+  }, data);
+
+const setPath = (target: any, path: string, value: any) => {
+  const keys = path.split(".");
+  const last = keys.pop()!;
+  const parent = keys.reduce((node, key) => (node[key] ??= {}), target);
+  parent[last] = value;
+};
+
+// Ids arrive as ObjectIds or strings and numbers as numbers or strings, so
+// values are compared in their string form
+const same = (a: any, b: any) =>
+  a != null && b != null && String(a) === String(b);
+
+// An array field matches when any of its items does
+const anyOf = (value: any, predicate: (item: any) => boolean) =>
+  Array.isArray(value) ? value.some(predicate) : predicate(value);
+
+const matchesFilter = (data: any, filter: IWebhookFilter): boolean => {
+  const value = getPath(data, filter.field);
+  const list: any[] = Array.isArray(filter.value)
+    ? filter.value
+    : [filter.value];
+
+  switch (filter.operator) {
+    case "eq":
+      return anyOf(value, (item) => same(item, filter.value));
+    case "ne":
+      return !anyOf(value, (item) => same(item, filter.value));
+    case "in":
+      return anyOf(value, (item) => list.some((entry) => same(item, entry)));
+    case "nin":
+      return !anyOf(value, (item) => list.some((entry) => same(item, entry)));
+    case "exists": {
+      const present =
+        value != null && !(Array.isArray(value) && value.length === 0);
+      return filter.value === false ? !present : present;
+    }
+    default:
+      return false;
+  }
+};
+
+/**
+ * Whether an event's data passes every filter of a webhook
+ */
+export const matchesWebhookFilters = (
+  webhook: Pick<IWebhook, "filters">,
+  data: any,
+): boolean =>
+  (webhook.filters || []).every((filter) => matchesFilter(data, filter));
+
+/**
+ * Keep only the requested dot paths of the event data
+ */
+const pickFields = (data: any, fields: string[]) => {
+  const picked: any = {};
+
+  fields.forEach((field) => {
+    const value = getPath(data, field);
+    if (value !== undefined) setPath(picked, field, value);
+  });
+
+  return picked;
+};
+
+// ----------------------------------------------------------------------
+
+// An id at the top of the event data or one level down, e.g.
+// `data.timeEntry.workOrderId`
+const findRef = (data: any, key: string): string | null => {
+  if (data?.[key]) return String(data[key]);
+
+  const holder = Object.values(data || {}).find(
+    (value: any) =>
+      value && typeof value === "object" && !Array.isArray(value) && value[key],
+  ) as any;
+
+  return holder ? String(holder[key]) : null;
+};
+
+/**
+ * Loads related records once per event, however many webhooks ask for them
+ */
+export class WebhookExpansionLoader {
+  private cache = new Map<WebhookExpansion, Promise<any>>();
+
+  constructor(
+    private tenantId: string,
+    private data: any,
+  ) {}
+
+  private workOrderId(): string | null {
+    return this.data?.workOrder?._id
+      ? String(this.data.workOrder._id)
+      : findRef(this.data, "workOrderId");
+  }
+
+  private load(expansion: WebhookExpansion): Promise<any> {
+    if (!this.cache.has(expansion)) {
+      this.cache.set(expansion, this.fetch(expansion));
+    }
+    return this.cache.get(expansion)!;
+  }
+
+  private async fetch(expansion: WebhookExpansion): Promise<any> {
+    const workOrderId = this.workOrderId();
+
+    switch (expansion) {
+      case "workOrder": {
+        if (!workOrderId) return null;
+
+        return WorkOrder.findOne({
+          _id: workOrderId,
+          tenantId: this.tenantId,
+        })
+          .select(
+            "workOrderNumber title status priority clientId personnelIds scheduledDate startedAt completedAt contractId",
+          )
+          .lean();
+      }
+      case "client": {
+        let clientId = findRef(this.data, "clientId");
+        if (!clientId && workOrderId) {
+          clientId = (await this.load("workOrder"))?.clientId ?? null;
+        }
+        if (!clientId) return null;
+
+        return Client.findOne({ _id: clientId, tenantId: this.tenantId })
+          .select("name company email phone vatNumber address")
+          .lean();
+      }
+      case "tasks": {
+        if (!workOrderId) return [];
+
+        return Task.find({ workOrderId, tenantId: this.tenantId })
+          .select(
+            "title status priority assignees dueDate startDate completeStatus",
+          )
+          .sort({ createdAt: 1 })
+          .lean();
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * The event data as a webhook asked for it: trimmed to its fields, then
+   * with the requested related records under `expanded`
+   */
+  async shape(webhook: Pick<IWebhook, "payloadOptions">): Promise<any> {
+    const { fields = [], expand = [] } = webhook.payloadOptions || {};
+
+    const data = fields.length > 0 ? pickFields(this.data, fields) : this.data;
+
+    const expansions = expand.filter((item): item is WebhookExpansion =>
+      WEBHOOK_EXPANSIONS.includes(item as WebhookExpansion),
+    );
+    if (expansions.length === 0) return data;
+
+    const expanded: Record<string, any> = {};
+    for (const expansion of expansions) {
+      expanded[expansion] = await this.load(expansion);
+    }
+
+    return { ...data, expanded };
+  }
+}
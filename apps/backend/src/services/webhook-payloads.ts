@@ -0,0 +1,356 @@
+import type { IReport } from "../models/Report";
+import type { ITimeEntry } from "../models/TimeEntry";
+import type { ICheckInSession } from "../models/CheckInSession";
+import type { IStockMovement } from "../models/StockMovement";
+import type { IAssignment } from "../models/Assignment";
+import type { IComment } from "../models/Comment";
+import type { IWorkOrder } from "../models/WorkOrder";
+
+// ----------------------------------------------------------------------
+
+// The `data` object of each topic below is part of the public webhook
+// contract (see docs/WEBHOOKS.md). Fields may be added; existing fields are
+// never renamed or removed.
+
+const idOf = (value: any): string | null =>
+  value ? (value._id ?? value).toString() : null;
+
+// ----------------------------------------------------------------------
+
+/**
+ * work_order.updated
+ */
+export interface WorkOrderUpdatedWebhookData {
+  workOrder: {
+    _id: string;
+    workOrderNumber: string;
+    title: string;
+    status: string;
+    workflowStatus: string | null;
+    priority: string;
+    clientId: string | null;
+    personnelIds: string[];
+    contractId: string | null;
+    scheduledDate: Date | null;
+    progress: number | null;
+    updatedAt: Date;
+  };
+  updatedFields: string[]; // Top-level fields sent in the update
+  actorId: string;
+}
+
+export const workOrderUpdatedWebhookData = (
+  workOrder: IWorkOrder,
+  updatedFields: string[],
+  actorId: string,
+): WorkOrderUpdatedWebhookData => ({
+  workOrder: {
+    _id: workOrder._id.toString(),
+    workOrderNumber: workOrder.workOrderNumber,
+    title: workOrder.title,
+    status: workOrder.status,
+    workflowStatus: workOrder.workflowStatus ?? null,
+    priority: workOrder.priority,
+    clientId: idOf(workOrder.clientId),
+    personnelIds: (workOrder.personnelIds || []).map((id) => idOf(id)!),
+    contractId: idOf(workOrder.contractId),
+    scheduledDate: workOrder.scheduledDate ?? null,
+    progress: workOrder.progress ?? null,
+    updatedAt: workOrder.updatedAt,
+  },
+  updatedFields,
+  actorId,
+});
+
+// ----------------------------------------------------------------------
+
+/**
+ * report.submitted, report.approved, report.rejected
+ */
+export interface ReportWebhookData {
+  report: {
+    _id: string;
+    type: string;
+    status: string;
+    priority: string;
+    reportDate: Date;
+    workOrderId: string | null;
+    clientId: string | null;
+    taskIds: string[];
+    assetIds: string[];
+    totalHours: number | null;
+    totalMaterialCost: number;
+    totalLaborCost: number;
+    totalCost: number;
+    createdBy: string | null;
+    assignedTo: string | null;
+    submittedAt: Date | null;
+    approvedAt: Date | null;
+    approvedBy: string | null;
+    rejectedAt: Date | null;
+    rejectedBy: string | null;
+    rejectionReason: string | null;
+  };
+  actorId: string; // User who submitted, approved or rejected the report
+}
+
+export const reportWebhookData = (
+  report: IReport,
+  actorId: string,
+): ReportWebhookData => ({
+  report: {
+    _id: report._id.toString(),
+    type: report.type,
+    status: report.status,
+    priority: report.priority,
+    reportDate: report.reportDate,
+    workOrderId: idOf(report.workOrderId),
+    clientId: idOf(report.clientId),
+    taskIds: (report.taskIds || []).map((id) => idOf(id)!),
+    assetIds: (report.assetIds || []).map((id) => idOf(id)!),
+    totalHours: report.totalHours ?? null,
+    totalMaterialCost: report.totalMaterialCost || 0,
+    totalLaborCost: report.totalLaborCost || 0,
+    totalCost: report.totalCost || 0,
+    createdBy: idOf(report.createdBy),
+    assignedTo: idOf(report.assignedTo),
+    submittedAt: report.submittedAt ?? null,
+    approvedAt: report.approvedAt ?? null,
+    approvedBy: idOf(report.approvedBy),
+    rejectedAt: report.rejectedAt ?? null,
+    rejectedBy: idOf(report.rejectedBy),
+    rejectionReason: report.rejectionReason ?? null,
+  },
+  actorId,
+});
+
+// ----------------------------------------------------------------------
+
+/**
+ * time_entry.created, time_entry.updated, time_entry.deleted
+ */
+export interface TimeEntryWebhookData {
+  timeEntry: {
+    _id: string;
+    taskId: string;
+    workOrderId: string | null;
+    personnelId: string;
+    date: Date;
+    hours: number;
+    days: number | null;
+    cost: number | null;
+    notes: string | null;
+    createdBy: string;
+    createdAt: Date;
+    updatedAt: Date;
+  };
+  // How the entry was logged: by hand, or by checking out of a session
+  source: "manual" | "checkout" | "emergency_checkout";
+  actorId: string;
+}
+
+export const timeEntryWebhookData = (
+  entry: ITimeEntry,
+  actorId: string,
+  source: TimeEntryWebhookData["source"] = "manual",
+): TimeEntryWebhookData => ({
+  timeEntry: {
+    _id: entry._id.toString(),
+    taskId: entry.taskId,
+    workOrderId: entry.workOrderId ?? null,
+    personnelId: entry.personnelId,
+    date: entry.date,
+    hours: entry.hours,
+    days: entry.days ?? null,
+    cost: entry.cost ?? null,
+    notes: entry.notes ?? null,
+    createdBy: entry.createdBy,
+    createdAt: entry.createdAt,
+    updatedAt: entry.updatedAt,
+  },
+  source,
+  actorId,
+});
+
+/**
+ * time_entry.checked_in, time_entry.checked_out
+ */
+export interface CheckInWebhookData {
+  session: {
+    _id: string;
+    taskId: string;
+    workOrderId: string | null;
+    personnelId: string;
+    userId: string;
+    checkInTime: Date;
+    checkOutTime: Date | null;
+    isActive: boolean;
+    outsideGeofence: boolean;
+    checkInLocation: ICheckInSession["checkInLocation"] | null;
+    checkOutLocation: ICheckInSession["checkOutLocation"] | null;
+  };
+  // The entry logged by the check-out; null on check-in
+  timeEntryId: string | null;
+}
+
+export const checkInWebhookData = (
+  session: ICheckInSession,
+  checkOut?: { time: Date; timeEntry: ITimeEntry },
+): CheckInWebhookData => ({
+  session: {
+    _id: session._id.toString(),
+    taskId: session.taskId,
+    workOrderId: session.workOrderId ?? null,
+    personnelId: session.personnelId,
+    userId: session.userId,
+    checkInTime: session.checkInTime,
+    checkOutTime: checkOut?.time ?? null,
+    isActive: session.isActive,
+    outsideGeofence: !!session.outsideGeofence,
+    checkInLocation: session.checkInLocation ?? null,
+    checkOutLocation: session.checkOutLocation ?? null,
+  },
+  timeEntryId: checkOut ? checkOut.timeEntry._id.toString() : null,
+});
+
+// ----------------------------------------------------------------------
+
+/**
+ * material.stock_changed
+ */
+export interface StockChangedWebhookData {
+  material: {
+    _id: string;
+    name: string;
+    sku: string | null;
+    unit: string;
+    quantity: number; // On hand across all locations after the change
+    reservedQuantity: number;
+  };
+  // One entry per ledger line; a transfer has two legs and no net change
+  movements: Array<{
+    _id: string;
+    type: IStockMovement["type"];
+    quantity: number; // Signed
+    balanceAfter: number;
+    unitCost: number;
+    locationId: string | null;
+    location: string | null;
+    transferId: string | null;
+    source: IStockMovement["source"];
+    workOrderId: string | null;
+    createdBy: string;
+    createdAt: Date;
+  }>;
+}
+
+export const stockChangedWebhookData = (
+  material: any,
+  movements: IStockMovement[],
+): StockChangedWebhookData => ({
+  material: {
+    _id: material._id.toString(),
+    name: material.name,
+    sku: material.sku ?? null,
+    unit: material.unit,
+    quantity: material.quantity,
+    reservedQuantity: material.reservedQuantity || 0,
+  },
+  movements: movements.map((movement) => ({
+    _id: movement._id.toString(),
+    type: movement.type,
+    quantity: movement.quantity,
+    balanceAfter: movement.balanceAfter,
+    unitCost: movement.unitCost,
+    locationId: movement.locationId ?? null,
+    location: movement.location ?? null,
+    transferId: movement.transferId ?? null,
+    source: { type: movement.source?.type, id: movement.source?.id },
+    workOrderId: movement.workOrderId ?? null,
+    createdBy: movement.createdBy,
+    createdAt: movement.createdAt,
+  })),
+});
+
+// ----------------------------------------------------------------------
+
+/**
+ * assignment.accepted, assignment.rejected
+ */
+export interface AssignmentWebhookData {
+  assignment: {
+    _id: string;
+    workOrderId: string;
+    personnelId: string;
+    status: IAssignment["status"];
+    assignedBy: string;
+    assignedAt: Date;
+    scheduledStartDate: Date | null;
+    scheduledEndDate: Date | null;
+    notes: string | null;
+  };
+  workOrder: {
+    _id: string;
+    workOrderNumber: string;
+    title: string;
+  };
+  actorId: string; // User who responded
+}
+
+export const assignmentWebhookData = (
+  assignment: IAssignment,
+  workOrder: any,
+  actorId: string,
+): AssignmentWebhookData => ({
+  assignment: {
+    _id: assignment._id.toString(),
+    workOrderId: assignment.workOrderId,
+    personnelId: assignment.technicianId,
+    status: assignment.status,
+    assignedBy: assignment.assignedBy,
+    assignedAt: assignment.assignedAt,
+    scheduledStartDate: assignment.scheduledStartDate ?? null,
+    scheduledEndDate: assignment.scheduledEndDate ?? null,
+    notes: assignment.notes ?? null,
+  },
+  workOrder: {
+    _id: workOrder._id.toString(),
+    workOrderNumber: workOrder.workOrderNumber,
+    title: workOrder.title,
+  },
+  actorId,
+});
+
+// ----------------------------------------------------------------------
+
+/**
+ * comment.created
+ */
+export interface CommentWebhookData {
+  comment: {
+    _id: string;
+    taskId: string;
+    workOrderId: string | null;
+    message: string;
+    messageType: IComment["messageType"];
+    attachments: string[];
+    createdBy: string;
+    createdAt: Date;
+  };
+}
+
+export const commentWebhookData = (
+  comment: IComment,
+  workOrderId?: string | null,
+): CommentWebhookData => ({
+  comment: {
+    _id: comment._id.toString(),
+    taskId: comment.taskId.toString(),
+    workOrderId: workOrderId ?? null,
+    message: comment.message,
+    messageType: comment.messageType,
+    attachments: comment.attachments || [],
+    createdBy: idOf(comment.createdBy)!,
+    createdAt: comment.createdAt,
+  },
+});
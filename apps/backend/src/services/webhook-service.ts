@@ -1,6 +1,11 @@
 import crypto from "crypto";
 import { Webhook, IWebhook } from "../models/Webhook";
-import { WebhookLog } from "../models/WebhookLog";
+import { WebhookLog, IWebhookLog } from "../models/WebhookLog";
+import { WebhookDelivery, IWebhookDelivery } from "../models/WebhookDelivery";
+import {
+  matchesWebhookFilters,
+  WebhookExpansionLoader,
+} from "./webhook-filters";
 
 // ----------------------------------------------------------------------
 
@@ -12,11 +17,34 @@ export interface WebhookPayload {
   tenantId: string;
 }
 
+// Retries back off from 30 seconds, doubling up to 6 hours between attempts
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+
+// A claim outlives the longest webhook timeout; after that the attempt is
+// assumed lost with its process and the delivery is picked up again
+const CLAIM_MS = 2 * 60 * 1000;
+
+// Dead-lettered events in a row before a webhook is disabled
+const MAX_CONSECUTIVE_FAILURES = 10;
+
+const DELIVERED_RETENTION_DAYS = 30;
+const DEAD_RETENTION_DAYS = 90;
+
+const REPLAY_RANGE_LIMIT = 1000;
+
+const retryDelay = (attempts: number) =>
+  Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+
 // ----------------------------------------------------------------------
 
 export class WebhookService {
   /**
    * Trigger webhooks for a specific topic
+   *
+   * Each matching webhook whose filters pass gets a persisted delivery, shaped
+   * to its payload options, so an event survives a restart between attempts. The first attempt starts straight away; retries
+   * are picked up by processQueue.
    */
   static async triggerWebhooks(
     tenantId: string,
@@ -39,73 +67,332 @@ export class WebhookService {
         return;
       }
 
-      // Process webhooks in parallel
-      const promises = webhooks.map((webhook) =>
-        this.processWebhook(webhook, topic, data, eventId),
+      // Filters and field selection work on the data as it goes on the wire
+      const wireData = JSON.parse(JSON.stringify(data ?? {}));
+
+      const subscribers = webhooks.filter((webhook: IWebhook) =>
+        matchesWebhookFilters(webhook, wireData),
       );
+      if (subscribers.length === 0) return;
+
+      const eventKey = eventId || crypto.randomUUID();
+      const timestamp = new Date().toISOString();
+      const expansions = new WebhookExpansionLoader(tenantId, wireData);
+
+      const documents = [];
+      for (const webhook of subscribers) {
+        const shaped = await expansions.shape(webhook);
+
+        documents.push({
+          webhookId: webhook._id.toString(),
+          tenantId,
+          eventId: eventKey,
+          topic,
+          // Stored as the JSON that goes on the wire, so every attempt and
+          // replay signs exactly the same body
+          payload: JSON.parse(
+            JSON.stringify({
+              id: eventKey,
+              topic,
+              data: shaped,
+              timestamp,
+              tenantId: webhook.tenantId,
+            }),
+          ),
+          maxAttempts: webhook.maxRetries + 1, // +1 for initial attempt
+          nextAttemptAt: new Date(),
+        });
+      }
+
+      const deliveries = await WebhookDelivery.insertMany(documents);
 
-      await Promise.allSettled(promises);
+      // Don't hold up the caller on slow endpoints
+      void Promise.allSettled(
+        deliveries.map((delivery) =>
+          this.attemptDelivery(delivery._id.toString()),
+        ),
+      );
     } catch (error) {
       console.error("Error triggering webhooks:", error);
     }
   }
 
   /**
-   * Process a single webhook
+   * Attempt every delivery that is due (for cron job)
    */
-  private static async processWebhook(
+  static async processQueue(limit = 100): Promise<{
+    processed: number;
+    delivered: number;
+    retrying: number;
+    dead: number;
+  }> {
+    const due = await WebhookDelivery.find(this.dueFilter(new Date()))
+      .sort({ nextAttemptAt: 1 })
+      .limit(limit)
+      .select("_id")
+      .lean<Pick<IWebhookDelivery, "_id">[]>();
+
+    const result = { processed: 0, delivered: 0, retrying: 0, dead: 0 };
+
+    // One at a time; a slow endpoint only delays this run
+    for (const { _id } of due) {
+      const outcome = await this.attemptDelivery(_id.toString());
+      if (!outcome) continue;
+
+      result.processed++;
+      result[outcome]++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Queue a delivery log entry for redelivery
+   */
+  static async replayLog(
     webhook: IWebhook,
-    topic: string,
-    data: any,
-    eventId?: string,
-  ): Promise<void> {
-    const payload: WebhookPayload = {
-      id: eventId || crypto.randomUUID(),
-      topic,
-      data,
-      timestamp: new Date().toISOString(),
+    logId: string,
+  ): Promise<IWebhookDelivery | null> {
+    const log = await WebhookLog.findOne({
+      _id: logId,
+      webhookId: webhook._id.toString(),
+    }).lean<IWebhookLog>();
+    if (!log) return null;
+
+    return this.replayOne(webhook, log.payload, log._id.toString());
+  }
+
+  /**
+   * Queue a delivery, typically a dead-lettered one, for redelivery
+   */
+  static async replayDelivery(
+    webhook: IWebhook,
+    deliveryId: string,
+  ): Promise<IWebhookDelivery | null> {
+    const delivery = await WebhookDelivery.findOne({
+      _id: deliveryId,
+      webhookId: webhook._id.toString(),
+    }).lean<IWebhookDelivery>();
+    if (!delivery) return null;
+
+    return this.replayOne(webhook, delivery.payload, delivery._id.toString());
+  }
+
+  /**
+   * Queue every event sent to a webhook in a time range for redelivery.
+   * Events that are still queued are skipped, and so are events that already
+   * went through when `undeliveredOnly` is set.
+   */
+  static async replayRange(
+    webhook: IWebhook,
+    options: {
+      from: Date;
+      to: Date;
+      topics?: string[];
+      undeliveredOnly?: boolean;
+    },
+  ): Promise<{ queued: number; skipped: number }> {
+    const webhookId = webhook._id.toString();
+
+    const originals = await WebhookDelivery.find({
+      webhookId,
+      replayOf: { $exists: false },
+      createdAt: { $gte: options.from, $lte: options.to },
+      ...(options.topics?.length ? { topic: { $in: options.topics } } : {}),
+    })
+      .sort({ createdAt: 1 })
+      .limit(REPLAY_RANGE_LIMIT)
+      .lean<IWebhookDelivery[]>();
+
+    if (originals.length === 0) return { queued: 0, skipped: 0 };
+
+    const excluded = await WebhookDelivery.distinct("eventId", {
+      webhookId,
+      eventId: { $in: originals.map((delivery) => delivery.eventId) },
+      status: {
+        $in: options.undeliveredOnly
+          ? ["pending", "delivering", "delivered"]
+          : ["pending", "delivering"],
+      },
+    });
+    const skip = new Set(excluded);
+
+    const replays = originals.filter((delivery) => !skip.has(delivery.eventId));
+
+    if (replays.length > 0) {
+      await WebhookDelivery.insertMany(
+        replays.map((delivery) =>
+          this.replayDoc(webhook, delivery.payload, delivery._id.toString()),
+        ),
+      );
+    }
+
+    return {
+      queued: replays.length,
+      skipped: originals.length - replays.length,
+    };
+  }
+
+  /**
+   * Queue one replay and make its first attempt right away
+   */
+  private static async replayOne(
+    webhook: IWebhook,
+    payload: WebhookPayload,
+    replayOf: string,
+  ): Promise<IWebhookDelivery> {
+    const delivery = await WebhookDelivery.create(
+      this.replayDoc(webhook, payload, replayOf),
+    );
+
+    await this.attemptDelivery(delivery._id.toString());
+
+    return (
+      (await WebhookDelivery.findById(delivery._id).lean<IWebhookDelivery>()) ??
+      delivery
+    );
+  }
+
+  private static replayDoc(
+    webhook: IWebhook,
+    payload: WebhookPayload,
+    replayOf: string,
+  ) {
+    // Same envelope id, so receivers that dedupe on it ignore events they
+    // already handled
+    return {
+      webhookId: webhook._id.toString(),
       tenantId: webhook.tenantId,
+      eventId: payload.id,
+      topic: payload.topic,
+      payload,
+      maxAttempts: webhook.maxRetries + 1,
+      nextAttemptAt: new Date(),
+      replayOf,
     };
+  }
 
-    let attempt = 1;
-    const maxRetries = webhook.maxRetries + 1; // +1 for initial attempt
+  private static dueFilter(now: Date) {
+    return {
+      $or: [
+        { status: "pending", nextAttemptAt: { $lte: now } },
+        // Claimed by a worker that never finished
+        { status: "delivering", lockedUntil: { $lte: now } },
+      ],
+    };
+  }
 
-    while (attempt <= maxRetries) {
-      const success = await this.deliverWebhook(webhook, payload, attempt);
+  /**
+   * Claim a due delivery and make one attempt. Returns null when the delivery
+   * is not due or another worker holds it.
+   */
+  private static async attemptDelivery(
+    deliveryId: string,
+  ): Promise<"delivered" | "retrying" | "dead" | null> {
+    const now = new Date();
+
+    const delivery = await WebhookDelivery.findOneAndUpdate(
+      { _id: deliveryId, ...this.dueFilter(now) },
+      {
+        $set: {
+          status: "delivering",
+          lockedUntil: new Date(now.getTime() + CLAIM_MS),
+          lastAttemptAt: now,
+        },
+        $inc: { attempts: 1 },
+      },
+      { new: true },
+    ).lean<IWebhookDelivery>();
 
-      if (success) {
-        // Update webhook last triggered time
-        await Webhook.findByIdAndUpdate(webhook._id, {
-          lastTriggeredAt: new Date(),
-          failureCount: 0,
-        });
-        break;
-      }
+    if (!delivery) return null;
 
-      attempt++;
+    const webhook = await Webhook.findById(delivery.webhookId);
 
-      if (attempt <= maxRetries) {
-        // Exponential backoff: 2^attempt seconds
-        const delay = Math.pow(2, attempt - 1) * 1000;
-        await new Promise((resolve) => setTimeout(resolve, delay));
-      }
+    // Dead-letter rather than drop, so the events can be replayed once the
+    // webhook is back
+    if (!webhook || !webhook.status) {
+      await this.settle(delivery, "dead", {
+        lastError: webhook ? "Webhook is disabled" : "Webhook was deleted",
+      });
+      return "dead";
     }
 
-    // If all attempts failed, increment failure count
-    if (attempt > maxRetries) {
+    const result = await this.deliverWebhook(
+      webhook,
+      delivery.payload,
+      delivery.attempts,
+      delivery,
+    );
+
+    if (result.success) {
+      await this.settle(delivery, "delivered", {
+        deliveredAt: new Date(),
+        lastHttpStatus: result.httpStatus,
+      });
       await Webhook.findByIdAndUpdate(webhook._id, {
-        $inc: { failureCount: 1 },
+        lastTriggeredAt: new Date(),
+        failureCount: 0,
       });
+      return "delivered";
+    }
 
-      // Disable webhook if too many failures
-      if (webhook.failureCount >= 10) {
-        await Webhook.findByIdAndUpdate(webhook._id, {
-          status: false,
-        });
-        console.error(
-          `Webhook ${webhook._id} disabled due to excessive failures`,
-        );
-      }
+    if (delivery.attempts >= delivery.maxAttempts) {
+      await this.settle(delivery, "dead", {
+        lastHttpStatus: result.httpStatus,
+        lastError: result.errorMessage,
+      });
+      await this.recordFailure(webhook);
+      return "dead";
+    }
+
+    await WebhookDelivery.findByIdAndUpdate(delivery._id, {
+      $set: {
+        status: "pending",
+        nextAttemptAt: new Date(Date.now() + retryDelay(delivery.attempts)),
+        lastHttpStatus: result.httpStatus,
+        lastError: result.errorMessage,
+      },
+      $unset: { lockedUntil: 1 },
+    });
+    return "retrying";
+  }
+
+  private static async settle(
+    delivery: IWebhookDelivery,
+    status: "delivered" | "dead",
+    fields: Partial<IWebhookDelivery>,
+  ): Promise<void> {
+    const retentionDays =
+      status === "delivered" ? DELIVERED_RETENTION_DAYS : DEAD_RETENTION_DAYS;
+
+    await WebhookDelivery.findByIdAndUpdate(delivery._id, {
+      $set: {
+        ...fields,
+        status,
+        expiresAt: new Date(Date.now() + retentionDays * 24 * 60 * 60 * 1000),
+      },
+      $unset: { lockedUntil: 1 },
+    });
+  }
+
+  /**
+   * Count an event that ran out of retries; sustained failures disable the
+   * webhook
+   */
+  private static async recordFailure(webhook: IWebhook): Promise<void> {
+    const updated = await Webhook.findOneAndUpdate(
+      { _id: webhook._id, status: true },
+      { $inc: { failureCount: 1 } },
+      { new: true },
+    );
+
+    if (updated && updated.failureCount >= MAX_CONSECUTIVE_FAILURES) {
+      await Webhook.findByIdAndUpdate(webhook._id, {
+        status: false,
+      });
+      console.error(
+        `Webhook ${webhook._id} disabled due to excessive failures`,
+      );
     }
   }
 
@@ -116,7 +403,8 @@ export class WebhookService {
     webhook: IWebhook,
     payload: WebhookPayload,
     attempt: number,
-  ): Promise<boolean> {
+    delivery: IWebhookDelivery,
+  ): Promise<{ success: boolean; httpStatus?: number; errorMessage?: string }> {
     const startTime = Date.now();
     let httpStatus: number | undefined;
     let responseBody: string | undefined;
@@ -139,6 +427,7 @@ export class WebhookService {
         "X-FSA-Webhook-Id": webhook._id,
         "X-FSA-Delivery-Id": crypto.randomUUID(),
         "X-FSA-Attempt": attempt.toString(),
+        ...(delivery.replayOf ? { "X-FSA-Replay": "true" } : {}),
         ...webhook.headers,
       };
 
@@ -180,6 +469,7 @@ export class WebhookService {
     await WebhookLog.create({
       webhookId: webhook._id,
       tenantId: webhook.tenantId,
+      deliveryId: delivery._id.toString(),
       topic: payload.topic,
       payload,
       deliveryUrl: webhook.deliveryUrl,
@@ -191,7 +481,7 @@ export class WebhookService {
       processingTimeMs: processingTime,
     });
 
-    return success;
+    return { success, httpStatus, errorMessage };
   }
 
   /**
@@ -324,12 +614,14 @@ export class WebhookService {
 
 // ----------------------------------------------------------------------
 
-// Available webhook topics
+// Available webhook topics; payloads are documented in docs/WEBHOOKS.md
 export const WEBHOOK_TOPICS = [
   "work_order.created",
   "work_order.updated",
   "work_order.deleted",
   "work_order.status_changed",
+  "work_order.sla_warning",
+  "work_order.sla_breached",
   "task.created",
   "task.updated",
   "task.deleted",
@@ -340,6 +632,19 @@ export const WEBHOOK_TOPICS = [
   "client.created",
   "client.updated",
   "client.deleted",
+  "material.low_stock",
+  "material.stock_changed",
+  "report.submitted",
+  "report.approved",
+  "report.rejected",
+  "time_entry.created",
+  "time_entry.updated",
+  "time_entry.deleted",
+  "time_entry.checked_in",
+  "time_entry.checked_out",
+  "assignment.accepted",
+  "assignment.rejected",
+  "comment.created",
 ] as const;
 
 export type WebhookTopic = (typeof WEBHOOK_TOPICS)[number];
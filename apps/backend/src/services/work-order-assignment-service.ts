@@ -1,12 +1,79 @@
-import { Task, WorkOrder, Personnel } from '../models';
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+import { Task, Tenant, WorkOrder, Personnel } from '../models';
+import { HttpError } from '../middleware/http-error-middleware';
 import { NotificationService } from './notification-service';
 import { realtimeService } from './realtime-service';
+import { DAY_NAMES, DispatchPlannerService } from './dispatch-planner-service';
+import { AssignmentPermissionService } from './assignment-permission-service';
+import { WorkOrderTimelineService } from './work-order-timeline-service';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
 
 export interface WorkOrderAssignmentOptions {
   notifyPersonnel?: boolean;
   skipNotifications?: boolean;
 }
 
+export interface AssignmentSuggestion {
+  personnel: {
+    _id: string;
+    name: string;
+    employeeId: string;
+    skills: string[];
+    certifications: string[];
+  };
+  score: number; // 0..100
+  breakdown: {
+    skills: number;
+    availability: number;
+    load: number;
+    distance: number;
+  };
+  matchedSkills: string[];
+  missingSkills: string[];
+  available: boolean | null; // null when the work order has no scheduled date
+  scheduledWorkOrders: number; // Other work orders already booked that day
+  openTasks: number;
+  distanceKm: number | null;
+  alreadyAssigned: boolean;
+}
+
+export interface AssignmentSuggestionResult {
+  workOrder: {
+    _id: string;
+    requiredSkills: string[];
+    requiredCertifications: string[];
+    scheduledDate?: Date;
+  };
+  suggestions: AssignmentSuggestion[];
+  // Active personnel left out because they lack a required certification
+  excluded: Array<{
+    personnel: { _id: string; name: string; employeeId: string };
+    missingCertifications: string[];
+  }>;
+}
+
+// Maximum points per ranking criterion (sum = 100)
+const SUGGESTION_WEIGHTS = {
+  skills: 40,
+  availability: 25,
+  load: 20,
+  distance: 15,
+};
+// Technicians further away than this get no distance points
+const MAX_SUGGESTION_DISTANCE_KM = 50;
+// Availability points lost for each work order already booked that day
+const BOOKED_WORK_ORDER_PENALTY = 8;
+
+const normalizeName = (value: string) => value.trim().toLowerCase();
+
+const personnelName = (person: any) =>
+  [person.userId?.firstName, person.userId?.lastName].filter(Boolean).join(' ') ||
+  person.employeeId;
+
 export class WorkOrderAssignmentService {
   /**
    * When personnel are assigned to a work order, automatically assign them to:
@@ -135,6 +202,277 @@ export class WorkOrderAssignmentService {
     }
   }
 
+  /**
+   * Rank active personnel for a work order. Personnel missing a required
+   * certification are excluded; the rest are scored on skill match,
+   * availability on the scheduled date, open task load and distance.
+   */
+  static async suggestAssignments(
+    workOrderId: string,
+    tenantId: string,
+    options: { limit?: number; includeAssigned?: boolean } = {}
+  ): Promise<AssignmentSuggestionResult> {
+    const { limit = 10, includeAssigned = false } = options;
+
+    const workOrder = await WorkOrder.findOne({ _id: workOrderId, tenantId })
+      .select('personnelIds requiredSkills requiredCertifications scheduledDate location')
+      .lean() as any;
+
+    if (!workOrder) {
+      throw new HttpError(404, 'Work order not found');
+    }
+
+    const requiredSkills: string[] = workOrder.requiredSkills || [];
+    const requiredCertifications: string[] = workOrder.requiredCertifications || [];
+    const assignedIds = (workOrder.personnelIds || []).map((id: any) => id.toString());
+
+    const personnel = await Personnel.find({
+      tenantId,
+      isActive: true,
+      status: 'active',
+    })
+      .populate('userId', 'firstName lastName')
+      .lean() as any[];
+
+    const excluded: AssignmentSuggestionResult['excluded'] = [];
+    const eligible = personnel.filter((person) => {
+      if (!includeAssigned && assignedIds.includes(person._id.toString())) {
+        return false;
+      }
+      const held = (person.certifications || []).map(normalizeName);
+      const missingCertifications = requiredCertifications.filter(
+        (cert) => !held.includes(normalizeName(cert))
+      );
+      if (missingCertifications.length > 0) {
+        excluded.push({
+          personnel: {
+            _id: person._id.toString(),
+            name: personnelName(person),
+            employeeId: person.employeeId,
+          },
+          missingCertifications,
+        });
+        return false;
+      }
+      return true;
+    });
+
+    const eligibleIds = eligible.map((person) => person._id.toString());
+
+    // Work orders already booked on the scheduled day, in the tenant's timezone
+    let scheduledDay: dayjs.Dayjs | null = null;
+    const bookedCounts = new Map<string, number>();
+    if (workOrder.scheduledDate && eligibleIds.length > 0) {
+      const tenant = await Tenant.findById(tenantId).select('settings.timezone').lean() as any;
+      scheduledDay = dayjs(workOrder.scheduledDate)
+        .tz(tenant?.settings?.timezone || 'UTC')
+        .startOf('day');
+
+      const booked = await WorkOrder.find({
+        tenantId,
+        _id: { $ne: workOrderId },
+        personnelIds: { $in: eligibleIds },
+        status: { $nin: ['completed', 'cancelled'] },
+        scheduledDate: {
+          $gte: scheduledDay.toDate(),
+          $lte: scheduledDay.endOf('day').toDate(),
+        },
+      })
+        .select('personnelIds')
+        .lean();
+
+      for (const other of booked as any[]) {
+        for (const id of other.personnelIds || []) {
+          const key = id.toString();
+          bookedCounts.set(key, (bookedCounts.get(key) || 0) + 1);
+        }
+      }
+    }
+
+    // Open task load per technician
+    const loadCounts = new Map<string, number>();
+    if (eligibleIds.length > 0) {
+      const openTasks = await Task.aggregate([
+        {
+          $match: {
+            tenantId,
+            assignees: { $in: eligibleIds },
+            isArchived: { $ne: true },
+            completeStatus: { $ne: true },
+          },
+        },
+        { $unwind: '$assignees' },
+        { $match: { assignees: { $in: eligibleIds } } },
+        { $group: { _id: '$assignees', count: { $sum: 1 } } },
+      ]);
+      for (const entry of openTasks) {
+        loadCounts.set(entry._id.toString(), entry.count);
+      }
+    }
+    const maxLoad = Math.max(0, ...loadCounts.values());
+
+    const target = workOrder.location?.coordinates;
+    const hasTarget = typeof target?.latitude === 'number' && typeof target?.longitude === 'number';
+
+    const suggestions: AssignmentSuggestion[] = eligible.map((person) => {
+      const id = person._id.toString();
+      const skills: string[] = person.skills || [];
+      const held = skills.map(normalizeName);
+      const matchedSkills = requiredSkills.filter((skill) => held.includes(normalizeName(skill)));
+      const missingSkills = requiredSkills.filter((skill) => !held.includes(normalizeName(skill)));
+
+      const skillPoints = requiredSkills.length
+        ? (matchedSkills.length / requiredSkills.length) * SUGGESTION_WEIGHTS.skills
+        : SUGGESTION_WEIGHTS.skills;
+
+      const scheduledWorkOrders = bookedCounts.get(id) || 0;
+      let available: boolean | null = null;
+      let availabilityPoints = SUGGESTION_WEIGHTS.availability;
+      if (scheduledDay) {
+        available = person.availability?.[DAY_NAMES[scheduledDay.day()]]?.available !== false;
+        availabilityPoints = available
+          ? Math.max(
+              0,
+              SUGGESTION_WEIGHTS.availability - scheduledWorkOrders * BOOKED_WORK_ORDER_PENALTY
+            )
+          : 0;
+      }
+
+      const openTasks = loadCounts.get(id) || 0;
+      const loadPoints = maxLoad
+        ? (1 - openTasks / maxLoad) * SUGGESTION_WEIGHTS.load
+        : SUGGESTION_WEIGHTS.load;
+
+      let distanceKm: number | null = null;
+      // Unknown distance gets half the points so it neither wins nor loses outright
+      let distancePoints = SUGGESTION_WEIGHTS.distance / 2;
+      if (
+        hasTarget &&
+        typeof person.location?.latitude === 'number' &&
+        typeof person.location?.longitude === 'number'
+      ) {
+        distanceKm = Math.round(DispatchPlannerService.haversineKm(person.location, target) * 10) / 10;
+        distancePoints =
+          Math.max(0, 1 - distanceKm / MAX_SUGGESTION_DISTANCE_KM) * SUGGESTION_WEIGHTS.distance;
+      }
+
+      const breakdown = {
+        skills: Math.round(skillPoints),
+        availability: Math.round(availabilityPoints),
+        load: Math.round(loadPoints),
+        distance: Math.round(distancePoints),
+      };
+
+      return {
+        personnel: {
+          _id: id,
+          name: personnelName(person),
+          employeeId: person.employeeId,
+          skills,
+          certifications: person.certifications || [],
+        },
+        score: Math.round(skillPoints + availabilityPoints + loadPoints + distancePoints),
+        breakdown,
+        matchedSkills,
+        missingSkills,
+        available,
+        scheduledWorkOrders,
+        openTasks,
+        distanceKm,
+        alreadyAssigned: assignedIds.includes(id),
+      };
+    });
+
+    suggestions.sort(
+      (a, b) => b.score - a.score || a.openTasks - b.openTasks || a.personnel.name.localeCompare(b.personnel.name)
+    );
+
+    return {
+      workOrder: {
+        _id: workOrder._id.toString(),
+        requiredSkills,
+        requiredCertifications,
+        scheduledDate: workOrder.scheduledDate,
+      },
+      suggestions: suggestions.slice(0, limit),
+      excluded,
+    };
+  }
+
+  /**
+   * Add accepted suggestions to the work order and propagate them to its tasks
+   */
+  static async acceptSuggestedAssignments(
+    workOrderId: string,
+    personnelIds: string[],
+    tenantId: string,
+    assignedBy: string,
+    options: WorkOrderAssignmentOptions = {}
+  ) {
+    const workOrder = await WorkOrder.findOne({ _id: workOrderId, tenantId });
+    if (!workOrder) {
+      throw new HttpError(404, 'Work order not found');
+    }
+
+    const personnel = await Personnel.find({
+      _id: { $in: personnelIds },
+      tenantId,
+      isActive: true,
+      status: 'active',
+    })
+      .populate('userId', 'firstName lastName')
+      .lean() as any[];
+
+    if (personnel.length !== new Set(personnelIds).size) {
+      throw new HttpError(400, 'One or more personnel are not eligible for assignment (inactive or pending)');
+    }
+
+    const requiredCertifications = workOrder.requiredCertifications || [];
+    const uncertified = personnel.filter((person) => {
+      const held = (person.certifications || []).map(normalizeName);
+      return requiredCertifications.some((cert: string) => !held.includes(normalizeName(cert)));
+    });
+    if (uncertified.length > 0) {
+      throw new HttpError(
+        400,
+        `Missing required certifications: ${uncertified.map(personnelName).join(', ')}`
+      );
+    }
+
+    const previousPersonnelIds = (workOrder.personnelIds || []).map((id: any) => id.toString());
+    const added = personnel.filter((person) => !previousPersonnelIds.includes(person._id.toString()));
+    if (added.length === 0) {
+      return workOrder;
+    }
+
+    const newPersonnelIds = [...previousPersonnelIds, ...added.map((person) => person._id.toString())];
+    workOrder.personnelIds = newPersonnelIds;
+    await workOrder.save();
+
+    await AssignmentPermissionService.handleWorkOrderAssignment(workOrderId, newPersonnelIds, tenantId);
+    await this.propagateWorkOrderAssignments(
+      workOrderId,
+      newPersonnelIds,
+      previousPersonnelIds,
+      tenantId,
+      assignedBy,
+      options
+    );
+
+    try {
+      await WorkOrderTimelineService.logWorkOrderAssigned(
+        workOrderId,
+        added.map(personnelName),
+        assignedBy,
+        tenantId
+      );
+    } catch (error) {
+      console.error('Error logging accepted assignment suggestion:', error);
+    }
+
+    return workOrder;
+  }
+
   /**
    * When a task is created and linked to a work order, automatically assign
    * all personnel from the work order to the task
@@ -1,4 +1,9 @@
 import { Task, WorkOrder } from "../models";
+import type { WorkOrderStatusCategory } from "../models/WorkOrderStatus";
+import {
+  SYSTEM_USER_ID,
+  WorkOrderWorkflowService,
+} from "./work-order-workflow-service";
 
 export class WorkOrderProgressService {
   static async recomputeForWorkOrder(tenantId: string, workOrderId: string) {
@@ -55,14 +60,37 @@ export class WorkOrderProgressService {
     workOrder.startedAt = totals.startedAt;
     workOrder.completedAt = totals.completedAt;
 
-    // Optional: derive status from tasks
+    // Derive status from tasks, as far as the tenant workflow allows
+    let statusChange: Awaited<
+      ReturnType<typeof WorkOrderWorkflowService.applyAutomaticStatus>
+    > = null;
     if (totals.total > 0) {
-      if (totals.done === totals.total) workOrder.status = "completed";
-      else if (totals.blocked > 0) workOrder.status = "on-hold";
-      else if (totals.inProgress > 0) workOrder.status = "in-progress";
-      else workOrder.status = "assigned";
+      let derived: WorkOrderStatusCategory = "assigned";
+      if (totals.done === totals.total) derived = "completed";
+      else if (totals.blocked > 0) derived = "on-hold";
+      else if (totals.inProgress > 0) derived = "in-progress";
+
+      statusChange = await WorkOrderWorkflowService.applyAutomaticStatus(
+        workOrder,
+        derived,
+        SYSTEM_USER_ID,
+        "Updated from task progress",
+      );
     }
 
     await workOrder.save();
+
+    // Timeline, webhook and stock reservations (completing a work order
+    // releases them)
+    if (statusChange) {
+      await WorkOrderWorkflowService.afterStatusChange(
+        tenantId,
+        workOrder,
+        statusChange.from,
+        statusChange.to,
+        SYSTEM_USER_ID,
+        "Updated from task progress",
+      );
+    }
   }
 }
@@ -0,0 +1,282 @@
+import mongoose from "mongoose";
+import { Client, Personnel, WorkOrder } from "../models";
+import { getNextSequence } from "../models/counter";
+import { HttpError } from "../middleware/http-error-middleware";
+import EnhancedSubscriptionMiddleware from "../middleware/enhanced-subscription-middleware";
+import { AssetService } from "./asset-service";
+import { AssignmentPermissionService } from "./assignment-permission-service";
+import { InventoryService } from "./inventory-service";
+import { SlaService } from "./sla-service";
+import { WebhookService } from "./webhook-service";
+import { WorkOrderAssignmentService } from "./work-order-assignment-service";
+import { WorkOrderProgressService } from "./work-order-progress-service";
+import { WorkOrderSmsService } from "./work-order-sms-service";
+import { WorkOrderTimelineService } from "./work-order-timeline-service";
+import { WorkOrderWorkflowService } from "./work-order-workflow-service";
+
+// ----------------------------------------------------------------------
+
+export interface CreateWorkOrderOptions {
+  // Note on the first history entry
+  historyNote?: string;
+  // Extra fields for the work_order.created webhook, e.g. the source quote
+  webhookData?: Record<string, unknown>;
+  requestId?: string;
+}
+
+// Set by the server only; dropped from any data passed in
+const SERVER_FIELDS = [
+  "_id",
+  "tenantId",
+  "workOrderNumber",
+  "status",
+  "workflowStatus",
+  "createdBy",
+  "history",
+  "sla",
+  "createdAt",
+  "updatedAt",
+];
+
+// ----------------------------------------------------------------------
+
+export class WorkOrderService {
+  /**
+   * Check that the client, personnel and assets of a new work order belong
+   * to the tenant, and that the personnel can be assigned
+   */
+  static async validateReferences(
+    tenantId: string,
+    data: { clientId?: string; personnelIds?: string[]; assetIds?: string[] },
+  ): Promise<void> {
+    if (data.clientId) {
+      if (!mongoose.Types.ObjectId.isValid(data.clientId)) {
+        throw new HttpError(400, "Invalid client ID format");
+      }
+      const client = await Client.exists({ _id: data.clientId, tenantId });
+      if (!client) {
+        throw new HttpError(
+          400,
+          "Client not found or doesn't belong to this tenant",
+        );
+      }
+    }
+
+    const personnelIds = data.personnelIds || [];
+    if (personnelIds.length > 0) {
+      if (personnelIds.some((id) => !mongoose.Types.ObjectId.isValid(id))) {
+        throw new HttpError(400, "Invalid personnel ID format");
+      }
+
+      const personnelDocs = await Personnel.find({
+        _id: { $in: personnelIds },
+        tenantId,
+      }).select("_id isActive status");
+
+      if (personnelDocs.length !== new Set(personnelIds).size) {
+        throw new HttpError(
+          400,
+          "One or more personnel not found or don't belong to this tenant",
+        );
+      }
+
+      const ineligible = personnelDocs
+        .filter((p: any) => !p.isActive || p.status !== "active")
+        .map((p: any) => p._id.toString());
+
+      if (ineligible.length > 0) {
+        throw new HttpError(
+          400,
+          "One or more personnel are not eligible for assignment (inactive or pending)",
+          undefined,
+          undefined,
+          { ineligible },
+        );
+      }
+    }
+
+    if (Array.isArray(data.assetIds) && data.assetIds.length > 0) {
+      const invalidAssets = await AssetService.findInvalidAssetIds(
+        tenantId,
+        data.assetIds,
+        data.clientId,
+      );
+      if (invalidAssets.length > 0) {
+        throw new HttpError(
+          400,
+          "One or more assets not found or don't belong to this client",
+        );
+      }
+    }
+  }
+
+  /**
+   * Create a work order the way every entry point should: validated
+   * references, the next work order number, the tenant's initial workflow
+   * status, then usage tracking, timeline, stock reservations, SLA clock,
+   * assignments, SMS reminders and the work_order.created webhook.
+   */
+  static async create(
+    tenantId: string,
+    userId: string,
+    data: Record<string, any>,
+    options: CreateWorkOrderOptions = {},
+  ) {
+    const fields = { ...data };
+    SERVER_FIELDS.forEach((field) => delete fields[field]);
+
+    await this.validateReferences(tenantId, fields);
+
+    const seq = await getNextSequence(tenantId, "workOrder");
+    const workOrderNumber = `WO-${String(seq).padStart(6, "0")}`;
+
+    const initialStatus =
+      await WorkOrderWorkflowService.getInitialStatus(tenantId);
+
+    const workOrder = new WorkOrder({
+      ...fields,
+      tenantId,
+      workOrderNumber,
+      status: initialStatus.category,
+      workflowStatus: initialStatus.key,
+      createdBy: userId,
+      history: [
+        {
+          status: initialStatus.category,
+          workflowStatus: initialStatus.key,
+          timestamp: new Date(),
+          userId,
+          notes: options.historyNote || "Work order created",
+        },
+      ],
+    });
+
+    await workOrder.save();
+    const workOrderId = workOrder._id.toString();
+
+    // Track work order creation in usage statistics
+    await EnhancedSubscriptionMiddleware.trackCreation(
+      tenantId,
+      "workOrder",
+      1,
+      {
+        entityId: workOrderId,
+        workOrderNumber: workOrder.workOrderNumber,
+        title: workOrder.title,
+        clientId: workOrder.clientId,
+      },
+      options.requestId,
+    );
+
+    try {
+      await WorkOrderTimelineService.logWorkOrderCreated(
+        workOrderId,
+        workOrder.title,
+        userId,
+        tenantId,
+      );
+    } catch (error) {
+      console.error(
+        "Error adding timeline entry for work order creation:",
+        error,
+      );
+    }
+
+    await WorkOrderProgressService.recomputeForWorkOrder(tenantId, workOrderId);
+
+    // Reserve stock for planned inventory materials
+    try {
+      await InventoryService.syncWorkOrderReservations(tenantId, workOrderId);
+    } catch (error) {
+      console.error("Error reserving stock for work order:", error);
+    }
+
+    // Start the SLA clock
+    await SlaService.syncWorkOrder(tenantId, workOrderId);
+
+    const personnelIds: string[] = fields.personnelIds || [];
+    if (personnelIds.length > 0) {
+      try {
+        await AssignmentPermissionService.handleWorkOrderAssignment(
+          workOrderId,
+          personnelIds,
+          tenantId,
+        );
+        await WorkOrderAssignmentService.propagateWorkOrderAssignments(
+          workOrderId,
+          personnelIds,
+          [], // no previous personnel for new work order
+          tenantId,
+          userId,
+        );
+
+        const assignedPersonnel = await Personnel.find({
+          _id: { $in: personnelIds },
+          tenantId,
+        }).populate("user", "firstName lastName");
+
+        const assigneeNames = assignedPersonnel.map((p) =>
+          p.user
+            ? `${p.user.firstName} ${p.user.lastName}`.trim()
+            : p.employeeId,
+        );
+
+        await WorkOrderTimelineService.logWorkOrderAssigned(
+          workOrderId,
+          assigneeNames,
+          userId,
+          tenantId,
+        );
+      } catch (error) {
+        console.error("Error propagating work order assignments:", error);
+        // Don't fail work order creation if assignment propagation fails
+      }
+    }
+
+    if (fields.smsReminders?.enabled) {
+      try {
+        const smsResult = await WorkOrderSmsService.processSmsReminders(
+          workOrderId,
+          fields.smsReminders,
+          tenantId,
+        );
+        if (!smsResult.success) {
+          console.warn(
+            "SMS reminders failed for work order:",
+            smsResult.message,
+          );
+        }
+      } catch (error) {
+        console.error("Error processing SMS reminders for work order:", error);
+      }
+    }
+
+    try {
+      await WebhookService.triggerWebhooks(
+        tenantId,
+        "work_order.created",
+        {
+          workOrder: {
+            _id: workOrder._id,
+            workOrderNumber: workOrder.workOrderNumber,
+            title: workOrder.title,
+            description: workOrder.description,
+            status: workOrder.status,
+            priority: workOrder.priority,
+            clientId: workOrder.clientId,
+            personnelIds: workOrder.personnelIds,
+            scheduledDate: workOrder.scheduledDate,
+            createdAt: workOrder.createdAt,
+            createdBy: workOrder.createdBy,
+            ...options.webhookData,
+          },
+        },
+        workOrderId,
+      );
+    } catch (error) {
+      console.error("Error triggering work order creation webhooks:", error);
+    }
+
+    return workOrder;
+  }
+}
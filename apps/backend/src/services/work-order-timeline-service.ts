@@ -1,4 +1,5 @@
-import { WorkOrderTimeline, User, Personnel } from '../models';
+import { isValidObjectId } from 'mongoose';
+import { WorkOrderTimeline, User, Personnel, Client } from '../models';
 import type { IWorkOrderTimelineEntry } from '../models/WorkOrderTimeline';
 
 export interface TimelineEventData {
@@ -21,10 +22,26 @@ export class WorkOrderTimelineService {
   static async addTimelineEntry(data: TimelineEventData): Promise<IWorkOrderTimelineEntry | null> {
     try {
       // Get user information for display
-      const user = await User.findById(data.userId).select('firstName lastName avatar');
-      const userName = user ? `${user.firstName} ${user.lastName}`.trim() : 'Unknown User';
+      // Automatic changes are logged under a non-ObjectId user such as 'system'
+      const validId = isValidObjectId(data.userId);
+      const user = validId
+        ? await User.findById(data.userId).select('firstName lastName avatar')
+        : null;
+      let userName = user
+        ? `${user.firstName} ${user.lastName}`.trim()
+        : validId
+          ? 'Unknown User'
+          : 'System';
       const userAvatar = user?.avatar;
 
+      // Clients act through the portal under their own id
+      if (!user && validId) {
+        const client = await Client.findOne({ _id: data.userId, tenantId: data.tenantId })
+          .select('name')
+          .lean<{ name: string }>();
+        if (client) userName = `${client.name} (client)`;
+      }
+
       const timelineEntry = new WorkOrderTimeline({
         tenantId: data.tenantId,
         workOrderId: data.workOrderId,
@@ -58,10 +75,11 @@ export class WorkOrderTimelineService {
       limit?: number;
       offset?: number;
       entityType?: 'work_order' | 'task';
+      eventTypes?: IWorkOrderTimelineEntry['eventType'][];
     } = {}
   ): Promise<IWorkOrderTimelineEntry[]> {
     try {
-      const { limit = 50, offset = 0, entityType } = options;
+      const { limit = 50, offset = 0, entityType, eventTypes } = options;
 
       const filter: any = {
         workOrderId,
@@ -72,6 +90,10 @@ export class WorkOrderTimelineService {
         filter.entityType = entityType;
       }
 
+      if (eventTypes) {
+        filter.eventType = { $in: eventTypes };
+      }
+
       const timeline = await WorkOrderTimeline.find(filter)
         .sort({ timestamp: -1 })
         .limit(limit)
@@ -105,14 +127,16 @@ export class WorkOrderTimelineService {
     oldStatus: string,
     newStatus: string,
     userId: string,
-    tenantId: string
+    tenantId: string,
+    details?: Record<string, any>
   ) {
     return this.addTimelineEntry({
       workOrderId,
       entityType: 'work_order',
       eventType: 'status_changed',
       title: `Status changed from "${oldStatus}" to "${newStatus}"`,
-      metadata: { oldValue: oldStatus, newValue: newStatus, fieldName: 'status' },
+      description: details?.notes,
+      metadata: { ...details, oldValue: oldStatus, newValue: newStatus, fieldName: 'status' },
       userId,
       tenantId,
     });
@@ -154,6 +178,24 @@ export class WorkOrderTimelineService {
     });
   }
 
+  static async logWorkOrderSlaBreached(
+    workOrderId: string,
+    timer: string,
+    policyName: string,
+    dueAt: Date,
+    tenantId: string
+  ) {
+    return this.addTimelineEntry({
+      workOrderId,
+      entityType: 'work_order',
+      eventType: 'sla_breached',
+      title: `${timer} target of "${policyName}" was breached`,
+      metadata: { timer, policyName, dueAt },
+      userId: 'system',
+      tenantId,
+    });
+  }
+
   static async logWorkOrderProgressUpdated(
     workOrderId: string,
     oldProgress: number,
@@ -0,0 +1,649 @@
+import { isValidObjectId } from "mongoose";
+import {
+  WorkOrderStatus,
+  type IWorkOrderStatus,
+  type IWorkOrderTransition,
+  type WorkOrderStatusCategory,
+  type WorkOrderTransitionRequirement,
+} from "../models/WorkOrderStatus";
+import { WorkOrder } from "../models/WorkOrder";
+import { Report } from "../models/Report";
+import { User } from "../models/User";
+import { HttpError } from "../middleware/http-error-middleware";
+import { WorkOrderTimelineService } from "./work-order-timeline-service";
+import { WebhookService } from "./webhook-service";
+import { InventoryService } from "./inventory-service";
+import { SlaService } from "./sla-service";
+
+// ----------------------------------------------------------------------
+
+export interface WorkOrderStatusInput {
+  key?: string;
+  name?: string;
+  description?: string;
+  color?: string;
+  category?: WorkOrderStatusCategory;
+  order?: number;
+  isInitial?: boolean;
+  isActive?: boolean;
+  transitions?: IWorkOrderTransition[];
+}
+
+export interface AvailableTransition {
+  to: string;
+  name: string;
+  color: string;
+  category: WorkOrderStatusCategory;
+  allowed: boolean;
+  missing: string[];
+  requirements: WorkOrderTransitionRequirement[];
+}
+
+// The workflow every tenant starts with. It allows every move task
+// progress can make, so tenants who never customise it see no change.
+const DEFAULT_WORK_ORDER_STATUSES: Array<{
+  key: WorkOrderStatusCategory;
+  name: string;
+  color: string;
+  to: WorkOrderStatusCategory[];
+}> = [
+  {
+    key: "created",
+    name: "Created",
+    color: "#919EAB",
+    to: ["assigned", "in-progress", "on-hold", "completed", "cancelled"],
+  },
+  {
+    key: "assigned",
+    name: "Assigned",
+    color: "#00B8D9",
+    to: ["created", "in-progress", "on-hold", "completed", "cancelled"],
+  },
+  {
+    key: "in-progress",
+    name: "In Progress",
+    color: "#FFAB00",
+    to: ["assigned", "on-hold", "completed", "cancelled"],
+  },
+  {
+    key: "on-hold",
+    name: "On Hold",
+    color: "#FF5630",
+    to: ["assigned", "in-progress", "completed", "cancelled"],
+  },
+  {
+    key: "completed",
+    name: "Completed",
+    color: "#22C55E",
+    to: ["assigned", "in-progress", "on-hold"],
+  },
+  {
+    key: "cancelled",
+    name: "Cancelled",
+    color: "#637381",
+    to: ["created"],
+  },
+];
+
+const REQUIREMENT_MESSAGES: Record<WorkOrderTransitionRequirement, string> = {
+  completionReport: "A completion report must be submitted",
+  report: "A report must be submitted",
+  personnel: "At least one technician must be assigned",
+  scheduledDate: "The work order must be scheduled",
+  tasksCompleted: "All tasks must be completed",
+  notes: "A note is required for this change",
+};
+
+// Report states that count as handed in
+const SUBMITTED_REPORT_STATUSES = [
+  "submitted",
+  "under_review",
+  "approved",
+  "published",
+];
+
+const PRIVILEGED_ROLES = ["admin", "superuser"];
+
+// Automatic changes made by task progress are recorded under this user
+export const SYSTEM_USER_ID = "system";
+
+// ----------------------------------------------------------------------
+
+export class WorkOrderWorkflowService {
+  /**
+   * Tenant statuses in board order, seeded with the default workflow on
+   * first use
+   */
+  static async listStatuses(
+    tenantId: string,
+    options: { includeInactive?: boolean } = {},
+  ): Promise<IWorkOrderStatus[]> {
+    let statuses = await WorkOrderStatus.find({ tenantId }).sort({
+      order: 1,
+      createdAt: 1,
+    });
+
+    if (statuses.length === 0) {
+      // Upserts, so two first requests at once both end up with one set
+      try {
+        await WorkOrderStatus.bulkWrite(
+          DEFAULT_WORK_ORDER_STATUSES.map((status, index) => ({
+            updateOne: {
+              filter: { tenantId, key: status.key },
+              update: {
+                $setOnInsert: {
+                  tenantId,
+                  key: status.key,
+                  name: status.name,
+                  color: status.color,
+                  category: status.key,
+                  order: index,
+                  isInitial: index === 0,
+                  isActive: true,
+                  transitions: status.to.map((to) => ({
+                    to,
+                    roles: [],
+                    requirements: [],
+                  })),
+                },
+              },
+              upsert: true,
+            },
+          })),
+          { ordered: false },
+        );
+      } catch (error: any) {
+        // A concurrent seed inserted the same keys first
+        const codes: number[] = error?.writeErrors?.map((e: any) => e.code) ?? [
+          error?.code,
+        ];
+        if (codes.some((code) => code !== 11000)) throw error;
+      }
+      statuses = await WorkOrderStatus.find({ tenantId }).sort({
+        order: 1,
+        createdAt: 1,
+      });
+    }
+
+    return options.includeInactive
+      ? statuses
+      : statuses.filter((status) => status.isActive);
+  }
+
+  static async createStatus(
+    tenantId: string,
+    data: WorkOrderStatusInput,
+  ): Promise<IWorkOrderStatus> {
+    const statuses = await this.listStatuses(tenantId, {
+      includeInactive: true,
+    });
+    if (statuses.some((status) => status.key === data.key)) {
+      throw new HttpError(
+        409,
+        `A status with key "${data.key}" already exists`,
+      );
+    }
+    this.assertTransitionTargets(
+      [...statuses.map((status) => status.key), data.key!],
+      data.transitions,
+    );
+
+    if (data.isInitial) await this.clearInitial(tenantId);
+
+    return WorkOrderStatus.create({
+      ...data,
+      tenantId,
+      order: data.order ?? statuses.length,
+    });
+  }
+
+  /**
+   * Keys are fixed once created because work orders and history refer
+   * to them
+   */
+  static async updateStatus(
+    tenantId: string,
+    id: string,
+    data: WorkOrderStatusInput,
+  ): Promise<IWorkOrderStatus> {
+    const status = await WorkOrderStatus.findOne({ _id: id, tenantId });
+    if (!status) {
+      throw new HttpError(404, "Work order status not found");
+    }
+
+    const statuses = await this.listStatuses(tenantId, {
+      includeInactive: true,
+    });
+    this.assertTransitionTargets(
+      statuses.map((item) => item.key),
+      data.transitions,
+    );
+
+    if (data.category && data.category !== status.category) {
+      const inUse = await WorkOrder.exists({
+        tenantId,
+        workflowStatus: status.key,
+      });
+      if (inUse) {
+        throw new HttpError(
+          409,
+          "The category can't change while work orders are in this status",
+        );
+      }
+    }
+    if (status.isInitial && data.isActive === false) {
+      throw new HttpError(409, "The initial status can't be deactivated");
+    }
+    if (data.isInitial && !status.isInitial) {
+      await this.clearInitial(tenantId);
+    }
+
+    const { key: _key, ...changes } = data;
+    status.set(changes);
+    await status.save();
+    return status;
+  }
+
+  static async deleteStatus(tenantId: string, id: string): Promise<void> {
+    const status = await WorkOrderStatus.findOne({ _id: id, tenantId });
+    if (!status) {
+      throw new HttpError(404, "Work order status not found");
+    }
+    if (status.isInitial) {
+      throw new HttpError(409, "The initial status can't be deleted");
+    }
+
+    const inUse = await WorkOrder.exists({
+      tenantId,
+      workflowStatus: status.key,
+    });
+    if (inUse) {
+      throw new HttpError(
+        409,
+        "Work orders are still in this status. Move them or deactivate the status instead.",
+      );
+    }
+
+    await status.deleteOne();
+    await WorkOrderStatus.updateMany(
+      { tenantId },
+      { $pull: { transitions: { to: status.key } } },
+    );
+  }
+
+  static async getInitialStatus(tenantId: string): Promise<IWorkOrderStatus> {
+    const statuses = await this.listStatuses(tenantId);
+    return statuses.find((status) => status.isInitial) || statuses[0];
+  }
+
+  /**
+   * The workflow status a work order is in. Work orders created before
+   * workflows, or moved by the system, fall back to the first status of
+   * their category.
+   */
+  static resolveCurrent(
+    workOrder: { status: string; workflowStatus?: string },
+    statuses: IWorkOrderStatus[],
+  ): IWorkOrderStatus | undefined {
+    return (
+      statuses.find(
+        (status) =>
+          status.key === workOrder.workflowStatus &&
+          status.category === workOrder.status,
+      ) || statuses.find((status) => status.category === workOrder.status)
+    );
+  }
+
+  /**
+   * Apply a status sent with a general work order update. Older clients
+   * send the built-in `status`, which maps to a reachable status of that
+   * category. Unchanged statuses are ignored.
+   */
+  static async applyRequestedStatus(
+    tenantId: string,
+    workOrder: { _id: any; status: string; workflowStatus?: string },
+    requested: { status?: string; workflowStatus?: string },
+    userId: string,
+    notes?: string,
+  ) {
+    const statuses = await this.listStatuses(tenantId);
+    const current = this.resolveCurrent(workOrder, statuses);
+
+    let toKey = requested.workflowStatus;
+    if (!toKey && requested.status && requested.status !== workOrder.status) {
+      const inCategory = statuses.filter(
+        (status) => status.category === requested.status,
+      );
+      const reachable = inCategory.find((status) =>
+        current?.transitions.some((transition) => transition.to === status.key),
+      );
+      toKey = (reachable || inCategory[0])?.key;
+      if (!toKey) {
+        throw new HttpError(
+          400,
+          `Unknown work order status "${requested.status}"`,
+        );
+      }
+    }
+    if (!toKey || toKey === current?.key) return null;
+
+    return this.transition(
+      tenantId,
+      workOrder._id.toString(),
+      toKey,
+      userId,
+      notes,
+    );
+  }
+
+  /**
+   * Statuses reachable from the work order's current status, with whether
+   * the user may take each one now and what is still missing
+   */
+  static async getTransitions(
+    tenantId: string,
+    workOrderId: string,
+    userId: string,
+  ) {
+    const workOrder = await this.findWorkOrder(tenantId, workOrderId);
+    const statuses = await this.listStatuses(tenantId);
+    const current = this.resolveCurrent(workOrder, statuses);
+    const canUseRole = await this.roleChecker(userId);
+
+    const transitions: AvailableTransition[] = [];
+    for (const transition of current?.transitions || []) {
+      const target = statuses.find((status) => status.key === transition.to);
+      if (!target) continue;
+
+      const missing = await this.checkRequirements(
+        tenantId,
+        workOrder,
+        transition.requirements.filter((item) => item !== "notes"),
+      );
+      if (!canUseRole(transition.roles)) {
+        missing.unshift("Your role can't make this change");
+      }
+
+      transitions.push({
+        to: target.key,
+        name: target.name,
+        color: target.color,
+        category: target.category,
+        allowed: missing.length === 0,
+        missing,
+        requirements: transition.requirements,
+      });
+    }
+
+    return { current, transitions };
+  }
+
+  /**
+   * Move a work order to another status, enforcing the tenant workflow
+   */
+  static async transition(
+    tenantId: string,
+    workOrderId: string,
+    toKey: string,
+    userId: string,
+    notes?: string,
+  ) {
+    const workOrder = await this.findWorkOrder(tenantId, workOrderId);
+    const statuses = await this.listStatuses(tenantId);
+    const current = this.resolveCurrent(workOrder, statuses);
+    const target = statuses.find((status) => status.key === toKey);
+    if (!target) {
+      throw new HttpError(400, `Unknown work order status "${toKey}"`);
+    }
+    if (current?.key === target.key) {
+      throw new HttpError(409, `Work order is already ${target.name}`);
+    }
+
+    const transition = current?.transitions.find((item) => item.to === toKey);
+    if (!transition) {
+      throw new HttpError(
+        409,
+        `Work orders can't move from ${current?.name || workOrder.status} to ${target.name}`,
+      );
+    }
+
+    const canUseRole = await this.roleChecker(userId);
+    if (!canUseRole(transition.roles)) {
+      throw new HttpError(
+        403,
+        `Your role can't move work orders to ${target.name}`,
+      );
+    }
+
+    const missing = await this.checkRequirements(
+      tenantId,
+      workOrder,
+      transition.requirements,
+      notes,
+    );
+    if (missing.length > 0) {
+      throw new HttpError(422, missing.join(". "));
+    }
+
+    this.applyStatus(workOrder, target, userId, notes);
+    await workOrder.save();
+    await this.afterStatusChange(
+      tenantId,
+      workOrder,
+      current,
+      target,
+      userId,
+      notes,
+    );
+
+    return workOrder;
+  }
+
+  /**
+   * Follow a status change implied by other work (task progress, dispatch
+   * scheduling), but only along a transition the workflow allows with its
+   * requirements met. Role limits don't apply to these moves. Returns the
+   * previous and new status when the work order moved; the caller saves
+   * it and then calls afterStatusChange.
+   */
+  static async applyAutomaticStatus(
+    workOrder: any,
+    category: WorkOrderStatusCategory,
+    userId: string = SYSTEM_USER_ID,
+    notes = "Updated from task progress",
+  ): Promise<{ from?: IWorkOrderStatus; to: IWorkOrderStatus } | null> {
+    if (workOrder.status === category) return null;
+
+    const tenantId = workOrder.tenantId.toString();
+    const statuses = await this.listStatuses(tenantId);
+    const current = this.resolveCurrent(workOrder, statuses);
+
+    for (const transition of current?.transitions || []) {
+      const target = statuses.find((status) => status.key === transition.to);
+      if (!target || target.category !== category) continue;
+      if (transition.requirements.includes("notes")) continue;
+
+      const missing = await this.checkRequirements(
+        tenantId,
+        workOrder,
+        transition.requirements,
+      );
+      if (missing.length > 0) continue;
+
+      this.applyStatus(workOrder, target, userId, notes);
+      return { from: current, to: target };
+    }
+
+    return null;
+  }
+
+  /**
+   * Timeline entry, stock reservations, SLA timers and webhook for a
+   * status change that has been saved
+   */
+  static async afterStatusChange(
+    tenantId: string,
+    workOrder: any,
+    from: IWorkOrderStatus | undefined,
+    to: IWorkOrderStatus,
+    userId: string,
+    notes?: string,
+  ) {
+    const workOrderId = workOrder._id.toString();
+
+    await WorkOrderTimelineService.logWorkOrderStatusChanged(
+      workOrderId,
+      from?.name || workOrder.status,
+      to.name,
+      userId,
+      tenantId,
+      {
+        oldStatusKey: from?.key,
+        newStatusKey: to.key,
+        oldCategory: from?.category,
+        newCategory: to.category,
+        notes,
+      },
+    );
+
+    if (from?.category !== to.category) {
+      try {
+        await InventoryService.syncWorkOrderReservations(tenantId, workOrderId);
+      } catch (error) {
+        console.error("Error updating stock reservations:", error);
+      }
+    }
+
+    await SlaService.syncWorkOrder(tenantId, workOrderId);
+
+    const changedAt: Date =
+      workOrder.history?.[workOrder.history.length - 1]?.timestamp ??
+      new Date();
+
+    await WebhookService.triggerWebhooks(
+      tenantId,
+      "work_order.status_changed",
+      {
+        workOrder: {
+          _id: workOrder._id,
+          workOrderNumber: workOrder.workOrderNumber,
+          title: workOrder.title,
+          status: workOrder.status,
+          workflowStatus: workOrder.workflowStatus,
+        },
+        previousStatus: from
+          ? { key: from.key, name: from.name, category: from.category }
+          : null,
+        status: { key: to.key, name: to.name, category: to.category },
+        changedBy: userId,
+        notes,
+      },
+      // One event per transition, keyed by the history entry it recorded
+      `${workOrderId}:status:${to.key}:${changedAt.getTime()}`,
+    );
+  }
+
+  private static applyStatus(
+    workOrder: any,
+    target: IWorkOrderStatus,
+    userId: string,
+    notes?: string,
+  ) {
+    workOrder.status = target.category;
+    workOrder.workflowStatus = target.key;
+    workOrder.history.push({
+      status: target.category,
+      workflowStatus: target.key,
+      timestamp: new Date(),
+      userId,
+      notes: notes?.trim() || undefined,
+    });
+  }
+
+  private static async checkRequirements(
+    tenantId: string,
+    workOrder: any,
+    requirements: WorkOrderTransitionRequirement[],
+    notes?: string,
+  ): Promise<string[]> {
+    const missing: string[] = [];
+
+    for (const requirement of requirements) {
+      let met = true;
+      switch (requirement) {
+        case "completionReport":
+        case "report":
+          met = !!(await Report.exists({
+            tenantId,
+            workOrderId: workOrder._id,
+            status: { $in: SUBMITTED_REPORT_STATUSES },
+            ...(requirement === "completionReport"
+              ? { type: "completion" }
+              : {}),
+          }));
+          break;
+        case "personnel":
+          met = (workOrder.personnelIds?.length || 0) > 0;
+          break;
+        case "scheduledDate":
+          met = !!workOrder.scheduledDate;
+          break;
+        case "tasksCompleted":
+          met = (workOrder.tasksCompleted || 0) >= (workOrder.tasksTotal || 0);
+          break;
+        case "notes":
+          met = !!notes?.trim();
+          break;
+        default:
+          break;
+      }
+      if (!met) missing.push(REQUIREMENT_MESSAGES[requirement]);
+    }
+
+    return missing;
+  }
+
+  /**
+   * Admins and tenant owners may take any transition
+   */
+  private static async roleChecker(userId: string) {
+    const user = isValidObjectId(userId)
+      ? await User.findById(userId).select("role isTenantOwner").lean<any>()
+      : null;
+    const privileged =
+      !!user?.isTenantOwner || PRIVILEGED_ROLES.includes(user?.role);
+
+    return (roles: string[]) =>
+      privileged || roles.length === 0 || roles.includes(user?.role);
+  }
+
+  private static async findWorkOrder(tenantId: string, workOrderId: string) {
+    const workOrder = await WorkOrder.findOne({ _id: workOrderId, tenantId });
+    if (!workOrder) {
+      throw new HttpError(404, "Work order not found");
+    }
+    return workOrder;
+  }
+
+  private static assertTransitionTargets(
+    keys: string[],
+    transitions?: IWorkOrderTransition[],
+  ) {
+    const unknown = (transitions || [])
+      .map((transition) => transition.to)
+      .filter((to) => !keys.includes(to));
+    if (unknown.length > 0) {
+      throw new HttpError(
+        400,
+        `Transitions point to unknown statuses: ${unknown.join(", ")}`,
+      );
+    }
+  }
+
+  private static async clearInitial(tenantId: string) {
+    await WorkOrderStatus.updateMany(
+      { tenantId, isInitial: true },
+      { $set: { isInitial: false } },
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { FastifyRequest } from "fastify";
+
+// ----------------------------------------------------------------------
+
+/**
+ * Optimistic concurrency helpers for writes replayed from offline clients
+ */
+
+export const BASE_UPDATED_AT_HEADER = "x-base-updated-at";
+
+/**
+ * True when the client edited a copy of the document that has since been
+ * changed on the server. Requests without the header always pass.
+ */
+export function isStaleWrite(
+  request: FastifyRequest,
+  updatedAt?: Date | null,
+): boolean {
+  const header = request.headers[BASE_UPDATED_AT_HEADER];
+  const value = Array.isArray(header) ? header[0] : header;
+  if (!value || !updatedAt) return false;
+
+  const base = new Date(value);
+  if (Number.isNaN(base.getTime())) return false;
+
+  return updatedAt.getTime() > base.getTime();
+}
@@ -0,0 +1,183 @@
+import { isValidObjectId, type Model } from "mongoose";
+import { z } from "zod";
+import { HttpError } from "../middleware/http-error-middleware";
+
+// ----------------------------------------------------------------------
+
+/**
+ * Keyset pagination over (updatedAt, _id) for clients that keep a local copy
+ * in sync. Records come back oldest change first; the cursor of the last page
+ * resumes the sync later and only picks up what changed since.
+ */
+
+export const MAX_PAGE_SIZE = 100;
+
+export const listQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1).describe("Page number"),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .default(50)
+    .transform((value) => Math.min(value, MAX_PAGE_SIZE))
+    .describe(`Items per page, at most ${MAX_PAGE_SIZE}`),
+  cursor: z
+    .string()
+    .optional()
+    .describe(
+      "nextCursor of the previous page; send it empty to start a cursor listing",
+    ),
+  updatedSince: z.coerce
+    .date({ error: "updatedSince must be an ISO date" })
+    .optional()
+    .describe("Only records changed at or after this time"),
+});
+
+export type ListQuery = z.infer<typeof listQuerySchema>;
+
+type CursorPosition = { updatedAt: Date; id: string };
+
+export interface CursorPagination {
+  limit: number;
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export interface PagePagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+// ----------------------------------------------------------------------
+
+export function encodeCursor(position: CursorPosition): string {
+  return Buffer.from(
+    JSON.stringify({ u: position.updatedAt.getTime(), i: position.id }),
+  ).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): CursorPosition {
+  try {
+    const { u, i } = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8"),
+    );
+    if (typeof u === "number" && isValidObjectId(i)) {
+      return { updatedAt: new Date(u), id: String(i) };
+    }
+  } catch {
+    // Falls through to the error below
+  }
+  throw new HttpError(400, "Invalid cursor");
+}
+
+/**
+ * Parse list query parameters, throwing a 400 for bad values
+ */
+export function parseListQuery(query: unknown): ListQuery {
+  const parsed = listQuerySchema.safeParse(query || {});
+  if (!parsed.success) {
+    throw new HttpError(
+      400,
+      parsed.error.issues[0]?.message || "Invalid query",
+    );
+  }
+  return parsed.data;
+}
+
+// ----------------------------------------------------------------------
+
+interface PaginateOptions {
+  filter: Record<string, any>;
+  // Order used when paging by number
+  sort: Record<string, 1 | -1>;
+  select?: string;
+  populate?: { path: string; select: string }[];
+}
+
+/**
+ * Run a list query from the request's query string. Sending `cursor` (empty
+ * for the first page) or `updatedSince` switches to cursor pagination;
+ * otherwise the list is paged by number as before.
+ */
+export async function paginate<T = any>(
+  model: Model<any>,
+  rawQuery: unknown,
+  options: PaginateOptions,
+): Promise<{
+  items: T[];
+  pagination: CursorPagination | PagePagination;
+}> {
+  const raw = (rawQuery || {}) as Record<string, unknown>;
+  const cursorMode = raw.cursor !== undefined || raw.updatedSince !== undefined;
+  const query = parseListQuery(raw);
+  const { select, populate = [] } = options;
+  const filter: Record<string, any> = { ...options.filter };
+
+  if (query.updatedSince) {
+    filter.updatedAt = { $gte: query.updatedSince };
+  }
+
+  if (!cursorMode) {
+    const skip = (query.page - 1) * query.limit;
+    let find = model
+      .find(filter)
+      .sort(options.sort)
+      .skip(skip)
+      .limit(query.limit);
+    if (select) find = find.select(select);
+    populate.forEach((item) => (find = find.populate(item)));
+
+    const [items, total] = await Promise.all([
+      find.lean<T[]>(),
+      model.countDocuments(filter),
+    ]);
+
+    return {
+      items,
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        pages: Math.ceil(total / query.limit),
+      },
+    };
+  }
+
+  if (query.cursor) {
+    const after = decodeCursor(query.cursor);
+    filter.$and = [
+      ...(filter.$and || []),
+      {
+        $or: [
+          { updatedAt: { $gt: after.updatedAt } },
+          { updatedAt: after.updatedAt, _id: { $gt: after.id } },
+        ],
+      },
+    ];
+  }
+
+  // One extra row tells whether another page follows
+  let find = model
+    .find(filter)
+    .sort({ updatedAt: 1, _id: 1 })
+    .limit(query.limit + 1);
+  if (select) find = find.select(select);
+  populate.forEach((item) => (find = find.populate(item)));
+
+  const rows = await find.lean<T[]>();
+  const hasMore = rows.length > query.limit;
+  const items = hasMore ? rows.slice(0, query.limit) : rows;
+
+  // An empty page hands the cursor back so the client can retry later
+  const last = items[items.length - 1] as any;
+  const nextCursor = last
+    ? encodeCursor({ updatedAt: last.updatedAt, id: String(last._id) })
+    : query.cursor || null;
+
+  return {
+    items,
+    pagination: { limit: query.limit, nextCursor, hasMore },
+  };
+}
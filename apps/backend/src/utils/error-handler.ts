@@ -1,6 +1,7 @@
-import { FastifyReply } from "fastify";
+import { FastifyBaseLogger, FastifyReply } from "fastify";
 import { z } from "zod";
 import { MessageKey, VALIDATION_MESSAGES, SERVER_MESSAGES } from "../constants/error-messages";
+import { HttpError } from "../middleware/http-error-middleware";
 
 /**
  * Standard API response structure
@@ -49,6 +50,33 @@ export function handleError(
   }
 }
 
+/**
+ * Handle errors thrown from services: validation errors, HttpErrors carrying
+ * their own status code, and anything else as a logged 500
+ */
+export function handleServiceError(
+  error: unknown,
+  reply: FastifyReply,
+  fallbackMessage: string,
+  log: FastifyBaseLogger
+): void {
+  if (handleZodError(error, reply)) return;
+
+  if (error instanceof HttpError) {
+    reply.status(error.statusCode).send({
+      success: false,
+      message: error.message,
+    } as ApiResponse);
+    return;
+  }
+
+  log.error(error as Error, fallbackMessage);
+  reply.status(500).send({
+    success: false,
+    message: fallbackMessage,
+  } as ApiResponse);
+}
+
 /**
  * Send standardized error response with i18n key
  */
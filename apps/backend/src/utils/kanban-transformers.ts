@@ -30,6 +30,7 @@ export interface IKanbanTask {
   workOrderId?: string;
   workOrderNumber?: string;
   workOrderTitle?: string;
+  assetId?: string;
   attachments?: any[];
   comments?: any[];
   subtasks?: any[];
@@ -212,6 +213,7 @@ export function transformTaskToKanbanTask(
       workOrderNumber: task.workOrderNumber || workOrder?.workOrderNumber,
       workOrderTitle: (task as any).workOrderTitle || workOrder?.title,
     }),
+    ...(task.assetId && { assetId: task.assetId.toString() }),
     completeStatus: (task as any).completeStatus || false,
     createdAt: task.createdAt?.toISOString(),
     updatedAt: task.updatedAt?.toISOString(),
@@ -0,0 +1,277 @@
+import { z } from "zod";
+
+// ----------------------------------------------------------------------
+
+/**
+ * Builds an OpenAPI 3.1 document from the zod schemas the routes validate
+ * with, so the published spec cannot drift from what the API accepts
+ */
+
+export interface OpenApiOperation {
+  summary: string;
+  description?: string;
+  tag: string;
+  // API key permission the route requires
+  permission?: string;
+  query?: z.ZodObject<any>;
+  body?: z.ZodType;
+  // Named schema from `components` returned as `data`
+  resource?: string;
+  // List routes return `data[listKey]` with pagination
+  listKey?: string;
+  status?: number;
+}
+
+export interface OpenApiRoute extends OpenApiOperation {
+  method: string;
+  path: string;
+}
+
+export interface OpenApiInfo {
+  title: string;
+  version: string;
+  description: string;
+  serverUrl: string;
+}
+
+const MUTATING_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+
+// Dates travel as ISO strings; everything else maps one to one
+const toJsonSchema = (schema: z.ZodType, io: "input" | "output") => {
+  const { $schema: _draft, ...jsonSchema } = z.toJSONSchema(schema, {
+    target: "draft-2020-12",
+    io,
+    unrepresentable: "any",
+    override: (ctx) => {
+      if ((ctx.zodSchema as any)._zod.def.type === "date") {
+        ctx.jsonSchema.type = "string";
+        ctx.jsonSchema.format = "date-time";
+      }
+    },
+  });
+  return jsonSchema as Record<string, any>;
+};
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const envelope = (data: Record<string, any>) => ({
+  type: "object",
+  properties: { success: { const: true }, data },
+  required: ["success"],
+});
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: ref("Error") } },
+});
+
+// ----------------------------------------------------------------------
+
+function buildParameters(route: OpenApiRoute) {
+  const parameters: Record<string, any>[] = [];
+
+  for (const [, name] of route.path.matchAll(/:(\w+)/g)) {
+    parameters.push({
+      name,
+      in: "path",
+      required: true,
+      schema: { type: "string" },
+    });
+  }
+
+  if (route.query) {
+    const { properties = {}, required = [] } = toJsonSchema(
+      route.query,
+      "input",
+    );
+    Object.entries<Record<string, any>>(properties).forEach(
+      ([name, { description, ...schema }]) => {
+        parameters.push({
+          name,
+          in: "query",
+          required: required.includes(name),
+          ...(description && { description }),
+          schema,
+        });
+      },
+    );
+  }
+
+  if (MUTATING_METHODS.has(route.method)) {
+    parameters.push({
+      name: "Idempotency-Key",
+      in: "header",
+      required: false,
+      description:
+        "Retries with the same key and body replay the first response for 24 hours",
+      schema: { type: "string", maxLength: 255 },
+    });
+  }
+
+  return parameters;
+}
+
+function buildSuccessResponse(route: OpenApiRoute) {
+  const item = route.resource ? ref(route.resource) : { type: "object" };
+
+  let schema: Record<string, any> = envelope(item);
+  if (route.listKey) {
+    schema = envelope({
+      type: "object",
+      properties: {
+        [route.listKey]: { type: "array", items: item },
+        pagination: {
+          oneOf: [ref("PagePagination"), ref("CursorPagination")],
+        },
+      },
+    });
+  } else if (route.method === "DELETE") {
+    schema = envelope({ type: "object" });
+  }
+
+  return {
+    description: "Success",
+    ...(MUTATING_METHODS.has(route.method) && {
+      headers: {
+        "Idempotent-Replayed": {
+          description:
+            "Set when the response is a replay of an earlier request",
+          schema: { type: "string" },
+        },
+      },
+    }),
+    content: { "application/json": { schema } },
+  };
+}
+
+function buildOperation(route: OpenApiRoute) {
+  const description = [
+    route.description,
+    route.permission && `Requires the \`${route.permission}\` permission.`,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  return {
+    operationId: operationId(route),
+    summary: route.summary,
+    ...(description && { description }),
+    tags: [route.tag],
+    ...(route.permission && { "x-permission": route.permission }),
+    security: [{ bearerAuth: [] }],
+    parameters: buildParameters(route),
+    ...(route.body && {
+      requestBody: {
+        required: true,
+        content: {
+          "application/json": { schema: toJsonSchema(route.body, "input") },
+        },
+      },
+    }),
+    responses: {
+      [String(route.status ?? 200)]: buildSuccessResponse(route),
+      "400": errorResponse("Invalid request"),
+      "401": errorResponse("Missing or invalid API key"),
+      "403": errorResponse("The API key lacks the required permission"),
+      ...(route.path.includes(":") && {
+        "404": errorResponse("Not found"),
+      }),
+      ...(MUTATING_METHODS.has(route.method) && {
+        "409": errorResponse("Conflict, or the Idempotency-Key is in use"),
+        "422": errorResponse("Idempotency-Key reused for a different request"),
+      }),
+      "429": errorResponse("Rate limit exceeded"),
+    },
+  };
+}
+
+// e.g. GET /work-orders/:id -> getWorkOrdersById
+function operationId(route: OpenApiRoute) {
+  const words = route.path
+    .split("/")
+    .filter(Boolean)
+    .map((segment) =>
+      segment.startsWith(":") ? `by-${segment.slice(1)}` : segment,
+    )
+    .join("-")
+    .split("-");
+  return (
+    route.method.toLowerCase() +
+    words.map((word) => word[0].toUpperCase() + word.slice(1)).join("")
+  );
+}
+
+// ----------------------------------------------------------------------
+
+export function buildOpenApiDocument(
+  info: OpenApiInfo,
+  routes: OpenApiRoute[],
+  resources: Record<string, z.ZodType>,
+) {
+  const paths: Record<string, Record<string, any>> = {};
+
+  routes.forEach((route) => {
+    const path = route.path.replace(/:(\w+)/g, "{$1}");
+    paths[path] = {
+      ...paths[path],
+      [route.method.toLowerCase()]: buildOperation(route),
+    };
+  });
+
+  const schemas: Record<string, any> = {
+    Error: {
+      type: "object",
+      properties: {
+        success: { const: false },
+        error: { type: "string" },
+        message: { type: "string" },
+      },
+    },
+    PagePagination: {
+      type: "object",
+      properties: {
+        page: { type: "integer" },
+        limit: { type: "integer" },
+        total: { type: "integer" },
+        pages: { type: "integer" },
+      },
+      required: ["page", "limit", "total", "pages"],
+    },
+    CursorPagination: {
+      type: "object",
+      properties: {
+        limit: { type: "integer" },
+        nextCursor: { type: ["string", "null"] },
+        hasMore: { type: "boolean" },
+      },
+      required: ["limit", "nextCursor", "hasMore"],
+    },
+  };
+  Object.entries(resources).forEach(([name, schema]) => {
+    schemas[name] = toJsonSchema(schema, "output");
+  });
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: info.title,
+      version: info.version,
+      description: info.description,
+    },
+    servers: [{ url: info.serverUrl }],
+    tags: [...new Set(routes.map((route) => route.tag))].map((name) => ({
+      name,
+    })),
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: "http",
+          scheme: "bearer",
+          description: "An API key created under Settings > API Keys",
+        },
+      },
+      schemas,
+    },
+  };
+}
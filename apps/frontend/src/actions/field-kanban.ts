@@ -1,7 +1,9 @@
 import type { SWRConfiguration } from 'swr';
 
 import useSWR from 'swr';
-import { useMemo, useCallback } from 'react';
+import { useMemo, useState, useEffect, useCallback } from 'react';
+
+import { useAuthContext } from 'src/auth/hooks';
 
 import { fetcher, endpoints } from '../lib/axios';
 
@@ -9,6 +11,12 @@ import { fetcher, endpoints } from '../lib/axios';
 
 const KANBAN_ENDPOINT = endpoints.kanban;
 
+// Last board seen per URL, so assigned work stays readable offline. Kept
+// per tenant and user so a shared device never shows someone else's tasks.
+const BOARD_CACHE_KEY = 'fsa_offline_board';
+
+const boardCacheKey = (owner: string) => `${BOARD_CACHE_KEY}:${owner}`;
+
 const swrOptions: SWRConfiguration = {
   revalidateIfStale: true,
   revalidateOnFocus: true,
@@ -24,14 +32,75 @@ type BoardData = {
   };
 };
 
+type CachedBoard = {
+  savedAt: number;
+  data: BoardData;
+};
+
+const readCachedBoards = (owner: string): Record<string, CachedBoard> => {
+  try {
+    const stored = localStorage.getItem(boardCacheKey(owner));
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+};
+
+const storeCachedBoard = (owner: string, url: string, data: BoardData) => {
+  try {
+    localStorage.setItem(
+      boardCacheKey(owner),
+      JSON.stringify({ ...readCachedBoards(owner), [url]: { savedAt: Date.now(), data } })
+    );
+  } catch (error) {
+    console.warn('Failed to store board for offline use:', error);
+  }
+};
+
+/**
+ * Drop every stored board, for all users, when the session ends
+ */
+export const clearCachedBoards = (): void => {
+  try {
+    Object.keys(localStorage)
+      .filter((key) => key === BOARD_CACHE_KEY || key.startsWith(`${BOARD_CACHE_KEY}:`))
+      .forEach((key) => localStorage.removeItem(key));
+  } catch (error) {
+    console.warn('Failed to clear offline boards:', error);
+  }
+};
+
 export function useGetFieldBoard(myTasksOnly = false) {
   // Use the kanban endpoint with optional "my tasks" filtering for field environment
   const url = myTasksOnly ? `${KANBAN_ENDPOINT}?assignedToMe=true` : KANBAN_ENDPOINT;
 
-  const { data, isLoading, error, isValidating, mutate } = useSWR<BoardData>(url, fetcher, {
+  const { user } = useAuthContext();
+  const userId = user?.id || user?._id;
+  const owner = user && userId ? `${user.tenantId}:${userId}` : null;
+
+  const {
+    data: liveData,
+    isLoading,
+    error,
+    isValidating,
+    mutate,
+  } = useSWR<BoardData>(url, fetcher, {
     ...swrOptions,
+    onSuccess: (board) => {
+      if (owner) storeCachedBoard(owner, url, board);
+    },
   });
 
+  // Read after mount so server and client render the same markup
+  const [cached, setCached] = useState<CachedBoard | null>(null);
+  useEffect(() => {
+    setCached(owner ? readCachedBoards(owner)[url] || null : null);
+  }, [owner, url]);
+
+  // Fall back to the stored board when it can't be fetched
+  const data = liveData ?? cached?.data;
+  const isCached = !liveData && !!cached;
+
   const memoizedValue = useMemo(() => {
     const rawTasks = Array.isArray(data?.data?.board?.tasks) ? data.data.board.tasks : [];
     const rawColumns = Array.isArray(data?.data?.board?.columns) ? data.data.board.columns : [];
@@ -57,12 +126,21 @@ export function useGetFieldBoard(myTasksOnly = false) {
 
     return {
       board: { tasks, columns },
-      boardLoading: isLoading,
-      boardError: error,
+      boardLoading: isLoading && !isCached,
+      boardError: isCached ? undefined : error,
       boardValidating: isValidating,
       boardEmpty: !isLoading && !isValidating && !columns.length,
+      boardCachedAt: isCached ? cached!.savedAt : null,
     };
-  }, [data?.data?.board?.columns, data?.data?.board?.tasks, error, isLoading, isValidating]);
+  }, [
+    data?.data?.board?.columns,
+    data?.data?.board?.tasks,
+    error,
+    isLoading,
+    isValidating,
+    isCached,
+    cached,
+  ]);
 
   const refreshBoard = useCallback(() => mutate(), [mutate]);
 
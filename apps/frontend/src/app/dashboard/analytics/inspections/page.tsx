@@ -0,0 +1,15 @@
+import type { Metadata } from 'next';
+
+import { CONFIG } from 'src/global-config';
+
+import { InspectionAnalyticsView } from 'src/sections/fsa/inspections/inspection-analytics-view';
+
+// ----------------------------------------------------------------------
+
+export const metadata: Metadata = {
+  title: `Inspections | Analytics - ${CONFIG.appName}`,
+};
+
+export default function Page() {
+  return <InspectionAnalyticsView />;
+}
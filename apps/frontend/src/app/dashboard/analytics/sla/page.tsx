@@ -0,0 +1,15 @@
+import type { Metadata } from 'next';
+
+import { CONFIG } from 'src/global-config';
+
+import { SlaComplianceView } from 'src/sections/fsa/sla/sla-compliance-view';
+
+// ----------------------------------------------------------------------
+
+export const metadata: Metadata = {
+  title: `SLA Compliance | Analytics - ${CONFIG.appName}`,
+};
+
+export default function Page() {
+  return <SlaComplianceView />;
+}
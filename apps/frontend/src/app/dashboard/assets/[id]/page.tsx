@@ -0,0 +1,18 @@
+import type { Metadata } from 'next';
+
+import { CONFIG } from 'src/global-config';
+
+import { AssetDetailsView } from 'src/sections/fsa/asset/view/asset-details-view';
+
+// ----------------------------------------------------------------------
+
+type Props = {
+  params: Promise<{ id: string }>;
+};
+
+export const metadata: Metadata = { title: `Asset Details - ${CONFIG.appName}` };
+
+export default async function Page({ params }: Props) {
+  const { id } = await params;
+  return <AssetDetailsView id={id} />;
+}
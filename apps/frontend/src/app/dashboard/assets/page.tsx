@@ -0,0 +1,14 @@
+import type { Metadata } from 'next';
+
+import { AssetListView } from 'src/sections/fsa/asset/view/asset-list-view';
+
+// ----------------------------------------------------------------------
+
+export const metadata: Metadata = {
+  title: 'Assets',
+  description: 'Client equipment and its service history',
+};
+
+export default function AssetsListPage() {
+  return <AssetListView />;
+}
@@ -0,0 +1,14 @@
+import type { Metadata } from 'next';
+
+import { ContractListView } from 'src/sections/fsa/contract/view/contract-list-view';
+
+// ----------------------------------------------------------------------
+
+export const metadata: Metadata = {
+  title: 'Service Contracts',
+  description: 'Maintenance agreements that schedule recurring work orders',
+};
+
+export default function ContractsListPage() {
+  return <ContractListView />;
+}
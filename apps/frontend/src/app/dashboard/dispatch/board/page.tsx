@@ -0,0 +1,14 @@
+import type { Metadata } from 'next';
+
+import { DispatchBoardView } from 'src/sections/fsa/dispatch/view/dispatch-board-view';
+
+// ----------------------------------------------------------------------
+
+export const metadata: Metadata = {
+  title: 'Dispatch Board',
+  description: 'Schedule work orders on technician lanes',
+};
+
+export default function DispatchBoardPage() {
+  return <DispatchBoardView />;
+}
@@ -0,0 +1,14 @@
+import type { Metadata } from 'next';
+
+import { DispatchLiveView } from 'src/sections/fsa/dispatch/view/dispatch-live-view';
+
+// ----------------------------------------------------------------------
+
+export const metadata: Metadata = {
+  title: 'Live map',
+  description: 'Live technician locations and their active tasks',
+};
+
+export default function DispatchLivePage() {
+  return <DispatchLiveView />;
+}
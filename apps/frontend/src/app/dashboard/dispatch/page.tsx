@@ -0,0 +1,14 @@
+import type { Metadata } from 'next';
+
+import { DispatchPlannerView } from 'src/sections/fsa/dispatch/view/dispatch-planner-view';
+
+// ----------------------------------------------------------------------
+
+export const metadata: Metadata = {
+  title: 'Dispatch',
+  description: 'Plan the daily route of each technician',
+};
+
+export default function DispatchPage() {
+  return <DispatchPlannerView />;
+}
@@ -0,0 +1,14 @@
+import type { Metadata } from 'next';
+
+import { InvoiceListView } from 'src/sections/fsa/invoice/view/invoice-list-view';
+
+// ----------------------------------------------------------------------
+
+export const metadata: Metadata = {
+  title: 'Invoices',
+  description: 'Invoice completed work orders and approved reports',
+};
+
+export default function InvoicesListPage() {
+  return <InvoiceListView />;
+}
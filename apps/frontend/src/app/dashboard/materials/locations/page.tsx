@@ -0,0 +1,14 @@
+import type { Metadata } from 'next';
+
+import { StockLocationsView } from 'src/sections/fsa/materials/locations/view/stock-locations-view';
+
+// ----------------------------------------------------------------------
+
+export const metadata: Metadata = {
+  title: 'Stock Locations',
+  description: 'Manage warehouses and technician vans',
+};
+
+export default function StockLocationsPage() {
+  return <StockLocationsView />;
+}
@@ -0,0 +1,13 @@
+import type { Metadata } from 'next';
+
+import { AttendanceReviewView } from 'src/sections/fsa/personnel/attendance/attendance-review-view';
+
+// ----------------------------------------------------------------------
+
+export const metadata: Metadata = {
+  title: 'Attendance Review | Field Service Automation',
+};
+
+export default function AttendancePage() {
+  return <AttendanceReviewView />;
+}
@@ -0,0 +1,13 @@
+import type { Metadata } from 'next';
+
+import { TimesheetListView } from 'src/sections/fsa/personnel/timesheets/timesheet-list-view';
+
+// ----------------------------------------------------------------------
+
+export const metadata: Metadata = {
+  title: 'Timesheets | Field Service Automation',
+};
+
+export default function TimesheetsPage() {
+  return <TimesheetListView />;
+}
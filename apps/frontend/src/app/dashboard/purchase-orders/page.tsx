@@ -0,0 +1,14 @@
+import type { Metadata } from 'next';
+
+import { PurchaseOrderListView } from 'src/sections/fsa/purchase-order/view/purchase-order-list-view';
+
+// ----------------------------------------------------------------------
+
+export const metadata: Metadata = {
+  title: 'Purchase Orders',
+  description: 'Order materials from suppliers and receive deliveries into stock',
+};
+
+export default function PurchaseOrdersListPage() {
+  return <PurchaseOrderListView />;
+}
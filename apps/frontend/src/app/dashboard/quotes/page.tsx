@@ -0,0 +1,14 @@
+import type { Metadata } from 'next';
+
+import { QuoteListView } from 'src/sections/fsa/quote/view/quote-list-view';
+
+// ----------------------------------------------------------------------
+
+export const metadata: Metadata = {
+  title: 'Quotes',
+  description: 'Prepare quotes for clients and convert them into work orders',
+};
+
+export default function QuotesListPage() {
+  return <QuoteListView />;
+}
@@ -0,0 +1,13 @@
+import type { Metadata } from 'next';
+
+import { CONFIG } from 'src/global-config';
+
+import { InspectionFormsView } from 'src/sections/settings/inspection-forms/inspection-forms-view';
+
+// ----------------------------------------------------------------------
+
+export const metadata: Metadata = { title: `Inspection Forms | Dashboard - ${CONFIG.appName}` };
+
+export default function InspectionFormsPage() {
+  return <InspectionFormsView />;
+}
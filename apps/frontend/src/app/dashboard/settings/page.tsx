@@ -17,6 +17,7 @@ export default function SettingsLandingPage() {
       apiKeysHref={paths.dashboard.settings.apiKeys}
       smsRemindersHref={paths.dashboard.settings.smsReminders}
       companyHref={paths.dashboard.settings.company}
+      reportTemplatesHref={paths.dashboard.settings.reportTemplates}
       supportHref={paths.dashboard.settings.support}
     />
   );
@@ -0,0 +1,13 @@
+import type { Metadata } from 'next';
+
+import { CONFIG } from 'src/global-config';
+
+import { ReportTemplatesView } from 'src/sections/settings/report-templates/report-templates-view';
+
+// ----------------------------------------------------------------------
+
+export const metadata: Metadata = { title: `Report Templates | Dashboard - ${CONFIG.appName}` };
+
+export default function ReportTemplatesPage() {
+  return <ReportTemplatesView />;
+}
@@ -0,0 +1,13 @@
+import type { Metadata } from 'next';
+
+import { CONFIG } from 'src/global-config';
+
+import { SlaPoliciesView } from 'src/sections/settings/sla-policies/sla-policies-view';
+
+// ----------------------------------------------------------------------
+
+export const metadata: Metadata = { title: `SLA Policies | Dashboard - ${CONFIG.appName}` };
+
+export default function SlaPoliciesPage() {
+  return <SlaPoliciesView />;
+}
@@ -0,0 +1,13 @@
+import type { Metadata } from 'next';
+
+import { CONFIG } from 'src/global-config';
+
+import { WorkOrderStatusesView } from 'src/sections/settings/work-order-statuses/work-order-statuses-view';
+
+// ----------------------------------------------------------------------
+
+export const metadata: Metadata = { title: `Work Order Statuses | Dashboard - ${CONFIG.appName}` };
+
+export default function WorkOrderStatusesPage() {
+  return <WorkOrderStatusesView />;
+}
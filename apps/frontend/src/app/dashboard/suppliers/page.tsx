@@ -0,0 +1,14 @@
+import type { Metadata } from 'next';
+
+import { SupplierListView } from 'src/sections/fsa/supplier/view/supplier-list-view';
+
+// ----------------------------------------------------------------------
+
+export const metadata: Metadata = {
+  title: 'Suppliers',
+  description: 'Manage the suppliers you order materials from',
+};
+
+export default function SuppliersListPage() {
+  return <SupplierListView />;
+}
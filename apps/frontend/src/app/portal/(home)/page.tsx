@@ -0,0 +1,13 @@
+import type { Metadata } from 'next';
+
+import { CONFIG } from 'src/global-config';
+
+import { PortalHomeView } from 'src/sections/portal/view/portal-home-view';
+
+// ----------------------------------------------------------------------
+
+export const metadata: Metadata = { title: `Customer portal | ${CONFIG.appName}` };
+
+export default function Page() {
+  return <PortalHomeView />;
+}
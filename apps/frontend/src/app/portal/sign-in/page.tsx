@@ -0,0 +1,13 @@
+import type { Metadata } from 'next';
+
+import { CONFIG } from 'src/global-config';
+
+import { PortalSignInView } from 'src/sections/portal/view/portal-sign-in-view';
+
+// ----------------------------------------------------------------------
+
+export const metadata: Metadata = { title: `Customer portal sign in | ${CONFIG.appName}` };
+
+export default function Page() {
+  return <PortalSignInView />;
+}
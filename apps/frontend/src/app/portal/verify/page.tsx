@@ -0,0 +1,13 @@
+import type { Metadata } from 'next';
+
+import { CONFIG } from 'src/global-config';
+
+import { PortalVerifyView } from 'src/sections/portal/view/portal-verify-view';
+
+// ----------------------------------------------------------------------
+
+export const metadata: Metadata = { title: `Customer portal | ${CONFIG.appName}` };
+
+export default function Page() {
+  return <PortalVerifyView />;
+}
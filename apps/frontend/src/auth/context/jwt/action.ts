@@ -1,6 +1,8 @@
 'use client';
 
 import axios, { endpoints } from 'src/lib/axios';
+import { clearOutbox } from 'src/lib/offline-outbox';
+import { clearCachedBoards } from 'src/actions/field-kanban';
 
 import { setSession } from './utils';
 import { JWT_STORAGE_KEY } from './constant';
@@ -138,8 +140,10 @@ export const signOut = async (): Promise<void> => {
       }
     }
 
-    // Clear local session
+    // Clear local session and the offline copies of this user's work
     await setSession(null);
+    clearCachedBoards();
+    clearOutbox();
   } catch (error) {
     console.error('Error during sign out:', error);
     throw error;
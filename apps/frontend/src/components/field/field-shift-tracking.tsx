@@ -0,0 +1,116 @@
+import type { DeviceLocation } from 'src/lib/geolocation';
+
+import useSWR from 'swr';
+import { useRef, useState, useEffect, useCallback } from 'react';
+
+import { Box, Alert, Button } from '@mui/material';
+
+import { useTranslate } from 'src/locales';
+import { realtimeClient } from 'src/lib/realtime';
+import { fetcher, endpoints } from 'src/lib/axios';
+import { watchLocation, distanceMeters } from 'src/lib/geolocation';
+
+import { toast } from 'src/components/snackbar';
+import { Iconify } from 'src/components/iconify';
+
+// ----------------------------------------------------------------------
+
+const SHIFT_STORAGE_KEY = 'fsa_on_shift';
+
+// Send a position at most this often, unless the technician moved further
+const MIN_SEND_INTERVAL_MS = 30 * 1000;
+const MIN_SEND_DISTANCE_M = 50;
+
+// Keep sending while standing still so the live marker doesn't look stale
+const MAX_SEND_INTERVAL_MS = 5 * 60 * 1000;
+
+const readOnShift = () => {
+  try {
+    return localStorage.getItem(SHIFT_STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Shift toggle for the field app. While on shift the device position is
+ * streamed to dispatch over the realtime socket.
+ */
+export function FieldShiftTracking() {
+  const { t } = useTranslate('field');
+  const [onShift, setOnShift] = useState(false);
+  const [unavailable, setUnavailable] = useState(false);
+  const lastSent = useRef<{ location: DeviceLocation; at: number } | null>(null);
+
+  const { data } = useSWR(endpoints.fsa.tracking.status, fetcher<any>);
+  const enabled = !!data?.data?.enabled;
+
+  useEffect(() => {
+    setOnShift(readOnShift());
+  }, []);
+
+  useEffect(() => {
+    if (!enabled || !onShift) return undefined;
+
+    const stop = watchLocation(
+      (location) => {
+        setUnavailable(false);
+
+        const now = Date.now();
+        const previous = lastSent.current;
+        const due =
+          !previous ||
+          now - previous.at >= MAX_SEND_INTERVAL_MS ||
+          (now - previous.at >= MIN_SEND_INTERVAL_MS &&
+            distanceMeters(previous.location, location) >= MIN_SEND_DISTANCE_M);
+        if (!due) return;
+
+        if (realtimeClient.sendLocation(location)) {
+          lastSent.current = { location, at: now };
+        }
+      },
+      () => setUnavailable(true)
+    );
+
+    return () => {
+      stop();
+      lastSent.current = null;
+    };
+  }, [enabled, onShift]);
+
+  const toggleShift = useCallback(() => {
+    const next = !onShift;
+    try {
+      localStorage.setItem(SHIFT_STORAGE_KEY, String(next));
+    } catch {
+      // Storage full or disabled - the toggle still works for this visit
+    }
+    setOnShift(next);
+    setUnavailable(false);
+    toast.success(next ? t('tracking.shiftStarted') : t('tracking.shiftEnded'));
+  }, [onShift, t]);
+
+  if (!enabled) {
+    return null;
+  }
+
+  return (
+    <Box sx={{ px: 1, pt: 1 }}>
+      <Alert
+        severity={unavailable ? 'warning' : onShift ? 'success' : 'info'}
+        icon={<Iconify icon="mingcute:location-fill" />}
+        action={
+          <Button color="inherit" size="small" onClick={toggleShift}>
+            {onShift ? t('tracking.endShift') : t('tracking.startShift')}
+          </Button>
+        }
+      >
+        {unavailable && onShift
+          ? t('tracking.unavailable')
+          : onShift
+            ? t('tracking.onShift')
+            : t('tracking.offShift')}
+      </Alert>
+    </Box>
+  );
+}
@@ -0,0 +1,138 @@
+import { useState } from 'react';
+
+import {
+  Box,
+  List,
+  Alert,
+  Button,
+  Dialog,
+  ListItem,
+  DialogTitle,
+  ListItemText,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+
+import { fDateTime } from 'src/utils/format-time';
+
+import { useTranslate } from 'src/locales';
+import { useNetworkStatus } from 'src/lib/network-utils';
+import {
+  flushOutbox,
+  useOutboxStatus,
+  getOutboxEntries,
+  discardOutboxEntry,
+  clearOutboxConflicts,
+} from 'src/lib/offline-outbox';
+
+import { Iconify } from 'src/components/iconify';
+
+// ----------------------------------------------------------------------
+
+/**
+ * Connection and outbox banner for the field app. Shows how many offline
+ * changes are waiting and which ones conflicted with server edits.
+ */
+export function FieldSyncStatus() {
+  const { t } = useTranslate('field');
+  const { isOnline } = useNetworkStatus();
+  const { pending, isFlushing, conflicts } = useOutboxStatus();
+  const [detailsOpen, setDetailsOpen] = useState(false);
+
+  if (isOnline && pending === 0 && conflicts.length === 0) {
+    return null;
+  }
+
+  const severity = !isOnline ? 'warning' : conflicts.length > 0 && pending === 0 ? 'error' : 'info';
+
+  const message = !isOnline
+    ? t('sync.offline', { count: pending })
+    : isFlushing
+      ? t('sync.syncing', { count: pending })
+      : pending > 0
+        ? t('sync.pending', { count: pending })
+        : t('sync.conflicts', { count: conflicts.length });
+
+  const entries = detailsOpen ? getOutboxEntries() : [];
+
+  return (
+    <Box sx={{ px: 1, pt: 1 }}>
+      <Alert
+        severity={severity}
+        icon={<Iconify icon={isOnline ? 'solar:refresh-bold' : 'solar:cloud-cross-bold'} />}
+        action={
+          <Button color="inherit" size="small" onClick={() => setDetailsOpen(true)}>
+            {t('sync.details')}
+          </Button>
+        }
+      >
+        {message}
+      </Alert>
+
+      <Dialog open={detailsOpen} onClose={() => setDetailsOpen(false)} fullWidth maxWidth="xs">
+        <DialogTitle>{t('sync.title')}</DialogTitle>
+        <DialogContent dividers>
+          {entries.length === 0 && conflicts.length === 0 && (
+            <Alert severity="success">{t('sync.allSynced')}</Alert>
+          )}
+
+          {entries.length > 0 && (
+            <List dense disablePadding>
+              {entries.map((entry) => (
+                <ListItem
+                  key={entry.id}
+                  disableGutters
+                  secondaryAction={
+                    <Button size="small" color="error" onClick={() => discardOutboxEntry(entry.id)}>
+                      {t('sync.discard')}
+                    </Button>
+                  }
+                >
+                  <ListItemText
+                    primary={entry.label}
+                    secondary={
+                      entry.lastError
+                        ? `${fDateTime(entry.createdAt)} · ${entry.lastError}`
+                        : fDateTime(entry.createdAt)
+                    }
+                  />
+                </ListItem>
+              ))}
+            </List>
+          )}
+
+          {conflicts.length > 0 && (
+            <>
+              <Alert severity="warning" sx={{ mt: entries.length > 0 ? 2 : 0 }}>
+                {t('sync.conflictsHelp')}
+              </Alert>
+              <List dense disablePadding>
+                {conflicts.map((conflict) => (
+                  <ListItem key={`${conflict.id}-${conflict.resolvedAt}`} disableGutters>
+                    <ListItemText
+                      primary={conflict.label}
+                      secondary={`${fDateTime(conflict.resolvedAt)} · ${conflict.reason}`}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          {conflicts.length > 0 && (
+            <Button color="inherit" onClick={clearOutboxConflicts}>
+              {t('sync.clearConflicts')}
+            </Button>
+          )}
+          {pending > 0 && (
+            <Button variant="contained" disabled={!isOnline || isFlushing} onClick={flushOutbox}>
+              {t('sync.syncNow')}
+            </Button>
+          )}
+          <Button onClick={() => setDetailsOpen(false)}>{t('sync.close')}</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
@@ -18,6 +18,8 @@ import DialogContent from '@mui/material/DialogContent';
 import { useRealtimeEvent } from 'src/hooks/use-realtime';
 
 import axiosInstance, { endpoints } from 'src/lib/axios';
+import { getCurrentLocation } from 'src/lib/geolocation';
+import { sendOrQueue, getOutboxEntries } from 'src/lib/offline-outbox';
 
 import { toast } from 'src/components/snackbar';
 import { Iconify } from 'src/components/iconify';
@@ -96,8 +98,12 @@ export function KanbanCheckInOut({ taskId, workOrderId, onTimeEntryCreated }: Pr
     try {
       const response = await axiosInstance.get(url);
       return response.data;
-    } catch {
-      return { success: true, data: null };
+    } catch (error: any) {
+      // Offline: keep showing the session this device checked in to
+      const stored = error?.response
+        ? undefined
+        : getStoredSessions().find((session) => session.taskId === taskId);
+      return { success: true, data: stored || null };
     }
   });
 
@@ -126,7 +132,12 @@ export function KanbanCheckInOut({ taskId, workOrderId, onTimeEntryCreated }: Pr
       const stored = getStoredSessions();
       const taskSession = stored.find((s) => s.taskId === taskId);
 
-      if (taskSession && !activeSession) {
+      // Check-ins still waiting in the outbox are not lost sessions
+      const queued = getOutboxEntries().some(
+        (entry) => entry.body?.clientSessionId === taskSession?._id
+      );
+
+      if (taskSession && !activeSession && !queued) {
         // Found a stored session but no active session from server
         setStoredSessions([taskSession]);
         setRecoveryDialogOpen(true);
@@ -136,12 +147,21 @@ export function KanbanCheckInOut({ taskId, workOrderId, onTimeEntryCreated }: Pr
 
   // Heartbeat to keep session alive (every 5 minutes)
   useEffect(() => {
-    if (!isCheckedIn || !activeSession?._id || !isOnline) return undefined;
+    // Sessions started offline have no server record to keep alive yet
+    if (
+      !isCheckedIn ||
+      !activeSession?._id ||
+      activeSession._id.startsWith('client_') ||
+      !isOnline
+    ) {
+      return undefined;
+    }
 
     const sendHeartbeat = async () => {
       try {
         await axiosInstance.post(endpoints.fsa.timeEntries.heartbeat, {
           sessionId: activeSession._id,
+          location: await getCurrentLocation(),
         });
       } catch (error) {
         console.warn('Failed to send heartbeat:', error);
@@ -230,12 +250,19 @@ export function KanbanCheckInOut({ taskId, workOrderId, onTimeEntryCreated }: Pr
         action: 'checkin',
         notes: '',
         clientSessionId,
+        checkInTime: new Date().toISOString(),
+        location: await getCurrentLocation(),
       };
 
-      if (isOnline) {
-        // Online: Send to server
-        const response = await axiosInstance.post(endpoints.fsa.timeEntries.checkin, payload);
-        const session = response.data.data;
+      const result = await sendOrQueue({
+        label: 'Check in',
+        method: 'post',
+        url: endpoints.fsa.timeEntries.checkin,
+        body: payload,
+      });
+
+      if (!result.queued) {
+        const session = result.data.data;
 
         // Store locally for recovery
         storeSession(session);
@@ -245,17 +272,18 @@ export function KanbanCheckInOut({ taskId, workOrderId, onTimeEntryCreated }: Pr
 
         toast.success('Checked in successfully');
       } else {
-        // Offline: Store locally only
+        // Offline: the outbox creates the session when connection returns
         const localSession: CheckInSession = {
           _id: clientSessionId,
           taskId,
           personnelId: 'offline', // Will be resolved when online
-          checkInTime: new Date().toISOString(),
+          checkInTime: payload.checkInTime,
           notes: '',
           isActive: true,
         };
 
         storeSession(localSession);
+        mutateSession({ success: true, data: localSession }, { revalidate: false });
         toast.success('Checked in offline - will sync when connection restored');
       }
     } catch (error: any) {
@@ -264,7 +292,7 @@ export function KanbanCheckInOut({ taskId, workOrderId, onTimeEntryCreated }: Pr
     } finally {
       setCheckingIn(false);
     }
-  }, [taskId, isCheckedIn, isOnline, mutateSession]);
+  }, [taskId, isCheckedIn, mutateSession]);
 
   const handleCheckOut = useCallback(async () => {
     if (!isCheckedIn || !activeSession) {
@@ -281,13 +309,33 @@ export function KanbanCheckInOut({ taskId, workOrderId, onTimeEntryCreated }: Pr
         taskId,
         workOrderId,
         action: 'checkout',
-        sessionId: activeSession._id,
+        // Sessions started offline are only known by their client id
+        ...(activeSession._id.startsWith('client_')
+          ? { clientSessionId: activeSession._id }
+          : { sessionId: activeSession._id }),
         date: checkInTime.toISOString().split('T')[0], // Use check-in date
         hours: Math.round(hours * 100) / 100, // Round to 2 decimal places
         notes: notes || activeSession.notes || '',
+        location: await getCurrentLocation(),
       };
 
-      await axiosInstance.post(endpoints.fsa.timeEntries.checkout, payload);
+      const result = await sendOrQueue({
+        label: 'Check out',
+        method: 'post',
+        url: endpoints.fsa.timeEntries.checkout,
+        body: payload,
+      });
+
+      if (result.queued) {
+        mutateSession({ success: true, data: null }, { revalidate: false });
+        setCheckOutDialogOpen(false);
+        setNotes('');
+        removeStoredSession(taskId);
+        toast.success(
+          `Checked out offline (${hours.toFixed(2)}h) - will sync when connection restored`
+        );
+        return;
+      }
 
       // Refresh session data and time entries
       mutateSession();
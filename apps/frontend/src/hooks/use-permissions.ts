@@ -122,6 +122,40 @@ export const PERMISSIONS = {
   REPORTS_VIEW: 'reports.view',
   REPORTS_EXPORT: 'reports.export',
 
+  // Quotes
+  QUOTES_VIEW: 'quotes.view',
+  QUOTES_CREATE: 'quotes.create',
+  QUOTES_EDIT: 'quotes.edit',
+  QUOTES_DELETE: 'quotes.delete',
+
+  // Invoices
+  INVOICES_VIEW: 'invoices.view',
+  INVOICES_CREATE: 'invoices.create',
+  INVOICES_EDIT: 'invoices.edit',
+  INVOICES_DELETE: 'invoices.delete',
+
+  // Service Contracts
+  CONTRACTS_VIEW: 'contracts.view',
+  CONTRACTS_CREATE: 'contracts.create',
+  CONTRACTS_EDIT: 'contracts.edit',
+  CONTRACTS_DELETE: 'contracts.delete',
+
+  // Customer Assets
+  ASSETS_VIEW: 'assets.view',
+  ASSETS_CREATE: 'assets.create',
+  ASSETS_EDIT: 'assets.edit',
+  ASSETS_DELETE: 'assets.delete',
+
+  // Timesheets
+  TIMESHEETS_VIEW: 'timesheets.view',
+  TIMESHEETS_APPROVE: 'timesheets.approve',
+
+  // Purchase Orders
+  PURCHASE_ORDERS_VIEW: 'purchaseOrders.view',
+  PURCHASE_ORDERS_CREATE: 'purchaseOrders.create',
+  PURCHASE_ORDERS_EDIT: 'purchaseOrders.edit',
+  PURCHASE_ORDERS_DELETE: 'purchaseOrders.delete',
+
   // System Management
   ROLES_MANAGE: 'roles.manage',
   STATUSES_MANAGE: 'statuses.manage',
@@ -0,0 +1,34 @@
+'use client';
+
+import type { IWorkOrderStatus } from 'src/lib/models/WorkOrderStatus';
+
+import useSWR from 'swr';
+import { useMemo, useCallback } from 'react';
+
+import { fetcher, endpoints } from 'src/lib/axios';
+
+// ----------------------------------------------------------------------
+
+type StatusedWorkOrder = { status?: string; workflowStatus?: string } | null | undefined;
+
+/**
+ * Tenant work order statuses, with a resolver that mirrors the backend:
+ * the stored workflow status when it still matches the category, else the
+ * first status of the work order's category
+ */
+export function useWorkOrderStatuses() {
+  const { data, isLoading, mutate } = useSWR(endpoints.fsa.workOrderStatuses.list, fetcher<any>);
+
+  const statuses: IWorkOrderStatus[] = useMemo(() => data?.data || [], [data]);
+
+  const resolveStatus = useCallback(
+    (workOrder: StatusedWorkOrder): IWorkOrderStatus | undefined =>
+      statuses.find(
+        (status) =>
+          status.key === workOrder?.workflowStatus && status.category === workOrder?.status
+      ) || statuses.find((status) => status.category === workOrder?.status),
+    [statuses]
+  );
+
+  return { statuses, isLoading, mutate, resolveStatus };
+}
@@ -28,7 +28,7 @@ export type NotificationItemProps = {
     createdAt: string | number | null;
     message?: string;
     relatedEntity?: {
-      entityType: 'task' | 'workorder' | 'project';
+      entityType: 'task' | 'workorder' | 'project' | 'material';
       entityId: string;
       entityTitle?: string;
     };
@@ -36,6 +36,7 @@ export type NotificationItemProps = {
       taskId?: string;
       workOrderId?: string;
       projectId?: string;
+      materialId?: string;
       changes?: string[];
       assignerId?: string;
       reporterId?: string;
@@ -76,6 +77,9 @@ const renderIcon = (type: string) =>
     task_deleted: notificationIcons.mail,
     time_logged: notificationIcons.chat,
     time_updated: notificationIcons.chat,
+    low_stock: notificationIcons.delivery,
+    sla_warning: notificationIcons.order,
+    sla_breached: notificationIcons.order,
     order: notificationIcons.order,
     chat: notificationIcons.chat,
     mail: notificationIcons.mail,
@@ -109,6 +113,15 @@ const getCategoryLabel = (category: string, type: string) => {
         return 'Time Entry';
     }
   }
+  if (type === 'low_stock') {
+    return 'Low Stock';
+  }
+  if (type === 'sla_warning') {
+    return 'SLA At Risk';
+  }
+  if (type === 'sla_breached') {
+    return 'SLA Breached';
+  }
   return category.charAt(0).toUpperCase() + category.slice(1);
 };
 
@@ -11,7 +11,9 @@ import { LanguagePopover } from 'src/layouts/components/language-popover';
 import { NotificationsDrawer } from 'src/layouts/components/notifications-drawer';
 
 import { Iconify } from 'src/components/iconify';
+import { FieldSyncStatus } from 'src/components/field/field-sync-status';
 import { MobileHeader, MobileBottomNavigation } from 'src/components/mobile';
+import { FieldShiftTracking } from 'src/components/field/field-shift-tracking';
 
 import { useAuthContext } from 'src/auth/hooks/use-auth-context';
 
@@ -104,6 +106,8 @@ export function FieldLayout({ children }: FieldLayoutProps) {
         }}
       >
         <Container sx={{ padding: { xs: 0.5 } }} maxWidth="lg">
+          {authenticated && <FieldSyncStatus />}
+          {authenticated && <FieldShiftTracking />}
           {children}
         </Container>
       </Box>
@@ -86,6 +86,12 @@ export function useNavData(): NavSectionProps['data'] {
           icon: ICONS.analytics,
         },
         { title: t('overview.reports'), path: '/dashboard/analytics/reports', icon: ICONS.tour },
+        {
+          title: t('overview.inspections'),
+          path: '/dashboard/analytics/inspections',
+          icon: ICONS.kanban,
+        },
+        { title: t('overview.sla'), path: '/dashboard/analytics/sla', icon: ICONS.analytics },
         { title: t('management.calendar'), path: paths.dashboard.calendar, icon: ICONS.calendar },
       ],
     },
@@ -102,6 +108,47 @@ export function useNavData(): NavSectionProps['data'] {
           icon: ICONS.workOrder,
           requiredPermissions: 'work_orders.view',
         },
+        {
+          title: t('fieldService.dispatch.title', { defaultValue: 'Dispatch' }),
+          path: paths.dashboard.fsa.dispatch.root,
+          icon: ICONS.scheduling,
+          requiredPermissions: 'work_orders.view',
+          children: [
+            {
+              title: t('fieldService.dispatch.board', { defaultValue: 'Board' }),
+              path: paths.dashboard.fsa.dispatch.board,
+              requiredPermissions: 'work_orders.view',
+            },
+            {
+              title: t('fieldService.dispatch.routes', { defaultValue: 'Routes' }),
+              path: paths.dashboard.fsa.dispatch.root,
+              requiredPermissions: 'work_orders.view',
+            },
+            {
+              title: t('fieldService.dispatch.live', { defaultValue: 'Live map' }),
+              path: paths.dashboard.fsa.dispatch.live,
+              requiredPermissions: 'work_orders.view',
+            },
+          ],
+        },
+        {
+          title: t('fieldService.quotes.title', { defaultValue: 'Quotes' }),
+          path: paths.dashboard.fsa.quotes.root,
+          icon: ICONS.file,
+          requiredPermissions: 'quotes.view',
+        },
+        {
+          title: t('fieldService.invoices.title', { defaultValue: 'Invoices' }),
+          path: paths.dashboard.fsa.invoices.root,
+          icon: ICONS.invoice,
+          requiredPermissions: 'invoices.view',
+        },
+        {
+          title: t('fieldService.contracts.title', { defaultValue: 'Contracts' }),
+          path: paths.dashboard.fsa.contracts.root,
+          icon: ICONS.booking,
+          requiredPermissions: 'contracts.view',
+        },
         { title: t('management.projectsTasks'), path: paths.dashboard.kanban, icon: ICONS.kanban },
       ],
     },
@@ -117,6 +164,12 @@ export function useNavData(): NavSectionProps['data'] {
           icon: ICONS.customer,
           requiredPermissions: 'clients.view',
         },
+        {
+          title: t('fieldService.assets.title', { defaultValue: 'Assets' }),
+          path: paths.dashboard.fsa.assets.root,
+          icon: ICONS.product,
+          requiredPermissions: 'assets.view',
+        },
         {
           title: t('fieldService.personnel.title'),
           path: '/dashboard/personnel',
@@ -133,6 +186,16 @@ export function useNavData(): NavSectionProps['data'] {
               path: '/dashboard/personnel/roles',
               requiredPermissions: 'roles.manage',
             },
+            {
+              title: t('fieldService.personnel.attendance'),
+              path: paths.dashboard.fsa.personnel.attendance,
+              requiredPermissions: 'timesheets.view',
+            },
+            {
+              title: t('fieldService.personnel.timesheets'),
+              path: paths.dashboard.fsa.personnel.timesheets,
+              requiredPermissions: 'timesheets.view',
+            },
           ],
         },
         {
@@ -140,6 +203,28 @@ export function useNavData(): NavSectionProps['data'] {
           path: paths.dashboard.fsa.materials.root,
           icon: ICONS.materials,
           requiredPermissions: 'materials.view',
+          children: [
+            {
+              title: t('fieldService.materials.list'),
+              path: paths.dashboard.fsa.materials.root,
+              requiredPermissions: 'materials.view',
+            },
+            {
+              title: t('fieldService.materials.locations'),
+              path: paths.dashboard.fsa.materials.locations,
+              requiredPermissions: 'materials.view',
+            },
+            {
+              title: t('fieldService.materials.purchaseOrders'),
+              path: paths.dashboard.fsa.purchaseOrders.root,
+              requiredPermissions: 'purchaseOrders.view',
+            },
+            {
+              title: t('fieldService.materials.suppliers'),
+              path: paths.dashboard.fsa.suppliers.root,
+              requiredPermissions: 'materials.view',
+            },
+          ],
         },
       ],
     },
@@ -161,6 +246,22 @@ export function useNavData(): NavSectionProps['data'] {
             },
             { title: 'Webhooks', path: paths.dashboard.settings.webhooks },
             { title: 'API Keys', path: paths.dashboard.settings.apiKeys },
+            {
+              title: t('reportTemplates.title', { defaultValue: 'Report Templates' }),
+              path: paths.dashboard.settings.reportTemplates,
+            },
+            {
+              title: t('inspectionForms.title', { defaultValue: 'Inspection Forms' }),
+              path: paths.dashboard.settings.inspectionForms,
+            },
+            {
+              title: t('workOrderStatuses.title', { defaultValue: 'Work Order Statuses' }),
+              path: paths.dashboard.settings.workOrderStatuses,
+            },
+            {
+              title: t('slaPolicies.title', { defaultValue: 'SLA Policies' }),
+              path: paths.dashboard.settings.slaPolicies,
+            },
           ],
         },
         {
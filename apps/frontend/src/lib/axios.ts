@@ -128,7 +128,8 @@ axiosInstance.interceptors.request.use((config) => {
   if (typeof window !== 'undefined') {
     const token =
       sessionStorage.getItem('jwt_access_token') || localStorage.getItem('jwt_access_token');
-    if (token) {
+    // Requests that carry their own credentials (e.g. the client portal) keep them
+    if (token && !config.headers.Authorization) {
       config.headers.Authorization = `Bearer ${token}`;
     }
   }
@@ -273,6 +274,20 @@ export const fetcher = async <T = unknown>(
 
 export const endpoints = {
   chat: '/api/chat',
+  portal: {
+    requestLink: '/api/v1/portal/request-link',
+    session: '/api/v1/portal/session',
+    me: '/api/v1/portal/me',
+    workOrders: '/api/v1/portal/work-orders',
+    workOrder: (id: string) => `/api/v1/portal/work-orders/${id}`,
+    requests: '/api/v1/portal/requests',
+    reports: '/api/v1/portal/reports',
+    reportPdf: (id: string) => `/api/v1/portal/reports/${id}/pdf`,
+    quotes: '/api/v1/portal/quotes',
+    quotePdf: (id: string) => `/api/v1/portal/quotes/${id}/pdf`,
+    acceptQuote: (id: string) => `/api/v1/portal/quotes/${id}/accept`,
+    declineQuote: (id: string) => `/api/v1/portal/quotes/${id}/decline`,
+  },
   kanban: '/api/v1/kanban',
   calendar: '/api/v1/calendar',
   auth: {
@@ -316,17 +331,35 @@ export const endpoints = {
       activeSessions: '/api/v1/time-entries/sessions/all-active',
       emergencyCheckout: '/api/v1/time-entries/emergency-checkout',
       cleanupStaleSessions: '/api/v1/time-entries/cleanup-stale-sessions',
+      flaggedSessions: '/api/v1/time-entries/sessions/flagged',
+      reviewSession: (id: string) => `/api/v1/time-entries/sessions/${id}/review`,
+      attendanceSettings: '/api/v1/time-entries/attendance-settings',
     },
     workOrders: {
       list: '/api/v1/work-orders',
       create: '/api/v1/work-orders',
       details: (id: string) => `/api/v1/work-orders/${id}`,
       summary: (id: string) => `/api/v1/work-orders/${id}/summary`,
+      assignmentSuggestions: (id: string) => `/api/v1/work-orders/${id}/assignment-suggestions`,
+      acceptAssignmentSuggestions: (id: string) =>
+        `/api/v1/work-orders/${id}/assignment-suggestions/accept`,
+      transitions: (id: string) => `/api/v1/work-orders/${id}/transitions`,
+      transition: (id: string) => `/api/v1/work-orders/${id}/transition`,
+    },
+    workOrderStatuses: {
+      list: '/api/v1/work-order-statuses',
+      details: (id: string) => `/api/v1/work-order-statuses/${id}`,
+    },
+    sla: {
+      policies: '/api/v1/sla/policies',
+      policy: (id: string) => `/api/v1/sla/policies/${id}`,
+      report: '/api/v1/sla/report',
     },
     clients: {
       list: '/api/v1/clients',
       details: (id: string) => `/api/v1/clients/${id}`,
       bulkImport: '/api/v1/clients/bulk-import',
+      portalLink: (id: string) => `/api/v1/clients/${id}/portal-link`,
     },
     technicians: {
       list: '/api/v1/technicians',
@@ -344,6 +377,19 @@ export const endpoints = {
         `/api/v1/materials/categories/${encodeURIComponent(categoryName)}`,
       bulkImport: '/api/v1/materials/bulk-import',
       toggleActive: (id: string) => `/api/v1/materials/${id}/toggle-active`,
+      lowStock: '/api/v1/materials/low-stock',
+      movements: '/api/v1/materials/movements',
+      stock: (id: string) => `/api/v1/materials/${id}/stock`,
+      receive: (id: string) => `/api/v1/materials/${id}/receive`,
+      adjust: (id: string) => `/api/v1/materials/${id}/adjust`,
+      transfer: (id: string) => `/api/v1/materials/${id}/transfer`,
+      recalculate: (id: string) => `/api/v1/materials/${id}/recalculate`,
+    },
+    stockLocations: {
+      list: '/api/v1/stock-locations',
+      details: (id: string) => `/api/v1/stock-locations/${id}`,
+      stock: (id: string) => `/api/v1/stock-locations/${id}/stock`,
+      syncVehicles: '/api/v1/stock-locations/vehicles/sync',
     },
     roles: {
       list: '/api/v1/roles',
@@ -401,6 +447,88 @@ export const endpoints = {
       bulkUpdate: '/api/v1/reports/bulk/update',
       bulkExport: '/api/v1/reports/bulk/export',
     },
+    quotes: {
+      list: '/api/v1/quotes',
+      details: (id: string) => `/api/v1/quotes/${id}`,
+      send: (id: string) => `/api/v1/quotes/${id}/send`,
+      accept: (id: string) => `/api/v1/quotes/${id}/accept`,
+      decline: (id: string) => `/api/v1/quotes/${id}/decline`,
+      pdf: (id: string) => `/api/v1/quotes/${id}/pdf`,
+    },
+    invoices: {
+      list: '/api/v1/invoices',
+      details: (id: string) => `/api/v1/invoices/${id}`,
+      billable: '/api/v1/invoices/billable',
+      fromWorkOrder: (workOrderId: string) => `/api/v1/invoices/from-work-order/${workOrderId}`,
+      fromReports: '/api/v1/invoices/from-reports',
+      issue: (id: string) => `/api/v1/invoices/${id}/issue`,
+      payments: (id: string) => `/api/v1/invoices/${id}/payments`,
+      void: (id: string) => `/api/v1/invoices/${id}/void`,
+      pdf: (id: string) => `/api/v1/invoices/${id}/pdf`,
+    },
+    contracts: {
+      list: '/api/v1/contracts',
+      details: (id: string) => `/api/v1/contracts/${id}`,
+      activate: (id: string) => `/api/v1/contracts/${id}/activate`,
+      generate: (id: string) => `/api/v1/contracts/${id}/generate`,
+      suspend: (id: string) => `/api/v1/contracts/${id}/suspend`,
+      renew: (id: string) => `/api/v1/contracts/${id}/renew`,
+      cancel: (id: string) => `/api/v1/contracts/${id}/cancel`,
+    },
+    assets: {
+      list: '/api/v1/assets',
+      details: (id: string) => `/api/v1/assets/${id}`,
+      history: (id: string) => `/api/v1/assets/${id}/history`,
+    },
+    suppliers: {
+      list: '/api/v1/suppliers',
+      details: (id: string) => `/api/v1/suppliers/${id}`,
+    },
+    purchaseOrders: {
+      list: '/api/v1/purchase-orders',
+      details: (id: string) => `/api/v1/purchase-orders/${id}`,
+      send: (id: string) => `/api/v1/purchase-orders/${id}/send`,
+      receive: (id: string) => `/api/v1/purchase-orders/${id}/receive`,
+      cancel: (id: string) => `/api/v1/purchase-orders/${id}/cancel`,
+      suggestions: '/api/v1/purchase-orders/suggestions',
+      settings: '/api/v1/purchase-orders/settings',
+    },
+    reportTemplates: {
+      list: '/api/v1/report-templates',
+      defaults: '/api/v1/report-templates/defaults',
+      preview: '/api/v1/report-templates/preview',
+      details: (id: string) => `/api/v1/report-templates/${id}`,
+      setDefault: (id: string) => `/api/v1/report-templates/${id}/default`,
+    },
+    inspectionForms: {
+      list: '/api/v1/inspection-forms',
+      applicable: '/api/v1/inspection-forms/applicable',
+      failures: '/api/v1/inspection-forms/analytics/failures',
+      details: (id: string) => `/api/v1/inspection-forms/${id}`,
+    },
+    tracking: {
+      live: '/api/v1/tracking/live',
+      trail: (personnelId: string) => `/api/v1/tracking/trail/${personnelId}`,
+      settings: '/api/v1/tracking/settings',
+      status: '/api/v1/tracking/status',
+    },
+    timesheets: {
+      list: '/api/v1/timesheets',
+      week: '/api/v1/timesheets/week',
+      details: (id: string) => `/api/v1/timesheets/${id}`,
+      submit: (id: string) => `/api/v1/timesheets/${id}/submit`,
+      approve: (id: string) => `/api/v1/timesheets/${id}/approve`,
+      reject: (id: string) => `/api/v1/timesheets/${id}/reject`,
+      reopen: (id: string) => `/api/v1/timesheets/${id}/reopen`,
+      comments: (id: string) => `/api/v1/timesheets/${id}/comments`,
+      payrollExport: '/api/v1/timesheets/payroll/export',
+    },
+    dispatch: {
+      plan: '/api/v1/dispatch/plan',
+      board: '/api/v1/dispatch/board',
+      schedule: '/api/v1/dispatch/board/schedule',
+      unschedule: '/api/v1/dispatch/board/unschedule',
+    },
   },
   notifications: {
     list: '/api/v1/notifications',
@@ -417,7 +545,15 @@ export const endpoints = {
     delete: (id: string) => axiosInstance.delete(`/api/v1/webhooks/${id}`),
     test: (id: string) => axiosInstance.post(`/api/v1/webhooks/${id}/test`),
     logs: (id: string, params: any) => axiosInstance.get(`/api/v1/webhooks/${id}/logs`, { params }),
+    deliveries: (id: string, params: any) =>
+      axiosInstance.get(`/api/v1/webhooks/${id}/deliveries`, { params }),
+    replayLog: (id: string, logId: string) =>
+      axiosInstance.post(`/api/v1/webhooks/${id}/logs/${logId}/replay`),
+    replayDelivery: (id: string, deliveryId: string) =>
+      axiosInstance.post(`/api/v1/webhooks/${id}/deliveries/${deliveryId}/replay`),
+    replay: (id: string, data: any) => axiosInstance.post(`/api/v1/webhooks/${id}/replay`, data),
     topics: () => axiosInstance.get('/api/v1/webhooks/topics'),
+    filterOptions: () => axiosInstance.get('/api/v1/webhooks/filter-options'),
     regenerateSecret: (id: string) =>
       axiosInstance.post(`/api/v1/webhooks/${id}/regenerate-secret`),
   },
@@ -439,6 +575,17 @@ export const endpoints = {
     usage: (id: string) => axiosInstance.get(`/api/v1/api-keys/${id}/usage`),
     test: (id: string) => axiosInstance.post(`/api/v1/api-keys/${id}/test`),
   },
+  publicApi: {
+    spec: () => axiosInstance.get('/api/v1/public/openapi.json'),
+    // Sent with an API key instead of the session token; every status resolves
+    request: (apiKey: string, config: AxiosRequestConfig) =>
+      axiosInstance.request({
+        ...config,
+        url: `/api/v1/public${config.url}`,
+        headers: { ...config.headers, Authorization: `Bearer ${apiKey}` },
+        validateStatus: () => true,
+      }),
+  },
   subscription: {
     status: () => axiosInstance.get('/api/v1/subscription/status'),
     usage: () => axiosInstance.get('/api/v1/subscription/usage'),
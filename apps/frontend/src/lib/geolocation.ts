@@ -0,0 +1,85 @@
+/**
+ * Device Geolocation Utilities
+ *
+ * Best-effort GPS fixes for attendance stamps. Callers never block on
+ * location: when the browser has no geolocation, the user denies it or the
+ * fix times out, the result is undefined and the action goes ahead.
+ */
+
+// ----------------------------------------------------------------------
+
+export interface DeviceLocation {
+  latitude: number;
+  longitude: number;
+  accuracy?: number; // Metres
+  capturedAt: string;
+}
+
+const DEFAULT_OPTIONS: PositionOptions = {
+  enableHighAccuracy: true,
+  timeout: 10000,
+  maximumAge: 60000,
+};
+
+// ----------------------------------------------------------------------
+
+export function toDeviceLocation(position: GeolocationPosition): DeviceLocation {
+  return {
+    latitude: position.coords.latitude,
+    longitude: position.coords.longitude,
+    accuracy: Math.round(position.coords.accuracy),
+    capturedAt: new Date(position.timestamp || Date.now()).toISOString(),
+  };
+}
+
+export function getCurrentLocation(
+  options: PositionOptions = DEFAULT_OPTIONS
+): Promise<DeviceLocation | undefined> {
+  if (typeof navigator === 'undefined' || !navigator.geolocation) {
+    return Promise.resolve(undefined);
+  }
+
+  return new Promise((resolve) => {
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve(toDeviceLocation(position)),
+      () => resolve(undefined),
+      options
+    );
+  });
+}
+
+/**
+ * Follow the device position. Returns a function that stops watching.
+ */
+export function watchLocation(
+  onLocation: (location: DeviceLocation, position: GeolocationPosition) => void,
+  onError?: (error: GeolocationPositionError) => void,
+  options: PositionOptions = DEFAULT_OPTIONS
+): () => void {
+  if (typeof navigator === 'undefined' || !navigator.geolocation) {
+    return () => {};
+  }
+
+  const watchId = navigator.geolocation.watchPosition(
+    (position) => onLocation(toDeviceLocation(position), position),
+    onError,
+    options
+  );
+  return () => navigator.geolocation.clearWatch(watchId);
+}
+
+/**
+ * Straight-line distance between two points in metres
+ */
+export function distanceMeters(
+  from: Pick<DeviceLocation, 'latitude' | 'longitude'>,
+  to: Pick<DeviceLocation, 'latitude' | 'longitude'>
+): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(to.latitude - from.latitude);
+  const dLon = toRad(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(from.latitude)) * Math.cos(toRad(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.sqrt(a));
+}
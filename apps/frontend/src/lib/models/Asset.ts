@@ -0,0 +1,96 @@
+// ----------------------------------------------------------------------
+
+export type AssetStatus = 'active' | 'inactive' | 'retired';
+
+export type AssetWarrantyFilter = 'valid' | 'expiring' | 'expired';
+
+export interface IAssetAttribute {
+  key: string;
+  value: string;
+}
+
+export interface IAsset {
+  _id: string;
+  tenantId: string;
+  clientId: string | { _id: string; name: string; company?: string };
+  name: string;
+  category?: string;
+  make?: string;
+  model?: string;
+  serialNumber?: string;
+  assetTag?: string;
+  site: {
+    name?: string;
+    address?: string;
+    location?: string;
+  };
+  installDate?: string;
+  warrantyExpiry?: string;
+  status: AssetStatus;
+  attributes: IAssetAttribute[];
+  notes?: string;
+  lastServicedAt?: string; // Included in list responses
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AssetServiceEventType = 'work_order' | 'report' | 'time_entry' | 'material';
+
+export interface AssetServiceEvent {
+  type: AssetServiceEventType;
+  date: string;
+  title: string;
+  workOrderId?: string;
+  workOrderNumber?: string;
+  reportId?: string;
+  taskId?: string;
+  status?: string;
+  personnelName?: string;
+  hours?: number;
+  quantity?: number;
+  unit?: string;
+  cost?: number;
+  notes?: string;
+}
+
+export interface AssetServiceHistory {
+  asset: IAsset;
+  summary: {
+    workOrders: number;
+    reports: number;
+    hours: number;
+    laborCost: number;
+    materialCost: number;
+    lastServicedAt?: string;
+  };
+  events: AssetServiceEvent[];
+}
+
+// DTOs for API requests
+export interface CreateAssetData {
+  clientId: string;
+  name: string;
+  category?: string;
+  make?: string;
+  model?: string;
+  serialNumber?: string;
+  assetTag?: string;
+  site?: IAsset['site'];
+  installDate?: string | null;
+  warrantyExpiry?: string | null;
+  status?: AssetStatus;
+  attributes?: IAssetAttribute[];
+  notes?: string;
+}
+
+export type UpdateAssetData = Partial<CreateAssetData>;
+
+export interface AssetSearchParams {
+  clientId?: string;
+  status?: AssetStatus;
+  warranty?: AssetWarrantyFilter;
+  q?: string;
+  limit?: number;
+  offset?: number;
+}
@@ -0,0 +1,57 @@
+// ----------------------------------------------------------------------
+
+export type AttendanceReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ISessionLocation {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  capturedAt: string;
+  distanceMeters?: number;
+  withinGeofence?: boolean;
+}
+
+export interface AttendanceSettings {
+  geofenceRadiusMeters: number;
+  requireLocation: boolean;
+  blockOutsideGeofence: boolean;
+}
+
+export interface IFlaggedSession {
+  _id: string;
+  personnelId?: {
+    _id: string;
+    employeeId?: string;
+    userId?: { _id: string; firstName?: string; lastName?: string; email?: string };
+  } | null;
+  taskId?: { _id: string; title?: string } | null;
+  workOrderId?: {
+    _id: string;
+    workOrderNumber?: string;
+    title?: string;
+    location?: { address?: string };
+  } | null;
+  checkInTime: string;
+  isActive: boolean;
+  geofence?: { latitude: number; longitude: number; radiusMeters: number };
+  checkInLocation?: ISessionLocation;
+  lastLocation?: ISessionLocation;
+  checkOutLocation?: ISessionLocation;
+  outsideLocation?: ISessionLocation;
+  outsideGeofence: boolean;
+  review?: {
+    status: AttendanceReviewStatus;
+    reviewedBy?: string;
+    reviewedAt?: string;
+    notes?: string;
+  };
+}
+
+export interface FlaggedSessionSearchParams {
+  status?: AttendanceReviewStatus;
+  personnelId?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
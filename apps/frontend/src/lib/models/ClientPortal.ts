@@ -0,0 +1,98 @@
+import type { QuoteStatus, IQuoteLineItem } from './Quote';
+
+// ----------------------------------------------------------------------
+
+export type PortalWorkOrderScope = 'open' | 'closed' | 'all';
+
+export interface PortalProfile {
+  email: string;
+  client: {
+    _id: string;
+    name: string;
+    company?: string;
+    email?: string;
+    phone?: string;
+    address?: {
+      street?: string;
+      city?: string;
+      zipCode?: string;
+      country?: string;
+    };
+  };
+  company: {
+    name: string;
+    logo?: string;
+    email?: string;
+    phone?: string;
+  };
+}
+
+export interface PortalWorkOrder {
+  _id: string;
+  workOrderNumber: string;
+  title: string;
+  details?: string;
+  status: string;
+  priority: string;
+  progress?: number;
+  tasksTotal?: number;
+  tasksCompleted?: number;
+  scheduledDate?: string;
+  startedAt?: string;
+  completedAt?: string;
+  location?: { address?: string };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PortalTimelineEntry {
+  _id: string;
+  entityType: 'work_order' | 'task';
+  eventType: string;
+  title: string;
+  userName?: string;
+  timestamp: string;
+}
+
+export interface PortalReport {
+  _id: string;
+  type: string;
+  status: string;
+  reportDate: string;
+  workOrderId?: string;
+  workOrderData?: { number?: string; title?: string };
+  totalHours?: number;
+}
+
+export interface PortalWorkOrderDetails {
+  workOrder: PortalWorkOrder;
+  reports: PortalReport[];
+  timeline: PortalTimelineEntry[];
+}
+
+export interface PortalQuote {
+  _id: string;
+  quoteNumber: string;
+  title: string;
+  description?: string;
+  status: QuoteStatus;
+  lineItems: IQuoteLineItem[];
+  currency: string;
+  subtotal: number;
+  taxAmount: number;
+  total: number;
+  validUntil?: string;
+  sentAt?: string;
+  acceptedAt?: string;
+  declinedAt?: string;
+  workOrderId?: string;
+  createdAt: string;
+}
+
+export interface ServiceRequestData {
+  title: string;
+  details?: string;
+  address?: string;
+  preferredDate?: string;
+  priority?: 'low' | 'medium' | 'high' | 'urgent';
+}
@@ -0,0 +1,171 @@
+// ----------------------------------------------------------------------
+
+export type ContractStatus = 'draft' | 'active' | 'suspended' | 'expired' | 'cancelled';
+
+export type ContractFrequencyUnit = 'week' | 'month' | 'year';
+
+export type ContractRenewalType = 'none' | 'manual' | 'auto';
+
+export type ContractBillingCycle = 'one_time' | 'monthly' | 'quarterly' | 'annual';
+
+export interface IContractSite {
+  _id?: string;
+  name: string;
+  address: string;
+  notes?: string;
+}
+
+export interface IContractEquipment {
+  _id?: string;
+  name: string;
+  siteId?: string;
+  manufacturer?: string;
+  model?: string;
+  serialNumber?: string;
+  notes?: string;
+}
+
+export interface IContractTemplateTask {
+  _id?: string;
+  title: string;
+  description?: string;
+  estimatedHours?: number;
+}
+
+export interface IContractTemplateMaterial {
+  _id?: string;
+  materialId?: string;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface ContractVisitSummary {
+  planned: number;
+  generated: number;
+  completed: number;
+  cancelled: number;
+  remaining: number;
+}
+
+export interface IContract {
+  _id: string;
+  tenantId: string;
+  contractNumber: string;
+  clientId: string | { _id: string; name: string; company?: string };
+  title: string;
+  description?: string;
+  status: ContractStatus;
+  sites: IContractSite[];
+  equipment: IContractEquipment[];
+  schedule: {
+    interval: number;
+    unit: ContractFrequencyUnit;
+    firstVisitDate: string;
+    leadDays: number;
+    nextVisitIndex: number;
+    nextVisitDate?: string;
+    nextGenerationAt?: string;
+  };
+  price: {
+    amount: number;
+    currency: string;
+    billingCycle: ContractBillingCycle;
+  };
+  startDate: string;
+  endDate: string;
+  termStartDate: string;
+  renewal: {
+    type: ContractRenewalType;
+    termMonths: number;
+    noticeDays: number;
+    renewedAt?: string;
+  };
+  workOrderTemplate: {
+    title?: string;
+    details?: string;
+    priority: 'low' | 'medium' | 'high' | 'urgent';
+    estimatedHours?: number;
+    personnelIds: string[];
+    tasks: IContractTemplateTask[];
+    materials: IContractTemplateMaterial[];
+  };
+  notes?: string;
+  lastGeneratedAt?: string;
+  visits?: ContractVisitSummary;
+  history?: Array<{
+    status: string;
+    timestamp: string;
+    userId?: string;
+    notes?: string;
+  }>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ContractVisitWorkOrder {
+  _id: string;
+  workOrderNumber: string;
+  title: string;
+  status: string;
+  progress?: number;
+  scheduledDate?: string;
+  completedAt?: string;
+  contractVisitDate: string;
+  location?: { address?: string };
+}
+
+export interface IContractDetails extends IContract {
+  workOrders: ContractVisitWorkOrder[];
+  upcomingVisits: string[];
+}
+
+export interface CreateContractData {
+  clientId: string;
+  title: string;
+  description?: string;
+  sites: IContractSite[];
+  equipment: IContractEquipment[];
+  schedule: {
+    interval: number;
+    unit: ContractFrequencyUnit;
+    firstVisitDate?: string;
+    leadDays: number;
+  };
+  price: {
+    amount: number;
+    billingCycle: ContractBillingCycle;
+  };
+  startDate: string;
+  endDate: string;
+  renewal: {
+    type: ContractRenewalType;
+    termMonths: number;
+    noticeDays: number;
+  };
+  workOrderTemplate: {
+    title?: string;
+    details?: string;
+    priority: 'low' | 'medium' | 'high' | 'urgent';
+    estimatedHours?: number;
+    personnelIds: string[];
+    tasks: IContractTemplateTask[];
+    materials: Array<
+      Omit<IContractTemplateMaterial, 'name' | 'unitPrice'> & {
+        name?: string;
+        unitPrice?: number;
+      }
+    >;
+  };
+  notes?: string;
+}
+
+export interface UpdateContractData extends Partial<CreateContractData> {}
+
+export interface ContractSearchParams {
+  status?: ContractStatus;
+  clientId?: string;
+  q?: string;
+  limit?: number;
+  offset?: number;
+}
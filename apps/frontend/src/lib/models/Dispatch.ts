@@ -0,0 +1,128 @@
+// ----------------------------------------------------------------------
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface DispatchLeg {
+  distanceKm: number;
+  travelMinutes: number;
+}
+
+export interface DispatchStop {
+  type: 'workOrder' | 'task';
+  id: string;
+  title: string;
+  reference?: string;
+  workOrderId?: string;
+  address?: string;
+  coordinates?: GeoPoint;
+  priority?: string;
+  serviceMinutes: number;
+  taskIds: string[];
+}
+
+export interface PlannedStop extends DispatchStop {
+  sequence: number;
+  travel: DispatchLeg | null;
+  arrival: string;
+  departure: string;
+}
+
+export interface PersonnelDispatchPlan {
+  personnel: {
+    _id: string;
+    name: string;
+    employeeId?: string;
+    location?: GeoPoint & { lastUpdated?: string };
+  };
+  startsFrom: 'lastKnownLocation' | 'firstStop';
+  dayStart: string;
+  stops: PlannedStop[];
+  unrouted: DispatchStop[];
+  totals: {
+    stops: number;
+    distanceKm: number;
+    travelMinutes: number;
+    serviceMinutes: number;
+    finishAt?: string;
+    unoptimizedDistanceKm: number;
+  };
+}
+
+export interface DispatchPlan {
+  date: string;
+  timezone: string;
+  plans: PersonnelDispatchPlan[];
+}
+
+export interface DispatchPlanParams {
+  date: string;
+  personnelId?: string[];
+  speedKmh?: number;
+  roadFactor?: number;
+}
+
+// ----------------------------------------------------------------------
+
+export interface DispatchConflict {
+  type: 'unavailable' | 'outsideHours' | 'overlap';
+  message: string;
+  workOrderId?: string;
+}
+
+export interface DispatchBoardItem {
+  workOrderId: string;
+  workOrderNumber?: string;
+  title: string;
+  priority: string;
+  status: string;
+  clientName?: string;
+  address?: string;
+  personnelId: string;
+  assignmentId?: string;
+  start: string;
+  end: string;
+  startMinute: number;
+  endMinute: number;
+  conflicts: DispatchConflict[];
+}
+
+export interface DispatchBoardLane {
+  personnel: {
+    _id: string;
+    name: string;
+    employeeId?: string;
+  };
+  workingHours: { start: string; end: string; available: boolean } | null;
+  items: DispatchBoardItem[];
+}
+
+export interface UnscheduledWorkOrder {
+  _id: string;
+  workOrderNumber?: string;
+  title: string;
+  priority: string;
+  status: string;
+  clientName?: string;
+  address?: string;
+  personnelIds: string[];
+  durationMinutes: number;
+}
+
+export interface DispatchBoard {
+  date: string;
+  timezone: string;
+  lanes: DispatchBoardLane[];
+  unscheduled: UnscheduledWorkOrder[];
+}
+
+export interface ScheduleWorkOrderData {
+  workOrderId: string;
+  personnelId: string;
+  date: string;
+  startMinute: number;
+  durationMinutes?: number;
+  fromPersonnelId?: string;
+}
@@ -0,0 +1,87 @@
+// ----------------------------------------------------------------------
+
+export type InspectionFieldType = 'yes_no' | 'number' | 'text' | 'photo' | 'signature' | 'select';
+
+export type InspectionItemResult = 'pass' | 'fail' | 'na';
+
+export interface IInspectionFormField {
+  key: string;
+  label: string;
+  type: InspectionFieldType;
+  required: boolean;
+  section?: string;
+  helpText?: string;
+  options: string[]; // select
+  failOptions: string[]; // yes_no / select answers that fail the item
+  min?: number; // number: readings outside min..max fail
+  max?: number;
+  unit?: string;
+}
+
+export interface IInspectionForm {
+  _id: string;
+  tenantId: string;
+  name: string;
+  description?: string;
+  isActive: boolean;
+  version: number;
+  fields: IInspectionFormField[];
+  appliesTo: {
+    reportTypes: string[];
+    assetCategories: string[];
+    assetIds: string[];
+  };
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A form the technician should fill, once per matching asset
+export interface ApplicableInspectionForm {
+  form: IInspectionForm;
+  assetId?: string;
+  assetName?: string;
+}
+
+export interface InspectionFormData {
+  name: string;
+  description?: string;
+  isActive: boolean;
+  fields: (Omit<IInspectionFormField, 'key' | 'min' | 'max'> & {
+    key?: string;
+    min?: number | null;
+    max?: number | null;
+  })[];
+  appliesTo: IInspectionForm['appliesTo'];
+}
+
+export interface SubmittedInspection {
+  formId: string;
+  assetId?: string;
+  answers: { fieldKey: string; value?: any; notes?: string }[];
+}
+
+export interface InspectionFailureAnalytics {
+  summary: {
+    inspections: number;
+    failedInspections: number;
+    failedItems: number;
+  };
+  items: {
+    formId: string;
+    formName: string;
+    fieldKey: string;
+    label: string;
+    checked: number;
+    failed: number;
+    failureRate: number;
+    lastFailedAt?: string;
+  }[];
+  assets: {
+    assetId: string;
+    assetName?: string;
+    failedInspections: number;
+    failedItems: number;
+    lastFailedAt?: string;
+  }[];
+}
@@ -0,0 +1,80 @@
+// ----------------------------------------------------------------------
+
+export type InvoiceStatus = 'draft' | 'issued' | 'partial' | 'paid' | 'overdue' | 'void';
+
+export type PaymentMethod = 'cash' | 'card' | 'bank_transfer' | 'cheque' | 'other';
+
+export interface IInvoiceLineItem {
+  _id?: string;
+  type: 'labor' | 'material' | 'custom';
+  description: string;
+  quantity: number;
+  unit?: string;
+  unitPrice: number;
+  total: number;
+  reportId?: string;
+  materialId?: string;
+}
+
+export interface IInvoicePayment {
+  _id?: string;
+  amount: number;
+  paidAt: string;
+  method?: PaymentMethod;
+  reference?: string;
+  notes?: string;
+}
+
+export interface IInvoice {
+  _id: string;
+  tenantId: string;
+  invoiceNumber?: string;
+  clientId: string;
+  workOrderId?: string;
+  reportIds: string[];
+  billTo: {
+    name: string;
+    company?: string;
+    email?: string;
+    vatNumber?: string;
+  };
+  status: InvoiceStatus;
+  lineItems: IInvoiceLineItem[];
+  currency: string;
+  subtotal: number;
+  taxRate: number;
+  taxAmount: number;
+  total: number;
+  amountPaid: number;
+  balanceDue: number;
+  payments?: IInvoicePayment[];
+  issueDate?: string;
+  dueDate?: string;
+  paidAt?: string;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface InvoiceOptions {
+  taxRate?: number;
+  dueDate?: string;
+  notes?: string;
+}
+
+export interface RecordPaymentData {
+  amount: number;
+  paidAt?: string;
+  method?: PaymentMethod;
+  reference?: string;
+  notes?: string;
+}
+
+export interface InvoiceSearchParams {
+  status?: InvoiceStatus;
+  clientId?: string;
+  workOrderId?: string;
+  q?: string;
+  limit?: number;
+  offset?: number;
+}
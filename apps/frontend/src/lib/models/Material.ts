@@ -13,9 +13,12 @@ export interface IMaterial extends Document {
   unit: string;
   unitCost: number;
   quantity: number;
+  reservedQuantity?: number;
   minimumStock?: number;
+  lowStockNotifiedAt?: Date;
   location?: string;
   supplier?: string;
+  supplierId?: string;
   customFields: Record<string, any>;
   isActive: boolean;
   status: 'active' | 'inactive' | 'discontinued';
@@ -51,6 +54,7 @@ export interface CreateMaterialData {
   minimumStock?: number;
   location?: string;
   supplier?: string;
+  supplierId?: string;
   customFields?: Record<string, any>;
   status?: 'active' | 'inactive' | 'discontinued';
 }
@@ -67,3 +71,118 @@ export interface BulkImportResult {
   }>;
   created: IMaterial[];
 }
+
+// ----------------------------------------------------------------------
+
+export type StockMovementType =
+  | 'opening'
+  | 'receipt'
+  | 'consumption'
+  | 'return'
+  | 'adjustment'
+  | 'transfer';
+
+export interface StockMovement {
+  _id: string;
+  materialId: string | { _id: string; name: string; sku?: string; unit: string };
+  type: StockMovementType;
+  quantity: number;
+  balanceAfter: number;
+  unitCost: number;
+  locationId?: string;
+  location?: string;
+  transferId?: string;
+  source: { type: 'manual' | 'task' | 'report' | 'bulk_import'; id?: string };
+  workOrderId?: string;
+  notes?: string;
+  createdBy?: { _id: string; firstName?: string; lastName?: string; email?: string } | string;
+  createdAt: string;
+}
+
+export interface StockReservation {
+  _id: string;
+  materialId: string;
+  workOrderId:
+    | string
+    | { _id: string; workOrderNumber?: string; title: string; status: string }
+    | null;
+  quantity: number;
+}
+
+export interface MaterialStock {
+  quantity: number;
+  reservedQuantity: number;
+  availableQuantity: number;
+  minimumStock: number;
+  locations: Array<{
+    locationId: string;
+    location: string;
+    type: StockLocationType;
+    quantity: number;
+  }>;
+  reservations: StockReservation[];
+}
+
+export interface ReceiveStockData {
+  quantity: number;
+  unitCost?: number;
+  locationId?: string;
+  notes?: string;
+}
+
+export interface AdjustStockData {
+  quantity: number;
+  locationId?: string;
+  notes: string;
+}
+
+export interface TransferStockData {
+  quantity: number;
+  fromLocationId: string;
+  toLocationId: string;
+  notes?: string;
+}
+
+// ----------------------------------------------------------------------
+
+export type StockLocationType = 'warehouse' | 'vehicle';
+
+export interface StockLocation {
+  _id: string;
+  name: string;
+  type: StockLocationType;
+  personnelId?: string;
+  personnelName?: string;
+  address?: string;
+  notes?: string;
+  isDefault: boolean;
+  isActive: boolean;
+  itemCount?: number;
+  totalQuantity?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface StockLocationData {
+  name: string;
+  type?: StockLocationType;
+  personnelId?: string;
+  address?: string;
+  notes?: string;
+  isDefault?: boolean;
+  isActive?: boolean;
+}
+
+export interface StockLevel {
+  _id: string;
+  materialId: {
+    _id: string;
+    name: string;
+    sku?: string;
+    unit: string;
+    unitCost: number;
+    minimumStock?: number;
+  };
+  locationId: string;
+  quantity: number;
+}
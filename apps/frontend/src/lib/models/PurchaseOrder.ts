@@ -0,0 +1,145 @@
+// ----------------------------------------------------------------------
+
+export interface ISupplier {
+  _id: string;
+  tenantId: string;
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  website?: string;
+  vatNumber?: string;
+  address?: {
+    street?: string;
+    city?: string;
+    zipCode?: string;
+    country?: string;
+  };
+  leadTimeDays: number;
+  paymentTerms?: string;
+  notes?: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateSupplierData {
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  website?: string;
+  vatNumber?: string;
+  address?: ISupplier['address'];
+  leadTimeDays?: number;
+  paymentTerms?: string;
+  notes?: string;
+  isActive?: boolean;
+}
+
+export interface UpdateSupplierData extends Partial<CreateSupplierData> {}
+
+// ----------------------------------------------------------------------
+
+export type PurchaseOrderStatus =
+  | 'draft'
+  | 'sent'
+  | 'partially_received'
+  | 'received'
+  | 'cancelled';
+
+export type CostingMethod = 'last_cost' | 'weighted_average';
+
+export interface IPurchaseOrderLine {
+  _id: string;
+  materialId: string;
+  description: string;
+  sku?: string;
+  unit?: string;
+  quantity: number;
+  receivedQuantity: number;
+  unitCost: number;
+  total: number;
+}
+
+export interface IPurchaseOrderReceipt {
+  _id: string;
+  receivedAt: string;
+  receivedBy: string;
+  locationId: string;
+  lines: Array<{ lineId: string; quantity: number; unitCost: number }>;
+  notes?: string;
+}
+
+export interface IPurchaseOrder {
+  _id: string;
+  tenantId: string;
+  poNumber: string;
+  supplierId: string | Pick<ISupplier, '_id' | 'name' | 'email' | 'leadTimeDays'>;
+  status: PurchaseOrderStatus;
+  lines: IPurchaseOrderLine[];
+  receipts: IPurchaseOrderReceipt[];
+  currency: string;
+  subtotal: number;
+  taxRate: number;
+  taxAmount: number;
+  total: number;
+  locationId?: string | { _id: string; name: string; type: string };
+  expectedDate?: string;
+  notes?: string;
+  sentAt?: string;
+  receivedAt?: string;
+  cancelledAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PurchaseOrderLineInput {
+  materialId: string;
+  quantity: number;
+  unitCost?: number;
+}
+
+export interface CreatePurchaseOrderData {
+  supplierId: string;
+  lines: PurchaseOrderLineInput[];
+  taxRate?: number;
+  locationId?: string;
+  expectedDate?: string;
+  notes?: string;
+}
+
+export interface UpdatePurchaseOrderData extends Partial<CreatePurchaseOrderData> {}
+
+export interface ReceivePurchaseOrderData {
+  lines?: Array<{ lineId: string; quantity: number; unitCost?: number }>;
+  locationId?: string;
+  notes?: string;
+}
+
+export interface PurchaseOrderSearchParams {
+  status?: PurchaseOrderStatus;
+  supplierId?: string;
+  materialId?: string;
+  q?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface PurchaseOrderSuggestion {
+  material: {
+    _id: string;
+    name: string;
+    sku?: string;
+    unit: string;
+    unitCost: number;
+    quantity: number;
+    reservedQuantity?: number;
+    minimumStock: number;
+    supplier?: string;
+    supplierId?: string;
+  };
+  available: number;
+  onOrder: number;
+  suggestedQuantity: number;
+}
@@ -0,0 +1,79 @@
+// ----------------------------------------------------------------------
+
+export type QuoteStatus = 'draft' | 'sent' | 'accepted' | 'declined';
+
+export type QuoteLineItemType = 'material' | 'labor' | 'custom';
+
+export interface IQuoteLineItem {
+  _id?: string;
+  type: QuoteLineItemType;
+  materialId?: string;
+  personnelId?: string;
+  description: string;
+  quantity: number;
+  unit?: string;
+  unitPrice: number;
+  total: number;
+}
+
+export interface IQuote {
+  _id: string;
+  tenantId: string;
+  quoteNumber: string;
+  clientId: string | { _id: string; name: string; company?: string; email?: string };
+  title: string;
+  description?: string;
+  location?: {
+    address?: string;
+    coordinates?: { latitude: number; longitude: number };
+  };
+  status: QuoteStatus;
+  lineItems: IQuoteLineItem[];
+  currency: string;
+  subtotalLabor: number;
+  subtotalMaterials: number;
+  subtotal: number;
+  taxRate: number;
+  taxAmount: number;
+  total: number;
+  validUntil?: string;
+  notes?: string;
+  sentAt?: string;
+  acceptedAt?: string;
+  declinedAt?: string;
+  declineReason?: string;
+  workOrderId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface QuoteLineItemInput {
+  type: QuoteLineItemType;
+  materialId?: string;
+  personnelId?: string;
+  description?: string;
+  quantity: number;
+  unit?: string;
+  unitPrice?: number;
+}
+
+export interface CreateQuoteData {
+  clientId: string;
+  title: string;
+  description?: string;
+  location?: { address?: string };
+  lineItems: QuoteLineItemInput[];
+  taxRate?: number;
+  validUntil?: string;
+  notes?: string;
+}
+
+export interface UpdateQuoteData extends Partial<CreateQuoteData> {}
+
+export interface QuoteSearchParams {
+  status?: QuoteStatus;
+  clientId?: string;
+  q?: string;
+  limit?: number;
+  offset?: number;
+}
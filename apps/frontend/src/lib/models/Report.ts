@@ -1,3 +1,9 @@
+import type {
+  InspectionFieldType,
+  SubmittedInspection,
+  InspectionItemResult,
+} from './InspectionForm';
+
 // ----------------------------------------------------------------------
 
 // Embedded data interfaces for historical preservation
@@ -65,6 +71,15 @@ export interface IEmbeddedTask {
   createdBy: string;
 }
 
+export interface IEmbeddedAsset {
+  _id: string;
+  name: string;
+  make?: string;
+  model?: string;
+  serialNumber?: string;
+  site?: string;
+}
+
 export interface IReportAttachment {
   _id: string;
   filename: string;
@@ -129,6 +144,32 @@ export interface IReportSignature {
   ipAddress?: string;
 }
 
+export interface IReportInspectionAnswer {
+  fieldKey: string;
+  label: string;
+  type: InspectionFieldType;
+  required: boolean;
+  section?: string;
+  value?: any; // 'yes' | 'no' | 'n/a', number, text, photo URLs or signature
+  unit?: string;
+  notes?: string;
+  result?: InspectionItemResult;
+}
+
+export interface IReportInspection {
+  _id: string;
+  formId: string;
+  formName: string;
+  formVersion: number;
+  assetId?: string;
+  assetName?: string;
+  answers: IReportInspectionAnswer[];
+  passedCount: number;
+  failedCount: number;
+  result: 'pass' | 'fail';
+  completedAt: Date;
+}
+
 export interface IQualityCheck {
   _id: string;
   item: string;
@@ -209,6 +250,7 @@ export interface IReport {
     status: string;
     priority: string;
   }[];
+  assetIds?: string[];
 
   // Embedded data for historical preservation (immutable once set)
   createdByData?: IEmbeddedUser;
@@ -216,6 +258,7 @@ export interface IReport {
   clientData?: IEmbeddedClient;
   workOrderData?: IEmbeddedWorkOrder;
   tasksData?: IEmbeddedTask[];
+  assetsData?: IEmbeddedAsset[];
 
   // Content
   location?: string;
@@ -242,6 +285,7 @@ export interface IReport {
   photos: IReportAttachment[];
 
   // Quality & Safety
+  inspections?: IReportInspection[];
   qualityChecks: IQualityCheck[];
   safetyIncidents: ISafetyIncident[];
 
@@ -294,6 +338,8 @@ export interface CreateReportData {
   clientId?: string;
   workOrderId?: string;
   taskIds?: string[];
+  assetIds?: string[];
+  inspections?: SubmittedInspection[];
   location?: string;
   weather?: string;
   equipment?: string[];
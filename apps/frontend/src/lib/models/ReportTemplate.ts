@@ -0,0 +1,78 @@
+// ----------------------------------------------------------------------
+
+export type ReportTemplateSectionKey =
+  | 'overview'
+  | 'client'
+  | 'workOrder'
+  | 'personnel'
+  | 'tasks'
+  | 'materials'
+  | 'timeEntries'
+  | 'costSummary'
+  | 'inspections'
+  | 'signatures'
+  | 'attachments';
+
+export type ReportSignatureRole = 'technician' | 'client' | 'supervisor' | 'inspector';
+
+export type ReportLogoPlacement = 'none' | 'left' | 'center' | 'right';
+
+export interface IReportTemplateSection {
+  key: ReportTemplateSectionKey;
+  enabled: boolean;
+  title?: string;
+}
+
+export interface IReportTemplateSignatureBlock {
+  role: ReportSignatureRole;
+  label: string;
+  showWhenUnsigned: boolean;
+}
+
+export interface ReportTemplateConfig {
+  sections: IReportTemplateSection[];
+  header: {
+    title: string;
+    subtitle?: string;
+    showReportId: boolean;
+  };
+  footer: {
+    text?: string;
+    showGeneratedAt: boolean;
+    showPageNumbers: boolean;
+  };
+  logo: {
+    placement: ReportLogoPlacement;
+    width: number;
+  };
+  colors: {
+    primary?: string;
+    secondary?: string;
+  };
+  signatureBlocks: IReportTemplateSignatureBlock[];
+}
+
+export interface IReportTemplate extends ReportTemplateConfig {
+  _id: string;
+  tenantId: string;
+  name: string;
+  description?: string;
+  isDefault: boolean;
+  reportTypes: string[];
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReportTemplateData extends ReportTemplateConfig {
+  name: string;
+  description?: string;
+  isDefault?: boolean;
+  reportTypes: string[];
+}
+
+export interface ReportTemplateDefaults {
+  template: ReportTemplateConfig;
+  sectionTitles: Record<ReportTemplateSectionKey, string>;
+  reportTypes: string[];
+}
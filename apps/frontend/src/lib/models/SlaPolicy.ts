@@ -0,0 +1,81 @@
+// ----------------------------------------------------------------------
+
+export type SlaPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+export type SlaTimer = 'response' | 'resolution';
+
+export interface ISlaEscalation {
+  warnAtPercent: number;
+  notifyRoles: string[]; // Role slugs
+  notifyAssignees: boolean;
+  sms: boolean;
+}
+
+export interface ISlaPolicy {
+  _id: string;
+  name: string;
+  description?: string;
+  match: {
+    priorities: SlaPriority[];
+    clientIds: string[];
+    contractIds: string[];
+  };
+  responseMinutes: number; // Business minutes
+  resolutionMinutes: number; // Business minutes
+  pauseOnHold: boolean;
+  escalation: ISlaEscalation;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SlaPolicyInput = Omit<ISlaPolicy, '_id' | 'createdAt' | 'updatedAt'>;
+
+export interface IWorkOrderSla {
+  policyId: string;
+  policyName: string;
+  responseDueAt: string;
+  resolutionDueAt: string;
+  responseWarnAt?: string;
+  resolutionWarnAt?: string;
+  respondedAt?: string;
+  resolvedAt?: string;
+  pausedAt?: string;
+  pausedMinutes: number;
+  responseBreached: boolean;
+  resolutionBreached: boolean;
+}
+
+export interface SlaComplianceRow {
+  key: string;
+  label: string;
+  workOrders: number;
+  responseMet: number;
+  responseBreached: number;
+  resolutionMet: number;
+  resolutionBreached: number;
+}
+
+export interface SlaComplianceReport {
+  summary: SlaComplianceRow & {
+    responseCompliance: number | null;
+    resolutionCompliance: number | null;
+    averageResponseMinutes: number | null;
+    averageResolutionMinutes: number | null;
+  };
+  byPolicy: SlaComplianceRow[];
+  byPriority: SlaComplianceRow[];
+  byClient: SlaComplianceRow[];
+  breaches: Array<{
+    workOrderId: string;
+    workOrderNumber: string;
+    title: string;
+    priority: SlaPriority;
+    status: string;
+    clientName?: string;
+    policyName: string;
+    timers: SlaTimer[];
+    responseDueAt: string;
+    resolutionDueAt: string;
+  }>;
+}
@@ -0,0 +1,85 @@
+// ----------------------------------------------------------------------
+
+export type TimesheetStatus = 'draft' | 'submitted' | 'approved' | 'rejected';
+
+export type TimesheetEventType = 'submitted' | 'approved' | 'rejected' | 'reopened' | 'comment';
+
+export type PayrollExportFormat = 'csv' | 'xlsx';
+
+export interface ITimesheetDay {
+  date: string; // YYYY-MM-DD
+  hours: number;
+  regularHours: number;
+  overtimeHours: number;
+}
+
+export interface ITimesheetEvent {
+  type: TimesheetEventType;
+  userId: string;
+  userName?: string;
+  comment?: string;
+  createdAt: string;
+}
+
+export interface ITimesheetTotals {
+  hours: number;
+  regularHours: number;
+  overtimeHours: number;
+  cost: number;
+  entries: number;
+}
+
+export interface ITimesheet {
+  _id: string;
+  personnelId:
+    | string
+    | {
+        _id: string;
+        employeeId?: string;
+        userId?: { _id: string; firstName?: string; lastName?: string; email?: string };
+      };
+  weekStart: string;
+  weekEnd: string;
+  status: TimesheetStatus;
+  days: ITimesheetDay[];
+  totals: ITimesheetTotals;
+  history: ITimesheetEvent[];
+  submittedAt?: string;
+  submittedBy?: string;
+  approvedAt?: string;
+  approvedBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ITimesheetEntry {
+  _id: string;
+  date: string;
+  hours: number;
+  cost?: number;
+  notes?: string;
+  taskId?: { _id: string; title?: string } | null;
+  workOrderId?: { _id: string; workOrderNumber?: string; title?: string } | null;
+}
+
+export interface ITimesheetDetails extends ITimesheet {
+  personnel?: { _id: string; employeeId?: string; name: string; hourlyRate?: number };
+  entries: ITimesheetEntry[];
+}
+
+export interface TimesheetSearchParams {
+  status?: TimesheetStatus;
+  personnelId?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface PayrollExportParams {
+  from: string;
+  to: string;
+  format: PayrollExportFormat;
+  overtimeMultiplier?: number;
+  includeUnapproved?: boolean;
+}
@@ -0,0 +1,53 @@
+// ----------------------------------------------------------------------
+
+export interface LocationUpdate {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  heading?: number;
+  speed?: number;
+  capturedAt: string;
+}
+
+export interface LiveTechnician {
+  personnelId: string;
+  name: string;
+  employeeId?: string;
+  location: {
+    latitude: number;
+    longitude: number;
+    accuracy?: number;
+    heading?: number;
+    speed?: number;
+    lastUpdated: string;
+  };
+  activeTask?: {
+    sessionId: string;
+    taskId: string;
+    taskTitle?: string;
+    workOrderId?: string;
+    workOrderNumber?: string;
+    checkInTime: string;
+  };
+}
+
+export interface TrailPoint {
+  _id: string;
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  speed?: number;
+  capturedAt: string;
+  taskId?: string;
+}
+
+export interface LocationTrail {
+  date: string;
+  timezone: string;
+  points: TrailPoint[];
+}
+
+export interface TrackingSettings {
+  enabled: boolean;
+  retentionDays: number;
+}
@@ -12,6 +12,7 @@ export interface IWorkOrder {
   description: string;
   priority: 'low' | 'medium' | 'high' | 'urgent';
   status: 'created' | 'assigned' | 'in-progress' | 'completed' | 'cancelled' | 'on-hold';
+  workflowStatus?: string; // Tenant-defined status; `status` is its category
   category: string;
   location: {
     address: string;
@@ -32,6 +33,7 @@ export interface IWorkOrder {
     total: number;
   };
   materials: Array<{
+    materialId?: string;
     name: string;
     quantity: number;
     unitPrice: number;
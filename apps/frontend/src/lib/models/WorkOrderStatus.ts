@@ -0,0 +1,66 @@
+// ----------------------------------------------------------------------
+
+export const WORK_ORDER_STATUS_CATEGORIES = [
+  'created',
+  'assigned',
+  'in-progress',
+  'completed',
+  'cancelled',
+  'on-hold',
+] as const;
+
+export type WorkOrderStatusCategory = (typeof WORK_ORDER_STATUS_CATEGORIES)[number];
+
+export const WORK_ORDER_TRANSITION_REQUIREMENTS = [
+  'completionReport',
+  'report',
+  'personnel',
+  'scheduledDate',
+  'tasksCompleted',
+  'notes',
+] as const;
+
+export type WorkOrderTransitionRequirement = (typeof WORK_ORDER_TRANSITION_REQUIREMENTS)[number];
+
+export interface IWorkOrderTransition {
+  to: string;
+  roles: string[];
+  requirements: WorkOrderTransitionRequirement[];
+}
+
+export interface IWorkOrderStatus {
+  _id: string;
+  key: string;
+  name: string;
+  description?: string;
+  color: string;
+  category: WorkOrderStatusCategory;
+  order: number;
+  isInitial: boolean;
+  isActive: boolean;
+  transitions: IWorkOrderTransition[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WorkOrderStatusInput {
+  key?: string;
+  name: string;
+  description?: string;
+  color?: string;
+  category: WorkOrderStatusCategory;
+  order?: number;
+  isInitial?: boolean;
+  isActive?: boolean;
+  transitions?: IWorkOrderTransition[];
+}
+
+export interface IAvailableTransition {
+  to: string;
+  name: string;
+  color: string;
+  category: WorkOrderStatusCategory;
+  allowed: boolean;
+  missing: string[];
+  requirements: WorkOrderTransitionRequirement[];
+}
@@ -0,0 +1,478 @@
+/**
+ * Offline Outbox
+ *
+ * Queues mutations made in the field app while the device is offline and
+ * replays them, in order, once the connection returns. Every entry carries a
+ * client generated Idempotency-Key, so a request that reached the server before
+ * the connection dropped is never applied twice.
+ */
+
+import { mutate } from 'swr';
+import { useState, useEffect } from 'react';
+
+import { toast } from 'src/components/snackbar';
+
+import axiosInstance from './axios';
+import { getNetworkStatus, addNetworkStatusListener } from './network-utils';
+
+// ----------------------------------------------------------------------
+
+export interface OutboxFile {
+  name: string;
+  type: string;
+  data: string; // Data URL
+}
+
+export interface OutboxMutation {
+  label: string; // Shown to the user, e.g. "Check in"
+  method: 'post' | 'put' | 'delete';
+  url: string;
+  body?: Record<string, any>;
+  files?: OutboxFile[]; // Sent as multipart with `body` as form fields
+  // Server values the change was made against, used to merge with edits
+  // other users made in the meantime
+  base?: Record<string, any>;
+  baseUpdatedAt?: string;
+  // Placeholder id of a record created offline; later entries referencing it
+  // are rewritten with the real id once the create is synced
+  tempId?: string;
+}
+
+export interface OutboxEntry extends OutboxMutation {
+  id: string;
+  idempotencyKey: string;
+  createdAt: number;
+  attempts: number;
+  lastAttemptAt?: number;
+  lastError?: string;
+}
+
+export interface OutboxConflict {
+  id: string;
+  label: string;
+  reason: string;
+  resolvedAt: number;
+}
+
+export interface OutboxStatus {
+  pending: number;
+  isFlushing: boolean;
+  conflicts: OutboxConflict[];
+}
+
+export type OutboxResult<T = any> = { queued: true } | { queued: false; data: T };
+
+// ----------------------------------------------------------------------
+
+const OUTBOX_KEY = 'fsa_offline_outbox';
+const CONFLICTS_KEY = 'fsa_offline_conflicts';
+const MAX_CONFLICTS = 20;
+const MAX_ATTEMPTS = 10;
+const RETRY_DELAYS_SECONDS = [5, 15, 30, 60, 120, 300, 600, 1800];
+
+let isFlushing = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<(status: OutboxStatus) => void>();
+
+// ----------------------------------------------------------------------
+
+const generateId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+
+/**
+ * Placeholder id for records created while offline
+ */
+export const createOfflineId = (): string => `offline_${generateId()}`;
+
+export const isOfflineId = (id?: string): boolean => !!id && id.startsWith('offline_');
+
+const readList = <T>(key: string): T[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error(`Failed to read ${key}:`, error);
+    return [];
+  }
+};
+
+const writeList = <T>(key: string, list: T[]): void => {
+  try {
+    localStorage.setItem(key, JSON.stringify(list));
+  } catch (error) {
+    console.error(`Failed to write ${key}:`, error);
+    throw new Error('Failed to save offline change. Storage may be full.');
+  }
+};
+
+export const getOutboxEntries = (): OutboxEntry[] => readList<OutboxEntry>(OUTBOX_KEY);
+
+export const getOutboxConflicts = (): OutboxConflict[] => readList<OutboxConflict>(CONFLICTS_KEY);
+
+export const getOutboxStatus = (): OutboxStatus => ({
+  pending: getOutboxEntries().length,
+  isFlushing,
+  conflicts: getOutboxConflicts(),
+});
+
+const notifyListeners = (): void => {
+  const status = getOutboxStatus();
+  listeners.forEach((listener) => {
+    try {
+      listener(status);
+    } catch (error) {
+      console.error('Error in outbox listener:', error);
+    }
+  });
+};
+
+/**
+ * Add a listener for outbox changes
+ */
+export const addOutboxListener = (listener: (status: OutboxStatus) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const saveEntries = (entries: OutboxEntry[]): void => {
+  writeList(OUTBOX_KEY, entries);
+  notifyListeners();
+};
+
+const recordConflict = (entry: OutboxEntry, reason: string): void => {
+  const conflicts = [
+    { id: entry.id, label: entry.label, reason, resolvedAt: Date.now() },
+    ...getOutboxConflicts(),
+  ].slice(0, MAX_CONFLICTS);
+  writeList(CONFLICTS_KEY, conflicts);
+};
+
+export const clearOutboxConflicts = (): void => {
+  writeList(CONFLICTS_KEY, []);
+  notifyListeners();
+};
+
+/**
+ * Discard a queued change the user no longer wants to sync
+ */
+export const discardOutboxEntry = (id: string): void => {
+  saveEntries(getOutboxEntries().filter((entry) => entry.id !== id));
+};
+
+/**
+ * Forget queued changes and conflicts, e.g. when the user signs out
+ */
+export const clearOutbox = (): void => {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  localStorage.removeItem(OUTBOX_KEY);
+  localStorage.removeItem(CONFLICTS_KEY);
+  notifyListeners();
+};
+
+// ----------------------------------------------------------------------
+
+const fileToOutboxFile = (file: File): Promise<OutboxFile> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () =>
+      resolve({ name: file.name, type: file.type, data: String(reader.result) });
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const isNetworkError = (error: any): boolean => !error?.response;
+
+// Worth retrying later rather than giving up on the change
+const isTransientError = (error: any): boolean => {
+  const status = error?.response?.status;
+  return isNetworkError(error) || status >= 500 || status === 408 || status === 429;
+};
+
+const sendEntry = async (
+  entry: OutboxEntry,
+  replaying: boolean,
+  files: File[] = []
+): Promise<any> => {
+  const headers: Record<string, string | undefined> = {
+    'Idempotency-Key': entry.idempotencyKey,
+  };
+  if (entry.baseUpdatedAt) {
+    headers['X-Base-Updated-At'] = entry.baseUpdatedAt;
+  }
+
+  let data: any = entry.body;
+  if (files.length || entry.files?.length) {
+    const form = new FormData();
+    Object.entries(entry.body || {}).forEach(([key, value]) => form.append(key, String(value)));
+    files.forEach((file) => form.append('files', file));
+    for (const file of entry.files || []) {
+      const blob = await (await fetch(file.data)).blob();
+      form.append('files', new File([blob], file.name, { type: file.type }));
+    }
+    data = form;
+    headers['Content-Type'] = undefined; // Let browser set multipart boundary
+  }
+
+  const response = await axiosInstance.request({
+    method: entry.method,
+    url: entry.url,
+    data,
+    headers,
+    // Replay outcomes are summarised once the whole outbox is flushed
+    skipErrorToast: replaying,
+  });
+  return response.data;
+};
+
+/**
+ * Three-way merge of a change made offline with the server's current copy.
+ * Fields the server still has at their base value keep the offline change;
+ * fields someone else changed keep the server value.
+ */
+const mergeWithServer = (
+  entry: OutboxEntry,
+  server: any
+): { entry: OutboxEntry | null; dropped: string[] } | null => {
+  if (!entry.base || !entry.body || !server?.updatedAt) return null;
+
+  const body: Record<string, any> = {};
+  const dropped: string[] = [];
+  Object.entries(entry.body).forEach(([key, value]) => {
+    const changedOnServer =
+      key in entry.base! && JSON.stringify(server[key]) !== JSON.stringify(entry.base![key]);
+    if (changedOnServer) {
+      dropped.push(key);
+    } else {
+      body[key] = value;
+    }
+  });
+
+  if (Object.keys(body).length === 0) {
+    return { entry: null, dropped };
+  }
+
+  return {
+    entry: {
+      ...entry,
+      // A different body is a different request; the server keeps the 409
+      // under the old key and would replay it or reject the new body
+      idempotencyKey: generateId(),
+      body,
+      base: Object.fromEntries(Object.keys(body).map((key) => [key, server[key]])),
+      baseUpdatedAt: server.updatedAt,
+    },
+    dropped,
+  };
+};
+
+const replacePlaceholderId = (tempId: string, realId?: string): void => {
+  const entries = getOutboxEntries();
+  if (!realId) {
+    // The create was rejected, so changes to the record can never apply
+    saveEntries(entries.filter((entry) => !JSON.stringify(entry).includes(tempId)));
+    return;
+  }
+  saveEntries(entries.map((entry) => JSON.parse(JSON.stringify(entry).split(tempId).join(realId))));
+};
+
+// ----------------------------------------------------------------------
+
+const createEntry = (mutation: OutboxMutation): OutboxEntry => ({
+  ...mutation,
+  id: generateId(),
+  idempotencyKey: generateId(),
+  createdAt: Date.now(),
+  attempts: 0,
+});
+
+const storeEntry = async (entry: OutboxEntry, files: File[]): Promise<OutboxEntry> => {
+  const stored = files.length
+    ? { ...entry, files: await Promise.all(files.map(fileToOutboxFile)) }
+    : entry;
+  saveEntries([...getOutboxEntries(), stored]);
+  return stored;
+};
+
+/**
+ * Queue a mutation for replay when the connection returns
+ */
+export const enqueueMutation = (
+  mutation: OutboxMutation,
+  files: File[] = []
+): Promise<OutboxEntry> => storeEntry(createEntry(mutation), files);
+
+/**
+ * Send a mutation now, or queue it when the device is offline. Server errors
+ * are thrown as usual; only connectivity failures are queued.
+ */
+export const sendOrQueue = async <T = any>(
+  mutation: OutboxMutation,
+  files: File[] = []
+): Promise<OutboxResult<T>> => {
+  const entry = createEntry(mutation);
+
+  // Changes already waiting go first so the server sees them in order
+  if (getNetworkStatus().isOnline && getOutboxEntries().length === 0) {
+    try {
+      return { queued: false, data: await sendEntry(entry, false, files) };
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+
+  // Same key as the attempt above, in case it reached the server
+  await storeEntry(entry, files);
+  if (getNetworkStatus().isOnline) {
+    flushOutbox();
+  }
+  return { queued: true };
+};
+
+const scheduleRetry = (entry: OutboxEntry): void => {
+  if (retryTimer) clearTimeout(retryTimer);
+  const delay =
+    RETRY_DELAYS_SECONDS[Math.min(entry.attempts - 1, RETRY_DELAYS_SECONDS.length - 1)] * 1000;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushOutbox();
+  }, delay);
+};
+
+const replayEntry = async (entry: OutboxEntry): Promise<{ data?: any; dropped: string[] }> => {
+  try {
+    return { data: await sendEntry(entry, true), dropped: [] };
+  } catch (error: any) {
+    const merged =
+      error?.response?.status === 409 ? mergeWithServer(entry, error.response.data?.data) : null;
+    if (!merged) throw error;
+    if (!merged.entry) return { dropped: merged.dropped };
+
+    // Persist the merge so an interrupted retry does not redo it
+    saveEntries(getOutboxEntries().map((item) => (item.id === entry.id ? merged.entry! : item)));
+    return { data: await sendEntry(merged.entry, true), dropped: merged.dropped };
+  }
+};
+
+/**
+ * Replay queued mutations in the order they were made. Stops at the first
+ * connectivity failure so later changes never overtake earlier ones.
+ */
+export const flushOutbox = async (): Promise<void> => {
+  if (isFlushing || !getNetworkStatus().isOnline || getOutboxEntries().length === 0) {
+    return;
+  }
+
+  isFlushing = true;
+  notifyListeners();
+
+  let syncedCount = 0;
+  let conflictCount = 0;
+
+  try {
+    for (const { id } of getOutboxEntries()) {
+      // Re-read, earlier entries may have rewritten placeholder ids
+      const entry = getOutboxEntries().find((item) => item.id === id);
+      if (!entry) continue;
+
+      try {
+        const { data, dropped } = await replayEntry(entry);
+        saveEntries(getOutboxEntries().filter((item) => item.id !== id));
+        if (entry.tempId) {
+          replacePlaceholderId(entry.tempId, data?.data?._id);
+        }
+        if (dropped.length > 0) {
+          recordConflict(entry, `Kept the server's ${dropped.join(', ')} changed by someone else`);
+          conflictCount += 1;
+        }
+        syncedCount += 1;
+      } catch (error: any) {
+        const message = error?.response?.data?.message || error?.message || 'Request failed';
+
+        if (isTransientError(error) && entry.attempts + 1 < MAX_ATTEMPTS) {
+          const failed = {
+            ...entry,
+            attempts: entry.attempts + 1,
+            lastAttemptAt: Date.now(),
+            lastError: message,
+          };
+          saveEntries(getOutboxEntries().map((item) => (item.id === id ? failed : item)));
+          scheduleRetry(failed);
+          break;
+        }
+
+        // The server rejected the change, e.g. the record was deleted meanwhile
+        saveEntries(getOutboxEntries().filter((item) => item.id !== id));
+        if (entry.tempId) {
+          replacePlaceholderId(entry.tempId);
+        }
+        recordConflict(entry, message);
+        conflictCount += 1;
+      }
+    }
+  } finally {
+    isFlushing = false;
+    notifyListeners();
+  }
+
+  if (syncedCount > 0) {
+    toast.success(`Synced ${syncedCount} offline change${syncedCount > 1 ? 's' : ''}`);
+    // Pick up the server's view of everything that changed
+    mutate(() => true);
+  }
+
+  if (conflictCount > 0) {
+    toast.warning(
+      `${conflictCount} offline change${conflictCount > 1 ? 's' : ''} conflicted with server edits`,
+      { duration: 6000 }
+    );
+  }
+};
+
+/**
+ * Subscribe to outbox status in a component
+ */
+export function useOutboxStatus(): OutboxStatus {
+  const [status, setStatus] = useState<OutboxStatus>({
+    pending: 0,
+    isFlushing: false,
+    conflicts: [],
+  });
+
+  useEffect(() => {
+    setStatus(getOutboxStatus());
+    return addOutboxListener(setStatus);
+  }, []);
+
+  return status;
+}
+
+// ----------------------------------------------------------------------
+
+const initializeOutbox = (): void => {
+  if (typeof window === 'undefined') return;
+
+  addNetworkStatusListener((status) => {
+    if (status.isOnline) {
+      flushOutbox();
+    }
+  });
+
+  // Other tabs share the same outbox
+  window.addEventListener('storage', (event) => {
+    if (event.key === OUTBOX_KEY || event.key === CONFLICTS_KEY) {
+      notifyListeners();
+    }
+  });
+
+  setTimeout(() => flushOutbox(), 1000);
+};
+
+initializeOutbox();
@@ -1,4 +1,5 @@
 import type { Socket } from 'socket.io-client';
+import type { LiveTechnician, LocationUpdate } from 'src/lib/models/Tracking';
 
 import { io } from 'socket.io-client';
 
@@ -27,6 +28,9 @@ export interface RealtimeEvents {
   'notification:read': (data: { notificationId: string; unreadCount: number }) => void;
   'notification:unread_count': (data: { unreadCount: number }) => void;
 
+  // Live technician locations (tracking room only)
+  'technician:location': (data: LiveTechnician) => void;
+
   // Generic events
   notification: (data: { type: string; message: string; data?: any }) => void;
 }
@@ -39,6 +43,7 @@ class RealtimeClient {
   private isConnecting = false;
   private eventListeners = new Map<string, Set<(...args: any[]) => void>>();
   private currentTaskRooms = new Set<string>();
+  private isTracking = false;
 
   // Connection status
   get isConnected(): boolean {
@@ -109,6 +114,9 @@ class RealtimeClient {
         this.currentTaskRooms.forEach((taskId) => {
           this.joinTaskRoom(taskId);
         });
+        if (this.isTracking) {
+          this.joinTrackingRoom();
+        }
 
         resolve();
       });
@@ -151,6 +159,7 @@ class RealtimeClient {
       this.socket = null;
     }
     this.currentTaskRooms.clear();
+    this.isTracking = false;
     this.eventListeners.clear();
     this.isConnecting = false;
     this.reconnectAttempts = 0;
@@ -176,6 +185,26 @@ class RealtimeClient {
     this.currentTaskRooms.delete(taskId);
   }
 
+  // Live map: receive technician:location events for the tenant
+  joinTrackingRoom(): void {
+    this.isTracking = true;
+    if (!this.socket?.connected) return;
+    this.socket.emit('join:tracking');
+  }
+
+  leaveTrackingRoom(): void {
+    this.isTracking = false;
+    if (!this.socket?.connected) return;
+    this.socket.emit('leave:tracking');
+  }
+
+  // Stream a position from the field app. Returns false when not connected.
+  sendLocation(update: LocationUpdate): boolean {
+    if (!this.socket?.connected) return false;
+    this.socket.emit('location:update', update);
+    return true;
+  }
+
   // Typing indicators
   startTyping(taskId: string): void {
     if (!this.socket?.connected) return;
@@ -0,0 +1,37 @@
+import type { CreateAssetData, UpdateAssetData, AssetSearchParams } from '../models/Asset';
+
+import axiosInstance, { endpoints } from 'src/lib/axios';
+
+// ----------------------------------------------------------------------
+
+export class AssetService {
+  static async getAllAssets(params?: AssetSearchParams) {
+    const response = await axiosInstance.get(endpoints.fsa.assets.list, { params });
+    return response.data;
+  }
+
+  static async getAsset(id: string) {
+    const response = await axiosInstance.get(endpoints.fsa.assets.details(id));
+    return response.data;
+  }
+
+  static async getHistory(id: string) {
+    const response = await axiosInstance.get(endpoints.fsa.assets.history(id));
+    return response.data;
+  }
+
+  static async createAsset(data: CreateAssetData) {
+    const response = await axiosInstance.post(endpoints.fsa.assets.list, data);
+    return response.data;
+  }
+
+  static async updateAsset(id: string, data: UpdateAssetData) {
+    const response = await axiosInstance.put(endpoints.fsa.assets.details(id), data);
+    return response.data;
+  }
+
+  static async deleteAsset(id: string) {
+    const response = await axiosInstance.delete(endpoints.fsa.assets.details(id));
+    return response.data;
+  }
+}
@@ -0,0 +1,27 @@
+import type { AttendanceSettings, AttendanceReviewStatus } from '../models/Attendance';
+
+import axiosInstance, { endpoints } from 'src/lib/axios';
+
+// ----------------------------------------------------------------------
+
+export class AttendanceService {
+  static async updateSettings(settings: Partial<AttendanceSettings>) {
+    const response = await axiosInstance.put(
+      endpoints.fsa.timeEntries.attendanceSettings,
+      settings
+    );
+    return response.data;
+  }
+
+  static async reviewSession(
+    id: string,
+    status: Exclude<AttendanceReviewStatus, 'pending'>,
+    notes?: string
+  ) {
+    const response = await axiosInstance.post(endpoints.fsa.timeEntries.reviewSession(id), {
+      status,
+      notes,
+    });
+    return response.data;
+  }
+}
@@ -0,0 +1,115 @@
+import type { AxiosRequestConfig } from 'axios';
+import type { ServiceRequestData, PortalWorkOrderScope } from '../models/ClientPortal';
+
+import axiosInstance, { endpoints } from 'src/lib/axios';
+
+// ----------------------------------------------------------------------
+
+const PORTAL_TOKEN_KEY = 'portal_access_token';
+
+/**
+ * Portal calls carry the client's session instead of a staff token
+ */
+const withSession = (config: AxiosRequestConfig = {}): AxiosRequestConfig => ({
+  ...config,
+  headers: {
+    ...config.headers,
+    Authorization: `Bearer ${ClientPortalService.getToken() || ''}`,
+  },
+});
+
+const saveBlob = (data: BlobPart, filename: string) => {
+  const blob = new Blob([data], { type: 'application/pdf' });
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+};
+
+// ----------------------------------------------------------------------
+
+export class ClientPortalService {
+  static getToken(): string | null {
+    if (typeof window === 'undefined') return null;
+    return localStorage.getItem(PORTAL_TOKEN_KEY);
+  }
+
+  static setToken(token: string) {
+    localStorage.setItem(PORTAL_TOKEN_KEY, token);
+  }
+
+  static signOut() {
+    localStorage.removeItem(PORTAL_TOKEN_KEY);
+  }
+
+  /**
+   * SWR fetcher for portal endpoints
+   */
+  static async fetcher<T = any>(args: string | [string, AxiosRequestConfig]): Promise<T> {
+    const [url, config] = Array.isArray(args) ? args : [args, {}];
+    const response = await axiosInstance.get<T>(url, withSession(config));
+    return response.data;
+  }
+
+  static async requestLink(tenant: string, email: string) {
+    const response = await axiosInstance.post(endpoints.portal.requestLink, { tenant, email });
+    return response.data;
+  }
+
+  static async createSession(token: string) {
+    const response = await axiosInstance.post(
+      endpoints.portal.session,
+      { token },
+      { skipErrorToast: true }
+    );
+    if (response.data?.data?.accessToken) {
+      this.setToken(response.data.data.accessToken);
+    }
+    return response.data;
+  }
+
+  static async getWorkOrders(scope: PortalWorkOrderScope = 'all') {
+    return this.fetcher([endpoints.portal.workOrders, { params: { scope } }]);
+  }
+
+  static async submitRequest(data: ServiceRequestData) {
+    const response = await axiosInstance.post(endpoints.portal.requests, data, withSession());
+    return response.data;
+  }
+
+  static async acceptQuote(id: string) {
+    const response = await axiosInstance.post(endpoints.portal.acceptQuote(id), {}, withSession());
+    return response.data;
+  }
+
+  static async declineQuote(id: string, reason?: string) {
+    const response = await axiosInstance.post(
+      endpoints.portal.declineQuote(id),
+      { reason },
+      withSession()
+    );
+    return response.data;
+  }
+
+  static async downloadReportPdf(id: string) {
+    const response = await axiosInstance.get(
+      endpoints.portal.reportPdf(id),
+      withSession({ responseType: 'blob' })
+    );
+    saveBlob(response.data, `report-${id}.pdf`);
+    return { success: true };
+  }
+
+  static async downloadQuotePdf(id: string, quoteNumber?: string) {
+    const response = await axiosInstance.get(
+      endpoints.portal.quotePdf(id),
+      withSession({ responseType: 'blob' })
+    );
+    saveBlob(response.data, `${quoteNumber || `quote-${id}`}.pdf`);
+    return { success: true };
+  }
+}
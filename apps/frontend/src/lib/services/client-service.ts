@@ -87,4 +87,17 @@ export const clientService = {
     const response = await axiosInstance.delete(endpoints.fsa.clients.details(id));
     return response.data;
   },
+
+  // Create a client portal link, optionally emailing it to the contact
+  createPortalLink: async (
+    id: string,
+    data: { email?: string; send?: boolean }
+  ): Promise<{
+    success: boolean;
+    data: { magicLink: string; email: string; expiresInHours: number };
+    message?: string;
+  }> => {
+    const response = await axiosInstance.post(endpoints.fsa.clients.portalLink(id), data);
+    return response.data;
+  },
 };
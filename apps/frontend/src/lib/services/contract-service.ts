@@ -0,0 +1,61 @@
+import type {
+  CreateContractData,
+  UpdateContractData,
+  ContractSearchParams,
+} from '../models/Contract';
+
+import axiosInstance, { endpoints } from 'src/lib/axios';
+
+// ----------------------------------------------------------------------
+
+export class ContractService {
+  static async getAllContracts(params?: ContractSearchParams) {
+    const response = await axiosInstance.get(endpoints.fsa.contracts.list, { params });
+    return response.data;
+  }
+
+  static async getContract(id: string) {
+    const response = await axiosInstance.get(endpoints.fsa.contracts.details(id));
+    return response.data;
+  }
+
+  static async createContract(data: CreateContractData) {
+    const response = await axiosInstance.post(endpoints.fsa.contracts.list, data);
+    return response.data;
+  }
+
+  static async updateContract(id: string, data: UpdateContractData) {
+    const response = await axiosInstance.put(endpoints.fsa.contracts.details(id), data);
+    return response.data;
+  }
+
+  static async deleteContract(id: string) {
+    const response = await axiosInstance.delete(endpoints.fsa.contracts.details(id));
+    return response.data;
+  }
+
+  static async activateContract(id: string) {
+    const response = await axiosInstance.post(endpoints.fsa.contracts.activate(id), {});
+    return response.data;
+  }
+
+  static async generateVisits(id: string) {
+    const response = await axiosInstance.post(endpoints.fsa.contracts.generate(id), {});
+    return response.data;
+  }
+
+  static async suspendContract(id: string, reason?: string) {
+    const response = await axiosInstance.post(endpoints.fsa.contracts.suspend(id), { reason });
+    return response.data;
+  }
+
+  static async renewContract(id: string, termMonths?: number) {
+    const response = await axiosInstance.post(endpoints.fsa.contracts.renew(id), { termMonths });
+    return response.data;
+  }
+
+  static async cancelContract(id: string, reason?: string) {
+    const response = await axiosInstance.post(endpoints.fsa.contracts.cancel(id), { reason });
+    return response.data;
+  }
+}
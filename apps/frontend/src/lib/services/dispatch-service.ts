@@ -0,0 +1,20 @@
+import type { ScheduleWorkOrderData } from '../models/Dispatch';
+
+import axiosInstance, { endpoints } from 'src/lib/axios';
+
+// ----------------------------------------------------------------------
+
+export class DispatchService {
+  static async scheduleWorkOrder(data: ScheduleWorkOrderData) {
+    const response = await axiosInstance.post(endpoints.fsa.dispatch.schedule, data);
+    return response.data;
+  }
+
+  static async unscheduleWorkOrder(workOrderId: string, personnelId: string) {
+    const response = await axiosInstance.post(endpoints.fsa.dispatch.unschedule, {
+      workOrderId,
+      personnelId,
+    });
+    return response.data;
+  }
+}
@@ -0,0 +1,37 @@
+import type { InspectionFormData } from '../models/InspectionForm';
+
+import axiosInstance, { endpoints } from 'src/lib/axios';
+
+// ----------------------------------------------------------------------
+
+export class InspectionFormService {
+  static async getAllForms() {
+    const response = await axiosInstance.get(endpoints.fsa.inspectionForms.list);
+    return response.data;
+  }
+
+  static async getApplicableForms(params: { reportType?: string; assetIds?: string[] }) {
+    const response = await axiosInstance.get(endpoints.fsa.inspectionForms.applicable, {
+      params: {
+        reportType: params.reportType,
+        assetIds: params.assetIds?.length ? params.assetIds.join(',') : undefined,
+      },
+    });
+    return response.data;
+  }
+
+  static async createForm(data: InspectionFormData) {
+    const response = await axiosInstance.post(endpoints.fsa.inspectionForms.list, data);
+    return response.data;
+  }
+
+  static async updateForm(id: string, data: Partial<InspectionFormData>) {
+    const response = await axiosInstance.put(endpoints.fsa.inspectionForms.details(id), data);
+    return response.data;
+  }
+
+  static async deleteForm(id: string) {
+    const response = await axiosInstance.delete(endpoints.fsa.inspectionForms.details(id));
+    return response.data;
+  }
+}
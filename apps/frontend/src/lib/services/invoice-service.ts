@@ -0,0 +1,76 @@
+import type { InvoiceOptions, RecordPaymentData, InvoiceSearchParams } from '../models/Invoice';
+
+import axiosInstance, { endpoints } from 'src/lib/axios';
+
+// ----------------------------------------------------------------------
+
+export class InvoiceService {
+  static async getAllInvoices(params?: InvoiceSearchParams) {
+    const response = await axiosInstance.get(endpoints.fsa.invoices.list, { params });
+    return response.data;
+  }
+
+  static async getInvoice(id: string) {
+    const response = await axiosInstance.get(endpoints.fsa.invoices.details(id));
+    return response.data;
+  }
+
+  static async getBillableItems() {
+    const response = await axiosInstance.get(endpoints.fsa.invoices.billable);
+    return response.data;
+  }
+
+  static async createFromWorkOrder(workOrderId: string, options?: InvoiceOptions) {
+    const response = await axiosInstance.post(
+      endpoints.fsa.invoices.fromWorkOrder(workOrderId),
+      options || {}
+    );
+    return response.data;
+  }
+
+  static async createFromReports(reportIds: string[], options?: InvoiceOptions) {
+    const response = await axiosInstance.post(endpoints.fsa.invoices.fromReports, {
+      reportIds,
+      ...options,
+    });
+    return response.data;
+  }
+
+  static async issueInvoice(id: string) {
+    const response = await axiosInstance.post(endpoints.fsa.invoices.issue(id), {});
+    return response.data;
+  }
+
+  static async recordPayment(id: string, data: RecordPaymentData) {
+    const response = await axiosInstance.post(endpoints.fsa.invoices.payments(id), data);
+    return response.data;
+  }
+
+  static async voidInvoice(id: string, reason?: string) {
+    const response = await axiosInstance.post(endpoints.fsa.invoices.void(id), { reason });
+    return response.data;
+  }
+
+  static async deleteInvoice(id: string) {
+    const response = await axiosInstance.delete(endpoints.fsa.invoices.details(id));
+    return response.data;
+  }
+
+  static async downloadInvoicePdf(id: string, invoiceNumber?: string) {
+    const response = await axiosInstance.get(endpoints.fsa.invoices.pdf(id), {
+      responseType: 'blob',
+    });
+
+    const blob = new Blob([response.data], { type: 'application/pdf' });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${invoiceNumber || `invoice-draft-${id}`}.pdf`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(url);
+
+    return { success: true };
+  }
+}
@@ -1,4 +1,8 @@
 import type {
+  AdjustStockData,
+  ReceiveStockData,
+  StockMovementType,
+  TransferStockData,
   CreateMaterialData,
   UpdateMaterialData,
   MaterialSearchParams,
@@ -56,6 +60,48 @@ export class MaterialService {
     return response.data;
   }
 
+  static async getStock(id: string) {
+    const response = await axiosInstance.get(endpoints.fsa.materials.stock(id));
+    return response.data;
+  }
+
+  static async getMovements(params?: {
+    materialId?: string;
+    workOrderId?: string;
+    locationId?: string;
+    type?: StockMovementType;
+    limit?: number;
+    offset?: number;
+  }) {
+    const response = await axiosInstance.get(endpoints.fsa.materials.movements, { params });
+    return response.data;
+  }
+
+  static async getLowStock() {
+    const response = await axiosInstance.get(endpoints.fsa.materials.lowStock);
+    return response.data;
+  }
+
+  static async receiveStock(id: string, data: ReceiveStockData) {
+    const response = await axiosInstance.post(endpoints.fsa.materials.receive(id), data);
+    return response.data;
+  }
+
+  static async adjustStock(id: string, data: AdjustStockData) {
+    const response = await axiosInstance.post(endpoints.fsa.materials.adjust(id), data);
+    return response.data;
+  }
+
+  static async transferStock(id: string, data: TransferStockData) {
+    const response = await axiosInstance.post(endpoints.fsa.materials.transfer(id), data);
+    return response.data;
+  }
+
+  static async recalculateStock(id: string) {
+    const response = await axiosInstance.post(endpoints.fsa.materials.recalculate(id), {});
+    return response.data;
+  }
+
   static generateSampleCSVData(): string {
     const headers = [
       'name',
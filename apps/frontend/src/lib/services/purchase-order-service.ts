@@ -0,0 +1,67 @@
+import type {
+  CostingMethod,
+  CreatePurchaseOrderData,
+  UpdatePurchaseOrderData,
+  ReceivePurchaseOrderData,
+  PurchaseOrderSearchParams,
+} from '../models/PurchaseOrder';
+
+import axiosInstance, { endpoints } from 'src/lib/axios';
+
+// ----------------------------------------------------------------------
+
+export class PurchaseOrderService {
+  static async getAllPurchaseOrders(params?: PurchaseOrderSearchParams) {
+    const response = await axiosInstance.get(endpoints.fsa.purchaseOrders.list, { params });
+    return response.data;
+  }
+
+  static async getPurchaseOrder(id: string) {
+    const response = await axiosInstance.get(endpoints.fsa.purchaseOrders.details(id));
+    return response.data;
+  }
+
+  static async createPurchaseOrder(data: CreatePurchaseOrderData) {
+    const response = await axiosInstance.post(endpoints.fsa.purchaseOrders.list, data);
+    return response.data;
+  }
+
+  static async updatePurchaseOrder(id: string, data: UpdatePurchaseOrderData) {
+    const response = await axiosInstance.put(endpoints.fsa.purchaseOrders.details(id), data);
+    return response.data;
+  }
+
+  static async deletePurchaseOrder(id: string) {
+    const response = await axiosInstance.delete(endpoints.fsa.purchaseOrders.details(id));
+    return response.data;
+  }
+
+  static async sendPurchaseOrder(id: string) {
+    const response = await axiosInstance.post(endpoints.fsa.purchaseOrders.send(id), {});
+    return response.data;
+  }
+
+  static async receivePurchaseOrder(id: string, data: ReceivePurchaseOrderData) {
+    const response = await axiosInstance.post(endpoints.fsa.purchaseOrders.receive(id), data);
+    return response.data;
+  }
+
+  static async cancelPurchaseOrder(id: string, reason?: string) {
+    const response = await axiosInstance.post(endpoints.fsa.purchaseOrders.cancel(id), { reason });
+    return response.data;
+  }
+
+  static async getSuggestions(supplierId?: string) {
+    const response = await axiosInstance.get(endpoints.fsa.purchaseOrders.suggestions, {
+      params: { supplierId: supplierId || undefined },
+    });
+    return response.data;
+  }
+
+  static async updateCostingMethod(costingMethod: CostingMethod) {
+    const response = await axiosInstance.put(endpoints.fsa.purchaseOrders.settings, {
+      costingMethod,
+    });
+    return response.data;
+  }
+}
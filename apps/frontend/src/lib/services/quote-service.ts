@@ -0,0 +1,65 @@
+import type { CreateQuoteData, UpdateQuoteData, QuoteSearchParams } from '../models/Quote';
+
+import axiosInstance, { endpoints } from 'src/lib/axios';
+
+// ----------------------------------------------------------------------
+
+export class QuoteService {
+  static async getAllQuotes(params?: QuoteSearchParams) {
+    const response = await axiosInstance.get(endpoints.fsa.quotes.list, { params });
+    return response.data;
+  }
+
+  static async getQuote(id: string) {
+    const response = await axiosInstance.get(endpoints.fsa.quotes.details(id));
+    return response.data;
+  }
+
+  static async createQuote(data: CreateQuoteData) {
+    const response = await axiosInstance.post(endpoints.fsa.quotes.list, data);
+    return response.data;
+  }
+
+  static async updateQuote(id: string, data: UpdateQuoteData) {
+    const response = await axiosInstance.put(endpoints.fsa.quotes.details(id), data);
+    return response.data;
+  }
+
+  static async deleteQuote(id: string) {
+    const response = await axiosInstance.delete(endpoints.fsa.quotes.details(id));
+    return response.data;
+  }
+
+  static async sendQuote(id: string) {
+    const response = await axiosInstance.post(endpoints.fsa.quotes.send(id), {});
+    return response.data;
+  }
+
+  static async acceptQuote(id: string, data?: { scheduledDate?: string; priority?: string }) {
+    const response = await axiosInstance.post(endpoints.fsa.quotes.accept(id), data || {});
+    return response.data;
+  }
+
+  static async declineQuote(id: string, reason?: string) {
+    const response = await axiosInstance.post(endpoints.fsa.quotes.decline(id), { reason });
+    return response.data;
+  }
+
+  static async downloadQuotePdf(id: string, quoteNumber?: string) {
+    const response = await axiosInstance.get(endpoints.fsa.quotes.pdf(id), {
+      responseType: 'blob',
+    });
+
+    const blob = new Blob([response.data], { type: 'application/pdf' });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${quoteNumber || `quote-${id}`}.pdf`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(url);
+
+    return { success: true };
+  }
+}
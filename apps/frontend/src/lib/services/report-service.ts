@@ -12,6 +12,15 @@ import axiosInstance, { endpoints } from 'src/lib/axios';
 
 // ----------------------------------------------------------------------
 
+export type ReportExportFormat = 'pdf' | 'docx' | 'xlsx' | 'csv';
+
+const EXPORT_MIME_TYPES: Record<ReportExportFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  csv: 'text/csv',
+};
+
 export class ReportService {
   static async getAllReports(params?: ReportSearchParams) {
     const response = await axiosInstance.get(endpoints.fsa.reports.list, { params });
@@ -127,26 +136,19 @@ export class ReportService {
   }
 
   // Export functionality
-  static async exportReport(reportId: string, format: 'pdf' | 'excel' | 'word' = 'pdf') {
+  static async exportReport(reportId: string, format: ReportExportFormat = 'pdf') {
     const response = await axiosInstance.get(endpoints.fsa.reports.export(reportId), {
       params: { format },
       responseType: 'blob',
     });
 
     // Create download link
-    const blob = new Blob([response.data], {
-      type:
-        format === 'pdf'
-          ? 'application/pdf'
-          : format === 'excel'
-            ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
-            : 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    });
+    const blob = new Blob([response.data], { type: EXPORT_MIME_TYPES[format] });
 
     const url = window.URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = `report-${reportId}.${format === 'excel' ? 'xlsx' : format === 'word' ? 'docx' : 'pdf'}`;
+    link.download = `report-${reportId}.${format}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
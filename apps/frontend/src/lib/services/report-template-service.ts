@@ -0,0 +1,53 @@
+import type { ReportTemplateData, ReportTemplateConfig } from '../models/ReportTemplate';
+
+import axiosInstance, { endpoints } from 'src/lib/axios';
+
+// ----------------------------------------------------------------------
+
+export class ReportTemplateService {
+  static async getAllTemplates() {
+    const response = await axiosInstance.get(endpoints.fsa.reportTemplates.list);
+    return response.data;
+  }
+
+  static async getDefaults() {
+    const response = await axiosInstance.get(endpoints.fsa.reportTemplates.defaults);
+    return response.data;
+  }
+
+  static async createTemplate(data: ReportTemplateData) {
+    const response = await axiosInstance.post(endpoints.fsa.reportTemplates.list, data);
+    return response.data;
+  }
+
+  static async updateTemplate(id: string, data: Partial<ReportTemplateData>) {
+    const response = await axiosInstance.put(endpoints.fsa.reportTemplates.details(id), data);
+    return response.data;
+  }
+
+  static async setDefaultTemplate(id: string) {
+    const response = await axiosInstance.post(endpoints.fsa.reportTemplates.setDefault(id), {});
+    return response.data;
+  }
+
+  static async deleteTemplate(id: string) {
+    const response = await axiosInstance.delete(endpoints.fsa.reportTemplates.details(id));
+    return response.data;
+  }
+
+  /**
+   * Render a preview PDF and return an object URL; callers revoke it when done
+   */
+  static async previewTemplate(payload: {
+    template?: ReportTemplateConfig;
+    templateId?: string;
+    reportId?: string;
+  }) {
+    const response = await axiosInstance.post(endpoints.fsa.reportTemplates.preview, payload, {
+      responseType: 'blob',
+    });
+
+    const blob = new Blob([response.data], { type: 'application/pdf' });
+    return window.URL.createObjectURL(blob);
+  }
+}
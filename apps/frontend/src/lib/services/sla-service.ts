@@ -0,0 +1,22 @@
+import type { SlaPolicyInput } from '../models/SlaPolicy';
+
+import axiosInstance, { endpoints } from 'src/lib/axios';
+
+// ----------------------------------------------------------------------
+
+export class SlaService {
+  static async createPolicy(data: SlaPolicyInput) {
+    const response = await axiosInstance.post(endpoints.fsa.sla.policies, data);
+    return response.data;
+  }
+
+  static async updatePolicy(id: string, data: Partial<SlaPolicyInput>) {
+    const response = await axiosInstance.put(endpoints.fsa.sla.policy(id), data);
+    return response.data;
+  }
+
+  static async deletePolicy(id: string) {
+    const response = await axiosInstance.delete(endpoints.fsa.sla.policy(id));
+    return response.data;
+  }
+}
@@ -0,0 +1,37 @@
+import type { StockLocationData } from '../models/Material';
+
+import axiosInstance, { endpoints } from 'src/lib/axios';
+
+// ----------------------------------------------------------------------
+
+export class StockLocationService {
+  static async getLocations(params?: { includeInactive?: boolean }) {
+    const response = await axiosInstance.get(endpoints.fsa.stockLocations.list, { params });
+    return response.data;
+  }
+
+  static async getLocationStock(id: string) {
+    const response = await axiosInstance.get(endpoints.fsa.stockLocations.stock(id));
+    return response.data;
+  }
+
+  static async createLocation(data: StockLocationData) {
+    const response = await axiosInstance.post(endpoints.fsa.stockLocations.list, data);
+    return response.data;
+  }
+
+  static async updateLocation(id: string, data: Partial<StockLocationData>) {
+    const response = await axiosInstance.put(endpoints.fsa.stockLocations.details(id), data);
+    return response.data;
+  }
+
+  static async deleteLocation(id: string) {
+    const response = await axiosInstance.delete(endpoints.fsa.stockLocations.details(id));
+    return response.data;
+  }
+
+  static async syncVehicles() {
+    const response = await axiosInstance.post(endpoints.fsa.stockLocations.syncVehicles, {});
+    return response.data;
+  }
+}
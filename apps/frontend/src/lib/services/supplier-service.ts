@@ -0,0 +1,27 @@
+import type { CreateSupplierData, UpdateSupplierData } from '../models/PurchaseOrder';
+
+import axiosInstance, { endpoints } from 'src/lib/axios';
+
+// ----------------------------------------------------------------------
+
+export class SupplierService {
+  static async getAllSuppliers(params?: { q?: string; isActive?: string; limit?: number }) {
+    const response = await axiosInstance.get(endpoints.fsa.suppliers.list, { params });
+    return response.data;
+  }
+
+  static async createSupplier(data: CreateSupplierData) {
+    const response = await axiosInstance.post(endpoints.fsa.suppliers.list, data);
+    return response.data;
+  }
+
+  static async updateSupplier(id: string, data: UpdateSupplierData) {
+    const response = await axiosInstance.put(endpoints.fsa.suppliers.details(id), data);
+    return response.data;
+  }
+
+  static async deleteSupplier(id: string) {
+    const response = await axiosInstance.delete(endpoints.fsa.suppliers.details(id));
+    return response.data;
+  }
+}
@@ -0,0 +1,64 @@
+import type { PayrollExportParams } from '../models/Timesheet';
+
+import axiosInstance, { endpoints } from 'src/lib/axios';
+
+// ----------------------------------------------------------------------
+
+const EXPORT_MIME_TYPES = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export class TimesheetService {
+  static async getWeek(date: string, personnelId?: string) {
+    const response = await axiosInstance.get(endpoints.fsa.timesheets.week, {
+      params: { date, personnelId },
+    });
+    return response.data;
+  }
+
+  static async submit(id: string, comment?: string) {
+    const response = await axiosInstance.post(endpoints.fsa.timesheets.submit(id), { comment });
+    return response.data;
+  }
+
+  static async approve(id: string, comment?: string) {
+    const response = await axiosInstance.post(endpoints.fsa.timesheets.approve(id), { comment });
+    return response.data;
+  }
+
+  static async reject(id: string, comment: string) {
+    const response = await axiosInstance.post(endpoints.fsa.timesheets.reject(id), { comment });
+    return response.data;
+  }
+
+  static async reopen(id: string, comment?: string) {
+    const response = await axiosInstance.post(endpoints.fsa.timesheets.reopen(id), { comment });
+    return response.data;
+  }
+
+  static async addComment(id: string, comment: string) {
+    const response = await axiosInstance.post(endpoints.fsa.timesheets.comments(id), { comment });
+    return response.data;
+  }
+
+  static async exportPayroll(params: PayrollExportParams) {
+    const response = await axiosInstance.get(endpoints.fsa.timesheets.payrollExport, {
+      params,
+      responseType: 'blob',
+    });
+
+    const blob = new Blob([response.data], { type: EXPORT_MIME_TYPES[params.format] });
+
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `payroll-${params.from}-${params.to}.${params.format}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(url);
+
+    return { success: true, message: 'Payroll downloaded successfully' };
+  }
+}
@@ -1,3 +1,5 @@
+import type { IWorkOrderSla } from '../models/SlaPolicy';
+
 import axiosInstance, { endpoints } from 'src/lib/axios';
 
 // ----------------------------------------------------------------------
@@ -11,7 +13,11 @@ export interface WorkOrder {
   details: string; // Rich text content from TipTap
   priority: 'low' | 'medium' | 'high' | 'urgent';
   status: 'created' | 'assigned' | 'in-progress' | 'completed' | 'cancelled' | 'on-hold';
+  workflowStatus?: string; // Tenant-defined status; `status` is its category
+  sla?: IWorkOrderSla;
   tags: string[]; // Array of tags instead of single category
+  requiredSkills?: string[];
+  requiredCertifications?: string[];
   location: {
     address: string;
     coordinates?: {
@@ -53,6 +59,8 @@ export interface CreateWorkOrderRequest {
   details: string; // Rich text content from TipTap
   priority: 'low' | 'medium' | 'high' | 'urgent';
   tags: string[]; // Array of tags instead of single category
+  requiredSkills?: string[];
+  requiredCertifications?: string[];
   location: {
     address: string;
     coordinates?: {
@@ -76,6 +84,8 @@ export interface UpdateWorkOrderRequest {
   priority?: 'low' | 'medium' | 'high' | 'urgent';
   status?: 'created' | 'assigned' | 'in-progress' | 'completed' | 'cancelled' | 'on-hold';
   tags?: string[]; // Array of tags instead of single category
+  requiredSkills?: string[];
+  requiredCertifications?: string[];
   location?: {
     address: string;
     coordinates?: {
@@ -121,6 +131,47 @@ export interface WorkOrderResponse {
   data: WorkOrder;
 }
 
+export interface AssignmentSuggestion {
+  personnel: {
+    _id: string;
+    name: string;
+    employeeId: string;
+    skills: string[];
+    certifications: string[];
+  };
+  score: number;
+  breakdown: {
+    skills: number;
+    availability: number;
+    load: number;
+    distance: number;
+  };
+  matchedSkills: string[];
+  missingSkills: string[];
+  available: boolean | null;
+  scheduledWorkOrders: number;
+  openTasks: number;
+  distanceKm: number | null;
+  alreadyAssigned: boolean;
+}
+
+export interface AssignmentSuggestionsResponse {
+  success: boolean;
+  data: {
+    workOrder: {
+      _id: string;
+      requiredSkills: string[];
+      requiredCertifications: string[];
+      scheduledDate?: string;
+    };
+    suggestions: AssignmentSuggestion[];
+    excluded: Array<{
+      personnel: { _id: string; name: string; employeeId: string };
+      missingCertifications: string[];
+    }>;
+  };
+}
+
 // ----------------------------------------------------------------------
 
 export const workOrderService = {
@@ -155,6 +206,29 @@ export const workOrderService = {
     return response.data;
   },
 
+  // Rank personnel for assignment
+  getAssignmentSuggestions: async (
+    id: string,
+    params?: { limit?: number; includeAssigned?: boolean }
+  ): Promise<AssignmentSuggestionsResponse> => {
+    const response = await axiosInstance.get(endpoints.fsa.workOrders.assignmentSuggestions(id), {
+      params,
+    });
+    return response.data;
+  },
+
+  // Assign accepted suggestions and propagate them to the work order's tasks
+  acceptAssignmentSuggestions: async (
+    id: string,
+    personnelIds: string[]
+  ): Promise<WorkOrderResponse> => {
+    const response = await axiosInstance.post(
+      endpoints.fsa.workOrders.acceptAssignmentSuggestions(id),
+      { personnelIds }
+    );
+    return response.data;
+  },
+
   // Delete work order
   deleteWorkOrder: async (id: string): Promise<{ success: boolean; message: string }> => {
     const response = await axiosInstance.delete(endpoints.fsa.workOrders.details(id));
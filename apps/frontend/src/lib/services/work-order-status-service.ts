@@ -0,0 +1,30 @@
+import type { WorkOrderStatusInput } from '../models/WorkOrderStatus';
+
+import axiosInstance, { endpoints } from 'src/lib/axios';
+
+// ----------------------------------------------------------------------
+
+export class WorkOrderStatusService {
+  static async createStatus(data: WorkOrderStatusInput) {
+    const response = await axiosInstance.post(endpoints.fsa.workOrderStatuses.list, data);
+    return response.data;
+  }
+
+  static async updateStatus(id: string, data: Partial<WorkOrderStatusInput>) {
+    const response = await axiosInstance.put(endpoints.fsa.workOrderStatuses.details(id), data);
+    return response.data;
+  }
+
+  static async deleteStatus(id: string) {
+    const response = await axiosInstance.delete(endpoints.fsa.workOrderStatuses.details(id));
+    return response.data;
+  }
+
+  static async transition(workOrderId: string, to: string, notes?: string) {
+    const response = await axiosInstance.post(endpoints.fsa.workOrders.transition(workOrderId), {
+      to,
+      notes,
+    });
+    return response.data;
+  }
+}
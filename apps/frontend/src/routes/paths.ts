@@ -28,6 +28,13 @@ export const paths = {
   figmaUrl: '#',
   documentation: '/docs',
 
+  // CLIENT PORTAL
+  portal: {
+    root: '/portal',
+    signIn: '/portal/sign-in',
+    verify: '/portal/verify',
+  },
+
   // AUTH
   auth: {
     jwt: {
@@ -95,12 +102,15 @@ export const paths = {
       personnel: {
         root: `${ROOTS.DASHBOARD}/personnel`,
         new: `${ROOTS.DASHBOARD}/personnel/new`,
+        attendance: `${ROOTS.DASHBOARD}/personnel/attendance`,
+        timesheets: `${ROOTS.DASHBOARD}/personnel/timesheets`,
         details: (id: string) => `${ROOTS.DASHBOARD}/personnel/${id}`,
         edit: (id: string) => `${ROOTS.DASHBOARD}/personnel/${id}/edit`,
       },
       materials: {
         root: `${ROOTS.DASHBOARD}/materials`,
         new: `${ROOTS.DASHBOARD}/materials/new`,
+        locations: `${ROOTS.DASHBOARD}/materials/locations`,
         details: (id: string) => `${ROOTS.DASHBOARD}/materials/${id}`,
         edit: (id: string) => `${ROOTS.DASHBOARD}/materials/${id}/edit`,
       },
@@ -112,6 +122,30 @@ export const paths = {
       },
       scheduling: `${ROOTS.DASHBOARD}/scheduling`,
       reports: `${ROOTS.DASHBOARD}/reports`,
+      quotes: {
+        root: `${ROOTS.DASHBOARD}/quotes`,
+      },
+      invoices: {
+        root: `${ROOTS.DASHBOARD}/invoices`,
+      },
+      contracts: {
+        root: `${ROOTS.DASHBOARD}/contracts`,
+      },
+      assets: {
+        root: `${ROOTS.DASHBOARD}/assets`,
+        details: (id: string) => `${ROOTS.DASHBOARD}/assets/${id}`,
+      },
+      purchaseOrders: {
+        root: `${ROOTS.DASHBOARD}/purchase-orders`,
+      },
+      suppliers: {
+        root: `${ROOTS.DASHBOARD}/suppliers`,
+      },
+      dispatch: {
+        root: `${ROOTS.DASHBOARD}/dispatch`,
+        board: `${ROOTS.DASHBOARD}/dispatch/board`,
+        live: `${ROOTS.DASHBOARD}/dispatch/live`,
+      },
     },
     // Settings
     settings: {
@@ -120,6 +154,10 @@ export const paths = {
       apiKeys: `${ROOTS.DASHBOARD}/settings/api-keys`,
       smsReminders: `${ROOTS.DASHBOARD}/settings/sms-reminders`,
       company: `${ROOTS.DASHBOARD}/settings/company`,
+      reportTemplates: `${ROOTS.DASHBOARD}/settings/report-templates`,
+      inspectionForms: `${ROOTS.DASHBOARD}/settings/inspection-forms`,
+      workOrderStatuses: `${ROOTS.DASHBOARD}/settings/work-order-statuses`,
+      slaPolicies: `${ROOTS.DASHBOARD}/settings/sla-policies`,
       support: `${ROOTS.DASHBOARD}/settings/support`,
     },
   },
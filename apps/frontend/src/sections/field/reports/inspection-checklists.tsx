@@ -0,0 +1,468 @@
+'use client';
+
+import type {
+  SubmittedInspection,
+  IInspectionFormField,
+  ApplicableInspectionForm,
+} from 'src/lib/models/InspectionForm';
+
+import useSWR from 'swr';
+import { useRef, useState, useEffect } from 'react';
+
+import {
+  Box,
+  Card,
+  Chip,
+  Stack,
+  Button,
+  MenuItem,
+  TextField,
+  IconButton,
+  Typography,
+  ToggleButton,
+  InputAdornment,
+  ToggleButtonGroup,
+} from '@mui/material';
+
+import { useTranslate } from 'src/locales/use-locales';
+import axiosInstance, { fetcher, endpoints } from 'src/lib/axios';
+
+import { toast } from 'src/components/snackbar';
+import { Iconify } from 'src/components/iconify';
+
+// ----------------------------------------------------------------------
+
+type Answer = SubmittedInspection['answers'][number];
+
+type Props = {
+  reportType?: string;
+  assetIds?: string[];
+  value: SubmittedInspection[];
+  onChange: (inspections: SubmittedInspection[]) => void;
+};
+
+const entryKey = (formId: string, assetId?: string) => `${formId}:${assetId || ''}`;
+
+// Mirrors how the API judges answers, so failures are flagged while filling in
+const isFailing = (field: IInspectionFormField, value: any) => {
+  if (value === undefined || value === '' || value === null) return false;
+  if (field.type === 'yes_no' || field.type === 'select') {
+    return field.failOptions.includes(String(value));
+  }
+  if (field.type === 'number') {
+    const reading = Number(value);
+    return (
+      (field.min !== undefined && reading < field.min) ||
+      (field.max !== undefined && reading > field.max)
+    );
+  }
+  return false;
+};
+
+export function InspectionChecklists({ reportType, assetIds = [], value, onChange }: Props) {
+  const { t } = useTranslate('field');
+
+  const { data } = useSWR(
+    reportType
+      ? [
+          endpoints.fsa.inspectionForms.applicable,
+          {
+            params: {
+              reportType,
+              assetIds: assetIds.length ? assetIds.join(',') : undefined,
+            },
+          },
+        ]
+      : null,
+    fetcher<any>
+  );
+  const applicable: ApplicableInspectionForm[] = data?.data || [];
+
+  // Keep one entry per applicable form, holding on to answers already given
+  const applicableKey = applicable.map((a) => entryKey(a.form._id, a.assetId)).join('|');
+  useEffect(() => {
+    if (!data) return;
+    const existing = new Map(value.map((entry) => [entryKey(entry.formId, entry.assetId), entry]));
+    onChange(
+      applicable.map(
+        (a) =>
+          existing.get(entryKey(a.form._id, a.assetId)) || {
+            formId: a.form._id,
+            assetId: a.assetId,
+            answers: [],
+          }
+      )
+    );
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [applicableKey, data]);
+
+  const setAnswer = (
+    formId: string,
+    assetId: string | undefined,
+    fieldKey: string,
+    changes: Partial<Answer>
+  ) => {
+    onChange(
+      value.map((entry) => {
+        if (entryKey(entry.formId, entry.assetId) !== entryKey(formId, assetId)) return entry;
+        const current = entry.answers.find((answer) => answer.fieldKey === fieldKey);
+        return {
+          ...entry,
+          answers: current
+            ? entry.answers.map((answer) =>
+                answer.fieldKey === fieldKey ? { ...answer, ...changes } : answer
+              )
+            : [...entry.answers, { fieldKey, ...changes }],
+        };
+      })
+    );
+  };
+
+  if (applicable.length === 0) return null;
+
+  return (
+    <Box>
+      <Typography
+        variant="subtitle2"
+        sx={{ mb: 0.5, fontWeight: 600, fontSize: { xs: '0.9rem', sm: '1rem' } }}
+      >
+        {t('reports.create.inspections.title')}
+      </Typography>
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 2 }}>
+        {t('reports.create.inspections.helperText')}
+      </Typography>
+
+      <Stack spacing={2}>
+        {applicable.map(({ form, assetId, assetName }) => {
+          const entry = value.find(
+            (e) => entryKey(e.formId, e.assetId) === entryKey(form._id, assetId)
+          );
+          const answerFor = (key: string) => entry?.answers.find((a) => a.fieldKey === key);
+          const failed = form.fields.filter((field) =>
+            isFailing(field, answerFor(field.key)?.value)
+          ).length;
+
+          let currentSection: string | undefined;
+
+          return (
+            <Card key={entryKey(form._id, assetId)} variant="outlined" sx={{ p: 2 }}>
+              <Stack
+                direction="row"
+                alignItems="center"
+                justifyContent="space-between"
+                sx={{ mb: 2 }}
+              >
+                <Box>
+                  <Typography variant="subtitle2">{form.name}</Typography>
+                  {assetName && (
+                    <Typography variant="caption" color="text.secondary">
+                      {assetName}
+                    </Typography>
+                  )}
+                </Box>
+                {failed > 0 && (
+                  <Chip
+                    size="small"
+                    color="error"
+                    label={t('reports.create.inspections.failedCount', { count: failed })}
+                  />
+                )}
+              </Stack>
+
+              <Stack spacing={2}>
+                {form.fields.map((field) => {
+                  const answer = answerFor(field.key);
+                  const showSection = field.section && field.section !== currentSection;
+                  currentSection = field.section;
+                  const update = (changes: Partial<Answer>) =>
+                    setAnswer(form._id, assetId, field.key, changes);
+
+                  return (
+                    <Box key={field.key}>
+                      {showSection && (
+                        <Typography
+                          variant="overline"
+                          color="text.secondary"
+                          sx={{ display: 'block', mb: 1 }}
+                        >
+                          {field.section}
+                        </Typography>
+                      )}
+                      <Typography variant="body2" sx={{ mb: 0.5 }}>
+                        {field.label}
+                        {field.required && ' *'}
+                      </Typography>
+                      {field.helpText && (
+                        <Typography
+                          variant="caption"
+                          color="text.secondary"
+                          sx={{ display: 'block', mb: 1 }}
+                        >
+                          {field.helpText}
+                        </Typography>
+                      )}
+
+                      <InspectionFieldInput
+                        field={field}
+                        value={answer?.value}
+                        onChange={(next) => update({ value: next })}
+                      />
+
+                      {isFailing(field, answer?.value) && (
+                        <TextField
+                          fullWidth
+                          size="small"
+                          label={t('reports.create.inspections.notes')}
+                          value={answer?.notes || ''}
+                          onChange={(e) => update({ notes: e.target.value })}
+                          sx={{ mt: 1 }}
+                        />
+                      )}
+                    </Box>
+                  );
+                })}
+              </Stack>
+            </Card>
+          );
+        })}
+      </Stack>
+    </Box>
+  );
+}
+
+// ----------------------------------------------------------------------
+
+type FieldInputProps = {
+  field: IInspectionFormField;
+  value: any;
+  onChange: (value: any) => void;
+};
+
+function InspectionFieldInput({ field, value, onChange }: FieldInputProps) {
+  const { t } = useTranslate('field');
+  const [uploading, setUploading] = useState(false);
+
+  switch (field.type) {
+    case 'yes_no':
+      return (
+        <ToggleButtonGroup
+          exclusive
+          size="small"
+          value={value ?? null}
+          onChange={(_, next) => onChange(next ?? undefined)}
+        >
+          <ToggleButton value="yes" color={field.failOptions.includes('yes') ? 'error' : 'success'}>
+            {t('reports.create.inspections.yes')}
+          </ToggleButton>
+          <ToggleButton value="no" color={field.failOptions.includes('no') ? 'error' : 'success'}>
+            {t('reports.create.inspections.no')}
+          </ToggleButton>
+          <ToggleButton value="n/a">{t('reports.create.inspections.na')}</ToggleButton>
+        </ToggleButtonGroup>
+      );
+
+    case 'number': {
+      const range = [
+        field.min !== undefined && `≥ ${field.min}`,
+        field.max !== undefined && `≤ ${field.max}`,
+      ]
+        .filter(Boolean)
+        .join(', ');
+      return (
+        <TextField
+          size="small"
+          type="number"
+          value={value ?? ''}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+          error={isFailing(field, value)}
+          helperText={range ? t('reports.create.inspections.range', { range }) : undefined}
+          slotProps={{
+            input: field.unit
+              ? { endAdornment: <InputAdornment position="end">{field.unit}</InputAdornment> }
+              : undefined,
+          }}
+          sx={{ maxWidth: 240 }}
+        />
+      );
+    }
+
+    case 'select':
+      return (
+        <TextField
+          select
+          fullWidth
+          size="small"
+          value={value ?? ''}
+          onChange={(e) => onChange(e.target.value || undefined)}
+          error={isFailing(field, value)}
+        >
+          <MenuItem value="">-</MenuItem>
+          {field.options.map((option) => (
+            <MenuItem key={option} value={option}>
+              {option}
+            </MenuItem>
+          ))}
+        </TextField>
+      );
+
+    case 'photo': {
+      const photos: string[] = Array.isArray(value) ? value : [];
+      const handleUpload = async (files: FileList | null) => {
+        if (!files?.length) return;
+        try {
+          setUploading(true);
+          const form = new FormData();
+          form.append('scope', 'report');
+          Array.from(files).forEach((file) => form.append('files', file));
+          const response = await axiosInstance.post('/api/v1/uploads', form, {
+            headers: { 'Content-Type': undefined },
+          });
+          const urls = (response.data?.data || []).map((f: any) => f.url);
+          onChange([...photos, ...urls]);
+        } catch (error) {
+          console.error('Inspection photo upload failed:', error);
+          toast.error(t('reports.create.inspections.uploadFailed'));
+        } finally {
+          setUploading(false);
+        }
+      };
+
+      return (
+        <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap alignItems="center">
+          {photos.map((url) => (
+            <Box key={url} sx={{ position: 'relative' }}>
+              <Box
+                component="img"
+                src={url}
+                sx={{ width: 72, height: 72, objectFit: 'cover', borderRadius: 1 }}
+              />
+              <IconButton
+                size="small"
+                onClick={() => onChange(photos.filter((p) => p !== url))}
+                sx={{ position: 'absolute', top: -8, right: -8, bgcolor: 'background.paper' }}
+              >
+                <Iconify icon="mingcute:close-line" width={14} />
+              </IconButton>
+            </Box>
+          ))}
+          <Button
+            component="label"
+            size="small"
+            variant="outlined"
+            loading={uploading}
+            startIcon={<Iconify icon="solar:camera-add-bold" />}
+          >
+            {t('reports.create.inspections.addPhoto')}
+            <input
+              hidden
+              type="file"
+              accept="image/*"
+              capture="environment"
+              multiple
+              onChange={(e) => handleUpload(e.target.files)}
+            />
+          </Button>
+        </Stack>
+      );
+    }
+
+    case 'signature':
+      return <SignaturePad value={value} onChange={onChange} />;
+
+    default:
+      return (
+        <TextField
+          fullWidth
+          multiline
+          minRows={2}
+          size="small"
+          value={value ?? ''}
+          onChange={(e) => onChange(e.target.value || undefined)}
+        />
+      );
+  }
+}
+
+// ----------------------------------------------------------------------
+
+type SignaturePadProps = {
+  value?: string;
+  onChange: (value?: string) => void;
+};
+
+function SignaturePad({ value, onChange }: SignaturePadProps) {
+  const { t } = useTranslate('field');
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+
+  const point = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    drawing.current = true;
+    canvasRef.current!.setPointerCapture(e.pointerId);
+    const { x, y } = point(e);
+    ctx.lineWidth = 2;
+    ctx.lineCap = 'round';
+    ctx.strokeStyle = '#000000';
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const { x, y } = point(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+  };
+
+  const handlePointerUp = () => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    onChange(canvasRef.current?.toDataURL('image/png'));
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(undefined);
+  };
+
+  return (
+    <Stack spacing={1} alignItems="flex-start">
+      <Box
+        component="canvas"
+        ref={canvasRef}
+        width={400}
+        height={150}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        sx={{
+          width: '100%',
+          maxWidth: 400,
+          height: 150,
+          border: 1,
+          borderColor: value ? 'success.main' : 'divider',
+          borderRadius: 1,
+          bgcolor: 'common.white',
+          touchAction: 'none',
+        }}
+      />
+      <Button size="small" onClick={handleClear} disabled={!value}>
+        {t('reports.create.inspections.clear')}
+      </Button>
+    </Stack>
+  );
+}
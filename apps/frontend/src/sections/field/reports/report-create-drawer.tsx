@@ -1,6 +1,7 @@
 'use client';
 
 import type { IReport, CreateReportData } from 'src/lib/models/Report';
+import type { SubmittedInspection } from 'src/lib/models/InspectionForm';
 
 import useSWR from 'swr';
 import { z as zod } from 'zod';
@@ -11,19 +12,27 @@ import { useRef, useMemo, useState, useEffect, useCallback } from 'react';
 import { Box, Drawer, Button, useTheme, TextField, Typography, Autocomplete } from '@mui/material';
 
 import { useTranslate } from 'src/locales/use-locales';
-import axiosInstance, { endpoints } from 'src/lib/axios';
 import { offlineStorage } from 'src/lib/offline-storage';
 import { ReportService } from 'src/lib/services/report-service';
 import { addNetworkStatusListener } from 'src/lib/network-utils';
+import axiosInstance, { fetcher, endpoints } from 'src/lib/axios';
 
 import { toast } from 'src/components/snackbar';
 import { Iconify } from 'src/components/iconify';
 import { Scrollbar } from 'src/components/scrollbar';
 import { SignatureCollector, type SignatureData } from 'src/components/signature';
-import { Form, RHFSelect, RHFTextField, RHFDateTimePicker } from 'src/components/hook-form';
+import {
+  Form,
+  RHFSelect,
+  RHFTextField,
+  RHFMultiSelect,
+  RHFDateTimePicker,
+} from 'src/components/hook-form';
 
 import { useAuthContext } from 'src/auth/hooks';
 
+import { InspectionChecklists } from './inspection-checklists';
+
 // ----------------------------------------------------------------------
 
 const getReportTypes = (t: any) => [
@@ -71,6 +80,7 @@ const reportSchema = zod.object({
   clientId: zod.string().min(1, 'Client is required'),
   workOrderId: zod.string().optional().nullable(),
   taskIds: zod.array(zod.string()).optional(),
+  assetIds: zod.array(zod.string()).optional(),
   location: zod.string().min(1, 'Location is required'),
   weather: zod.string().optional(),
 });
@@ -110,6 +120,7 @@ export function ReportCreateDrawer({
       clientId: '',
       workOrderId: '',
       taskIds: [],
+      assetIds: [],
       location: '',
       weather: '',
     },
@@ -126,6 +137,7 @@ export function ReportCreateDrawer({
   const [reportNotes, setReportNotes] = useState('');
   const [attachments, setAttachments] = useState<File[]>([]);
   const [signatures, setSignatures] = useState<SignatureData[]>([]);
+  const [inspections, setInspections] = useState<SubmittedInspection[]>([]);
   const [previewUrls, setPreviewUrls] = useState<Map<number, string>>(new Map());
   const [isOffline, setIsOffline] = useState(!navigator.onLine);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -174,6 +186,22 @@ export function ReportCreateDrawer({
     return response.data;
   });
 
+  // Equipment registered for the selected client
+  const { data: assetsData } = useSWR(
+    watchedClientId
+      ? [endpoints.fsa.assets.list, { params: { clientId: watchedClientId, limit: 100 } }]
+      : null,
+    fetcher<any>
+  );
+  const assetOptions = useMemo(
+    () =>
+      (assetsData?.data || []).map((asset: any) => ({
+        value: asset._id,
+        label: asset.serialNumber ? `${asset.name} (${asset.serialNumber})` : asset.name,
+      })),
+    [assetsData]
+  );
+
   const { data: materialsData } = useSWR(endpoints.fsa.materials.list, async (url) => {
     const response = await axiosInstance.get(url, { params: { limit: 100, active: true } });
     return response.data;
@@ -402,6 +430,7 @@ export function ReportCreateDrawer({
         // Only update clientId if work order has a valid clientId, otherwise preserve existing selection
         if (newClientId) setValue('clientId', newClientId);
         if (workOrderLocation) setValue('location', workOrderLocation);
+        if (selectedWorkOrder.assetIds?.length) setValue('assetIds', selectedWorkOrder.assetIds);
         if (selectedWorkOrder.priority) setValue('priority', selectedWorkOrder.priority);
       }
     }
@@ -442,6 +471,7 @@ export function ReportCreateDrawer({
         }
         if (taskLocation) setValue('location', taskLocation);
         if (selectedTask.task?.priority) setValue('priority', selectedTask.task.priority);
+        if (selectedTask.task?.assetId) setValue('assetIds', [selectedTask.task.assetId]);
       }
     }
   }, [watchedTaskIds, allTasks, setValue]);
@@ -558,6 +588,7 @@ export function ReportCreateDrawer({
         clientId: '',
         workOrderId: '',
         taskIds: [],
+        assetIds: [],
         location: '',
         weather: '',
         ...initial,
@@ -567,6 +598,7 @@ export function ReportCreateDrawer({
       setReportNotes('');
       setAttachments([]);
       setSignatures([]);
+      setInspections([]);
     }
 
     // Update the ref to track current open state
@@ -1424,6 +1456,7 @@ export function ReportCreateDrawer({
         signedAt: s.signedAt,
         signatureData: s.signatureData,
       })),
+      inspections,
       // Don't include attachments in the initial report creation
       // They will be uploaded separately after the report is created
       attachments: [],
@@ -1717,6 +1750,21 @@ export function ReportCreateDrawer({
         }}
         helperText={t('reports.create.fields.weather.helperText')}
       />
+
+      <RHFMultiSelect
+        chip
+        checkbox
+        fullWidth
+        name="assetIds"
+        label={t('reports.create.fields.assets.label')}
+        options={assetOptions}
+        disabled={assetOptions.length === 0}
+        helperText={
+          assetOptions.length === 0
+            ? t('reports.create.fields.assets.none')
+            : t('reports.create.fields.assets.helperText')
+        }
+      />
     </Box>
   );
 
@@ -2093,6 +2141,13 @@ export function ReportCreateDrawer({
         )}
       </Box>
 
+      <InspectionChecklists
+        reportType={watch('type')}
+        assetIds={watch('assetIds')}
+        value={inspections}
+        onChange={setInspections}
+      />
+
       {/* Notes Section */}
       <TextField
         label={t('reports.create.notes.label')}
@@ -0,0 +1,341 @@
+'use client';
+
+import type { IAsset, AssetStatus, CreateAssetData, IAssetAttribute } from 'src/lib/models/Asset';
+
+import useSWR from 'swr';
+import dayjs from 'dayjs';
+import { useMemo, useState, useEffect } from 'react';
+
+import Stack from '@mui/material/Stack';
+import Dialog from '@mui/material/Dialog';
+import Button from '@mui/material/Button';
+import Divider from '@mui/material/Divider';
+import MenuItem from '@mui/material/MenuItem';
+import TextField from '@mui/material/TextField';
+import IconButton from '@mui/material/IconButton';
+import Typography from '@mui/material/Typography';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+
+import { fetcher, endpoints } from 'src/lib/axios';
+import { AssetService } from 'src/lib/services/asset-service';
+
+import { toast } from 'src/components/snackbar';
+import { Iconify } from 'src/components/iconify';
+
+// ----------------------------------------------------------------------
+
+type AttributeRow = IAssetAttribute & { key_: number };
+
+type Props = {
+  open: boolean;
+  asset?: IAsset | null;
+  defaultClientId?: string;
+  onCloseAction: () => void;
+  onCreatedAction: () => void;
+};
+
+const toInputDate = (value?: string) => (value ? dayjs(value).format('YYYY-MM-DD') : '');
+
+export function AssetFormDialog({
+  open,
+  asset,
+  defaultClientId,
+  onCloseAction,
+  onCreatedAction,
+}: Props) {
+  const isEdit = !!asset;
+
+  const [clientId, setClientId] = useState('');
+  const [name, setName] = useState('');
+  const [category, setCategory] = useState('');
+  const [make, setMake] = useState('');
+  const [model, setModel] = useState('');
+  const [serialNumber, setSerialNumber] = useState('');
+  const [assetTag, setAssetTag] = useState('');
+  const [siteName, setSiteName] = useState('');
+  const [siteAddress, setSiteAddress] = useState('');
+  const [siteLocation, setSiteLocation] = useState('');
+  const [installDate, setInstallDate] = useState('');
+  const [warrantyExpiry, setWarrantyExpiry] = useState('');
+  const [status, setStatus] = useState<AssetStatus>('active');
+  const [attributes, setAttributes] = useState<AttributeRow[]>([]);
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const { data: clientsData } = useSWR(open ? endpoints.fsa.clients.list : null, fetcher<any>);
+  const clients: any[] = useMemo(() => clientsData?.data?.clients || [], [clientsData]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setClientId(
+      typeof asset?.clientId === 'object'
+        ? asset.clientId._id
+        : asset?.clientId || defaultClientId || ''
+    );
+    setName(asset?.name || '');
+    setCategory(asset?.category || '');
+    setMake(asset?.make || '');
+    setModel(asset?.model || '');
+    setSerialNumber(asset?.serialNumber || '');
+    setAssetTag(asset?.assetTag || '');
+    setSiteName(asset?.site?.name || '');
+    setSiteAddress(asset?.site?.address || '');
+    setSiteLocation(asset?.site?.location || '');
+    setInstallDate(toInputDate(asset?.installDate));
+    setWarrantyExpiry(toInputDate(asset?.warrantyExpiry));
+    setStatus(asset?.status ?? 'active');
+    setAttributes((asset?.attributes || []).map((attr, index) => ({ ...attr, key_: index })));
+    setNotes(asset?.notes || '');
+  }, [open, asset, defaultClientId]);
+
+  const updateAttribute = (rowKey: number, patch: Partial<IAssetAttribute>) =>
+    setAttributes((prev) => prev.map((row) => (row.key_ === rowKey ? { ...row, ...patch } : row)));
+
+  const handleSubmit = async () => {
+    if (!clientId || !name.trim()) {
+      toast.error('Client and name are required');
+      return;
+    }
+
+    const payload: CreateAssetData = {
+      clientId,
+      name: name.trim(),
+      category: category || undefined,
+      make: make || undefined,
+      model: model || undefined,
+      serialNumber: serialNumber || undefined,
+      assetTag: assetTag || undefined,
+      site: {
+        name: siteName || undefined,
+        address: siteAddress || undefined,
+        location: siteLocation || undefined,
+      },
+      // null clears a previously set date on update
+      installDate: installDate || (isEdit ? null : undefined),
+      warrantyExpiry: warrantyExpiry || (isEdit ? null : undefined),
+      status,
+      attributes: attributes
+        .filter((attr) => attr.key.trim())
+        .map(({ key, value }) => ({ key: key.trim(), value })),
+      notes: notes || undefined,
+    };
+
+    try {
+      setSubmitting(true);
+      const response = isEdit
+        ? await AssetService.updateAsset(asset!._id, payload)
+        : await AssetService.createAsset(payload);
+      if (response.success) {
+        toast.success(isEdit ? 'Asset updated successfully' : 'Asset registered successfully');
+        onCreatedAction();
+        onCloseAction();
+      }
+    } catch (error: any) {
+      console.error('Failed to save asset:', error);
+      toast.error(error?.message || 'Failed to save asset');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onCloseAction} maxWidth="md" fullWidth>
+      <DialogTitle>{isEdit ? `Edit ${asset?.name}` : 'Register Asset'}</DialogTitle>
+
+      <DialogContent>
+        <Stack spacing={2.5} sx={{ pt: 1 }}>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <TextField
+              select
+              fullWidth
+              label="Client"
+              value={clientId}
+              onChange={(e) => setClientId(e.target.value)}
+            >
+              {clients.map((client) => (
+                <MenuItem key={client._id} value={client._id}>
+                  {client.company ? `${client.name} (${client.company})` : client.name}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              label="Status"
+              value={status}
+              onChange={(e) => setStatus(e.target.value as AssetStatus)}
+              sx={{ minWidth: 180 }}
+            >
+              <MenuItem value="active">Active</MenuItem>
+              <MenuItem value="inactive">Inactive</MenuItem>
+              <MenuItem value="retired">Retired</MenuItem>
+            </TextField>
+          </Stack>
+
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <TextField
+              fullWidth
+              label="Name"
+              placeholder="e.g. Rooftop chiller 2"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <TextField
+              fullWidth
+              label="Category"
+              placeholder="e.g. HVAC"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+            />
+          </Stack>
+
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <TextField
+              fullWidth
+              label="Make"
+              value={make}
+              onChange={(e) => setMake(e.target.value)}
+            />
+            <TextField
+              fullWidth
+              label="Model"
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+            />
+          </Stack>
+
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <TextField
+              fullWidth
+              label="Serial number"
+              value={serialNumber}
+              onChange={(e) => setSerialNumber(e.target.value)}
+            />
+            <TextField
+              fullWidth
+              label="Asset tag"
+              value={assetTag}
+              onChange={(e) => setAssetTag(e.target.value)}
+            />
+          </Stack>
+
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <TextField
+              type="date"
+              fullWidth
+              label="Install date"
+              value={installDate}
+              onChange={(e) => setInstallDate(e.target.value)}
+              slotProps={{ inputLabel: { shrink: true } }}
+            />
+            <TextField
+              type="date"
+              fullWidth
+              label="Warranty expiry"
+              value={warrantyExpiry}
+              onChange={(e) => setWarrantyExpiry(e.target.value)}
+              slotProps={{ inputLabel: { shrink: true } }}
+            />
+          </Stack>
+
+          <Divider />
+
+          <Typography variant="subtitle1">Site</Typography>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <TextField
+              fullWidth
+              label="Site name"
+              value={siteName}
+              onChange={(e) => setSiteName(e.target.value)}
+            />
+            <TextField
+              fullWidth
+              label="Location on site"
+              placeholder="e.g. Basement plant room"
+              value={siteLocation}
+              onChange={(e) => setSiteLocation(e.target.value)}
+            />
+          </Stack>
+          <TextField
+            fullWidth
+            label="Address"
+            value={siteAddress}
+            onChange={(e) => setSiteAddress(e.target.value)}
+          />
+
+          <Divider />
+
+          <Stack direction="row" alignItems="center" justifyContent="space-between">
+            <Typography variant="subtitle1">Attributes</Typography>
+            <Button
+              size="small"
+              startIcon={<Iconify icon="mingcute:add-line" />}
+              onClick={() =>
+                setAttributes((prev) => [
+                  ...prev,
+                  { key_: Math.max(-1, ...prev.map((r) => r.key_)) + 1, key: '', value: '' },
+                ])
+              }
+            >
+              Add attribute
+            </Button>
+          </Stack>
+          {attributes.length === 0 && (
+            <Typography variant="body2" color="text.secondary">
+              Record anything else worth knowing, e.g. refrigerant type or filter size.
+            </Typography>
+          )}
+          {attributes.map((row) => (
+            <Stack key={row.key_} direction="row" spacing={1.5} alignItems="center">
+              <TextField
+                size="small"
+                fullWidth
+                label="Attribute"
+                value={row.key}
+                onChange={(e) => updateAttribute(row.key_, { key: e.target.value })}
+              />
+              <TextField
+                size="small"
+                fullWidth
+                label="Value"
+                value={row.value}
+                onChange={(e) => updateAttribute(row.key_, { value: e.target.value })}
+              />
+              <IconButton
+                size="small"
+                color="error"
+                onClick={() =>
+                  setAttributes((prev) => prev.filter((attr) => attr.key_ !== row.key_))
+                }
+              >
+                <Iconify icon="solar:trash-bin-trash-bold" />
+              </IconButton>
+            </Stack>
+          ))}
+
+          <Divider />
+
+          <TextField
+            fullWidth
+            multiline
+            minRows={2}
+            label="Notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </Stack>
+      </DialogContent>
+
+      <DialogActions>
+        <Button variant="outlined" onClick={onCloseAction}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleSubmit} disabled={submitting}>
+          {isEdit ? 'Save Changes' : 'Register Asset'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
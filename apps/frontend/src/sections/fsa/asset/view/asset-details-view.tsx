@@ -0,0 +1,291 @@
+'use client';
+
+import type {
+  AssetServiceEvent,
+  AssetServiceHistory,
+  AssetServiceEventType,
+} from 'src/lib/models/Asset';
+
+import useSWR from 'swr';
+import { useBoolean } from 'minimal-shared/hooks';
+
+import Box from '@mui/material/Box';
+import Card from '@mui/material/Card';
+import Chip from '@mui/material/Chip';
+import Grid from '@mui/material/Grid';
+import Link from '@mui/material/Link';
+import Stack from '@mui/material/Stack';
+import Table from '@mui/material/Table';
+import Button from '@mui/material/Button';
+import TableRow from '@mui/material/TableRow';
+import Container from '@mui/material/Container';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import CardHeader from '@mui/material/CardHeader';
+import Typography from '@mui/material/Typography';
+import CardContent from '@mui/material/CardContent';
+import LinearProgress from '@mui/material/LinearProgress';
+import TableContainer from '@mui/material/TableContainer';
+
+import { paths } from 'src/routes/paths';
+import { RouterLink } from 'src/routes/components';
+
+import { fDate } from 'src/utils/format-time';
+import { fCurrency } from 'src/utils/format-number';
+
+import { fetcher, endpoints } from 'src/lib/axios';
+
+import { Iconify } from 'src/components/iconify';
+
+import { AssetFormDialog } from '../asset-form-dialog';
+import { WarrantyChip, STATUS_COLORS, STATUS_LABELS } from './asset-list-view';
+
+// ----------------------------------------------------------------------
+
+const EVENT_LABELS: Record<AssetServiceEventType, string> = {
+  work_order: 'Work order',
+  report: 'Report',
+  time_entry: 'Time',
+  material: 'Material',
+};
+
+const EVENT_COLORS: Record<AssetServiceEventType, 'primary' | 'info' | 'secondary' | 'warning'> = {
+  work_order: 'primary',
+  report: 'info',
+  time_entry: 'secondary',
+  material: 'warning',
+};
+
+type Props = {
+  id: string;
+};
+
+export function AssetDetailsView({ id }: Props) {
+  const openForm = useBoolean();
+
+  const { data, isLoading, mutate } = useSWR(endpoints.fsa.assets.history(id), fetcher<any>);
+
+  const history: AssetServiceHistory | undefined = data?.data;
+  const asset = history?.asset;
+  const summary = history?.summary;
+
+  const eventDetails = (event: AssetServiceEvent) => {
+    switch (event.type) {
+      case 'time_entry':
+        return [event.personnelName, event.hours !== undefined && `${event.hours}h`]
+          .filter(Boolean)
+          .join(' · ');
+      case 'material':
+        return `${event.quantity ?? 0}${event.unit ? ` ${event.unit}` : ''}`;
+      case 'report':
+        return event.hours ? `${event.hours.toFixed(1)}h` : '';
+      default:
+        return '';
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Container maxWidth={false} sx={{ p: 3 }}>
+        <LinearProgress />
+      </Container>
+    );
+  }
+
+  if (!asset || !summary) {
+    return (
+      <Container maxWidth={false} sx={{ p: 3 }}>
+        <Typography variant="h6">Asset not found</Typography>
+      </Container>
+    );
+  }
+
+  const clientLabel =
+    typeof asset.clientId === 'object'
+      ? asset.clientId.company
+        ? `${asset.clientId.name} (${asset.clientId.company})`
+        : asset.clientId.name
+      : '';
+
+  const info: [string, React.ReactNode][] = [
+    ['Client', clientLabel || '-'],
+    ['Category', asset.category || '-'],
+    ['Make / Model', [asset.make, asset.model].filter(Boolean).join(' ') || '-'],
+    ['Serial number', asset.serialNumber || '-'],
+    ['Asset tag', asset.assetTag || '-'],
+    ['Site', [asset.site?.name, asset.site?.location].filter(Boolean).join(' - ') || '-'],
+    ['Address', asset.site?.address || '-'],
+    ['Installed', asset.installDate ? fDate(asset.installDate) : '-'],
+    ['Warranty', <WarrantyChip key="warranty" expiry={asset.warrantyExpiry} />],
+  ];
+
+  const stats: [string, string][] = [
+    ['Work orders', String(summary.workOrders)],
+    ['Reports', String(summary.reports)],
+    ['Hours', summary.hours.toFixed(1)],
+    ['Labor cost', fCurrency(summary.laborCost)],
+    ['Material cost', fCurrency(summary.materialCost)],
+    ['Last serviced', summary.lastServicedAt ? fDate(summary.lastServicedAt) : '-'],
+  ];
+
+  return (
+    <Container maxWidth={false}>
+      <Stack spacing={3} sx={{ p: 3 }}>
+        <Stack direction="row" alignItems="center" justifyContent="space-between">
+          <Stack spacing={1}>
+            <Stack direction="row" spacing={1.5} alignItems="center">
+              <Typography variant="h4">{asset.name}</Typography>
+              <Chip
+                size="small"
+                label={STATUS_LABELS[asset.status]}
+                color={STATUS_COLORS[asset.status]}
+              />
+            </Stack>
+            <Link component={RouterLink} href={paths.dashboard.fsa.assets.root} variant="body2">
+              Back to assets
+            </Link>
+          </Stack>
+          <Button
+            variant="outlined"
+            startIcon={<Iconify icon="solar:pen-bold" />}
+            onClick={openForm.onTrue}
+          >
+            Edit
+          </Button>
+        </Stack>
+
+        <Grid container spacing={3}>
+          <Grid size={{ xs: 12, md: 4 }}>
+            <Card>
+              <CardHeader title="Details" />
+              <CardContent>
+                <Stack spacing={1.5}>
+                  {info.map(([label, value]) => (
+                    <Stack key={label} direction="row" justifyContent="space-between" spacing={2}>
+                      <Typography variant="body2" color="text.secondary">
+                        {label}
+                      </Typography>
+                      <Box sx={{ typography: 'body2', textAlign: 'right' }}>{value}</Box>
+                    </Stack>
+                  ))}
+                  {asset.attributes.map((attr) => (
+                    <Stack
+                      key={attr.key}
+                      direction="row"
+                      justifyContent="space-between"
+                      spacing={2}
+                    >
+                      <Typography variant="body2" color="text.secondary">
+                        {attr.key}
+                      </Typography>
+                      <Typography variant="body2" sx={{ textAlign: 'right' }}>
+                        {attr.value || '-'}
+                      </Typography>
+                    </Stack>
+                  ))}
+                  {asset.notes && (
+                    <Typography variant="body2" sx={{ pt: 1, whiteSpace: 'pre-wrap' }}>
+                      {asset.notes}
+                    </Typography>
+                  )}
+                </Stack>
+              </CardContent>
+            </Card>
+          </Grid>
+
+          <Grid size={{ xs: 12, md: 8 }}>
+            <Stack spacing={3}>
+              <Grid container spacing={2}>
+                {stats.map(([label, value]) => (
+                  <Grid key={label} size={{ xs: 6, sm: 4 }}>
+                    <Card sx={{ p: 2 }}>
+                      <Typography variant="h5">{value}</Typography>
+                      <Typography variant="body2" color="text.secondary">
+                        {label}
+                      </Typography>
+                    </Card>
+                  </Grid>
+                ))}
+              </Grid>
+
+              <Card>
+                <CardHeader title="Service history" />
+                <TableContainer sx={{ mt: 2 }}>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Date</TableCell>
+                        <TableCell>Type</TableCell>
+                        <TableCell>Description</TableCell>
+                        <TableCell>Work order</TableCell>
+                        <TableCell>Details</TableCell>
+                        <TableCell align="right">Cost</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {history.events.length === 0 && (
+                        <TableRow>
+                          <TableCell colSpan={6} align="center" sx={{ py: 6 }}>
+                            <Typography variant="body2" color="text.secondary">
+                              No service recorded for this asset yet
+                            </Typography>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                      {history.events.map((event, index) => (
+                        <TableRow key={`${event.type}-${index}`} hover>
+                          <TableCell>{fDate(event.date)}</TableCell>
+                          <TableCell>
+                            <Chip
+                              size="small"
+                              variant="soft"
+                              label={EVENT_LABELS[event.type]}
+                              color={EVENT_COLORS[event.type]}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Typography variant="body2">{event.title}</Typography>
+                            {event.notes && (
+                              <Typography variant="caption" color="text.secondary">
+                                {event.notes}
+                              </Typography>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {event.workOrderId ? (
+                              <Link
+                                component={RouterLink}
+                                href={paths.dashboard.fsa.workOrders.details(event.workOrderId)}
+                                variant="body2"
+                              >
+                                {event.workOrderNumber || 'View'}
+                              </Link>
+                            ) : (
+                              '-'
+                            )}
+                          </TableCell>
+                          <TableCell>{eventDetails(event) || '-'}</TableCell>
+                          <TableCell align="right">
+                            {event.cost ? fCurrency(event.cost) : '-'}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </Card>
+            </Stack>
+          </Grid>
+        </Grid>
+      </Stack>
+
+      <AssetFormDialog
+        open={openForm.value}
+        asset={asset}
+        onCloseAction={openForm.onFalse}
+        onCreatedAction={() => mutate()}
+      />
+    </Container>
+  );
+}
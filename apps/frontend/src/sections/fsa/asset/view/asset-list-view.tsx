@@ -0,0 +1,339 @@
+'use client';
+
+import type { IAsset, AssetStatus, AssetWarrantyFilter } from 'src/lib/models/Asset';
+
+import useSWR from 'swr';
+import dayjs from 'dayjs';
+import { useMemo, useState } from 'react';
+import { useBoolean } from 'minimal-shared/hooks';
+
+import Card from '@mui/material/Card';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import Table from '@mui/material/Table';
+import Button from '@mui/material/Button';
+import MenuItem from '@mui/material/MenuItem';
+import TableRow from '@mui/material/TableRow';
+import Container from '@mui/material/Container';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TextField from '@mui/material/TextField';
+import IconButton from '@mui/material/IconButton';
+import Typography from '@mui/material/Typography';
+import TableContainer from '@mui/material/TableContainer';
+
+import { paths } from 'src/routes/paths';
+import { useRouter } from 'src/routes/hooks';
+
+import { fDate } from 'src/utils/format-time';
+
+import { fetcher, endpoints } from 'src/lib/axios';
+import { AssetService } from 'src/lib/services/asset-service';
+
+import { toast } from 'src/components/snackbar';
+import { Iconify } from 'src/components/iconify';
+import { ConfirmDialog } from 'src/components/custom-dialog';
+
+import { AssetFormDialog } from '../asset-form-dialog';
+
+// ----------------------------------------------------------------------
+
+export const STATUS_COLORS: Record<AssetStatus, 'default' | 'success' | 'warning'> = {
+  active: 'success',
+  inactive: 'warning',
+  retired: 'default',
+};
+
+export const STATUS_LABELS: Record<AssetStatus, string> = {
+  active: 'Active',
+  inactive: 'Inactive',
+  retired: 'Retired',
+};
+
+const WARRANTY_LABELS: Record<AssetWarrantyFilter, string> = {
+  valid: 'Under warranty',
+  expiring: 'Expiring within 60 days',
+  expired: 'Out of warranty',
+};
+
+// Matches the "expiring" window the API filters by
+const WARRANTY_EXPIRING_DAYS = 60;
+
+export function WarrantyChip({ expiry }: { expiry?: string }) {
+  if (!expiry) {
+    return (
+      <Typography variant="body2" color="text.disabled">
+        -
+      </Typography>
+    );
+  }
+
+  const daysLeft = dayjs(expiry).diff(dayjs(), 'day');
+  const color = daysLeft < 0 ? 'error' : daysLeft <= WARRANTY_EXPIRING_DAYS ? 'warning' : 'success';
+
+  return <Chip size="small" variant="soft" color={color} label={fDate(expiry)} />;
+}
+
+export function AssetListView() {
+  const router = useRouter();
+  const openForm = useBoolean();
+
+  const [clientId, setClientId] = useState('');
+  const [status, setStatus] = useState<AssetStatus | ''>('');
+  const [warranty, setWarranty] = useState<AssetWarrantyFilter | ''>('');
+  const [search, setSearch] = useState('');
+  const [editTarget, setEditTarget] = useState<IAsset | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<IAsset | null>(null);
+
+  const { data, isLoading, mutate } = useSWR(
+    [
+      endpoints.fsa.assets.list,
+      {
+        params: {
+          clientId: clientId || undefined,
+          status: status || undefined,
+          warranty: warranty || undefined,
+          q: search || undefined,
+          limit: 100,
+        },
+      },
+    ],
+    fetcher<any>
+  );
+  const { data: clientsData } = useSWR(endpoints.fsa.clients.list, fetcher<any>);
+
+  const assets: IAsset[] = data?.data || [];
+  const clients: any[] = useMemo(() => clientsData?.data?.clients || [], [clientsData]);
+
+  const run = async (action: () => Promise<any>, success: string, failure: string) => {
+    try {
+      const response = await action();
+      if (response?.success !== false) {
+        toast.success(response?.message || success);
+      }
+      mutate();
+      return response;
+    } catch (error: any) {
+      console.error(failure, error);
+      toast.error(error?.message || failure);
+      return null;
+    }
+  };
+
+  const clientName = (asset: IAsset) =>
+    typeof asset.clientId === 'object' ? asset.clientId?.name : '';
+
+  const handleCreate = () => {
+    setEditTarget(null);
+    openForm.onTrue();
+  };
+
+  const handleEdit = (asset: IAsset) => {
+    setEditTarget(asset);
+    openForm.onTrue();
+  };
+
+  return (
+    <Container maxWidth={false}>
+      <Stack spacing={3} sx={{ p: 3 }}>
+        <Stack direction="row" alignItems="center" justifyContent="space-between">
+          <Stack spacing={1}>
+            <Typography variant="h4">Assets</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Equipment installed at your clients&apos; sites and the service carried out on it.
+            </Typography>
+          </Stack>
+          <Button
+            variant="contained"
+            startIcon={<Iconify icon="mingcute:add-line" />}
+            onClick={handleCreate}
+          >
+            Register Asset
+          </Button>
+        </Stack>
+
+        <Card>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} sx={{ p: 2.5 }}>
+            <TextField
+              fullWidth
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by name, serial number, tag or model..."
+            />
+            <TextField
+              select
+              label="Client"
+              value={clientId}
+              onChange={(e) => setClientId(e.target.value)}
+              sx={{ minWidth: 200 }}
+            >
+              <MenuItem value="">All</MenuItem>
+              {clients.map((client) => (
+                <MenuItem key={client._id} value={client._id}>
+                  {client.name}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              label="Status"
+              value={status}
+              onChange={(e) => setStatus(e.target.value as AssetStatus | '')}
+              sx={{ minWidth: 160 }}
+            >
+              <MenuItem value="">All</MenuItem>
+              {(Object.keys(STATUS_LABELS) as AssetStatus[]).map((value) => (
+                <MenuItem key={value} value={value}>
+                  {STATUS_LABELS[value]}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              label="Warranty"
+              value={warranty}
+              onChange={(e) => setWarranty(e.target.value as AssetWarrantyFilter | '')}
+              sx={{ minWidth: 220 }}
+            >
+              <MenuItem value="">All</MenuItem>
+              {(Object.keys(WARRANTY_LABELS) as AssetWarrantyFilter[]).map((value) => (
+                <MenuItem key={value} value={value}>
+                  {WARRANTY_LABELS[value]}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Stack>
+
+          <TableContainer>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Asset</TableCell>
+                  <TableCell>Client</TableCell>
+                  <TableCell>Site</TableCell>
+                  <TableCell>Make / Model</TableCell>
+                  <TableCell>Warranty</TableCell>
+                  <TableCell>Last serviced</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {!isLoading && assets.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={8} align="center" sx={{ py: 6 }}>
+                      <Typography variant="body2" color="text.secondary">
+                        No assets registered yet
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+                {assets.map((asset) => (
+                  <TableRow key={asset._id} hover>
+                    <TableCell>
+                      <Typography
+                        variant="subtitle2"
+                        sx={{ cursor: 'pointer' }}
+                        onClick={() => router.push(paths.dashboard.fsa.assets.details(asset._id))}
+                      >
+                        {asset.name}
+                      </Typography>
+                      {(asset.serialNumber || asset.assetTag) && (
+                        <Typography variant="caption" color="text.secondary">
+                          {[asset.serialNumber && `S/N ${asset.serialNumber}`, asset.assetTag]
+                            .filter(Boolean)
+                            .join(' · ')}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>{clientName(asset)}</TableCell>
+                    <TableCell>
+                      <Typography variant="body2">{asset.site?.name || '-'}</Typography>
+                      {asset.site?.location && (
+                        <Typography variant="caption" color="text.secondary">
+                          {asset.site.location}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {[asset.make, asset.model].filter(Boolean).join(' ') || '-'}
+                    </TableCell>
+                    <TableCell>
+                      <WarrantyChip expiry={asset.warrantyExpiry} />
+                    </TableCell>
+                    <TableCell>
+                      {asset.lastServicedAt ? fDate(asset.lastServicedAt) : '-'}
+                    </TableCell>
+                    <TableCell>
+                      <Chip
+                        size="small"
+                        label={STATUS_LABELS[asset.status]}
+                        color={STATUS_COLORS[asset.status]}
+                      />
+                    </TableCell>
+                    <TableCell align="right">
+                      <Stack direction="row" spacing={0.5} justifyContent="flex-end">
+                        <IconButton
+                          size="small"
+                          title="Service history"
+                          onClick={() => router.push(paths.dashboard.fsa.assets.details(asset._id))}
+                        >
+                          <Iconify icon="solar:eye-bold" />
+                        </IconButton>
+                        <IconButton size="small" title="Edit" onClick={() => handleEdit(asset)}>
+                          <Iconify icon="solar:pen-bold" />
+                        </IconButton>
+                        <IconButton
+                          size="small"
+                          color="error"
+                          title="Delete"
+                          onClick={() => setDeleteTarget(asset)}
+                        >
+                          <Iconify icon="solar:trash-bin-trash-bold" />
+                        </IconButton>
+                      </Stack>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Card>
+      </Stack>
+
+      <AssetFormDialog
+        open={openForm.value}
+        asset={editTarget}
+        defaultClientId={clientId}
+        onCloseAction={openForm.onFalse}
+        onCreatedAction={() => mutate()}
+      />
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        title="Delete Asset"
+        content={`Are you sure you want to delete ${deleteTarget?.name}? Assets with service history can only be retired.`}
+        action={
+          <Button
+            variant="contained"
+            color="error"
+            onClick={async () => {
+              if (deleteTarget) {
+                await run(
+                  () => AssetService.deleteAsset(deleteTarget._id),
+                  'Asset deleted successfully',
+                  'Failed to delete asset'
+                );
+              }
+              setDeleteTarget(null);
+            }}
+          >
+            Delete
+          </Button>
+        }
+      />
+    </Container>
+  );
+}
@@ -40,6 +40,7 @@ import { CascadeDeleteDialog, type CascadeDeleteInfo } from 'src/components/casc
 import { View403 } from 'src/sections/error';
 
 import { ClientImportDialog } from './client-import-dialog';
+import { ClientPortalLinkDialog } from './client-portal-link-dialog';
 
 // ----------------------------------------------------------------------
 
@@ -81,6 +82,7 @@ export function ClientList() {
   const [rowsPerPage, setRowsPerPage] = useState(10);
   const [searchTerm, setSearchTerm] = useState('');
   const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [portalDialogOpen, setPortalDialogOpen] = useState(false);
 
   // Fetch ALL clients from API (no pagination on server side for filtering)
   const { data, error, isLoading, mutate } = useSWR(
@@ -128,6 +130,11 @@ export function ClientList() {
     popover.onClose();
   };
 
+  const handlePortalAccess = () => {
+    setPortalDialogOpen(true);
+    popover.onClose();
+  };
+
   const handleDeleteClient = async (client: Client) => {
     setSelectedClient(client);
     popover.onClose();
@@ -214,8 +221,7 @@ export function ClientList() {
             ),
           }}
           helperText={t('clients.searchHelper', {
-            defaultValue:
-              'Search by name, email, company, VAT, phone, address, or contact person',
+            defaultValue: 'Search by name, email, company, VAT, phone, address, or contact person',
           })}
         />
         <Box sx={{ ml: 'auto', display: 'flex', gap: 2 }}>
@@ -332,7 +338,7 @@ export function ClientList() {
         anchorOrigin={{ vertical: 'top', horizontal: 'left' }}
         transformOrigin={{ vertical: 'top', horizontal: 'right' }}
         PaperProps={{
-          sx: { width: 160 },
+          sx: { width: 180 },
         }}
       >
         <MenuItem onClick={() => selectedClient && handleEditClient(selectedClient)}>
@@ -345,6 +351,11 @@ export function ClientList() {
           {t('clients.table.workOrders')}
         </MenuItem>
 
+        <MenuItem onClick={handlePortalAccess}>
+          <Iconify icon="solar:user-id-bold" sx={{ mr: 2 }} />
+          {t('clients.table.portalAccess')}
+        </MenuItem>
+
         <MenuItem
           onClick={() => selectedClient && handleDeleteClient(selectedClient)}
           sx={{ color: 'error.main' }}
@@ -371,6 +382,13 @@ export function ClientList() {
         />
       )}
 
+      {/* Portal Access Dialog */}
+      <ClientPortalLinkDialog
+        open={portalDialogOpen}
+        client={selectedClient}
+        onCloseAction={() => setPortalDialogOpen(false)}
+      />
+
       {/* Import Dialog */}
       <ClientImportDialog
         open={importDialogOpen}
@@ -0,0 +1,154 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+import {
+  Stack,
+  Alert,
+  Button,
+  Dialog,
+  MenuItem,
+  TextField,
+  Typography,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+
+import { useTranslate } from 'src/locales/use-locales';
+import { clientService } from 'src/lib/services/client-service';
+
+import { toast } from 'src/components/snackbar';
+import { Iconify } from 'src/components/iconify';
+
+// ----------------------------------------------------------------------
+
+type ClientPortalLinkDialogProps = {
+  open: boolean;
+  client: {
+    _id: string;
+    name: string;
+    email?: string;
+    contactPerson?: { name?: string; email?: string };
+  } | null;
+  onCloseAction: () => void;
+};
+
+export function ClientPortalLinkDialog({
+  open,
+  client,
+  onCloseAction,
+}: ClientPortalLinkDialogProps) {
+  const { t } = useTranslate('dashboard');
+
+  const [email, setEmail] = useState('');
+  const [link, setLink] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const contacts = Array.from(
+    new Set([client?.email, client?.contactPerson?.email].filter(Boolean) as string[])
+  );
+
+  useEffect(() => {
+    if (open) {
+      setEmail(contacts[0] || '');
+      setLink('');
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, client?._id]);
+
+  const handleCreate = async (send: boolean) => {
+    if (!client) return;
+
+    try {
+      setLoading(true);
+      const response = await clientService.createPortalLink(client._id, { email, send });
+      if (send) {
+        toast.success(t('clients.portal.sent'));
+        onCloseAction();
+      } else {
+        setLink(response.data.magicLink);
+      }
+    } catch (error: any) {
+      console.error('Failed to create portal link:', error);
+      toast.error(error?.message || t('clients.portal.failed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(link);
+    toast.success(t('clients.portal.copied'));
+  };
+
+  return (
+    <Dialog fullWidth maxWidth="sm" open={open} onClose={onCloseAction}>
+      <DialogTitle>{t('clients.portal.title')}</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2.5} sx={{ pt: 1 }}>
+          <Typography variant="body2" color="text.secondary">
+            {t('clients.portal.description')}
+          </Typography>
+
+          {contacts.length === 0 ? (
+            <Alert severity="warning">{t('clients.portal.noEmail')}</Alert>
+          ) : (
+            <TextField
+              select
+              fullWidth
+              label={t('clients.portal.contact')}
+              value={email}
+              onChange={(e) => {
+                setEmail(e.target.value);
+                setLink('');
+              }}
+            >
+              {contacts.map((contact) => (
+                <MenuItem key={contact} value={contact}>
+                  {contact}
+                </MenuItem>
+              ))}
+            </TextField>
+          )}
+
+          {link && (
+            <TextField
+              fullWidth
+              label={t('clients.portal.link')}
+              value={link}
+              helperText={t('clients.portal.expires')}
+              slotProps={{ input: { readOnly: true } }}
+            />
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCloseAction}>{t('clients.cancel')}</Button>
+        {link ? (
+          <Button variant="outlined" onClick={handleCopy}>
+            {t('clients.portal.copy')}
+          </Button>
+        ) : (
+          <Button
+            variant="outlined"
+            disabled={!email}
+            loading={loading}
+            onClick={() => handleCreate(false)}
+          >
+            {t('clients.portal.createLink')}
+          </Button>
+        )}
+        <Button
+          variant="contained"
+          disabled={!email}
+          loading={loading}
+          startIcon={<Iconify icon="custom:send-fill" />}
+          onClick={() => handleCreate(true)}
+        >
+          {t('clients.portal.send')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import type { IContractDetails } from 'src/lib/models/Contract';
+
+import useSWR from 'swr';
+
+import Box from '@mui/material/Box';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import Table from '@mui/material/Table';
+import Dialog from '@mui/material/Dialog';
+import Button from '@mui/material/Button';
+import Divider from '@mui/material/Divider';
+import TableRow from '@mui/material/TableRow';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import Typography from '@mui/material/Typography';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+
+import { paths } from 'src/routes/paths';
+import { RouterLink } from 'src/routes/components';
+
+import { fDate } from 'src/utils/format-time';
+
+import { fetcher, endpoints } from 'src/lib/axios';
+
+// ----------------------------------------------------------------------
+
+type Props = {
+  contractId: string | null;
+  onCloseAction: () => void;
+};
+
+export function ContractDetailsDialog({ contractId, onCloseAction }: Props) {
+  const { data, isLoading } = useSWR(
+    contractId ? endpoints.fsa.contracts.details(contractId) : null,
+    fetcher<any>
+  );
+
+  const contract: IContractDetails | undefined = data?.data;
+  const visits = contract?.visits;
+
+  const stats = visits
+    ? [
+        { label: 'Planned', value: visits.planned },
+        { label: 'Generated', value: visits.generated },
+        { label: 'Completed', value: visits.completed },
+        { label: 'Cancelled', value: visits.cancelled },
+        { label: 'Remaining', value: visits.remaining },
+      ]
+    : [];
+
+  return (
+    <Dialog open={!!contractId} onClose={onCloseAction} maxWidth="md" fullWidth>
+      <DialogTitle>
+        {contract ? `${contract.contractNumber} · ${contract.title}` : 'Contract'}
+      </DialogTitle>
+
+      <DialogContent>
+        {isLoading || !contract ? (
+          <Typography variant="body2" color="text.secondary" sx={{ py: 3 }}>
+            Loading...
+          </Typography>
+        ) : (
+          <Stack spacing={2.5} sx={{ pt: 1 }}>
+            <Typography variant="body2" color="text.secondary">
+              {fDate(contract.termStartDate)} – {fDate(contract.endDate)}
+              {contract.renewal.type === 'auto' && ' · renews automatically'}
+            </Typography>
+
+            <Box
+              sx={{
+                gap: 2,
+                display: 'grid',
+                gridTemplateColumns: { xs: 'repeat(2, 1fr)', md: 'repeat(5, 1fr)' },
+              }}
+            >
+              {stats.map((stat) => (
+                <Box key={stat.label}>
+                  <Typography variant="h5">{stat.value}</Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {stat.label}
+                  </Typography>
+                </Box>
+              ))}
+            </Box>
+
+            <Divider />
+
+            <Stack spacing={1}>
+              <Typography variant="subtitle1">Upcoming visits</Typography>
+              {contract.upcomingVisits.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">
+                  No further visits in the current term
+                </Typography>
+              ) : (
+                <Stack direction="row" flexWrap="wrap" gap={1}>
+                  {contract.upcomingVisits.map((date) => (
+                    <Chip key={date} size="small" variant="outlined" label={fDate(date)} />
+                  ))}
+                </Stack>
+              )}
+            </Stack>
+
+            <Divider />
+
+            <Stack spacing={1}>
+              <Typography variant="subtitle1">Generated work orders</Typography>
+              {contract.workOrders.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">
+                  No work orders generated yet
+                </Typography>
+              ) : (
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Visit</TableCell>
+                      <TableCell>Work order</TableCell>
+                      <TableCell>Site</TableCell>
+                      <TableCell>Status</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {contract.workOrders.map((workOrder) => (
+                      <TableRow key={workOrder._id} hover>
+                        <TableCell>{fDate(workOrder.contractVisitDate)}</TableCell>
+                        <TableCell>
+                          <Typography
+                            component={RouterLink}
+                            href={paths.dashboard.fsa.workOrders.details(workOrder._id)}
+                            variant="subtitle2"
+                            color="inherit"
+                          >
+                            {workOrder.workOrderNumber}
+                          </Typography>
+                        </TableCell>
+                        <TableCell>{workOrder.location?.address || '-'}</TableCell>
+                        <TableCell sx={{ textTransform: 'capitalize' }}>
+                          {workOrder.status.replace('-', ' ')}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </Stack>
+          </Stack>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button variant="outlined" onClick={onCloseAction}>
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
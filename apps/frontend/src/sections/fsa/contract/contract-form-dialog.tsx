@@ -0,0 +1,631 @@
+'use client';
+
+import type {
+  IContract,
+  IContractSite,
+  CreateContractData,
+  IContractEquipment,
+  ContractRenewalType,
+  ContractBillingCycle,
+  ContractFrequencyUnit,
+  IContractTemplateTask,
+} from 'src/lib/models/Contract';
+
+import useSWR from 'swr';
+import dayjs from 'dayjs';
+import { useMemo, useState, useEffect } from 'react';
+
+import Stack from '@mui/material/Stack';
+import Dialog from '@mui/material/Dialog';
+import Button from '@mui/material/Button';
+import Divider from '@mui/material/Divider';
+import MenuItem from '@mui/material/MenuItem';
+import TextField from '@mui/material/TextField';
+import IconButton from '@mui/material/IconButton';
+import Typography from '@mui/material/Typography';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+
+import { fetcher, endpoints } from 'src/lib/axios';
+import { ContractService } from 'src/lib/services/contract-service';
+
+import { toast } from 'src/components/snackbar';
+import { Iconify } from 'src/components/iconify';
+
+// ----------------------------------------------------------------------
+
+type Row<T> = T & { key: number };
+
+type MaterialRow = Row<{ materialId?: string; quantity: number }>;
+
+type Props = {
+  open: boolean;
+  contract?: IContract | null;
+  onCloseAction: () => void;
+  onCreatedAction: () => void;
+};
+
+const toInputDate = (value?: string) => (value ? dayjs(value).format('YYYY-MM-DD') : '');
+
+const withKeys = <T,>(items: T[] = []): Row<T>[] =>
+  items.map((item, index) => ({ ...item, key: index }));
+
+const nextKey = (rows: { key: number }[]) => Math.max(-1, ...rows.map((r) => r.key)) + 1;
+
+const stripKey = <T extends { key: number; _id?: string }>({ key, ...rest }: T) => rest;
+
+export function ContractFormDialog({ open, contract, onCloseAction, onCreatedAction }: Props) {
+  const isEdit = !!contract;
+  const isLocked = !!contract && contract.status !== 'draft';
+
+  const [clientId, setClientId] = useState('');
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [visitInterval, setVisitInterval] = useState(1);
+  const [unit, setUnit] = useState<ContractFrequencyUnit>('month');
+  const [firstVisitDate, setFirstVisitDate] = useState('');
+  const [leadDays, setLeadDays] = useState(14);
+  const [amount, setAmount] = useState(0);
+  const [billingCycle, setBillingCycle] = useState<ContractBillingCycle>('annual');
+  const [renewalType, setRenewalType] = useState<ContractRenewalType>('manual');
+  const [termMonths, setTermMonths] = useState(12);
+  const [noticeDays, setNoticeDays] = useState(30);
+  const [sites, setSites] = useState<Row<IContractSite>[]>([]);
+  const [equipment, setEquipment] = useState<Row<IContractEquipment>[]>([]);
+  const [templateTitle, setTemplateTitle] = useState('');
+  const [templateDetails, setTemplateDetails] = useState('');
+  const [priority, setPriority] = useState<'low' | 'medium' | 'high' | 'urgent'>('medium');
+  const [estimatedHours, setEstimatedHours] = useState<number | ''>('');
+  const [personnelIds, setPersonnelIds] = useState<string[]>([]);
+  const [tasks, setTasks] = useState<Row<IContractTemplateTask>[]>([]);
+  const [materialRows, setMaterialRows] = useState<MaterialRow[]>([]);
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const { data: clientsData } = useSWR(open ? endpoints.fsa.clients.list : null, fetcher<any>);
+  const { data: materialsData } = useSWR(
+    open ? [endpoints.fsa.materials.list, { params: { limit: 100, status: 'active' } }] : null,
+    fetcher<any>
+  );
+  const { data: personnelData } = useSWR(open ? endpoints.fsa.personnel.list : null, fetcher<any>);
+
+  const clients: any[] = useMemo(() => clientsData?.data?.clients || [], [clientsData]);
+  const materials: any[] = useMemo(() => materialsData?.data || [], [materialsData]);
+  const personnel: any[] = useMemo(() => personnelData?.data || [], [personnelData]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const template = contract?.workOrderTemplate;
+    setClientId(
+      typeof contract?.clientId === 'object' ? contract.clientId._id : contract?.clientId || ''
+    );
+    setTitle(contract?.title || '');
+    setDescription(contract?.description || '');
+    setStartDate(toInputDate(contract?.startDate) || dayjs().format('YYYY-MM-DD'));
+    setEndDate(toInputDate(contract?.endDate) || dayjs().add(1, 'year').format('YYYY-MM-DD'));
+    setVisitInterval(contract?.schedule.interval ?? 1);
+    setUnit(contract?.schedule.unit ?? 'month');
+    setFirstVisitDate(toInputDate(contract?.schedule.firstVisitDate));
+    setLeadDays(contract?.schedule.leadDays ?? 14);
+    setAmount(contract?.price.amount ?? 0);
+    setBillingCycle(contract?.price.billingCycle ?? 'annual');
+    setRenewalType(contract?.renewal.type ?? 'manual');
+    setTermMonths(contract?.renewal.termMonths ?? 12);
+    setNoticeDays(contract?.renewal.noticeDays ?? 30);
+    setSites(withKeys(contract?.sites));
+    setEquipment(withKeys(contract?.equipment));
+    setTemplateTitle(template?.title || '');
+    setTemplateDetails(template?.details || '');
+    setPriority(template?.priority ?? 'medium');
+    setEstimatedHours(template?.estimatedHours ?? '');
+    setPersonnelIds(template?.personnelIds || []);
+    setTasks(withKeys(template?.tasks));
+    setMaterialRows(
+      withKeys(
+        (template?.materials || []).map((m) => ({ materialId: m.materialId, quantity: m.quantity }))
+      )
+    );
+    setNotes(contract?.notes || '');
+  }, [open, contract]);
+
+  const updateRow = <T extends { key: number }>(
+    setter: React.Dispatch<React.SetStateAction<T[]>>,
+    key: number,
+    patch: Partial<T>
+  ) => setter((prev) => prev.map((row) => (row.key === key ? { ...row, ...patch } : row)));
+
+  const removeRow = <T extends { key: number }>(
+    setter: React.Dispatch<React.SetStateAction<T[]>>,
+    key: number
+  ) => setter((prev) => prev.filter((row) => row.key !== key));
+
+  const handleSubmit = async () => {
+    if (!clientId || !title.trim()) {
+      toast.error('Client and title are required');
+      return;
+    }
+    if (!startDate || !endDate || dayjs(endDate).isBefore(startDate)) {
+      toast.error('End date must be after the start date');
+      return;
+    }
+
+    const payload: CreateContractData = {
+      clientId,
+      title: title.trim(),
+      description: description || undefined,
+      sites: sites.filter((s) => s.name && s.address).map(stripKey),
+      equipment: equipment.filter((e) => e.name).map(stripKey),
+      schedule: {
+        interval: visitInterval,
+        unit,
+        firstVisitDate: firstVisitDate || undefined,
+        leadDays,
+      },
+      price: { amount, billingCycle },
+      startDate,
+      endDate,
+      renewal: { type: renewalType, termMonths, noticeDays },
+      workOrderTemplate: {
+        title: templateTitle || undefined,
+        details: templateDetails || undefined,
+        priority,
+        estimatedHours: estimatedHours === '' ? undefined : estimatedHours,
+        personnelIds,
+        tasks: tasks.filter((t) => t.title).map(stripKey),
+        materials: materialRows
+          .filter((m) => m.materialId && m.quantity > 0)
+          .map((m) => ({ materialId: m.materialId, quantity: m.quantity })),
+      },
+      notes: notes || undefined,
+    };
+
+    try {
+      setSubmitting(true);
+      const response = isEdit
+        ? await ContractService.updateContract(contract!._id, payload)
+        : await ContractService.createContract(payload);
+      if (response.success) {
+        toast.success(isEdit ? 'Contract updated successfully' : 'Contract created successfully');
+        onCreatedAction();
+        onCloseAction();
+      }
+    } catch (error: any) {
+      console.error('Failed to save contract:', error);
+      toast.error(error?.message || 'Failed to save contract');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onCloseAction} maxWidth="lg" fullWidth>
+      <DialogTitle>
+        {isEdit ? `Edit ${contract?.contractNumber}` : 'New Service Contract'}
+      </DialogTitle>
+
+      <DialogContent>
+        <Stack spacing={2.5} sx={{ pt: 1 }}>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <TextField
+              select
+              fullWidth
+              label="Client"
+              value={clientId}
+              disabled={isLocked}
+              onChange={(e) => setClientId(e.target.value)}
+            >
+              {clients.map((client) => (
+                <MenuItem key={client._id} value={client._id}>
+                  {client.company ? `${client.name} (${client.company})` : client.name}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              fullWidth
+              label="Title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </Stack>
+
+          <TextField
+            fullWidth
+            multiline
+            minRows={2}
+            label="Description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <TextField
+              type="date"
+              fullWidth
+              label="Start date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              slotProps={{ inputLabel: { shrink: true } }}
+            />
+            <TextField
+              type="date"
+              fullWidth
+              label="End date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              slotProps={{ inputLabel: { shrink: true } }}
+            />
+            <TextField
+              type="number"
+              fullWidth
+              label="Price"
+              value={amount}
+              onChange={(e) => setAmount(Number(e.target.value))}
+            />
+            <TextField
+              select
+              fullWidth
+              label="Billing"
+              value={billingCycle}
+              onChange={(e) => setBillingCycle(e.target.value as ContractBillingCycle)}
+            >
+              <MenuItem value="one_time">One-time</MenuItem>
+              <MenuItem value="monthly">Monthly</MenuItem>
+              <MenuItem value="quarterly">Quarterly</MenuItem>
+              <MenuItem value="annual">Annual</MenuItem>
+            </TextField>
+          </Stack>
+
+          <Divider />
+
+          <Typography variant="subtitle1">Visit schedule</Typography>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <TextField
+              type="number"
+              fullWidth
+              label="Every"
+              value={visitInterval}
+              onChange={(e) => setVisitInterval(Math.max(1, Number(e.target.value)))}
+            />
+            <TextField
+              select
+              fullWidth
+              label="Unit"
+              value={unit}
+              onChange={(e) => setUnit(e.target.value as ContractFrequencyUnit)}
+            >
+              <MenuItem value="week">Week(s)</MenuItem>
+              <MenuItem value="month">Month(s)</MenuItem>
+              <MenuItem value="year">Year(s)</MenuItem>
+            </TextField>
+            <TextField
+              type="date"
+              fullWidth
+              label="First visit"
+              value={firstVisitDate}
+              onChange={(e) => setFirstVisitDate(e.target.value)}
+              helperText="Defaults to the start date"
+              slotProps={{ inputLabel: { shrink: true } }}
+            />
+            <TextField
+              type="number"
+              fullWidth
+              label="Create work order (days before)"
+              value={leadDays}
+              onChange={(e) => setLeadDays(Math.max(0, Number(e.target.value)))}
+            />
+          </Stack>
+
+          <Typography variant="subtitle1">Renewal</Typography>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <TextField
+              select
+              fullWidth
+              label="Renewal"
+              value={renewalType}
+              onChange={(e) => setRenewalType(e.target.value as ContractRenewalType)}
+            >
+              <MenuItem value="none">Expires at end date</MenuItem>
+              <MenuItem value="manual">Manual renewal</MenuItem>
+              <MenuItem value="auto">Renews automatically</MenuItem>
+            </TextField>
+            <TextField
+              type="number"
+              fullWidth
+              label="Term (months)"
+              value={termMonths}
+              disabled={renewalType === 'none'}
+              onChange={(e) => setTermMonths(Math.max(1, Number(e.target.value)))}
+            />
+            <TextField
+              type="number"
+              fullWidth
+              label="Notice (days)"
+              value={noticeDays}
+              disabled={renewalType === 'none'}
+              onChange={(e) => setNoticeDays(Math.max(0, Number(e.target.value)))}
+            />
+          </Stack>
+
+          <Divider />
+
+          <Stack direction="row" alignItems="center" justifyContent="space-between">
+            <Typography variant="subtitle1">Sites</Typography>
+            <Button
+              size="small"
+              startIcon={<Iconify icon="mingcute:add-line" />}
+              onClick={() =>
+                setSites((prev) => [...prev, { key: nextKey(prev), name: '', address: '' }])
+              }
+            >
+              Add site
+            </Button>
+          </Stack>
+          {sites.length === 0 && (
+            <Typography variant="body2" color="text.secondary">
+              Without sites, visits are scheduled at the client&apos;s address.
+            </Typography>
+          )}
+          {sites.map((site) => (
+            <Stack key={site.key} direction={{ xs: 'column', md: 'row' }} spacing={1.5}>
+              <TextField
+                size="small"
+                label="Name"
+                value={site.name}
+                onChange={(e) => updateRow(setSites, site.key, { name: e.target.value })}
+                sx={{ minWidth: 200 }}
+              />
+              <TextField
+                size="small"
+                fullWidth
+                label="Address"
+                value={site.address}
+                onChange={(e) => updateRow(setSites, site.key, { address: e.target.value })}
+              />
+              <IconButton size="small" color="error" onClick={() => removeRow(setSites, site.key)}>
+                <Iconify icon="solar:trash-bin-trash-bold" />
+              </IconButton>
+            </Stack>
+          ))}
+
+          <Stack direction="row" alignItems="center" justifyContent="space-between">
+            <Typography variant="subtitle1">Covered equipment</Typography>
+            <Button
+              size="small"
+              startIcon={<Iconify icon="mingcute:add-line" />}
+              onClick={() => setEquipment((prev) => [...prev, { key: nextKey(prev), name: '' }])}
+            >
+              Add equipment
+            </Button>
+          </Stack>
+          {equipment.map((item) => (
+            <Stack key={item.key} direction={{ xs: 'column', md: 'row' }} spacing={1.5}>
+              <TextField
+                size="small"
+                fullWidth
+                label="Name"
+                value={item.name}
+                onChange={(e) => updateRow(setEquipment, item.key, { name: e.target.value })}
+              />
+              <TextField
+                size="small"
+                label="Model"
+                value={item.model || ''}
+                onChange={(e) => updateRow(setEquipment, item.key, { model: e.target.value })}
+              />
+              <TextField
+                size="small"
+                label="Serial number"
+                value={item.serialNumber || ''}
+                onChange={(e) =>
+                  updateRow(setEquipment, item.key, { serialNumber: e.target.value })
+                }
+              />
+              {sites.length > 0 && (
+                <TextField
+                  select
+                  size="small"
+                  label="Site"
+                  value={item.siteId || ''}
+                  onChange={(e) =>
+                    updateRow(setEquipment, item.key, { siteId: e.target.value || undefined })
+                  }
+                  sx={{ minWidth: 160 }}
+                >
+                  <MenuItem value="">All sites</MenuItem>
+                  {sites
+                    .filter((site) => site._id)
+                    .map((site) => (
+                      <MenuItem key={site._id} value={site._id}>
+                        {site.name}
+                      </MenuItem>
+                    ))}
+                </TextField>
+              )}
+              <IconButton
+                size="small"
+                color="error"
+                onClick={() => removeRow(setEquipment, item.key)}
+              >
+                <Iconify icon="solar:trash-bin-trash-bold" />
+              </IconButton>
+            </Stack>
+          ))}
+
+          <Divider />
+
+          <Typography variant="subtitle1">Work order template</Typography>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <TextField
+              fullWidth
+              label="Work order title"
+              value={templateTitle}
+              placeholder={title}
+              onChange={(e) => setTemplateTitle(e.target.value)}
+              slotProps={{ inputLabel: { shrink: true } }}
+            />
+            <TextField
+              select
+              label="Priority"
+              value={priority}
+              onChange={(e) => setPriority(e.target.value as typeof priority)}
+              sx={{ minWidth: 140 }}
+            >
+              <MenuItem value="low">Low</MenuItem>
+              <MenuItem value="medium">Medium</MenuItem>
+              <MenuItem value="high">High</MenuItem>
+              <MenuItem value="urgent">Urgent</MenuItem>
+            </TextField>
+            <TextField
+              type="number"
+              label="Estimated hours"
+              value={estimatedHours}
+              onChange={(e) =>
+                setEstimatedHours(e.target.value === '' ? '' : Number(e.target.value))
+              }
+              sx={{ minWidth: 140 }}
+            />
+          </Stack>
+          <TextField
+            fullWidth
+            multiline
+            minRows={2}
+            label="Instructions"
+            value={templateDetails}
+            onChange={(e) => setTemplateDetails(e.target.value)}
+          />
+          <TextField
+            select
+            fullWidth
+            label="Assign to"
+            value={personnelIds}
+            onChange={(e) => {
+              const { value } = e.target as { value: string | string[] };
+              setPersonnelIds(typeof value === 'string' ? value.split(',') : value);
+            }}
+            slotProps={{ select: { multiple: true } }}
+          >
+            {personnel.map((p) => (
+              <MenuItem key={p._id} value={p._id}>
+                {p.user?.name || p.employeeId}
+              </MenuItem>
+            ))}
+          </TextField>
+
+          <Stack direction="row" alignItems="center" justifyContent="space-between">
+            <Typography variant="subtitle2">Checklist tasks</Typography>
+            <Button
+              size="small"
+              startIcon={<Iconify icon="mingcute:add-line" />}
+              onClick={() => setTasks((prev) => [...prev, { key: nextKey(prev), title: '' }])}
+            >
+              Add task
+            </Button>
+          </Stack>
+          {tasks.map((task) => (
+            <Stack key={task.key} direction={{ xs: 'column', md: 'row' }} spacing={1.5}>
+              <TextField
+                size="small"
+                fullWidth
+                label="Task"
+                value={task.title}
+                onChange={(e) => updateRow(setTasks, task.key, { title: e.target.value })}
+              />
+              <TextField
+                size="small"
+                type="number"
+                label="Hours"
+                value={task.estimatedHours ?? ''}
+                onChange={(e) =>
+                  updateRow(setTasks, task.key, {
+                    estimatedHours: e.target.value === '' ? undefined : Number(e.target.value),
+                  })
+                }
+                sx={{ width: 120 }}
+              />
+              <IconButton size="small" color="error" onClick={() => removeRow(setTasks, task.key)}>
+                <Iconify icon="solar:trash-bin-trash-bold" />
+              </IconButton>
+            </Stack>
+          ))}
+
+          <Stack direction="row" alignItems="center" justifyContent="space-between">
+            <Typography variant="subtitle2">Materials per visit</Typography>
+            <Button
+              size="small"
+              startIcon={<Iconify icon="mingcute:add-line" />}
+              onClick={() =>
+                setMaterialRows((prev) => [...prev, { key: nextKey(prev), quantity: 1 }])
+              }
+            >
+              Add material
+            </Button>
+          </Stack>
+          {materialRows.map((row) => {
+            const material = materials.find((m) => m._id === row.materialId);
+            return (
+              <Stack key={row.key} direction={{ xs: 'column', md: 'row' }} spacing={1.5}>
+                <TextField
+                  select
+                  size="small"
+                  fullWidth
+                  label="Material"
+                  value={row.materialId || ''}
+                  onChange={(e) =>
+                    updateRow(setMaterialRows, row.key, { materialId: e.target.value })
+                  }
+                >
+                  {materials.map((m) => (
+                    <MenuItem key={m._id} value={m._id}>
+                      {m.sku ? `${m.name} (${m.sku})` : m.name}
+                    </MenuItem>
+                  ))}
+                </TextField>
+                <TextField
+                  size="small"
+                  type="number"
+                  label={material?.unit ? `Qty (${material.unit})` : 'Qty'}
+                  value={row.quantity}
+                  onChange={(e) =>
+                    updateRow(setMaterialRows, row.key, { quantity: Number(e.target.value) })
+                  }
+                  sx={{ width: 130 }}
+                />
+                <IconButton
+                  size="small"
+                  color="error"
+                  onClick={() => removeRow(setMaterialRows, row.key)}
+                >
+                  <Iconify icon="solar:trash-bin-trash-bold" />
+                </IconButton>
+              </Stack>
+            );
+          })}
+
+          <Divider />
+
+          <TextField
+            fullWidth
+            multiline
+            minRows={2}
+            label="Notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </Stack>
+      </DialogContent>
+
+      <DialogActions>
+        <Button variant="outlined" onClick={onCloseAction}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleSubmit} disabled={submitting}>
+          {isEdit ? 'Save Changes' : 'Create Contract'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,431 @@
+'use client';
+
+import type { IContract, ContractStatus, ContractFrequencyUnit } from 'src/lib/models/Contract';
+
+import useSWR from 'swr';
+import { useState } from 'react';
+import { useBoolean } from 'minimal-shared/hooks';
+
+import Card from '@mui/material/Card';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import Table from '@mui/material/Table';
+import Button from '@mui/material/Button';
+import MenuItem from '@mui/material/MenuItem';
+import TableRow from '@mui/material/TableRow';
+import Container from '@mui/material/Container';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TextField from '@mui/material/TextField';
+import IconButton from '@mui/material/IconButton';
+import Typography from '@mui/material/Typography';
+import LinearProgress from '@mui/material/LinearProgress';
+import TableContainer from '@mui/material/TableContainer';
+
+import { fDate } from 'src/utils/format-time';
+import { fCurrency } from 'src/utils/format-number';
+
+import { fetcher, endpoints } from 'src/lib/axios';
+import { ContractService } from 'src/lib/services/contract-service';
+
+import { toast } from 'src/components/snackbar';
+import { Iconify } from 'src/components/iconify';
+import { ConfirmDialog } from 'src/components/custom-dialog';
+
+import { ContractFormDialog } from '../contract-form-dialog';
+import { ContractDetailsDialog } from '../contract-details-dialog';
+
+// ----------------------------------------------------------------------
+
+const STATUS_COLORS: Record<ContractStatus, 'default' | 'info' | 'warning' | 'success' | 'error'> =
+  {
+    draft: 'default',
+    active: 'success',
+    suspended: 'warning',
+    expired: 'info',
+    cancelled: 'error',
+  };
+
+const STATUS_LABELS: Record<ContractStatus, string> = {
+  draft: 'Draft',
+  active: 'Active',
+  suspended: 'Suspended',
+  expired: 'Expired',
+  cancelled: 'Cancelled',
+};
+
+const UNIT_LABELS: Record<ContractFrequencyUnit, [string, string]> = {
+  week: ['Weekly', 'weeks'],
+  month: ['Monthly', 'months'],
+  year: ['Yearly', 'years'],
+};
+
+const frequencyLabel = ({ interval, unit }: IContract['schedule']) =>
+  interval === 1 ? UNIT_LABELS[unit][0] : `Every ${interval} ${UNIT_LABELS[unit][1]}`;
+
+export function ContractListView() {
+  const openForm = useBoolean();
+
+  const [status, setStatus] = useState<ContractStatus | ''>('');
+  const [search, setSearch] = useState('');
+  const [editTarget, setEditTarget] = useState<IContract | null>(null);
+  const [detailsId, setDetailsId] = useState<string | null>(null);
+  const [renewTarget, setRenewTarget] = useState<IContract | null>(null);
+  const [cancelTarget, setCancelTarget] = useState<IContract | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<IContract | null>(null);
+
+  const { data, isLoading, mutate } = useSWR(
+    [
+      endpoints.fsa.contracts.list,
+      { params: { status: status || undefined, q: search || undefined } },
+    ],
+    fetcher<any>
+  );
+
+  const contracts: IContract[] = data?.data || [];
+
+  const run = async (action: () => Promise<any>, success: string, failure: string) => {
+    try {
+      const response = await action();
+      if (response?.success !== false) {
+        toast.success(response?.message || success);
+      }
+      mutate();
+      return response;
+    } catch (error: any) {
+      console.error(failure, error);
+      toast.error(error?.message || failure);
+      return null;
+    }
+  };
+
+  const clientName = (contract: IContract) =>
+    typeof contract.clientId === 'object' ? contract.clientId?.name : '';
+
+  const handleCreate = () => {
+    setEditTarget(null);
+    openForm.onTrue();
+  };
+
+  const handleEdit = (contract: IContract) => {
+    setEditTarget(contract);
+    openForm.onTrue();
+  };
+
+  return (
+    <Container maxWidth={false}>
+      <Stack spacing={3} sx={{ p: 3 }}>
+        <Stack direction="row" alignItems="center" justifyContent="space-between">
+          <Stack spacing={1}>
+            <Typography variant="h4">Service Contracts</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Maintenance agreements that create their recurring visits as work orders ahead of
+              time.
+            </Typography>
+          </Stack>
+          <Button
+            variant="contained"
+            startIcon={<Iconify icon="mingcute:add-line" />}
+            onClick={handleCreate}
+          >
+            New Contract
+          </Button>
+        </Stack>
+
+        <Card>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} sx={{ p: 2.5 }}>
+            <TextField
+              fullWidth
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by number or title..."
+            />
+            <TextField
+              select
+              label="Status"
+              value={status}
+              onChange={(e) => setStatus(e.target.value as ContractStatus | '')}
+              sx={{ minWidth: 200 }}
+            >
+              <MenuItem value="">All</MenuItem>
+              {(Object.keys(STATUS_LABELS) as ContractStatus[]).map((value) => (
+                <MenuItem key={value} value={value}>
+                  {STATUS_LABELS[value]}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Stack>
+
+          <TableContainer>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Number</TableCell>
+                  <TableCell>Client</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell>Frequency</TableCell>
+                  <TableCell>Term</TableCell>
+                  <TableCell sx={{ minWidth: 140 }}>Visits</TableCell>
+                  <TableCell>Next visit</TableCell>
+                  <TableCell align="right">Price</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {!isLoading && contracts.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={9} align="center" sx={{ py: 6 }}>
+                      <Typography variant="body2" color="text.secondary">
+                        No service contracts yet
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+                {contracts.map((contract) => {
+                  const visits = contract.visits;
+                  const progress = visits?.planned
+                    ? Math.min(100, (visits.completed / visits.planned) * 100)
+                    : 0;
+                  const canChange = ['draft', 'active', 'suspended'].includes(contract.status);
+
+                  return (
+                    <TableRow key={contract._id} hover>
+                      <TableCell>
+                        <Typography
+                          variant="subtitle2"
+                          sx={{ cursor: 'pointer' }}
+                          onClick={() => setDetailsId(contract._id)}
+                        >
+                          {contract.contractNumber}
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          {contract.title}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>{clientName(contract)}</TableCell>
+                      <TableCell>
+                        <Chip
+                          size="small"
+                          label={STATUS_LABELS[contract.status]}
+                          color={STATUS_COLORS[contract.status]}
+                        />
+                      </TableCell>
+                      <TableCell>{frequencyLabel(contract.schedule)}</TableCell>
+                      <TableCell>
+                        <Typography variant="body2">
+                          {fDate(contract.termStartDate)} – {fDate(contract.endDate)}
+                        </Typography>
+                        {contract.renewal.type === 'auto' && (
+                          <Typography variant="caption" color="text.secondary">
+                            Auto-renews
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Typography variant="body2">
+                          {visits ? `${visits.completed} / ${visits.planned}` : '-'}
+                        </Typography>
+                        <LinearProgress variant="determinate" value={progress} sx={{ mt: 0.5 }} />
+                      </TableCell>
+                      <TableCell>
+                        {contract.schedule.nextVisitDate
+                          ? fDate(contract.schedule.nextVisitDate)
+                          : '-'}
+                      </TableCell>
+                      <TableCell align="right">
+                        {fCurrency(contract.price.amount, { currency: contract.price.currency })}
+                      </TableCell>
+                      <TableCell align="right">
+                        <Stack direction="row" spacing={0.5} justifyContent="flex-end">
+                          <IconButton
+                            size="small"
+                            title="Visits"
+                            onClick={() => setDetailsId(contract._id)}
+                          >
+                            <Iconify icon="solar:eye-bold" />
+                          </IconButton>
+                          {(contract.status === 'draft' || contract.status === 'suspended') && (
+                            <IconButton
+                              size="small"
+                              color="success"
+                              title="Activate"
+                              onClick={() =>
+                                run(
+                                  () => ContractService.activateContract(contract._id),
+                                  'Contract activated',
+                                  'Failed to activate contract'
+                                )
+                              }
+                            >
+                              <Iconify icon="solar:play-circle-bold" />
+                            </IconButton>
+                          )}
+                          {contract.status === 'active' && (
+                            <>
+                              <IconButton
+                                size="small"
+                                title="Generate due visits now"
+                                onClick={() =>
+                                  run(
+                                    () => ContractService.generateVisits(contract._id),
+                                    'Due visits generated',
+                                    'Failed to generate visits'
+                                  )
+                                }
+                              >
+                                <Iconify icon="solar:calendar-mark-bold" />
+                              </IconButton>
+                              <IconButton
+                                size="small"
+                                color="warning"
+                                title="Suspend"
+                                onClick={() =>
+                                  run(
+                                    () => ContractService.suspendContract(contract._id),
+                                    'Contract suspended',
+                                    'Failed to suspend contract'
+                                  )
+                                }
+                              >
+                                <Iconify icon="solar:danger-triangle-bold" />
+                              </IconButton>
+                            </>
+                          )}
+                          {(contract.status === 'active' || contract.status === 'expired') &&
+                            contract.renewal.type !== 'none' && (
+                              <IconButton
+                                size="small"
+                                color="info"
+                                title="Renew"
+                                onClick={() => setRenewTarget(contract)}
+                              >
+                                <Iconify icon="solar:restart-bold" />
+                              </IconButton>
+                            )}
+                          {contract.status !== 'cancelled' && (
+                            <IconButton
+                              size="small"
+                              title="Edit"
+                              onClick={() => handleEdit(contract)}
+                            >
+                              <Iconify icon="solar:pen-bold" />
+                            </IconButton>
+                          )}
+                          {canChange && contract.status !== 'draft' && (
+                            <IconButton
+                              size="small"
+                              color="warning"
+                              title="Cancel"
+                              onClick={() => setCancelTarget(contract)}
+                            >
+                              <Iconify icon="solar:close-circle-bold" />
+                            </IconButton>
+                          )}
+                          {!visits?.generated && (
+                            <IconButton
+                              size="small"
+                              color="error"
+                              title="Delete"
+                              onClick={() => setDeleteTarget(contract)}
+                            >
+                              <Iconify icon="solar:trash-bin-trash-bold" />
+                            </IconButton>
+                          )}
+                        </Stack>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Card>
+      </Stack>
+
+      <ContractFormDialog
+        open={openForm.value}
+        contract={editTarget}
+        onCloseAction={openForm.onFalse}
+        onCreatedAction={() => mutate()}
+      />
+
+      <ContractDetailsDialog contractId={detailsId} onCloseAction={() => setDetailsId(null)} />
+
+      <ConfirmDialog
+        open={!!renewTarget}
+        onClose={() => setRenewTarget(null)}
+        title="Renew Contract"
+        content={`Extend ${renewTarget?.contractNumber} by another ${renewTarget?.renewal.termMonths} months?`}
+        action={
+          <Button
+            variant="contained"
+            color="info"
+            onClick={async () => {
+              if (renewTarget) {
+                await run(
+                  () => ContractService.renewContract(renewTarget._id),
+                  'Contract renewed',
+                  'Failed to renew contract'
+                );
+              }
+              setRenewTarget(null);
+            }}
+          >
+            Renew
+          </Button>
+        }
+      />
+
+      <ConfirmDialog
+        open={!!cancelTarget}
+        onClose={() => setCancelTarget(null)}
+        title="Cancel Contract"
+        content={`Cancel ${cancelTarget?.contractNumber}? No further visits will be generated; existing work orders are kept.`}
+        action={
+          <Button
+            variant="contained"
+            color="warning"
+            onClick={async () => {
+              if (cancelTarget) {
+                await run(
+                  () => ContractService.cancelContract(cancelTarget._id),
+                  'Contract cancelled',
+                  'Failed to cancel contract'
+                );
+              }
+              setCancelTarget(null);
+            }}
+          >
+            Cancel contract
+          </Button>
+        }
+      />
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        title="Delete Contract"
+        content={`Are you sure you want to delete ${deleteTarget?.contractNumber}?`}
+        action={
+          <Button
+            variant="contained"
+            color="error"
+            onClick={async () => {
+              if (deleteTarget) {
+                await run(
+                  () => ContractService.deleteContract(deleteTarget._id),
+                  'Contract deleted successfully',
+                  'Failed to delete contract'
+                );
+              }
+              setDeleteTarget(null);
+            }}
+          >
+            Delete
+          </Button>
+        }
+      />
+    </Container>
+  );
+}
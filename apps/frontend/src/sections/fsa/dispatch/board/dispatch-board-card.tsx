@@ -0,0 +1,133 @@
+'use client';
+
+import type { Theme, SxProps } from '@mui/material/styles';
+import type { DispatchConflict } from 'src/lib/models/Dispatch';
+
+import { useRef, useState, useEffect } from 'react';
+import { draggable } from '@atlaskit/pragmatic-drag-and-drop/element/adapter';
+
+import Box from '@mui/material/Box';
+import Tooltip from '@mui/material/Tooltip';
+import Typography from '@mui/material/Typography';
+
+import { getPriorityOption } from 'src/constants/priorities';
+
+import { Iconify } from 'src/components/iconify';
+
+import { MINUTE_WIDTH, getWorkOrderCardData } from './dispatch-board-dnd';
+
+// ----------------------------------------------------------------------
+
+type Props = {
+  workOrderId: string;
+  title: string;
+  subtitle?: string;
+  priority: string;
+  durationMinutes: number;
+  fromPersonnelId?: string;
+  conflicts?: DispatchConflict[];
+  onOpenAction?: () => void;
+  sx?: SxProps<Theme>;
+};
+
+export function DispatchBoardCard({
+  workOrderId,
+  title,
+  subtitle,
+  priority,
+  durationMinutes,
+  fromPersonnelId,
+  conflicts = [],
+  onOpenAction,
+  sx,
+}: Props) {
+  const cardRef = useRef<HTMLDivElement>(null);
+  const [dragging, setDragging] = useState(false);
+
+  useEffect(() => {
+    const element = cardRef.current;
+    if (!element) return undefined;
+
+    return draggable({
+      element,
+      getInitialData: ({ input }) =>
+        getWorkOrderCardData({
+          workOrderId,
+          durationMinutes,
+          fromPersonnelId,
+          // Queue cards are not drawn to scale, so they drop at the pointer
+          grabOffsetMinutes: fromPersonnelId
+            ? (input.clientX - element.getBoundingClientRect().left) / MINUTE_WIDTH
+            : 0,
+        }),
+      onDragStart: () => setDragging(true),
+      onDrop: () => setDragging(false),
+    });
+  }, [workOrderId, durationMinutes, fromPersonnelId]);
+
+  const priorityColor = getPriorityOption(priority)?.color;
+  const hasConflicts = conflicts.length > 0;
+
+  return (
+    <Tooltip
+      disableInteractive
+      title={
+        hasConflicts ? (
+          <Box component="ul" sx={{ m: 0, pl: 2 }}>
+            {conflicts.map((conflict, index) => (
+              <li key={index}>{conflict.message}</li>
+            ))}
+          </Box>
+        ) : (
+          title
+        )
+      }
+    >
+      <Box
+        ref={cardRef}
+        onDoubleClick={onOpenAction}
+        sx={[
+          (theme) => ({
+            px: 1,
+            py: 0.5,
+            gap: 0.5,
+            minWidth: 0,
+            display: 'flex',
+            cursor: 'grab',
+            overflow: 'hidden',
+            flexDirection: 'column',
+            borderRadius: 1,
+            bgcolor: 'background.paper',
+            boxShadow: theme.vars?.customShadows.z1,
+            border: `1px solid ${theme.vars?.palette.divider}`,
+            borderLeft: `4px solid ${priorityColor || theme.vars?.palette.grey[500]}`,
+            opacity: dragging ? 0.4 : 1,
+            ...(hasConflicts && {
+              borderColor: theme.vars?.palette.error.main,
+              bgcolor: theme.vars?.palette.error.lighter,
+            }),
+          }),
+          ...(Array.isArray(sx) ? sx : [sx]),
+        ]}
+      >
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, minWidth: 0 }}>
+          {hasConflicts && (
+            <Iconify
+              icon="solar:danger-triangle-bold"
+              width={14}
+              sx={{ color: 'error.main', flexShrink: 0 }}
+            />
+          )}
+          <Typography variant="subtitle2" noWrap sx={{ fontSize: 12 }}>
+            {title}
+          </Typography>
+        </Box>
+        {subtitle && (
+          <Typography variant="caption" color="text.secondary" noWrap>
+            {subtitle}
+          </Typography>
+        )}
+      </Box>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,74 @@
+// ----------------------------------------------------------------------
+
+export const BOARD_START_HOUR = 6;
+export const BOARD_END_HOUR = 22;
+export const HOUR_WIDTH = 96;
+export const MINUTE_WIDTH = HOUR_WIDTH / 60;
+export const SNAP_MINUTES = 15;
+export const LANE_LABEL_WIDTH = 200;
+export const CARD_HEIGHT = 52;
+
+const WORK_ORDER_CARD_KEY = Symbol('dispatch-work-order');
+
+export type WorkOrderCardData = {
+  [WORK_ORDER_CARD_KEY]: true;
+  workOrderId: string;
+  durationMinutes: number;
+  fromPersonnelId?: string;
+  // Pointer offset inside the card so the drop keeps the card under the cursor
+  grabOffsetMinutes: number;
+};
+
+export function getWorkOrderCardData(
+  data: Omit<WorkOrderCardData, typeof WORK_ORDER_CARD_KEY>
+): WorkOrderCardData {
+  return { [WORK_ORDER_CARD_KEY]: true, ...data };
+}
+
+export function isWorkOrderCardData(
+  data: Record<string | symbol, unknown>
+): data is WorkOrderCardData {
+  return data[WORK_ORDER_CARD_KEY] === true;
+}
+
+/**
+ * Minute of the day under the pointer, snapped to the board grid
+ */
+export function minuteFromPointer(clientX: number, laneTrack: HTMLElement, grabOffsetMinutes = 0) {
+  const offset = (clientX - laneTrack.getBoundingClientRect().left) / MINUTE_WIDTH;
+  const minute = BOARD_START_HOUR * 60 + offset - grabOffsetMinutes;
+  const snapped = Math.round(minute / SNAP_MINUTES) * SNAP_MINUTES;
+  return Math.min(Math.max(snapped, BOARD_START_HOUR * 60), BOARD_END_HOUR * 60 - SNAP_MINUTES);
+}
+
+export function minuteToOffset(minute: number) {
+  return (minute - BOARD_START_HOUR * 60) * MINUTE_WIDTH;
+}
+
+export function formatMinute(minute: number) {
+  const hours = Math.floor(minute / 60);
+  const minutes = minute % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+export function toMinutes(time: string) {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+/**
+ * Greedy row packing so overlapping cards stay visible
+ */
+export function packRows<T extends { startMinute: number; endMinute: number }>(items: T[]) {
+  const rowEnds: number[] = [];
+  return items.map((item) => {
+    let row = rowEnds.findIndex((end) => end <= item.startMinute);
+    if (row === -1) {
+      row = rowEnds.length;
+      rowEnds.push(item.endMinute);
+    } else {
+      rowEnds[row] = item.endMinute;
+    }
+    return { item, row };
+  });
+}
@@ -0,0 +1,226 @@
+'use client';
+
+import type { DispatchBoardLane } from 'src/lib/models/Dispatch';
+
+import { useRef, useState, useEffect } from 'react';
+import { dropTargetForElements } from '@atlaskit/pragmatic-drag-and-drop/element/adapter';
+
+import Box from '@mui/material/Box';
+import Stack from '@mui/material/Stack';
+import Tooltip from '@mui/material/Tooltip';
+import Typography from '@mui/material/Typography';
+
+import { Iconify } from 'src/components/iconify';
+
+import { DispatchBoardCard } from './dispatch-board-card';
+import {
+  packRows,
+  toMinutes,
+  HOUR_WIDTH,
+  CARD_HEIGHT,
+  formatMinute,
+  MINUTE_WIDTH,
+  minuteToOffset,
+  BOARD_END_HOUR,
+  BOARD_START_HOUR,
+  LANE_LABEL_WIDTH,
+  minuteFromPointer,
+  isWorkOrderCardData,
+} from './dispatch-board-dnd';
+
+// ----------------------------------------------------------------------
+
+export type LaneDropEvent = {
+  workOrderId: string;
+  personnelId: string;
+  startMinute: number;
+  durationMinutes: number;
+  fromPersonnelId?: string;
+};
+
+type Props = {
+  lane: DispatchBoardLane;
+  onDropAction: (event: LaneDropEvent) => void;
+  onOpenAction: (workOrderId: string) => void;
+};
+
+type DropPreview = { startMinute: number; durationMinutes: number } | null;
+
+const LANE_PADDING = 6;
+const TRACK_WIDTH = (BOARD_END_HOUR - BOARD_START_HOUR) * HOUR_WIDTH;
+
+export function DispatchBoardLaneRow({ lane, onDropAction, onOpenAction }: Props) {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [preview, setPreview] = useState<DropPreview>(null);
+
+  const personnelId = lane.personnel._id;
+
+  useEffect(() => {
+    const element = trackRef.current;
+    if (!element) return undefined;
+
+    return dropTargetForElements({
+      element,
+      canDrop: ({ source }) => isWorkOrderCardData(source.data),
+      onDrag: ({ source, location }) => {
+        if (!isWorkOrderCardData(source.data)) return;
+        const startMinute = minuteFromPointer(
+          location.current.input.clientX,
+          element,
+          source.data.grabOffsetMinutes
+        );
+        const { durationMinutes } = source.data;
+        setPreview((prev) =>
+          prev?.startMinute === startMinute && prev.durationMinutes === durationMinutes
+            ? prev
+            : { startMinute, durationMinutes }
+        );
+      },
+      onDragLeave: () => setPreview(null),
+      onDrop: ({ source, location }) => {
+        setPreview(null);
+        if (!isWorkOrderCardData(source.data)) return;
+        onDropAction({
+          workOrderId: source.data.workOrderId,
+          personnelId,
+          durationMinutes: source.data.durationMinutes,
+          fromPersonnelId: source.data.fromPersonnelId,
+          startMinute: minuteFromPointer(
+            location.current.input.clientX,
+            element,
+            source.data.grabOffsetMinutes
+          ),
+        });
+      },
+    });
+  }, [personnelId, onDropAction]);
+
+  const packed = packRows(lane.items);
+  const rows = Math.max(1, ...packed.map(({ row }) => row + 1));
+  const hours = lane.workingHours;
+  const unavailable = hours ? !hours.available : false;
+  const conflictCount = lane.items.filter((item) => item.conflicts.length > 0).length;
+
+  // Shade the parts of the day outside the technician's working hours
+  const offHours =
+    hours && hours.available
+      ? [
+          [BOARD_START_HOUR * 60, toMinutes(hours.start)],
+          [toMinutes(hours.end), BOARD_END_HOUR * 60],
+        ].filter(([from, to]) => to > from)
+      : [];
+
+  return (
+    <Box sx={{ display: 'flex', borderBottom: 1, borderColor: 'divider' }}>
+      <Stack
+        spacing={0.25}
+        justifyContent="center"
+        sx={{
+          px: 2,
+          flexShrink: 0,
+          left: 0,
+          zIndex: 2,
+          position: 'sticky',
+          width: LANE_LABEL_WIDTH,
+          bgcolor: 'background.paper',
+          borderRight: 1,
+          borderColor: 'divider',
+        }}
+      >
+        <Typography variant="subtitle2" noWrap>
+          {lane.personnel.name}
+        </Typography>
+        <Stack direction="row" spacing={0.5} alignItems="center">
+          <Typography variant="caption" color={unavailable ? 'error.main' : 'text.secondary'}>
+            {hours ? (unavailable ? 'Day off' : `${hours.start}–${hours.end}`) : 'No hours set'}
+          </Typography>
+          {conflictCount > 0 && (
+            <Tooltip title={`${conflictCount} conflicting booking(s)`}>
+              <Iconify icon="solar:danger-triangle-bold" width={14} sx={{ color: 'error.main' }} />
+            </Tooltip>
+          )}
+        </Stack>
+      </Stack>
+
+      <Box
+        ref={trackRef}
+        sx={(theme) => ({
+          flexShrink: 0,
+          position: 'relative',
+          width: TRACK_WIDTH,
+          height: rows * (CARD_HEIGHT + LANE_PADDING) + LANE_PADDING,
+          backgroundImage: `repeating-linear-gradient(to right, ${theme.vars?.palette.divider} 0 1px, transparent 1px ${HOUR_WIDTH}px)`,
+          ...(unavailable && { bgcolor: theme.vars?.palette.action.disabledBackground }),
+          ...(preview && { bgcolor: theme.vars?.palette.action.hover }),
+        })}
+      >
+        {offHours.map(([from, to]) => (
+          <Box
+            key={from}
+            sx={{
+              top: 0,
+              bottom: 0,
+              position: 'absolute',
+              left: minuteToOffset(from),
+              width: (to - from) * MINUTE_WIDTH,
+              bgcolor: 'action.disabledBackground',
+            }}
+          />
+        ))}
+
+        {packed.map(({ item, row }) => {
+          const start = Math.max(item.startMinute, BOARD_START_HOUR * 60);
+          const end = Math.min(Math.max(item.endMinute, start + 15), BOARD_END_HOUR * 60);
+          return (
+            <DispatchBoardCard
+              key={item.workOrderId}
+              workOrderId={item.workOrderId}
+              title={item.workOrderNumber ? `${item.workOrderNumber} · ${item.title}` : item.title}
+              subtitle={`${formatMinute(item.startMinute)}–${formatMinute(item.endMinute)}${
+                item.clientName ? ` · ${item.clientName}` : ''
+              }`}
+              priority={item.priority}
+              durationMinutes={item.endMinute - item.startMinute}
+              fromPersonnelId={personnelId}
+              conflicts={item.conflicts}
+              onOpenAction={() => onOpenAction(item.workOrderId)}
+              sx={{
+                zIndex: 1,
+                position: 'absolute',
+                height: CARD_HEIGHT,
+                left: minuteToOffset(start),
+                width: Math.max((end - start) * MINUTE_WIDTH - 2, 24),
+                top: LANE_PADDING + row * (CARD_HEIGHT + LANE_PADDING),
+              }}
+            />
+          );
+        })}
+
+        {preview && (
+          <Box
+            sx={{
+              top: LANE_PADDING,
+              bottom: LANE_PADDING,
+              zIndex: 3,
+              position: 'absolute',
+              pointerEvents: 'none',
+              borderRadius: 1,
+              border: 2,
+              borderStyle: 'dashed',
+              borderColor: 'primary.main',
+              left: minuteToOffset(preview.startMinute),
+              width: preview.durationMinutes * MINUTE_WIDTH,
+            }}
+          >
+            <Typography
+              variant="caption"
+              sx={{ px: 0.5, color: 'primary.main', fontWeight: 'fontWeightBold' }}
+            >
+              {formatMinute(preview.startMinute)}
+            </Typography>
+          </Box>
+        )}
+      </Box>
+    </Box>
+  );
+}
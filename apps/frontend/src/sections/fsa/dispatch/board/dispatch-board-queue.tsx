@@ -0,0 +1,96 @@
+'use client';
+
+import type { UnscheduledWorkOrder } from 'src/lib/models/Dispatch';
+
+import { useRef, useState, useEffect } from 'react';
+import { dropTargetForElements } from '@atlaskit/pragmatic-drag-and-drop/element/adapter';
+
+import Card from '@mui/material/Card';
+import Stack from '@mui/material/Stack';
+import CardHeader from '@mui/material/CardHeader';
+import Typography from '@mui/material/Typography';
+
+import { DispatchBoardCard } from './dispatch-board-card';
+import { isWorkOrderCardData } from './dispatch-board-dnd';
+
+// ----------------------------------------------------------------------
+
+type Props = {
+  workOrders: UnscheduledWorkOrder[];
+  onUnscheduleAction: (workOrderId: string, personnelId: string) => void;
+  onOpenAction: (workOrderId: string) => void;
+};
+
+const formatDuration = (minutes: number) =>
+  minutes >= 60 ? `${Math.round((minutes / 60) * 10) / 10}h` : `${minutes}m`;
+
+export function DispatchBoardQueue({ workOrders, onUnscheduleAction, onOpenAction }: Props) {
+  const listRef = useRef<HTMLDivElement>(null);
+  const [isOver, setIsOver] = useState(false);
+
+  useEffect(() => {
+    const element = listRef.current;
+    if (!element) return undefined;
+
+    // Only cards dragged off a lane can go back to the queue
+    return dropTargetForElements({
+      element,
+      canDrop: ({ source }) => isWorkOrderCardData(source.data) && !!source.data.fromPersonnelId,
+      onDragEnter: () => setIsOver(true),
+      onDragLeave: () => setIsOver(false),
+      onDrop: ({ source }) => {
+        setIsOver(false);
+        if (!isWorkOrderCardData(source.data) || !source.data.fromPersonnelId) return;
+        onUnscheduleAction(source.data.workOrderId, source.data.fromPersonnelId);
+      },
+    });
+  }, [onUnscheduleAction]);
+
+  return (
+    <Card sx={{ display: 'flex', flexDirection: 'column', height: 1 }}>
+      <CardHeader
+        title="Unscheduled"
+        subheader={`${workOrders.length} work order(s) · drag onto a technician`}
+        sx={{ pb: 2 }}
+      />
+      <Stack
+        ref={listRef}
+        spacing={1}
+        sx={{
+          p: 2,
+          pt: 0,
+          flex: 1,
+          minHeight: 200,
+          overflowY: 'auto',
+          transition: (theme) => theme.transitions.create('background-color'),
+          ...(isOver && { bgcolor: 'action.hover' }),
+        }}
+      >
+        {workOrders.map((workOrder) => (
+          <DispatchBoardCard
+            key={workOrder._id}
+            workOrderId={workOrder._id}
+            title={
+              workOrder.workOrderNumber
+                ? `${workOrder.workOrderNumber} · ${workOrder.title}`
+                : workOrder.title
+            }
+            subtitle={[formatDuration(workOrder.durationMinutes), workOrder.clientName]
+              .filter(Boolean)
+              .join(' · ')}
+            priority={workOrder.priority}
+            durationMinutes={workOrder.durationMinutes}
+            onOpenAction={() => onOpenAction(workOrder._id)}
+            sx={{ flexShrink: 0 }}
+          />
+        ))}
+
+        {workOrders.length === 0 && (
+          <Typography variant="body2" color="text.secondary" sx={{ py: 3, textAlign: 'center' }}>
+            Every open work order is scheduled.
+          </Typography>
+        )}
+      </Stack>
+    </Card>
+  );
+}
@@ -0,0 +1,208 @@
+'use client';
+
+import type { Dayjs } from 'dayjs';
+import type { DispatchBoard } from 'src/lib/models/Dispatch';
+import type { LaneDropEvent } from '../board/dispatch-board-lane';
+
+import useSWR from 'swr';
+import dayjs from 'dayjs';
+import { useState, useCallback } from 'react';
+
+import Box from '@mui/material/Box';
+import Card from '@mui/material/Card';
+import Grid from '@mui/material/Grid';
+import Alert from '@mui/material/Alert';
+import Stack from '@mui/material/Stack';
+import Button from '@mui/material/Button';
+import Container from '@mui/material/Container';
+import IconButton from '@mui/material/IconButton';
+import Typography from '@mui/material/Typography';
+import LinearProgress from '@mui/material/LinearProgress';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+
+import { paths } from 'src/routes/paths';
+import { useRouter } from 'src/routes/hooks';
+
+import { fetcher, endpoints } from 'src/lib/axios';
+import { DispatchService } from 'src/lib/services/dispatch-service';
+
+import { toast } from 'src/components/snackbar';
+import { Iconify } from 'src/components/iconify';
+
+import { DispatchBoardQueue } from '../board/dispatch-board-queue';
+import { DispatchBoardLaneRow } from '../board/dispatch-board-lane';
+import {
+  HOUR_WIDTH,
+  formatMinute,
+  BOARD_END_HOUR,
+  BOARD_START_HOUR,
+  LANE_LABEL_WIDTH,
+} from '../board/dispatch-board-dnd';
+
+// ----------------------------------------------------------------------
+
+const HOURS = Array.from(
+  { length: BOARD_END_HOUR - BOARD_START_HOUR },
+  (_, index) => BOARD_START_HOUR + index
+);
+
+export function DispatchBoardView() {
+  const router = useRouter();
+
+  const [date, setDate] = useState<Dayjs>(dayjs());
+  const dateParam = date.format('YYYY-MM-DD');
+
+  const { data, isLoading, mutate } = useSWR(
+    [endpoints.fsa.dispatch.board, { params: { date: dateParam } }],
+    fetcher<any>
+  );
+
+  const board: DispatchBoard | undefined = data?.data;
+
+  const handleDrop = useCallback(
+    async (event: LaneDropEvent) => {
+      try {
+        const response = await DispatchService.scheduleWorkOrder({ ...event, date: dateParam });
+        const conflicts = response?.data?.conflicts || [];
+        if (conflicts.length) {
+          toast.warning(
+            `Scheduled at ${formatMinute(event.startMinute)} with conflicts: ${conflicts
+              .map((conflict: any) => conflict.message)
+              .join('; ')}`
+          );
+        } else {
+          toast.success(`Scheduled at ${formatMinute(event.startMinute)}`);
+        }
+        // The response already carries the refreshed board
+        mutate({ success: true, data: response.data.board }, { revalidate: false });
+      } catch (error: any) {
+        console.error('Failed to schedule work order:', error);
+        toast.error(error?.message || 'Failed to schedule work order');
+        mutate();
+      }
+    },
+    [dateParam, mutate]
+  );
+
+  const handleUnschedule = useCallback(
+    async (workOrderId: string, personnelId: string) => {
+      try {
+        await DispatchService.unscheduleWorkOrder(workOrderId, personnelId);
+        toast.success('Work order moved back to the queue');
+      } catch (error: any) {
+        console.error('Failed to unschedule work order:', error);
+        toast.error(error?.message || 'Failed to unschedule work order');
+      } finally {
+        mutate();
+      }
+    },
+    [mutate]
+  );
+
+  const handleOpen = useCallback(
+    (workOrderId: string) => router.push(paths.dashboard.fsa.workOrders.details(workOrderId)),
+    [router]
+  );
+
+  return (
+    <Container maxWidth={false}>
+      <Stack spacing={3} sx={{ p: 3 }}>
+        <Stack
+          direction={{ xs: 'column', md: 'row' }}
+          spacing={2}
+          alignItems={{ md: 'center' }}
+          justifyContent="space-between"
+        >
+          <Stack spacing={1}>
+            <Typography variant="h4">Dispatch Board</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Drag work orders onto a technician to schedule them. Bookings outside working hours or
+              overlapping other work are highlighted.
+            </Typography>
+          </Stack>
+
+          <Stack direction="row" spacing={1} alignItems="center">
+            <IconButton onClick={() => setDate((prev) => prev.subtract(1, 'day'))}>
+              <Iconify icon="eva:arrow-ios-back-fill" />
+            </IconButton>
+            <DatePicker
+              value={date}
+              onChange={(value) => value && value.isValid() && setDate(value)}
+              slotProps={{ textField: { size: 'small', sx: { width: 180 } } }}
+            />
+            <IconButton onClick={() => setDate((prev) => prev.add(1, 'day'))}>
+              <Iconify icon="eva:arrow-ios-forward-fill" />
+            </IconButton>
+            <Button variant="outlined" onClick={() => setDate(dayjs())}>
+              Today
+            </Button>
+          </Stack>
+        </Stack>
+
+        {isLoading && <LinearProgress />}
+
+        {board && (
+          <Grid container spacing={3}>
+            <Grid size={{ xs: 12, md: 3 }}>
+              <DispatchBoardQueue
+                workOrders={board.unscheduled}
+                onUnscheduleAction={handleUnschedule}
+                onOpenAction={handleOpen}
+              />
+            </Grid>
+
+            <Grid size={{ xs: 12, md: 9 }}>
+              <Card sx={{ overflowX: 'auto' }}>
+                <Box sx={{ display: 'flex', borderBottom: 1, borderColor: 'divider' }}>
+                  <Box
+                    sx={{
+                      px: 2,
+                      py: 1,
+                      left: 0,
+                      zIndex: 2,
+                      flexShrink: 0,
+                      position: 'sticky',
+                      width: LANE_LABEL_WIDTH,
+                      bgcolor: 'background.paper',
+                      borderRight: 1,
+                      borderColor: 'divider',
+                    }}
+                  >
+                    <Typography variant="caption" color="text.secondary">
+                      {`Times in ${board.timezone}`}
+                    </Typography>
+                  </Box>
+                  {HOURS.map((hour) => (
+                    <Typography
+                      key={hour}
+                      variant="caption"
+                      color="text.secondary"
+                      sx={{ py: 1, px: 0.5, flexShrink: 0, width: HOUR_WIDTH }}
+                    >
+                      {formatMinute(hour * 60)}
+                    </Typography>
+                  ))}
+                </Box>
+
+                {board.lanes.map((lane) => (
+                  <DispatchBoardLaneRow
+                    key={lane.personnel._id}
+                    lane={lane}
+                    onDropAction={handleDrop}
+                    onOpenAction={handleOpen}
+                  />
+                ))}
+
+                {board.lanes.length === 0 && (
+                  <Alert severity="info" sx={{ m: 2 }}>
+                    Add active personnel to start scheduling work orders.
+                  </Alert>
+                )}
+              </Card>
+            </Grid>
+          </Grid>
+        )}
+      </Stack>
+    </Container>
+  );
+}
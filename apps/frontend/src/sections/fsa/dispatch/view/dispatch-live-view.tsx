@@ -0,0 +1,448 @@
+'use client';
+
+import type { Dayjs } from 'dayjs';
+import type { LayerProps } from 'react-map-gl/maplibre';
+import type { LocationTrail, LiveTechnician, TrackingSettings } from 'src/lib/models/Tracking';
+
+import useSWR from 'swr';
+import dayjs from 'dayjs';
+import { Layer, Marker, Source } from 'react-map-gl/maplibre';
+import { useMemo, useState, useEffect, useCallback } from 'react';
+
+import Box from '@mui/material/Box';
+import Card from '@mui/material/Card';
+import Grid from '@mui/material/Grid';
+import Link from '@mui/material/Link';
+import Alert from '@mui/material/Alert';
+import Stack from '@mui/material/Stack';
+import Switch from '@mui/material/Switch';
+import Divider from '@mui/material/Divider';
+import Container from '@mui/material/Container';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import CardHeader from '@mui/material/CardHeader';
+import { useColorScheme } from '@mui/material/styles';
+import ListItemButton from '@mui/material/ListItemButton';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import FormControlLabel from '@mui/material/FormControlLabel';
+
+import { paths } from 'src/routes/paths';
+import { RouterLink } from 'src/routes/components';
+
+import { useRealtimeEvent } from 'src/hooks/use-realtime';
+import { usePermissions } from 'src/hooks/use-permissions';
+
+import { fTime, fToNow } from 'src/utils/format-time';
+
+import { realtimeClient } from 'src/lib/realtime';
+import axiosInstance, { fetcher, endpoints } from 'src/lib/axios';
+
+import { toast } from 'src/components/snackbar';
+import { Map, MapPopup, MAP_STYLES, MapControls, useMapMarkerPopup } from 'src/components/map';
+
+// ----------------------------------------------------------------------
+
+const DEFAULT_VIEW = { latitude: 37.98, longitude: 23.73, zoom: 10 };
+
+// Markers fade once a technician hasn't reported for this long
+const STALE_AFTER_MINUTES = 15;
+
+const TRAIL_SOURCE = 'technician-trail';
+
+const DEFAULT_SETTINGS: TrackingSettings = { enabled: true, retentionDays: 30 };
+
+const initials = (name: string) =>
+  name
+    .split(' ')
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part.charAt(0).toUpperCase())
+    .join('');
+
+const isStale = (technician: LiveTechnician) =>
+  dayjs().diff(dayjs(technician.location.lastUpdated), 'minute') > STALE_AFTER_MINUTES;
+
+const trailLayer: LayerProps = {
+  id: TRAIL_SOURCE,
+  source: TRAIL_SOURCE,
+  type: 'line',
+  filter: ['==', '$type', 'LineString'],
+  layout: { 'line-join': 'round', 'line-cap': 'round' },
+  paint: { 'line-color': '#00A76F', 'line-width': 4, 'line-opacity': 0.8 },
+};
+
+const trailPointsLayer: LayerProps = {
+  id: `${TRAIL_SOURCE}-points`,
+  source: TRAIL_SOURCE,
+  type: 'circle',
+  filter: ['==', '$type', 'Point'],
+  paint: {
+    'circle-radius': 3,
+    'circle-color': '#00A76F',
+    'circle-stroke-color': '#fff',
+    'circle-stroke-width': 1,
+  },
+};
+
+// ----------------------------------------------------------------------
+
+export function DispatchLiveView() {
+  const { colorScheme } = useColorScheme();
+  const { hasPermission } = usePermissions();
+  const canViewSettings = hasPermission('settings.view');
+  const canEditSettings = hasPermission('settings.edit');
+
+  const [technicians, setTechnicians] = useState<LiveTechnician[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [date, setDate] = useState<Dayjs | null>(dayjs());
+  const [retention, setRetention] = useState('');
+
+  const { selectedItem, onOpenPopup, onClosePopup } = useMapMarkerPopup<LiveTechnician>();
+
+  const dateParam = (date && date.isValid() ? date : dayjs()).format('YYYY-MM-DD');
+
+  // Polling is a fallback for when the socket is down
+  const { data, isLoading } = useSWR(endpoints.fsa.tracking.live, fetcher<any>, {
+    refreshInterval: 60000,
+  });
+  const { data: trailData } = useSWR(
+    selectedId ? [endpoints.fsa.tracking.trail(selectedId), { params: { date: dateParam } }] : null,
+    fetcher<any>
+  );
+  const { data: settingsData, mutate: mutateSettings } = useSWR(
+    canViewSettings ? endpoints.fsa.tracking.settings : null,
+    fetcher<any>
+  );
+
+  const settings: TrackingSettings = settingsData?.data || DEFAULT_SETTINGS;
+  const trail: LocationTrail | undefined = trailData?.data;
+
+  useEffect(() => {
+    if (data?.data) setTechnicians(data.data);
+  }, [data]);
+
+  useEffect(() => {
+    setRetention(String(settings.retentionDays));
+  }, [settings.retentionDays]);
+
+  useEffect(() => {
+    realtimeClient.joinTrackingRoom();
+    return () => realtimeClient.leaveTrackingRoom();
+  }, []);
+
+  useRealtimeEvent(
+    'technician:location',
+    useCallback((update: LiveTechnician) => {
+      setTechnicians((current) => [
+        update,
+        ...current.filter((technician) => technician.personnelId !== update.personnelId),
+      ]);
+    }, [])
+  );
+
+  const sorted = useMemo(
+    () => [...technicians].sort((a, b) => a.name.localeCompare(b.name)),
+    [technicians]
+  );
+
+  const trailCollection = useMemo(
+    () => ({
+      type: 'FeatureCollection' as const,
+      features: [
+        ...(trail && trail.points.length > 1
+          ? [
+              {
+                type: 'Feature' as const,
+                properties: {},
+                geometry: {
+                  type: 'LineString' as const,
+                  coordinates: trail.points.map((point) => [point.longitude, point.latitude]),
+                },
+              },
+            ]
+          : []),
+        ...(trail?.points || []).map((point) => ({
+          type: 'Feature' as const,
+          properties: { capturedAt: point.capturedAt },
+          geometry: {
+            type: 'Point' as const,
+            coordinates: [point.longitude, point.latitude],
+          },
+        })),
+      ],
+    }),
+    [trail]
+  );
+
+  // Fit the viewport around every technician when the map first mounts,
+  // live updates don't move it afterwards
+  const initialViewState = useMemo(() => {
+    if (!sorted.length) return DEFAULT_VIEW;
+    const lats = sorted.map((technician) => technician.location.latitude);
+    const lngs = sorted.map((technician) => technician.location.longitude);
+    if (sorted.length === 1) {
+      return { latitude: lats[0], longitude: lngs[0], zoom: 13 };
+    }
+    return {
+      bounds: [
+        [Math.min(...lngs), Math.min(...lats)],
+        [Math.max(...lngs), Math.max(...lats)],
+      ] as [[number, number], [number, number]],
+      fitBoundsOptions: { padding: 60 },
+    };
+  }, [sorted]);
+
+  const handleSettings = async (changes: Partial<TrackingSettings>) => {
+    try {
+      await axiosInstance.put(endpoints.fsa.tracking.settings, changes);
+      toast.success('Tracking settings updated');
+      mutateSettings();
+    } catch (error: any) {
+      console.error('Failed to update tracking settings:', error);
+      toast.error(error?.message || 'Failed to update tracking settings');
+      setRetention(String(settings.retentionDays));
+    }
+  };
+
+  const handleRetentionBlur = () => {
+    const value = Number(retention);
+    if (!Number.isInteger(value) || value === settings.retentionDays) {
+      setRetention(String(settings.retentionDays));
+      return;
+    }
+    handleSettings({ retentionDays: value });
+  };
+
+  const renderTechnician = (technician: LiveTechnician) => {
+    const stale = isStale(technician);
+    const { activeTask } = technician;
+
+    return (
+      <ListItemButton
+        key={technician.personnelId}
+        selected={selectedId === technician.personnelId}
+        onClick={() =>
+          setSelectedId(selectedId === technician.personnelId ? null : technician.personnelId)
+        }
+        sx={{ alignItems: 'flex-start', gap: 1.5, py: 1.5 }}
+      >
+        <Box
+          sx={{
+            width: 32,
+            height: 32,
+            flexShrink: 0,
+            display: 'flex',
+            borderRadius: '50%',
+            alignItems: 'center',
+            justifyContent: 'center',
+            color: 'common.white',
+            typography: 'caption',
+            fontWeight: 'fontWeightBold',
+            bgcolor: stale ? 'grey.500' : activeTask ? 'success.main' : 'info.main',
+          }}
+        >
+          {initials(technician.name)}
+        </Box>
+        <Stack sx={{ flex: 1, minWidth: 0 }}>
+          <Typography variant="subtitle2" noWrap>
+            {technician.name}
+          </Typography>
+          {activeTask ? (
+            <Link
+              component={RouterLink}
+              href={
+                activeTask.workOrderId
+                  ? paths.dashboard.fsa.workOrders.details(activeTask.workOrderId)
+                  : paths.dashboard.kanban
+              }
+              variant="caption"
+              noWrap
+              onClick={(event) => event.stopPropagation()}
+            >
+              {[activeTask.workOrderNumber, activeTask.taskTitle].filter(Boolean).join(' · ')}
+              {` · since ${fTime(activeTask.checkInTime)}`}
+            </Link>
+          ) : (
+            <Typography variant="caption" color="text.secondary">
+              Not checked in
+            </Typography>
+          )}
+          <Typography variant="caption" color={stale ? 'warning.main' : 'text.secondary'}>
+            {`Updated ${fToNow(technician.location.lastUpdated)}`}
+            {technician.location.accuracy !== undefined
+              ? ` · ±${Math.round(technician.location.accuracy)} m`
+              : ''}
+          </Typography>
+        </Stack>
+      </ListItemButton>
+    );
+  };
+
+  return (
+    <Container maxWidth={false}>
+      <Stack spacing={3} sx={{ p: 3 }}>
+        <Stack spacing={1}>
+          <Typography variant="h4">Live map</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Where technicians are right now and what they are working on. Positions are shared from
+            the field app while a technician is on shift.
+          </Typography>
+        </Stack>
+
+        {canViewSettings && (
+          <Card sx={{ p: 2 }}>
+            <Stack direction={{ xs: 'column', md: 'row' }} spacing={3} alignItems="center">
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={settings.enabled}
+                    disabled={!canEditSettings}
+                    onChange={(e) => handleSettings({ enabled: e.target.checked })}
+                  />
+                }
+                label="Location sharing"
+              />
+              <TextField
+                type="number"
+                label="Keep breadcrumbs (days)"
+                value={retention}
+                disabled={!canEditSettings}
+                onChange={(e) => setRetention(e.target.value)}
+                onBlur={handleRetentionBlur}
+                helperText="Older points are deleted automatically"
+                slotProps={{ htmlInput: { min: 1, max: 365 } }}
+                sx={{ width: 220 }}
+              />
+            </Stack>
+          </Card>
+        )}
+
+        {!isLoading && sorted.length === 0 && (
+          <Alert severity="info">No technician has shared a position in the last 12 hours.</Alert>
+        )}
+
+        {sorted.length > 0 && (
+          <Grid container spacing={3}>
+            <Grid size={{ xs: 12, md: 4 }}>
+              <Card>
+                <CardHeader
+                  title="Technicians"
+                  subheader="Select a technician to show their trail"
+                  sx={{ pb: 2 }}
+                />
+                {selectedId && (
+                  <Box sx={{ px: 3, pb: 2 }}>
+                    <DatePicker
+                      label="Trail date"
+                      value={date}
+                      onChange={(value) => setDate(value)}
+                      disableFuture
+                      slotProps={{ textField: { fullWidth: true, size: 'small' } }}
+                    />
+                    {trail && (
+                      <Typography variant="caption" color="text.secondary">
+                        {trail.points.length} point(s)
+                      </Typography>
+                    )}
+                  </Box>
+                )}
+                <Divider />
+                <Stack divider={<Divider flexItem />}>{sorted.map(renderTechnician)}</Stack>
+              </Card>
+            </Grid>
+
+            <Grid size={{ xs: 12, md: 8 }}>
+              <Map
+                mapStyle={colorScheme === 'dark' ? MAP_STYLES.dark : MAP_STYLES.light}
+                initialViewState={initialViewState}
+                sx={{
+                  height: { xs: 360, md: 640 },
+                  borderRadius: 1.5,
+                  position: { md: 'sticky' },
+                  top: { md: 96 },
+                }}
+              >
+                <MapControls hideGeolocate />
+
+                {selectedId && trail && (
+                  <Source id={TRAIL_SOURCE} type="geojson" data={trailCollection}>
+                    <Layer {...trailLayer} />
+                    <Layer {...trailPointsLayer} />
+                  </Source>
+                )}
+
+                {sorted.map((technician) => {
+                  const stale = isStale(technician);
+                  return (
+                    <Marker
+                      key={technician.personnelId}
+                      latitude={technician.location.latitude}
+                      longitude={technician.location.longitude}
+                      onClick={(event) => onOpenPopup(event, technician)}
+                    >
+                      <Box
+                        sx={{
+                          width: 32,
+                          height: 32,
+                          display: 'flex',
+                          cursor: 'pointer',
+                          borderRadius: '50%',
+                          alignItems: 'center',
+                          justifyContent: 'center',
+                          color: 'common.white',
+                          typography: 'caption',
+                          fontWeight: 'fontWeightBold',
+                          border: '2px solid #fff',
+                          boxShadow: 2,
+                          opacity: stale ? 0.6 : 1,
+                          bgcolor: stale
+                            ? 'grey.500'
+                            : technician.activeTask
+                              ? 'success.main'
+                              : 'info.main',
+                          outline: (theme) =>
+                            selectedId === technician.personnelId
+                              ? `3px solid ${theme.palette.warning.main}`
+                              : 'none',
+                        }}
+                      >
+                        {initials(technician.name)}
+                      </Box>
+                    </Marker>
+                  );
+                })}
+
+                {selectedItem && (
+                  <MapPopup
+                    latitude={selectedItem.location.latitude}
+                    longitude={selectedItem.location.longitude}
+                    offset={20}
+                    onClose={onClosePopup}
+                  >
+                    <Typography variant="subtitle2">{selectedItem.name}</Typography>
+                    <Typography component="div" variant="caption" sx={{ mb: 0.5 }}>
+                      {selectedItem.activeTask
+                        ? [
+                            selectedItem.activeTask.workOrderNumber,
+                            selectedItem.activeTask.taskTitle,
+                          ]
+                            .filter(Boolean)
+                            .join(' · ')
+                        : 'Not checked in'}
+                    </Typography>
+                    <Typography component="div" variant="caption" color="text.secondary">
+                      {`Updated ${fToNow(selectedItem.location.lastUpdated)}`}
+                      {selectedItem.location.speed !== undefined && selectedItem.location.speed > 0
+                        ? ` · ${Math.round(selectedItem.location.speed * 3.6)} km/h`
+                        : ''}
+                    </Typography>
+                  </MapPopup>
+                )}
+              </Map>
+            </Grid>
+          </Grid>
+        )}
+      </Stack>
+    </Container>
+  );
+}
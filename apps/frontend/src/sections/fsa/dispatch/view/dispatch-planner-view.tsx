@@ -0,0 +1,439 @@
+'use client';
+
+import type { Dayjs } from 'dayjs';
+import type { LayerProps } from 'react-map-gl/maplibre';
+import type {
+  GeoPoint,
+  PlannedStop,
+  DispatchPlan,
+  PersonnelDispatchPlan,
+} from 'src/lib/models/Dispatch';
+
+import useSWR from 'swr';
+import dayjs from 'dayjs';
+import { useMemo, useState } from 'react';
+import { Layer, Marker, Source } from 'react-map-gl/maplibre';
+
+import Box from '@mui/material/Box';
+import Card from '@mui/material/Card';
+import Chip from '@mui/material/Chip';
+import Grid from '@mui/material/Grid';
+import Link from '@mui/material/Link';
+import Alert from '@mui/material/Alert';
+import Stack from '@mui/material/Stack';
+import Divider from '@mui/material/Divider';
+import MenuItem from '@mui/material/MenuItem';
+import Container from '@mui/material/Container';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import CardHeader from '@mui/material/CardHeader';
+import CardContent from '@mui/material/CardContent';
+import { useColorScheme } from '@mui/material/styles';
+import LinearProgress from '@mui/material/LinearProgress';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+
+import { paths } from 'src/routes/paths';
+import { RouterLink } from 'src/routes/components';
+
+import { fetcher, endpoints } from 'src/lib/axios';
+
+import {
+  Map,
+  MapPopup,
+  MapMarker,
+  MAP_STYLES,
+  MapControls,
+  useMapMarkerPopup,
+} from 'src/components/map';
+
+// ----------------------------------------------------------------------
+
+const ROUTE_COLORS = [
+  '#00A76F',
+  '#8E33FF',
+  '#00B8D9',
+  '#FFAB00',
+  '#FF5630',
+  '#003768',
+  '#7A4100',
+  '#1939B7',
+];
+
+const DEFAULT_VIEW = { latitude: 37.98, longitude: 23.73, zoom: 10 };
+
+type SelectedStop = { stop: PlannedStop; plan: PersonnelDispatchPlan; color: string };
+
+const colorFor = (index: number) => ROUTE_COLORS[index % ROUTE_COLORS.length];
+
+const formatClock = (value: string | undefined, timeZone: string) =>
+  value
+    ? new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone })
+    : '-';
+
+const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  return hours ? `${hours}h ${rest}m` : `${rest}m`;
+};
+
+const routePath = (plan: PersonnelDispatchPlan): GeoPoint[] => {
+  const points = plan.stops
+    .map((stop) => stop.coordinates)
+    .filter((point): point is GeoPoint => !!point);
+  return plan.startsFrom === 'lastKnownLocation' && plan.personnel.location
+    ? [plan.personnel.location, ...points]
+    : points;
+};
+
+// ----------------------------------------------------------------------
+
+export function DispatchPlannerView() {
+  const { colorScheme } = useColorScheme();
+
+  const [date, setDate] = useState<Dayjs | null>(dayjs());
+  const [personnelId, setPersonnelId] = useState('');
+  const [speedKmh, setSpeedKmh] = useState(40);
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+
+  const { selectedItem, onOpenPopup, onClosePopup } = useMapMarkerPopup<SelectedStop>();
+
+  const dateParam = (date && date.isValid() ? date : dayjs()).format('YYYY-MM-DD');
+
+  const { data: personnelData } = useSWR(endpoints.fsa.personnel.list, fetcher<any>);
+  const { data, isLoading } = useSWR(
+    [
+      endpoints.fsa.dispatch.plan,
+      {
+        params: {
+          date: dateParam,
+          personnelId: personnelId || undefined,
+          speedKmh: speedKmh || undefined,
+        },
+      },
+    ],
+    fetcher<any>
+  );
+
+  const personnel: { _id: string; employeeId: string; user?: { name?: string } }[] =
+    personnelData?.data || [];
+  const dispatch: DispatchPlan | undefined = data?.data;
+  const plans = useMemo(() => dispatch?.plans || [], [dispatch]);
+  const timeZone = dispatch?.timezone || 'UTC';
+
+  const routes = useMemo(
+    () =>
+      plans.map((plan, index) => {
+        const path = routePath(plan);
+        const collection = {
+          type: 'FeatureCollection' as const,
+          features:
+            path.length > 1
+              ? [
+                  {
+                    type: 'Feature' as const,
+                    properties: {},
+                    geometry: {
+                      type: 'LineString' as const,
+                      coordinates: path.map((point) => [point.longitude, point.latitude]),
+                    },
+                  },
+                ]
+              : [],
+        };
+        return { plan, color: colorFor(index), collection };
+      }),
+    [plans]
+  );
+
+  // Fit the initial viewport around every routed stop
+  const initialViewState = useMemo(() => {
+    const points = plans.flatMap(routePath);
+    if (!points.length) return DEFAULT_VIEW;
+    const lats = points.map((point) => point.latitude);
+    const lngs = points.map((point) => point.longitude);
+    if (points.length === 1) {
+      return { latitude: lats[0], longitude: lngs[0], zoom: 13 };
+    }
+    return {
+      bounds: [
+        [Math.min(...lngs), Math.min(...lats)],
+        [Math.max(...lngs), Math.max(...lats)],
+      ] as [[number, number], [number, number]],
+      fitBoundsOptions: { padding: 60 },
+    };
+  }, [plans]);
+
+  const lineLayer = (id: string, color: string): LayerProps => ({
+    id,
+    source: id,
+    type: 'line',
+    layout: { 'line-join': 'round', 'line-cap': 'round' },
+    paint: {
+      'line-color': color,
+      'line-width': focusedId === null || focusedId === id ? 4 : 2,
+      'line-opacity': focusedId === null || focusedId === id ? 0.9 : 0.3,
+    },
+  });
+
+  const renderPlan = (plan: PersonnelDispatchPlan, color: string) => {
+    const saved = plan.totals.unoptimizedDistanceKm - plan.totals.distanceKm;
+
+    return (
+      <Card
+        key={plan.personnel._id}
+        variant="outlined"
+        onMouseEnter={() => setFocusedId(plan.personnel._id)}
+        onMouseLeave={() => setFocusedId(null)}
+        sx={{ borderLeft: `4px solid ${color}` }}
+      >
+        <CardHeader
+          title={plan.personnel.name}
+          subheader={`Starts ${formatClock(plan.dayStart, timeZone)} from ${
+            plan.startsFrom === 'lastKnownLocation' ? 'last known location' : 'first stop'
+          }`}
+          action={
+            <Stack direction="row" spacing={0.5} flexWrap="wrap" justifyContent="flex-end">
+              <Chip size="small" label={`${plan.totals.stops} stops`} />
+              <Chip size="small" label={`${plan.totals.distanceKm} km`} />
+              <Chip size="small" label={`${formatMinutes(plan.totals.travelMinutes)} driving`} />
+            </Stack>
+          }
+        />
+        <CardContent>
+          <Stack spacing={1.5} divider={<Divider flexItem />}>
+            {plan.stops.map((stop) => (
+              <Stack key={stop.id} direction="row" spacing={1.5} alignItems="flex-start">
+                <Box
+                  sx={{
+                    width: 24,
+                    height: 24,
+                    flexShrink: 0,
+                    display: 'flex',
+                    borderRadius: '50%',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    color: 'common.white',
+                    typography: 'caption',
+                    fontWeight: 'fontWeightBold',
+                    bgcolor: color,
+                  }}
+                >
+                  {stop.sequence}
+                </Box>
+                <Stack sx={{ flex: 1, minWidth: 0 }}>
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    <Link
+                      component={RouterLink}
+                      href={paths.dashboard.fsa.workOrders.details(stop.workOrderId || stop.id)}
+                      variant="subtitle2"
+                      color="inherit"
+                      noWrap
+                    >
+                      {stop.reference ? `${stop.reference} · ${stop.title}` : stop.title}
+                    </Link>
+                    {stop.type === 'task' && <Chip size="small" variant="outlined" label="Task" />}
+                  </Stack>
+                  {stop.address && (
+                    <Typography variant="caption" color="text.secondary" noWrap>
+                      {stop.address}
+                    </Typography>
+                  )}
+                  <Typography variant="caption" color="text.secondary">
+                    {stop.travel
+                      ? `${stop.travel.distanceKm} km · ${formatMinutes(stop.travel.travelMinutes)} drive · `
+                      : ''}
+                    {`${formatClock(stop.arrival, timeZone)} – ${formatClock(stop.departure, timeZone)}`}
+                    {stop.taskIds.length > 0 ? ` · ${stop.taskIds.length} task(s)` : ''}
+                  </Typography>
+                </Stack>
+              </Stack>
+            ))}
+
+            {plan.stops.length === 0 && (
+              <Typography variant="body2" color="text.secondary">
+                No routable stops for this day.
+              </Typography>
+            )}
+          </Stack>
+
+          {plan.unrouted.length > 0 && (
+            <Alert severity="warning" sx={{ mt: 2 }}>
+              {`${plan.unrouted.length} stop(s) have no coordinates and were left out: `}
+              {plan.unrouted.map((stop) => stop.reference || stop.title).join(', ')}
+            </Alert>
+          )}
+
+          {plan.stops.length > 0 && (
+            <Typography variant="caption" color="text.secondary" sx={{ mt: 2, display: 'block' }}>
+              {`Finishes around ${formatClock(plan.totals.finishAt, timeZone)} · ${formatMinutes(
+                plan.totals.serviceMinutes
+              )} on site`}
+              {saved > 0.05 ? ` · ${saved.toFixed(1)} km shorter than the scheduled order` : ''}
+            </Typography>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <Container maxWidth={false}>
+      <Stack spacing={3} sx={{ p: 3 }}>
+        <Stack spacing={1}>
+          <Typography variant="h4">Dispatch</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Suggested visit order per technician, based on each stop&apos;s location and estimated
+            travel time.
+          </Typography>
+        </Stack>
+
+        <Card sx={{ p: 2 }}>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <DatePicker
+              label="Date"
+              value={date}
+              onChange={(value) => setDate(value)}
+              slotProps={{ textField: { sx: { minWidth: 200 } } }}
+            />
+            <TextField
+              select
+              label="Technician"
+              value={personnelId}
+              onChange={(event) => setPersonnelId(event.target.value)}
+              sx={{ minWidth: 240 }}
+            >
+              <MenuItem value="">All technicians</MenuItem>
+              {personnel.map((person) => (
+                <MenuItem key={person._id} value={person._id}>
+                  {person.user?.name || person.employeeId}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              type="number"
+              label="Average speed (km/h)"
+              value={speedKmh}
+              onChange={(event) => setSpeedKmh(Number(event.target.value))}
+              slotProps={{ htmlInput: { min: 5, max: 130 } }}
+              sx={{ width: 200 }}
+            />
+          </Stack>
+        </Card>
+
+        {isLoading && <LinearProgress />}
+
+        {!isLoading && plans.length === 0 && (
+          <Alert severity="info">No work orders or tasks are scheduled for this day.</Alert>
+        )}
+
+        {plans.length > 0 && (
+          <Grid container spacing={3}>
+            <Grid size={{ xs: 12, md: 5 }}>
+              <Stack spacing={2}>{routes.map(({ plan, color }) => renderPlan(plan, color))}</Stack>
+            </Grid>
+
+            <Grid size={{ xs: 12, md: 7 }}>
+              <Map
+                key={`${dateParam}-${personnelId}`}
+                mapStyle={colorScheme === 'dark' ? MAP_STYLES.dark : MAP_STYLES.light}
+                initialViewState={initialViewState}
+                sx={{
+                  height: { xs: 360, md: 640 },
+                  borderRadius: 1.5,
+                  position: { md: 'sticky' },
+                  top: { md: 96 },
+                }}
+              >
+                <MapControls hideGeolocate />
+
+                {routes.map(({ plan, color, collection }) => (
+                  <Source
+                    key={plan.personnel._id}
+                    id={plan.personnel._id}
+                    type="geojson"
+                    data={collection}
+                  >
+                    <Layer {...lineLayer(plan.personnel._id, color)} />
+                  </Source>
+                ))}
+
+                {routes.map(
+                  ({ plan, color }) =>
+                    plan.startsFrom === 'lastKnownLocation' &&
+                    plan.personnel.location && (
+                      <MapMarker
+                        key={`start-${plan.personnel._id}`}
+                        latitude={plan.personnel.location.latitude}
+                        longitude={plan.personnel.location.longitude}
+                        sx={{ color }}
+                      />
+                    )
+                )}
+
+                {routes.flatMap(({ plan, color }) =>
+                  plan.stops
+                    .filter((stop) => stop.coordinates)
+                    .map((stop) => (
+                      <Marker
+                        key={`${plan.personnel._id}-${stop.id}`}
+                        latitude={stop.coordinates!.latitude}
+                        longitude={stop.coordinates!.longitude}
+                        onClick={(event) => onOpenPopup(event, { stop, plan, color })}
+                      >
+                        <Box
+                          sx={{
+                            width: 26,
+                            height: 26,
+                            display: 'flex',
+                            cursor: 'pointer',
+                            borderRadius: '50%',
+                            alignItems: 'center',
+                            justifyContent: 'center',
+                            color: 'common.white',
+                            typography: 'caption',
+                            fontWeight: 'fontWeightBold',
+                            border: '2px solid #fff',
+                            bgcolor: color,
+                            boxShadow: 2,
+                          }}
+                        >
+                          {stop.sequence}
+                        </Box>
+                      </Marker>
+                    ))
+                )}
+
+                {selectedItem?.stop.coordinates && (
+                  <MapPopup
+                    latitude={selectedItem.stop.coordinates.latitude}
+                    longitude={selectedItem.stop.coordinates.longitude}
+                    offset={16}
+                    onClose={onClosePopup}
+                  >
+                    <Typography variant="subtitle2">
+                      {`${selectedItem.stop.sequence}. ${selectedItem.stop.title}`}
+                    </Typography>
+                    <Typography component="div" variant="caption" sx={{ mb: 0.5 }}>
+                      {selectedItem.plan.personnel.name}
+                    </Typography>
+                    {selectedItem.stop.address && (
+                      <Typography component="div" variant="caption" color="text.secondary">
+                        {selectedItem.stop.address}
+                      </Typography>
+                    )}
+                    <Typography component="div" variant="caption" color="text.secondary">
+                      {`Arrive ${formatClock(selectedItem.stop.arrival, timeZone)} · leave ${formatClock(
+                        selectedItem.stop.departure,
+                        timeZone
+                      )}`}
+                    </Typography>
+                  </MapPopup>
+                )}
+              </Map>
+            </Grid>
+          </Grid>
+        )}
+      </Stack>
+    </Container>
+  );
+}
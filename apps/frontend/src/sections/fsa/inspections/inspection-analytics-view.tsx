@@ -0,0 +1,231 @@
+'use client';
+
+import type { IInspectionForm, InspectionFailureAnalytics } from 'src/lib/models/InspectionForm';
+
+import useSWR from 'swr';
+import dayjs from 'dayjs';
+import { useState } from 'react';
+
+import Card from '@mui/material/Card';
+import Grid from '@mui/material/Grid';
+import Link from '@mui/material/Link';
+import Stack from '@mui/material/Stack';
+import Table from '@mui/material/Table';
+import MenuItem from '@mui/material/MenuItem';
+import TableRow from '@mui/material/TableRow';
+import Container from '@mui/material/Container';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TextField from '@mui/material/TextField';
+import CardHeader from '@mui/material/CardHeader';
+import Typography from '@mui/material/Typography';
+import LinearProgress from '@mui/material/LinearProgress';
+import TableContainer from '@mui/material/TableContainer';
+
+import { paths } from 'src/routes/paths';
+import { RouterLink } from 'src/routes/components';
+
+import { fDate } from 'src/utils/format-time';
+
+import { fetcher, endpoints } from 'src/lib/axios';
+
+// ----------------------------------------------------------------------
+
+export function InspectionAnalyticsView() {
+  const [from, setFrom] = useState(dayjs().subtract(90, 'day').format('YYYY-MM-DD'));
+  const [to, setTo] = useState(dayjs().format('YYYY-MM-DD'));
+  const [formId, setFormId] = useState('');
+
+  const { data, isLoading } = useSWR(
+    [
+      endpoints.fsa.inspectionForms.failures,
+      {
+        params: {
+          from: from || undefined,
+          // Include the whole last day
+          to: to ? dayjs(to).endOf('day').toISOString() : undefined,
+          formId: formId || undefined,
+        },
+      },
+    ],
+    fetcher<any>
+  );
+  const { data: formsData } = useSWR(endpoints.fsa.inspectionForms.list, fetcher<any>);
+
+  const analytics: InspectionFailureAnalytics | undefined = data?.data;
+  const forms: IInspectionForm[] = formsData?.data || [];
+
+  const stats: [string, string][] = [
+    ['Inspections', String(analytics?.summary.inspections ?? 0)],
+    ['Failed inspections', String(analytics?.summary.failedInspections ?? 0)],
+    ['Failed items', String(analytics?.summary.failedItems ?? 0)],
+  ];
+
+  return (
+    <Container maxWidth={false}>
+      <Stack spacing={3} sx={{ p: 3 }}>
+        <Stack spacing={1}>
+          <Typography variant="h4">Inspections</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Checklist items that fail most often on submitted reports, and the equipment they fail
+            on.
+          </Typography>
+        </Stack>
+
+        <Card>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} sx={{ p: 2.5 }}>
+            <TextField
+              type="date"
+              label="From"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              slotProps={{ inputLabel: { shrink: true } }}
+            />
+            <TextField
+              type="date"
+              label="To"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              slotProps={{ inputLabel: { shrink: true } }}
+            />
+            <TextField
+              select
+              label="Form"
+              value={formId}
+              onChange={(e) => setFormId(e.target.value)}
+              sx={{ minWidth: 240 }}
+            >
+              <MenuItem value="">All forms</MenuItem>
+              {forms.map((form) => (
+                <MenuItem key={form._id} value={form._id}>
+                  {form.name}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Stack>
+          {isLoading && <LinearProgress />}
+        </Card>
+
+        <Grid container spacing={2}>
+          {stats.map(([label, value]) => (
+            <Grid key={label} size={{ xs: 12, sm: 4 }}>
+              <Card sx={{ p: 2 }}>
+                <Typography variant="h5">{value}</Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {label}
+                </Typography>
+              </Card>
+            </Grid>
+          ))}
+        </Grid>
+
+        <Grid container spacing={3}>
+          <Grid size={{ xs: 12, md: 7 }}>
+            <Card>
+              <CardHeader title="Most failed items" />
+              <TableContainer sx={{ mt: 2 }}>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Item</TableCell>
+                      <TableCell align="right">Failed</TableCell>
+                      <TableCell sx={{ minWidth: 160 }}>Failure rate</TableCell>
+                      <TableCell>Last failed</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {analytics?.items.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={4} align="center" sx={{ py: 6 }}>
+                          <Typography variant="body2" color="text.secondary">
+                            No failed items in this period
+                          </Typography>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    {analytics?.items.map((item) => (
+                      <TableRow key={`${item.formId}-${item.fieldKey}`} hover>
+                        <TableCell>
+                          <Typography variant="body2">{item.label}</Typography>
+                          <Typography variant="caption" color="text.secondary">
+                            {item.formName}
+                          </Typography>
+                        </TableCell>
+                        <TableCell align="right">
+                          {item.failed} / {item.checked}
+                        </TableCell>
+                        <TableCell>
+                          <Stack direction="row" spacing={1} alignItems="center">
+                            <LinearProgress
+                              variant="determinate"
+                              color="error"
+                              value={item.failureRate * 100}
+                              sx={{ flex: 1, height: 6, borderRadius: 1 }}
+                            />
+                            <Typography variant="caption">
+                              {Math.round(item.failureRate * 100)}%
+                            </Typography>
+                          </Stack>
+                        </TableCell>
+                        <TableCell>{item.lastFailedAt ? fDate(item.lastFailedAt) : '-'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </Card>
+          </Grid>
+
+          <Grid size={{ xs: 12, md: 5 }}>
+            <Card>
+              <CardHeader title="Assets with failures" />
+              <TableContainer sx={{ mt: 2 }}>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Asset</TableCell>
+                      <TableCell align="right">Failed inspections</TableCell>
+                      <TableCell align="right">Failed items</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {analytics?.assets.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={3} align="center" sx={{ py: 6 }}>
+                          <Typography variant="body2" color="text.secondary">
+                            No asset failures in this period
+                          </Typography>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    {analytics?.assets.map((asset) => (
+                      <TableRow key={asset.assetId} hover>
+                        <TableCell>
+                          <Link
+                            component={RouterLink}
+                            href={paths.dashboard.fsa.assets.details(asset.assetId)}
+                            variant="body2"
+                          >
+                            {asset.assetName || 'View asset'}
+                          </Link>
+                          {asset.lastFailedAt && (
+                            <Typography variant="caption" color="text.secondary" display="block">
+                              Last failed {fDate(asset.lastFailedAt)}
+                            </Typography>
+                          )}
+                        </TableCell>
+                        <TableCell align="right">{asset.failedInspections}</TableCell>
+                        <TableCell align="right">{asset.failedItems}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </Card>
+          </Grid>
+        </Grid>
+      </Stack>
+    </Container>
+  );
+}
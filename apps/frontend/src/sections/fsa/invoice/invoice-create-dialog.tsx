@@ -0,0 +1,187 @@
+'use client';
+
+import useSWR from 'swr';
+import { useMemo, useState, useEffect } from 'react';
+
+import Tab from '@mui/material/Tab';
+import Tabs from '@mui/material/Tabs';
+import List from '@mui/material/List';
+import Stack from '@mui/material/Stack';
+import Alert from '@mui/material/Alert';
+import Radio from '@mui/material/Radio';
+import Dialog from '@mui/material/Dialog';
+import Button from '@mui/material/Button';
+import Checkbox from '@mui/material/Checkbox';
+import ListItem from '@mui/material/ListItem';
+import TextField from '@mui/material/TextField';
+import DialogTitle from '@mui/material/DialogTitle';
+import ListItemText from '@mui/material/ListItemText';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import ListItemButton from '@mui/material/ListItemButton';
+
+import { fDate } from 'src/utils/format-time';
+import { fCurrency } from 'src/utils/format-number';
+
+import { fetcher, endpoints } from 'src/lib/axios';
+import { InvoiceService } from 'src/lib/services/invoice-service';
+
+import { toast } from 'src/components/snackbar';
+
+// ----------------------------------------------------------------------
+
+type Props = {
+  open: boolean;
+  onCloseAction: () => void;
+  onCreatedAction: () => void;
+};
+
+export function InvoiceCreateDialog({ open, onCloseAction, onCreatedAction }: Props) {
+  const [source, setSource] = useState<'workOrder' | 'reports'>('workOrder');
+  const [workOrderId, setWorkOrderId] = useState('');
+  const [reportIds, setReportIds] = useState<string[]>([]);
+  const [taxRate, setTaxRate] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const { data, isLoading } = useSWR(open ? endpoints.fsa.invoices.billable : null, fetcher<any>);
+
+  const workOrders: any[] = useMemo(() => data?.data?.workOrders || [], [data]);
+  const reports: any[] = useMemo(() => data?.data?.reports || [], [data]);
+
+  useEffect(() => {
+    if (open) {
+      setSource('workOrder');
+      setWorkOrderId('');
+      setReportIds([]);
+      setTaxRate('');
+      setDueDate('');
+      setNotes('');
+    }
+  }, [open]);
+
+  const toggleReport = (id: string) => {
+    setReportIds((prev) => (prev.includes(id) ? prev.filter((r) => r !== id) : [...prev, id]));
+  };
+
+  const handleSubmit = async () => {
+    const options = {
+      taxRate: taxRate === '' ? undefined : Number(taxRate),
+      dueDate: dueDate || undefined,
+      notes: notes || undefined,
+    };
+
+    try {
+      setSubmitting(true);
+      const response =
+        source === 'workOrder'
+          ? await InvoiceService.createFromWorkOrder(workOrderId, options)
+          : await InvoiceService.createFromReports(reportIds, options);
+      if (response.success) {
+        toast.success('Draft invoice created');
+        onCreatedAction();
+        onCloseAction();
+      }
+    } catch (error: any) {
+      console.error('Failed to create invoice:', error);
+      toast.error(error?.message || 'Failed to create invoice');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const canSubmit = source === 'workOrder' ? !!workOrderId : reportIds.length > 0;
+
+  return (
+    <Dialog open={open} onClose={onCloseAction} maxWidth="md" fullWidth>
+      <DialogTitle>New Invoice</DialogTitle>
+
+      <DialogContent>
+        <Tabs value={source} onChange={(_, value) => setSource(value)} sx={{ mb: 2 }}>
+          <Tab value="workOrder" label={`Completed work orders (${workOrders.length})`} />
+          <Tab value="reports" label={`Approved reports (${reports.length})`} />
+        </Tabs>
+
+        {!isLoading && source === 'workOrder' && workOrders.length === 0 && (
+          <Alert severity="info">There are no completed work orders waiting to be invoiced.</Alert>
+        )}
+        {!isLoading && source === 'reports' && reports.length === 0 && (
+          <Alert severity="info">There are no approved reports waiting to be invoiced.</Alert>
+        )}
+
+        <List dense sx={{ maxHeight: 320, overflow: 'auto' }}>
+          {source === 'workOrder' &&
+            workOrders.map((wo) => (
+              <ListItem key={wo._id} disablePadding>
+                <ListItemButton onClick={() => setWorkOrderId(wo._id)}>
+                  <Radio edge="start" checked={workOrderId === wo._id} tabIndex={-1} />
+                  <ListItemText
+                    primary={`${wo.workOrderNumber} · ${wo.title}`}
+                    secondary={[
+                      wo.clientId?.name,
+                      wo.completedAt ? `Completed ${fDate(wo.completedAt)}` : null,
+                      wo.cost?.total ? fCurrency(wo.cost.total) : null,
+                    ]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  />
+                </ListItemButton>
+              </ListItem>
+            ))}
+
+          {source === 'reports' &&
+            reports.map((report) => (
+              <ListItem key={report._id} disablePadding>
+                <ListItemButton onClick={() => toggleReport(report._id)}>
+                  <Checkbox edge="start" checked={reportIds.includes(report._id)} tabIndex={-1} />
+                  <ListItemText
+                    primary={`${report.workOrderData?.title || report.type} · ${fDate(report.reportDate)}`}
+                    secondary={[report.clientData?.name, fCurrency(report.totalCost || 0)]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  />
+                </ListItemButton>
+              </ListItem>
+            ))}
+        </List>
+
+        <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} sx={{ mt: 2 }}>
+          <TextField
+            type="number"
+            label="VAT %"
+            placeholder="Company default"
+            value={taxRate}
+            onChange={(e) => setTaxRate(e.target.value)}
+            slotProps={{ inputLabel: { shrink: true } }}
+            sx={{ minWidth: 160 }}
+          />
+          <TextField
+            type="date"
+            label="Due date"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+            helperText="Defaults to the company payment terms"
+            slotProps={{ inputLabel: { shrink: true } }}
+            sx={{ minWidth: 200 }}
+          />
+          <TextField
+            fullWidth
+            label="Notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </Stack>
+      </DialogContent>
+
+      <DialogActions>
+        <Button variant="outlined" onClick={onCloseAction}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleSubmit} disabled={!canSubmit || submitting}>
+          Create Draft
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
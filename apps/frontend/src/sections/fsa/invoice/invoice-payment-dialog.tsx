@@ -0,0 +1,128 @@
+'use client';
+
+import type { IInvoice, PaymentMethod } from 'src/lib/models/Invoice';
+
+import { useState, useEffect } from 'react';
+
+import Stack from '@mui/material/Stack';
+import Dialog from '@mui/material/Dialog';
+import Button from '@mui/material/Button';
+import MenuItem from '@mui/material/MenuItem';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+
+import { fCurrency } from 'src/utils/format-number';
+
+import { InvoiceService } from 'src/lib/services/invoice-service';
+
+import { toast } from 'src/components/snackbar';
+
+// ----------------------------------------------------------------------
+
+type Props = {
+  invoice: IInvoice | null;
+  onCloseAction: () => void;
+  onRecordedAction: () => void;
+};
+
+export function InvoicePaymentDialog({ invoice, onCloseAction, onRecordedAction }: Props) {
+  const [amount, setAmount] = useState('');
+  const [paidAt, setPaidAt] = useState('');
+  const [method, setMethod] = useState<PaymentMethod>('bank_transfer');
+  const [reference, setReference] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (invoice) {
+      setAmount(String(invoice.balanceDue));
+      setPaidAt(new Date().toISOString().slice(0, 10));
+      setMethod('bank_transfer');
+      setReference('');
+    }
+  }, [invoice]);
+
+  const handleSubmit = async () => {
+    if (!invoice) return;
+
+    try {
+      setSubmitting(true);
+      const response = await InvoiceService.recordPayment(invoice._id, {
+        amount: Number(amount),
+        paidAt: paidAt || undefined,
+        method,
+        reference: reference || undefined,
+      });
+      if (response.success) {
+        toast.success('Payment recorded');
+        onRecordedAction();
+        onCloseAction();
+      }
+    } catch (error: any) {
+      console.error('Failed to record payment:', error);
+      toast.error(error?.message || 'Failed to record payment');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!invoice} onClose={onCloseAction} maxWidth="xs" fullWidth>
+      <DialogTitle>Record Payment</DialogTitle>
+
+      <DialogContent>
+        <Stack spacing={2} sx={{ pt: 1 }}>
+          <Typography variant="body2" color="text.secondary">
+            {invoice?.invoiceNumber} · Balance due{' '}
+            {fCurrency(invoice?.balanceDue, { currency: invoice?.currency })}
+          </Typography>
+          <TextField
+            type="number"
+            label="Amount"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+          />
+          <TextField
+            type="date"
+            label="Paid on"
+            value={paidAt}
+            onChange={(e) => setPaidAt(e.target.value)}
+            slotProps={{ inputLabel: { shrink: true } }}
+          />
+          <TextField
+            select
+            label="Method"
+            value={method}
+            onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+          >
+            <MenuItem value="bank_transfer">Bank transfer</MenuItem>
+            <MenuItem value="card">Card</MenuItem>
+            <MenuItem value="cash">Cash</MenuItem>
+            <MenuItem value="cheque">Cheque</MenuItem>
+            <MenuItem value="other">Other</MenuItem>
+          </TextField>
+          <TextField
+            label="Reference"
+            value={reference}
+            onChange={(e) => setReference(e.target.value)}
+          />
+        </Stack>
+      </DialogContent>
+
+      <DialogActions>
+        <Button variant="outlined" onClick={onCloseAction}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSubmit}
+          disabled={submitting || !(Number(amount) > 0)}
+        >
+          Record
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
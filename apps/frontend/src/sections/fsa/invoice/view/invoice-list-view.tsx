@@ -0,0 +1,319 @@
+'use client';
+
+import type { IInvoice, InvoiceStatus } from 'src/lib/models/Invoice';
+
+import useSWR from 'swr';
+import { useState } from 'react';
+import { useBoolean } from 'minimal-shared/hooks';
+
+import Card from '@mui/material/Card';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import Table from '@mui/material/Table';
+import Button from '@mui/material/Button';
+import MenuItem from '@mui/material/MenuItem';
+import TableRow from '@mui/material/TableRow';
+import Container from '@mui/material/Container';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TextField from '@mui/material/TextField';
+import IconButton from '@mui/material/IconButton';
+import Typography from '@mui/material/Typography';
+import TableContainer from '@mui/material/TableContainer';
+
+import { fDate } from 'src/utils/format-time';
+import { fCurrency } from 'src/utils/format-number';
+
+import { fetcher, endpoints } from 'src/lib/axios';
+import { InvoiceService } from 'src/lib/services/invoice-service';
+
+import { toast } from 'src/components/snackbar';
+import { Iconify } from 'src/components/iconify';
+import { ConfirmDialog } from 'src/components/custom-dialog';
+
+import { InvoiceCreateDialog } from '../invoice-create-dialog';
+import { InvoicePaymentDialog } from '../invoice-payment-dialog';
+
+// ----------------------------------------------------------------------
+
+const STATUS_COLORS: Record<InvoiceStatus, 'default' | 'info' | 'warning' | 'success' | 'error'> = {
+  draft: 'default',
+  issued: 'info',
+  partial: 'warning',
+  paid: 'success',
+  overdue: 'error',
+  void: 'default',
+};
+
+export function InvoiceListView() {
+  const openCreate = useBoolean();
+
+  const [status, setStatus] = useState<InvoiceStatus | ''>('');
+  const [search, setSearch] = useState('');
+  const [paymentTarget, setPaymentTarget] = useState<IInvoice | null>(null);
+  const [voidTarget, setVoidTarget] = useState<IInvoice | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<IInvoice | null>(null);
+
+  const { data, isLoading, mutate } = useSWR(
+    [
+      endpoints.fsa.invoices.list,
+      { params: { status: status || undefined, q: search || undefined } },
+    ],
+    fetcher<any>
+  );
+
+  const invoices: IInvoice[] = data?.data || [];
+
+  const run = async (action: () => Promise<any>, success: string, failure: string) => {
+    try {
+      const response = await action();
+      if (response?.success !== false) {
+        toast.success(success);
+      }
+      mutate();
+    } catch (error: any) {
+      console.error(failure, error);
+      toast.error(error?.message || failure);
+    }
+  };
+
+  const handleDownload = async (invoice: IInvoice) => {
+    try {
+      await InvoiceService.downloadInvoicePdf(invoice._id, invoice.invoiceNumber);
+    } catch (error) {
+      console.error('Failed to download invoice PDF:', error);
+      toast.error('Failed to download invoice PDF');
+    }
+  };
+
+  const canRecordPayment = (invoice: IInvoice) =>
+    ['issued', 'partial', 'overdue'].includes(invoice.status);
+
+  return (
+    <Container maxWidth={false}>
+      <Stack spacing={3} sx={{ p: 3 }}>
+        <Stack direction="row" alignItems="center" justifyContent="space-between">
+          <Stack spacing={1}>
+            <Typography variant="h4">Invoices</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Bill completed work orders and approved reports, and track payments.
+            </Typography>
+          </Stack>
+          <Button
+            variant="contained"
+            startIcon={<Iconify icon="mingcute:add-line" />}
+            onClick={openCreate.onTrue}
+          >
+            New Invoice
+          </Button>
+        </Stack>
+
+        <Card>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} sx={{ p: 2.5 }}>
+            <TextField
+              fullWidth
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by number or client..."
+            />
+            <TextField
+              select
+              label="Status"
+              value={status}
+              onChange={(e) => setStatus(e.target.value as InvoiceStatus | '')}
+              sx={{ minWidth: 180 }}
+            >
+              <MenuItem value="">All</MenuItem>
+              <MenuItem value="draft">Draft</MenuItem>
+              <MenuItem value="issued">Issued</MenuItem>
+              <MenuItem value="partial">Partially paid</MenuItem>
+              <MenuItem value="paid">Paid</MenuItem>
+              <MenuItem value="overdue">Overdue</MenuItem>
+              <MenuItem value="void">Void</MenuItem>
+            </TextField>
+          </Stack>
+
+          <TableContainer>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Number</TableCell>
+                  <TableCell>Client</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell>Issued</TableCell>
+                  <TableCell>Due</TableCell>
+                  <TableCell align="right">Total</TableCell>
+                  <TableCell align="right">Balance</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {!isLoading && invoices.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={8} align="center" sx={{ py: 6 }}>
+                      <Typography variant="body2" color="text.secondary">
+                        No invoices yet
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+                {invoices.map((invoice) => (
+                  <TableRow key={invoice._id} hover>
+                    <TableCell>
+                      <Typography variant="subtitle2">
+                        {invoice.invoiceNumber || 'Draft'}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>
+                      {invoice.billTo?.company
+                        ? `${invoice.billTo.name} (${invoice.billTo.company})`
+                        : invoice.billTo?.name}
+                    </TableCell>
+                    <TableCell>
+                      <Chip
+                        size="small"
+                        label={invoice.status}
+                        color={STATUS_COLORS[invoice.status]}
+                        sx={{ textTransform: 'capitalize' }}
+                      />
+                    </TableCell>
+                    <TableCell>{invoice.issueDate ? fDate(invoice.issueDate) : '-'}</TableCell>
+                    <TableCell>{invoice.dueDate ? fDate(invoice.dueDate) : '-'}</TableCell>
+                    <TableCell align="right">
+                      {fCurrency(invoice.total, { currency: invoice.currency })}
+                    </TableCell>
+                    <TableCell align="right">
+                      {fCurrency(invoice.balanceDue, { currency: invoice.currency })}
+                    </TableCell>
+                    <TableCell align="right">
+                      <Stack direction="row" spacing={0.5} justifyContent="flex-end">
+                        <IconButton
+                          size="small"
+                          title="Download PDF"
+                          onClick={() => handleDownload(invoice)}
+                        >
+                          <Iconify icon="solar:download-bold" />
+                        </IconButton>
+                        {invoice.status === 'draft' && (
+                          <IconButton
+                            size="small"
+                            color="primary"
+                            title="Issue"
+                            onClick={() =>
+                              run(
+                                () => InvoiceService.issueInvoice(invoice._id),
+                                'Invoice issued',
+                                'Failed to issue invoice'
+                              )
+                            }
+                          >
+                            <Iconify icon="custom:send-fill" />
+                          </IconButton>
+                        )}
+                        {canRecordPayment(invoice) && (
+                          <IconButton
+                            size="small"
+                            color="success"
+                            title="Record payment"
+                            onClick={() => setPaymentTarget(invoice)}
+                          >
+                            <Iconify icon="solar:check-circle-bold" />
+                          </IconButton>
+                        )}
+                        {invoice.status !== 'draft' &&
+                          invoice.status !== 'void' &&
+                          invoice.status !== 'paid' && (
+                            <IconButton
+                              size="small"
+                              color="warning"
+                              title="Void"
+                              onClick={() => setVoidTarget(invoice)}
+                            >
+                              <Iconify icon="solar:close-circle-bold" />
+                            </IconButton>
+                          )}
+                        {invoice.status === 'draft' && (
+                          <IconButton
+                            size="small"
+                            color="error"
+                            title="Delete"
+                            onClick={() => setDeleteTarget(invoice)}
+                          >
+                            <Iconify icon="solar:trash-bin-trash-bold" />
+                          </IconButton>
+                        )}
+                      </Stack>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Card>
+      </Stack>
+
+      <InvoiceCreateDialog
+        open={openCreate.value}
+        onCloseAction={openCreate.onFalse}
+        onCreatedAction={() => mutate()}
+      />
+
+      <InvoicePaymentDialog
+        invoice={paymentTarget}
+        onCloseAction={() => setPaymentTarget(null)}
+        onRecordedAction={() => mutate()}
+      />
+
+      <ConfirmDialog
+        open={!!voidTarget}
+        onClose={() => setVoidTarget(null)}
+        title="Void Invoice"
+        content={`Void invoice ${voidTarget?.invoiceNumber}? Its reports become available for invoicing again.`}
+        action={
+          <Button
+            variant="contained"
+            color="warning"
+            onClick={async () => {
+              if (voidTarget) {
+                await run(
+                  () => InvoiceService.voidInvoice(voidTarget._id),
+                  'Invoice voided',
+                  'Failed to void invoice'
+                );
+              }
+              setVoidTarget(null);
+            }}
+          >
+            Void
+          </Button>
+        }
+      />
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        title="Delete Invoice"
+        content="Are you sure you want to delete this draft invoice?"
+        action={
+          <Button
+            variant="contained"
+            color="error"
+            onClick={async () => {
+              if (deleteTarget) {
+                await run(
+                  () => InvoiceService.deleteInvoice(deleteTarget._id),
+                  'Invoice deleted successfully',
+                  'Failed to delete invoice'
+                );
+              }
+              setDeleteTarget(null);
+            }}
+          >
+            Delete
+          </Button>
+        }
+      />
+    </Container>
+  );
+}
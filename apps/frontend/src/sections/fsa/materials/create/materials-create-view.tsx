@@ -1,7 +1,9 @@
 'use client';
 
+import type { ISupplier } from 'src/lib/models/PurchaseOrder';
 import type { CreateMaterialData } from 'src/lib/models/Material';
 
+import useSWR from 'swr';
 import { useState, useEffect } from 'react';
 import { useForm, Controller } from 'react-hook-form';
 
@@ -12,12 +14,14 @@ import {
   Stack,
   Button,
   Drawer,
+  MenuItem,
   TextField,
   IconButton,
   Typography,
   Autocomplete,
 } from '@mui/material';
 
+import { fetcher, endpoints } from 'src/lib/axios';
 import { useTranslate } from 'src/locales/use-locales';
 import { MaterialService } from 'src/lib/services/material-service';
 
@@ -45,6 +49,12 @@ export function MaterialsCreateView({ open, onClose }: MaterialsCreateViewProps)
   const [customFields, setCustomFields] = useState<Record<string, any>>({});
   const [categories, setCategories] = useState<string[]>([]);
 
+  const { data: suppliersData } = useSWR(
+    open ? [endpoints.fsa.suppliers.list, { params: { isActive: 'true', limit: 100 } }] : null,
+    fetcher<any>
+  );
+  const suppliers: ISupplier[] = suppliersData?.data || [];
+
   const {
     control,
     handleSubmit,
@@ -64,7 +74,7 @@ export function MaterialsCreateView({ open, onClose }: MaterialsCreateViewProps)
       quantity: 0,
       minimumStock: 0,
       location: '',
-      supplier: '',
+      supplierId: '',
       customFieldKey: '',
       customFieldValue: '',
     },
@@ -96,6 +106,7 @@ export function MaterialsCreateView({ open, onClose }: MaterialsCreateViewProps)
       // eslint-disable-next-line @typescript-eslint/no-unused-vars
       const { customFieldKey: _key, customFieldValue: _value, ...createData } = data;
       createData.customFields = customFields;
+      createData.supplierId = createData.supplierId || undefined;
 
       await MaterialService.createMaterial(createData);
       toast.success(t('materials.materialCreated'));
@@ -409,10 +420,23 @@ export function MaterialsCreateView({ open, onClose }: MaterialsCreateViewProps)
             />
 
             <Controller
-              name="supplier"
+              name="supplierId"
               control={control}
               render={({ field }) => (
-                <TextField {...field} label={t('materials.form.supplier')} fullWidth />
+                <TextField
+                  {...field}
+                  select
+                  label={t('materials.form.supplier')}
+                  fullWidth
+                  value={field.value || ''}
+                >
+                  <MenuItem value="">{t('materials.form.noSupplier')}</MenuItem>
+                  {suppliers.map((supplier) => (
+                    <MenuItem key={supplier._id} value={supplier._id}>
+                      {supplier.name}
+                    </MenuItem>
+                  ))}
+                </TextField>
               )}
             />
           </Stack>
@@ -24,6 +24,7 @@ import { ConfirmationDialog } from 'src/components/confirmation-dialog';
 
 import { MaterialsTableRow } from './materials-table-row';
 import { MaterialsTableHead } from './materials-table-head';
+import { MaterialsStockDrawer } from './materials-stock-drawer';
 import { MaterialsTableToolbar } from './materials-table-toolbar';
 import { MaterialsQuickEditForm } from './materials-quick-edit-form';
 
@@ -50,6 +51,7 @@ export function MaterialsList({ filters, onFilters, onImport, onCreate }: Materi
   const [deleteLoading, setDeleteLoading] = useState(false);
   const [editFormOpen, setEditFormOpen] = useState(false);
   const [selectedMaterial, setSelectedMaterial] = useState<IMaterial | null>(null);
+  const [stockMaterial, setStockMaterial] = useState<IMaterial | null>(null);
 
   const fetchMaterials = useCallback(async () => {
     setLoading(true);
@@ -119,6 +121,11 @@ export function MaterialsList({ filters, onFilters, onImport, onCreate }: Materi
     fetchMaterials(); // Refresh the materials list
   }, [fetchMaterials]);
 
+  const handleCloseStock = useCallback(() => {
+    setStockMaterial(null);
+    fetchMaterials(); // Quantities may have moved
+  }, [fetchMaterials]);
+
   const handleBulkDelete = useCallback(() => {
     setDeleteConfirmOpen(true);
   }, []);
@@ -249,6 +256,7 @@ export function MaterialsList({ filters, onFilters, onImport, onCreate }: Materi
                     selected={table.selected.includes(String(row._id))}
                     onSelectRow={() => handleSelectRow(String(row._id))}
                     onEdit={() => handleEditMaterial(row)}
+                    onStock={() => setStockMaterial(row)}
                   />
                 ))
               )}
@@ -280,6 +288,10 @@ export function MaterialsList({ filters, onFilters, onImport, onCreate }: Materi
         icon="solar:trash-bin-trash-bold"
       />
 
+      {stockMaterial && (
+        <MaterialsStockDrawer open onClose={handleCloseStock} material={stockMaterial} />
+      )}
+
       {selectedMaterial && (
         <MaterialsQuickEditForm
           open={editFormOpen}
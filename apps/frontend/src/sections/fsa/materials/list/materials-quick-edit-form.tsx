@@ -1,7 +1,9 @@
 'use client';
 
+import type { ISupplier } from 'src/lib/models/PurchaseOrder';
 import type { IMaterial, UpdateMaterialData } from 'src/lib/models/Material';
 
+import useSWR from 'swr';
 import { useState, useEffect } from 'react';
 import { useForm, Controller } from 'react-hook-form';
 
@@ -13,6 +15,7 @@ import {
   Button,
   Drawer,
   Switch,
+  MenuItem,
   TextField,
   IconButton,
   Typography,
@@ -20,6 +23,7 @@ import {
   FormControlLabel,
 } from '@mui/material';
 
+import { fetcher, endpoints } from 'src/lib/axios';
 import { useTranslate } from 'src/locales/use-locales';
 import { MaterialService } from 'src/lib/services/material-service';
 
@@ -53,6 +57,12 @@ export function MaterialsQuickEditForm({ open, onClose, material }: MaterialsQui
   const [categories, setCategories] = useState<string[]>([]);
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
 
+  const { data: suppliersData } = useSWR(
+    open ? [endpoints.fsa.suppliers.list, { params: { limit: 100 } }] : null,
+    fetcher<any>
+  );
+  const suppliers: ISupplier[] = suppliersData?.data || [];
+
   const {
     control,
     handleSubmit,
@@ -72,7 +82,7 @@ export function MaterialsQuickEditForm({ open, onClose, material }: MaterialsQui
       quantity: material.quantity,
       minimumStock: material.minimumStock || 0,
       location: material.location || '',
-      supplier: material.supplier || '',
+      supplierId: material.supplierId || '',
       isActive: material.isActive,
       customFieldKey: '',
       customFieldValue: '',
@@ -106,7 +116,7 @@ export function MaterialsQuickEditForm({ open, onClose, material }: MaterialsQui
         quantity: material.quantity,
         minimumStock: material.minimumStock || 0,
         location: material.location || '',
-        supplier: material.supplier || '',
+        supplierId: material.supplierId || '',
         isActive: material.isActive,
         customFieldKey: '',
         customFieldValue: '',
@@ -429,10 +439,23 @@ export function MaterialsQuickEditForm({ open, onClose, material }: MaterialsQui
               />
 
               <Controller
-                name="supplier"
+                name="supplierId"
                 control={control}
                 render={({ field }) => (
-                  <TextField {...field} label={t('materials.form.supplier')} fullWidth />
+                  <TextField
+                    {...field}
+                    select
+                    label={t('materials.form.supplier')}
+                    fullWidth
+                    value={field.value || ''}
+                  >
+                    <MenuItem value="">{t('materials.form.noSupplier')}</MenuItem>
+                    {suppliers.map((supplier) => (
+                      <MenuItem key={supplier._id} value={supplier._id}>
+                        {supplier.name}
+                      </MenuItem>
+                    ))}
+                  </TextField>
                 )}
               />
             </Stack>
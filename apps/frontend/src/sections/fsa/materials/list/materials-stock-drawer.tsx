@@ -0,0 +1,461 @@
+'use client';
+
+import type {
+  IMaterial,
+  StockLocation,
+  MaterialStock,
+  StockMovement,
+  StockMovementType,
+} from 'src/lib/models/Material';
+
+import { useState, useEffect, useCallback } from 'react';
+
+import {
+  Box,
+  Chip,
+  Stack,
+  Table,
+  Button,
+  Drawer,
+  Divider,
+  MenuItem,
+  TableRow,
+  TableBody,
+  TableCell,
+  TableHead,
+  TextField,
+  IconButton,
+  Typography,
+  ToggleButton,
+  CircularProgress,
+  ToggleButtonGroup,
+} from '@mui/material';
+
+import { fDateTime } from 'src/utils/format-time';
+
+import { useTranslate } from 'src/locales/use-locales';
+import { MaterialService } from 'src/lib/services/material-service';
+import { StockLocationService } from 'src/lib/services/stock-location-service';
+
+import { toast } from 'src/components/snackbar';
+import { Iconify } from 'src/components/iconify';
+import { Scrollbar } from 'src/components/scrollbar';
+
+// ----------------------------------------------------------------------
+
+type MovementAction = 'receive' | 'adjust' | 'transfer';
+
+interface MaterialsStockDrawerProps {
+  open: boolean;
+  onClose: () => void;
+  material: IMaterial;
+}
+
+const MOVEMENT_COLORS: Record<
+  StockMovementType,
+  'default' | 'primary' | 'success' | 'error' | 'warning' | 'info'
+> = {
+  opening: 'default',
+  receipt: 'success',
+  consumption: 'error',
+  return: 'info',
+  adjustment: 'warning',
+  transfer: 'primary',
+};
+
+const EMPTY_FORM = {
+  quantity: '',
+  unitCost: '',
+  locationId: '',
+  fromLocationId: '',
+  toLocationId: '',
+  notes: '',
+};
+
+// ----------------------------------------------------------------------
+
+export function MaterialsStockDrawer({ open, onClose, material }: MaterialsStockDrawerProps) {
+  const { t } = useTranslate('dashboard');
+  const materialId = String(material._id);
+
+  const [stock, setStock] = useState<MaterialStock | null>(null);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [action, setAction] = useState<MovementAction>('receive');
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const fetchStock = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [stockResponse, movementsResponse, locationsResponse] = await Promise.all([
+        MaterialService.getStock(materialId),
+        MaterialService.getMovements({ materialId, limit: 50 }),
+        StockLocationService.getLocations(),
+      ]);
+      if (stockResponse.success) setStock(stockResponse.data);
+      if (movementsResponse.success) setMovements(movementsResponse.data);
+      if (locationsResponse.success) setLocations(locationsResponse.data);
+    } catch (error) {
+      console.error('Failed to load stock:', error);
+      toast.error(t('materials.stock.failedToLoad'));
+    } finally {
+      setLoading(false);
+    }
+  }, [materialId, t]);
+
+  useEffect(() => {
+    if (open) {
+      setForm(EMPTY_FORM);
+      fetchStock();
+    }
+  }, [open, fetchStock]);
+
+  const handleChange =
+    (field: keyof typeof EMPTY_FORM) => (event: React.ChangeEvent<HTMLInputElement>) =>
+      setForm((prev) => ({ ...prev, [field]: event.target.value }));
+
+  const handleSubmit = async () => {
+    const quantity = Number(form.quantity);
+    if (!quantity || (action !== 'adjust' && quantity < 0)) {
+      toast.error(t('materials.stock.invalidQuantity'));
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      if (action === 'receive') {
+        await MaterialService.receiveStock(materialId, {
+          quantity,
+          unitCost: form.unitCost === '' ? undefined : Number(form.unitCost),
+          locationId: form.locationId || undefined,
+          notes: form.notes || undefined,
+        });
+      } else if (action === 'adjust') {
+        if (!form.notes.trim()) {
+          toast.error(t('materials.stock.reasonRequired'));
+          return;
+        }
+        await MaterialService.adjustStock(materialId, {
+          quantity,
+          locationId: form.locationId || undefined,
+          notes: form.notes,
+        });
+      } else {
+        await MaterialService.transferStock(materialId, {
+          quantity,
+          fromLocationId: form.fromLocationId,
+          toLocationId: form.toLocationId,
+          notes: form.notes || undefined,
+        });
+      }
+
+      toast.success(t('materials.stock.movementRecorded'));
+      setForm(EMPTY_FORM);
+      await fetchStock();
+    } catch (error: any) {
+      console.error('Failed to record stock movement:', error);
+      toast.error(error?.message || t('materials.stock.failedToRecord'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRecalculate = async () => {
+    try {
+      const response = await MaterialService.recalculateStock(materialId);
+      toast.success(response.message);
+      await fetchStock();
+    } catch (error: any) {
+      console.error('Failed to recalculate stock:', error);
+      toast.error(error?.message || t('materials.stock.failedToRecord'));
+    }
+  };
+
+  const isLowStock = !!stock?.minimumStock && stock.quantity < stock.minimumStock;
+
+  const renderLocationSelect = (
+    field: 'locationId' | 'fromLocationId' | 'toLocationId',
+    label: string
+  ) => (
+    <TextField
+      select
+      fullWidth
+      size="small"
+      label={label}
+      value={form[field]}
+      onChange={handleChange(field)}
+    >
+      {field === 'locationId' && (
+        <MenuItem value="">{t('materials.stock.defaultWarehouse')}</MenuItem>
+      )}
+      {locations.map((location) => (
+        <MenuItem key={location._id} value={location._id}>
+          {location.name}
+        </MenuItem>
+      ))}
+    </TextField>
+  );
+
+  const renderSummary = () => (
+    <Stack direction="row" spacing={2}>
+      {[
+        { label: t('materials.stock.onHand'), value: stock?.quantity ?? material.quantity },
+        { label: t('materials.stock.reserved'), value: stock?.reservedQuantity ?? 0 },
+        { label: t('materials.stock.available'), value: stock?.availableQuantity ?? 0 },
+      ].map((item) => (
+        <Box
+          key={item.label}
+          sx={{ flex: 1, p: 1.5, borderRadius: 1, bgcolor: 'background.neutral' }}
+        >
+          <Typography variant="caption" color="text.secondary">
+            {item.label}
+          </Typography>
+          <Typography variant="h6">
+            {item.value} {material.unit}
+          </Typography>
+        </Box>
+      ))}
+    </Stack>
+  );
+
+  const renderForm = () => (
+    <Stack spacing={2}>
+      <ToggleButtonGroup
+        exclusive
+        size="small"
+        value={action}
+        onChange={(_, value) => value && setAction(value)}
+      >
+        <ToggleButton value="receive">{t('materials.stock.receive')}</ToggleButton>
+        <ToggleButton value="adjust">{t('materials.stock.adjust')}</ToggleButton>
+        <ToggleButton value="transfer">{t('materials.stock.transfer')}</ToggleButton>
+      </ToggleButtonGroup>
+
+      <Stack direction="row" spacing={2}>
+        <TextField
+          fullWidth
+          size="small"
+          type="number"
+          label={t('materials.form.quantity')}
+          value={form.quantity}
+          onChange={handleChange('quantity')}
+          helperText={action === 'adjust' ? t('materials.stock.adjustHelper') : undefined}
+        />
+        {action === 'receive' && (
+          <TextField
+            fullWidth
+            size="small"
+            type="number"
+            label={t('materials.form.unitCost')}
+            value={form.unitCost}
+            onChange={handleChange('unitCost')}
+          />
+        )}
+      </Stack>
+
+      {action === 'transfer' ? (
+        <Stack direction="row" spacing={2}>
+          {renderLocationSelect('fromLocationId', t('materials.stock.fromLocation'))}
+          {renderLocationSelect('toLocationId', t('materials.stock.toLocation'))}
+        </Stack>
+      ) : (
+        renderLocationSelect('locationId', t('materials.stock.location'))
+      )}
+
+      <TextField
+        size="small"
+        label={action === 'adjust' ? t('materials.stock.reason') : t('materials.form.notes')}
+        value={form.notes}
+        onChange={handleChange('notes')}
+      />
+
+      <Button
+        variant="contained"
+        onClick={handleSubmit}
+        disabled={
+          submitting ||
+          !form.quantity ||
+          (action === 'transfer' && (!form.fromLocationId || !form.toLocationId))
+        }
+        startIcon={submitting ? <CircularProgress size={16} /> : undefined}
+      >
+        {t('materials.stock.record')}
+      </Button>
+    </Stack>
+  );
+
+  const renderLocations = () => (
+    <Stack spacing={1}>
+      <Typography variant="subtitle2">{t('materials.stock.locations')}</Typography>
+      {stock?.locations.length ? (
+        stock.locations.map((balance) => (
+          <Stack key={balance.locationId} direction="row" alignItems="center" spacing={1}>
+            <Iconify
+              width={18}
+              icon={balance.type === 'vehicle' ? 'carbon:delivery' : 'solar:box-bold'}
+              sx={{ color: 'text.secondary' }}
+            />
+            <Typography variant="body2" sx={{ flexGrow: 1 }}>
+              {balance.location}
+            </Typography>
+            <Typography variant="body2" fontWeight={600}>
+              {balance.quantity} {material.unit}
+            </Typography>
+          </Stack>
+        ))
+      ) : (
+        <Typography variant="body2" color="text.secondary">
+          {t('materials.stock.noStock')}
+        </Typography>
+      )}
+    </Stack>
+  );
+
+  const renderReservations = () => (
+    <Stack spacing={1}>
+      <Typography variant="subtitle2">{t('materials.stock.reservations')}</Typography>
+      {stock?.reservations.length ? (
+        stock.reservations.map((reservation) => {
+          const workOrder =
+            reservation.workOrderId && typeof reservation.workOrderId === 'object'
+              ? reservation.workOrderId
+              : null;
+          return (
+            <Stack key={reservation._id} direction="row" justifyContent="space-between">
+              <Typography variant="body2" noWrap>
+                {workOrder
+                  ? [workOrder.workOrderNumber, workOrder.title].filter(Boolean).join(' · ')
+                  : String(reservation.workOrderId)}
+              </Typography>
+              <Typography variant="body2" fontWeight={600} sx={{ flexShrink: 0, ml: 2 }}>
+                {reservation.quantity} {material.unit}
+              </Typography>
+            </Stack>
+          );
+        })
+      ) : (
+        <Typography variant="body2" color="text.secondary">
+          {t('materials.stock.noReservations')}
+        </Typography>
+      )}
+    </Stack>
+  );
+
+  const renderMovements = () => (
+    <Stack spacing={1}>
+      <Stack direction="row" alignItems="center" justifyContent="space-between">
+        <Typography variant="subtitle2">{t('materials.stock.movements')}</Typography>
+        <Button
+          size="small"
+          color="inherit"
+          onClick={handleRecalculate}
+          startIcon={<Iconify icon="solar:restart-bold" />}
+        >
+          {t('materials.stock.recalculate')}
+        </Button>
+      </Stack>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>{t('materials.stock.date')}</TableCell>
+            <TableCell>{t('materials.stock.type')}</TableCell>
+            <TableCell align="right">{t('materials.form.quantity')}</TableCell>
+            <TableCell align="right">{t('materials.stock.balance')}</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {movements.map((movement) => (
+            <TableRow key={movement._id}>
+              <TableCell>
+                <Typography variant="body2">{fDateTime(movement.createdAt)}</Typography>
+                {(movement.notes || movement.location) && (
+                  <Typography variant="caption" color="text.secondary">
+                    {[movement.location, movement.notes].filter(Boolean).join(' · ')}
+                  </Typography>
+                )}
+              </TableCell>
+              <TableCell>
+                <Chip
+                  size="small"
+                  variant="soft"
+                  color={MOVEMENT_COLORS[movement.type]}
+                  label={t(`materials.stock.types.${movement.type}`)}
+                />
+              </TableCell>
+              <TableCell
+                align="right"
+                sx={{ color: movement.quantity < 0 ? 'error.main' : 'success.main' }}
+              >
+                {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+              </TableCell>
+              <TableCell align="right">{movement.balanceAfter}</TableCell>
+            </TableRow>
+          ))}
+          {movements.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={4}>
+                <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+                  {t('materials.stock.noMovements')}
+                </Typography>
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </Stack>
+  );
+
+  return (
+    <Drawer
+      anchor="right"
+      open={open}
+      onClose={onClose}
+      slotProps={{ paper: { sx: { width: { xs: 1, sm: 560 } } } }}
+    >
+      <Stack direction="row" alignItems="center" sx={{ p: 2.5, pr: 1.5 }}>
+        <Stack sx={{ flexGrow: 1, minWidth: 0 }}>
+          <Typography variant="h6" noWrap>
+            {material.name}
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {t('materials.stock.title')}
+          </Typography>
+        </Stack>
+        {isLowStock && (
+          <Chip
+            size="small"
+            color="error"
+            variant="soft"
+            label={t('materials.status.lowStock')}
+            sx={{ mr: 1 }}
+          />
+        )}
+        <IconButton onClick={onClose}>
+          <Iconify icon="mingcute:close-line" />
+        </IconButton>
+      </Stack>
+
+      <Divider />
+
+      <Scrollbar>
+        {loading && !stock ? (
+          <Box display="flex" justifyContent="center" p={5}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <Stack spacing={3} sx={{ p: 2.5 }}>
+            {renderSummary()}
+            {renderForm()}
+            <Divider />
+            {renderLocations()}
+            {renderReservations()}
+            <Divider />
+            {renderMovements()}
+          </Stack>
+        )}
+      </Scrollbar>
+    </Drawer>
+  );
+}
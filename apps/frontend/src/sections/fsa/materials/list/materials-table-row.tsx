@@ -28,11 +28,18 @@ interface MaterialsTableRowProps {
   selected: boolean;
   onSelectRow: () => void;
   onEdit: () => void;
+  onStock: () => void;
 }
 
 // ----------------------------------------------------------------------
 
-export function MaterialsTableRow({ row, selected, onSelectRow, onEdit }: MaterialsTableRowProps) {
+export function MaterialsTableRow({
+  row,
+  selected,
+  onSelectRow,
+  onEdit,
+  onStock,
+}: MaterialsTableRowProps) {
   const { t } = useTranslate('dashboard');
   const theme = useTheme();
 
@@ -49,7 +56,7 @@ export function MaterialsTableRow({ row, selected, onSelectRow, onEdit }: Materi
     }
   };
 
-  const isLowStock = row.minimumStock && row.quantity <= row.minimumStock;
+  const isLowStock = !!row.minimumStock && row.quantity < row.minimumStock;
 
   return (
     <TableRow hover selected={selected}>
@@ -114,6 +121,11 @@ export function MaterialsTableRow({ row, selected, onSelectRow, onEdit }: Materi
             </Tooltip>
           )}
         </Stack>
+        {!!row.reservedQuantity && (
+          <Typography variant="caption" color="text.secondary">
+            {`${t('materials.stock.reserved')}: ${row.reservedQuantity}`}
+          </Typography>
+        )}
       </TableCell>
 
       <TableCell align="center">
@@ -138,7 +150,12 @@ export function MaterialsTableRow({ row, selected, onSelectRow, onEdit }: Materi
         />
       </TableCell>
 
-      <TableCell align="right">
+      <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+        <Tooltip title={t('materials.stock.manage')}>
+          <IconButton onClick={onStock}>
+            <Iconify icon="solar:box-bold" />
+          </IconButton>
+        </Tooltip>
         <Tooltip title={t('materials.table.edit')}>
           <IconButton onClick={onEdit}>
             <Iconify icon="solar:pen-bold" />
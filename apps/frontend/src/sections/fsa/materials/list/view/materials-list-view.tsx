@@ -5,6 +5,9 @@ import { useBoolean } from 'minimal-shared/hooks';
 
 import { Chip, Alert, Stack, Button, Container, Typography } from '@mui/material';
 
+import { paths } from 'src/routes/paths';
+import { RouterLink } from 'src/routes/components';
+
 import { useTranslate } from 'src/locales/use-locales';
 
 import { Iconify } from 'src/components/iconify';
@@ -61,6 +64,14 @@ export function MaterialsListView() {
             </Stack>
 
             <Stack direction="row" spacing={1}>
+              <Button
+                component={RouterLink}
+                href={paths.dashboard.fsa.materials.locations}
+                variant="outlined"
+                startIcon={<Iconify icon="solar:box-bold" />}
+              >
+                {t('materials.locations.manage')}
+              </Button>
               <Button
                 variant="contained"
                 startIcon={<Iconify icon="mingcute:add-line" />}
@@ -0,0 +1,154 @@
+'use client';
+
+import type { StockLocation, StockLocationData } from 'src/lib/models/Material';
+
+import { useState, useEffect } from 'react';
+
+import {
+  Stack,
+  Dialog,
+  Button,
+  Switch,
+  TextField,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  FormControlLabel,
+  CircularProgress,
+} from '@mui/material';
+
+import { useTranslate } from 'src/locales/use-locales';
+import { StockLocationService } from 'src/lib/services/stock-location-service';
+
+import { toast } from 'src/components/snackbar';
+
+// ----------------------------------------------------------------------
+
+interface StockLocationFormDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+  location?: StockLocation | null;
+}
+
+const EMPTY_FORM = { name: '', address: '', notes: '', isDefault: false };
+
+// ----------------------------------------------------------------------
+
+export function StockLocationFormDialog({
+  open,
+  onClose,
+  onSaved,
+  location,
+}: StockLocationFormDialogProps) {
+  const { t } = useTranslate('dashboard');
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setForm(
+        location
+          ? {
+              name: location.name,
+              address: location.address || '',
+              notes: location.notes || '',
+              isDefault: location.isDefault,
+            }
+          : EMPTY_FORM
+      );
+    }
+  }, [open, location]);
+
+  const handleSubmit = async () => {
+    setSaving(true);
+    try {
+      const data: StockLocationData = {
+        name: form.name.trim(),
+        address: form.address || undefined,
+        notes: form.notes || undefined,
+      };
+      // Only warehouses can hold the default
+      if (!location || location.type === 'warehouse') {
+        data.isDefault = form.isDefault || undefined;
+      }
+
+      if (location) {
+        await StockLocationService.updateLocation(location._id, data);
+      } else {
+        await StockLocationService.createLocation({ ...data, type: 'warehouse' });
+      }
+
+      toast.success(t('materials.locations.saved'));
+      onSaved();
+      onClose();
+    } catch (error: any) {
+      console.error('Failed to save stock location:', error);
+      toast.error(error?.message || t('materials.locations.failedToSave'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>
+        {location ? t('materials.locations.editLocation') : t('materials.locations.newWarehouse')}
+      </DialogTitle>
+
+      <DialogContent>
+        <Stack spacing={2} sx={{ pt: 1 }}>
+          <TextField
+            autoFocus
+            size="small"
+            label={t('materials.locations.name')}
+            value={form.name}
+            onChange={(event) => setForm((prev) => ({ ...prev, name: event.target.value }))}
+          />
+          <TextField
+            size="small"
+            label={t('materials.locations.address')}
+            value={form.address}
+            onChange={(event) => setForm((prev) => ({ ...prev, address: event.target.value }))}
+          />
+          <TextField
+            size="small"
+            multiline
+            minRows={2}
+            label={t('materials.form.notes')}
+            value={form.notes}
+            onChange={(event) => setForm((prev) => ({ ...prev, notes: event.target.value }))}
+          />
+          {(!location || location.type === 'warehouse') && (
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={form.isDefault}
+                  disabled={location?.isDefault}
+                  onChange={(event) =>
+                    setForm((prev) => ({ ...prev, isDefault: event.target.checked }))
+                  }
+                />
+              }
+              label={t('materials.locations.setDefault')}
+            />
+          )}
+        </Stack>
+      </DialogContent>
+
+      <DialogActions>
+        <Button color="inherit" onClick={onClose}>
+          {t('materials.cancel')}
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSubmit}
+          disabled={saving || !form.name.trim()}
+          startIcon={saving ? <CircularProgress size={16} /> : undefined}
+        >
+          {t('materials.locations.save')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
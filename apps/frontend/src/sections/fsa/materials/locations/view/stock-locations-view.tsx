@@ -0,0 +1,345 @@
+'use client';
+
+import type { StockLevel, StockLocation } from 'src/lib/models/Material';
+
+import { useState, useEffect, useCallback } from 'react';
+
+import {
+  Box,
+  Card,
+  Chip,
+  Grid,
+  Stack,
+  Table,
+  Button,
+  Tooltip,
+  TableRow,
+  Container,
+  TableBody,
+  TableCell,
+  TableHead,
+  CardHeader,
+  IconButton,
+  Typography,
+  CircularProgress,
+} from '@mui/material';
+
+import { paths } from 'src/routes/paths';
+import { RouterLink } from 'src/routes/components';
+
+import { useTranslate } from 'src/locales/use-locales';
+import { StockLocationService } from 'src/lib/services/stock-location-service';
+
+import { toast } from 'src/components/snackbar';
+import { Iconify } from 'src/components/iconify';
+import { Scrollbar } from 'src/components/scrollbar';
+import { ConfirmationDialog } from 'src/components/confirmation-dialog';
+
+import { StockLocationFormDialog } from '../stock-location-form-dialog';
+
+// ----------------------------------------------------------------------
+
+export function StockLocationsView() {
+  const { t } = useTranslate('dashboard');
+
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [selected, setSelected] = useState<StockLocation | null>(null);
+  const [levels, setLevels] = useState<StockLevel[]>([]);
+  const [levelsLoading, setLevelsLoading] = useState(false);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<StockLocation | null>(null);
+  const [deleting, setDeleting] = useState<StockLocation | null>(null);
+  const [deleteLoading, setDeleteLoading] = useState(false);
+
+  const fetchLocations = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await StockLocationService.getLocations();
+      if (response.success) setLocations(response.data);
+    } catch (error) {
+      console.error('Failed to load stock locations:', error);
+      toast.error(t('materials.locations.failedToLoad'));
+    } finally {
+      setLoading(false);
+    }
+  }, [t]);
+
+  const fetchLevels = useCallback(
+    async (locationId: string) => {
+      setLevelsLoading(true);
+      try {
+        const response = await StockLocationService.getLocationStock(locationId);
+        if (response.success) setLevels(response.data.levels);
+      } catch (error) {
+        console.error('Failed to load location stock:', error);
+        toast.error(t('materials.locations.failedToLoad'));
+      } finally {
+        setLevelsLoading(false);
+      }
+    },
+    [t]
+  );
+
+  useEffect(() => {
+    fetchLocations();
+  }, [fetchLocations]);
+
+  useEffect(() => {
+    if (selected) fetchLevels(selected._id);
+  }, [selected, fetchLevels]);
+
+  const handleSyncVehicles = async () => {
+    setSyncing(true);
+    try {
+      const response = await StockLocationService.syncVehicles();
+      toast.success(
+        t('materials.locations.vehiclesCreated', { count: response.data?.created ?? 0 })
+      );
+      await fetchLocations();
+    } catch (error: any) {
+      console.error('Failed to create vehicle locations:', error);
+      toast.error(error?.message || t('materials.locations.failedToSave'));
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    setDeleteLoading(true);
+    try {
+      const response = await StockLocationService.deleteLocation(deleting._id);
+      toast.success(response.message);
+      if (selected?._id === deleting._id) setSelected(null);
+      setDeleting(null);
+      await fetchLocations();
+    } catch (error: any) {
+      console.error('Failed to remove stock location:', error);
+      toast.error(error?.message || t('materials.locations.failedToSave'));
+    } finally {
+      setDeleteLoading(false);
+    }
+  };
+
+  const renderLocations = () => (
+    <Card>
+      <CardHeader title={t('materials.locations.title')} sx={{ mb: 2 }} />
+      <Scrollbar>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>{t('materials.locations.name')}</TableCell>
+              <TableCell>{t('materials.locations.technician')}</TableCell>
+              <TableCell align="right">{t('materials.locations.items')}</TableCell>
+              <TableCell align="right" />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {locations.map((location) => (
+              <TableRow
+                key={location._id}
+                hover
+                selected={selected?._id === location._id}
+                onClick={() => setSelected(location)}
+                sx={{ cursor: 'pointer' }}
+              >
+                <TableCell>
+                  <Stack direction="row" alignItems="center" spacing={1}>
+                    <Iconify
+                      width={18}
+                      icon={location.type === 'vehicle' ? 'carbon:delivery' : 'solar:box-bold'}
+                      sx={{ color: 'text.secondary', flexShrink: 0 }}
+                    />
+                    <Typography variant="body2" noWrap>
+                      {location.name}
+                    </Typography>
+                    {location.isDefault && (
+                      <Chip
+                        size="small"
+                        variant="soft"
+                        color="primary"
+                        label={t('materials.locations.default')}
+                      />
+                    )}
+                  </Stack>
+                  {location.address && (
+                    <Typography variant="caption" color="text.secondary">
+                      {location.address}
+                    </Typography>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Typography variant="body2" color="text.secondary">
+                    {location.personnelName || '-'}
+                  </Typography>
+                </TableCell>
+                <TableCell align="right">{location.itemCount ?? 0}</TableCell>
+                <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                  <Tooltip title={t('materials.locations.editLocation')}>
+                    <IconButton
+                      size="small"
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        setEditing(location);
+                        setFormOpen(true);
+                      }}
+                    >
+                      <Iconify icon="solar:pen-bold" />
+                    </IconButton>
+                  </Tooltip>
+                  {!location.isDefault && (
+                    <Tooltip title={t('materials.delete')}>
+                      <IconButton
+                        size="small"
+                        color="error"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          setDeleting(location);
+                        }}
+                      >
+                        <Iconify icon="solar:trash-bin-trash-bold" />
+                      </IconButton>
+                    </Tooltip>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Scrollbar>
+    </Card>
+  );
+
+  const renderStock = () => (
+    <Card>
+      <CardHeader
+        title={selected ? selected.name : t('materials.locations.stockTitle')}
+        subheader={selected ? undefined : t('materials.locations.selectLocation')}
+        sx={{ mb: 2 }}
+      />
+      {selected &&
+        (levelsLoading ? (
+          <Box display="flex" justifyContent="center" p={3}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('materials.table.name')}</TableCell>
+                <TableCell align="right">{t('materials.form.quantity')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {levels.map((level) => (
+                <TableRow key={level._id}>
+                  <TableCell>
+                    <Typography variant="body2">{level.materialId?.name}</Typography>
+                    {level.materialId?.sku && (
+                      <Typography variant="caption" color="text.secondary">
+                        SKU: {level.materialId.sku}
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell
+                    align="right"
+                    sx={{ color: level.quantity < 0 ? 'error.main' : 'text.primary' }}
+                  >
+                    {level.quantity} {level.materialId?.unit}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {levels.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={2}>
+                    <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+                      {t('materials.stock.noStock')}
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        ))}
+    </Card>
+  );
+
+  return (
+    <>
+      <Container maxWidth={false}>
+        <Stack spacing={4} sx={{ p: 3 }}>
+          <Stack direction="row" alignItems="center" justifyContent="space-between">
+            <Stack spacing={1}>
+              <Typography variant="h4">{t('materials.locations.title')}</Typography>
+              <Typography variant="body2" color="text.secondary">
+                {t('materials.locations.subtitle')}
+              </Typography>
+            </Stack>
+
+            <Stack direction="row" spacing={1}>
+              <Button
+                component={RouterLink}
+                href={paths.dashboard.fsa.materials.root}
+                color="inherit"
+                variant="outlined"
+              >
+                {t('materials.title')}
+              </Button>
+              <Button
+                variant="outlined"
+                onClick={handleSyncVehicles}
+                disabled={syncing}
+                startIcon={<Iconify icon="carbon:delivery" />}
+              >
+                {t('materials.locations.syncVehicles')}
+              </Button>
+              <Button
+                variant="contained"
+                startIcon={<Iconify icon="mingcute:add-line" />}
+                onClick={() => {
+                  setEditing(null);
+                  setFormOpen(true);
+                }}
+              >
+                {t('materials.locations.newWarehouse')}
+              </Button>
+            </Stack>
+          </Stack>
+
+          {loading && locations.length === 0 ? (
+            <Box display="flex" justifyContent="center" p={5}>
+              <CircularProgress />
+            </Box>
+          ) : (
+            <Grid container spacing={3}>
+              <Grid size={{ xs: 12, md: 7 }}>{renderLocations()}</Grid>
+              <Grid size={{ xs: 12, md: 5 }}>{renderStock()}</Grid>
+            </Grid>
+          )}
+        </Stack>
+      </Container>
+
+      <StockLocationFormDialog
+        open={formOpen}
+        location={editing}
+        onClose={() => setFormOpen(false)}
+        onSaved={fetchLocations}
+      />
+
+      <ConfirmationDialog
+        open={!!deleting}
+        title={t('materials.locations.deleteLocation')}
+        message={t('materials.locations.deleteConfirmMessage')}
+        confirmText={t('materials.delete')}
+        cancelText={t('materials.cancel')}
+        confirmColor="error"
+        onConfirm={handleDelete}
+        onCancel={() => setDeleting(null)}
+        loading={deleteLoading}
+        icon="solar:trash-bin-trash-bold"
+      />
+    </>
+  );
+}
@@ -0,0 +1,384 @@
+'use client';
+
+import type {
+  IFlaggedSession,
+  ISessionLocation,
+  AttendanceSettings,
+  AttendanceReviewStatus,
+} from 'src/lib/models/Attendance';
+
+import useSWR from 'swr';
+import { useState, useEffect } from 'react';
+
+import Card from '@mui/material/Card';
+import Chip from '@mui/material/Chip';
+import Link from '@mui/material/Link';
+import Stack from '@mui/material/Stack';
+import Table from '@mui/material/Table';
+import Button from '@mui/material/Button';
+import Dialog from '@mui/material/Dialog';
+import Switch from '@mui/material/Switch';
+import MenuItem from '@mui/material/MenuItem';
+import TableRow from '@mui/material/TableRow';
+import Container from '@mui/material/Container';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import TableContainer from '@mui/material/TableContainer';
+import TablePagination from '@mui/material/TablePagination';
+import FormControlLabel from '@mui/material/FormControlLabel';
+
+import { PERMISSIONS, usePermissions } from 'src/hooks/use-permissions';
+
+import { fDateTime } from 'src/utils/format-time';
+
+import { fetcher, endpoints } from 'src/lib/axios';
+import { AttendanceService } from 'src/lib/services/attendance-service';
+
+import { toast } from 'src/components/snackbar';
+import { Iconify } from 'src/components/iconify';
+
+// ----------------------------------------------------------------------
+
+const STATUS_COLORS: Record<AttendanceReviewStatus, 'warning' | 'success' | 'error'> = {
+  pending: 'warning',
+  approved: 'success',
+  rejected: 'error',
+};
+
+const STATUS_LABELS: Record<AttendanceReviewStatus, string> = {
+  pending: 'Pending review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+const DEFAULT_SETTINGS: AttendanceSettings = {
+  geofenceRadiusMeters: 150,
+  requireLocation: false,
+  blockOutsideGeofence: false,
+};
+
+const mapsUrl = (location: ISessionLocation) =>
+  `https://www.google.com/maps/search/?api=1&query=${location.latitude},${location.longitude}`;
+
+const personnelName = (session: IFlaggedSession) => {
+  const user = session.personnelId?.userId;
+  const name = `${user?.firstName || ''} ${user?.lastName || ''}`.trim();
+  return name || session.personnelId?.employeeId || 'Unknown';
+};
+
+function LocationCell({ location }: { location?: ISessionLocation }) {
+  if (!location) {
+    return (
+      <Typography variant="caption" color="text.disabled">
+        No fix
+      </Typography>
+    );
+  }
+
+  return (
+    <Stack spacing={0.25}>
+      <Link href={mapsUrl(location)} target="_blank" rel="noopener" variant="body2">
+        {location.distanceMeters !== undefined ? `${location.distanceMeters} m` : 'View on map'}
+      </Link>
+      <Typography
+        variant="caption"
+        color={location.withinGeofence === false ? 'error.main' : 'text.secondary'}
+      >
+        {location.accuracy !== undefined ? `±${location.accuracy} m · ` : ''}
+        {fDateTime(location.capturedAt)}
+      </Typography>
+    </Stack>
+  );
+}
+
+// ----------------------------------------------------------------------
+
+export function AttendanceReviewView() {
+  const { hasPermission } = usePermissions();
+  const canApprove = hasPermission(PERMISSIONS.TIMESHEETS_APPROVE);
+  const canViewSettings = hasPermission('settings.view');
+  const canEditSettings = hasPermission('settings.edit');
+
+  const [status, setStatus] = useState<AttendanceReviewStatus | ''>('pending');
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+  const [reviewTarget, setReviewTarget] = useState<IFlaggedSession | null>(null);
+  const [reviewNotes, setReviewNotes] = useState('');
+  const [radius, setRadius] = useState('');
+
+  const { data, isLoading, mutate } = useSWR(
+    [
+      endpoints.fsa.timeEntries.flaggedSessions,
+      {
+        params: {
+          status: status || undefined,
+          limit: rowsPerPage,
+          offset: page * rowsPerPage,
+        },
+      },
+    ],
+    fetcher<any>
+  );
+  const { data: settingsData, mutate: mutateSettings } = useSWR(
+    canViewSettings ? endpoints.fsa.timeEntries.attendanceSettings : null,
+    fetcher<any>
+  );
+
+  const sessions: IFlaggedSession[] = data?.data || [];
+  const total: number = data?.pagination?.total || 0;
+  const settings: AttendanceSettings = settingsData?.data || DEFAULT_SETTINGS;
+
+  useEffect(() => {
+    setRadius(String(settings.geofenceRadiusMeters));
+  }, [settings.geofenceRadiusMeters]);
+
+  const handleSettings = async (changes: Partial<AttendanceSettings>) => {
+    try {
+      await AttendanceService.updateSettings(changes);
+      toast.success('Attendance settings updated');
+      mutateSettings();
+    } catch (error: any) {
+      console.error('Failed to update attendance settings:', error);
+      toast.error(error?.message || 'Failed to update attendance settings');
+      setRadius(String(settings.geofenceRadiusMeters));
+    }
+  };
+
+  const handleRadiusBlur = () => {
+    const value = Number(radius);
+    if (!Number.isFinite(value) || value === settings.geofenceRadiusMeters) {
+      setRadius(String(settings.geofenceRadiusMeters));
+      return;
+    }
+    handleSettings({ geofenceRadiusMeters: value });
+  };
+
+  const openReview = (session: IFlaggedSession) => {
+    setReviewTarget(session);
+    setReviewNotes(session.review?.notes || '');
+  };
+
+  const handleReview = async (decision: Exclude<AttendanceReviewStatus, 'pending'>) => {
+    if (!reviewTarget) return;
+    try {
+      await AttendanceService.reviewSession(reviewTarget._id, decision, reviewNotes || undefined);
+      toast.success(decision === 'approved' ? 'Session approved' : 'Session rejected');
+      setReviewTarget(null);
+      mutate();
+    } catch (error: any) {
+      console.error('Failed to review session:', error);
+      toast.error(error?.message || 'Failed to review session');
+    }
+  };
+
+  return (
+    <Container maxWidth={false}>
+      <Stack spacing={3} sx={{ p: 3 }}>
+        <Stack spacing={1}>
+          <Typography variant="h4">Attendance Review</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Check-ins, heartbeats and check-outs are stamped with the technician&apos;s GPS
+            position. Sessions with a fix outside the work order geofence are listed here for
+            review.
+          </Typography>
+        </Stack>
+
+        {canViewSettings && (
+          <Card sx={{ p: 3 }}>
+            <Typography variant="h6" sx={{ mb: 2 }}>
+              Geofence
+            </Typography>
+            <Stack direction={{ xs: 'column', md: 'row' }} spacing={3} alignItems="flex-start">
+              <TextField
+                type="number"
+                label="Radius (m)"
+                value={radius}
+                disabled={!canEditSettings}
+                onChange={(e) => setRadius(e.target.value)}
+                onBlur={handleRadiusBlur}
+                helperText="Allowed distance from the work order site"
+                slotProps={{ htmlInput: { min: 10, max: 10000 } }}
+                sx={{ width: 220 }}
+              />
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={settings.requireLocation}
+                    disabled={!canEditSettings}
+                    onChange={(e) => handleSettings({ requireLocation: e.target.checked })}
+                  />
+                }
+                label="Require location to check in"
+              />
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={settings.blockOutsideGeofence}
+                    disabled={!canEditSettings}
+                    onChange={(e) => handleSettings({ blockOutsideGeofence: e.target.checked })}
+                  />
+                }
+                label="Block check-in outside the geofence"
+              />
+            </Stack>
+            <Typography variant="caption" color="text.secondary">
+              Work orders without site coordinates are never flagged or blocked.
+            </Typography>
+          </Card>
+        )}
+
+        <Card>
+          <Stack direction="row" spacing={2} sx={{ p: 2.5 }}>
+            <TextField
+              select
+              label="Status"
+              value={status}
+              onChange={(e) => {
+                setStatus(e.target.value as AttendanceReviewStatus | '');
+                setPage(0);
+              }}
+              sx={{ minWidth: 200 }}
+            >
+              <MenuItem value="">All</MenuItem>
+              <MenuItem value="pending">Pending review</MenuItem>
+              <MenuItem value="approved">Approved</MenuItem>
+              <MenuItem value="rejected">Rejected</MenuItem>
+            </TextField>
+          </Stack>
+
+          <TableContainer>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Technician</TableCell>
+                  <TableCell>Work order</TableCell>
+                  <TableCell>Checked in</TableCell>
+                  <TableCell>Check-in fix</TableCell>
+                  <TableCell>First fix outside</TableCell>
+                  <TableCell>Check-out fix</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {!isLoading && sessions.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={8} align="center" sx={{ py: 6 }}>
+                      <Typography variant="body2" color="text.secondary">
+                        No flagged sessions
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+                {sessions.map((session) => (
+                  <TableRow key={session._id} hover>
+                    <TableCell>
+                      <Typography variant="subtitle2">{personnelName(session)}</Typography>
+                      {session.isActive && (
+                        <Typography variant="caption" color="success.main">
+                          Checked in now
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2">
+                        {session.workOrderId?.workOrderNumber || '-'}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {session.taskId?.title || session.workOrderId?.title}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>{fDateTime(session.checkInTime)}</TableCell>
+                    <TableCell>
+                      <LocationCell location={session.checkInLocation} />
+                    </TableCell>
+                    <TableCell>
+                      <LocationCell location={session.outsideLocation} />
+                      {session.geofence && (
+                        <Typography variant="caption" color="text.disabled">
+                          Fence {session.geofence.radiusMeters} m
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <LocationCell location={session.checkOutLocation} />
+                    </TableCell>
+                    <TableCell>
+                      {session.review && (
+                        <Chip
+                          size="small"
+                          label={STATUS_LABELS[session.review.status]}
+                          color={STATUS_COLORS[session.review.status]}
+                        />
+                      )}
+                    </TableCell>
+                    <TableCell align="right">
+                      {canApprove && (
+                        <Button
+                          size="small"
+                          startIcon={<Iconify icon="solar:pen-bold" />}
+                          onClick={() => openReview(session)}
+                        >
+                          Review
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          <TablePagination
+            component="div"
+            page={page}
+            count={total}
+            rowsPerPage={rowsPerPage}
+            onPageChange={(_, newPage) => setPage(newPage)}
+            rowsPerPageOptions={[10, 25, 50, 100]}
+            onRowsPerPageChange={(e) => {
+              setRowsPerPage(parseInt(e.target.value, 10));
+              setPage(0);
+            }}
+          />
+        </Card>
+      </Stack>
+
+      <Dialog open={!!reviewTarget} onClose={() => setReviewTarget(null)} fullWidth maxWidth="xs">
+        <DialogTitle>Review session</DialogTitle>
+        <DialogContent dividers>
+          <Typography variant="body2" sx={{ mb: 2 }}>
+            {reviewTarget && personnelName(reviewTarget)} was{' '}
+            {reviewTarget?.outsideLocation?.distanceMeters ?? '?'} m from the site (fence{' '}
+            {reviewTarget?.geofence?.radiusMeters ?? '?'} m).
+          </Typography>
+          <TextField
+            fullWidth
+            multiline
+            minRows={3}
+            label="Notes"
+            value={reviewNotes}
+            onChange={(e) => setReviewNotes(e.target.value)}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button color="inherit" onClick={() => setReviewTarget(null)}>
+            Cancel
+          </Button>
+          <Button variant="outlined" color="error" onClick={() => handleReview('rejected')}>
+            Reject
+          </Button>
+          <Button variant="contained" color="success" onClick={() => handleReview('approved')}>
+            Approve
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Container>
+  );
+}
@@ -0,0 +1,312 @@
+'use client';
+
+import type { TimesheetStatus, ITimesheetDetails } from 'src/lib/models/Timesheet';
+
+import useSWR from 'swr';
+import { useState } from 'react';
+
+import Box from '@mui/material/Box';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import Table from '@mui/material/Table';
+import Button from '@mui/material/Button';
+import Dialog from '@mui/material/Dialog';
+import Divider from '@mui/material/Divider';
+import TableRow from '@mui/material/TableRow';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+
+import { fCurrency } from 'src/utils/format-number';
+import { fDate, fDateTime } from 'src/utils/format-time';
+
+import { fetcher, endpoints } from 'src/lib/axios';
+import { TimesheetService } from 'src/lib/services/timesheet-service';
+
+import { toast } from 'src/components/snackbar';
+
+// ----------------------------------------------------------------------
+
+export const TIMESHEET_STATUS_COLORS: Record<
+  TimesheetStatus,
+  'default' | 'info' | 'success' | 'error'
+> = {
+  draft: 'default',
+  submitted: 'info',
+  approved: 'success',
+  rejected: 'error',
+};
+
+export const TIMESHEET_STATUS_LABELS: Record<TimesheetStatus, string> = {
+  draft: 'Draft',
+  submitted: 'Submitted',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+const EVENT_LABELS: Record<string, string> = {
+  submitted: 'Submitted',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  reopened: 'Reopened',
+  comment: 'Comment',
+};
+
+type Props = {
+  open: boolean;
+  timesheetId: string | null;
+  canApprove: boolean;
+  onClose: () => void;
+  onChanged: () => void;
+};
+
+export function TimesheetDetailsDialog({
+  open,
+  timesheetId,
+  canApprove,
+  onClose,
+  onChanged,
+}: Props) {
+  const [comment, setComment] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const { data, mutate } = useSWR(
+    open && timesheetId ? endpoints.fsa.timesheets.details(timesheetId) : null,
+    fetcher<any>
+  );
+  const timesheet: ITimesheetDetails | undefined = data?.data;
+  const status: TimesheetStatus | undefined = timesheet?.status;
+
+  const handleClose = () => {
+    setComment('');
+    onClose();
+  };
+
+  const runAction = async (action: () => Promise<any>, success: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast.success(success);
+      setComment('');
+      mutate();
+      onChanged();
+    } catch (error: any) {
+      console.error('Timesheet action failed:', error);
+      toast.error(error?.message || 'Timesheet action failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const text = comment.trim() || undefined;
+
+  return (
+    <Dialog open={open} onClose={handleClose} fullWidth maxWidth="md">
+      <DialogTitle>
+        <Stack direction="row" alignItems="center" spacing={2}>
+          <Box sx={{ flexGrow: 1 }}>
+            {timesheet?.personnel?.name || 'Timesheet'}
+            {timesheet && (
+              <Typography variant="body2" color="text.secondary">
+                Week of {fDate(timesheet.weekStart)} – {fDate(timesheet.weekEnd)}
+              </Typography>
+            )}
+          </Box>
+          {status && (
+            <Chip
+              label={TIMESHEET_STATUS_LABELS[status]}
+              color={TIMESHEET_STATUS_COLORS[status]}
+              size="small"
+            />
+          )}
+        </Stack>
+      </DialogTitle>
+
+      <DialogContent dividers>
+        {timesheet && (
+          <Stack spacing={3}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Day</TableCell>
+                  <TableCell align="right">Regular (h)</TableCell>
+                  <TableCell align="right">Overtime (h)</TableCell>
+                  <TableCell align="right">Total (h)</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {timesheet.days.map((day) => (
+                  <TableRow key={day.date}>
+                    <TableCell>{fDate(day.date, 'ddd DD MMM')}</TableCell>
+                    <TableCell align="right">{day.regularHours.toFixed(2)}</TableCell>
+                    <TableCell
+                      align="right"
+                      sx={{ color: day.overtimeHours > 0 ? 'warning.main' : undefined }}
+                    >
+                      {day.overtimeHours.toFixed(2)}
+                    </TableCell>
+                    <TableCell align="right">{day.hours.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell sx={{ fontWeight: 'fontWeightSemiBold' }}>Total</TableCell>
+                  <TableCell align="right" sx={{ fontWeight: 'fontWeightSemiBold' }}>
+                    {timesheet.totals.regularHours.toFixed(2)}
+                  </TableCell>
+                  <TableCell align="right" sx={{ fontWeight: 'fontWeightSemiBold' }}>
+                    {timesheet.totals.overtimeHours.toFixed(2)}
+                  </TableCell>
+                  <TableCell align="right" sx={{ fontWeight: 'fontWeightSemiBold' }}>
+                    {timesheet.totals.hours.toFixed(2)}
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+
+            <Box>
+              <Typography variant="subtitle2" sx={{ mb: 1 }}>
+                Time entries ({timesheet.entries.length}) · {fCurrency(timesheet.totals.cost)}
+              </Typography>
+              {timesheet.entries.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">
+                  No time logged this week
+                </Typography>
+              ) : (
+                <Table size="small">
+                  <TableBody>
+                    {timesheet.entries.map((entry) => (
+                      <TableRow key={entry._id}>
+                        <TableCell>{fDate(entry.date)}</TableCell>
+                        <TableCell>
+                          <Typography variant="body2">{entry.taskId?.title || '-'}</Typography>
+                          <Typography variant="caption" color="text.secondary">
+                            {entry.workOrderId?.workOrderNumber}
+                            {entry.notes ? ` · ${entry.notes}` : ''}
+                          </Typography>
+                        </TableCell>
+                        <TableCell align="right">{entry.hours.toFixed(2)} h</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </Box>
+
+            <Divider />
+
+            <Box>
+              <Typography variant="subtitle2" sx={{ mb: 1 }}>
+                History
+              </Typography>
+              <Stack spacing={1.5}>
+                {timesheet.history.length === 0 && (
+                  <Typography variant="body2" color="text.secondary">
+                    Not submitted yet
+                  </Typography>
+                )}
+                {timesheet.history.map((event, index) => (
+                  <Box key={index}>
+                    <Typography variant="body2">
+                      <strong>{EVENT_LABELS[event.type]}</strong>
+                      {event.userName ? ` by ${event.userName}` : ''}
+                      <Typography component="span" variant="caption" color="text.secondary">
+                        {' · '}
+                        {fDateTime(event.createdAt)}
+                      </Typography>
+                    </Typography>
+                    {event.comment && (
+                      <Typography variant="body2" color="text.secondary">
+                        {event.comment}
+                      </Typography>
+                    )}
+                  </Box>
+                ))}
+              </Stack>
+            </Box>
+
+            <TextField
+              fullWidth
+              multiline
+              minRows={2}
+              label="Comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              helperText={
+                status === 'submitted' && canApprove ? 'Required when rejecting' : undefined
+              }
+            />
+          </Stack>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button color="inherit" onClick={handleClose}>
+          Close
+        </Button>
+        {timesheet && (
+          <Button
+            variant="outlined"
+            disabled={busy || !text}
+            onClick={() =>
+              runAction(() => TimesheetService.addComment(timesheet._id, text!), 'Comment added')
+            }
+          >
+            Comment
+          </Button>
+        )}
+        {timesheet && (status === 'draft' || status === 'rejected') && (
+          <Button
+            variant="contained"
+            disabled={busy || timesheet.totals.entries === 0}
+            onClick={() =>
+              runAction(() => TimesheetService.submit(timesheet._id, text), 'Timesheet submitted')
+            }
+          >
+            Submit
+          </Button>
+        )}
+        {timesheet && canApprove && status === 'submitted' && (
+          <>
+            <Button
+              variant="outlined"
+              color="error"
+              disabled={busy || !text}
+              onClick={() =>
+                runAction(() => TimesheetService.reject(timesheet._id, text!), 'Timesheet rejected')
+              }
+            >
+              Reject
+            </Button>
+            <Button
+              variant="contained"
+              color="success"
+              disabled={busy}
+              onClick={() =>
+                runAction(() => TimesheetService.approve(timesheet._id, text), 'Timesheet approved')
+              }
+            >
+              Approve
+            </Button>
+          </>
+        )}
+        {timesheet && canApprove && status === 'approved' && (
+          <Button
+            variant="outlined"
+            color="warning"
+            disabled={busy}
+            onClick={() =>
+              runAction(() => TimesheetService.reopen(timesheet._id, text), 'Timesheet reopened')
+            }
+          >
+            Reopen
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,318 @@
+'use client';
+
+import type { ITimesheet, TimesheetStatus, PayrollExportFormat } from 'src/lib/models/Timesheet';
+
+import useSWR from 'swr';
+import dayjs from 'dayjs';
+import { useState } from 'react';
+
+import Card from '@mui/material/Card';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import Table from '@mui/material/Table';
+import Button from '@mui/material/Button';
+import Switch from '@mui/material/Switch';
+import MenuItem from '@mui/material/MenuItem';
+import TableRow from '@mui/material/TableRow';
+import Container from '@mui/material/Container';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import TableContainer from '@mui/material/TableContainer';
+import TablePagination from '@mui/material/TablePagination';
+import FormControlLabel from '@mui/material/FormControlLabel';
+
+import { PERMISSIONS, usePermissions } from 'src/hooks/use-permissions';
+
+import { fDate } from 'src/utils/format-time';
+import { fCurrency } from 'src/utils/format-number';
+
+import { fetcher, endpoints } from 'src/lib/axios';
+import { TimesheetService } from 'src/lib/services/timesheet-service';
+
+import { toast } from 'src/components/snackbar';
+import { Iconify } from 'src/components/iconify';
+
+import {
+  TimesheetDetailsDialog,
+  TIMESHEET_STATUS_COLORS,
+  TIMESHEET_STATUS_LABELS,
+} from './timesheet-details-dialog';
+
+// ----------------------------------------------------------------------
+
+const personnelName = (timesheet: ITimesheet) => {
+  if (typeof timesheet.personnelId === 'string') return 'Unknown';
+  const user = timesheet.personnelId?.userId;
+  const name = `${user?.firstName || ''} ${user?.lastName || ''}`.trim();
+  return name || timesheet.personnelId?.employeeId || 'Unknown';
+};
+
+// ----------------------------------------------------------------------
+
+export function TimesheetListView() {
+  const { hasPermission } = usePermissions();
+  const canApprove = hasPermission(PERMISSIONS.TIMESHEETS_APPROVE);
+
+  const [status, setStatus] = useState<TimesheetStatus | ''>('submitted');
+  const [from, setFrom] = useState('');
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const [payrollFrom, setPayrollFrom] = useState(dayjs().startOf('month').format('YYYY-MM-DD'));
+  const [payrollTo, setPayrollTo] = useState(dayjs().endOf('month').format('YYYY-MM-DD'));
+  const [overtimeMultiplier, setOvertimeMultiplier] = useState('1.5');
+  const [includeUnapproved, setIncludeUnapproved] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const { data, isLoading, mutate } = useSWR(
+    [
+      endpoints.fsa.timesheets.list,
+      {
+        params: {
+          status: status || undefined,
+          from: from || undefined,
+          limit: rowsPerPage,
+          offset: page * rowsPerPage,
+        },
+      },
+    ],
+    fetcher<any>
+  );
+
+  const timesheets: ITimesheet[] = data?.data || [];
+  const total: number = data?.pagination?.total || 0;
+
+  const handleOpenMyWeek = async () => {
+    try {
+      const response = await TimesheetService.getWeek(dayjs().format('YYYY-MM-DD'));
+      setSelectedId(response.data._id);
+      mutate();
+    } catch (error: any) {
+      console.error('Failed to open timesheet:', error);
+      toast.error(error?.message || 'Failed to open timesheet');
+    }
+  };
+
+  const handleExport = async (format: PayrollExportFormat) => {
+    setExporting(true);
+    try {
+      await TimesheetService.exportPayroll({
+        from: payrollFrom,
+        to: payrollTo,
+        format,
+        overtimeMultiplier: Number(overtimeMultiplier) || 1.5,
+        includeUnapproved,
+      });
+    } catch (error: any) {
+      console.error('Failed to export payroll:', error);
+      toast.error(error?.message || 'Failed to export payroll');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Container maxWidth={false}>
+      <Stack spacing={3} sx={{ p: 3 }}>
+        <Stack direction="row" alignItems="flex-start" spacing={2}>
+          <Stack spacing={1} sx={{ flexGrow: 1 }}>
+            <Typography variant="h4">Timesheets</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Weekly time per technician, built from logged time entries. Submitted weeks are
+              approved or sent back with a comment; approved weeks are locked against edits.
+            </Typography>
+          </Stack>
+          <Button
+            variant="outlined"
+            startIcon={<Iconify icon="solar:calendar-date-bold" />}
+            onClick={handleOpenMyWeek}
+          >
+            My week
+          </Button>
+        </Stack>
+
+        {canApprove && (
+          <Card sx={{ p: 3 }}>
+            <Typography variant="h6" sx={{ mb: 2 }}>
+              Payroll export
+            </Typography>
+            <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems="center">
+              <TextField
+                type="date"
+                label="Weeks from"
+                value={payrollFrom}
+                onChange={(e) => setPayrollFrom(e.target.value)}
+                slotProps={{ inputLabel: { shrink: true } }}
+              />
+              <TextField
+                type="date"
+                label="Weeks to"
+                value={payrollTo}
+                onChange={(e) => setPayrollTo(e.target.value)}
+                slotProps={{ inputLabel: { shrink: true } }}
+              />
+              <TextField
+                type="number"
+                label="Overtime multiplier"
+                value={overtimeMultiplier}
+                onChange={(e) => setOvertimeMultiplier(e.target.value)}
+                slotProps={{ htmlInput: { min: 1, max: 5, step: 0.25 } }}
+                sx={{ width: 180 }}
+              />
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={includeUnapproved}
+                    onChange={(e) => setIncludeUnapproved(e.target.checked)}
+                  />
+                }
+                label="Include submitted"
+              />
+              <Stack direction="row" spacing={1}>
+                <Button
+                  variant="outlined"
+                  disabled={exporting || !payrollFrom || !payrollTo}
+                  onClick={() => handleExport('csv')}
+                >
+                  CSV
+                </Button>
+                <Button
+                  variant="contained"
+                  disabled={exporting || !payrollFrom || !payrollTo}
+                  onClick={() => handleExport('xlsx')}
+                >
+                  Excel
+                </Button>
+              </Stack>
+            </Stack>
+            <Typography variant="caption" color="text.secondary">
+              Hours beyond the tenant working day, and all hours on non-working days, count as
+              overtime.
+            </Typography>
+          </Card>
+        )}
+
+        <Card>
+          <Stack direction="row" spacing={2} sx={{ p: 2.5 }}>
+            <TextField
+              select
+              label="Status"
+              value={status}
+              onChange={(e) => {
+                setStatus(e.target.value as TimesheetStatus | '');
+                setPage(0);
+              }}
+              sx={{ minWidth: 200 }}
+            >
+              <MenuItem value="">All</MenuItem>
+              <MenuItem value="draft">Draft</MenuItem>
+              <MenuItem value="submitted">Submitted</MenuItem>
+              <MenuItem value="approved">Approved</MenuItem>
+              <MenuItem value="rejected">Rejected</MenuItem>
+            </TextField>
+            <TextField
+              type="date"
+              label="Weeks from"
+              value={from}
+              onChange={(e) => {
+                setFrom(e.target.value);
+                setPage(0);
+              }}
+              slotProps={{ inputLabel: { shrink: true } }}
+            />
+          </Stack>
+
+          <TableContainer>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Technician</TableCell>
+                  <TableCell>Week</TableCell>
+                  <TableCell align="right">Regular (h)</TableCell>
+                  <TableCell align="right">Overtime (h)</TableCell>
+                  <TableCell align="right">Total (h)</TableCell>
+                  <TableCell align="right">Cost</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {!isLoading && timesheets.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={8} align="center" sx={{ py: 6 }}>
+                      <Typography variant="body2" color="text.secondary">
+                        No timesheets
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+                {timesheets.map((timesheet) => (
+                  <TableRow key={timesheet._id} hover>
+                    <TableCell>
+                      <Typography variant="subtitle2">{personnelName(timesheet)}</Typography>
+                    </TableCell>
+                    <TableCell>
+                      {fDate(timesheet.weekStart)} – {fDate(timesheet.weekEnd)}
+                    </TableCell>
+                    <TableCell align="right">{timesheet.totals.regularHours.toFixed(2)}</TableCell>
+                    <TableCell
+                      align="right"
+                      sx={{
+                        color: timesheet.totals.overtimeHours > 0 ? 'warning.main' : undefined,
+                      }}
+                    >
+                      {timesheet.totals.overtimeHours.toFixed(2)}
+                    </TableCell>
+                    <TableCell align="right">{timesheet.totals.hours.toFixed(2)}</TableCell>
+                    <TableCell align="right">{fCurrency(timesheet.totals.cost)}</TableCell>
+                    <TableCell>
+                      <Chip
+                        size="small"
+                        label={TIMESHEET_STATUS_LABELS[timesheet.status]}
+                        color={TIMESHEET_STATUS_COLORS[timesheet.status]}
+                      />
+                    </TableCell>
+                    <TableCell align="right">
+                      <Button
+                        size="small"
+                        startIcon={<Iconify icon="solar:pen-bold" />}
+                        onClick={() => setSelectedId(timesheet._id)}
+                      >
+                        {canApprove && timesheet.status === 'submitted' ? 'Review' : 'Open'}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          <TablePagination
+            component="div"
+            page={page}
+            count={total}
+            rowsPerPage={rowsPerPage}
+            onPageChange={(_, newPage) => setPage(newPage)}
+            rowsPerPageOptions={[10, 25, 50, 100]}
+            onRowsPerPageChange={(e) => {
+              setRowsPerPage(parseInt(e.target.value, 10));
+              setPage(0);
+            }}
+          />
+        </Card>
+      </Stack>
+
+      <TimesheetDetailsDialog
+        open={!!selectedId}
+        timesheetId={selectedId}
+        canApprove={canApprove}
+        onClose={() => setSelectedId(null)}
+        onChanged={() => mutate()}
+      />
+    </Container>
+  );
+}
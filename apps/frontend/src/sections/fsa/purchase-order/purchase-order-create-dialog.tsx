@@ -0,0 +1,334 @@
+'use client';
+
+import type { StockLocation } from 'src/lib/models/Material';
+import type {
+  ISupplier,
+  PurchaseOrderLineInput,
+  PurchaseOrderSuggestion,
+} from 'src/lib/models/PurchaseOrder';
+
+import useSWR from 'swr';
+import { useMemo, useState, useEffect } from 'react';
+
+import Box from '@mui/material/Box';
+import Stack from '@mui/material/Stack';
+import Dialog from '@mui/material/Dialog';
+import Button from '@mui/material/Button';
+import Divider from '@mui/material/Divider';
+import MenuItem from '@mui/material/MenuItem';
+import TextField from '@mui/material/TextField';
+import IconButton from '@mui/material/IconButton';
+import Typography from '@mui/material/Typography';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+
+import { fCurrency } from 'src/utils/format-number';
+
+import { fetcher, endpoints } from 'src/lib/axios';
+import { PurchaseOrderService } from 'src/lib/services/purchase-order-service';
+
+import { toast } from 'src/components/snackbar';
+import { Iconify } from 'src/components/iconify';
+
+// ----------------------------------------------------------------------
+
+type LineRow = Partial<PurchaseOrderLineInput> & { key: number; quantity: number };
+
+type Props = {
+  open: boolean;
+  onCloseAction: () => void;
+  onCreatedAction: () => void;
+};
+
+const emptyLine = (key: number): LineRow => ({ key, quantity: 1 });
+
+export function PurchaseOrderCreateDialog({ open, onCloseAction, onCreatedAction }: Props) {
+  const [supplierId, setSupplierId] = useState('');
+  const [locationId, setLocationId] = useState('');
+  const [expectedDate, setExpectedDate] = useState('');
+  const [taxRate, setTaxRate] = useState<number>(0);
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<LineRow[]>([emptyLine(0)]);
+  const [loadingSuggestions, setLoadingSuggestions] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const { data: suppliersData } = useSWR(
+    open ? [endpoints.fsa.suppliers.list, { params: { isActive: 'true', limit: 100 } }] : null,
+    fetcher<any>
+  );
+  const { data: materialsData } = useSWR(
+    open ? [endpoints.fsa.materials.list, { params: { limit: 100, status: 'active' } }] : null,
+    fetcher<any>
+  );
+  const { data: locationsData } = useSWR(
+    open ? endpoints.fsa.stockLocations.list : null,
+    fetcher<any>
+  );
+
+  const suppliers: ISupplier[] = useMemo(() => suppliersData?.data || [], [suppliersData]);
+  const materials: any[] = useMemo(() => materialsData?.data || [], [materialsData]);
+  const locations: StockLocation[] = useMemo(
+    () => (locationsData?.data || []).filter((l: StockLocation) => l.type === 'warehouse'),
+    [locationsData]
+  );
+
+  useEffect(() => {
+    if (open) {
+      setSupplierId('');
+      setLocationId('');
+      setExpectedDate('');
+      setTaxRate(0);
+      setNotes('');
+      setLines([emptyLine(0)]);
+    }
+  }, [open]);
+
+  const catalogCost = (line: LineRow): number | undefined =>
+    line.materialId ? materials.find((m) => m._id === line.materialId)?.unitCost : undefined;
+
+  const lineTotal = (line: LineRow) =>
+    (line.quantity || 0) * (line.unitCost ?? catalogCost(line) ?? 0);
+
+  const subtotal = lines.reduce((sum, line) => sum + lineTotal(line), 0);
+  const total = subtotal + (subtotal * (taxRate || 0)) / 100;
+
+  const nextKey = (rows: LineRow[]) => Math.max(-1, ...rows.map((l) => l.key)) + 1;
+
+  const updateLine = (key: number, patch: Partial<LineRow>) => {
+    setLines((prev) => prev.map((line) => (line.key === key ? { ...line, ...patch } : line)));
+  };
+
+  const handleAddLine = () => {
+    setLines((prev) => [...prev, emptyLine(nextKey(prev))]);
+  };
+
+  const handleRemoveLine = (key: number) => {
+    setLines((prev) => prev.filter((line) => line.key !== key));
+  };
+
+  // Pull low-stock materials (for the selected supplier, if any) into the order
+  const handleAddSuggestions = async () => {
+    try {
+      setLoadingSuggestions(true);
+      const response = await PurchaseOrderService.getSuggestions(supplierId);
+      const suggestions: PurchaseOrderSuggestion[] = response?.data || [];
+      if (suggestions.length === 0) {
+        toast.info('No low-stock materials to reorder');
+        return;
+      }
+
+      setLines((prev) => {
+        const rows = prev.filter((line) => line.materialId).map((line) => ({ ...line }));
+        let key = nextKey(prev);
+        suggestions.forEach((suggestion) => {
+          const existing = rows.find((line) => line.materialId === suggestion.material._id);
+          if (existing) {
+            existing.quantity = Math.max(existing.quantity, suggestion.suggestedQuantity);
+          } else {
+            rows.push({
+              key: key++,
+              materialId: suggestion.material._id,
+              quantity: suggestion.suggestedQuantity,
+            });
+          }
+        });
+        return rows;
+      });
+      toast.success(`Added ${suggestions.length} low-stock material(s)`);
+    } catch (error: any) {
+      console.error('Failed to load reorder suggestions:', error);
+      toast.error(error?.message || 'Failed to load reorder suggestions');
+    } finally {
+      setLoadingSuggestions(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!supplierId) {
+      toast.error('Supplier is required');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await PurchaseOrderService.createPurchaseOrder({
+        supplierId,
+        locationId: locationId || undefined,
+        expectedDate: expectedDate || undefined,
+        taxRate,
+        notes: notes || undefined,
+        lines: lines
+          .filter((line) => line.materialId && line.quantity > 0)
+          .map((line) => ({
+            materialId: line.materialId!,
+            quantity: line.quantity,
+            unitCost: line.unitCost,
+          })),
+      });
+      if (response.success) {
+        toast.success('Purchase order created successfully');
+        onCreatedAction();
+        onCloseAction();
+      }
+    } catch (error: any) {
+      console.error('Failed to create purchase order:', error);
+      toast.error(error?.message || 'Failed to create purchase order');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onCloseAction} maxWidth="lg" fullWidth>
+      <DialogTitle>New Purchase Order</DialogTitle>
+
+      <DialogContent>
+        <Stack spacing={2.5} sx={{ pt: 1 }}>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <TextField
+              select
+              fullWidth
+              label="Supplier"
+              value={supplierId}
+              onChange={(e) => setSupplierId(e.target.value)}
+            >
+              {suppliers.map((supplier) => (
+                <MenuItem key={supplier._id} value={supplier._id}>
+                  {supplier.name} ({supplier.leadTimeDays} days)
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              fullWidth
+              label="Deliver to"
+              value={locationId}
+              onChange={(e) => setLocationId(e.target.value)}
+            >
+              <MenuItem value="">Default warehouse</MenuItem>
+              {locations.map((location) => (
+                <MenuItem key={location._id} value={location._id}>
+                  {location.name}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              type="date"
+              label="Expected"
+              value={expectedDate}
+              onChange={(e) => setExpectedDate(e.target.value)}
+              slotProps={{ inputLabel: { shrink: true } }}
+              sx={{ minWidth: 180 }}
+            />
+            <TextField
+              type="number"
+              label="VAT %"
+              value={taxRate}
+              onChange={(e) => setTaxRate(Number(e.target.value))}
+              sx={{ minWidth: 120 }}
+            />
+          </Stack>
+
+          <Divider />
+
+          <Stack direction="row" alignItems="center" justifyContent="space-between">
+            <Typography variant="subtitle1">Lines</Typography>
+            <Stack direction="row" spacing={1}>
+              <Button
+                size="small"
+                startIcon={<Iconify icon="solar:danger-triangle-bold" />}
+                onClick={handleAddSuggestions}
+                disabled={loadingSuggestions}
+              >
+                Add low-stock items
+              </Button>
+              <Button
+                size="small"
+                startIcon={<Iconify icon="mingcute:add-line" />}
+                onClick={handleAddLine}
+              >
+                Add line
+              </Button>
+            </Stack>
+          </Stack>
+
+          {lines.map((line) => {
+            const material = materials.find((m) => m._id === line.materialId);
+            return (
+              <Stack key={line.key} direction={{ xs: 'column', md: 'row' }} spacing={1.5}>
+                <TextField
+                  select
+                  size="small"
+                  fullWidth
+                  label="Material"
+                  value={line.materialId || ''}
+                  onChange={(e) =>
+                    updateLine(line.key, { materialId: e.target.value, unitCost: undefined })
+                  }
+                >
+                  {materials.map((m) => (
+                    <MenuItem key={m._id} value={m._id}>
+                      {m.sku ? `${m.name} (${m.sku})` : m.name}
+                    </MenuItem>
+                  ))}
+                </TextField>
+                <TextField
+                  size="small"
+                  type="number"
+                  label={material?.unit ? `Qty (${material.unit})` : 'Qty'}
+                  value={line.quantity}
+                  onChange={(e) => updateLine(line.key, { quantity: Number(e.target.value) })}
+                  sx={{ width: 130 }}
+                />
+                <TextField
+                  size="small"
+                  type="number"
+                  label="Unit cost"
+                  value={line.unitCost ?? ''}
+                  placeholder={catalogCost(line)?.toString()}
+                  onChange={(e) =>
+                    updateLine(line.key, {
+                      unitCost: e.target.value === '' ? undefined : Number(e.target.value),
+                    })
+                  }
+                  slotProps={{ inputLabel: { shrink: true } }}
+                  sx={{ width: 130 }}
+                />
+                <Box sx={{ minWidth: 100, display: 'flex', alignItems: 'center' }}>
+                  <Typography variant="body2">{fCurrency(lineTotal(line))}</Typography>
+                </Box>
+                <IconButton size="small" color="error" onClick={() => handleRemoveLine(line.key)}>
+                  <Iconify icon="solar:trash-bin-trash-bold" />
+                </IconButton>
+              </Stack>
+            );
+          })}
+
+          <Stack alignItems="flex-end" spacing={0.5}>
+            <Typography variant="body2">Subtotal: {fCurrency(subtotal)}</Typography>
+            <Typography variant="subtitle1">Total: {fCurrency(total)}</Typography>
+          </Stack>
+
+          <TextField
+            fullWidth
+            multiline
+            minRows={2}
+            label="Notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </Stack>
+      </DialogContent>
+
+      <DialogActions>
+        <Button variant="outlined" onClick={onCloseAction}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleSubmit} disabled={submitting}>
+          Create Purchase Order
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,210 @@
+'use client';
+
+import type { StockLocation } from 'src/lib/models/Material';
+import type { IPurchaseOrder } from 'src/lib/models/PurchaseOrder';
+
+import useSWR from 'swr';
+import { useMemo, useState, useEffect } from 'react';
+
+import Stack from '@mui/material/Stack';
+import Table from '@mui/material/Table';
+import Dialog from '@mui/material/Dialog';
+import Button from '@mui/material/Button';
+import MenuItem from '@mui/material/MenuItem';
+import TableRow from '@mui/material/TableRow';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+
+import { fetcher, endpoints } from 'src/lib/axios';
+import { PurchaseOrderService } from 'src/lib/services/purchase-order-service';
+
+import { toast } from 'src/components/snackbar';
+
+// ----------------------------------------------------------------------
+
+type ReceiptRow = { quantity: number; unitCost?: number };
+
+type Props = {
+  order: IPurchaseOrder | null;
+  onCloseAction: () => void;
+  onReceivedAction: () => void;
+};
+
+export function PurchaseOrderReceiveDialog({ order, onCloseAction, onReceivedAction }: Props) {
+  const open = !!order;
+
+  const [rows, setRows] = useState<Record<string, ReceiptRow>>({});
+  const [locationId, setLocationId] = useState('');
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const { data: locationsData } = useSWR(
+    open ? endpoints.fsa.stockLocations.list : null,
+    fetcher<any>
+  );
+  const locations: StockLocation[] = useMemo(() => locationsData?.data || [], [locationsData]);
+
+  // Default every line to whatever is still outstanding
+  useEffect(() => {
+    if (order) {
+      setRows(
+        Object.fromEntries(
+          order.lines.map((line) => [
+            line._id,
+            { quantity: Math.max(0, line.quantity - line.receivedQuantity) },
+          ])
+        )
+      );
+      setLocationId(
+        typeof order.locationId === 'object' ? order.locationId._id : order.locationId || ''
+      );
+      setNotes('');
+    }
+  }, [order]);
+
+  const updateRow = (lineId: string, patch: Partial<ReceiptRow>) => {
+    setRows((prev) => ({ ...prev, [lineId]: { ...prev[lineId], ...patch } }));
+  };
+
+  const handleSubmit = async () => {
+    if (!order) return;
+
+    const lines = Object.entries(rows)
+      .filter(([, row]) => row.quantity > 0)
+      .map(([lineId, row]) => ({ lineId, quantity: row.quantity, unitCost: row.unitCost }));
+    if (lines.length === 0) {
+      toast.error('Enter a quantity for at least one line');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await PurchaseOrderService.receivePurchaseOrder(order._id, {
+        lines,
+        locationId: locationId || undefined,
+        notes: notes || undefined,
+      });
+      if (response.success) {
+        toast.success(response.message || 'Delivery received into stock');
+        onReceivedAction();
+        onCloseAction();
+      }
+    } catch (error: any) {
+      console.error('Failed to receive purchase order:', error);
+      toast.error(error?.message || 'Failed to receive purchase order');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onCloseAction} maxWidth="md" fullWidth>
+      <DialogTitle>Receive {order?.poNumber}</DialogTitle>
+
+      <DialogContent>
+        <Stack spacing={2.5} sx={{ pt: 1 }}>
+          <TextField
+            select
+            fullWidth
+            label="Receive into"
+            value={locationId}
+            onChange={(e) => setLocationId(e.target.value)}
+          >
+            <MenuItem value="">Default warehouse</MenuItem>
+            {locations.map((location) => (
+              <MenuItem key={location._id} value={location._id}>
+                {location.name}
+              </MenuItem>
+            ))}
+          </TextField>
+
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Material</TableCell>
+                <TableCell align="right">Ordered</TableCell>
+                <TableCell align="right">Received</TableCell>
+                <TableCell align="right">Receiving now</TableCell>
+                <TableCell align="right">Unit cost</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {order?.lines.map((line) => {
+                const outstanding = Math.max(0, line.quantity - line.receivedQuantity);
+                return (
+                  <TableRow key={line._id}>
+                    <TableCell>
+                      <Typography variant="subtitle2">{line.description}</Typography>
+                      {line.sku && (
+                        <Typography variant="caption" color="text.secondary">
+                          {line.sku}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell align="right">
+                      {line.quantity} {line.unit}
+                    </TableCell>
+                    <TableCell align="right">{line.receivedQuantity}</TableCell>
+                    <TableCell align="right">
+                      <TextField
+                        size="small"
+                        type="number"
+                        value={rows[line._id]?.quantity ?? 0}
+                        disabled={outstanding === 0}
+                        onChange={(e) =>
+                          updateRow(line._id, {
+                            quantity: Math.min(outstanding, Math.max(0, Number(e.target.value))),
+                          })
+                        }
+                        sx={{ width: 110 }}
+                      />
+                    </TableCell>
+                    <TableCell align="right">
+                      <TextField
+                        size="small"
+                        type="number"
+                        value={rows[line._id]?.unitCost ?? ''}
+                        placeholder={line.unitCost.toString()}
+                        disabled={outstanding === 0}
+                        onChange={(e) =>
+                          updateRow(line._id, {
+                            unitCost: e.target.value === '' ? undefined : Number(e.target.value),
+                          })
+                        }
+                        sx={{ width: 110 }}
+                      />
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+
+          <TextField
+            fullWidth
+            multiline
+            minRows={2}
+            label="Delivery notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </Stack>
+      </DialogContent>
+
+      <DialogActions>
+        <Button variant="outlined" onClick={onCloseAction}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleSubmit} disabled={submitting}>
+          Receive into stock
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,354 @@
+'use client';
+
+import type {
+  CostingMethod,
+  IPurchaseOrder,
+  PurchaseOrderStatus,
+} from 'src/lib/models/PurchaseOrder';
+
+import useSWR from 'swr';
+import { useState } from 'react';
+import { useBoolean } from 'minimal-shared/hooks';
+
+import Card from '@mui/material/Card';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import Table from '@mui/material/Table';
+import Button from '@mui/material/Button';
+import MenuItem from '@mui/material/MenuItem';
+import TableRow from '@mui/material/TableRow';
+import Container from '@mui/material/Container';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TextField from '@mui/material/TextField';
+import IconButton from '@mui/material/IconButton';
+import Typography from '@mui/material/Typography';
+import TableContainer from '@mui/material/TableContainer';
+
+import { paths } from 'src/routes/paths';
+import { RouterLink } from 'src/routes/components';
+
+import { fDate } from 'src/utils/format-time';
+import { fCurrency } from 'src/utils/format-number';
+
+import { fetcher, endpoints } from 'src/lib/axios';
+import { PurchaseOrderService } from 'src/lib/services/purchase-order-service';
+
+import { toast } from 'src/components/snackbar';
+import { Iconify } from 'src/components/iconify';
+import { ConfirmDialog } from 'src/components/custom-dialog';
+
+import { PurchaseOrderCreateDialog } from '../purchase-order-create-dialog';
+import { PurchaseOrderReceiveDialog } from '../purchase-order-receive-dialog';
+
+// ----------------------------------------------------------------------
+
+const STATUS_COLORS: Record<
+  PurchaseOrderStatus,
+  'default' | 'info' | 'warning' | 'success' | 'error'
+> = {
+  draft: 'default',
+  sent: 'info',
+  partially_received: 'warning',
+  received: 'success',
+  cancelled: 'error',
+};
+
+const STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Partially received',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+export function PurchaseOrderListView() {
+  const openCreate = useBoolean();
+
+  const [status, setStatus] = useState<PurchaseOrderStatus | ''>('');
+  const [search, setSearch] = useState('');
+  const [receiveTarget, setReceiveTarget] = useState<IPurchaseOrder | null>(null);
+  const [cancelTarget, setCancelTarget] = useState<IPurchaseOrder | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<IPurchaseOrder | null>(null);
+
+  const { data, isLoading, mutate } = useSWR(
+    [
+      endpoints.fsa.purchaseOrders.list,
+      { params: { status: status || undefined, q: search || undefined } },
+    ],
+    fetcher<any>
+  );
+  const { data: settingsData, mutate: mutateSettings } = useSWR(
+    endpoints.fsa.purchaseOrders.settings,
+    fetcher<any>
+  );
+
+  const orders: IPurchaseOrder[] = data?.data || [];
+  const costingMethod: CostingMethod = settingsData?.data?.costingMethod || 'weighted_average';
+
+  const run = async (action: () => Promise<any>, success: string, failure: string) => {
+    try {
+      const response = await action();
+      if (response?.success !== false) {
+        toast.success(success);
+      }
+      mutate();
+      return response;
+    } catch (error: any) {
+      console.error(failure, error);
+      toast.error(error?.message || failure);
+      return null;
+    }
+  };
+
+  const handleCostingMethod = async (value: CostingMethod) => {
+    try {
+      await PurchaseOrderService.updateCostingMethod(value);
+      toast.success('Costing method updated');
+      mutateSettings();
+    } catch (error: any) {
+      console.error('Failed to update costing method:', error);
+      toast.error(error?.message || 'Failed to update costing method');
+    }
+  };
+
+  const supplierName = (order: IPurchaseOrder) =>
+    typeof order.supplierId === 'object' ? order.supplierId?.name : '';
+
+  const receivedSummary = (order: IPurchaseOrder) => {
+    const ordered = order.lines.reduce((sum, line) => sum + line.quantity, 0);
+    const received = order.lines.reduce((sum, line) => sum + line.receivedQuantity, 0);
+    return `${received} / ${ordered}`;
+  };
+
+  return (
+    <Container maxWidth={false}>
+      <Stack spacing={3} sx={{ p: 3 }}>
+        <Stack direction="row" alignItems="center" justifyContent="space-between">
+          <Stack spacing={1}>
+            <Typography variant="h4">Purchase Orders</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Reorder low-stock materials from your suppliers and receive deliveries straight into
+              stock.
+            </Typography>
+          </Stack>
+          <Stack direction="row" spacing={1}>
+            <Button
+              component={RouterLink}
+              href={paths.dashboard.fsa.suppliers.root}
+              variant="outlined"
+              startIcon={<Iconify icon="carbon:delivery" />}
+            >
+              Suppliers
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={<Iconify icon="mingcute:add-line" />}
+              onClick={openCreate.onTrue}
+            >
+              New Purchase Order
+            </Button>
+          </Stack>
+        </Stack>
+
+        <Card>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} sx={{ p: 2.5 }}>
+            <TextField
+              fullWidth
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by number or material..."
+            />
+            <TextField
+              select
+              label="Status"
+              value={status}
+              onChange={(e) => setStatus(e.target.value as PurchaseOrderStatus | '')}
+              sx={{ minWidth: 200 }}
+            >
+              <MenuItem value="">All</MenuItem>
+              {(Object.keys(STATUS_LABELS) as PurchaseOrderStatus[]).map((value) => (
+                <MenuItem key={value} value={value}>
+                  {STATUS_LABELS[value]}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              label="Costing method"
+              value={costingMethod}
+              onChange={(e) => handleCostingMethod(e.target.value as CostingMethod)}
+              helperText="How receipts update material unit cost"
+              sx={{ minWidth: 220 }}
+            >
+              <MenuItem value="weighted_average">Weighted average</MenuItem>
+              <MenuItem value="last_cost">Last cost</MenuItem>
+            </TextField>
+          </Stack>
+
+          <TableContainer>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Number</TableCell>
+                  <TableCell>Supplier</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell>Expected</TableCell>
+                  <TableCell align="right">Received</TableCell>
+                  <TableCell align="right">Total</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {!isLoading && orders.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={7} align="center" sx={{ py: 6 }}>
+                      <Typography variant="body2" color="text.secondary">
+                        No purchase orders yet
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+                {orders.map((order) => (
+                  <TableRow key={order._id} hover>
+                    <TableCell>
+                      <Typography variant="subtitle2">{order.poNumber}</Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {order.lines.length} line(s)
+                      </Typography>
+                    </TableCell>
+                    <TableCell>{supplierName(order)}</TableCell>
+                    <TableCell>
+                      <Chip
+                        size="small"
+                        label={STATUS_LABELS[order.status]}
+                        color={STATUS_COLORS[order.status]}
+                      />
+                    </TableCell>
+                    <TableCell>{order.expectedDate ? fDate(order.expectedDate) : '-'}</TableCell>
+                    <TableCell align="right">{receivedSummary(order)}</TableCell>
+                    <TableCell align="right">
+                      {fCurrency(order.total, { currency: order.currency })}
+                    </TableCell>
+                    <TableCell align="right">
+                      <Stack direction="row" spacing={0.5} justifyContent="flex-end">
+                        {order.status === 'draft' && (
+                          <IconButton
+                            size="small"
+                            title="Mark as sent"
+                            onClick={() =>
+                              run(
+                                () => PurchaseOrderService.sendPurchaseOrder(order._id),
+                                'Purchase order marked as sent',
+                                'Failed to send purchase order'
+                              )
+                            }
+                          >
+                            <Iconify icon="custom:send-fill" />
+                          </IconButton>
+                        )}
+                        {(order.status === 'sent' || order.status === 'partially_received') && (
+                          <IconButton
+                            size="small"
+                            color="success"
+                            title="Receive delivery"
+                            onClick={() => setReceiveTarget(order)}
+                          >
+                            <Iconify icon="solar:box-bold" />
+                          </IconButton>
+                        )}
+                        {['draft', 'sent', 'partially_received'].includes(order.status) && (
+                          <IconButton
+                            size="small"
+                            color="warning"
+                            title="Cancel"
+                            onClick={() => setCancelTarget(order)}
+                          >
+                            <Iconify icon="solar:close-circle-bold" />
+                          </IconButton>
+                        )}
+                        {order.status === 'draft' && (
+                          <IconButton
+                            size="small"
+                            color="error"
+                            title="Delete"
+                            onClick={() => setDeleteTarget(order)}
+                          >
+                            <Iconify icon="solar:trash-bin-trash-bold" />
+                          </IconButton>
+                        )}
+                      </Stack>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Card>
+      </Stack>
+
+      <PurchaseOrderCreateDialog
+        open={openCreate.value}
+        onCloseAction={openCreate.onFalse}
+        onCreatedAction={() => mutate()}
+      />
+
+      <PurchaseOrderReceiveDialog
+        order={receiveTarget}
+        onCloseAction={() => setReceiveTarget(null)}
+        onReceivedAction={() => mutate()}
+      />
+
+      <ConfirmDialog
+        open={!!cancelTarget}
+        onClose={() => setCancelTarget(null)}
+        title="Cancel Purchase Order"
+        content={`Cancel ${cancelTarget?.poNumber}? Quantities already received stay in stock.`}
+        action={
+          <Button
+            variant="contained"
+            color="warning"
+            onClick={async () => {
+              if (cancelTarget) {
+                await run(
+                  () => PurchaseOrderService.cancelPurchaseOrder(cancelTarget._id),
+                  'Purchase order cancelled',
+                  'Failed to cancel purchase order'
+                );
+              }
+              setCancelTarget(null);
+            }}
+          >
+            Cancel order
+          </Button>
+        }
+      />
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        title="Delete Purchase Order"
+        content={`Are you sure you want to delete ${deleteTarget?.poNumber}?`}
+        action={
+          <Button
+            variant="contained"
+            color="error"
+            onClick={async () => {
+              if (deleteTarget) {
+                await run(
+                  () => PurchaseOrderService.deletePurchaseOrder(deleteTarget._id),
+                  'Purchase order deleted successfully',
+                  'Failed to delete purchase order'
+                );
+              }
+              setDeleteTarget(null);
+            }}
+          >
+            Delete
+          </Button>
+        }
+      />
+    </Container>
+  );
+}
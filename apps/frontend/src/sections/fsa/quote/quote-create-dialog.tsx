@@ -0,0 +1,345 @@
+'use client';
+
+import type { QuoteLineItemType, QuoteLineItemInput } from 'src/lib/models/Quote';
+
+import useSWR from 'swr';
+import { useMemo, useState, useEffect } from 'react';
+
+import Box from '@mui/material/Box';
+import Stack from '@mui/material/Stack';
+import Dialog from '@mui/material/Dialog';
+import Button from '@mui/material/Button';
+import Divider from '@mui/material/Divider';
+import MenuItem from '@mui/material/MenuItem';
+import TextField from '@mui/material/TextField';
+import IconButton from '@mui/material/IconButton';
+import Typography from '@mui/material/Typography';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+
+import { fCurrency } from 'src/utils/format-number';
+
+import { fetcher, endpoints } from 'src/lib/axios';
+import { QuoteService } from 'src/lib/services/quote-service';
+
+import { toast } from 'src/components/snackbar';
+import { Iconify } from 'src/components/iconify';
+
+// ----------------------------------------------------------------------
+
+type LineItemRow = QuoteLineItemInput & { key: number };
+
+type Props = {
+  open: boolean;
+  onCloseAction: () => void;
+  onCreatedAction: () => void;
+};
+
+const emptyLine = (key: number): LineItemRow => ({ key, type: 'material', quantity: 1 });
+
+export function QuoteCreateDialog({ open, onCloseAction, onCreatedAction }: Props) {
+  const [clientId, setClientId] = useState('');
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [address, setAddress] = useState('');
+  const [taxRate, setTaxRate] = useState<number>(0);
+  const [validUntil, setValidUntil] = useState('');
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<LineItemRow[]>([emptyLine(0)]);
+  const [submitting, setSubmitting] = useState(false);
+
+  const { data: clientsData } = useSWR(open ? endpoints.fsa.clients.list : null, fetcher<any>);
+  const { data: materialsData } = useSWR(
+    open ? [endpoints.fsa.materials.list, { params: { limit: 100, status: 'active' } }] : null,
+    fetcher<any>
+  );
+  const { data: personnelData } = useSWR(open ? endpoints.fsa.personnel.list : null, fetcher<any>);
+
+  const clients: any[] = useMemo(() => clientsData?.data?.clients || [], [clientsData]);
+  const materials: any[] = useMemo(() => materialsData?.data || [], [materialsData]);
+  const personnel: any[] = useMemo(() => personnelData?.data || [], [personnelData]);
+
+  useEffect(() => {
+    if (open) {
+      setClientId('');
+      setTitle('');
+      setDescription('');
+      setAddress('');
+      setTaxRate(0);
+      setValidUntil('');
+      setNotes('');
+      setLines([emptyLine(0)]);
+    }
+  }, [open]);
+
+  // Pre-fill the site address from the selected client
+  const handleClientChange = (value: string) => {
+    setClientId(value);
+    const client = clients.find((c) => c._id === value);
+    if (client && !address) {
+      const a = client.address;
+      setAddress(
+        typeof a === 'string'
+          ? a
+          : [a?.street, a?.city, a?.state, a?.zipCode, a?.country].filter(Boolean).join(', ')
+      );
+    }
+  };
+
+  const catalogPrice = (line: LineItemRow): number | undefined => {
+    if (line.type === 'material' && line.materialId) {
+      return materials.find((m) => m._id === line.materialId)?.unitCost;
+    }
+    if (line.type === 'labor' && line.personnelId) {
+      return personnel.find((p) => p._id === line.personnelId)?.hourlyRate;
+    }
+    return undefined;
+  };
+
+  const lineTotal = (line: LineItemRow) =>
+    (line.quantity || 0) * (line.unitPrice ?? catalogPrice(line) ?? 0);
+
+  const subtotal = lines.reduce((sum, line) => sum + lineTotal(line), 0);
+  const total = subtotal + (subtotal * (taxRate || 0)) / 100;
+
+  const updateLine = (key: number, patch: Partial<LineItemRow>) => {
+    setLines((prev) => prev.map((line) => (line.key === key ? { ...line, ...patch } : line)));
+  };
+
+  const handleAddLine = () => {
+    setLines((prev) => [...prev, emptyLine(Math.max(-1, ...prev.map((l) => l.key)) + 1)]);
+  };
+
+  const handleRemoveLine = (key: number) => {
+    setLines((prev) => prev.filter((line) => line.key !== key));
+  };
+
+  const handleSubmit = async () => {
+    if (!clientId || !title.trim()) {
+      toast.error('Client and title are required');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await QuoteService.createQuote({
+        clientId,
+        title: title.trim(),
+        description: description || undefined,
+        location: address ? { address } : undefined,
+        taxRate,
+        validUntil: validUntil || undefined,
+        notes: notes || undefined,
+        lineItems: lines
+          .filter((line) => line.materialId || line.personnelId || line.description)
+          .map(({ key, ...line }) => line),
+      });
+      if (response.success) {
+        toast.success('Quote created successfully');
+        onCreatedAction();
+        onCloseAction();
+      }
+    } catch (error: any) {
+      console.error('Failed to create quote:', error);
+      toast.error(error?.message || 'Failed to create quote');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onCloseAction} maxWidth="lg" fullWidth>
+      <DialogTitle>New Quote</DialogTitle>
+
+      <DialogContent>
+        <Stack spacing={2.5} sx={{ pt: 1 }}>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <TextField
+              select
+              fullWidth
+              label="Client"
+              value={clientId}
+              onChange={(e) => handleClientChange(e.target.value)}
+            >
+              {clients.map((client) => (
+                <MenuItem key={client._id} value={client._id}>
+                  {client.company ? `${client.name} (${client.company})` : client.name}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              fullWidth
+              label="Title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </Stack>
+
+          <TextField
+            fullWidth
+            multiline
+            minRows={2}
+            label="Description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <TextField
+              fullWidth
+              label="Site address"
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+            />
+            <TextField
+              type="date"
+              label="Valid until"
+              value={validUntil}
+              onChange={(e) => setValidUntil(e.target.value)}
+              slotProps={{ inputLabel: { shrink: true } }}
+              sx={{ minWidth: 180 }}
+            />
+            <TextField
+              type="number"
+              label="VAT %"
+              value={taxRate}
+              onChange={(e) => setTaxRate(Number(e.target.value))}
+              sx={{ minWidth: 120 }}
+            />
+          </Stack>
+
+          <Divider />
+
+          <Stack direction="row" alignItems="center" justifyContent="space-between">
+            <Typography variant="subtitle1">Line items</Typography>
+            <Button
+              size="small"
+              startIcon={<Iconify icon="mingcute:add-line" />}
+              onClick={handleAddLine}
+            >
+              Add line
+            </Button>
+          </Stack>
+
+          {lines.map((line) => (
+            <Stack key={line.key} direction={{ xs: 'column', md: 'row' }} spacing={1.5}>
+              <TextField
+                select
+                size="small"
+                label="Type"
+                value={line.type}
+                onChange={(e) =>
+                  updateLine(line.key, {
+                    type: e.target.value as QuoteLineItemType,
+                    materialId: undefined,
+                    personnelId: undefined,
+                    unitPrice: undefined,
+                  })
+                }
+                sx={{ minWidth: 120 }}
+              >
+                <MenuItem value="material">Material</MenuItem>
+                <MenuItem value="labor">Labor</MenuItem>
+                <MenuItem value="custom">Custom</MenuItem>
+              </TextField>
+
+              {line.type === 'material' && (
+                <TextField
+                  select
+                  size="small"
+                  label="Material"
+                  value={line.materialId || ''}
+                  onChange={(e) => updateLine(line.key, { materialId: e.target.value })}
+                  sx={{ minWidth: 220 }}
+                >
+                  {materials.map((m) => (
+                    <MenuItem key={m._id} value={m._id}>
+                      {m.name} ({fCurrency(m.unitCost)}/{m.unit})
+                    </MenuItem>
+                  ))}
+                </TextField>
+              )}
+
+              {line.type === 'labor' && (
+                <TextField
+                  select
+                  size="small"
+                  label="Technician"
+                  value={line.personnelId || ''}
+                  onChange={(e) => updateLine(line.key, { personnelId: e.target.value })}
+                  sx={{ minWidth: 220 }}
+                >
+                  {personnel.map((p) => (
+                    <MenuItem key={p._id} value={p._id}>
+                      {p.user?.name || p.employeeId} ({fCurrency(p.hourlyRate || 0)}/h)
+                    </MenuItem>
+                  ))}
+                </TextField>
+              )}
+
+              <TextField
+                size="small"
+                fullWidth
+                label="Description"
+                value={line.description || ''}
+                onChange={(e) => updateLine(line.key, { description: e.target.value })}
+              />
+              <TextField
+                size="small"
+                type="number"
+                label={line.type === 'labor' ? 'Hours' : 'Qty'}
+                value={line.quantity}
+                onChange={(e) => updateLine(line.key, { quantity: Number(e.target.value) })}
+                sx={{ width: 100 }}
+              />
+              <TextField
+                size="small"
+                type="number"
+                label="Unit price"
+                value={line.unitPrice ?? ''}
+                placeholder={catalogPrice(line)?.toString()}
+                onChange={(e) =>
+                  updateLine(line.key, {
+                    unitPrice: e.target.value === '' ? undefined : Number(e.target.value),
+                  })
+                }
+                slotProps={{ inputLabel: { shrink: true } }}
+                sx={{ width: 130 }}
+              />
+              <Box sx={{ minWidth: 100, display: 'flex', alignItems: 'center' }}>
+                <Typography variant="body2">{fCurrency(lineTotal(line))}</Typography>
+              </Box>
+              <IconButton size="small" color="error" onClick={() => handleRemoveLine(line.key)}>
+                <Iconify icon="solar:trash-bin-trash-bold" />
+              </IconButton>
+            </Stack>
+          ))}
+
+          <Stack alignItems="flex-end" spacing={0.5}>
+            <Typography variant="body2">Subtotal: {fCurrency(subtotal)}</Typography>
+            <Typography variant="subtitle1">Total: {fCurrency(total)}</Typography>
+          </Stack>
+
+          <TextField
+            fullWidth
+            multiline
+            minRows={2}
+            label="Notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </Stack>
+      </DialogContent>
+
+      <DialogActions>
+        <Button variant="outlined" onClick={onCloseAction}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleSubmit} disabled={submitting}>
+          Create Quote
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
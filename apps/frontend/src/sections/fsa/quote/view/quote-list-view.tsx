@@ -0,0 +1,326 @@
+'use client';
+
+import type { IQuote, QuoteStatus } from 'src/lib/models/Quote';
+
+import useSWR from 'swr';
+import { useState } from 'react';
+import { useBoolean } from 'minimal-shared/hooks';
+
+import Card from '@mui/material/Card';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import Table from '@mui/material/Table';
+import Button from '@mui/material/Button';
+import MenuItem from '@mui/material/MenuItem';
+import TableRow from '@mui/material/TableRow';
+import Container from '@mui/material/Container';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TextField from '@mui/material/TextField';
+import IconButton from '@mui/material/IconButton';
+import Typography from '@mui/material/Typography';
+import TableContainer from '@mui/material/TableContainer';
+
+import { paths } from 'src/routes/paths';
+import { useRouter } from 'src/routes/hooks';
+
+import { fDate } from 'src/utils/format-time';
+import { fCurrency } from 'src/utils/format-number';
+
+import { fetcher, endpoints } from 'src/lib/axios';
+import { QuoteService } from 'src/lib/services/quote-service';
+
+import { toast } from 'src/components/snackbar';
+import { Iconify } from 'src/components/iconify';
+import { ConfirmDialog } from 'src/components/custom-dialog';
+
+import { QuoteCreateDialog } from '../quote-create-dialog';
+
+// ----------------------------------------------------------------------
+
+const STATUS_COLORS: Record<QuoteStatus, 'default' | 'info' | 'success' | 'error'> = {
+  draft: 'default',
+  sent: 'info',
+  accepted: 'success',
+  declined: 'error',
+};
+
+export function QuoteListView() {
+  const router = useRouter();
+  const openCreate = useBoolean();
+
+  const [status, setStatus] = useState<QuoteStatus | ''>('');
+  const [search, setSearch] = useState('');
+  const [declineTarget, setDeclineTarget] = useState<IQuote | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<IQuote | null>(null);
+
+  const { data, isLoading, mutate } = useSWR(
+    [
+      endpoints.fsa.quotes.list,
+      { params: { status: status || undefined, q: search || undefined } },
+    ],
+    fetcher<any>
+  );
+
+  const quotes: IQuote[] = data?.data || [];
+
+  const run = async (action: () => Promise<any>, success: string, failure: string) => {
+    try {
+      const response = await action();
+      if (response?.success !== false) {
+        toast.success(success);
+      }
+      mutate();
+      return response;
+    } catch (error: any) {
+      console.error(failure, error);
+      toast.error(error?.message || failure);
+      return null;
+    }
+  };
+
+  const handleAccept = async (quote: IQuote) => {
+    const response = await run(
+      () => QuoteService.acceptQuote(quote._id),
+      'Quote accepted and work order created',
+      'Failed to accept quote'
+    );
+    const workOrderId = response?.data?.workOrder?._id;
+    if (workOrderId) {
+      router.push(paths.dashboard.fsa.workOrders.details(workOrderId));
+    }
+  };
+
+  const handleDownload = async (quote: IQuote) => {
+    try {
+      await QuoteService.downloadQuotePdf(quote._id, quote.quoteNumber);
+    } catch (error) {
+      console.error('Failed to download quote PDF:', error);
+      toast.error('Failed to download quote PDF');
+    }
+  };
+
+  const clientName = (quote: IQuote) =>
+    typeof quote.clientId === 'object' ? quote.clientId?.name : '';
+
+  return (
+    <Container maxWidth={false}>
+      <Stack spacing={3} sx={{ p: 3 }}>
+        <Stack direction="row" alignItems="center" justifyContent="space-between">
+          <Stack spacing={1}>
+            <Typography variant="h4">Quotes</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Price work from your materials catalogue and technician rates, then convert accepted
+              quotes into work orders.
+            </Typography>
+          </Stack>
+          <Button
+            variant="contained"
+            startIcon={<Iconify icon="mingcute:add-line" />}
+            onClick={openCreate.onTrue}
+          >
+            New Quote
+          </Button>
+        </Stack>
+
+        <Card>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} sx={{ p: 2.5 }}>
+            <TextField
+              fullWidth
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by title or number..."
+            />
+            <TextField
+              select
+              label="Status"
+              value={status}
+              onChange={(e) => setStatus(e.target.value as QuoteStatus | '')}
+              sx={{ minWidth: 180 }}
+            >
+              <MenuItem value="">All</MenuItem>
+              <MenuItem value="draft">Draft</MenuItem>
+              <MenuItem value="sent">Sent</MenuItem>
+              <MenuItem value="accepted">Accepted</MenuItem>
+              <MenuItem value="declined">Declined</MenuItem>
+            </TextField>
+          </Stack>
+
+          <TableContainer>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Number</TableCell>
+                  <TableCell>Title</TableCell>
+                  <TableCell>Client</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell>Valid until</TableCell>
+                  <TableCell align="right">Total</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {!isLoading && quotes.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={7} align="center" sx={{ py: 6 }}>
+                      <Typography variant="body2" color="text.secondary">
+                        No quotes yet
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+                {quotes.map((quote) => (
+                  <TableRow key={quote._id} hover>
+                    <TableCell>
+                      <Typography variant="subtitle2">{quote.quoteNumber}</Typography>
+                    </TableCell>
+                    <TableCell>{quote.title}</TableCell>
+                    <TableCell>{clientName(quote)}</TableCell>
+                    <TableCell>
+                      <Chip
+                        size="small"
+                        label={quote.status}
+                        color={STATUS_COLORS[quote.status]}
+                        sx={{ textTransform: 'capitalize' }}
+                      />
+                    </TableCell>
+                    <TableCell>{quote.validUntil ? fDate(quote.validUntil) : '-'}</TableCell>
+                    <TableCell align="right">
+                      {fCurrency(quote.total, { currency: quote.currency })}
+                    </TableCell>
+                    <TableCell align="right">
+                      <Stack direction="row" spacing={0.5} justifyContent="flex-end">
+                        <IconButton
+                          size="small"
+                          title="Download PDF"
+                          onClick={() => handleDownload(quote)}
+                        >
+                          <Iconify icon="solar:download-bold" />
+                        </IconButton>
+                        {quote.status === 'draft' && (
+                          <IconButton
+                            size="small"
+                            title="Mark as sent"
+                            onClick={() =>
+                              run(
+                                () => QuoteService.sendQuote(quote._id),
+                                'Quote marked as sent',
+                                'Failed to send quote'
+                              )
+                            }
+                          >
+                            <Iconify icon="custom:send-fill" />
+                          </IconButton>
+                        )}
+                        {(quote.status === 'draft' || quote.status === 'sent') && (
+                          <>
+                            <IconButton
+                              size="small"
+                              color="success"
+                              title="Accept and create work order"
+                              onClick={() => handleAccept(quote)}
+                            >
+                              <Iconify icon="solar:check-circle-bold" />
+                            </IconButton>
+                            <IconButton
+                              size="small"
+                              color="warning"
+                              title="Decline"
+                              onClick={() => setDeclineTarget(quote)}
+                            >
+                              <Iconify icon="solar:close-circle-bold" />
+                            </IconButton>
+                          </>
+                        )}
+                        {quote.status === 'accepted' && quote.workOrderId && (
+                          <IconButton
+                            size="small"
+                            title="Open work order"
+                            onClick={() =>
+                              router.push(
+                                paths.dashboard.fsa.workOrders.details(quote.workOrderId!)
+                              )
+                            }
+                          >
+                            <Iconify icon="solar:eye-bold" />
+                          </IconButton>
+                        )}
+                        {quote.status !== 'accepted' && (
+                          <IconButton
+                            size="small"
+                            color="error"
+                            title="Delete"
+                            onClick={() => setDeleteTarget(quote)}
+                          >
+                            <Iconify icon="solar:trash-bin-trash-bold" />
+                          </IconButton>
+                        )}
+                      </Stack>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Card>
+      </Stack>
+
+      <QuoteCreateDialog
+        open={openCreate.value}
+        onCloseAction={openCreate.onFalse}
+        onCreatedAction={() => mutate()}
+      />
+
+      <ConfirmDialog
+        open={!!declineTarget}
+        onClose={() => setDeclineTarget(null)}
+        title="Decline Quote"
+        content={`Mark quote ${declineTarget?.quoteNumber} as declined?`}
+        action={
+          <Button
+            variant="contained"
+            color="warning"
+            onClick={async () => {
+              if (declineTarget) {
+                await run(
+                  () => QuoteService.declineQuote(declineTarget._id),
+                  'Quote declined',
+                  'Failed to decline quote'
+                );
+              }
+              setDeclineTarget(null);
+            }}
+          >
+            Decline
+          </Button>
+        }
+      />
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        title="Delete Quote"
+        content={`Are you sure you want to delete quote ${deleteTarget?.quoteNumber}?`}
+        action={
+          <Button
+            variant="contained"
+            color="error"
+            onClick={async () => {
+              if (deleteTarget) {
+                await run(
+                  () => QuoteService.deleteQuote(deleteTarget._id),
+                  'Quote deleted successfully',
+                  'Failed to delete quote'
+                );
+              }
+              setDeleteTarget(null);
+            }}
+          >
+            Delete
+          </Button>
+        }
+      />
+    </Container>
+  );
+}
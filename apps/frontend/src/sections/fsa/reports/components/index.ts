@@ -5,4 +5,5 @@ export { ReportOverviewTab } from './report-overview-tab';
 export { ReportMaterialsTab } from './report-materials-tab';
 export { ReportDetailsDrawer } from './report-details-drawer';
 export { ReportAttachmentsTab } from './report-attachments-tab';
+export { ReportInspectionsTab } from './report-inspections-tab';
 export { ReportTimeEntriesTab } from './report-time-entries-tab';
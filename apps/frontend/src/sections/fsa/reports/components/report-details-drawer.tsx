@@ -1,26 +1,48 @@
 'use client';
 
 import type { IReport } from 'src/lib/models/Report';
+import type { ReportExportFormat } from 'src/lib/services/report-service';
 
 import dayjs from 'dayjs';
 import { useState, useCallback } from 'react';
-import { useTabs } from 'minimal-shared/hooks';
-
-import { Box, Tab, Tabs, Chip, Avatar, Drawer, Button, useTheme, Typography } from '@mui/material';
+import { useTabs, usePopover } from 'minimal-shared/hooks';
+
+import {
+  Box,
+  Tab,
+  Tabs,
+  Chip,
+  Avatar,
+  Drawer,
+  Button,
+  MenuList,
+  MenuItem,
+  useTheme,
+  Typography,
+} from '@mui/material';
 
 import { ReportService } from 'src/lib/services/report-service';
 
 import { toast } from 'src/components/snackbar';
 import { Iconify } from 'src/components/iconify';
 import { Scrollbar } from 'src/components/scrollbar';
+import { CustomPopover } from 'src/components/custom-popover';
 
 import { ReportOverviewTab } from './report-overview-tab';
 import { ReportMaterialsTab } from './report-materials-tab';
 import { ReportAttachmentsTab } from './report-attachments-tab';
+import { ReportInspectionsTab } from './report-inspections-tab';
 import { ReportTimeEntriesTab } from './report-time-entries-tab';
 
 // ----------------------------------------------------------------------
 
+const EXPORT_OPTIONS: { format: ReportExportFormat; label: string }[] = [
+  { format: 'pdf', label: 'PDF' },
+  { format: 'docx', label: 'Word (DOCX)' },
+  { format: 'xlsx', label: 'Excel (XLSX)' },
+  { format: 'csv', label: 'CSV' },
+];
+
 interface ReportDetailsDrawerProps {
   open: boolean;
   onClose: () => void;
@@ -31,6 +53,7 @@ interface ReportDetailsDrawerProps {
 export function ReportDetailsDrawer({ open, onClose, report, onUpdate }: ReportDetailsDrawerProps) {
   const theme = useTheme();
   const tabs = useTabs('overview');
+  const exportMenu = usePopover();
 
   const [submitting, setSubmitting] = useState(false);
   const [approving, setApproving] = useState(false);
@@ -125,15 +148,19 @@ export function ReportDetailsDrawer({ open, onClose, report, onUpdate }: ReportD
     }
   }, [report, onUpdate]);
 
-  const handleExport = useCallback(async () => {
-    try {
-      await ReportService.exportReport(report._id, 'pdf');
-      toast.success('Report exported successfully');
-    } catch (error) {
-      console.error('Error exporting report:', error);
-      toast.error('Failed to export report');
-    }
-  }, [report._id]);
+  const handleExport = useCallback(
+    async (format: ReportExportFormat) => {
+      exportMenu.onClose();
+      try {
+        await ReportService.exportReport(report._id, format);
+        toast.success('Report exported successfully');
+      } catch (error) {
+        console.error('Error exporting report:', error);
+        toast.error('Failed to export report');
+      }
+    },
+    [report._id, exportMenu]
+  );
 
   const renderHeader = () => (
     <Box
@@ -270,6 +297,7 @@ export function ReportDetailsDrawer({ open, onClose, report, onUpdate }: ReportD
         <Tab value="overview" label="Overview" />
         <Tab value="materials" label={`Materials (${report.materialsUsed?.length || 0})`} />
         <Tab value="time" label={`Time (${report.timeEntries?.length || 0})`} />
+        <Tab value="inspections" label={`Checklists (${report.inspections?.length || 0})`} />
         <Tab
           value="attachments"
           label={`Files (${(report.attachments?.length || 0) + (report.photos?.length || 0)})`}
@@ -286,6 +314,8 @@ export function ReportDetailsDrawer({ open, onClose, report, onUpdate }: ReportD
         return <ReportMaterialsTab report={report} onUpdate={onUpdate} canEdit={canEdit} />;
       case 'time':
         return <ReportTimeEntriesTab report={report} onUpdate={onUpdate} canEdit={canEdit} />;
+      case 'inspections':
+        return <ReportInspectionsTab report={report} />;
       case 'attachments':
         return <ReportAttachmentsTab report={report} onUpdate={onUpdate} canEdit={canEdit} />;
       default:
@@ -306,11 +336,11 @@ export function ReportDetailsDrawer({ open, onClose, report, onUpdate }: ReportD
     >
       <Button
         variant="outlined"
-        onClick={handleExport}
+        onClick={exportMenu.onOpen}
         startIcon={<Iconify icon="eva:download-fill" width={16} />}
         sx={{ flex: 1 }}
       >
-        Export PDF
+        Export
       </Button>
 
       {canSubmit && (
@@ -339,6 +369,23 @@ export function ReportDetailsDrawer({ open, onClose, report, onUpdate }: ReportD
     </Box>
   );
 
+  const renderExportMenu = () => (
+    <CustomPopover
+      open={exportMenu.open}
+      anchorEl={exportMenu.anchorEl}
+      onClose={exportMenu.onClose}
+      slotProps={{ arrow: { placement: 'bottom-center' } }}
+    >
+      <MenuList>
+        {EXPORT_OPTIONS.map((option) => (
+          <MenuItem key={option.format} onClick={() => handleExport(option.format)}>
+            {option.label}
+          </MenuItem>
+        ))}
+      </MenuList>
+    </CustomPopover>
+  );
+
   return (
     <Drawer
       open={open}
@@ -363,6 +410,7 @@ export function ReportDetailsDrawer({ open, onClose, report, onUpdate }: ReportD
       </Scrollbar>
 
       {renderActions()}
+      {renderExportMenu()}
     </Drawer>
   );
 }
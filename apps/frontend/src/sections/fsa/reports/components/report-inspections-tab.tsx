@@ -0,0 +1,167 @@
+'use client';
+
+import type { IReport, IReportInspectionAnswer } from 'src/lib/models/Report';
+
+import {
+  Box,
+  Card,
+  Chip,
+  Stack,
+  Table,
+  TableRow,
+  TableBody,
+  TableCell,
+  TableHead,
+  Typography,
+  TableContainer,
+} from '@mui/material';
+
+import { EmptyContent } from 'src/components/empty-content';
+
+// ----------------------------------------------------------------------
+
+interface ReportInspectionsTabProps {
+  report: IReport;
+}
+
+const RESULT_COLORS = { pass: 'success', fail: 'error', na: 'default' } as const;
+const RESULT_LABELS = { pass: 'Pass', fail: 'Fail', na: 'N/A' } as const;
+
+function AnswerValue({ answer }: { answer: IReportInspectionAnswer }) {
+  if (answer.value === undefined || answer.value === null) {
+    return (
+      <Typography variant="body2" color="text.disabled">
+        -
+      </Typography>
+    );
+  }
+
+  switch (answer.type) {
+    case 'photo':
+      return (
+        <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+          {(answer.value as string[]).map((url) => (
+            <Box
+              key={url}
+              component="a"
+              href={url}
+              target="_blank"
+              rel="noopener noreferrer"
+              sx={{ display: 'block' }}
+            >
+              <Box
+                component="img"
+                src={url}
+                sx={{ width: 64, height: 64, objectFit: 'cover', borderRadius: 1 }}
+              />
+            </Box>
+          ))}
+        </Stack>
+      );
+    case 'signature':
+      return <Box component="img" src={answer.value} sx={{ height: 48 }} />;
+    case 'yes_no':
+      return (
+        <Typography variant="body2" sx={{ textTransform: 'capitalize' }}>
+          {answer.value === 'n/a' ? 'N/A' : answer.value}
+        </Typography>
+      );
+    case 'number':
+      return (
+        <Typography variant="body2">
+          {answer.value}
+          {answer.unit ? ` ${answer.unit}` : ''}
+        </Typography>
+      );
+    default:
+      return (
+        <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+          {String(answer.value)}
+        </Typography>
+      );
+  }
+}
+
+export function ReportInspectionsTab({ report }: ReportInspectionsTabProps) {
+  const inspections = report.inspections || [];
+
+  if (inspections.length === 0) {
+    return (
+      <EmptyContent
+        title="No checklists"
+        description="No inspection checklists were filled in on this report"
+      />
+    );
+  }
+
+  return (
+    <Stack spacing={3}>
+      {inspections.map((inspection) => (
+        <Card key={inspection._id} variant="outlined">
+          <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ p: 2 }}>
+            <Box>
+              <Typography variant="subtitle1">{inspection.formName}</Typography>
+              <Typography variant="caption" color="text.secondary">
+                {[inspection.assetName, `v${inspection.formVersion}`].filter(Boolean).join(' · ')}
+              </Typography>
+            </Box>
+            <Stack direction="row" spacing={1}>
+              {inspection.failedCount > 0 && (
+                <Chip size="small" variant="soft" label={`${inspection.failedCount} failed`} />
+              )}
+              <Chip
+                size="small"
+                color={RESULT_COLORS[inspection.result]}
+                label={RESULT_LABELS[inspection.result]}
+              />
+            </Stack>
+          </Stack>
+
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Item</TableCell>
+                  <TableCell>Answer</TableCell>
+                  <TableCell align="right">Result</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {inspection.answers.map((answer) => (
+                  <TableRow key={answer.fieldKey}>
+                    <TableCell>
+                      {answer.section && (
+                        <Typography variant="caption" color="text.secondary" display="block">
+                          {answer.section}
+                        </Typography>
+                      )}
+                      <Typography variant="body2">{answer.label}</Typography>
+                      {answer.notes && (
+                        <Typography variant="caption" color="error.main" display="block">
+                          {answer.notes}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <AnswerValue answer={answer} />
+                    </TableCell>
+                    <TableCell align="right">
+                      {answer.result && (
+                        <Chip
+                          size="small"
+                          variant="soft"
+                          color={RESULT_COLORS[answer.result]}
+                          label={RESULT_LABELS[answer.result]}
+                        />
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Card>
+      ))}
+    </Stack>
+  );
+}
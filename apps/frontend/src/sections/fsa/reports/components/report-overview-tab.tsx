@@ -6,6 +6,9 @@ import dayjs from 'dayjs';
 
 import { Box, Grid, Card, Chip, Stack, Typography, CardContent } from '@mui/material';
 
+import { paths } from 'src/routes/paths';
+import { RouterLink } from 'src/routes/components';
+
 import { Iconify } from 'src/components/iconify';
 
 // ----------------------------------------------------------------------
@@ -216,6 +219,31 @@ export function ReportOverviewTab({ report, onUpdate }: ReportOverviewTabProps)
           </CardContent>
         </Card>
       )}
+      {/* Serviced Assets */}
+      {report.assetsData && report.assetsData.length > 0 && (
+        <Card>
+          <CardContent>
+            <Typography variant="h6" sx={{ mb: 2 }}>
+              Serviced Equipment
+            </Typography>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+              {report.assetsData.map((asset) => (
+                <Chip
+                  key={asset._id}
+                  size="small"
+                  component={RouterLink}
+                  href={paths.dashboard.fsa.assets.details(asset._id)}
+                  clickable
+                  label={
+                    asset.serialNumber ? `${asset.name} (S/N ${asset.serialNumber})` : asset.name
+                  }
+                  icon={<Iconify icon="eva:settings-fill" width={16} />}
+                />
+              ))}
+            </Box>
+          </CardContent>
+        </Card>
+      )}
       {/* Equipment */}
       {report.equipment && report.equipment.length > 0 && (
         <Card>
@@ -0,0 +1,298 @@
+'use client';
+
+import type {
+  ISlaPolicy,
+  SlaPriority,
+  SlaComplianceRow,
+  SlaComplianceReport,
+} from 'src/lib/models/SlaPolicy';
+
+import useSWR from 'swr';
+import dayjs from 'dayjs';
+import { useState } from 'react';
+
+import Card from '@mui/material/Card';
+import Chip from '@mui/material/Chip';
+import Grid from '@mui/material/Grid';
+import Link from '@mui/material/Link';
+import Stack from '@mui/material/Stack';
+import Table from '@mui/material/Table';
+import MenuItem from '@mui/material/MenuItem';
+import TableRow from '@mui/material/TableRow';
+import Container from '@mui/material/Container';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TextField from '@mui/material/TextField';
+import CardHeader from '@mui/material/CardHeader';
+import Typography from '@mui/material/Typography';
+import LinearProgress from '@mui/material/LinearProgress';
+import TableContainer from '@mui/material/TableContainer';
+
+import { paths } from 'src/routes/paths';
+import { RouterLink } from 'src/routes/components';
+
+import { fDateTime } from 'src/utils/format-time';
+import { formatMinutesToDuration } from 'src/utils/format-duration';
+
+import { fetcher, endpoints } from 'src/lib/axios';
+
+import { PRIORITY_LABELS } from 'src/sections/settings/sla-policies/sla-policy-dialog';
+
+// ----------------------------------------------------------------------
+
+const complianceOf = (met: number, breached: number) =>
+  met + breached > 0 ? Math.round((met / (met + breached)) * 1000) / 10 : null;
+
+const formatRate = (value: number | null | undefined) => (value == null ? '-' : `${value}%`);
+
+function ComplianceCell({ met, breached }: { met: number; breached: number }) {
+  const rate = complianceOf(met, breached);
+
+  if (rate === null) return <TableCell>-</TableCell>;
+
+  return (
+    <TableCell>
+      <Stack direction="row" spacing={1} alignItems="center">
+        <LinearProgress
+          variant="determinate"
+          color={rate >= 95 ? 'success' : rate >= 80 ? 'warning' : 'error'}
+          value={rate}
+          sx={{ flex: 1, height: 6, borderRadius: 1 }}
+        />
+        <Typography variant="caption">{rate}%</Typography>
+      </Stack>
+      <Typography variant="caption" color="text.secondary">
+        {breached} breached of {met + breached}
+      </Typography>
+    </TableCell>
+  );
+}
+
+function ComplianceTable({ title, rows }: { title: string; rows: SlaComplianceRow[] }) {
+  return (
+    <Card>
+      <CardHeader title={title} />
+      <TableContainer sx={{ mt: 2 }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell />
+              <TableCell align="right">Work orders</TableCell>
+              <TableCell sx={{ minWidth: 160 }}>Response</TableCell>
+              <TableCell sx={{ minWidth: 160 }}>Resolution</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rows.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={4} align="center" sx={{ py: 6 }}>
+                  <Typography variant="body2" color="text.secondary">
+                    No timed work orders in this period
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            )}
+            {rows.map((row) => (
+              <TableRow key={row.key} hover>
+                <TableCell>{row.label}</TableCell>
+                <TableCell align="right">{row.workOrders}</TableCell>
+                <ComplianceCell met={row.responseMet} breached={row.responseBreached} />
+                <ComplianceCell met={row.resolutionMet} breached={row.resolutionBreached} />
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Card>
+  );
+}
+
+// ----------------------------------------------------------------------
+
+export function SlaComplianceView() {
+  const [from, setFrom] = useState(dayjs().subtract(30, 'day').format('YYYY-MM-DD'));
+  const [to, setTo] = useState(dayjs().format('YYYY-MM-DD'));
+  const [policyId, setPolicyId] = useState('');
+  const [priority, setPriority] = useState<SlaPriority | ''>('');
+
+  const { data, isLoading } = useSWR(
+    [
+      endpoints.fsa.sla.report,
+      {
+        params: {
+          from: from || undefined,
+          // Include the whole last day
+          to: to ? dayjs(to).endOf('day').toISOString() : undefined,
+          policyId: policyId || undefined,
+          priority: priority || undefined,
+        },
+      },
+    ],
+    fetcher<any>
+  );
+  const { data: policiesData } = useSWR(endpoints.fsa.sla.policies, fetcher<any>);
+
+  const report: SlaComplianceReport | undefined = data?.data;
+  const policies: ISlaPolicy[] = policiesData?.data || [];
+
+  const averageOf = (minutes: number | null | undefined) =>
+    minutes == null ? '-' : formatMinutesToDuration(minutes);
+
+  const stats: [string, string][] = [
+    ['Timed work orders', String(report?.summary.workOrders ?? 0)],
+    ['Response compliance', formatRate(report?.summary.responseCompliance)],
+    ['Resolution compliance', formatRate(report?.summary.resolutionCompliance)],
+    ['Average response', averageOf(report?.summary.averageResponseMinutes)],
+    ['Average resolution', averageOf(report?.summary.averageResolutionMinutes)],
+  ];
+
+  return (
+    <Container maxWidth={false}>
+      <Stack spacing={3} sx={{ p: 3 }}>
+        <Stack spacing={1}>
+          <Typography variant="h4">SLA Compliance</Typography>
+          <Typography variant="body2" color="text.secondary">
+            How often work orders created in the period met their response and resolution targets.
+            Averages are in business time.
+          </Typography>
+        </Stack>
+
+        <Card>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} sx={{ p: 2.5 }}>
+            <TextField
+              type="date"
+              label="From"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              slotProps={{ inputLabel: { shrink: true } }}
+            />
+            <TextField
+              type="date"
+              label="To"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              slotProps={{ inputLabel: { shrink: true } }}
+            />
+            <TextField
+              select
+              label="Policy"
+              value={policyId}
+              onChange={(e) => setPolicyId(e.target.value)}
+              sx={{ minWidth: 220 }}
+            >
+              <MenuItem value="">All policies</MenuItem>
+              {policies.map((policy) => (
+                <MenuItem key={policy._id} value={policy._id}>
+                  {policy.name}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              label="Priority"
+              value={priority}
+              onChange={(e) => setPriority(e.target.value as SlaPriority | '')}
+              sx={{ minWidth: 160 }}
+            >
+              <MenuItem value="">All priorities</MenuItem>
+              {(Object.keys(PRIORITY_LABELS) as SlaPriority[]).map((item) => (
+                <MenuItem key={item} value={item}>
+                  {PRIORITY_LABELS[item]}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Stack>
+          {isLoading && <LinearProgress />}
+        </Card>
+
+        <Grid container spacing={2}>
+          {stats.map(([label, value]) => (
+            <Grid key={label} size={{ xs: 12, sm: 6, md: 'grow' }}>
+              <Card sx={{ p: 2 }}>
+                <Typography variant="h5">{value}</Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {label}
+                </Typography>
+              </Card>
+            </Grid>
+          ))}
+        </Grid>
+
+        <Grid container spacing={3}>
+          <Grid size={{ xs: 12, md: 6 }}>
+            <ComplianceTable title="By policy" rows={report?.byPolicy || []} />
+          </Grid>
+          <Grid size={{ xs: 12, md: 6 }}>
+            <ComplianceTable title="By priority" rows={report?.byPriority || []} />
+          </Grid>
+          <Grid size={{ xs: 12 }}>
+            <ComplianceTable title="By client" rows={report?.byClient || []} />
+          </Grid>
+        </Grid>
+
+        <Card>
+          <CardHeader title="Breached work orders" />
+          <TableContainer sx={{ mt: 2 }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Work order</TableCell>
+                  <TableCell>Client</TableCell>
+                  <TableCell>Policy</TableCell>
+                  <TableCell>Missed</TableCell>
+                  <TableCell>Response due</TableCell>
+                  <TableCell>Resolution due</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {report?.breaches.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} align="center" sx={{ py: 6 }}>
+                      <Typography variant="body2" color="text.secondary">
+                        No breaches in this period
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+                {report?.breaches.map((breach) => (
+                  <TableRow key={breach.workOrderId} hover>
+                    <TableCell>
+                      <Link
+                        component={RouterLink}
+                        href={paths.dashboard.fsa.workOrders.details(breach.workOrderId)}
+                        variant="body2"
+                      >
+                        {breach.workOrderNumber}
+                      </Link>
+                      <Typography variant="caption" color="text.secondary" display="block">
+                        {breach.title} · {PRIORITY_LABELS[breach.priority] || breach.priority}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>{breach.clientName || '-'}</TableCell>
+                    <TableCell>{breach.policyName}</TableCell>
+                    <TableCell>
+                      <Stack direction="row" spacing={0.5}>
+                        {breach.timers.map((timer) => (
+                          <Chip
+                            key={timer}
+                            size="small"
+                            variant="soft"
+                            color="error"
+                            label={timer === 'response' ? 'Response' : 'Resolution'}
+                          />
+                        ))}
+                      </Stack>
+                    </TableCell>
+                    <TableCell>{fDateTime(breach.responseDueAt)}</TableCell>
+                    <TableCell>{fDateTime(breach.resolutionDueAt)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Card>
+      </Stack>
+    </Container>
+  );
+}
@@ -0,0 +1,235 @@
+'use client';
+
+import type { ISupplier, CreateSupplierData } from 'src/lib/models/PurchaseOrder';
+
+import { useState, useEffect } from 'react';
+
+import Stack from '@mui/material/Stack';
+import Dialog from '@mui/material/Dialog';
+import Button from '@mui/material/Button';
+import Switch from '@mui/material/Switch';
+import TextField from '@mui/material/TextField';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import FormControlLabel from '@mui/material/FormControlLabel';
+
+import { SupplierService } from 'src/lib/services/supplier-service';
+
+import { toast } from 'src/components/snackbar';
+
+// ----------------------------------------------------------------------
+
+type Props = {
+  open: boolean;
+  supplier?: ISupplier | null;
+  onCloseAction: () => void;
+  onSavedAction: () => void;
+};
+
+const emptyForm = (): CreateSupplierData => ({
+  name: '',
+  contactName: '',
+  email: '',
+  phone: '',
+  website: '',
+  vatNumber: '',
+  address: { street: '', city: '', zipCode: '', country: '' },
+  leadTimeDays: 7,
+  paymentTerms: '',
+  notes: '',
+  isActive: true,
+});
+
+export function SupplierFormDialog({ open, supplier, onCloseAction, onSavedAction }: Props) {
+  const [form, setForm] = useState<CreateSupplierData>(emptyForm());
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      const empty = emptyForm();
+      setForm(
+        supplier
+          ? {
+              ...empty,
+              ...supplier,
+              address: { ...empty.address, ...supplier.address },
+            }
+          : empty
+      );
+    }
+  }, [open, supplier]);
+
+  const update = (patch: Partial<CreateSupplierData>) => setForm((prev) => ({ ...prev, ...patch }));
+
+  const updateAddress = (patch: Partial<NonNullable<CreateSupplierData['address']>>) =>
+    setForm((prev) => ({ ...prev, address: { ...prev.address, ...patch } }));
+
+  const handleSubmit = async () => {
+    if (!form.name.trim()) {
+      toast.error('Supplier name is required');
+      return;
+    }
+
+    const data: CreateSupplierData = {
+      name: form.name.trim(),
+      contactName: form.contactName,
+      email: form.email,
+      phone: form.phone,
+      website: form.website,
+      vatNumber: form.vatNumber,
+      address: form.address,
+      leadTimeDays: form.leadTimeDays,
+      paymentTerms: form.paymentTerms,
+      notes: form.notes,
+      isActive: form.isActive,
+    };
+
+    try {
+      setSubmitting(true);
+      const response = supplier
+        ? await SupplierService.updateSupplier(supplier._id, data)
+        : await SupplierService.createSupplier(data);
+      if (response.success) {
+        toast.success(supplier ? 'Supplier updated successfully' : 'Supplier created successfully');
+        onSavedAction();
+        onCloseAction();
+      }
+    } catch (error: any) {
+      console.error('Failed to save supplier:', error);
+      toast.error(error?.message || 'Failed to save supplier');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onCloseAction} maxWidth="md" fullWidth>
+      <DialogTitle>{supplier ? 'Edit Supplier' : 'New Supplier'}</DialogTitle>
+
+      <DialogContent>
+        <Stack spacing={2.5} sx={{ pt: 1 }}>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <TextField
+              fullWidth
+              label="Name"
+              value={form.name}
+              onChange={(e) => update({ name: e.target.value })}
+            />
+            <TextField
+              fullWidth
+              label="Contact person"
+              value={form.contactName}
+              onChange={(e) => update({ contactName: e.target.value })}
+            />
+          </Stack>
+
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <TextField
+              fullWidth
+              type="email"
+              label="Email"
+              value={form.email}
+              onChange={(e) => update({ email: e.target.value })}
+            />
+            <TextField
+              fullWidth
+              label="Phone"
+              value={form.phone}
+              onChange={(e) => update({ phone: e.target.value })}
+            />
+          </Stack>
+
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <TextField
+              fullWidth
+              label="Website"
+              value={form.website}
+              onChange={(e) => update({ website: e.target.value })}
+            />
+            <TextField
+              fullWidth
+              label="VAT number"
+              value={form.vatNumber}
+              onChange={(e) => update({ vatNumber: e.target.value })}
+            />
+          </Stack>
+
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <TextField
+              fullWidth
+              label="Street"
+              value={form.address?.street}
+              onChange={(e) => updateAddress({ street: e.target.value })}
+            />
+            <TextField
+              fullWidth
+              label="City"
+              value={form.address?.city}
+              onChange={(e) => updateAddress({ city: e.target.value })}
+            />
+            <TextField
+              label="Zip code"
+              value={form.address?.zipCode}
+              onChange={(e) => updateAddress({ zipCode: e.target.value })}
+              sx={{ minWidth: 140 }}
+            />
+            <TextField
+              label="Country"
+              value={form.address?.country}
+              onChange={(e) => updateAddress({ country: e.target.value })}
+              sx={{ minWidth: 160 }}
+            />
+          </Stack>
+
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <TextField
+              type="number"
+              label="Lead time (days)"
+              value={form.leadTimeDays}
+              onChange={(e) => update({ leadTimeDays: Number(e.target.value) })}
+              sx={{ minWidth: 180 }}
+            />
+            <TextField
+              fullWidth
+              label="Payment terms"
+              placeholder="e.g. Net 30"
+              value={form.paymentTerms}
+              onChange={(e) => update({ paymentTerms: e.target.value })}
+            />
+          </Stack>
+
+          <TextField
+            fullWidth
+            multiline
+            minRows={2}
+            label="Notes"
+            value={form.notes}
+            onChange={(e) => update({ notes: e.target.value })}
+          />
+
+          {supplier && (
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={!!form.isActive}
+                  onChange={(e) => update({ isActive: e.target.checked })}
+                />
+              }
+              label="Active"
+            />
+          )}
+        </Stack>
+      </DialogContent>
+
+      <DialogActions>
+        <Button variant="outlined" onClick={onCloseAction}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleSubmit} disabled={submitting}>
+          {supplier ? 'Save' : 'Create Supplier'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
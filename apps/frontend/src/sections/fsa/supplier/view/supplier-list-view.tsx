@@ -0,0 +1,202 @@
+'use client';
+
+import type { ISupplier } from 'src/lib/models/PurchaseOrder';
+
+import useSWR from 'swr';
+import { useState } from 'react';
+import { useBoolean } from 'minimal-shared/hooks';
+
+import Card from '@mui/material/Card';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import Table from '@mui/material/Table';
+import Button from '@mui/material/Button';
+import TableRow from '@mui/material/TableRow';
+import Container from '@mui/material/Container';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TextField from '@mui/material/TextField';
+import IconButton from '@mui/material/IconButton';
+import Typography from '@mui/material/Typography';
+import TableContainer from '@mui/material/TableContainer';
+
+import { paths } from 'src/routes/paths';
+import { RouterLink } from 'src/routes/components';
+
+import { fetcher, endpoints } from 'src/lib/axios';
+import { SupplierService } from 'src/lib/services/supplier-service';
+
+import { toast } from 'src/components/snackbar';
+import { Iconify } from 'src/components/iconify';
+import { ConfirmDialog } from 'src/components/custom-dialog';
+
+import { SupplierFormDialog } from '../supplier-form-dialog';
+
+// ----------------------------------------------------------------------
+
+export function SupplierListView() {
+  const openForm = useBoolean();
+
+  const [search, setSearch] = useState('');
+  const [editTarget, setEditTarget] = useState<ISupplier | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<ISupplier | null>(null);
+
+  const { data, isLoading, mutate } = useSWR(
+    [endpoints.fsa.suppliers.list, { params: { q: search || undefined, limit: 100 } }],
+    fetcher<any>
+  );
+
+  const suppliers: ISupplier[] = data?.data || [];
+
+  const handleCreate = () => {
+    setEditTarget(null);
+    openForm.onTrue();
+  };
+
+  const handleEdit = (supplier: ISupplier) => {
+    setEditTarget(supplier);
+    openForm.onTrue();
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    try {
+      await SupplierService.deleteSupplier(deleteTarget._id);
+      toast.success('Supplier deleted successfully');
+      mutate();
+    } catch (error: any) {
+      console.error('Failed to delete supplier:', error);
+      toast.error(error?.message || 'Failed to delete supplier');
+    }
+    setDeleteTarget(null);
+  };
+
+  return (
+    <Container maxWidth={false}>
+      <Stack spacing={3} sx={{ p: 3 }}>
+        <Stack direction="row" alignItems="center" justifyContent="space-between">
+          <Stack spacing={1}>
+            <Typography variant="h4">Suppliers</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Keep supplier contacts and lead times in one place and link them to the materials you
+              reorder.
+            </Typography>
+          </Stack>
+          <Stack direction="row" spacing={1}>
+            <Button
+              component={RouterLink}
+              href={paths.dashboard.fsa.purchaseOrders.root}
+              variant="outlined"
+              startIcon={<Iconify icon="solar:cart-3-bold" />}
+            >
+              Purchase Orders
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={<Iconify icon="mingcute:add-line" />}
+              onClick={handleCreate}
+            >
+              New Supplier
+            </Button>
+          </Stack>
+        </Stack>
+
+        <Card>
+          <Stack sx={{ p: 2.5 }}>
+            <TextField
+              fullWidth
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by name, contact or email..."
+            />
+          </Stack>
+
+          <TableContainer>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Name</TableCell>
+                  <TableCell>Contact</TableCell>
+                  <TableCell>Email</TableCell>
+                  <TableCell>Phone</TableCell>
+                  <TableCell align="right">Lead time</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {!isLoading && suppliers.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={7} align="center" sx={{ py: 6 }}>
+                      <Typography variant="body2" color="text.secondary">
+                        No suppliers yet
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+                {suppliers.map((supplier) => (
+                  <TableRow key={supplier._id} hover>
+                    <TableCell>
+                      <Typography variant="subtitle2">{supplier.name}</Typography>
+                      {supplier.paymentTerms && (
+                        <Typography variant="caption" color="text.secondary">
+                          {supplier.paymentTerms}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>{supplier.contactName || '-'}</TableCell>
+                    <TableCell>{supplier.email || '-'}</TableCell>
+                    <TableCell>{supplier.phone || '-'}</TableCell>
+                    <TableCell align="right">{supplier.leadTimeDays} days</TableCell>
+                    <TableCell>
+                      <Chip
+                        size="small"
+                        label={supplier.isActive ? 'Active' : 'Inactive'}
+                        color={supplier.isActive ? 'success' : 'default'}
+                      />
+                    </TableCell>
+                    <TableCell align="right">
+                      <Stack direction="row" spacing={0.5} justifyContent="flex-end">
+                        <IconButton size="small" title="Edit" onClick={() => handleEdit(supplier)}>
+                          <Iconify icon="solar:pen-bold" />
+                        </IconButton>
+                        <IconButton
+                          size="small"
+                          color="error"
+                          title="Delete"
+                          onClick={() => setDeleteTarget(supplier)}
+                        >
+                          <Iconify icon="solar:trash-bin-trash-bold" />
+                        </IconButton>
+                      </Stack>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Card>
+      </Stack>
+
+      <SupplierFormDialog
+        open={openForm.value}
+        supplier={editTarget}
+        onCloseAction={openForm.onFalse}
+        onSavedAction={() => mutate()}
+      />
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        title="Delete Supplier"
+        content={`Are you sure you want to delete ${deleteTarget?.name}? Linked materials keep their supplier name.`}
+        action={
+          <Button variant="contained" color="error" onClick={handleDelete}>
+            Delete
+          </Button>
+        }
+      />
+    </Container>
+  );
+}
@@ -0,0 +1,186 @@
+'use client';
+
+import type { SlaTimer, IWorkOrderSla } from 'src/lib/models/SlaPolicy';
+
+import { useState, useEffect } from 'react';
+
+import Card from '@mui/material/Card';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import Tooltip from '@mui/material/Tooltip';
+import CardHeader from '@mui/material/CardHeader';
+import Typography from '@mui/material/Typography';
+
+import { fDateTime } from 'src/utils/format-time';
+import { formatMinutesToDuration } from 'src/utils/format-duration';
+
+import { Iconify } from 'src/components/iconify';
+
+// ----------------------------------------------------------------------
+
+type TimerStatus = 'running' | 'warning' | 'breached' | 'met' | 'paused' | 'stopped';
+
+type TimerState = {
+  timer: SlaTimer;
+  status: TimerStatus;
+  dueAt: string;
+  stoppedAt?: string;
+  minutesLeft: number; // Negative once overdue
+};
+
+const STATUS_COLORS: Record<TimerStatus, 'info' | 'warning' | 'error' | 'success' | 'default'> = {
+  running: 'info',
+  warning: 'warning',
+  breached: 'error',
+  met: 'success',
+  paused: 'default',
+  stopped: 'default',
+};
+
+const TIMER_LABELS: Record<SlaTimer, string> = {
+  response: 'Response',
+  resolution: 'Resolution',
+};
+
+// Countdowns are wall-clock time to a deadline already set in business hours
+const formatLeft = (minutes: number) =>
+  formatMinutesToDuration(Math.max(1, Math.round(Math.abs(minutes))), { workingDayHours: 24 });
+
+function getTimerState(
+  sla: IWorkOrderSla,
+  timer: SlaTimer,
+  now: number,
+  closed: boolean
+): TimerState {
+  const response = timer === 'response';
+  const dueAt = response ? sla.responseDueAt : sla.resolutionDueAt;
+  const warnAt = response ? sla.responseWarnAt : sla.resolutionWarnAt;
+  const stoppedAt = response ? sla.respondedAt : sla.resolvedAt;
+  const breached = response ? sla.responseBreached : sla.resolutionBreached;
+
+  const due = new Date(dueAt).getTime();
+  const minutesLeft = ((stoppedAt ? new Date(stoppedAt).getTime() : due) - now) / 60000;
+  const base = { timer, dueAt, stoppedAt, minutesLeft: (due - now) / 60000 };
+
+  if (stoppedAt) {
+    return { ...base, minutesLeft, status: breached ? 'breached' : 'met' };
+  }
+  if (breached || due < now) return { ...base, status: 'breached' };
+  if (closed) return { ...base, status: 'stopped' };
+  if (sla.pausedAt) return { ...base, status: 'paused' };
+  if (warnAt && new Date(warnAt).getTime() <= now) return { ...base, status: 'warning' };
+  return { ...base, status: 'running' };
+}
+
+function useNow(intervalMs = 60000) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(id);
+  }, [intervalMs]);
+
+  return now;
+}
+
+const describe = (state: TimerState) => {
+  switch (state.status) {
+    case 'met':
+      return 'Met';
+    case 'paused':
+      return 'Paused while on hold';
+    case 'stopped':
+      return 'Stopped';
+    case 'breached':
+      return state.stoppedAt ? 'Missed' : `Overdue by ${formatLeft(state.minutesLeft)}`;
+    default:
+      return `${formatLeft(state.minutesLeft)} left`;
+  }
+};
+
+// ----------------------------------------------------------------------
+
+type ChipProps = {
+  sla?: IWorkOrderSla;
+  status: string;
+};
+
+/**
+ * Compact running timer for lists: the response clock until someone is
+ * assigned, then the resolution clock
+ */
+export function WorkOrderSlaChip({ sla, status }: ChipProps) {
+  const now = useNow();
+
+  if (!sla) return null;
+
+  const closed = status === 'completed' || status === 'cancelled';
+  const response = getTimerState(sla, 'response', now, closed);
+  const state =
+    response.stoppedAt || closed ? getTimerState(sla, 'resolution', now, closed) : response;
+  if (state.status === 'stopped') return null;
+
+  return (
+    <Tooltip
+      title={`${sla.policyName}: ${TIMER_LABELS[state.timer]} due ${fDateTime(state.dueAt)}`}
+    >
+      <Chip
+        size="small"
+        variant="soft"
+        color={STATUS_COLORS[state.status]}
+        icon={<Iconify icon="solar:clock-circle-bold" />}
+        label={`${TIMER_LABELS[state.timer]}: ${describe(state)}`}
+      />
+    </Tooltip>
+  );
+}
+
+// ----------------------------------------------------------------------
+
+type CardProps = {
+  sla?: IWorkOrderSla;
+  status: string;
+};
+
+export function WorkOrderSlaCard({ sla, status }: CardProps) {
+  const now = useNow();
+
+  if (!sla) return null;
+
+  const closed = status === 'completed' || status === 'cancelled';
+
+  return (
+    <Card>
+      <CardHeader title="Service level" subheader={sla.policyName} />
+      <Stack spacing={2} sx={{ p: 3 }}>
+        {(['response', 'resolution'] as SlaTimer[]).map((timer) => {
+          const state = getTimerState(sla, timer, now, closed);
+          return (
+            <Stack key={timer} direction="row" alignItems="center" justifyContent="space-between">
+              <Stack spacing={0.25}>
+                <Typography variant="subtitle2">{TIMER_LABELS[timer]}</Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {state.stoppedAt
+                    ? `Due ${fDateTime(state.dueAt)} · done ${fDateTime(state.stoppedAt)}`
+                    : `Due ${fDateTime(state.dueAt)}`}
+                </Typography>
+              </Stack>
+              <Chip
+                size="small"
+                variant="soft"
+                color={STATUS_COLORS[state.status]}
+                label={describe(state)}
+              />
+            </Stack>
+          );
+        })}
+        {sla.pausedMinutes > 0 && (
+          <Typography variant="caption" color="text.secondary">
+            {formatMinutesToDuration(sla.pausedMinutes)} of business time on hold added to the
+            targets
+          </Typography>
+        )}
+      </Stack>
+    </Card>
+  );
+}
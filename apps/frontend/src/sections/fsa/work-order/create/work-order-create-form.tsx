@@ -26,8 +26,8 @@ import { paths } from 'src/routes/paths';
 import { RouterLink } from 'src/routes/components';
 
 import { useTranslate } from 'src/locales/use-locales';
-import axiosInstance, { endpoints } from 'src/lib/axios';
 import { type Client } from 'src/lib/services/client-service';
+import axiosInstance, { fetcher, endpoints } from 'src/lib/axios';
 import { getPriorityOptionsWithMetadata } from 'src/constants/priorities';
 
 import { toast } from 'src/components/snackbar';
@@ -38,6 +38,8 @@ import {
   RHFSelect,
   RHFUpload,
   RHFTextField,
+  RHFMultiSelect,
+  RHFAutocomplete,
   RHFDateTimePicker,
 } from 'src/components/hook-form';
 
@@ -60,6 +62,9 @@ const workOrderSchema = zod.object({
   estimatedDurationValue: zod.number().optional(),
   estimatedDurationUnit: zod.enum(['hours', 'days', 'weeks', 'months']).optional(),
   personnelIds: zod.array(zod.string()).optional(),
+  assetIds: zod.array(zod.string()).optional(),
+  requiredSkills: zod.array(zod.string()).optional(),
+  requiredCertifications: zod.array(zod.string()).optional(),
   attachments: zod.array(zod.any()).optional(),
   progressMode: zod.enum(['computed', 'manual']).optional(),
   progressManual: zod.number().min(0).max(100).optional(),
@@ -108,6 +113,16 @@ export function WorkOrderCreateForm({ id }: Props) {
   const clients = useMemo(() => clientsData?.data?.clients || [], [clientsData]);
   const personnel = useMemo(() => personnelData?.data || [], [personnelData]);
 
+  // Offer the skills and certifications already recorded on personnel
+  const skillOptions = useMemo(
+    () => Array.from(new Set<string>(personnel.flatMap((p: any) => p.skills || []))).sort(),
+    [personnel]
+  );
+  const certificationOptions = useMemo(
+    () => Array.from(new Set<string>(personnel.flatMap((p: any) => p.certifications || []))).sort(),
+    [personnel]
+  );
+
   const methods = useForm<WorkOrderFormValues>({
     resolver: zodResolver(workOrderSchema),
     defaultValues: {
@@ -120,6 +135,9 @@ export function WorkOrderCreateForm({ id }: Props) {
       estimatedDurationValue: undefined,
       estimatedDurationUnit: 'hours' as const,
       personnelIds: [],
+      assetIds: [],
+      requiredSkills: [],
+      requiredCertifications: [],
       attachments: [],
       progressMode: 'computed',
       progressManual: undefined,
@@ -188,6 +206,11 @@ export function WorkOrderCreateForm({ id }: Props) {
           personnelIds: Array.isArray(w.personnelIds)
             ? w.personnelIds.map((p: any) => p._id ?? p)
             : [],
+          assetIds: Array.isArray(w.assetIds) ? w.assetIds : [],
+          requiredSkills: Array.isArray(w.requiredSkills) ? w.requiredSkills : [],
+          requiredCertifications: Array.isArray(w.requiredCertifications)
+            ? w.requiredCertifications
+            : [],
           attachments: attachments.map((att: any) => att.url || att),
           progressMode: w.progressMode ?? 'computed',
           progressManual: w.progressManual,
@@ -248,6 +271,35 @@ export function WorkOrderCreateForm({ id }: Props) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [id, authenticated, authLoading]);
 
+  // Equipment registered for the selected client
+  const selectedClientId = methods.watch('clientId');
+  const { data: assetsData } = useSWR(
+    selectedClientId
+      ? [endpoints.fsa.assets.list, { params: { clientId: selectedClientId, limit: 100 } }]
+      : null,
+    fetcher<any>
+  );
+  const assetOptions = useMemo(
+    () =>
+      (assetsData?.data || []).map((asset: any) => ({
+        value: asset._id,
+        label: asset.serialNumber ? `${asset.name} (${asset.serialNumber})` : asset.name,
+      })),
+    [assetsData]
+  );
+
+  // Drop equipment that doesn't belong to a newly selected client
+  useEffect(() => {
+    if (!assetsData) return;
+    const current = methods.getValues('assetIds') || [];
+    const allowed = current.filter((assetId) =>
+      assetOptions.some((option: { value: string }) => option.value === assetId)
+    );
+    if (allowed.length !== current.length) {
+      methods.setValue('assetIds', allowed);
+    }
+  }, [assetsData, assetOptions, methods]);
+
   // Auto-select first client when clients are loaded (only for create)
   useEffect(() => {
     if (!id && clients.length > 0 && !methods.getValues('clientId')) {
@@ -615,6 +667,33 @@ export function WorkOrderCreateForm({ id }: Props) {
                       </Grid>
                     </Stack>
                   </Grid>
+
+                  <Grid size={{ xs: 12, md: 6 }}>
+                    <RHFAutocomplete
+                      name="requiredSkills"
+                      label={t('requiredSkills', { defaultValue: 'Required Skills' })}
+                      placeholder={t('addSkill', { defaultValue: 'Add skill' })}
+                      multiple
+                      freeSolo
+                      options={skillOptions}
+                    />
+                  </Grid>
+
+                  <Grid size={{ xs: 12, md: 6 }}>
+                    <RHFAutocomplete
+                      name="requiredCertifications"
+                      label={t('requiredCertifications', {
+                        defaultValue: 'Required Certifications',
+                      })}
+                      placeholder={t('addCertification', { defaultValue: 'Add certification' })}
+                      helperText={t('requiredCertificationsHint', {
+                        defaultValue: 'Only personnel holding every certification are suggested.',
+                      })}
+                      multiple
+                      freeSolo
+                      options={certificationOptions}
+                    />
+                  </Grid>
                 </Grid>
               </Stack>
 
@@ -635,6 +714,26 @@ export function WorkOrderCreateForm({ id }: Props) {
                       rows={2}
                     />
                   </Grid>
+                  <Grid size={{ xs: 12 }}>
+                    <RHFMultiSelect
+                      chip
+                      checkbox
+                      fullWidth
+                      name="assetIds"
+                      label={t('equipment', { defaultValue: 'Equipment' })}
+                      options={assetOptions}
+                      disabled={assetOptions.length === 0}
+                      helperText={
+                        assetOptions.length === 0
+                          ? t('noEquipmentForClient', {
+                              defaultValue: 'No equipment registered for this client',
+                            })
+                          : t('equipmentHint', {
+                              defaultValue: 'Service on this work order is added to their history',
+                            })
+                      }
+                    />
+                  </Grid>
                 </Grid>
               </Stack>
 
@@ -0,0 +1,236 @@
+'use client';
+
+import type { AssignmentSuggestion } from 'src/lib/services/work-order-service';
+
+import useSWR from 'swr';
+import { useState, useEffect } from 'react';
+
+import {
+  Box,
+  Chip,
+  Alert,
+  Stack,
+  Button,
+  Dialog,
+  Tooltip,
+  Checkbox,
+  Typography,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  LinearProgress,
+} from '@mui/material';
+
+import { useTranslate } from 'src/locales/use-locales';
+import { workOrderService } from 'src/lib/services/work-order-service';
+
+import { toast } from 'src/components/snackbar';
+
+// ----------------------------------------------------------------------
+
+type Props = {
+  open: boolean;
+  workOrderId: string;
+  onCloseAction: () => void;
+  onAssignedAction: () => void;
+};
+
+const scoreColor = (score: number) => (score >= 75 ? 'success' : score >= 50 ? 'warning' : 'error');
+
+export function WorkOrderAssignmentSuggestionsDialog({
+  open,
+  workOrderId,
+  onCloseAction,
+  onAssignedAction,
+}: Props) {
+  const { t } = useTranslate('common');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  const { data, isLoading } = useSWR(
+    open ? ['work-order-assignment-suggestions', workOrderId] : null,
+    () => workOrderService.getAssignmentSuggestions(workOrderId)
+  );
+
+  const suggestions = data?.data?.suggestions || [];
+  const excluded = data?.data?.excluded || [];
+  const requirements = data?.data?.workOrder;
+
+  useEffect(() => {
+    if (open) setSelected([]);
+  }, [open]);
+
+  const toggle = (personnelId: string) => {
+    setSelected((prev) =>
+      prev.includes(personnelId) ? prev.filter((id) => id !== personnelId) : [...prev, personnelId]
+    );
+  };
+
+  const handleAccept = async () => {
+    try {
+      setSubmitting(true);
+      await workOrderService.acceptAssignmentSuggestions(workOrderId, selected);
+      toast.success(t('suggestionsAssigned', { defaultValue: 'Personnel assigned' }));
+      onAssignedAction();
+      onCloseAction();
+    } catch (error: any) {
+      console.error('Failed to assign suggested personnel:', error);
+      toast.error(error?.message || 'Failed to assign suggested personnel');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderSuggestion = (suggestion: AssignmentSuggestion) => {
+    const { personnel, breakdown } = suggestion;
+    const checked = selected.includes(personnel._id);
+
+    return (
+      <Stack
+        key={personnel._id}
+        direction="row"
+        spacing={1.5}
+        alignItems="flex-start"
+        onClick={() => toggle(personnel._id)}
+        sx={{
+          p: 1.5,
+          borderRadius: 1,
+          cursor: 'pointer',
+          border: 1,
+          borderColor: checked ? 'primary.main' : 'divider',
+        }}
+      >
+        <Checkbox checked={checked} sx={{ mt: -0.5 }} />
+
+        <Stack spacing={1} sx={{ flex: 1, minWidth: 0 }}>
+          <Stack direction="row" spacing={1} alignItems="center">
+            <Typography variant="subtitle2" noWrap sx={{ flex: 1 }}>
+              {personnel.name}
+            </Typography>
+            <Tooltip
+              title={`${t('skills', { defaultValue: 'Skills' })} ${breakdown.skills} · ${t(
+                'availability',
+                { defaultValue: 'Availability' }
+              )} ${breakdown.availability} · ${t('workload', { defaultValue: 'Workload' })} ${
+                breakdown.load
+              } · ${t('distance', { defaultValue: 'Distance' })} ${breakdown.distance}`}
+            >
+              <Chip
+                size="small"
+                color={scoreColor(suggestion.score)}
+                label={`${suggestion.score}/100`}
+              />
+            </Tooltip>
+          </Stack>
+
+          <LinearProgress
+            variant="determinate"
+            value={suggestion.score}
+            color={scoreColor(suggestion.score)}
+          />
+
+          <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+            {suggestion.matchedSkills.map((skill) => (
+              <Chip key={skill} size="small" color="success" variant="soft" label={skill} />
+            ))}
+            {suggestion.missingSkills.map((skill) => (
+              <Chip
+                key={skill}
+                size="small"
+                variant="outlined"
+                label={skill}
+                sx={{ textDecoration: 'line-through' }}
+              />
+            ))}
+          </Stack>
+
+          <Typography variant="caption" color="text.secondary">
+            {[
+              suggestion.available === false
+                ? t('notAvailableThatDay', { defaultValue: 'Not available that day' })
+                : suggestion.available
+                  ? t('availableThatDay', { defaultValue: 'Available that day' })
+                  : null,
+              suggestion.scheduledWorkOrders > 0
+                ? t('bookedWorkOrders', {
+                    defaultValue: '{{count}} other work order(s) that day',
+                    count: suggestion.scheduledWorkOrders,
+                  })
+                : null,
+              t('openTasksCount', {
+                defaultValue: '{{count}} open task(s)',
+                count: suggestion.openTasks,
+              }),
+              suggestion.distanceKm !== null ? `${suggestion.distanceKm} km` : null,
+            ]
+              .filter(Boolean)
+              .join(' · ')}
+          </Typography>
+        </Stack>
+      </Stack>
+    );
+  };
+
+  return (
+    <Dialog open={open} onClose={onCloseAction} maxWidth="sm" fullWidth>
+      <DialogTitle>{t('suggestedPersonnel', { defaultValue: 'Suggested Personnel' })}</DialogTitle>
+
+      <DialogContent>
+        <Stack spacing={2}>
+          {requirements &&
+            (requirements.requiredSkills.length > 0 ||
+              requirements.requiredCertifications.length > 0) && (
+              <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+                {requirements.requiredCertifications.map((cert) => (
+                  <Chip key={cert} size="small" color="info" label={cert} />
+                ))}
+                {requirements.requiredSkills.map((skill) => (
+                  <Chip key={skill} size="small" variant="outlined" label={skill} />
+                ))}
+              </Stack>
+            )}
+
+          {isLoading && <LinearProgress />}
+
+          {!isLoading && suggestions.length === 0 && (
+            <Alert severity="info">
+              {t('noSuggestedPersonnel', {
+                defaultValue: 'No eligible personnel found for this work order.',
+              })}
+            </Alert>
+          )}
+
+          {suggestions.map(renderSuggestion)}
+
+          {excluded.length > 0 && (
+            <Box>
+              <Typography variant="caption" color="text.secondary">
+                {t('excludedForCertifications', {
+                  defaultValue: 'Missing required certifications:',
+                })}{' '}
+                {excluded
+                  .map(
+                    (entry) => `${entry.personnel.name} (${entry.missingCertifications.join(', ')})`
+                  )
+                  .join('; ')}
+              </Typography>
+            </Box>
+          )}
+        </Stack>
+      </DialogContent>
+
+      <DialogActions>
+        <Button variant="outlined" onClick={onCloseAction}>
+          {t('cancel', { defaultValue: 'Cancel' })}
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleAccept}
+          disabled={selected.length === 0 || submitting}
+        >
+          {t('assignSelected', { defaultValue: 'Assign Selected' })}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -19,6 +19,8 @@ import {
 
 import { paths } from 'src/routes/paths';
 
+import { useWorkOrderStatuses } from 'src/hooks/use-work-order-statuses';
+
 import { fDateTime } from 'src/utils/format-time';
 import {
   calculateTimeProgress,
@@ -27,7 +29,7 @@ import {
 } from 'src/utils/format-duration';
 
 import { useTranslate } from 'src/locales/use-locales';
-import axiosInstance, { endpoints } from 'src/lib/axios';
+import axiosInstance, { fetcher, endpoints } from 'src/lib/axios';
 
 import { Editor } from 'src/components/editor';
 import { Iconify } from 'src/components/iconify';
@@ -36,9 +38,12 @@ import { CustomBreadcrumbs } from 'src/components/custom-breadcrumbs';
 import { AnalyticsOrderTimeline } from 'src/sections/overview/analytics/analytics-order-timeline';
 import { KanbanTaskCreateDialog } from 'src/sections/kanban/components/kanban-task-create-dialog';
 
+import { WorkOrderStatusActions } from './work-order-status-actions';
+import { WorkOrderSlaCard } from '../components/work-order-sla-timer';
 import { WorkOrderDetailsAttachments } from './work-order-details-attachments';
 import { WorkOrderSmsReminders } from '../components/work-order-sms-reminders';
 import { WorkOrderPersonnelSelection } from '../create/work-order-personnel-selection';
+import { WorkOrderAssignmentSuggestionsDialog } from './work-order-assignment-suggestions-dialog';
 
 // ----------------------------------------------------------------------
 
@@ -96,6 +101,8 @@ const getTimelineType = (eventType: string, entityType: string) => {
         return 'order3'; // info
       case 'status_changed':
         return 'order4'; // warning
+      case 'sla_breached':
+        return 'order5'; // error
       default:
         return 'order1';
     }
@@ -132,6 +139,7 @@ export function WorkOrderDetails({ id }: Props) {
 
   // Task creation dialog state
   const taskCreateDialog = useBoolean();
+  const suggestionsDialog = useBoolean();
 
   const handleCreateTask = () => {
     taskCreateDialog.onTrue();
@@ -174,6 +182,24 @@ export function WorkOrderDetails({ id }: Props) {
 
   const workOrder = detailsRes?.data;
 
+  // Tenant workflow status, falling back to the built-in status name
+  const { resolveStatus } = useWorkOrderStatuses();
+  const statusLabel = resolveStatus(workOrder)?.name || workOrder?.status || 'created';
+
+  // Resolve linked equipment against the client's asset register
+  const assetIds: string[] = workOrder?.assetIds || [];
+  const workOrderClientId =
+    typeof workOrder?.clientId === 'object' ? workOrder.clientId._id : workOrder?.clientId;
+  const { data: assetsRes } = useSWR(
+    assetIds.length > 0 && workOrderClientId
+      ? [endpoints.fsa.assets.list, { params: { clientId: workOrderClientId, limit: 100 } }]
+      : null,
+    fetcher<any>
+  );
+  const linkedAssets = (assetsRes?.data || []).filter((asset: any) =>
+    assetIds.includes(asset._id)
+  );
+
   return (
     <Container maxWidth="xl">
       <CustomBreadcrumbs
@@ -194,6 +220,16 @@ export function WorkOrderDetails({ id }: Props) {
         ]}
         action={
           <Stack direction="row" spacing={1}>
+            <WorkOrderStatusActions
+              workOrderId={id}
+              onChanged={async () => {
+                await Promise.all([
+                  mutate(endpoints.fsa.workOrders.details(id)),
+                  mutate(endpoints.fsa.workOrders.summary(id)),
+                  mutate(`/api/v1/work-orders/${id}/timeline`),
+                ]);
+              }}
+            />
             <Button
               variant="contained"
               startIcon={<Iconify icon="solar:task-square-bold" />}
@@ -223,7 +259,7 @@ export function WorkOrderDetails({ id }: Props) {
                   <Stack spacing={1}>
                     <Typography variant="h5">{workOrder?.title || '—'}</Typography>
                     <Stack direction="row" spacing={1} alignItems="center">
-                      <Chip label={workOrder?.status || 'created'} size="small" variant="soft" />
+                      <Chip label={statusLabel} size="small" variant="soft" />
                       <Chip
                         label={workOrder?.priority || 'medium'}
                         size="small"
@@ -351,7 +387,7 @@ export function WorkOrderDetails({ id }: Props) {
                 <Stack direction="row" alignItems="center" spacing={2}>
                   <Typography variant="h5">{workOrder?.title || '—'}</Typography>
                   <Chip
-                    label={workOrder?.status || 'created'}
+                    label={statusLabel}
                     color={getStatusColor(workOrder?.status || 'created')}
                     variant="soft"
                   />
@@ -509,6 +545,8 @@ export function WorkOrderDetails({ id }: Props) {
         {/* Sidebar */}
         <Grid size={{ xs: 12, md: 4 }}>
           <Stack spacing={3}>
+            <WorkOrderSlaCard sla={workOrder?.sla} status={workOrder?.status} />
+
             {/* Client Information */}
             <Card>
               <CardContent>
@@ -519,6 +557,26 @@ export function WorkOrderDetails({ id }: Props) {
                       {typeof workOrder?.clientId === 'object' ? workOrder.clientId.name : '—'}
                     </Typography>
                   </Stack>
+                  {linkedAssets.length > 0 && (
+                    <Stack spacing={1}>
+                      <Typography variant="caption" color="text.secondary">
+                        {t('equipment', { defaultValue: 'Equipment' })}
+                      </Typography>
+                      <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+                        {linkedAssets.map((asset: any) => (
+                          <Chip
+                            key={asset._id}
+                            size="small"
+                            variant="outlined"
+                            clickable
+                            component="a"
+                            href={paths.dashboard.fsa.assets.details(asset._id)}
+                            label={asset.name}
+                          />
+                        ))}
+                      </Stack>
+                    </Stack>
+                  )}
                 </Stack>
               </CardContent>
             </Card>
@@ -527,6 +585,17 @@ export function WorkOrderDetails({ id }: Props) {
             <Card>
               <CardContent>
                 <Stack spacing={2}>
+                  {((workOrder as any)?.requiredCertifications?.length > 0 ||
+                    (workOrder as any)?.requiredSkills?.length > 0) && (
+                    <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+                      {((workOrder as any).requiredCertifications || []).map((cert: string) => (
+                        <Chip key={cert} size="small" color="info" label={cert} />
+                      ))}
+                      {((workOrder as any).requiredSkills || []).map((skill: string) => (
+                        <Chip key={skill} size="small" variant="outlined" label={skill} />
+                      ))}
+                    </Stack>
+                  )}
                   <WorkOrderPersonnelSelection
                     value={
                       Array.isArray(workOrder?.personnelIds)
@@ -546,6 +615,14 @@ export function WorkOrderDetails({ id }: Props) {
                       }
                     }}
                   />
+                  <Button
+                    size="small"
+                    variant="outlined"
+                    startIcon={<Iconify icon="solar:users-group-rounded-bold" />}
+                    onClick={suggestionsDialog.onTrue}
+                  >
+                    {t('suggestPersonnel', { defaultValue: 'Suggest Personnel' })}
+                  </Button>
                 </Stack>
               </CardContent>
             </Card>
@@ -562,6 +639,13 @@ export function WorkOrderDetails({ id }: Props) {
         </Grid>
       </Grid>
 
+      <WorkOrderAssignmentSuggestionsDialog
+        open={suggestionsDialog.value}
+        workOrderId={id}
+        onCloseAction={suggestionsDialog.onFalse}
+        onAssignedAction={() => mutate(endpoints.fsa.workOrders.details(id))}
+      />
+
       {/* Task Creation Dialog */}
       <KanbanTaskCreateDialog
         open={taskCreateDialog.value}
@@ -0,0 +1,147 @@
+'use client';
+
+import type { IAvailableTransition } from 'src/lib/models/WorkOrderStatus';
+
+import useSWR from 'swr';
+import { useState } from 'react';
+import { usePopover } from 'minimal-shared/hooks';
+
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Dialog from '@mui/material/Dialog';
+import MenuItem from '@mui/material/MenuItem';
+import MenuList from '@mui/material/MenuList';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+
+import { fetcher, endpoints } from 'src/lib/axios';
+import { WorkOrderStatusService } from 'src/lib/services/work-order-status-service';
+
+import { toast } from 'src/components/snackbar';
+import { Iconify } from 'src/components/iconify';
+import { CustomPopover } from 'src/components/custom-popover';
+
+// ----------------------------------------------------------------------
+
+type Props = {
+  workOrderId: string;
+  onChanged: () => void | Promise<void>;
+};
+
+export function WorkOrderStatusActions({ workOrderId, onChanged }: Props) {
+  const menu = usePopover();
+
+  const [target, setTarget] = useState<IAvailableTransition | null>(null);
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const { data, mutate: mutateTransitions } = useSWR(
+    endpoints.fsa.workOrders.transitions(workOrderId),
+    fetcher<any>
+  );
+  const transitions: IAvailableTransition[] = data?.data?.transitions || [];
+
+  const notesRequired = !!target?.requirements.includes('notes');
+
+  const handleSelect = (transition: IAvailableTransition) => {
+    menu.onClose();
+    setNotes('');
+    setTarget(transition);
+  };
+
+  const handleConfirm = async () => {
+    if (!target) return;
+    setSaving(true);
+    try {
+      await WorkOrderStatusService.transition(workOrderId, target.to, notes.trim() || undefined);
+      toast.success(`Status changed to ${target.name}`);
+      setTarget(null);
+      await Promise.all([onChanged(), mutateTransitions()]);
+    } catch (error: any) {
+      console.error('Failed to change work order status:', error);
+      toast.error(error?.message || 'Failed to change work order status');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (transitions.length === 0) return null;
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        startIcon={<Iconify icon="solar:pen-bold" />}
+        onClick={menu.onOpen}
+      >
+        Change status
+      </Button>
+
+      <CustomPopover
+        open={menu.open}
+        anchorEl={menu.anchorEl}
+        onClose={menu.onClose}
+        slotProps={{ arrow: { placement: 'top-right' } }}
+      >
+        <MenuList>
+          {transitions.map((transition) => (
+            <MenuItem
+              key={transition.to}
+              disabled={!transition.allowed}
+              onClick={() => handleSelect(transition)}
+              sx={{ alignItems: 'flex-start' }}
+            >
+              <Box
+                sx={{
+                  mt: 0.75,
+                  width: 10,
+                  height: 10,
+                  flexShrink: 0,
+                  borderRadius: '50%',
+                  bgcolor: transition.color,
+                }}
+              />
+              <Box>
+                <Typography variant="body2">{transition.name}</Typography>
+                {transition.missing.map((message) => (
+                  <Typography key={message} variant="caption" component="div" color="error.main">
+                    {message}
+                  </Typography>
+                ))}
+              </Box>
+            </MenuItem>
+          ))}
+        </MenuList>
+      </CustomPopover>
+
+      <Dialog open={!!target} onClose={() => setTarget(null)} fullWidth maxWidth="xs">
+        <DialogTitle>Move to {target?.name}</DialogTitle>
+        <DialogContent dividers>
+          <TextField
+            fullWidth
+            multiline
+            minRows={3}
+            label={notesRequired ? 'Note (required)' : 'Note'}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button color="inherit" onClick={() => setTarget(null)}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            disabled={saving || (notesRequired && !notes.trim())}
+            onClick={handleConfirm}
+          >
+            Change status
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+}
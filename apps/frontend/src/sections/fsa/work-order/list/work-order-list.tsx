@@ -1,5 +1,7 @@
 'use client';
 
+import type { IWorkOrderSla } from 'src/lib/models/SlaPolicy';
+
 import { useMemo, useState } from 'react';
 import useSWR, { type SWRConfiguration } from 'swr';
 import { useRouter, useSearchParams } from 'next/navigation';
@@ -27,6 +29,8 @@ import {
   CircularProgress,
 } from '@mui/material';
 
+import { useWorkOrderStatuses } from 'src/hooks/use-work-order-statuses';
+
 import { fDateTime } from 'src/utils/format-time';
 import { truncateText } from 'src/utils/text-truncate';
 import { formatEstimatedDuration, formatMinutesToDuration } from 'src/utils/format-duration';
@@ -43,6 +47,8 @@ import { CascadeDeleteDialog, type CascadeDeleteInfo } from 'src/components/casc
 import { View403 } from 'src/sections/error';
 import { KanbanTaskCreateDialog } from 'src/sections/kanban/components/kanban-task-create-dialog';
 
+import { WorkOrderSlaChip } from '../components/work-order-sla-timer';
+
 // ----------------------------------------------------------------------
 
 const swrOptions: SWRConfiguration = {
@@ -60,6 +66,8 @@ interface WorkOrder {
   details?: string;
   clientId: string | { _id: string; name: string; email: string; phone: string; company: string };
   status: 'created' | 'assigned' | 'in-progress' | 'completed' | 'cancelled' | 'on-hold';
+  workflowStatus?: string; // Tenant-defined status; `status` is its category
+  sla?: IWorkOrderSla;
   priority: 'low' | 'medium' | 'high' | 'urgent';
   scheduledDate?: string;
   location?: { address?: string };
@@ -123,6 +131,7 @@ export function WorkOrderList() {
   const searchParams = useSearchParams();
   const router = useRouter();
   const { t } = useTranslate('common');
+  const { resolveStatus } = useWorkOrderStatuses();
   const [page, setPage] = useState(0);
   const [rowsPerPage, setRowsPerPage] = useState(10);
   const [selectedId, setSelectedId] = useState<string | null>(null);
@@ -378,12 +387,15 @@ export function WorkOrderList() {
                     </TableCell>
 
                     <TableCell>
-                      <Chip
-                        label={truncateText(row.status)}
-                        color={getStatusColor(row.status)}
-                        variant="soft"
-                        size="small"
-                      />
+                      <Stack spacing={0.5} alignItems="flex-start">
+                        <Chip
+                          label={truncateText(resolveStatus(row)?.name || row.status)}
+                          color={getStatusColor(row.status)}
+                          variant="soft"
+                          size="small"
+                        />
+                        <WorkOrderSlaChip sla={row.sla} status={row.status} />
+                      </Stack>
                     </TableCell>
 
                     <TableCell>
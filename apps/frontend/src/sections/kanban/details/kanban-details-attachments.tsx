@@ -4,8 +4,8 @@ import { useState, useEffect, useCallback } from 'react';
 
 import { extractFileMetadataFromUrl } from 'src/utils/file-url-converter';
 
-import axiosInstance from 'src/lib/axios';
 import { CONFIG } from 'src/global-config';
+import { sendOrQueue } from 'src/lib/offline-outbox';
 
 import { toast } from 'src/components/snackbar';
 import { UploadBox, MultiFilePreview } from 'src/components/upload';
@@ -87,21 +87,27 @@ export function KanbanDetailsAttachments({ attachments, taskId, tenantId, onChan
       }
 
       const upload = async () => {
-        const form = new FormData();
-        form.append('scope', 'task');
-        if (taskId) {
-          form.append('taskId', taskId);
-        }
-        acceptedFiles.forEach((file) => form.append('files', file));
-
         try {
-          const res = await axiosInstance.post('/api/v1/uploads', form, {
-            headers: {
-              'Content-Type': undefined, // Let browser set multipart boundary
+          const result = await sendOrQueue(
+            {
+              label: `Upload ${acceptedFiles.length} file(s)`,
+              method: 'post',
+              url: '/api/v1/uploads',
+              // Queued photos are attached to the task by the upload itself
+              body: taskId ? { scope: 'task', taskId, attachToTask: 'true' } : { scope: 'task' },
             },
-          });
+            acceptedFiles
+          );
+
+          if (result.queued) {
+            // Preview locally until the outbox uploads them
+            setFiles([...files, ...acceptedFiles]);
+            toast.info('Files saved offline - will upload when connection restored');
+            return;
+          }
+
           // Convert response to FileMetadata objects
-          const uploadedFiles: FileMetadata[] = (res.data?.data || []).map((f: any) => ({
+          const uploadedFiles: FileMetadata[] = (result.data?.data || []).map((f: any) => ({
             filename: f.filename || f.name,
             originalName: f.name,
             url: f.url,
@@ -7,7 +7,7 @@ import Button from '@mui/material/Button';
 import Avatar from '@mui/material/Avatar';
 import InputBase from '@mui/material/InputBase';
 
-import axiosInstance from 'src/lib/axios';
+import { sendOrQueue } from 'src/lib/offline-outbox';
 
 import { toast } from 'src/components/snackbar';
 
@@ -39,14 +39,23 @@ export function KanbanDetailsCommentInput({
 
     setIsSubmitting(true);
     try {
-      await axiosInstance.post(`/api/v1/comments/${taskId}`, {
-        message: message.trim(),
-        messageType: 'text',
+      const result = await sendOrQueue({
+        label: 'Comment',
+        method: 'post',
+        url: `/api/v1/comments/${taskId}`,
+        body: {
+          message: message.trim(),
+          messageType: 'text',
+        },
       });
 
       setMessage('');
-      await mutate(`/api/v1/comments/${taskId}`);
-      toast.success('Comment added');
+      if (result.queued) {
+        toast.info('Comment saved offline - will sync when connection restored');
+      } else {
+        await mutate(`/api/v1/comments/${taskId}`);
+        toast.success('Comment added');
+      }
 
       // Notify parent to scroll to bottom
       onCommentSent?.();
@@ -1,7 +1,7 @@
 import type { IMaterial } from 'src/lib/models/Material';
 
 import useSWR, { mutate } from 'swr';
-import { useState, useEffect, useCallback } from 'react';
+import { useMemo, useState, useEffect, useCallback } from 'react';
 
 import {
   Box,
@@ -26,6 +26,7 @@ import {
   InputAdornment,
 } from '@mui/material';
 
+import { sendOrQueue } from 'src/lib/offline-outbox';
 import axiosInstance, { endpoints } from 'src/lib/axios';
 import { MaterialService } from 'src/lib/services/material-service';
 
@@ -42,12 +43,14 @@ interface TaskMaterial {
   quantity: number;
   unitCost: number;
   totalCost: number;
+  location?: { _id: string; name: string; type: 'warehouse' | 'vehicle' } | null;
   addedBy: {
     _id: string;
     name: string;
     email?: string;
   };
   addedAt: string;
+  updatedAt?: string;
 }
 
 interface KanbanDetailsMaterialsProps {
@@ -244,16 +247,26 @@ export function KanbanDetailsMaterials({ taskId }: KanbanDetailsMaterialsProps)
     }
   );
 
-  const taskMaterials: TaskMaterial[] = materialsData?.data || [];
+  const taskMaterials: TaskMaterial[] = useMemo(
+    () => materialsData?.data || [],
+    [materialsData?.data]
+  );
 
   const handleAddMaterial = useCallback(
     async (materialId: string, quantity: number) => {
       try {
-        await axiosInstance.post(endpoints.fsa.tasks.materials.add(taskId), {
-          materialId,
-          quantity,
+        const result = await sendOrQueue({
+          label: 'Add material',
+          method: 'post',
+          url: endpoints.fsa.tasks.materials.add(taskId),
+          body: { materialId, quantity },
         });
 
+        if (result.queued) {
+          toast.info('Material saved offline - will sync when connection restored');
+          return;
+        }
+
         // Refresh the materials data
         await mutate(endpoints.fsa.tasks.materials.list(taskId));
         toast.success('Material added to task');
@@ -268,7 +281,26 @@ export function KanbanDetailsMaterials({ taskId }: KanbanDetailsMaterialsProps)
   const handleRemoveMaterial = useCallback(
     async (taskMaterialId: string) => {
       try {
-        await axiosInstance.delete(endpoints.fsa.tasks.materials.remove(taskId, taskMaterialId));
+        const result = await sendOrQueue({
+          label: 'Remove material',
+          method: 'delete',
+          url: endpoints.fsa.tasks.materials.remove(taskId, taskMaterialId),
+        });
+
+        if (result.queued) {
+          // Show the change until the queued request is synced
+          await mutate(
+            endpoints.fsa.tasks.materials.list(taskId),
+            (current: any) =>
+              current && {
+                ...current,
+                data: current.data.filter((item: TaskMaterial) => item._id !== taskMaterialId),
+              },
+            { revalidate: false }
+          );
+          toast.info('Change saved offline - will sync when connection restored');
+          return;
+        }
 
         // Refresh the materials data
         await mutate(endpoints.fsa.tasks.materials.list(taskId));
@@ -285,11 +317,36 @@ export function KanbanDetailsMaterials({ taskId }: KanbanDetailsMaterialsProps)
     async (taskMaterialId: string, newQuantity: number) => {
       if (newQuantity <= 0) return;
 
+      const current = taskMaterials.find((item) => item._id === taskMaterialId);
+
       try {
-        await axiosInstance.put(endpoints.fsa.tasks.materials.update(taskId, taskMaterialId), {
-          quantity: newQuantity,
+        const result = await sendOrQueue({
+          label: `Update ${current?.material?.name || 'material'} quantity`,
+          method: 'put',
+          url: endpoints.fsa.tasks.materials.update(taskId, taskMaterialId),
+          body: { quantity: newQuantity },
+          base: current ? { quantity: current.quantity } : undefined,
+          baseUpdatedAt: current?.updatedAt,
         });
 
+        if (result.queued) {
+          await mutate(
+            endpoints.fsa.tasks.materials.list(taskId),
+            (cached: any) =>
+              cached && {
+                ...cached,
+                data: cached.data.map((item: TaskMaterial) =>
+                  item._id === taskMaterialId
+                    ? { ...item, quantity: newQuantity, totalCost: item.unitCost * newQuantity }
+                    : item
+                ),
+              },
+            { revalidate: false }
+          );
+          toast.info('Change saved offline - will sync when connection restored');
+          return;
+        }
+
         // Refresh the materials data
         await mutate(endpoints.fsa.tasks.materials.list(taskId));
         toast.success('Material quantity updated');
@@ -298,7 +355,7 @@ export function KanbanDetailsMaterials({ taskId }: KanbanDetailsMaterialsProps)
         toast.error('Failed to update material quantity');
       }
     },
-    [taskId]
+    [taskId, taskMaterials]
   );
 
   const totalCost = taskMaterials.reduce((sum, item) => sum + item.totalCost, 0);
@@ -364,6 +421,23 @@ export function KanbanDetailsMaterials({ taskId }: KanbanDetailsMaterialsProps)
                                 variant="outlined"
                               />
                             )}
+                            {item.location && (
+                              <Chip
+                                label={item.location.name}
+                                size="small"
+                                variant="outlined"
+                                icon={
+                                  <Iconify
+                                    width={14}
+                                    icon={
+                                      item.location.type === 'vehicle'
+                                        ? 'carbon:delivery'
+                                        : 'solar:box-bold'
+                                    }
+                                  />
+                                }
+                              />
+                            )}
                           </Box>
                         </Box>
                       </Box>
@@ -39,7 +39,8 @@ import { useTaskRealtime, useRealtimeComments } from 'src/hooks/use-realtime';
 import { fDateTime } from 'src/utils/format-time';
 
 import { useTranslate } from 'src/locales/use-locales';
-import axiosInstance, { endpoints } from 'src/lib/axios';
+import axiosInstance, { fetcher, endpoints } from 'src/lib/axios';
+import { sendOrQueue, isOfflineId, createOfflineId } from 'src/lib/offline-outbox';
 
 import { toast } from 'src/components/snackbar';
 import { Iconify } from 'src/components/iconify';
@@ -193,6 +194,15 @@ export function KanbanDetails({
   });
   const clients = Array.isArray(clientsData?.data?.clients) ? clientsData.data.clients : [];
 
+  // Fetch the client's registered equipment for asset selection
+  const { data: assetsData } = useSWR(
+    open && task.clientId
+      ? [endpoints.fsa.assets.list, { params: { clientId: task.clientId, limit: 100 } }]
+      : null,
+    fetcher<any>
+  );
+  const assets = Array.isArray(assetsData?.data) ? assetsData.data : [];
+
   // Fetch kanban meta data for statuses
   const { data: kanbanMeta } = useSWR(open ? '/api/v1/kanban/meta' : null, async (url) => {
     const response = await axiosInstance.get(url);
@@ -394,6 +404,23 @@ export function KanbanDetails({
     }
   };
 
+  const handleChangeAsset = async (assetId: string) => {
+    try {
+      await axiosInstance.post(`${endpoints.kanban}?endpoint=update-task`, {
+        taskData: { id: task.id, assetId: assetId || null },
+      });
+
+      onUpdateTaskAction({ ...task, assetId: assetId || undefined });
+
+      await mutate((key) => typeof key === 'string' && key.includes(endpoints.kanban));
+
+      toast.success(t('assetUpdatedSuccessfully', { defaultValue: 'Equipment updated!' }));
+    } catch (error) {
+      console.error('Failed to update asset:', error);
+      toast.error(t('failedToUpdateAsset', { defaultValue: 'Failed to update equipment' }));
+    }
+  };
+
   const handleChangeClient = async (clientId: string) => {
     try {
       const selectedClient = clients.find((client: any) => client._id === clientId);
@@ -579,10 +606,40 @@ export function KanbanDetails({
   );
 
   // Subtask handlers
+  // Show a queued change until the outbox syncs it
+  const applyOfflineSubtasks = useCallback(
+    (update: (current: ISubtask[]) => ISubtask[]) =>
+      mutate(
+        `/api/v1/subtasks/${task.id}`,
+        (current: any) => current && { ...current, data: update(current.data || []) },
+        { revalidate: false }
+      ),
+    [task.id]
+  );
+
   const handleToggleSubtask = useCallback(
     async (subtaskId: string, completed: boolean) => {
+      const current = subtasks.find((s) => s._id === subtaskId);
       try {
-        await axiosInstance.put(`/api/v1/subtasks/${task.id}/${subtaskId}`, { completed });
+        const result = await sendOrQueue({
+          label: completed ? `Complete "${current?.title}"` : `Reopen "${current?.title}"`,
+          method: 'put',
+          url: `/api/v1/subtasks/${task.id}/${subtaskId}`,
+          body: { completed },
+          base: current ? { completed: current.completed } : undefined,
+          baseUpdatedAt: isOfflineId(subtaskId) ? undefined : current?.updatedAt,
+        });
+        if (result.queued) {
+          await applyOfflineSubtasks((items) =>
+            items.map((s) => (s._id === subtaskId ? { ...s, completed } : s))
+          );
+          toast.info(
+            t('savedOffline', {
+              defaultValue: 'Saved offline - will sync when connection restored',
+            })
+          );
+          return;
+        }
         await mutate(`/api/v1/subtasks/${task.id}`);
         toast.success(
           completed
@@ -594,27 +651,73 @@ export function KanbanDetails({
         toast.error(t('failedToUpdateSubtask', { defaultValue: 'Failed to update subtask' }));
       }
     },
-    [task.id, t]
+    [task.id, t, subtasks, applyOfflineSubtasks]
   );
 
   const handleCreateSubtask = useCallback(async () => {
-    if (!newSubtaskTitle.trim()) return;
+    const title = newSubtaskTitle.trim();
+    if (!title) return;
 
+    const tempId = createOfflineId();
     try {
-      await axiosInstance.post(`/api/v1/subtasks/${task.id}`, { title: newSubtaskTitle.trim() });
+      const result = await sendOrQueue({
+        label: `Add subtask "${title}"`,
+        method: 'post',
+        url: `/api/v1/subtasks/${task.id}`,
+        body: { title },
+        tempId,
+      });
       setNewSubtaskTitle('');
+      if (result.queued) {
+        const now = new Date().toISOString();
+        await applyOfflineSubtasks((items) => [
+          ...items,
+          {
+            _id: tempId,
+            title,
+            completed: false,
+            order: items.length,
+            createdBy: {
+              _id: user?.id || '',
+              name: user ? `${user.firstName} ${user.lastName}`.trim() : '',
+            },
+            createdAt: now,
+            updatedAt: now,
+          },
+        ]);
+        toast.info(
+          t('savedOffline', {
+            defaultValue: 'Saved offline - will sync when connection restored',
+          })
+        );
+        return;
+      }
       await mutate(`/api/v1/subtasks/${task.id}`);
       toast.success(t('subtaskCreated', { defaultValue: 'Subtask created' }));
     } catch (error) {
       console.error('Failed to create subtask:', error);
       toast.error(t('failedToCreateSubtask', { defaultValue: 'Failed to create subtask' }));
     }
-  }, [task.id, newSubtaskTitle, t]);
+  }, [task.id, newSubtaskTitle, t, user, applyOfflineSubtasks]);
 
   const handleDeleteSubtask = useCallback(
     async (subtaskId: string) => {
+      const current = subtasks.find((s) => s._id === subtaskId);
       try {
-        await axiosInstance.delete(`/api/v1/subtasks/${task.id}/${subtaskId}`);
+        const result = await sendOrQueue({
+          label: `Delete subtask "${current?.title}"`,
+          method: 'delete',
+          url: `/api/v1/subtasks/${task.id}/${subtaskId}`,
+        });
+        if (result.queued) {
+          await applyOfflineSubtasks((items) => items.filter((s) => s._id !== subtaskId));
+          toast.info(
+            t('savedOffline', {
+              defaultValue: 'Saved offline - will sync when connection restored',
+            })
+          );
+          return;
+        }
         await mutate(`/api/v1/subtasks/${task.id}`);
         toast.success(t('subtaskDeleted', { defaultValue: 'Subtask deleted' }));
       } catch (error) {
@@ -622,7 +725,7 @@ export function KanbanDetails({
         toast.error(t('failedToDeleteSubtask', { defaultValue: 'Failed to delete subtask' }));
       }
     },
-    [task.id, t]
+    [task.id, t, subtasks, applyOfflineSubtasks]
   );
 
   const handleStartEditSubtask = useCallback((subtask: ISubtask) => {
@@ -644,7 +747,26 @@ export function KanbanDetails({
     }
     try {
       setIsSavingSubtask(true);
-      await axiosInstance.put(`/api/v1/subtasks/${task.id}/${editingSubtaskId}`, { title });
+      const current = subtasks.find((s) => s._id === editingSubtaskId);
+      const result = await sendOrQueue({
+        label: `Rename subtask "${current?.title}"`,
+        method: 'put',
+        url: `/api/v1/subtasks/${task.id}/${editingSubtaskId}`,
+        body: { title },
+        base: current ? { title: current.title } : undefined,
+        baseUpdatedAt: isOfflineId(editingSubtaskId) ? undefined : current?.updatedAt,
+      });
+      if (result.queued) {
+        await applyOfflineSubtasks((items) =>
+          items.map((s) => (s._id === editingSubtaskId ? { ...s, title } : s))
+        );
+        toast.info(
+          t('savedOffline', {
+            defaultValue: 'Saved offline - will sync when connection restored',
+          })
+        );
+        return;
+      }
       await mutate(`/api/v1/subtasks/${task.id}`);
       toast.success(t('subtaskUpdated', { defaultValue: 'Subtask updated' }));
     } catch (error) {
@@ -654,7 +776,15 @@ export function KanbanDetails({
       setIsSavingSubtask(false);
       handleCancelEditSubtask();
     }
-  }, [editingSubtaskId, editingSubtaskTitle, handleCancelEditSubtask, t, task.id]);
+  }, [
+    editingSubtaskId,
+    editingSubtaskTitle,
+    handleCancelEditSubtask,
+    t,
+    task.id,
+    subtasks,
+    applyOfflineSubtasks,
+  ]);
 
   const handleReorderSubtasks = useCallback(
     async ({
@@ -1079,6 +1209,31 @@ export function KanbanDetails({
         </FormControl>
       </Box>
 
+      {/* Asset */}
+      {task.clientId && (
+        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+          <BlockLabel>{t('equipment', { defaultValue: 'Equipment' })}</BlockLabel>
+          <FormControl size="small" sx={{ flexGrow: 1, maxWidth: { xs: '100%', sm: 300 } }}>
+            <Select
+              value={assets.some((a: any) => a._id === task.assetId) ? task.assetId : ''}
+              onChange={(e) => handleChangeAsset(e.target.value as string)}
+              displayEmpty
+              disabled={!assetsData || assets.length === 0}
+            >
+              <MenuItem value="">
+                <em>{t('noEquipment', { defaultValue: 'No equipment' })}</em>
+              </MenuItem>
+              {assets.map((asset: any) => (
+                <MenuItem key={asset._id} value={asset._id}>
+                  {asset.name}
+                  {asset.serialNumber && ` (${asset.serialNumber})`}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Box>
+      )}
+
       {/* Tags display row is merged with Labels above */}
       {/* Start / Due date */}
       <Box sx={{ display: 'flex', alignItems: 'center' }}>
@@ -0,0 +1,129 @@
+'use client';
+
+import type { ServiceRequestData } from 'src/lib/models/ClientPortal';
+
+import { useState, useEffect } from 'react';
+
+import Stack from '@mui/material/Stack';
+import Dialog from '@mui/material/Dialog';
+import Button from '@mui/material/Button';
+import MenuItem from '@mui/material/MenuItem';
+import TextField from '@mui/material/TextField';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+
+import { ClientPortalService } from 'src/lib/services/client-portal-service';
+
+import { toast } from 'src/components/snackbar';
+
+// ----------------------------------------------------------------------
+
+type Props = {
+  open: boolean;
+  onCloseAction: () => void;
+  onCreatedAction: () => void;
+};
+
+export function PortalRequestDialog({ open, onCloseAction, onCreatedAction }: Props) {
+  const [title, setTitle] = useState('');
+  const [details, setDetails] = useState('');
+  const [address, setAddress] = useState('');
+  const [preferredDate, setPreferredDate] = useState('');
+  const [priority, setPriority] = useState<NonNullable<ServiceRequestData['priority']>>('medium');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setTitle('');
+      setDetails('');
+      setAddress('');
+      setPreferredDate('');
+      setPriority('medium');
+    }
+  }, [open]);
+
+  const handleSubmit = async () => {
+    try {
+      setSubmitting(true);
+      const response = await ClientPortalService.submitRequest({
+        title: title.trim(),
+        details: details.trim() || undefined,
+        address: address.trim() || undefined,
+        preferredDate: preferredDate || undefined,
+        priority,
+      });
+      toast.success(`Request ${response?.data?.workOrderNumber || ''} submitted`.trim());
+      onCreatedAction();
+      onCloseAction();
+    } catch (error: any) {
+      console.error('Failed to submit service request:', error);
+      toast.error(error?.message || 'Failed to submit request');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog fullWidth maxWidth="sm" open={open} onClose={onCloseAction}>
+      <DialogTitle>Request service</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2.5} sx={{ pt: 1 }}>
+          <TextField
+            required
+            autoFocus
+            label="What do you need?"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+          />
+          <TextField
+            multiline
+            minRows={4}
+            label="Details"
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+          />
+          <TextField
+            label="Address"
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+            helperText="Leave empty to use the address we have on file"
+          />
+          <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+            <TextField
+              fullWidth
+              type="date"
+              label="Preferred date"
+              value={preferredDate}
+              onChange={(e) => setPreferredDate(e.target.value)}
+              slotProps={{ inputLabel: { shrink: true } }}
+            />
+            <TextField
+              select
+              fullWidth
+              label="Urgency"
+              value={priority}
+              onChange={(e) => setPriority(e.target.value as typeof priority)}
+            >
+              <MenuItem value="low">Low</MenuItem>
+              <MenuItem value="medium">Normal</MenuItem>
+              <MenuItem value="high">High</MenuItem>
+              <MenuItem value="urgent">Urgent</MenuItem>
+            </TextField>
+          </Stack>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCloseAction}>Cancel</Button>
+        <Button
+          variant="contained"
+          loading={submitting}
+          disabled={!title.trim()}
+          onClick={handleSubmit}
+        >
+          Submit request
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,24 @@
+import { safeDisplayText } from 'src/utils/html-utils';
+
+// ----------------------------------------------------------------------
+
+export const STATUS_COLORS: Record<
+  string,
+  'default' | 'info' | 'primary' | 'warning' | 'success' | 'error'
+> = {
+  created: 'default',
+  assigned: 'info',
+  'in-progress': 'primary',
+  'on-hold': 'warning',
+  completed: 'success',
+  cancelled: 'error',
+};
+
+export const statusLabel = (status: string) =>
+  status.replace(/-/g, ' ').replace(/^\w/, (char) => char.toUpperCase());
+
+// Work order details may be rich text from the editor
+export const plainText = (html: string) =>
+  safeDisplayText(html.replace(/<\/(p|div|li|h\d)>|<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, ''))
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
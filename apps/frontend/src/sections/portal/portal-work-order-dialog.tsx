@@ -0,0 +1,151 @@
+'use client';
+
+import type { PortalWorkOrderDetails } from 'src/lib/models/ClientPortal';
+
+import useSWR from 'swr';
+
+import Box from '@mui/material/Box';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import Dialog from '@mui/material/Dialog';
+import Button from '@mui/material/Button';
+import Divider from '@mui/material/Divider';
+import IconButton from '@mui/material/IconButton';
+import Typography from '@mui/material/Typography';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import LinearProgress from '@mui/material/LinearProgress';
+import CircularProgress from '@mui/material/CircularProgress';
+
+import { fDate, fDateTime } from 'src/utils/format-time';
+
+import { endpoints } from 'src/lib/axios';
+import { ClientPortalService } from 'src/lib/services/client-portal-service';
+
+import { toast } from 'src/components/snackbar';
+import { Iconify } from 'src/components/iconify';
+
+import { plainText, statusLabel, STATUS_COLORS } from './portal-utils';
+
+// ----------------------------------------------------------------------
+
+type Props = {
+  workOrderId: string | null;
+  onCloseAction: () => void;
+};
+
+export function PortalWorkOrderDialog({ workOrderId, onCloseAction }: Props) {
+  const { data, isLoading } = useSWR(
+    workOrderId ? endpoints.portal.workOrder(workOrderId) : null,
+    ClientPortalService.fetcher<{ data: PortalWorkOrderDetails }>
+  );
+
+  const details = data?.data;
+  const workOrder = details?.workOrder;
+
+  const handleDownload = async (reportId: string) => {
+    try {
+      await ClientPortalService.downloadReportPdf(reportId);
+    } catch (error) {
+      console.error('Failed to download report PDF:', error);
+      toast.error('Failed to download report');
+    }
+  };
+
+  return (
+    <Dialog fullWidth maxWidth="md" open={!!workOrderId} onClose={onCloseAction}>
+      <DialogTitle>
+        {workOrder ? `${workOrder.workOrderNumber} · ${workOrder.title}` : 'Work order'}
+      </DialogTitle>
+      <DialogContent>
+        {isLoading || !details || !workOrder ? (
+          <Box sx={{ py: 6, display: 'flex', justifyContent: 'center' }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <Stack spacing={3}>
+            <Stack direction="row" spacing={2} alignItems="center">
+              <Chip
+                size="small"
+                label={statusLabel(workOrder.status)}
+                color={STATUS_COLORS[workOrder.status] || 'default'}
+              />
+              <Box sx={{ flexGrow: 1 }}>
+                <LinearProgress variant="determinate" value={workOrder.progress || 0} />
+              </Box>
+              <Typography variant="body2" color="text.secondary">
+                {workOrder.progress || 0}%
+              </Typography>
+            </Stack>
+
+            {workOrder.details && (
+              <Typography variant="body2" sx={{ whiteSpace: 'pre-line' }}>
+                {plainText(workOrder.details)}
+              </Typography>
+            )}
+
+            <Stack direction="row" spacing={4}>
+              <Typography variant="body2" color="text.secondary">
+                Requested {fDate(workOrder.createdAt)}
+              </Typography>
+              {workOrder.scheduledDate && (
+                <Typography variant="body2" color="text.secondary">
+                  Scheduled {fDate(workOrder.scheduledDate)}
+                </Typography>
+              )}
+              {workOrder.completedAt && (
+                <Typography variant="body2" color="text.secondary">
+                  Completed {fDate(workOrder.completedAt)}
+                </Typography>
+              )}
+            </Stack>
+
+            {details.reports.length > 0 && (
+              <Stack spacing={1}>
+                <Typography variant="subtitle2">Service reports</Typography>
+                {details.reports.map((report) => (
+                  <Stack key={report._id} direction="row" alignItems="center" spacing={1}>
+                    <Typography variant="body2" sx={{ flexGrow: 1, textTransform: 'capitalize' }}>
+                      {report.type} report · {fDate(report.reportDate)}
+                    </Typography>
+                    <IconButton
+                      size="small"
+                      title="Download PDF"
+                      onClick={() => handleDownload(report._id)}
+                    >
+                      <Iconify icon="solar:download-bold" />
+                    </IconButton>
+                  </Stack>
+                ))}
+              </Stack>
+            )}
+
+            <Divider />
+
+            <Stack spacing={2}>
+              <Typography variant="subtitle2">Timeline</Typography>
+              {details.timeline.length === 0 && (
+                <Typography variant="body2" color="text.secondary">
+                  Nothing has happened yet
+                </Typography>
+              )}
+              {details.timeline.map((entry) => (
+                <Box key={entry._id}>
+                  <Typography variant="body2">{entry.title}</Typography>
+                  <Typography variant="caption" color="text.disabled">
+                    {fDateTime(entry.timestamp)}
+                    {entry.userName ? ` · ${entry.userName}` : ''}
+                  </Typography>
+                </Box>
+              ))}
+            </Stack>
+          </Stack>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCloseAction}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,504 @@
+'use client';
+
+import type {
+  PortalQuote,
+  PortalReport,
+  PortalProfile,
+  PortalWorkOrder,
+  PortalWorkOrderScope,
+} from 'src/lib/models/ClientPortal';
+
+import useSWR from 'swr';
+import { useState, useEffect } from 'react';
+import { useBoolean } from 'minimal-shared/hooks';
+
+import Box from '@mui/material/Box';
+import Tab from '@mui/material/Tab';
+import Card from '@mui/material/Card';
+import Chip from '@mui/material/Chip';
+import Tabs from '@mui/material/Tabs';
+import Stack from '@mui/material/Stack';
+import Table from '@mui/material/Table';
+import Avatar from '@mui/material/Avatar';
+import Button from '@mui/material/Button';
+import TableRow from '@mui/material/TableRow';
+import Container from '@mui/material/Container';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TextField from '@mui/material/TextField';
+import IconButton from '@mui/material/IconButton';
+import Typography from '@mui/material/Typography';
+import ToggleButton from '@mui/material/ToggleButton';
+import TableContainer from '@mui/material/TableContainer';
+import LinearProgress from '@mui/material/LinearProgress';
+import CircularProgress from '@mui/material/CircularProgress';
+import ToggleButtonGroup from '@mui/material/ToggleButtonGroup';
+
+import { paths } from 'src/routes/paths';
+import { useRouter } from 'src/routes/hooks';
+
+import { fDate } from 'src/utils/format-time';
+import { fCurrency } from 'src/utils/format-number';
+
+import { endpoints } from 'src/lib/axios';
+import { ClientPortalService } from 'src/lib/services/client-portal-service';
+
+import { toast } from 'src/components/snackbar';
+import { Iconify } from 'src/components/iconify';
+import { ConfirmDialog } from 'src/components/custom-dialog';
+
+import { statusLabel, STATUS_COLORS } from '../portal-utils';
+import { PortalRequestDialog } from '../portal-request-dialog';
+import { PortalWorkOrderDialog } from '../portal-work-order-dialog';
+
+// ----------------------------------------------------------------------
+
+type TabValue = 'work-orders' | 'quotes' | 'reports';
+
+const QUOTE_COLORS: Record<string, 'default' | 'info' | 'success' | 'error'> = {
+  sent: 'info',
+  accepted: 'success',
+  declined: 'error',
+};
+
+export function PortalHomeView() {
+  const router = useRouter();
+  const openRequest = useBoolean();
+
+  const [hasSession, setHasSession] = useState(false);
+  const [tab, setTab] = useState<TabValue>('work-orders');
+  const [scope, setScope] = useState<PortalWorkOrderScope>('open');
+  const [selectedWorkOrder, setSelectedWorkOrder] = useState<string | null>(null);
+  const [acceptTarget, setAcceptTarget] = useState<PortalQuote | null>(null);
+  const [declineTarget, setDeclineTarget] = useState<PortalQuote | null>(null);
+  const [declineReason, setDeclineReason] = useState('');
+
+  // The session lives in localStorage, so it can only be checked in the browser
+  useEffect(() => {
+    if (ClientPortalService.getToken()) {
+      setHasSession(true);
+    } else {
+      router.replace(paths.portal.signIn);
+    }
+  }, [router]);
+
+  const { data: meData, error: meError } = useSWR(
+    hasSession ? endpoints.portal.me : null,
+    ClientPortalService.fetcher<{ data: PortalProfile }>
+  );
+  const {
+    data: workOrdersData,
+    isLoading: workOrdersLoading,
+    mutate: mutateWorkOrders,
+  } = useSWR(
+    hasSession ? [endpoints.portal.workOrders, { params: { scope } }] : null,
+    ClientPortalService.fetcher<{ data: PortalWorkOrder[] }>
+  );
+  const {
+    data: quotesData,
+    isLoading: quotesLoading,
+    mutate: mutateQuotes,
+  } = useSWR(
+    hasSession && tab === 'quotes' ? endpoints.portal.quotes : null,
+    ClientPortalService.fetcher<{ data: PortalQuote[] }>
+  );
+  const { data: reportsData, isLoading: reportsLoading } = useSWR(
+    hasSession && tab === 'reports' ? endpoints.portal.reports : null,
+    ClientPortalService.fetcher<{ data: PortalReport[] }>
+  );
+
+  const profile = meData?.data;
+  const workOrders = workOrdersData?.data || [];
+  const quotes = quotesData?.data || [];
+  const reports = reportsData?.data || [];
+
+  const handleSignOut = () => {
+    ClientPortalService.signOut();
+    router.replace(paths.portal.signIn);
+  };
+
+  const run = async (action: () => Promise<any>, success: string, failure: string) => {
+    try {
+      const response = await action();
+      toast.success(success);
+      mutateQuotes();
+      mutateWorkOrders();
+      return response;
+    } catch (error: any) {
+      console.error(failure, error);
+      toast.error(error?.message || failure);
+      return null;
+    }
+  };
+
+  const download = async (action: () => Promise<any>) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error('Failed to download PDF:', error);
+      toast.error('Failed to download PDF');
+    }
+  };
+
+  if (meError) {
+    return (
+      <Container maxWidth="sm" sx={{ py: 10, textAlign: 'center' }}>
+        <Typography variant="h4" sx={{ mb: 2 }}>
+          Your session has ended
+        </Typography>
+        <Typography color="text.secondary" sx={{ mb: 3 }}>
+          Request a new sign-in link to continue.
+        </Typography>
+        <Button variant="contained" onClick={handleSignOut}>
+          Sign in again
+        </Button>
+      </Container>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <Box sx={{ py: 10, display: 'flex', justifyContent: 'center' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  const renderEmpty = (colSpan: number, loading: boolean, label: string) => (
+    <TableRow>
+      <TableCell colSpan={colSpan} align="center" sx={{ py: 6 }}>
+        {loading ? (
+          <CircularProgress size={24} />
+        ) : (
+          <Typography variant="body2" color="text.secondary">
+            {label}
+          </Typography>
+        )}
+      </TableCell>
+    </TableRow>
+  );
+
+  const renderWorkOrders = () => (
+    <>
+      <Box sx={{ p: 2.5 }}>
+        <ToggleButtonGroup
+          exclusive
+          size="small"
+          value={scope}
+          onChange={(_, value) => value && setScope(value)}
+        >
+          <ToggleButton value="open">Open</ToggleButton>
+          <ToggleButton value="closed">Past</ToggleButton>
+          <ToggleButton value="all">All</ToggleButton>
+        </ToggleButtonGroup>
+      </Box>
+      <TableContainer>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>Number</TableCell>
+              <TableCell>Title</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell sx={{ width: 200 }}>Progress</TableCell>
+              <TableCell>Scheduled</TableCell>
+              <TableCell align="right" />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {workOrders.length === 0 && renderEmpty(6, workOrdersLoading, 'No work orders')}
+            {workOrders.map((workOrder) => (
+              <TableRow
+                key={workOrder._id}
+                hover
+                sx={{ cursor: 'pointer' }}
+                onClick={() => setSelectedWorkOrder(workOrder._id)}
+              >
+                <TableCell>
+                  <Typography variant="subtitle2">{workOrder.workOrderNumber}</Typography>
+                </TableCell>
+                <TableCell>{workOrder.title}</TableCell>
+                <TableCell>
+                  <Chip
+                    size="small"
+                    label={statusLabel(workOrder.status)}
+                    color={STATUS_COLORS[workOrder.status] || 'default'}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    <LinearProgress
+                      variant="determinate"
+                      value={workOrder.progress || 0}
+                      sx={{ flexGrow: 1 }}
+                    />
+                    <Typography variant="caption">{workOrder.progress || 0}%</Typography>
+                  </Stack>
+                </TableCell>
+                <TableCell>
+                  {workOrder.scheduledDate ? fDate(workOrder.scheduledDate) : '-'}
+                </TableCell>
+                <TableCell align="right">
+                  <IconButton size="small" title="View">
+                    <Iconify icon="solar:eye-bold" />
+                  </IconButton>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </>
+  );
+
+  const renderQuotes = () => (
+    <TableContainer>
+      <Table>
+        <TableHead>
+          <TableRow>
+            <TableCell>Number</TableCell>
+            <TableCell>Title</TableCell>
+            <TableCell>Status</TableCell>
+            <TableCell>Valid until</TableCell>
+            <TableCell align="right">Total</TableCell>
+            <TableCell align="right">Actions</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {quotes.length === 0 && renderEmpty(6, quotesLoading, 'No quotes')}
+          {quotes.map((quote) => (
+            <TableRow key={quote._id} hover>
+              <TableCell>
+                <Typography variant="subtitle2">{quote.quoteNumber}</Typography>
+              </TableCell>
+              <TableCell>{quote.title}</TableCell>
+              <TableCell>
+                <Chip
+                  size="small"
+                  label={quote.status === 'sent' ? 'Awaiting approval' : quote.status}
+                  color={QUOTE_COLORS[quote.status] || 'default'}
+                  sx={{ textTransform: 'capitalize' }}
+                />
+              </TableCell>
+              <TableCell>{quote.validUntil ? fDate(quote.validUntil) : '-'}</TableCell>
+              <TableCell align="right">
+                {fCurrency(quote.total, { currency: quote.currency })}
+              </TableCell>
+              <TableCell align="right">
+                <Stack direction="row" spacing={0.5} justifyContent="flex-end">
+                  <IconButton
+                    size="small"
+                    title="Download PDF"
+                    onClick={() =>
+                      download(() =>
+                        ClientPortalService.downloadQuotePdf(quote._id, quote.quoteNumber)
+                      )
+                    }
+                  >
+                    <Iconify icon="solar:download-bold" />
+                  </IconButton>
+                  {quote.status === 'sent' && (
+                    <>
+                      <IconButton
+                        size="small"
+                        color="success"
+                        title="Approve"
+                        onClick={() => setAcceptTarget(quote)}
+                      >
+                        <Iconify icon="solar:check-circle-bold" />
+                      </IconButton>
+                      <IconButton
+                        size="small"
+                        color="warning"
+                        title="Decline"
+                        onClick={() => {
+                          setDeclineReason('');
+                          setDeclineTarget(quote);
+                        }}
+                      >
+                        <Iconify icon="solar:close-circle-bold" />
+                      </IconButton>
+                    </>
+                  )}
+                </Stack>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+
+  const renderReports = () => (
+    <TableContainer>
+      <Table>
+        <TableHead>
+          <TableRow>
+            <TableCell>Date</TableCell>
+            <TableCell>Work order</TableCell>
+            <TableCell>Type</TableCell>
+            <TableCell align="right" />
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {reports.length === 0 && renderEmpty(4, reportsLoading, 'No reports yet')}
+          {reports.map((report) => (
+            <TableRow key={report._id} hover>
+              <TableCell>{fDate(report.reportDate)}</TableCell>
+              <TableCell>
+                {[report.workOrderData?.number, report.workOrderData?.title]
+                  .filter(Boolean)
+                  .join(' · ') || '-'}
+              </TableCell>
+              <TableCell sx={{ textTransform: 'capitalize' }}>{report.type}</TableCell>
+              <TableCell align="right">
+                <IconButton
+                  size="small"
+                  title="Download PDF"
+                  onClick={() => download(() => ClientPortalService.downloadReportPdf(report._id))}
+                >
+                  <Iconify icon="solar:download-bold" />
+                </IconButton>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+
+  return (
+    <Container maxWidth="lg">
+      <Stack spacing={3} sx={{ py: 5 }}>
+        <Stack direction="row" alignItems="center" spacing={2}>
+          {profile.company.logo && (
+            <Avatar
+              variant="rounded"
+              src={profile.company.logo}
+              alt={profile.company.name}
+              sx={{ width: 56, height: 56 }}
+            />
+          )}
+          <Stack sx={{ flexGrow: 1 }}>
+            <Typography variant="h4">{profile.client.name}</Typography>
+            <Typography variant="body2" color="text.secondary">
+              {profile.company.name} customer portal · {profile.email}
+            </Typography>
+          </Stack>
+          <Button
+            variant="contained"
+            startIcon={<Iconify icon="mingcute:add-line" />}
+            onClick={openRequest.onTrue}
+          >
+            Request service
+          </Button>
+          <Button variant="outlined" onClick={handleSignOut}>
+            Sign out
+          </Button>
+        </Stack>
+
+        <Card>
+          <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ px: 2.5 }}>
+            <Tab value="work-orders" label="Work orders" />
+            <Tab value="quotes" label="Quotes" />
+            <Tab value="reports" label="Reports" />
+          </Tabs>
+
+          {tab === 'work-orders' && renderWorkOrders()}
+          {tab === 'quotes' && renderQuotes()}
+          {tab === 'reports' && renderReports()}
+        </Card>
+
+        {(profile.company.email || profile.company.phone) && (
+          <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center' }}>
+            Questions? Contact {profile.company.name}
+            {profile.company.phone ? ` at ${profile.company.phone}` : ''}
+            {profile.company.email ? ` or ${profile.company.email}` : ''}
+          </Typography>
+        )}
+      </Stack>
+
+      <PortalRequestDialog
+        open={openRequest.value}
+        onCloseAction={openRequest.onFalse}
+        onCreatedAction={() => {
+          setTab('work-orders');
+          mutateWorkOrders();
+        }}
+      />
+
+      <PortalWorkOrderDialog
+        workOrderId={selectedWorkOrder}
+        onCloseAction={() => setSelectedWorkOrder(null)}
+      />
+
+      <ConfirmDialog
+        open={!!acceptTarget}
+        onClose={() => setAcceptTarget(null)}
+        title="Approve Quote"
+        content={`Approve quote ${acceptTarget?.quoteNumber} for ${
+          acceptTarget ? fCurrency(acceptTarget.total, { currency: acceptTarget.currency }) : ''
+        }? We'll schedule the work and keep you posted here.`}
+        action={
+          <Button
+            variant="contained"
+            color="success"
+            onClick={async () => {
+              if (acceptTarget) {
+                await run(
+                  () => ClientPortalService.acceptQuote(acceptTarget._id),
+                  'Quote approved',
+                  'Failed to approve quote'
+                );
+              }
+              setAcceptTarget(null);
+            }}
+          >
+            Approve
+          </Button>
+        }
+      />
+
+      <ConfirmDialog
+        open={!!declineTarget}
+        onClose={() => setDeclineTarget(null)}
+        title="Decline Quote"
+        content={
+          <Stack spacing={2}>
+            <Typography variant="body2">Decline quote {declineTarget?.quoteNumber}?</Typography>
+            <TextField
+              fullWidth
+              multiline
+              minRows={2}
+              label="Reason (optional)"
+              value={declineReason}
+              onChange={(e) => setDeclineReason(e.target.value)}
+            />
+          </Stack>
+        }
+        action={
+          <Button
+            variant="contained"
+            color="warning"
+            onClick={async () => {
+              if (declineTarget) {
+                await run(
+                  () =>
+                    ClientPortalService.declineQuote(
+                      declineTarget._id,
+                      declineReason.trim() || undefined
+                    ),
+                  'Quote declined',
+                  'Failed to decline quote'
+                );
+              }
+              setDeclineTarget(null);
+            }}
+          >
+            Decline
+          </Button>
+        }
+      />
+    </Container>
+  );
+}
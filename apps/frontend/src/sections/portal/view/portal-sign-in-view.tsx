@@ -0,0 +1,112 @@
+'use client';
+
+import { useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+
+import Box from '@mui/material/Box';
+import Card from '@mui/material/Card';
+import Stack from '@mui/material/Stack';
+import Alert from '@mui/material/Alert';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+
+import { ClientPortalService } from 'src/lib/services/client-portal-service';
+
+import { Iconify } from 'src/components/iconify';
+
+// ----------------------------------------------------------------------
+
+export function PortalSignInView() {
+  const searchParams = useSearchParams();
+
+  const [company, setCompany] = useState(searchParams.get('company') || '');
+  const [email, setEmail] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [errorMsg, setErrorMsg] = useState('');
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!company.trim() || !email.trim()) return;
+
+    try {
+      setSubmitting(true);
+      setErrorMsg('');
+      await ClientPortalService.requestLink(company.trim(), email.trim());
+      setSent(true);
+    } catch (error: any) {
+      console.error('Failed to request portal link:', error);
+      setErrorMsg(error?.message || 'Failed to send sign-in link');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (sent) {
+    return (
+      <Card sx={{ p: 5 }}>
+        <Box sx={{ textAlign: 'center' }}>
+          <Iconify
+            icon="solar:check-circle-bold"
+            sx={{ mb: 3, color: 'success.main', width: 96, height: 96 }}
+          />
+          <Typography variant="h3" sx={{ mb: 2 }}>
+            Check your inbox
+          </Typography>
+          <Typography color="text.secondary">
+            If {email} belongs to one of our customers, a sign-in link is on its way. The link can
+            be used once and expires after a few days.
+          </Typography>
+        </Box>
+      </Card>
+    );
+  }
+
+  return (
+    <Card sx={{ p: 5 }}>
+      <Stack spacing={1} sx={{ mb: 4, textAlign: 'center' }}>
+        <Typography variant="h4">Customer portal</Typography>
+        <Typography variant="body2" color="text.secondary">
+          Follow your work orders, approve quotes and download service reports. We&apos;ll email you
+          a sign-in link.
+        </Typography>
+      </Stack>
+
+      {errorMsg && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {errorMsg}
+        </Alert>
+      )}
+
+      <Stack component="form" spacing={3} onSubmit={handleSubmit}>
+        {!searchParams.get('company') && (
+          <TextField
+            required
+            label="Company"
+            value={company}
+            onChange={(e) => setCompany(e.target.value)}
+            helperText="The company code from your service provider"
+          />
+        )}
+        <TextField
+          required
+          type="email"
+          label="Email address"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+        />
+        <Button
+          fullWidth
+          size="large"
+          type="submit"
+          variant="contained"
+          loading={submitting}
+          disabled={!company.trim() || !email.trim()}
+        >
+          Email me a sign-in link
+        </Button>
+      </Stack>
+    </Card>
+  );
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useSearchParams } from 'next/navigation';
+
+import Box from '@mui/material/Box';
+import Card from '@mui/material/Card';
+import Button from '@mui/material/Button';
+import Typography from '@mui/material/Typography';
+
+import { paths } from 'src/routes/paths';
+import { useRouter } from 'src/routes/hooks';
+
+import { ClientPortalService } from 'src/lib/services/client-portal-service';
+
+import { Iconify } from 'src/components/iconify';
+
+// ----------------------------------------------------------------------
+
+export function PortalVerifyView() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  const [errorMsg, setErrorMsg] = useState('');
+
+  // Exchange the single-use link token for a portal session
+  useEffect(() => {
+    const token = searchParams.get('token');
+
+    if (!token) {
+      setErrorMsg('No sign-in token provided');
+      return;
+    }
+
+    ClientPortalService.createSession(token)
+      .then(() => router.replace(paths.portal.root))
+      .catch((error: any) => {
+        console.error('Error opening portal session:', error);
+        setErrorMsg(error?.message || 'Invalid or expired sign-in link');
+      });
+  }, [searchParams, router]);
+
+  if (errorMsg) {
+    return (
+      <Card sx={{ p: 5 }}>
+        <Box sx={{ textAlign: 'center' }}>
+          <Iconify
+            icon="solar:close-circle-bold"
+            sx={{ mb: 3, color: 'error.main', width: 96, height: 96 }}
+          />
+          <Typography variant="h3" sx={{ mb: 2 }}>
+            Invalid Link
+          </Typography>
+          <Typography color="text.secondary" sx={{ mb: 3 }}>
+            {errorMsg}
+          </Typography>
+          <Button variant="contained" onClick={() => router.push(paths.portal.signIn)}>
+            Request a new link
+          </Button>
+        </Box>
+      </Card>
+    );
+  }
+
+  return (
+    <Card sx={{ p: 5 }}>
+      <Box sx={{ textAlign: 'center' }}>
+        <Typography variant="h3" sx={{ mb: 2 }}>
+          Signing in...
+        </Typography>
+        <Typography color="text.secondary">Please wait while we open your portal.</Typography>
+      </Box>
+    </Card>
+  );
+}
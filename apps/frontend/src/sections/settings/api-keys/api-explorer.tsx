@@ -0,0 +1,378 @@
+'use client';
+
+import type { Method } from 'axios';
+import type {
+  OpenApiDocument,
+  OpenApiOperation,
+  OpenApiParameter,
+  PublicApiResponse,
+} from 'src/services/public-api';
+
+import { useMemo, useState, useEffect } from 'react';
+
+import Box from '@mui/material/Box';
+import Card from '@mui/material/Card';
+import Chip from '@mui/material/Chip';
+import Alert from '@mui/material/Alert';
+import Stack from '@mui/material/Stack';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import CardHeader from '@mui/material/CardHeader';
+import Typography from '@mui/material/Typography';
+import CardContent from '@mui/material/CardContent';
+import Autocomplete from '@mui/material/Autocomplete';
+import CircularProgress from '@mui/material/CircularProgress';
+
+import { CONFIG } from 'src/global-config';
+import { publicApi } from 'src/services/public-api';
+
+import { toast } from 'src/components/snackbar';
+import { Iconify } from 'src/components/iconify';
+
+// ----------------------------------------------------------------------
+
+type Endpoint = {
+  method: string;
+  path: string;
+  operation: OpenApiOperation;
+};
+
+const METHOD_COLORS: Record<string, 'info' | 'success' | 'warning' | 'error'> = {
+  GET: 'info',
+  POST: 'success',
+  PUT: 'warning',
+  DELETE: 'error',
+};
+
+const SPEC_URL = `${CONFIG.serverUrl}/api/v1/public/openapi.json`;
+
+// A starting body with the required fields of a schema filled in
+const sampleFromSchema = (schema: Record<string, any> = {}): any => {
+  if (schema.default !== undefined) return schema.default;
+  if (schema.enum) return schema.enum[0];
+
+  switch (schema.type) {
+    case 'object': {
+      const required: string[] = schema.required || [];
+      return Object.fromEntries(
+        required.map((key) => [key, sampleFromSchema(schema.properties?.[key])])
+      );
+    }
+    case 'array':
+      return [];
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    case 'string':
+      return schema.format === 'date-time' ? new Date().toISOString() : '';
+    default:
+      return null;
+  }
+};
+
+const parametersOf = (endpoint: Endpoint | null, location: OpenApiParameter['in']) =>
+  (endpoint?.operation.parameters || []).filter((param) => param.in === location);
+
+// ----------------------------------------------------------------------
+
+export function ApiExplorer() {
+  const [spec, setSpec] = useState<OpenApiDocument | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const [apiKey, setApiKey] = useState('');
+  const [endpoint, setEndpoint] = useState<Endpoint | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [body, setBody] = useState('');
+  const [idempotencyKey, setIdempotencyKey] = useState('');
+
+  const [sending, setSending] = useState(false);
+  const [response, setResponse] = useState<PublicApiResponse | null>(null);
+
+  useEffect(() => {
+    publicApi
+      .getSpec()
+      .then(setSpec)
+      .catch((error) => {
+        console.error('Failed to load API spec:', error);
+        setLoadError('Failed to load the API specification');
+      });
+  }, []);
+
+  const endpoints = useMemo<Endpoint[]>(
+    () =>
+      Object.entries(spec?.paths || {}).flatMap(([path, operations]) =>
+        Object.entries(operations).map(([method, operation]) => ({
+          method: method.toUpperCase(),
+          path,
+          operation,
+        }))
+      ),
+    [spec]
+  );
+
+  const pathParams = parametersOf(endpoint, 'path');
+  const queryParams = parametersOf(endpoint, 'query');
+  const acceptsIdempotencyKey = parametersOf(endpoint, 'header').some(
+    (param) => param.name === 'Idempotency-Key'
+  );
+  const bodySchema = endpoint?.operation.requestBody?.content['application/json'].schema;
+
+  const handleSelect = (selected: Endpoint | null) => {
+    setEndpoint(selected);
+    setValues({});
+    setIdempotencyKey('');
+    setResponse(null);
+    const schema = selected?.operation.requestBody?.content['application/json'].schema;
+    setBody(schema ? JSON.stringify(sampleFromSchema(schema), null, 2) : '');
+  };
+
+  const handleSend = async () => {
+    if (!endpoint) return;
+
+    let data: unknown;
+    if (bodySchema) {
+      try {
+        data = JSON.parse(body || '{}');
+      } catch {
+        toast.error('The request body is not valid JSON');
+        return;
+      }
+    }
+
+    const path = endpoint.path.replace(/\{(\w+)\}/g, (_, name) =>
+      encodeURIComponent(values[name] || '')
+    );
+    const params = Object.fromEntries(
+      queryParams
+        .filter((param) => values[param.name])
+        .map((param) => [param.name, values[param.name]])
+    );
+
+    try {
+      setSending(true);
+      const result = await publicApi.send(apiKey.trim(), {
+        method: endpoint.method as Method,
+        path,
+        params,
+        headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+        body: data,
+      });
+      setResponse(result);
+    } catch (error: any) {
+      console.error('Public API request failed:', error);
+      toast.error(error.message || 'Request failed');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const missingPathParam = pathParams.some((param) => !values[param.name]);
+
+  const renderParameter = (param: OpenApiParameter) => (
+    <TextField
+      key={`${param.in}-${param.name}`}
+      size="small"
+      label={param.name}
+      required={param.required}
+      value={values[param.name] || ''}
+      onChange={(e) => setValues((prev) => ({ ...prev, [param.name]: e.target.value }))}
+      placeholder={param.schema.default !== undefined ? String(param.schema.default) : undefined}
+      helperText={param.description}
+      sx={{ minWidth: 200, flex: 1 }}
+    />
+  );
+
+  return (
+    <Card sx={{ mt: 3 }}>
+      <CardHeader
+        title="API Explorer"
+        subheader="Try the public API with one of your keys. Requests run against live data."
+        action={
+          <Stack direction="row" spacing={1} alignItems="center">
+            {spec && <Chip size="small" variant="outlined" label={`v${spec.info.version}`} />}
+            <Button
+              size="small"
+              href={SPEC_URL}
+              target="_blank"
+              rel="noopener"
+              startIcon={<Iconify icon="solar:download-bold" />}
+            >
+              OpenAPI spec
+            </Button>
+          </Stack>
+        }
+      />
+      <CardContent>
+        {loadError && <Alert severity="error">{loadError}</Alert>}
+
+        {!spec && !loadError && (
+          <Box display="flex" justifyContent="center" py={4}>
+            <CircularProgress />
+          </Box>
+        )}
+
+        {spec && (
+          <Stack spacing={2.5}>
+            <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+              <TextField
+                size="small"
+                type="password"
+                label="API key"
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                autoComplete="off"
+                sx={{ flex: 1 }}
+              />
+
+              <Autocomplete
+                options={endpoints}
+                value={endpoint}
+                onChange={(_, selected) => handleSelect(selected)}
+                groupBy={(option) => option.operation.tags[0]}
+                getOptionLabel={(option) => `${option.method} ${option.path}`}
+                isOptionEqualToValue={(option, value) =>
+                  option.method === value.method && option.path === value.path
+                }
+                renderOption={({ key, ...props }, option) => (
+                  <li key={key} {...props}>
+                    <Stack direction="row" spacing={1} alignItems="center" sx={{ width: 1 }}>
+                      <Chip
+                        size="small"
+                        label={option.method}
+                        color={METHOD_COLORS[option.method] || 'default'}
+                        sx={{ minWidth: 64 }}
+                      />
+                      <Box sx={{ flex: 1, minWidth: 0 }}>
+                        <Typography variant="body2" noWrap>
+                          {option.operation.summary}
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary" noWrap>
+                          {option.path}
+                        </Typography>
+                      </Box>
+                    </Stack>
+                  </li>
+                )}
+                renderInput={(params) => <TextField {...params} size="small" label="Endpoint" />}
+                sx={{ flex: 2 }}
+              />
+            </Stack>
+
+            {endpoint && (
+              <>
+                <Box>
+                  <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap">
+                    <Typography variant="subtitle2">{endpoint.operation.summary}</Typography>
+                    {endpoint.operation['x-permission'] && (
+                      <Chip
+                        size="small"
+                        variant="outlined"
+                        label={endpoint.operation['x-permission']}
+                      />
+                    )}
+                  </Stack>
+                  {endpoint.operation.description && (
+                    <Typography
+                      variant="body2"
+                      color="text.secondary"
+                      sx={{ mt: 0.5, whiteSpace: 'pre-line' }}
+                    >
+                      {endpoint.operation.description}
+                    </Typography>
+                  )}
+                </Box>
+
+                {(pathParams.length > 0 || queryParams.length > 0) && (
+                  <Stack direction="row" spacing={2} useFlexGap flexWrap="wrap">
+                    {pathParams.map(renderParameter)}
+                    {queryParams.map(renderParameter)}
+                  </Stack>
+                )}
+
+                {bodySchema && (
+                  <TextField
+                    multiline
+                    minRows={6}
+                    maxRows={20}
+                    label="Request body"
+                    value={body}
+                    onChange={(e) => setBody(e.target.value)}
+                    slotProps={{ input: { sx: { fontFamily: 'monospace', fontSize: 13 } } }}
+                  />
+                )}
+
+                {acceptsIdempotencyKey && (
+                  <TextField
+                    size="small"
+                    label="Idempotency-Key"
+                    value={idempotencyKey}
+                    onChange={(e) => setIdempotencyKey(e.target.value)}
+                    helperText="Optional. Sending the same key again replays the first response."
+                  />
+                )}
+
+                <Box>
+                  <Button
+                    variant="contained"
+                    onClick={handleSend}
+                    disabled={!apiKey.trim() || missingPathParam || sending}
+                    startIcon={
+                      sending ? (
+                        <CircularProgress size={16} color="inherit" />
+                      ) : (
+                        <Iconify icon="solar:play-bold" />
+                      )
+                    }
+                  >
+                    Send request
+                  </Button>
+                </Box>
+              </>
+            )}
+
+            {response && (
+              <Box>
+                <Stack direction="row" spacing={1} alignItems="center" mb={1}>
+                  <Typography variant="subtitle2">Response</Typography>
+                  <Chip
+                    size="small"
+                    label={response.status}
+                    color={
+                      response.status < 300
+                        ? 'success'
+                        : response.status < 500
+                          ? 'warning'
+                          : 'error'
+                    }
+                  />
+                  {response.headers['idempotent-replayed'] && (
+                    <Chip size="small" variant="outlined" label="Replayed" />
+                  )}
+                </Stack>
+                <Box
+                  component="pre"
+                  sx={{
+                    m: 0,
+                    p: 2,
+                    maxHeight: 480,
+                    overflow: 'auto',
+                    borderRadius: 1,
+                    bgcolor: 'background.neutral',
+                    fontFamily: 'monospace',
+                    fontSize: 13,
+                  }}
+                >
+                  {typeof response.data === 'string'
+                    ? response.data
+                    : JSON.stringify(response.data, null, 2)}
+                </Box>
+              </Box>
+            )}
+          </Stack>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
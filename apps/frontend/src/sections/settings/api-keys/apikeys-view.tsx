@@ -31,6 +31,7 @@ import { toast } from 'src/components/snackbar';
 import { Iconify } from 'src/components/iconify';
 import { ConfirmDialog } from 'src/components/custom-dialog';
 
+import { ApiExplorer } from './api-explorer';
 import { ApiKeyTestDialog } from './apikey-test-dialog';
 import { ApiKeyFormDialog, type ApiKey as ApiKeyFormModel } from './apikeys-form-dialog';
 
@@ -286,6 +287,8 @@ export function ApiKeysView() {
         </CardContent>
       </Card>
 
+      <ApiExplorer />
+
       <ApiKeyFormDialog
         open={openForm}
         apiKey={editing}
@@ -39,15 +39,23 @@ type Props = {
 const PERMISSIONS = [
   'work_orders.read',
   'work_orders.write',
+  'work_orders.delete',
   'tasks.read',
   'tasks.write',
+  'tasks.delete',
   'clients.read',
   'clients.write',
+  'clients.delete',
   'materials.read',
   'materials.write',
+  'materials.delete',
   'users.read',
-  'users.write',
   'reports.read',
+  'reports.write',
+  'reports.delete',
+  'time_entries.read',
+  'time_entries.write',
+  'time_entries.delete',
   'settings.read',
   '*',
 ];
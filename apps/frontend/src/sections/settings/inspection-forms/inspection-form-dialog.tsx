@@ -0,0 +1,467 @@
+'use client';
+
+import type {
+  IInspectionForm,
+  InspectionFormData,
+  InspectionFieldType,
+} from 'src/lib/models/InspectionForm';
+
+import useSWR from 'swr';
+import { useMemo, useState, useEffect } from 'react';
+
+import Box from '@mui/material/Box';
+import Card from '@mui/material/Card';
+import Stack from '@mui/material/Stack';
+import Dialog from '@mui/material/Dialog';
+import Button from '@mui/material/Button';
+import Switch from '@mui/material/Switch';
+import Divider from '@mui/material/Divider';
+import MenuItem from '@mui/material/MenuItem';
+import TextField from '@mui/material/TextField';
+import IconButton from '@mui/material/IconButton';
+import Typography from '@mui/material/Typography';
+import DialogTitle from '@mui/material/DialogTitle';
+import Autocomplete from '@mui/material/Autocomplete';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import FormControlLabel from '@mui/material/FormControlLabel';
+
+import { fetcher, endpoints } from 'src/lib/axios';
+import { InspectionFormService } from 'src/lib/services/inspection-form-service';
+
+import { toast } from 'src/components/snackbar';
+import { Iconify } from 'src/components/iconify';
+
+// ----------------------------------------------------------------------
+
+export const FIELD_TYPE_LABELS: Record<InspectionFieldType, string> = {
+  yes_no: 'Yes / No / N-A',
+  number: 'Number',
+  text: 'Text',
+  photo: 'Photo',
+  signature: 'Signature',
+  select: 'Dropdown',
+};
+
+const REPORT_TYPES = [
+  'daily',
+  'weekly',
+  'monthly',
+  'incident',
+  'maintenance',
+  'inspection',
+  'completion',
+  'safety',
+];
+
+type FieldRow = InspectionFormData['fields'][number] & { rowId: number };
+
+type Props = {
+  open: boolean;
+  form: IInspectionForm | null;
+  onCloseAction: () => void;
+  onSavedAction: () => void;
+};
+
+const emptyField = (rowId: number): FieldRow => ({
+  rowId,
+  label: '',
+  type: 'yes_no',
+  required: true,
+  options: [],
+  failOptions: ['no'],
+});
+
+export function InspectionFormDialog({ open, form, onCloseAction, onSavedAction }: Props) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [isActive, setIsActive] = useState(true);
+  const [fields, setFields] = useState<FieldRow[]>([]);
+  const [reportTypes, setReportTypes] = useState<string[]>([]);
+  const [assetCategories, setAssetCategories] = useState<string[]>([]);
+  const [assetIds, setAssetIds] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  const { data: assetsData } = useSWR(
+    open ? [endpoints.fsa.assets.list, { params: { limit: 100 } }] : null,
+    fetcher<any>
+  );
+  const assets: any[] = useMemo(() => assetsData?.data || [], [assetsData]);
+  const categories = useMemo(
+    () => [...new Set(assets.map((asset) => asset.category).filter(Boolean))] as string[],
+    [assets]
+  );
+
+  useEffect(() => {
+    if (!open) return;
+
+    setName(form?.name || '');
+    setDescription(form?.description || '');
+    setIsActive(form?.isActive ?? true);
+    setFields(form?.fields.map((field, index) => ({ ...field, rowId: index })) || [emptyField(0)]);
+    setReportTypes(form?.appliesTo.reportTypes || []);
+    setAssetCategories(form?.appliesTo.assetCategories || []);
+    setAssetIds(form?.appliesTo.assetIds || []);
+  }, [open, form]);
+
+  const updateField = (rowId: number, changes: Partial<FieldRow>) =>
+    setFields((prev) => prev.map((row) => (row.rowId === rowId ? { ...row, ...changes } : row)));
+
+  const changeType = (rowId: number, type: InspectionFieldType) =>
+    updateField(rowId, {
+      type,
+      // Start each type with the usual way it fails
+      failOptions: type === 'yes_no' ? ['no'] : [],
+      options: [],
+      min: undefined,
+      max: undefined,
+      unit: undefined,
+    });
+
+  const moveField = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= fields.length) return;
+    const next = [...fields];
+    [next[index], next[target]] = [next[target], next[index]];
+    setFields(next);
+  };
+
+  const addField = () =>
+    setFields((prev) => [...prev, emptyField(Math.max(-1, ...prev.map((r) => r.rowId)) + 1)]);
+
+  const handleSubmit = async () => {
+    if (!name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+    if (fields.length === 0 || fields.some((field) => !field.label.trim())) {
+      toast.error('Every field needs a label');
+      return;
+    }
+
+    const payload: InspectionFormData = {
+      name: name.trim(),
+      description: description || undefined,
+      isActive,
+      fields: fields.map(({ rowId, ...field }) => ({
+        ...field,
+        label: field.label.trim(),
+        // null clears a range bound that was removed
+        min: field.type === 'number' ? (field.min ?? null) : undefined,
+        max: field.type === 'number' ? (field.max ?? null) : undefined,
+      })),
+      appliesTo: { reportTypes, assetCategories, assetIds },
+    };
+
+    try {
+      setSubmitting(true);
+      const response = form
+        ? await InspectionFormService.updateForm(form._id, payload)
+        : await InspectionFormService.createForm(payload);
+      if (response.success) {
+        toast.success(form ? 'Form updated' : 'Form created');
+        onSavedAction();
+        onCloseAction();
+      }
+    } catch (error: any) {
+      console.error('Failed to save inspection form:', error);
+      toast.error(error?.message || 'Failed to save inspection form');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const parseNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+  const renderFieldOptions = (field: FieldRow) => {
+    switch (field.type) {
+      case 'yes_no':
+        return (
+          <TextField
+            select
+            size="small"
+            label="Fails when"
+            value={field.failOptions[0] || ''}
+            onChange={(e) =>
+              updateField(field.rowId, {
+                failOptions: e.target.value ? [e.target.value] : [],
+              })
+            }
+            sx={{ minWidth: 160 }}
+          >
+            <MenuItem value="">Never</MenuItem>
+            <MenuItem value="no">Answered No</MenuItem>
+            <MenuItem value="yes">Answered Yes</MenuItem>
+          </TextField>
+        );
+      case 'select':
+        return (
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={1.5} sx={{ flex: 1 }}>
+            <Autocomplete
+              multiple
+              freeSolo
+              fullWidth
+              size="small"
+              options={[]}
+              value={field.options}
+              onChange={(_, value) =>
+                updateField(field.rowId, {
+                  options: value as string[],
+                  failOptions: field.failOptions.filter((o) => value.includes(o)),
+                })
+              }
+              renderInput={(params) => (
+                <TextField {...params} label="Options" placeholder="Type and press Enter" />
+              )}
+            />
+            <TextField
+              select
+              fullWidth
+              size="small"
+              label="Failing options"
+              value={field.failOptions}
+              onChange={(e) =>
+                updateField(field.rowId, { failOptions: e.target.value as unknown as string[] })
+              }
+              slotProps={{ select: { multiple: true } }}
+              disabled={field.options.length === 0}
+            >
+              {field.options.map((option) => (
+                <MenuItem key={option} value={option}>
+                  {option}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Stack>
+        );
+      case 'number':
+        return (
+          <Stack direction="row" spacing={1.5}>
+            <TextField
+              size="small"
+              type="number"
+              label="Min"
+              value={field.min ?? ''}
+              onChange={(e) => updateField(field.rowId, { min: parseNumber(e.target.value) })}
+              sx={{ width: 110 }}
+            />
+            <TextField
+              size="small"
+              type="number"
+              label="Max"
+              value={field.max ?? ''}
+              onChange={(e) => updateField(field.rowId, { max: parseNumber(e.target.value) })}
+              sx={{ width: 110 }}
+            />
+            <TextField
+              size="small"
+              label="Unit"
+              value={field.unit || ''}
+              onChange={(e) => updateField(field.rowId, { unit: e.target.value })}
+              sx={{ width: 100 }}
+            />
+          </Stack>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onCloseAction} maxWidth="md" fullWidth>
+      <DialogTitle>{form ? 'Edit Inspection Form' : 'New Inspection Form'}</DialogTitle>
+
+      <DialogContent>
+        <Stack spacing={3} sx={{ pt: 1 }}>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems="center">
+            <TextField
+              fullWidth
+              label="Name"
+              placeholder="e.g. Boiler annual inspection"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <FormControlLabel
+              control={
+                <Switch checked={isActive} onChange={(e) => setIsActive(e.target.checked)} />
+              }
+              label="Active"
+              sx={{ flexShrink: 0 }}
+            />
+          </Stack>
+
+          <TextField
+            fullWidth
+            label="Description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+
+          <Divider />
+
+          <Box>
+            <Typography variant="subtitle1">Offer this form on</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Technicians see it on reports of these types, and once for each matching asset on the
+              report.
+            </Typography>
+          </Box>
+          <TextField
+            select
+            fullWidth
+            label="Report types"
+            value={reportTypes}
+            onChange={(e) => setReportTypes(e.target.value as unknown as string[])}
+            slotProps={{ select: { multiple: true } }}
+          >
+            {REPORT_TYPES.map((type) => (
+              <MenuItem key={type} value={type} sx={{ textTransform: 'capitalize' }}>
+                {type}
+              </MenuItem>
+            ))}
+          </TextField>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <Autocomplete
+              multiple
+              freeSolo
+              fullWidth
+              options={categories}
+              value={assetCategories}
+              onChange={(_, value) => setAssetCategories(value as string[])}
+              renderInput={(params) => <TextField {...params} label="Asset categories" />}
+            />
+            <Autocomplete
+              multiple
+              fullWidth
+              options={assets.map((asset) => asset._id as string)}
+              value={assetIds}
+              onChange={(_, value) => setAssetIds(value)}
+              getOptionLabel={(id) => assets.find((asset) => asset._id === id)?.name || id}
+              renderInput={(params) => <TextField {...params} label="Specific assets" />}
+            />
+          </Stack>
+
+          <Divider />
+
+          <Stack direction="row" alignItems="center" justifyContent="space-between">
+            <Typography variant="subtitle1">Fields</Typography>
+            <Button
+              size="small"
+              startIcon={<Iconify icon="mingcute:add-line" />}
+              onClick={addField}
+            >
+              Add field
+            </Button>
+          </Stack>
+          <Stack spacing={1.5}>
+            {fields.map((field, index) => (
+              <Card key={field.rowId} variant="outlined" sx={{ p: 2 }}>
+                <Stack spacing={1.5}>
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    <TextField
+                      fullWidth
+                      size="small"
+                      label="Label"
+                      placeholder="e.g. Flue gas reading within limits"
+                      value={field.label}
+                      onChange={(e) => updateField(field.rowId, { label: e.target.value })}
+                    />
+                    <TextField
+                      select
+                      size="small"
+                      label="Type"
+                      value={field.type}
+                      onChange={(e) =>
+                        changeType(field.rowId, e.target.value as InspectionFieldType)
+                      }
+                      sx={{ minWidth: 160 }}
+                    >
+                      {(Object.keys(FIELD_TYPE_LABELS) as InspectionFieldType[]).map((type) => (
+                        <MenuItem key={type} value={type}>
+                          {FIELD_TYPE_LABELS[type]}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                    <IconButton
+                      size="small"
+                      onClick={() => moveField(index, -1)}
+                      disabled={index === 0}
+                    >
+                      <Iconify icon="eva:arrow-ios-upward-fill" />
+                    </IconButton>
+                    <IconButton
+                      size="small"
+                      onClick={() => moveField(index, 1)}
+                      disabled={index === fields.length - 1}
+                    >
+                      <Iconify icon="eva:arrow-ios-downward-fill" />
+                    </IconButton>
+                    <IconButton
+                      size="small"
+                      color="error"
+                      onClick={() =>
+                        setFields((prev) => prev.filter((row) => row.rowId !== field.rowId))
+                      }
+                    >
+                      <Iconify icon="solar:trash-bin-trash-bold" />
+                    </IconButton>
+                  </Stack>
+
+                  <Stack
+                    direction={{ xs: 'column', md: 'row' }}
+                    spacing={1.5}
+                    alignItems={{ md: 'center' }}
+                  >
+                    <TextField
+                      size="small"
+                      label="Section"
+                      value={field.section || ''}
+                      onChange={(e) => updateField(field.rowId, { section: e.target.value })}
+                      sx={{ minWidth: 180 }}
+                    />
+                    {renderFieldOptions(field)}
+                    <FormControlLabel
+                      control={
+                        <Switch
+                          size="small"
+                          checked={field.required}
+                          onChange={(e) => updateField(field.rowId, { required: e.target.checked })}
+                        />
+                      }
+                      label="Required"
+                      sx={{ flexShrink: 0 }}
+                    />
+                  </Stack>
+
+                  <TextField
+                    fullWidth
+                    size="small"
+                    label="Help text"
+                    value={field.helpText || ''}
+                    onChange={(e) => updateField(field.rowId, { helpText: e.target.value })}
+                  />
+                </Stack>
+              </Card>
+            ))}
+          </Stack>
+
+          {form && (
+            <Typography variant="caption" color="text.secondary">
+              Changing fields creates version {form.version + 1}; completed reports keep the answers
+              they were filled with.
+            </Typography>
+          )}
+        </Stack>
+      </DialogContent>
+
+      <DialogActions>
+        <Button variant="outlined" onClick={onCloseAction}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleSubmit} disabled={submitting}>
+          {form ? 'Save' : 'Create'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,211 @@
+'use client';
+
+import type { IInspectionForm } from 'src/lib/models/InspectionForm';
+
+import useSWR from 'swr';
+import { useState } from 'react';
+
+import Card from '@mui/material/Card';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import Table from '@mui/material/Table';
+import Alert from '@mui/material/Alert';
+import Button from '@mui/material/Button';
+import TableRow from '@mui/material/TableRow';
+import Container from '@mui/material/Container';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import IconButton from '@mui/material/IconButton';
+import Typography from '@mui/material/Typography';
+import TableContainer from '@mui/material/TableContainer';
+
+import { fDate } from 'src/utils/format-time';
+
+import { fetcher, endpoints } from 'src/lib/axios';
+import { InspectionFormService } from 'src/lib/services/inspection-form-service';
+
+import { toast } from 'src/components/snackbar';
+import { Iconify } from 'src/components/iconify';
+import { ConfirmDialog } from 'src/components/custom-dialog';
+
+import { InspectionFormDialog } from './inspection-form-dialog';
+
+// ----------------------------------------------------------------------
+
+export function InspectionFormsView() {
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<IInspectionForm | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<IInspectionForm | null>(null);
+
+  const { data, isLoading, mutate } = useSWR(endpoints.fsa.inspectionForms.list, fetcher<any>);
+
+  const forms: IInspectionForm[] = data?.data || [];
+
+  const openForm = (form: IInspectionForm | null) => {
+    setEditing(form);
+    setFormOpen(true);
+  };
+
+  const handleToggleActive = async (form: IInspectionForm) => {
+    try {
+      await InspectionFormService.updateForm(form._id, { isActive: !form.isActive });
+      toast.success(form.isActive ? 'Form deactivated' : 'Form activated');
+      mutate();
+    } catch (error: any) {
+      console.error('Failed to update form:', error);
+      toast.error(error?.message || 'Failed to update form');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    try {
+      await InspectionFormService.deleteForm(deleteTarget._id);
+      toast.success('Form deleted');
+      mutate();
+    } catch (error: any) {
+      console.error('Failed to delete form:', error);
+      toast.error(error?.message || 'Failed to delete form');
+    } finally {
+      setDeleteTarget(null);
+    }
+  };
+
+  const appliesToLabels = (form: IInspectionForm) => [
+    ...form.appliesTo.reportTypes,
+    ...form.appliesTo.assetCategories.map((category) => `Category: ${category}`),
+    ...(form.appliesTo.assetIds.length > 0
+      ? [`${form.appliesTo.assetIds.length} specific asset(s)`]
+      : []),
+  ];
+
+  return (
+    <Container maxWidth={false}>
+      <Stack spacing={3} sx={{ p: 3 }}>
+        <Stack direction="row" alignItems="center" justifyContent="space-between">
+          <Stack spacing={1}>
+            <Typography variant="h4">Inspection Forms</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Checklists technicians fill in on reports, offered by report type or by the equipment
+              being serviced.
+            </Typography>
+          </Stack>
+          <Button
+            variant="contained"
+            startIcon={<Iconify icon="mingcute:add-line" />}
+            onClick={() => openForm(null)}
+          >
+            New Form
+          </Button>
+        </Stack>
+
+        {!isLoading && forms.length === 0 && (
+          <Alert severity="info">
+            No inspection forms yet. Build one to capture structured checks on reports.
+          </Alert>
+        )}
+
+        {forms.length > 0 && (
+          <Card>
+            <TableContainer>
+              <Table>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Name</TableCell>
+                    <TableCell>Fields</TableCell>
+                    <TableCell>Applies to</TableCell>
+                    <TableCell>Version</TableCell>
+                    <TableCell>Updated</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {forms.map((form) => (
+                    <TableRow key={form._id} hover>
+                      <TableCell>
+                        <Stack direction="row" spacing={1} alignItems="center">
+                          <Typography variant="subtitle2">{form.name}</Typography>
+                          {!form.isActive && <Chip size="small" label="Inactive" />}
+                        </Stack>
+                        {form.description && (
+                          <Typography variant="caption" color="text.secondary">
+                            {form.description}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>{form.fields.length}</TableCell>
+                      <TableCell>
+                        <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+                          {appliesToLabels(form).length === 0 && (
+                            <Typography variant="body2" color="text.secondary">
+                              -
+                            </Typography>
+                          )}
+                          {appliesToLabels(form).map((label) => (
+                            <Chip
+                              key={label}
+                              size="small"
+                              variant="outlined"
+                              label={label}
+                              sx={{ textTransform: 'capitalize' }}
+                            />
+                          ))}
+                        </Stack>
+                      </TableCell>
+                      <TableCell>v{form.version}</TableCell>
+                      <TableCell>{fDate(form.updatedAt)}</TableCell>
+                      <TableCell align="right">
+                        <Stack direction="row" spacing={0.5} justifyContent="flex-end">
+                          <IconButton
+                            size="small"
+                            title={form.isActive ? 'Deactivate' : 'Activate'}
+                            onClick={() => handleToggleActive(form)}
+                          >
+                            <Iconify
+                              icon={form.isActive ? 'solar:eye-closed-bold' : 'solar:eye-bold'}
+                            />
+                          </IconButton>
+                          <IconButton size="small" title="Edit" onClick={() => openForm(form)}>
+                            <Iconify icon="solar:pen-bold" />
+                          </IconButton>
+                          <IconButton
+                            size="small"
+                            color="error"
+                            title="Delete"
+                            onClick={() => setDeleteTarget(form)}
+                          >
+                            <Iconify icon="solar:trash-bin-trash-bold" />
+                          </IconButton>
+                        </Stack>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Card>
+        )}
+      </Stack>
+
+      <InspectionFormDialog
+        open={formOpen}
+        form={editing}
+        onCloseAction={() => setFormOpen(false)}
+        onSavedAction={() => mutate()}
+      />
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        title="Delete Form"
+        content={`Delete "${deleteTarget?.name}"? Forms already used on reports can only be deactivated.`}
+        action={
+          <Button variant="contained" color="error" onClick={handleDelete}>
+            Delete
+          </Button>
+        }
+      />
+    </Container>
+  );
+}
@@ -0,0 +1,454 @@
+'use client';
+
+import type {
+  IReportTemplate,
+  ReportTemplateData,
+  ReportSignatureRole,
+  ReportLogoPlacement,
+  ReportTemplateDefaults,
+  IReportTemplateSection,
+  IReportTemplateSignatureBlock,
+} from 'src/lib/models/ReportTemplate';
+
+import { useState, useEffect } from 'react';
+
+import Box from '@mui/material/Box';
+import Stack from '@mui/material/Stack';
+import Dialog from '@mui/material/Dialog';
+import Button from '@mui/material/Button';
+import Switch from '@mui/material/Switch';
+import Divider from '@mui/material/Divider';
+import Checkbox from '@mui/material/Checkbox';
+import MenuItem from '@mui/material/MenuItem';
+import TextField from '@mui/material/TextField';
+import IconButton from '@mui/material/IconButton';
+import Typography from '@mui/material/Typography';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import FormControlLabel from '@mui/material/FormControlLabel';
+
+import { ReportTemplateService } from 'src/lib/services/report-template-service';
+
+import { toast } from 'src/components/snackbar';
+import { Iconify } from 'src/components/iconify';
+
+// ----------------------------------------------------------------------
+
+const SIGNATURE_ROLES: { value: ReportSignatureRole; label: string }[] = [
+  { value: 'technician', label: 'Technician' },
+  { value: 'client', label: 'Client' },
+  { value: 'supervisor', label: 'Supervisor' },
+  { value: 'inspector', label: 'Inspector' },
+];
+
+const LOGO_PLACEMENTS: { value: ReportLogoPlacement; label: string }[] = [
+  { value: 'none', label: 'No logo' },
+  { value: 'left', label: 'Left' },
+  { value: 'center', label: 'Center' },
+  { value: 'right', label: 'Right' },
+];
+
+type Props = {
+  open: boolean;
+  template: IReportTemplate | null;
+  defaults?: ReportTemplateDefaults;
+  onCloseAction: () => void;
+  onSavedAction: () => void;
+  onPreviewAction: (data: ReportTemplateData) => void;
+};
+
+const buildInitialState = (
+  template: IReportTemplate | null,
+  defaults?: ReportTemplateDefaults
+): ReportTemplateData => {
+  const base = template || defaults?.template;
+
+  return {
+    name: template?.name || '',
+    description: template?.description || '',
+    isDefault: template?.isDefault || false,
+    reportTypes: template?.reportTypes || [],
+    sections: base?.sections?.map((section) => ({ ...section })) || [],
+    header: { title: 'FIELD SERVICE REPORT', showReportId: true, ...base?.header },
+    footer: { showGeneratedAt: true, showPageNumbers: false, ...base?.footer },
+    logo: { placement: 'left', width: 120, ...base?.logo },
+    colors: { ...base?.colors },
+    signatureBlocks: base?.signatureBlocks?.map((block) => ({ ...block })) || [],
+  };
+};
+
+export function ReportTemplateFormDialog({
+  open,
+  template,
+  defaults,
+  onCloseAction,
+  onSavedAction,
+  onPreviewAction,
+}: Props) {
+  const [form, setForm] = useState<ReportTemplateData>(() => buildInitialState(template, defaults));
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setForm(buildInitialState(template, defaults));
+    }
+  }, [open, template, defaults]);
+
+  const update = <K extends keyof ReportTemplateData>(key: K, value: ReportTemplateData[K]) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const updateSection = (index: number, changes: Partial<IReportTemplateSection>) => {
+    update(
+      'sections',
+      form.sections.map((section, i) => (i === index ? { ...section, ...changes } : section))
+    );
+  };
+
+  const moveSection = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= form.sections.length) return;
+    const sections = [...form.sections];
+    [sections[index], sections[target]] = [sections[target], sections[index]];
+    update('sections', sections);
+  };
+
+  const updateSignatureBlock = (index: number, changes: Partial<IReportTemplateSignatureBlock>) => {
+    update(
+      'signatureBlocks',
+      form.signatureBlocks.map((block, i) => (i === index ? { ...block, ...changes } : block))
+    );
+  };
+
+  const addSignatureBlock = () => {
+    update('signatureBlocks', [
+      ...form.signatureBlocks,
+      { role: 'client', label: 'Client', showWhenUnsigned: true },
+    ]);
+  };
+
+  const removeSignatureBlock = (index: number) => {
+    update(
+      'signatureBlocks',
+      form.signatureBlocks.filter((_, i) => i !== index)
+    );
+  };
+
+  const handleSubmit = async () => {
+    const payload: ReportTemplateData = {
+      ...form,
+      colors: {
+        primary: form.colors.primary || '',
+        secondary: form.colors.secondary || '',
+      },
+    };
+
+    try {
+      setSubmitting(true);
+      const response = template
+        ? await ReportTemplateService.updateTemplate(template._id, payload)
+        : await ReportTemplateService.createTemplate(payload);
+      if (response.success) {
+        toast.success(template ? 'Template updated' : 'Template created');
+        onSavedAction();
+        onCloseAction();
+      }
+    } catch (error: any) {
+      console.error('Failed to save report template:', error);
+      toast.error(error?.message || 'Failed to save report template');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const sectionTitle = (section: IReportTemplateSection) =>
+    defaults?.sectionTitles?.[section.key] || section.key;
+
+  return (
+    <Dialog open={open} onClose={onCloseAction} maxWidth="md" fullWidth>
+      <DialogTitle>{template ? 'Edit Report Template' : 'New Report Template'}</DialogTitle>
+
+      <DialogContent>
+        <Stack spacing={3} sx={{ pt: 1 }}>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <TextField
+              fullWidth
+              label="Name"
+              value={form.name}
+              onChange={(e) => update('name', e.target.value)}
+            />
+            <TextField
+              select
+              fullWidth
+              label="Use for report types"
+              value={form.reportTypes}
+              onChange={(e) => update('reportTypes', e.target.value as unknown as string[])}
+              helperText="Leave empty to use it only as the default"
+              slotProps={{ select: { multiple: true } }}
+            >
+              {(defaults?.reportTypes || []).map((type) => (
+                <MenuItem key={type} value={type} sx={{ textTransform: 'capitalize' }}>
+                  {type}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Stack>
+
+          <TextField
+            fullWidth
+            label="Description"
+            value={form.description}
+            onChange={(e) => update('description', e.target.value)}
+          />
+
+          <FormControlLabel
+            control={
+              <Switch
+                checked={!!form.isDefault}
+                onChange={(e) => update('isDefault', e.target.checked)}
+              />
+            }
+            label="Default template for all other reports"
+          />
+
+          <Divider />
+
+          <Typography variant="subtitle1">Header & footer</Typography>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <TextField
+              fullWidth
+              label="Title"
+              value={form.header.title}
+              onChange={(e) => update('header', { ...form.header, title: e.target.value })}
+            />
+            <TextField
+              fullWidth
+              label="Subtitle"
+              value={form.header.subtitle || ''}
+              onChange={(e) => update('header', { ...form.header, subtitle: e.target.value })}
+            />
+          </Stack>
+          <TextField
+            fullWidth
+            label="Footer text"
+            value={form.footer.text || ''}
+            onChange={(e) => update('footer', { ...form.footer, text: e.target.value })}
+          />
+          <Stack direction="row" flexWrap="wrap">
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={form.header.showReportId}
+                  onChange={(e) =>
+                    update('header', { ...form.header, showReportId: e.target.checked })
+                  }
+                />
+              }
+              label="Show report ID"
+            />
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={form.footer.showGeneratedAt}
+                  onChange={(e) =>
+                    update('footer', { ...form.footer, showGeneratedAt: e.target.checked })
+                  }
+                />
+              }
+              label="Show generation date"
+            />
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={form.footer.showPageNumbers}
+                  onChange={(e) =>
+                    update('footer', { ...form.footer, showPageNumbers: e.target.checked })
+                  }
+                />
+              }
+              label="Show page numbers"
+            />
+          </Stack>
+
+          <Divider />
+
+          <Typography variant="subtitle1">Branding</Typography>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <TextField
+              select
+              fullWidth
+              label="Logo placement"
+              value={form.logo.placement}
+              onChange={(e) =>
+                update('logo', { ...form.logo, placement: e.target.value as ReportLogoPlacement })
+              }
+              helperText="Uses the logo from company settings"
+            >
+              {LOGO_PLACEMENTS.map((option) => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              fullWidth
+              type="number"
+              label="Logo width (pt)"
+              value={form.logo.width}
+              onChange={(e) => update('logo', { ...form.logo, width: Number(e.target.value) })}
+              disabled={form.logo.placement === 'none'}
+            />
+          </Stack>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <TextField
+              fullWidth
+              type="color"
+              label="Heading color"
+              value={form.colors.primary || '#1976d2'}
+              onChange={(e) => update('colors', { ...form.colors, primary: e.target.value })}
+              helperText={form.colors.primary ? undefined : 'Using company brand color'}
+            />
+            <TextField
+              fullWidth
+              type="color"
+              label="Label color"
+              value={form.colors.secondary || '#666666'}
+              onChange={(e) => update('colors', { ...form.colors, secondary: e.target.value })}
+              helperText={form.colors.secondary ? undefined : 'Using company brand color'}
+            />
+            <Button
+              variant="text"
+              onClick={() => update('colors', {})}
+              disabled={!form.colors.primary && !form.colors.secondary}
+              sx={{ flexShrink: 0, alignSelf: 'center' }}
+            >
+              Use brand colors
+            </Button>
+          </Stack>
+
+          <Divider />
+
+          <Typography variant="subtitle1">Sections</Typography>
+          <Stack spacing={1}>
+            {form.sections.map((section, index) => (
+              <Stack key={section.key} direction="row" spacing={1} alignItems="center">
+                <Checkbox
+                  checked={section.enabled}
+                  onChange={(e) => updateSection(index, { enabled: e.target.checked })}
+                />
+                <TextField
+                  fullWidth
+                  size="small"
+                  value={section.title || ''}
+                  placeholder={sectionTitle(section)}
+                  onChange={(e) => updateSection(index, { title: e.target.value })}
+                  disabled={!section.enabled}
+                />
+                <IconButton
+                  size="small"
+                  onClick={() => moveSection(index, -1)}
+                  disabled={index === 0}
+                >
+                  <Iconify icon="eva:arrow-ios-upward-fill" />
+                </IconButton>
+                <IconButton
+                  size="small"
+                  onClick={() => moveSection(index, 1)}
+                  disabled={index === form.sections.length - 1}
+                >
+                  <Iconify icon="eva:arrow-ios-downward-fill" />
+                </IconButton>
+              </Stack>
+            ))}
+          </Stack>
+
+          <Divider />
+
+          <Stack direction="row" alignItems="center" justifyContent="space-between">
+            <Box>
+              <Typography variant="subtitle1">Signature blocks</Typography>
+              <Typography variant="body2" color="text.secondary">
+                Without blocks, every captured signature is printed.
+              </Typography>
+            </Box>
+            <Button
+              size="small"
+              startIcon={<Iconify icon="mingcute:add-line" />}
+              onClick={addSignatureBlock}
+              disabled={form.signatureBlocks.length >= 6}
+            >
+              Add block
+            </Button>
+          </Stack>
+          <Stack spacing={1.5}>
+            {form.signatureBlocks.map((block, index) => (
+              <Stack key={index} direction="row" spacing={1} alignItems="center">
+                <TextField
+                  select
+                  size="small"
+                  label="Signer"
+                  value={block.role}
+                  onChange={(e) =>
+                    updateSignatureBlock(index, { role: e.target.value as ReportSignatureRole })
+                  }
+                  sx={{ minWidth: 150 }}
+                >
+                  {SIGNATURE_ROLES.map((role) => (
+                    <MenuItem key={role.value} value={role.value}>
+                      {role.label}
+                    </MenuItem>
+                  ))}
+                </TextField>
+                <TextField
+                  fullWidth
+                  size="small"
+                  label="Label"
+                  value={block.label}
+                  onChange={(e) => updateSignatureBlock(index, { label: e.target.value })}
+                />
+                <FormControlLabel
+                  control={
+                    <Switch
+                      size="small"
+                      checked={block.showWhenUnsigned}
+                      onChange={(e) =>
+                        updateSignatureBlock(index, { showWhenUnsigned: e.target.checked })
+                      }
+                    />
+                  }
+                  label="Blank line if unsigned"
+                  sx={{ flexShrink: 0 }}
+                />
+                <IconButton size="small" color="error" onClick={() => removeSignatureBlock(index)}>
+                  <Iconify icon="solar:trash-bin-trash-bold" />
+                </IconButton>
+              </Stack>
+            ))}
+          </Stack>
+        </Stack>
+      </DialogContent>
+
+      <DialogActions>
+        <Button
+          variant="outlined"
+          startIcon={<Iconify icon="solar:eye-bold" />}
+          onClick={() => onPreviewAction(form)}
+          sx={{ mr: 'auto' }}
+        >
+          Preview
+        </Button>
+        <Button variant="outlined" onClick={onCloseAction}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSubmit}
+          disabled={submitting || !form.name.trim() || !form.header.title.trim()}
+        >
+          {template ? 'Save' : 'Create'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,270 @@
+'use client';
+
+import type {
+  IReportTemplate,
+  ReportTemplateConfig,
+  ReportTemplateDefaults,
+} from 'src/lib/models/ReportTemplate';
+
+import useSWR from 'swr';
+import { useState } from 'react';
+
+import Card from '@mui/material/Card';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import Table from '@mui/material/Table';
+import Alert from '@mui/material/Alert';
+import Dialog from '@mui/material/Dialog';
+import Button from '@mui/material/Button';
+import TableRow from '@mui/material/TableRow';
+import Container from '@mui/material/Container';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import IconButton from '@mui/material/IconButton';
+import Typography from '@mui/material/Typography';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import TableContainer from '@mui/material/TableContainer';
+
+import { fDate } from 'src/utils/format-time';
+
+import { fetcher, endpoints } from 'src/lib/axios';
+import { ReportTemplateService } from 'src/lib/services/report-template-service';
+
+import { toast } from 'src/components/snackbar';
+import { Iconify } from 'src/components/iconify';
+import { ConfirmDialog } from 'src/components/custom-dialog';
+
+import { ReportTemplateFormDialog } from './report-template-form-dialog';
+
+// ----------------------------------------------------------------------
+
+export function ReportTemplatesView() {
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<IReportTemplate | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<IReportTemplate | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  const { data, isLoading, mutate } = useSWR(endpoints.fsa.reportTemplates.list, fetcher<any>);
+  const { data: defaultsData } = useSWR(endpoints.fsa.reportTemplates.defaults, fetcher<any>);
+
+  const templates: IReportTemplate[] = data?.data || [];
+  const defaults: ReportTemplateDefaults | undefined = defaultsData?.data;
+
+  const openForm = (template: IReportTemplate | null) => {
+    setEditing(template);
+    setFormOpen(true);
+  };
+
+  const handlePreview = async (payload: {
+    template?: ReportTemplateConfig;
+    templateId?: string;
+  }) => {
+    try {
+      const url = await ReportTemplateService.previewTemplate(payload);
+      setPreviewUrl(url);
+    } catch (error: any) {
+      console.error('Failed to render template preview:', error);
+      toast.error(error?.message || 'Failed to render template preview');
+    }
+  };
+
+  const closePreview = () => {
+    if (previewUrl) {
+      window.URL.revokeObjectURL(previewUrl);
+    }
+    setPreviewUrl(null);
+  };
+
+  const handleSetDefault = async (template: IReportTemplate) => {
+    try {
+      await ReportTemplateService.setDefaultTemplate(template._id);
+      toast.success(`"${template.name}" is now the default template`);
+      mutate();
+    } catch (error: any) {
+      console.error('Failed to set default template:', error);
+      toast.error(error?.message || 'Failed to set default template');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    try {
+      await ReportTemplateService.deleteTemplate(deleteTarget._id);
+      toast.success('Template deleted');
+      mutate();
+    } catch (error: any) {
+      console.error('Failed to delete template:', error);
+      toast.error(error?.message || 'Failed to delete template');
+    } finally {
+      setDeleteTarget(null);
+    }
+  };
+
+  return (
+    <Container maxWidth={false}>
+      <Stack spacing={3} sx={{ p: 3 }}>
+        <Stack direction="row" alignItems="center" justifyContent="space-between">
+          <Stack spacing={1}>
+            <Typography variant="h4">Report Templates</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Choose the sections, branding and signature blocks used when reports are exported as
+              PDF.
+            </Typography>
+          </Stack>
+          <Stack direction="row" spacing={1}>
+            <Button
+              variant="outlined"
+              startIcon={<Iconify icon="solar:eye-bold" />}
+              onClick={() => handlePreview({ template: defaults?.template })}
+              disabled={!defaults}
+            >
+              Preview Built-in
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={<Iconify icon="mingcute:add-line" />}
+              onClick={() => openForm(null)}
+              disabled={!defaults}
+            >
+              New Template
+            </Button>
+          </Stack>
+        </Stack>
+
+        {!isLoading && templates.length === 0 && (
+          <Alert severity="info">
+            Reports use the built-in layout until you create a template.
+          </Alert>
+        )}
+
+        {templates.length > 0 && (
+          <Card>
+            <TableContainer>
+              <Table>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Name</TableCell>
+                    <TableCell>Report types</TableCell>
+                    <TableCell>Updated</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {templates.map((template) => (
+                    <TableRow key={template._id} hover>
+                      <TableCell>
+                        <Stack direction="row" spacing={1} alignItems="center">
+                          <Typography variant="subtitle2">{template.name}</Typography>
+                          {template.isDefault && (
+                            <Chip size="small" color="primary" label="Default" />
+                          )}
+                        </Stack>
+                        {template.description && (
+                          <Typography variant="caption" color="text.secondary">
+                            {template.description}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Stack direction="row" spacing={0.5} flexWrap="wrap">
+                          {template.reportTypes.length === 0 && (
+                            <Typography variant="body2" color="text.secondary">
+                              -
+                            </Typography>
+                          )}
+                          {template.reportTypes.map((type) => (
+                            <Chip
+                              key={type}
+                              size="small"
+                              variant="outlined"
+                              label={type}
+                              sx={{ textTransform: 'capitalize' }}
+                            />
+                          ))}
+                        </Stack>
+                      </TableCell>
+                      <TableCell>{fDate(template.updatedAt)}</TableCell>
+                      <TableCell align="right">
+                        <Stack direction="row" spacing={0.5} justifyContent="flex-end">
+                          <IconButton
+                            size="small"
+                            title="Preview"
+                            onClick={() => handlePreview({ templateId: template._id })}
+                          >
+                            <Iconify icon="solar:eye-bold" />
+                          </IconButton>
+                          {!template.isDefault && (
+                            <IconButton
+                              size="small"
+                              title="Make default"
+                              onClick={() => handleSetDefault(template)}
+                            >
+                              <Iconify icon="eva:star-outline" />
+                            </IconButton>
+                          )}
+                          <IconButton size="small" title="Edit" onClick={() => openForm(template)}>
+                            <Iconify icon="solar:pen-bold" />
+                          </IconButton>
+                          <IconButton
+                            size="small"
+                            color="error"
+                            title="Delete"
+                            onClick={() => setDeleteTarget(template)}
+                          >
+                            <Iconify icon="solar:trash-bin-trash-bold" />
+                          </IconButton>
+                        </Stack>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Card>
+        )}
+      </Stack>
+
+      <ReportTemplateFormDialog
+        open={formOpen}
+        template={editing}
+        defaults={defaults}
+        onCloseAction={() => setFormOpen(false)}
+        onSavedAction={() => mutate()}
+        onPreviewAction={(template) => handlePreview({ template })}
+      />
+
+      <Dialog open={!!previewUrl} onClose={closePreview} maxWidth="lg" fullWidth>
+        <DialogTitle>Template Preview</DialogTitle>
+        <DialogContent>
+          {previewUrl && (
+            <iframe
+              title="Report template preview"
+              src={previewUrl}
+              style={{ width: '100%', height: '75vh', border: 0 }}
+            />
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button variant="outlined" onClick={closePreview}>
+            Close
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        title="Delete Template"
+        content={`Delete "${deleteTarget?.name}"? Reports will fall back to the default template.`}
+        action={
+          <Button variant="contained" color="error" onClick={handleDelete}>
+            Delete
+          </Button>
+        }
+      />
+    </Container>
+  );
+}
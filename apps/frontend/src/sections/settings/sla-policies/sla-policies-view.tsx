@@ -0,0 +1,202 @@
+'use client';
+
+import type { ISlaPolicy } from 'src/lib/models/SlaPolicy';
+
+import useSWR from 'swr';
+import { useState } from 'react';
+
+import Card from '@mui/material/Card';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import Table from '@mui/material/Table';
+import Alert from '@mui/material/Alert';
+import Button from '@mui/material/Button';
+import TableRow from '@mui/material/TableRow';
+import Container from '@mui/material/Container';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import IconButton from '@mui/material/IconButton';
+import Typography from '@mui/material/Typography';
+import TableContainer from '@mui/material/TableContainer';
+
+import { fetcher, endpoints } from 'src/lib/axios';
+import { SlaService } from 'src/lib/services/sla-service';
+
+import { toast } from 'src/components/snackbar';
+import { Iconify } from 'src/components/iconify';
+import { ConfirmDialog } from 'src/components/custom-dialog';
+
+import { SlaPolicyDialog, PRIORITY_LABELS } from './sla-policy-dialog';
+
+// ----------------------------------------------------------------------
+
+const formatTarget = (minutes: number) => {
+  const hours = minutes / 60;
+  return Number.isInteger(hours) ? `${hours}h` : `${+hours.toFixed(2)}h`;
+};
+
+const describeScope = (policy: ISlaPolicy) => {
+  const { priorities, clientIds, contractIds } = policy.match;
+  const parts = [
+    contractIds.length > 0 && `${contractIds.length} contract(s)`,
+    clientIds.length > 0 && `${clientIds.length} client(s)`,
+    priorities.length > 0 && priorities.map((priority) => PRIORITY_LABELS[priority]).join(', '),
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(' · ') : 'All work orders';
+};
+
+export function SlaPoliciesView() {
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<ISlaPolicy | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<ISlaPolicy | null>(null);
+
+  const { data, isLoading, mutate } = useSWR(endpoints.fsa.sla.policies, fetcher<any>);
+
+  const policies: ISlaPolicy[] = data?.data || [];
+
+  const openForm = (policy: ISlaPolicy | null) => {
+    setEditing(policy);
+    setFormOpen(true);
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    try {
+      await SlaService.deletePolicy(deleteTarget._id);
+      toast.success('SLA policy deleted');
+      mutate();
+    } catch (error: any) {
+      console.error('Failed to delete SLA policy:', error);
+      toast.error(error?.message || 'Failed to delete SLA policy');
+    } finally {
+      setDeleteTarget(null);
+    }
+  };
+
+  return (
+    <Container maxWidth={false}>
+      <Stack spacing={3} sx={{ p: 3 }}>
+        <Stack direction="row" alignItems="center" justifyContent="space-between">
+          <Stack spacing={1}>
+            <Typography variant="h4">SLA Policies</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Response and resolution targets for work orders, and who is alerted when one is at
+              risk.
+            </Typography>
+          </Stack>
+          <Button
+            variant="contained"
+            startIcon={<Iconify icon="mingcute:add-line" />}
+            onClick={() => openForm(null)}
+          >
+            New Policy
+          </Button>
+        </Stack>
+
+        {!isLoading && policies.length === 0 && (
+          <Alert severity="info">
+            No SLA policies yet. Work orders are not timed until a policy applies to them.
+          </Alert>
+        )}
+
+        {policies.length > 0 && (
+          <Card>
+            <TableContainer>
+              <Table>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Name</TableCell>
+                    <TableCell>Applies to</TableCell>
+                    <TableCell>Response</TableCell>
+                    <TableCell>Resolution</TableCell>
+                    <TableCell>Escalation</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {policies.map((policy) => (
+                    <TableRow key={policy._id} hover>
+                      <TableCell>
+                        <Stack direction="row" spacing={1} alignItems="center">
+                          <Typography variant="subtitle2">{policy.name}</Typography>
+                          {!policy.isActive && <Chip size="small" label="Inactive" />}
+                        </Stack>
+                        {policy.description && (
+                          <Typography variant="caption" color="text.secondary">
+                            {policy.description}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>{describeScope(policy)}</TableCell>
+                      <TableCell>{formatTarget(policy.responseMinutes)}</TableCell>
+                      <TableCell>
+                        {formatTarget(policy.resolutionMinutes)}
+                        {policy.pauseOnHold && (
+                          <Typography variant="caption" color="text.secondary" display="block">
+                            Paused on hold
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Typography variant="body2">
+                          {policy.escalation.warnAtPercent > 0
+                            ? `Warn at ${policy.escalation.warnAtPercent}%`
+                            : 'Breach only'}
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          {[
+                            ...policy.escalation.notifyRoles,
+                            policy.escalation.notifyAssignees && 'assignees',
+                            policy.escalation.sms && 'SMS',
+                          ]
+                            .filter(Boolean)
+                            .join(', ')}
+                        </Typography>
+                      </TableCell>
+                      <TableCell align="right">
+                        <Stack direction="row" spacing={0.5} justifyContent="flex-end">
+                          <IconButton size="small" title="Edit" onClick={() => openForm(policy)}>
+                            <Iconify icon="solar:pen-bold" />
+                          </IconButton>
+                          <IconButton
+                            size="small"
+                            color="error"
+                            title="Delete"
+                            onClick={() => setDeleteTarget(policy)}
+                          >
+                            <Iconify icon="solar:trash-bin-trash-bold" />
+                          </IconButton>
+                        </Stack>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Card>
+        )}
+      </Stack>
+
+      <SlaPolicyDialog
+        open={formOpen}
+        policy={editing}
+        onCloseAction={() => setFormOpen(false)}
+        onSavedAction={() => mutate()}
+      />
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        title="Delete SLA Policy"
+        content={`Delete "${deleteTarget?.name}"? Open work orders will be re-evaluated against the remaining policies.`}
+        action={
+          <Button variant="contained" color="error" onClick={handleDelete}>
+            Delete
+          </Button>
+        }
+      />
+    </Container>
+  );
+}
@@ -0,0 +1,329 @@
+'use client';
+
+import type { ISlaPolicy, SlaPriority, SlaPolicyInput } from 'src/lib/models/SlaPolicy';
+
+import useSWR from 'swr';
+import { useMemo, useState, useEffect } from 'react';
+
+import Box from '@mui/material/Box';
+import Stack from '@mui/material/Stack';
+import Dialog from '@mui/material/Dialog';
+import Button from '@mui/material/Button';
+import Switch from '@mui/material/Switch';
+import Divider from '@mui/material/Divider';
+import MenuItem from '@mui/material/MenuItem';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import FormControlLabel from '@mui/material/FormControlLabel';
+
+import { fetcher, endpoints } from 'src/lib/axios';
+import { SlaService } from 'src/lib/services/sla-service';
+
+import { toast } from 'src/components/snackbar';
+
+// ----------------------------------------------------------------------
+
+export const PRIORITY_LABELS: Record<SlaPriority, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  urgent: 'Urgent',
+};
+
+type Props = {
+  open: boolean;
+  policy: ISlaPolicy | null;
+  onCloseAction: () => void;
+  onSavedAction: () => void;
+};
+
+// Targets are edited in hours and stored in minutes
+const toHours = (minutes?: number) => (minutes ? String(+(minutes / 60).toFixed(2)) : '');
+const toMinutes = (hours: string) => Math.round(Number(hours) * 60);
+
+export function SlaPolicyDialog({ open, policy, onCloseAction, onSavedAction }: Props) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [priorities, setPriorities] = useState<SlaPriority[]>([]);
+  const [clientIds, setClientIds] = useState<string[]>([]);
+  const [contractIds, setContractIds] = useState<string[]>([]);
+  const [responseHours, setResponseHours] = useState('');
+  const [resolutionHours, setResolutionHours] = useState('');
+  const [pauseOnHold, setPauseOnHold] = useState(true);
+  const [warnAtPercent, setWarnAtPercent] = useState('80');
+  const [notifyRoles, setNotifyRoles] = useState<string[]>([]);
+  const [notifyAssignees, setNotifyAssignees] = useState(true);
+  const [sms, setSms] = useState(false);
+  const [isActive, setIsActive] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  const { data: clientsData } = useSWR(open ? endpoints.fsa.clients.list : null, fetcher<any>);
+  const { data: contractsData } = useSWR(
+    open ? [endpoints.fsa.contracts.list, { params: { limit: 100 } }] : null,
+    fetcher<any>
+  );
+  const { data: rolesData } = useSWR(open ? endpoints.fsa.roles.list : null, fetcher<any>);
+
+  const clients: any[] = useMemo(() => clientsData?.data?.clients || [], [clientsData]);
+  const contracts: any[] = useMemo(() => contractsData?.data || [], [contractsData]);
+  const roles: { slug: string; name: string }[] = rolesData?.data || [];
+
+  useEffect(() => {
+    if (!open) return;
+
+    setName(policy?.name || '');
+    setDescription(policy?.description || '');
+    setPriorities(policy?.match.priorities || []);
+    setClientIds(policy?.match.clientIds || []);
+    setContractIds(policy?.match.contractIds || []);
+    setResponseHours(toHours(policy?.responseMinutes));
+    setResolutionHours(toHours(policy?.resolutionMinutes));
+    setPauseOnHold(policy?.pauseOnHold ?? true);
+    setWarnAtPercent(String(policy?.escalation.warnAtPercent ?? 80));
+    setNotifyRoles(policy?.escalation.notifyRoles || ['admin', 'supervisor']);
+    setNotifyAssignees(policy?.escalation.notifyAssignees ?? true);
+    setSms(policy?.escalation.sms ?? false);
+    setIsActive(policy?.isActive ?? true);
+  }, [open, policy]);
+
+  const handleSubmit = async () => {
+    const responseMinutes = toMinutes(responseHours);
+    const resolutionMinutes = toMinutes(resolutionHours);
+
+    if (!name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+    if (!responseMinutes || !resolutionMinutes) {
+      toast.error('Response and resolution targets are required');
+      return;
+    }
+    if (resolutionMinutes < responseMinutes) {
+      toast.error('Resolution target cannot be shorter than the response target');
+      return;
+    }
+
+    const payload: SlaPolicyInput = {
+      name: name.trim(),
+      description: description || undefined,
+      match: { priorities, clientIds, contractIds },
+      responseMinutes,
+      resolutionMinutes,
+      pauseOnHold,
+      escalation: {
+        warnAtPercent: Math.min(99, Math.max(0, Math.round(Number(warnAtPercent) || 0))),
+        notifyRoles,
+        notifyAssignees,
+        sms,
+      },
+      isActive,
+    };
+
+    try {
+      setSubmitting(true);
+      const response = policy
+        ? await SlaService.updatePolicy(policy._id, payload)
+        : await SlaService.createPolicy(payload);
+      if (response.success) {
+        toast.success(policy ? 'SLA policy updated' : 'SLA policy created');
+        onSavedAction();
+        onCloseAction();
+      }
+    } catch (error: any) {
+      console.error('Failed to save SLA policy:', error);
+      toast.error(error?.message || 'Failed to save SLA policy');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onCloseAction} maxWidth="md" fullWidth>
+      <DialogTitle>{policy ? 'Edit SLA Policy' : 'New SLA Policy'}</DialogTitle>
+
+      <DialogContent>
+        <Stack spacing={3} sx={{ pt: 1 }}>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems="center">
+            <TextField
+              fullWidth
+              label="Name"
+              placeholder="e.g. Gold support"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <FormControlLabel
+              control={
+                <Switch checked={isActive} onChange={(e) => setIsActive(e.target.checked)} />
+              }
+              label="Active"
+              sx={{ flexShrink: 0 }}
+            />
+          </Stack>
+
+          <TextField
+            fullWidth
+            label="Description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+
+          <Divider />
+
+          <Box>
+            <Typography variant="subtitle1">Applies to</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Work orders take the most specific active policy: contract first, then client, then
+              priority. Leave a field empty to match anything.
+            </Typography>
+          </Box>
+
+          <TextField
+            select
+            fullWidth
+            label="Priorities"
+            value={priorities}
+            onChange={(e) => setPriorities(e.target.value as unknown as SlaPriority[])}
+            slotProps={{ select: { multiple: true } }}
+          >
+            {(Object.keys(PRIORITY_LABELS) as SlaPriority[]).map((priority) => (
+              <MenuItem key={priority} value={priority}>
+                {PRIORITY_LABELS[priority]}
+              </MenuItem>
+            ))}
+          </TextField>
+
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <TextField
+              select
+              fullWidth
+              label="Clients"
+              value={clientIds}
+              onChange={(e) => setClientIds(e.target.value as unknown as string[])}
+              slotProps={{ select: { multiple: true } }}
+            >
+              {clients.map((client) => (
+                <MenuItem key={client._id} value={client._id}>
+                  {client.company ? `${client.name} (${client.company})` : client.name}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              fullWidth
+              label="Contracts"
+              value={contractIds}
+              onChange={(e) => setContractIds(e.target.value as unknown as string[])}
+              slotProps={{ select: { multiple: true } }}
+            >
+              {contracts.map((contract) => (
+                <MenuItem key={contract._id} value={contract._id}>
+                  {contract.contractNumber} - {contract.title}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Stack>
+
+          <Divider />
+
+          <Box>
+            <Typography variant="subtitle1">Targets</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Counted in business hours from the company working hours. Response stops when the work
+              order is assigned or started, resolution when it is completed.
+            </Typography>
+          </Box>
+
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems="center">
+            <TextField
+              fullWidth
+              type="number"
+              label="Response (hours)"
+              value={responseHours}
+              onChange={(e) => setResponseHours(e.target.value)}
+              slotProps={{ htmlInput: { min: 0, step: 0.25 } }}
+            />
+            <TextField
+              fullWidth
+              type="number"
+              label="Resolution (hours)"
+              value={resolutionHours}
+              onChange={(e) => setResolutionHours(e.target.value)}
+              slotProps={{ htmlInput: { min: 0, step: 0.25 } }}
+            />
+            <FormControlLabel
+              control={
+                <Switch checked={pauseOnHold} onChange={(e) => setPauseOnHold(e.target.checked)} />
+              }
+              label="Pause while on hold"
+              sx={{ flexShrink: 0 }}
+            />
+          </Stack>
+
+          <Divider />
+
+          <Box>
+            <Typography variant="subtitle1">Escalation</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Who hears about a target at risk and when it is breached. Company owners are always
+              notified.
+            </Typography>
+          </Box>
+
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <TextField
+              type="number"
+              label="Warn at (% elapsed)"
+              value={warnAtPercent}
+              helperText="0 to skip the warning"
+              onChange={(e) => setWarnAtPercent(e.target.value)}
+              slotProps={{ htmlInput: { min: 0, max: 99 } }}
+              sx={{ minWidth: 200 }}
+            />
+            <TextField
+              select
+              fullWidth
+              label="Notify roles"
+              value={notifyRoles}
+              onChange={(e) => setNotifyRoles(e.target.value as unknown as string[])}
+              slotProps={{ select: { multiple: true } }}
+            >
+              {roles.map((role) => (
+                <MenuItem key={role.slug} value={role.slug}>
+                  {role.name}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Stack>
+
+          <Stack direction="row" spacing={2}>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={notifyAssignees}
+                  onChange={(e) => setNotifyAssignees(e.target.checked)}
+                />
+              }
+              label="Notify assigned technicians"
+            />
+            <FormControlLabel
+              control={<Switch checked={sms} onChange={(e) => setSms(e.target.checked)} />}
+              label="Text recipients on breach"
+            />
+          </Stack>
+        </Stack>
+      </DialogContent>
+
+      <DialogActions>
+        <Button variant="outlined" onClick={onCloseAction}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleSubmit} disabled={submitting}>
+          {policy ? 'Save' : 'Create'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -18,6 +18,7 @@ type Props = {
   apiKeysHref: string;
   smsRemindersHref: string;
   companyHref?: string;
+  reportTemplatesHref?: string;
   supportHref?: string;
 };
 
@@ -26,6 +27,7 @@ export function SettingsView({
   apiKeysHref,
   smsRemindersHref,
   companyHref,
+  reportTemplatesHref,
   supportHref,
 }: Props) {
   const { t } = useTranslate('dashboard');
@@ -122,6 +124,35 @@ export function SettingsView({
         </Grid>
       )}
 
+      {reportTemplatesHref && (
+        <Grid size={{ xs: 12, md: 6 }}>
+          <Card>
+            <CardHeader
+              title={t('settings.reportTemplates.title', { defaultValue: 'Report Templates' })}
+              subheader={t('settings.reportTemplates.subtitle', {
+                defaultValue: 'Customize exported report PDFs',
+              })}
+            />
+            <CardContent>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                {t('settings.reportTemplates.description', {
+                  defaultValue:
+                    'Choose sections, header and footer text, logo placement, colors and signature blocks for your reports.',
+                })}
+              </Typography>
+              <Button
+                component={Link}
+                href={reportTemplatesHref}
+                variant="contained"
+                startIcon={<Iconify icon="solar:document-text-bold" />}
+              >
+                {t('settings.reportTemplates.manage', { defaultValue: 'Manage Templates' })}
+              </Button>
+            </CardContent>
+          </Card>
+        </Grid>
+      )}
+
       {supportHref && (
         <Grid size={{ xs: 12, md: 6 }}>
           <Card>
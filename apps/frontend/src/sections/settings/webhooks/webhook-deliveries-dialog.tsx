@@ -0,0 +1,458 @@
+'use client';
+
+import type {
+  Webhook,
+  WebhookLog,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from 'src/services/webhooks';
+
+import dayjs from 'dayjs';
+import { useState, useEffect, useCallback } from 'react';
+
+import Tab from '@mui/material/Tab';
+import Box from '@mui/material/Box';
+import Tabs from '@mui/material/Tabs';
+import Chip from '@mui/material/Chip';
+import Card from '@mui/material/Card';
+import Stack from '@mui/material/Stack';
+import Table from '@mui/material/Table';
+import Button from '@mui/material/Button';
+import Dialog from '@mui/material/Dialog';
+import Switch from '@mui/material/Switch';
+import Tooltip from '@mui/material/Tooltip';
+import MenuItem from '@mui/material/MenuItem';
+import TableRow from '@mui/material/TableRow';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TextField from '@mui/material/TextField';
+import IconButton from '@mui/material/IconButton';
+import Typography from '@mui/material/Typography';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import TableContainer from '@mui/material/TableContainer';
+import LinearProgress from '@mui/material/LinearProgress';
+import TablePagination from '@mui/material/TablePagination';
+import FormControlLabel from '@mui/material/FormControlLabel';
+
+import { fDateTime } from 'src/utils/format-time';
+
+import { webhooksApi } from 'src/services/webhooks';
+
+import { toast } from 'src/components/snackbar';
+import { Iconify } from 'src/components/iconify';
+
+// ----------------------------------------------------------------------
+
+type Props = {
+  open: boolean;
+  webhook: Webhook | null;
+  onCloseAction: () => void;
+};
+
+type View = 'attempts' | 'queue';
+
+const STATUS_OPTIONS: { value: WebhookDeliveryStatus; label: string }[] = [
+  { value: 'pending', label: 'Retrying' },
+  { value: 'delivering', label: 'Delivering' },
+  { value: 'delivered', label: 'Delivered' },
+  { value: 'dead', label: 'Dead letter' },
+];
+
+const STATUS_COLORS: Record<WebhookDeliveryStatus, 'warning' | 'info' | 'success' | 'error'> = {
+  pending: 'warning',
+  delivering: 'info',
+  delivered: 'success',
+  dead: 'error',
+};
+
+const PAGE_SIZE = 20;
+
+export function WebhookDeliveriesDialog({ open, webhook, onCloseAction }: Props) {
+  const [view, setView] = useState<View>('attempts');
+  const [status, setStatus] = useState<WebhookDeliveryStatus | ''>('dead');
+  const [page, setPage] = useState(0);
+  const [total, setTotal] = useState(0);
+  const [logs, setLogs] = useState<WebhookLog[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [replaying, setReplaying] = useState<string | null>(null);
+
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [topics, setTopics] = useState<string[]>([]);
+  const [undeliveredOnly, setUndeliveredOnly] = useState(true);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setView('attempts');
+    setStatus('dead');
+    setPage(0);
+    setFrom(dayjs().subtract(1, 'day').format('YYYY-MM-DDTHH:mm'));
+    setTo(dayjs().format('YYYY-MM-DDTHH:mm'));
+    setTopics([]);
+    setUndeliveredOnly(true);
+  }, [open]);
+
+  const load = useCallback(async () => {
+    if (!webhook) return;
+
+    try {
+      setLoading(true);
+      if (view === 'attempts') {
+        const response = await webhooksApi.getWebhookLogs(webhook._id, page + 1, PAGE_SIZE);
+        if (response.success) {
+          setLogs(response.data.logs);
+          setTotal(response.data.pagination.total);
+        }
+      } else {
+        const response = await webhooksApi.getWebhookDeliveries(webhook._id, {
+          page: page + 1,
+          limit: PAGE_SIZE,
+          status: status || undefined,
+        });
+        if (response.success) {
+          setDeliveries(response.data.deliveries);
+          setTotal(response.data.pagination.total);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load webhook deliveries:', error);
+      toast.error('Failed to load webhook deliveries');
+    } finally {
+      setLoading(false);
+    }
+  }, [webhook, view, status, page]);
+
+  useEffect(() => {
+    if (open) load();
+  }, [open, load]);
+
+  const reportReplay = (delivery: WebhookDelivery) => {
+    if (delivery.status === 'delivered') {
+      toast.success('Event redelivered');
+    } else {
+      toast.warning(`Redelivery failed: ${delivery.lastError || 'Unknown error'}`);
+    }
+  };
+
+  const handleReplayLog = async (log: WebhookLog) => {
+    if (!webhook) return;
+
+    try {
+      setReplaying(log._id);
+      const response = await webhooksApi.replayLog(webhook._id, log._id);
+      if (response.success) {
+        reportReplay(response.data);
+        load();
+      }
+    } catch (error: any) {
+      console.error('Failed to replay webhook event:', error);
+      toast.error(error?.message || 'Failed to replay event');
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  const handleReplayDelivery = async (delivery: WebhookDelivery) => {
+    if (!webhook) return;
+
+    try {
+      setReplaying(delivery._id);
+      const response = await webhooksApi.replayDelivery(webhook._id, delivery._id);
+      if (response.success) {
+        reportReplay(response.data);
+        load();
+      }
+    } catch (error: any) {
+      console.error('Failed to replay webhook event:', error);
+      toast.error(error?.message || 'Failed to replay event');
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  const handleReplayRange = async () => {
+    if (!webhook) return;
+
+    if (!from || !to || dayjs(from).isAfter(dayjs(to))) {
+      toast.error('Choose a valid time range');
+      return;
+    }
+
+    try {
+      setReplaying('range');
+      const response = await webhooksApi.replayRange(webhook._id, {
+        from: dayjs(from).toISOString(),
+        to: dayjs(to).toISOString(),
+        topics: topics.length ? topics : undefined,
+        undeliveredOnly,
+      });
+      if (response.success) {
+        const { queued, skipped } = response.data;
+        toast.success(
+          queued
+            ? `${queued} events queued for redelivery${skipped ? `, ${skipped} skipped` : ''}`
+            : 'No events to replay in this range'
+        );
+        setView('queue');
+        setStatus('pending');
+        setPage(0);
+      }
+    } catch (error: any) {
+      console.error('Failed to replay webhook events:', error);
+      toast.error(error?.message || 'Failed to replay events');
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  const replayButton = (onClick: () => void) => (
+    <Tooltip title={webhook?.status ? 'Replay' : 'Enable the webhook to replay'}>
+      <span>
+        <IconButton
+          size="small"
+          onClick={onClick}
+          disabled={!webhook?.status || replaying !== null}
+        >
+          <Iconify icon="solar:restart-bold" />
+        </IconButton>
+      </span>
+    </Tooltip>
+  );
+
+  const emptyRow = (colSpan: number) => (
+    <TableRow>
+      <TableCell colSpan={colSpan} align="center" sx={{ py: 6 }}>
+        <Typography variant="body2" color="text.secondary">
+          Nothing here yet
+        </Typography>
+      </TableCell>
+    </TableRow>
+  );
+
+  return (
+    <Dialog open={open} onClose={onCloseAction} maxWidth="lg" fullWidth>
+      <DialogTitle>Deliveries · {webhook?.name}</DialogTitle>
+
+      <DialogContent>
+        <Stack spacing={3}>
+          <Typography variant="body2" color="text.secondary">
+            Failed deliveries are retried with exponential backoff up to {webhook?.maxRetries ?? 0}{' '}
+            times, then kept in the dead letter list. Replays reuse the original event id.
+          </Typography>
+
+          <Card variant="outlined" sx={{ p: 2 }}>
+            <Typography variant="subtitle2" sx={{ mb: 2 }}>
+              Replay a time range
+            </Typography>
+            <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems="center">
+              <TextField
+                type="datetime-local"
+                label="From"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                slotProps={{ inputLabel: { shrink: true } }}
+              />
+              <TextField
+                type="datetime-local"
+                label="To"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                slotProps={{ inputLabel: { shrink: true } }}
+              />
+              <TextField
+                select
+                label="Topics"
+                value={topics}
+                onChange={(e) => setTopics(e.target.value as unknown as string[])}
+                slotProps={{ select: { multiple: true } }}
+                helperText="Leave empty for all"
+                sx={{ minWidth: 220 }}
+              >
+                {(webhook?.topics || []).map((topic) => (
+                  <MenuItem key={topic} value={topic}>
+                    {topic}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={undeliveredOnly}
+                    onChange={(e) => setUndeliveredOnly(e.target.checked)}
+                  />
+                }
+                label="Only undelivered"
+                sx={{ flexShrink: 0 }}
+              />
+              <Button
+                variant="contained"
+                onClick={handleReplayRange}
+                disabled={!webhook?.status || replaying !== null}
+                startIcon={<Iconify icon="solar:restart-bold" />}
+                sx={{ flexShrink: 0 }}
+              >
+                Replay
+              </Button>
+            </Stack>
+          </Card>
+
+          <Stack direction="row" alignItems="center" justifyContent="space-between">
+            <Tabs
+              value={view}
+              onChange={(_, value: View) => {
+                setView(value);
+                setPage(0);
+              }}
+            >
+              <Tab value="attempts" label="Attempts" />
+              <Tab value="queue" label="Events" />
+            </Tabs>
+
+            {view === 'queue' && (
+              <TextField
+                select
+                size="small"
+                label="Status"
+                value={status}
+                onChange={(e) => {
+                  setStatus(e.target.value as WebhookDeliveryStatus | '');
+                  setPage(0);
+                }}
+                sx={{ minWidth: 180 }}
+              >
+                <MenuItem value="">All</MenuItem>
+                {STATUS_OPTIONS.map((option) => (
+                  <MenuItem key={option.value} value={option.value}>
+                    {option.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+            )}
+          </Stack>
+
+          <Box>
+            {loading && <LinearProgress />}
+            <TableContainer>
+              {view === 'attempts' ? (
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Time</TableCell>
+                      <TableCell>Topic</TableCell>
+                      <TableCell>Attempt</TableCell>
+                      <TableCell>Result</TableCell>
+                      <TableCell align="right">Duration</TableCell>
+                      <TableCell />
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {!loading && logs.length === 0 && emptyRow(6)}
+                    {logs.map((log) => (
+                      <TableRow key={log._id} hover>
+                        <TableCell>{fDateTime(log.createdAt)}</TableCell>
+                        <TableCell>{log.topic}</TableCell>
+                        <TableCell>{log.attempt}</TableCell>
+                        <TableCell>
+                          <Chip
+                            size="small"
+                            variant="soft"
+                            color={log.success ? 'success' : 'error'}
+                            label={log.httpStatus ?? 'No response'}
+                          />
+                          {log.errorMessage && (
+                            <Typography variant="caption" color="text.secondary" display="block">
+                              {log.errorMessage}
+                            </Typography>
+                          )}
+                        </TableCell>
+                        <TableCell align="right">{log.processingTimeMs} ms</TableCell>
+                        <TableCell align="right">
+                          {replayButton(() => handleReplayLog(log))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Created</TableCell>
+                      <TableCell>Topic</TableCell>
+                      <TableCell>Status</TableCell>
+                      <TableCell>Attempts</TableCell>
+                      <TableCell>Next attempt</TableCell>
+                      <TableCell />
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {!loading && deliveries.length === 0 && emptyRow(6)}
+                    {deliveries.map((delivery) => (
+                      <TableRow key={delivery._id} hover>
+                        <TableCell>
+                          {fDateTime(delivery.createdAt)}
+                          {delivery.replayOf && (
+                            <Typography variant="caption" color="text.secondary" display="block">
+                              Replay
+                            </Typography>
+                          )}
+                        </TableCell>
+                        <TableCell>{delivery.topic}</TableCell>
+                        <TableCell>
+                          <Chip
+                            size="small"
+                            variant="soft"
+                            color={STATUS_COLORS[delivery.status]}
+                            label={
+                              STATUS_OPTIONS.find((option) => option.value === delivery.status)
+                                ?.label
+                            }
+                          />
+                          {delivery.status !== 'delivered' && delivery.lastError && (
+                            <Typography variant="caption" color="text.secondary" display="block">
+                              {delivery.lastError}
+                            </Typography>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {delivery.attempts} / {delivery.maxAttempts}
+                        </TableCell>
+                        <TableCell>
+                          {delivery.status === 'pending' ? fDateTime(delivery.nextAttemptAt) : '-'}
+                        </TableCell>
+                        <TableCell align="right">
+                          {delivery.status !== 'pending' &&
+                            delivery.status !== 'delivering' &&
+                            replayButton(() => handleReplayDelivery(delivery))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </TableContainer>
+            <TablePagination
+              component="div"
+              count={total}
+              page={page}
+              rowsPerPage={PAGE_SIZE}
+              rowsPerPageOptions={[PAGE_SIZE]}
+              onPageChange={(_, value) => setPage(value)}
+            />
+          </Box>
+        </Stack>
+      </DialogContent>
+
+      <DialogActions>
+        <Button variant="outlined" onClick={onCloseAction}>
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,141 @@
+'use client';
+
+import type { WebhookFilterOperator } from 'src/services/webhooks';
+
+import Stack from '@mui/material/Stack';
+import Button from '@mui/material/Button';
+import MenuItem from '@mui/material/MenuItem';
+import TextField from '@mui/material/TextField';
+import IconButton from '@mui/material/IconButton';
+import Typography from '@mui/material/Typography';
+import Autocomplete from '@mui/material/Autocomplete';
+
+import { Iconify } from 'src/components/iconify';
+
+// ----------------------------------------------------------------------
+
+// Values are edited as text; lists are comma-separated and `exists` takes
+// "true" or "false"
+export type WebhookFilterRow = {
+  field: string;
+  operator: WebhookFilterOperator;
+  value: string;
+};
+
+export const OPERATOR_LABELS: Record<WebhookFilterOperator, string> = {
+  eq: 'equals',
+  ne: 'does not equal',
+  in: 'is one of',
+  nin: 'is not one of',
+  exists: 'is set',
+};
+
+type Props = {
+  value: WebhookFilterRow[];
+  fields: string[];
+  errors?: ({ field?: { message?: string }; value?: { message?: string } } | undefined)[];
+  onChange: (value: WebhookFilterRow[]) => void;
+};
+
+export function WebhookFilterBuilder({ value, fields, errors, onChange }: Props) {
+  const updateRow = (index: number, changes: Partial<WebhookFilterRow>) =>
+    onChange(value.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  const removeRow = (index: number) => onChange(value.filter((_, i) => i !== index));
+
+  const addRow = () => onChange([...value, { field: '', operator: 'eq', value: '' }]);
+
+  return (
+    <Stack spacing={2}>
+      {value.length === 0 && (
+        <Typography variant="body2" color="text.secondary">
+          No filters: every event on the selected topics is sent.
+        </Typography>
+      )}
+
+      {value.map((row, index) => (
+        <Stack key={index} direction={{ xs: 'column', md: 'row' }} spacing={1.5}>
+          <Autocomplete
+            freeSolo
+            options={fields}
+            value={row.field}
+            inputValue={row.field}
+            onInputChange={(_, field) => updateRow(index, { field })}
+            sx={{ flex: 1 }}
+            renderInput={(params) => (
+              <TextField
+                {...params}
+                size="small"
+                label="Field"
+                placeholder="workOrder.status"
+                error={!!errors?.[index]?.field}
+                helperText={errors?.[index]?.field?.message}
+              />
+            )}
+          />
+
+          <TextField
+            select
+            size="small"
+            label="Operator"
+            value={row.operator}
+            onChange={(e) =>
+              updateRow(index, {
+                operator: e.target.value as WebhookFilterOperator,
+                value: e.target.value === 'exists' ? 'true' : row.value,
+              })
+            }
+            sx={{ minWidth: 160 }}
+          >
+            {(Object.keys(OPERATOR_LABELS) as WebhookFilterOperator[]).map((operator) => (
+              <MenuItem key={operator} value={operator}>
+                {OPERATOR_LABELS[operator]}
+              </MenuItem>
+            ))}
+          </TextField>
+
+          {row.operator === 'exists' ? (
+            <TextField
+              select
+              size="small"
+              label="Value"
+              value={row.value === 'false' ? 'false' : 'true'}
+              onChange={(e) => updateRow(index, { value: e.target.value })}
+              sx={{ flex: 1 }}
+            >
+              <MenuItem value="true">Yes</MenuItem>
+              <MenuItem value="false">No</MenuItem>
+            </TextField>
+          ) : (
+            <TextField
+              size="small"
+              label="Value"
+              placeholder={row.operator === 'in' || row.operator === 'nin' ? 'high, urgent' : ''}
+              value={row.value}
+              onChange={(e) => updateRow(index, { value: e.target.value })}
+              error={!!errors?.[index]?.value}
+              helperText={
+                errors?.[index]?.value?.message ||
+                (row.operator === 'in' || row.operator === 'nin' ? 'Comma-separated' : undefined)
+              }
+              sx={{ flex: 1 }}
+            />
+          )}
+
+          <IconButton color="error" onClick={() => removeRow(index)} sx={{ alignSelf: 'center' }}>
+            <Iconify icon="solar:trash-bin-trash-bold" />
+          </IconButton>
+        </Stack>
+      ))}
+
+      <Button
+        size="small"
+        onClick={addRow}
+        startIcon={<Iconify icon="mingcute:add-line" />}
+        sx={{ alignSelf: 'flex-start' }}
+      >
+        Add filter
+      </Button>
+    </Stack>
+  );
+}
@@ -1,15 +1,25 @@
 'use client';
 
+import type {
+  WebhookFilter,
+  WebhookFilterOptions,
+  WebhookPayloadOptions,
+} from 'src/services/webhooks';
+
 import { z as zod } from 'zod';
-import { useState, useEffect } from 'react';
+import { useMemo, useState, useEffect } from 'react';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 
+import Box from '@mui/material/Box';
 import Chip from '@mui/material/Chip';
 import Dialog from '@mui/material/Dialog';
 import Button from '@mui/material/Button';
 import Switch from '@mui/material/Switch';
+import Divider from '@mui/material/Divider';
+import MenuItem from '@mui/material/MenuItem';
 import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
 import DialogTitle from '@mui/material/DialogTitle';
 import Autocomplete from '@mui/material/Autocomplete';
 import DialogContent from '@mui/material/DialogContent';
@@ -18,8 +28,27 @@ import FormControlLabel from '@mui/material/FormControlLabel';
 
 import { webhooksApi } from 'src/services/webhooks';
 
+import { WebhookFilterBuilder } from './webhook-filter-builder';
+
 // ----------------------------------------------------------------------
 
+const EXPANSION_LABELS: Record<string, string> = {
+  workOrder: 'Work order',
+  client: 'Client',
+  tasks: 'Tasks',
+};
+
+const filterRowSchema = zod
+  .object({
+    field: zod.string().trim().min(1, 'Field is required'),
+    operator: zod.enum(['eq', 'ne', 'in', 'nin', 'exists']),
+    value: zod.string(),
+  })
+  .refine((row) => row.operator === 'exists' || row.value.trim() !== '', {
+    message: 'Value is required',
+    path: ['value'],
+  });
+
 const schema = zod.object({
   name: zod.string().min(1, 'Name is required'),
   status: zod.boolean(),
@@ -27,12 +56,55 @@ const schema = zod.object({
   deliveryUrl: zod.string().url('Valid HTTPS URL is required'),
   maxRetries: zod.number().min(0).max(10).optional(),
   timeoutMs: zod.number().min(1000).max(30000).optional(),
+  filters: zod.array(filterRowSchema),
+  payloadFields: zod.array(zod.string()),
+  expand: zod.array(zod.string()),
 });
 
-export type WebhookFormData = zod.infer<typeof schema>;
+type FormValues = zod.infer<typeof schema>;
+
+export type WebhookFormData = Omit<FormValues, 'filters' | 'payloadFields' | 'expand'> & {
+  filters: WebhookFilter[];
+  payloadOptions: WebhookPayloadOptions;
+};
 
 export type Webhook = Partial<WebhookFormData> & { _id: string };
 
+const DEFAULT_VALUES: FormValues = {
+  name: '',
+  status: true,
+  topics: [],
+  deliveryUrl: '',
+  maxRetries: 3,
+  timeoutMs: 10000,
+  filters: [],
+  payloadFields: [],
+  expand: [],
+};
+
+const toFilterRow = (filter: WebhookFilter): FormValues['filters'][number] => ({
+  field: filter.field,
+  operator: filter.operator,
+  value: Array.isArray(filter.value) ? filter.value.join(', ') : String(filter.value ?? ''),
+});
+
+const toFilter = (row: FormValues['filters'][number]): WebhookFilter => {
+  if (row.operator === 'exists') {
+    return { field: row.field, operator: row.operator, value: row.value !== 'false' };
+  }
+  if (row.operator === 'in' || row.operator === 'nin') {
+    return {
+      field: row.field,
+      operator: row.operator,
+      value: row.value
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean),
+    };
+  }
+  return { field: row.field, operator: row.operator, value: row.value.trim() };
+};
+
 type Props = {
   open: boolean;
   webhook: Webhook | null;
@@ -43,24 +115,43 @@ type Props = {
 export function WebhookFormDialog({ open, webhook, onCloseAction, onSubmitAction }: Props) {
   const [topics, setTopics] = useState<string[]>([]);
   const [loadingTopics, setLoadingTopics] = useState(false);
+  const [filterOptions, setFilterOptions] = useState<WebhookFilterOptions | null>(null);
 
   const {
     control,
     handleSubmit,
     reset,
+    watch,
     formState: { errors, isSubmitting },
-  } = useForm<WebhookFormData>({
+  } = useForm<FormValues>({
     resolver: zodResolver(schema),
-    defaultValues: {
-      name: '',
-      status: true,
-      topics: [],
-      deliveryUrl: '',
-      maxRetries: 3,
-      timeoutMs: 10000,
-    },
+    defaultValues: DEFAULT_VALUES,
   });
 
+  const selectedTopics = watch('topics');
+
+  // Fields worth filtering on for the selected topics
+  const filterFields = useMemo(
+    () =>
+      Array.from(
+        new Set(selectedTopics.flatMap((topic) => filterOptions?.fields[topic] || []))
+      ).sort(),
+    [selectedTopics, filterOptions]
+  );
+
+  useEffect(() => {
+    if (open && !filterOptions) {
+      webhooksApi
+        .getFilterOptions()
+        .then((response) => {
+          if (response.success) {
+            setFilterOptions(response.data);
+          }
+        })
+        .catch((error) => console.error('Failed to load webhook filter options:', error));
+    }
+  }, [open, filterOptions]);
+
   // Load available topics
   useEffect(() => {
     if (open) {
@@ -103,23 +194,26 @@ export function WebhookFormDialog({ open, webhook, onCloseAction, onSubmitAction
         deliveryUrl: webhook.deliveryUrl || '',
         maxRetries: webhook.maxRetries ?? 3,
         timeoutMs: webhook.timeoutMs ?? 10000,
+        filters: (webhook.filters || []).map(toFilterRow),
+        payloadFields: webhook.payloadOptions?.fields || [],
+        expand: webhook.payloadOptions?.expand || [],
       });
     } else {
-      reset({
-        name: '',
-        status: true,
-        topics: [],
-        deliveryUrl: '',
-        maxRetries: 3,
-        timeoutMs: 10000,
-      });
+      reset(DEFAULT_VALUES);
     }
   }, [webhook, reset]);
 
+  const onSubmit = ({ filters, payloadFields, expand, ...values }: FormValues) =>
+    onSubmitAction({
+      ...values,
+      filters: filters.map(toFilter),
+      payloadOptions: { fields: payloadFields, expand },
+    });
+
   return (
     <Dialog open={open} onClose={onCloseAction} maxWidth="md" fullWidth>
       <DialogTitle>{webhook ? 'Edit Webhook' : 'Create Webhook'}</DialogTitle>
-      <form onSubmit={handleSubmit(onSubmitAction)}>
+      <form onSubmit={handleSubmit(onSubmit)}>
         <DialogContent>
           <Controller
             name="name"
@@ -230,6 +324,90 @@ export function WebhookFormDialog({ open, webhook, onCloseAction, onSubmitAction
               />
             )}
           />
+
+          <Divider sx={{ my: 3 }} />
+
+          <Box sx={{ mb: 2 }}>
+            <Typography variant="subtitle1">Filters</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Only send events whose data matches every filter. A list field matches when any of its
+              items does.
+            </Typography>
+          </Box>
+          <Controller
+            name="filters"
+            control={control}
+            render={({ field }) => (
+              <WebhookFilterBuilder
+                value={field.value}
+                fields={filterFields}
+                errors={errors.filters as any}
+                onChange={field.onChange}
+              />
+            )}
+          />
+
+          <Divider sx={{ my: 3 }} />
+
+          <Box sx={{ mb: 2 }}>
+            <Typography variant="subtitle1">Payload</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Trim the event data to the fields you need, or embed related records under{' '}
+              <code>data.expanded</code>.
+            </Typography>
+          </Box>
+          <Controller
+            name="payloadFields"
+            control={control}
+            render={({ field }) => (
+              <Autocomplete
+                multiple
+                freeSolo
+                options={filterFields}
+                value={field.value}
+                onChange={(_, v) => field.onChange(v)}
+                renderInput={(params) => (
+                  <TextField
+                    {...params}
+                    label="Fields"
+                    placeholder="workOrder.status"
+                    helperText="Leave empty to send the full event data"
+                  />
+                )}
+                renderTags={(value, getTagProps) =>
+                  value.map((option, index) => (
+                    <Chip
+                      {...getTagProps({ index })}
+                      key={option}
+                      label={option}
+                      variant="outlined"
+                    />
+                  ))
+                }
+              />
+            )}
+          />
+          <Controller
+            name="expand"
+            control={control}
+            render={({ field }) => (
+              <TextField
+                select
+                fullWidth
+                label="Embed"
+                value={field.value}
+                onChange={(e) => field.onChange(e.target.value as unknown as string[])}
+                slotProps={{ select: { multiple: true } }}
+                sx={{ mt: 2 }}
+              >
+                {(filterOptions?.expansions || Object.keys(EXPANSION_LABELS)).map((expansion) => (
+                  <MenuItem key={expansion} value={expansion}>
+                    {EXPANSION_LABELS[expansion] || expansion}
+                  </MenuItem>
+                ))}
+              </TextField>
+            )}
+          />
         </DialogContent>
         <DialogActions>
           <Button onClick={onCloseAction}>Cancel</Button>
@@ -30,6 +30,7 @@ import { ConfirmDialog } from 'src/components/custom-dialog';
 import { truncateText } from 'src/utils/text-truncate';
 
 import { WebhookFormDialog, type Webhook as WebhookFormModel } from './webhook-form-dialog';
+import { WebhookDeliveriesDialog } from './webhook-deliveries-dialog';
 import { webhooksApi, type Webhook } from 'src/services/webhooks';
 import { Container } from '@mui/material';
 
@@ -43,6 +44,7 @@ export function WebhooksView() {
     open: false,
     webhook: null,
   });
+  const [deliveriesWebhook, setDeliveriesWebhook] = useState<Webhook | null>(null);
   const [loading, setLoading] = useState(true);
   const [secretDialog, setSecretDialog] = useState<{ open: boolean; secret: string }>({
     open: false,
@@ -217,6 +219,13 @@ export function WebhooksView() {
                           <IconButton size="small" onClick={() => handleTest(w)} title="Test">
                             <Iconify icon="solar:play-bold" />
                           </IconButton>
+                          <IconButton
+                            size="small"
+                            onClick={() => setDeliveriesWebhook(w)}
+                            title="Deliveries"
+                          >
+                            <Iconify icon="solar:list-bold" />
+                          </IconButton>
                           <IconButton size="small" onClick={() => handleEdit(w)} title="Edit">
                             <Iconify icon="solar:pen-bold" />
                           </IconButton>
@@ -249,6 +258,15 @@ export function WebhooksView() {
         onSubmitAction={handleSubmit}
       />
 
+      <WebhookDeliveriesDialog
+        open={!!deliveriesWebhook}
+        webhook={deliveriesWebhook}
+        onCloseAction={() => {
+          setDeliveriesWebhook(null);
+          loadWebhooks();
+        }}
+      />
+
       <ConfirmDialog
         open={deleteDialog.open}
         onClose={() => setDeleteDialog({ open: false, webhook: null })}
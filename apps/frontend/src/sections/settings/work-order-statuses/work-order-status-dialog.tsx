@@ -0,0 +1,347 @@
+'use client';
+
+import type {
+  IWorkOrderStatus,
+  WorkOrderStatusInput,
+  IWorkOrderTransition,
+  WorkOrderStatusCategory,
+  WorkOrderTransitionRequirement,
+} from 'src/lib/models/WorkOrderStatus';
+
+import useSWR from 'swr';
+import { useState, useEffect } from 'react';
+
+import Box from '@mui/material/Box';
+import Card from '@mui/material/Card';
+import Stack from '@mui/material/Stack';
+import Dialog from '@mui/material/Dialog';
+import Button from '@mui/material/Button';
+import Switch from '@mui/material/Switch';
+import Divider from '@mui/material/Divider';
+import Checkbox from '@mui/material/Checkbox';
+import MenuItem from '@mui/material/MenuItem';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import FormControlLabel from '@mui/material/FormControlLabel';
+
+import { fetcher, endpoints } from 'src/lib/axios';
+import { WorkOrderStatusService } from 'src/lib/services/work-order-status-service';
+import {
+  WORK_ORDER_STATUS_CATEGORIES,
+  WORK_ORDER_TRANSITION_REQUIREMENTS,
+} from 'src/lib/models/WorkOrderStatus';
+
+import { toast } from 'src/components/snackbar';
+
+// ----------------------------------------------------------------------
+
+export const CATEGORY_LABELS: Record<WorkOrderStatusCategory, string> = {
+  created: 'Created',
+  assigned: 'Assigned',
+  'in-progress': 'In progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  'on-hold': 'On hold',
+};
+
+export const REQUIREMENT_LABELS: Record<WorkOrderTransitionRequirement, string> = {
+  completionReport: 'Completion report submitted',
+  report: 'Any report submitted',
+  personnel: 'Personnel assigned',
+  scheduledDate: 'Scheduled date set',
+  tasksCompleted: 'All tasks completed',
+  notes: 'Notes entered',
+};
+
+type Props = {
+  open: boolean;
+  status: IWorkOrderStatus | null;
+  statuses: IWorkOrderStatus[];
+  onCloseAction: () => void;
+  onSavedAction: () => void;
+};
+
+const toKey = (value: string) =>
+  value
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+
+export function WorkOrderStatusDialog({
+  open,
+  status,
+  statuses,
+  onCloseAction,
+  onSavedAction,
+}: Props) {
+  const [name, setName] = useState('');
+  const [key, setKey] = useState('');
+  const [keyEdited, setKeyEdited] = useState(false);
+  const [description, setDescription] = useState('');
+  const [color, setColor] = useState('#637381');
+  const [category, setCategory] = useState<WorkOrderStatusCategory>('created');
+  const [isInitial, setIsInitial] = useState(false);
+  const [isActive, setIsActive] = useState(true);
+  const [transitions, setTransitions] = useState<IWorkOrderTransition[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  const { data: rolesData } = useSWR(open ? endpoints.fsa.roles.list : null, fetcher<any>);
+  const roles: { slug: string; name: string }[] = rolesData?.data || [];
+
+  const targets = statuses.filter((item) => item._id !== status?._id);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setName(status?.name || '');
+    setKey(status?.key || '');
+    setKeyEdited(!!status);
+    setDescription(status?.description || '');
+    setColor(status?.color || '#637381');
+    setCategory(status?.category || 'created');
+    setIsInitial(status?.isInitial ?? false);
+    setIsActive(status?.isActive ?? true);
+    setTransitions(status?.transitions || []);
+  }, [open, status]);
+
+  const handleNameChange = (value: string) => {
+    setName(value);
+    if (!keyEdited) setKey(toKey(value));
+  };
+
+  const transitionTo = (to: string) => transitions.find((transition) => transition.to === to);
+
+  const toggleTransition = (to: string, allowed: boolean) =>
+    setTransitions((prev) =>
+      allowed
+        ? [...prev, { to, roles: [], requirements: [] }]
+        : prev.filter((transition) => transition.to !== to)
+    );
+
+  const updateTransition = (to: string, changes: Partial<IWorkOrderTransition>) =>
+    setTransitions((prev) =>
+      prev.map((transition) => (transition.to === to ? { ...transition, ...changes } : transition))
+    );
+
+  const handleSubmit = async () => {
+    if (!name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+    if (!status && !key) {
+      toast.error('Key is required');
+      return;
+    }
+
+    const payload: WorkOrderStatusInput = {
+      name: name.trim(),
+      description: description || undefined,
+      color,
+      category,
+      isInitial,
+      isActive,
+      transitions,
+      ...(status ? {} : { key }),
+    };
+
+    try {
+      setSubmitting(true);
+      const response = status
+        ? await WorkOrderStatusService.updateStatus(status._id, payload)
+        : await WorkOrderStatusService.createStatus(payload);
+      if (response.success) {
+        toast.success(status ? 'Status updated' : 'Status created');
+        onSavedAction();
+        onCloseAction();
+      }
+    } catch (error: any) {
+      console.error('Failed to save work order status:', error);
+      toast.error(error?.message || 'Failed to save work order status');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onCloseAction} maxWidth="md" fullWidth>
+      <DialogTitle>{status ? 'Edit Status' : 'New Status'}</DialogTitle>
+
+      <DialogContent>
+        <Stack spacing={3} sx={{ pt: 1 }}>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <TextField
+              fullWidth
+              label="Name"
+              placeholder="e.g. Awaiting parts"
+              value={name}
+              onChange={(e) => handleNameChange(e.target.value)}
+            />
+            <TextField
+              fullWidth
+              label="Key"
+              value={key}
+              disabled={!!status}
+              helperText={
+                status ? 'Keys cannot change once created' : 'Used by the API and webhooks'
+              }
+              onChange={(e) => {
+                setKeyEdited(true);
+                setKey(toKey(e.target.value));
+              }}
+            />
+          </Stack>
+
+          <TextField
+            fullWidth
+            label="Description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems="center">
+            <TextField
+              select
+              fullWidth
+              label="Category"
+              value={category}
+              helperText="Reports, dispatch and analytics treat the status as this built-in state"
+              onChange={(e) => setCategory(e.target.value as WorkOrderStatusCategory)}
+            >
+              {WORK_ORDER_STATUS_CATEGORIES.map((item) => (
+                <MenuItem key={item} value={item}>
+                  {CATEGORY_LABELS[item]}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              type="color"
+              label="Color"
+              value={color}
+              onChange={(e) => setColor(e.target.value)}
+              sx={{ width: 120, flexShrink: 0 }}
+            />
+            <FormControlLabel
+              control={
+                <Switch checked={isInitial} onChange={(e) => setIsInitial(e.target.checked)} />
+              }
+              label="Initial"
+              sx={{ flexShrink: 0 }}
+            />
+            <FormControlLabel
+              control={
+                <Switch checked={isActive} onChange={(e) => setIsActive(e.target.checked)} />
+              }
+              label="Active"
+              sx={{ flexShrink: 0 }}
+            />
+          </Stack>
+
+          <Divider />
+
+          <Box>
+            <Typography variant="subtitle1">Allowed transitions</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Statuses a work order can move to from this one. Leave roles empty to let anyone with
+              edit access make the change.
+            </Typography>
+          </Box>
+
+          {targets.length === 0 && (
+            <Typography variant="body2" color="text.secondary">
+              Create more statuses to define transitions.
+            </Typography>
+          )}
+
+          <Stack spacing={1.5}>
+            {targets.map((target) => {
+              const transition = transitionTo(target.key);
+
+              return (
+                <Card key={target._id} variant="outlined" sx={{ p: 2 }}>
+                  <Stack direction={{ xs: 'column', md: 'row' }} spacing={1.5} alignItems="center">
+                    <FormControlLabel
+                      control={
+                        <Checkbox
+                          checked={!!transition}
+                          onChange={(e) => toggleTransition(target.key, e.target.checked)}
+                        />
+                      }
+                      label={
+                        <Stack direction="row" spacing={1} alignItems="center">
+                          <Box
+                            sx={{
+                              width: 10,
+                              height: 10,
+                              borderRadius: '50%',
+                              bgcolor: target.color,
+                            }}
+                          />
+                          <Typography variant="subtitle2">{target.name}</Typography>
+                        </Stack>
+                      }
+                      sx={{ minWidth: 200 }}
+                    />
+                    <TextField
+                      select
+                      fullWidth
+                      size="small"
+                      label="Roles"
+                      disabled={!transition}
+                      value={transition?.roles || []}
+                      onChange={(e) =>
+                        updateTransition(target.key, {
+                          roles: e.target.value as unknown as string[],
+                        })
+                      }
+                      slotProps={{ select: { multiple: true } }}
+                    >
+                      {roles.map((role) => (
+                        <MenuItem key={role.slug} value={role.slug}>
+                          {role.name}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                    <TextField
+                      select
+                      fullWidth
+                      size="small"
+                      label="Requires"
+                      disabled={!transition}
+                      value={transition?.requirements || []}
+                      onChange={(e) =>
+                        updateTransition(target.key, {
+                          requirements: e.target
+                            .value as unknown as WorkOrderTransitionRequirement[],
+                        })
+                      }
+                      slotProps={{ select: { multiple: true } }}
+                    >
+                      {WORK_ORDER_TRANSITION_REQUIREMENTS.map((requirement) => (
+                        <MenuItem key={requirement} value={requirement}>
+                          {REQUIREMENT_LABELS[requirement]}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                  </Stack>
+                </Card>
+              );
+            })}
+          </Stack>
+        </Stack>
+      </DialogContent>
+
+      <DialogActions>
+        <Button variant="outlined" onClick={onCloseAction}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleSubmit} disabled={submitting}>
+          {status ? 'Save' : 'Create'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,203 @@
+'use client';
+
+import type { IWorkOrderStatus } from 'src/lib/models/WorkOrderStatus';
+
+import useSWR from 'swr';
+import { useState } from 'react';
+
+import Box from '@mui/material/Box';
+import Card from '@mui/material/Card';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import Table from '@mui/material/Table';
+import Alert from '@mui/material/Alert';
+import Button from '@mui/material/Button';
+import TableRow from '@mui/material/TableRow';
+import Container from '@mui/material/Container';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import IconButton from '@mui/material/IconButton';
+import Typography from '@mui/material/Typography';
+import TableContainer from '@mui/material/TableContainer';
+
+import { fetcher, endpoints } from 'src/lib/axios';
+import { WorkOrderStatusService } from 'src/lib/services/work-order-status-service';
+
+import { toast } from 'src/components/snackbar';
+import { Iconify } from 'src/components/iconify';
+import { ConfirmDialog } from 'src/components/custom-dialog';
+
+import { CATEGORY_LABELS, WorkOrderStatusDialog } from './work-order-status-dialog';
+
+// ----------------------------------------------------------------------
+
+export function WorkOrderStatusesView() {
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<IWorkOrderStatus | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<IWorkOrderStatus | null>(null);
+
+  const { data, isLoading, mutate } = useSWR(
+    [endpoints.fsa.workOrderStatuses.list, { params: { includeInactive: true } }],
+    fetcher<any>
+  );
+
+  const statuses: IWorkOrderStatus[] = data?.data || [];
+
+  const openForm = (status: IWorkOrderStatus | null) => {
+    setEditing(status);
+    setFormOpen(true);
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    try {
+      await WorkOrderStatusService.deleteStatus(deleteTarget._id);
+      toast.success('Status deleted');
+      mutate();
+    } catch (error: any) {
+      console.error('Failed to delete status:', error);
+      toast.error(error?.message || 'Failed to delete status');
+    } finally {
+      setDeleteTarget(null);
+    }
+  };
+
+  const statusName = (key: string) => statuses.find((status) => status.key === key)?.name || key;
+
+  return (
+    <Container maxWidth={false}>
+      <Stack spacing={3} sx={{ p: 3 }}>
+        <Stack direction="row" alignItems="center" justifyContent="space-between">
+          <Stack spacing={1}>
+            <Typography variant="h4">Work Order Statuses</Typography>
+            <Typography variant="body2" color="text.secondary">
+              The states a work order moves through, who may move it and what must be in place
+              first.
+            </Typography>
+          </Stack>
+          <Button
+            variant="contained"
+            startIcon={<Iconify icon="mingcute:add-line" />}
+            onClick={() => openForm(null)}
+          >
+            New Status
+          </Button>
+        </Stack>
+
+        {!isLoading && statuses.length === 0 && (
+          <Alert severity="info">No work order statuses yet.</Alert>
+        )}
+
+        {statuses.length > 0 && (
+          <Card>
+            <TableContainer>
+              <Table>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Name</TableCell>
+                    <TableCell>Key</TableCell>
+                    <TableCell>Category</TableCell>
+                    <TableCell>Can move to</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {statuses.map((status) => (
+                    <TableRow key={status._id} hover>
+                      <TableCell>
+                        <Stack direction="row" spacing={1} alignItems="center">
+                          <Box
+                            sx={{
+                              width: 12,
+                              height: 12,
+                              flexShrink: 0,
+                              borderRadius: '50%',
+                              bgcolor: status.color,
+                            }}
+                          />
+                          <Typography variant="subtitle2">{status.name}</Typography>
+                          {status.isInitial && <Chip size="small" color="info" label="Initial" />}
+                          {!status.isActive && <Chip size="small" label="Inactive" />}
+                        </Stack>
+                        {status.description && (
+                          <Typography variant="caption" color="text.secondary">
+                            {status.description}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
+                          {status.key}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>{CATEGORY_LABELS[status.category]}</TableCell>
+                      <TableCell>
+                        <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+                          {status.transitions.length === 0 && (
+                            <Typography variant="body2" color="text.secondary">
+                              -
+                            </Typography>
+                          )}
+                          {status.transitions.map((transition) => (
+                            <Chip
+                              key={transition.to}
+                              size="small"
+                              variant="outlined"
+                              label={statusName(transition.to)}
+                              icon={
+                                transition.roles.length > 0 ||
+                                transition.requirements.length > 0 ? (
+                                  <Iconify icon="solar:lock-password-outline" />
+                                ) : undefined
+                              }
+                            />
+                          ))}
+                        </Stack>
+                      </TableCell>
+                      <TableCell align="right">
+                        <Stack direction="row" spacing={0.5} justifyContent="flex-end">
+                          <IconButton size="small" title="Edit" onClick={() => openForm(status)}>
+                            <Iconify icon="solar:pen-bold" />
+                          </IconButton>
+                          <IconButton
+                            size="small"
+                            color="error"
+                            title="Delete"
+                            onClick={() => setDeleteTarget(status)}
+                          >
+                            <Iconify icon="solar:trash-bin-trash-bold" />
+                          </IconButton>
+                        </Stack>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Card>
+        )}
+      </Stack>
+
+      <WorkOrderStatusDialog
+        open={formOpen}
+        status={editing}
+        statuses={statuses}
+        onCloseAction={() => setFormOpen(false)}
+        onSavedAction={() => mutate()}
+      />
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        title="Delete Status"
+        content={`Delete "${deleteTarget?.name}"? Statuses in use by work orders can only be deactivated.`}
+        action={
+          <Button variant="contained" color="error" onClick={handleDelete}>
+            Delete
+          </Button>
+        }
+      />
+    </Container>
+  );
+}
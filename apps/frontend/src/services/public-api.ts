@@ -0,0 +1,73 @@
+import type { Method } from 'axios';
+
+import { endpoints } from 'src/lib/axios';
+
+// ----------------------------------------------------------------------
+
+// The parts of the OpenAPI document the explorer reads
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required: boolean;
+  description?: string;
+  schema: Record<string, any>;
+}
+
+export interface OpenApiOperation {
+  operationId: string;
+  summary: string;
+  description?: string;
+  tags: string[];
+  'x-permission'?: string;
+  parameters: OpenApiParameter[];
+  requestBody?: {
+    content: { 'application/json': { schema: Record<string, any> } };
+  };
+}
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  paths: Record<string, Record<string, OpenApiOperation>>;
+}
+
+export interface PublicApiResponse {
+  status: number;
+  headers: Record<string, string>;
+  data: any;
+}
+
+// ----------------------------------------------------------------------
+
+export const publicApi = {
+  // OpenAPI spec of the public API
+  getSpec: async (): Promise<OpenApiDocument> => {
+    const response = await endpoints.publicApi.spec();
+    return response.data;
+  },
+
+  // Call the public API as an integration would, with an API key
+  send: async (
+    apiKey: string,
+    request: {
+      method: Method;
+      path: string;
+      params?: Record<string, string>;
+      headers?: Record<string, string>;
+      body?: unknown;
+    }
+  ): Promise<PublicApiResponse> => {
+    const response = await endpoints.publicApi.request(apiKey, {
+      method: request.method,
+      url: request.path,
+      params: request.params,
+      headers: request.headers,
+      data: request.body,
+    });
+    return {
+      status: response.status,
+      headers: response.headers as Record<string, string>,
+      data: response.data,
+    };
+  },
+};
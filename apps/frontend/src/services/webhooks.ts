@@ -7,6 +7,25 @@ export interface WebhookTopic {
   label: string;
 }
 
+export type WebhookFilterOperator = 'eq' | 'ne' | 'in' | 'nin' | 'exists';
+
+export interface WebhookFilter {
+  field: string;
+  operator: WebhookFilterOperator;
+  value?: string | number | boolean | (string | number | boolean)[];
+}
+
+export interface WebhookPayloadOptions {
+  fields: string[];
+  expand: string[];
+}
+
+export interface WebhookFilterOptions {
+  operators: WebhookFilterOperator[];
+  expansions: string[];
+  fields: Record<string, string[]>;
+}
+
 export interface Webhook {
   _id: string;
   name: string;
@@ -18,6 +37,8 @@ export interface Webhook {
   maxRetries: number;
   timeoutMs: number;
   headers?: Record<string, string>;
+  filters?: WebhookFilter[];
+  payloadOptions?: WebhookPayloadOptions;
   createdAt: string;
   updatedAt: string;
 }
@@ -30,11 +51,14 @@ export interface WebhookFormData {
   maxRetries?: number;
   timeoutMs?: number;
   headers?: Record<string, string>;
+  filters?: WebhookFilter[];
+  payloadOptions?: WebhookPayloadOptions;
 }
 
 export interface WebhookLog {
   _id: string;
   webhookId: string;
+  deliveryId?: string;
   topic: string;
   payload: any;
   deliveryUrl: string;
@@ -47,6 +71,33 @@ export interface WebhookLog {
   createdAt: string;
 }
 
+export type WebhookDeliveryStatus = 'pending' | 'delivering' | 'delivered' | 'dead';
+
+export interface WebhookDelivery {
+  _id: string;
+  webhookId: string;
+  eventId: string;
+  topic: string;
+  payload: any;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  lastAttemptAt?: string;
+  lastHttpStatus?: number;
+  lastError?: string;
+  deliveredAt?: string;
+  replayOf?: string;
+  createdAt: string;
+}
+
+export interface WebhookReplayRange {
+  from: string;
+  to: string;
+  topics?: string[];
+  undeliveredOnly?: boolean;
+}
+
 export interface WebhookTestResult {
   success: boolean;
   httpStatus?: number;
@@ -128,12 +179,65 @@ export const webhooksApi = {
     return response.data;
   },
 
+  // Get queued, delivered and dead-lettered deliveries
+  getWebhookDeliveries: async (
+    id: string,
+    params: { page?: number; limit?: number; status?: WebhookDeliveryStatus } = {}
+  ): Promise<{
+    success: boolean;
+    data: {
+      deliveries: WebhookDelivery[];
+      pagination: {
+        page: number;
+        limit: number;
+        total: number;
+        pages: number;
+      };
+    };
+  }> => {
+    const response = await endpoints.webhook.deliveries(id, params);
+    return response.data;
+  },
+
+  // Replay a logged delivery attempt
+  replayLog: async (
+    id: string,
+    logId: string
+  ): Promise<{ success: boolean; data: WebhookDelivery }> => {
+    const response = await endpoints.webhook.replayLog(id, logId);
+    return response.data;
+  },
+
+  // Replay a delivery, e.g. a dead-lettered one
+  replayDelivery: async (
+    id: string,
+    deliveryId: string
+  ): Promise<{ success: boolean; data: WebhookDelivery }> => {
+    const response = await endpoints.webhook.replayDelivery(id, deliveryId);
+    return response.data;
+  },
+
+  // Queue every event in a time range for redelivery
+  replayRange: async (
+    id: string,
+    data: WebhookReplayRange
+  ): Promise<{ success: boolean; data: { queued: number; skipped: number } }> => {
+    const response = await endpoints.webhook.replay(id, data);
+    return response.data;
+  },
+
   // Get available topics
   getTopics: async (): Promise<{ success: boolean; data: string[] }> => {
     const response = await endpoints.webhook.topics();
     return response.data;
   },
 
+  // Get filter builder fields, operators and payload expansions
+  getFilterOptions: async (): Promise<{ success: boolean; data: WebhookFilterOptions }> => {
+    const response = await endpoints.webhook.filterOptions();
+    return response.data;
+  },
+
   // Regenerate webhook secret
   regenerateSecret: async (
     id: string
@@ -55,6 +55,8 @@ export type IKanbanTask = {
   clientId?: string;
   clientName?: string;
   clientCompany?: string;
+  // Serviced asset (optional, must belong to the task's client)
+  assetId?: string;
   // Private task flag
   isPrivate?: boolean;
   // Archive flag
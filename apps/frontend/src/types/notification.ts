@@ -11,12 +11,15 @@ export interface INotification {
     | 'task_completed'
     | 'task_deleted'
     | 'time_logged'
-    | 'time_updated';
+    | 'time_updated'
+    | 'low_stock'
+    | 'sla_warning'
+    | 'sla_breached';
   title: string;
   message?: string;
-  category: 'task' | 'system' | 'reminder';
+  category: 'task' | 'system' | 'reminder' | 'inventory';
   relatedEntity: {
-    entityType: 'task' | 'workorder' | 'project';
+    entityType: 'task' | 'workorder' | 'project' | 'material';
     entityId: string;
     entityTitle?: string;
   };
@@ -24,6 +27,7 @@ export interface INotification {
     taskId?: string;
     workOrderId?: string;
     projectId?: string;
+    materialId?: string;
     changes?: string[];
     assignerId?: string;
     reporterId?: string;
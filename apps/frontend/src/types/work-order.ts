@@ -21,7 +21,8 @@ export type IWorkOrderTimelineEntry = {
     | 'cancelled'
     | 'comment_added'
     | 'attachment_added'
-    | 'attachment_removed';
+    | 'attachment_removed'
+    | 'sla_breached';
   title: string;
   description?: string;
   metadata?: {